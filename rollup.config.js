@@ -91,7 +91,16 @@ const esmConfig = {
     'gesture/index': 'src/gesture/index.ts',
     'save/index': 'src/save/index.ts',
     'economy/index': 'src/economy/index.ts',
+    'achievements/index': 'src/achievements/index.ts',
     // v1.5 New modules
+    'random/index': 'src/random/index.ts',
+    'i18n/index': 'src/i18n/index.ts',
+    'ai/index': 'src/ai/index.ts',
+    'spatial/index': 'src/spatial/index.ts',
+    'tilemap/index': 'src/tilemap/index.ts',
+    'sprites/index': 'src/sprites/index.ts',
+    'skeletal/index': 'src/skeletal/index.ts',
+    'net/index': 'src/net/index.ts',
     'tween/index': 'src/tween/index.ts',
     'particles/index': 'src/particles/index.ts',
     'camera/index': 'src/camera/index.ts',
@@ -0,0 +1,222 @@
+import { EventEmitter } from 'eventemitter3';
+import type { EconomyManager } from '../economy/EconomyManager.js';
+import { grantRewards, persistOnChange, ProgressStore, RewardDef } from './rewards.js';
+
+export interface AchievementDef {
+  id: string;
+  name: string;
+  description?: string;
+  /** Counter this achievement tracks (shared counters can drive several achievements) */
+  counter: string;
+  /** Counter value required to unlock */
+  threshold: number;
+  /** Rewards granted on unlock */
+  rewards?: RewardDef[];
+  /** Hide from listings until unlocked */
+  hidden?: boolean;
+}
+
+export interface AchievementProgress {
+  value: number;
+  target: number;
+  /** 0..1 */
+  ratio: number;
+  unlocked: boolean;
+}
+
+export interface AchievementSaveData {
+  counters: Record<string, number>;
+  /** Achievement id → unlock timestamp (ms) */
+  unlocked: Record<string, number>;
+}
+
+export interface AchievementSystemConfig {
+  /** Economy that receives unlock rewards */
+  economy?: EconomyManager;
+  /** Clock used for unlock timestamps (default: Date.now) */
+  now?: () => number;
+}
+
+export interface AchievementSystemEvents {
+  'progress': (achievement: AchievementDef, value: number, target: number) => void;
+  'unlocked': (achievement: AchievementDef) => void;
+  'reward-granted': (reward: RewardDef, achievementId: string) => void;
+  'changed': () => void;
+}
+
+/**
+ * AchievementSystem - Declarative counter/threshold achievements.
+ *
+ * Achievements watch named counters; when a counter reaches an achievement's
+ * threshold it unlocks, grants its rewards through EconomyManager and emits
+ * `unlocked` (hook Toast or CelebrationManager there).
+ *
+ * @example
+ * ```typescript
+ * const achievements = new AchievementSystem([
+ *   { id: 'first-blood', name: 'First Blood', counter: 'kills', threshold: 1 },
+ *   { id: 'slayer', name: 'Slayer', counter: 'kills', threshold: 100,
+ *     rewards: [{ currency: 'gems', amount: 50 }] },
+ * ], { economy });
+ *
+ * achievements.persistTo(save);
+ * achievements.on('unlocked', (a) => Toast.show(stage, { text: `🏆 ${a.name}`, type: 'success' }));
+ * achievements.increment('kills');
+ * ```
+ */
+export class AchievementSystem extends EventEmitter<AchievementSystemEvents> {
+  private defs: Map<string, AchievementDef>;
+  private counters: Map<string, number>;
+  private unlocked: Map<string, number>;
+  private economy: EconomyManager | null;
+  private now: () => number;
+
+  constructor(achievements: AchievementDef[], config: AchievementSystemConfig = {}) {
+    super();
+    this.defs = new Map();
+    this.counters = new Map();
+    this.unlocked = new Map();
+    this.economy = config.economy ?? null;
+    this.now = config.now ?? Date.now;
+
+    for (const def of achievements) {
+      if (!def.id || !def.counter) throw new Error('AchievementSystem: achievement must have id and counter');
+      this.defs.set(def.id, def);
+    }
+  }
+
+  // ============================================
+  // COUNTERS
+  // ============================================
+
+  /**
+   * Add to a counter and evaluate achievements that watch it.
+   */
+  increment(counter: string, amount = 1): void {
+    if (amount <= 0) return;
+    this.setCounter(counter, this.getCounter(counter) + amount);
+  }
+
+  /**
+   * Set a counter to an absolute value (e.g. "highest level reached")
+   * and evaluate achievements that watch it.
+   */
+  setCounter(counter: string, value: number): void {
+    this.counters.set(counter, value);
+
+    for (const def of this.defs.values()) {
+      if (def.counter !== counter || this.unlocked.has(def.id)) continue;
+      if (value >= def.threshold) {
+        this.unlockDef(def);
+      } else {
+        this.emit('progress', def, value, def.threshold);
+      }
+    }
+    this.emit('changed');
+  }
+
+  /**
+   * Current value of a counter (0 if never set).
+   */
+  getCounter(counter: string): number {
+    return this.counters.get(counter) ?? 0;
+  }
+
+  // ============================================
+  // ACHIEVEMENTS
+  // ============================================
+
+  /**
+   * Unlock an achievement directly, regardless of its counter.
+   * Returns false if it is unknown or already unlocked.
+   */
+  unlock(id: string): boolean {
+    const def = this.defs.get(id);
+    if (!def || this.unlocked.has(id)) return false;
+    this.unlockDef(def);
+    this.emit('changed');
+    return true;
+  }
+
+  isUnlocked(id: string): boolean {
+    return this.unlocked.has(id);
+  }
+
+  /**
+   * Unlock timestamp (ms), or null if locked.
+   */
+  getUnlockTime(id: string): number | null {
+    return this.unlocked.get(id) ?? null;
+  }
+
+  /**
+   * Progress toward an achievement, or null if unknown.
+   */
+  getProgress(id: string): AchievementProgress | null {
+    const def = this.defs.get(id);
+    if (!def) return null;
+    const unlocked = this.unlocked.has(id);
+    const value = unlocked ? Math.max(this.getCounter(def.counter), def.threshold) : this.getCounter(def.counter);
+    const ratio = def.threshold > 0 ? Math.min(1, value / def.threshold) : 1;
+    return { value, target: def.threshold, ratio, unlocked };
+  }
+
+  /**
+   * All achievements, excluding hidden ones that are still locked.
+   */
+  getVisible(): AchievementDef[] {
+    return [...this.defs.values()].filter((d) => !d.hidden || this.unlocked.has(d.id));
+  }
+
+  /** All registered achievements */
+  getAll(): AchievementDef[] {
+    return [...this.defs.values()];
+  }
+
+  // ============================================
+  // PERSISTENCE
+  // ============================================
+
+  serialize(): AchievementSaveData {
+    return {
+      counters: Object.fromEntries(this.counters),
+      unlocked: Object.fromEntries(this.unlocked),
+    };
+  }
+
+  /**
+   * Restore state. Does not emit unlock events or grant rewards again.
+   */
+  deserialize(data: Partial<AchievementSaveData> | null | undefined): void {
+    this.counters = new Map(Object.entries(data?.counters ?? {}));
+    this.unlocked = new Map(Object.entries(data?.unlocked ?? {}));
+  }
+
+  /**
+   * Load state from a save field and write it back after changes (at most
+   * once per frame).
+   * @returns Function that writes any pending change and stops persisting
+   */
+  persistTo(store: ProgressStore, key = 'achievements'): () => void {
+    const existing = store.get(key);
+    if (existing) this.deserialize(existing);
+
+    return persistOnChange(this, store, key, () => this.serialize());
+  }
+
+  /**
+   * Reset all counters and unlocks.
+   */
+  reset(): void {
+    this.counters.clear();
+    this.unlocked.clear();
+    this.emit('changed');
+  }
+
+  private unlockDef(def: AchievementDef): void {
+    this.unlocked.set(def.id, this.now());
+    this.emit('progress', def, Math.max(this.getCounter(def.counter), def.threshold), def.threshold);
+    this.emit('unlocked', def);
+    grantRewards(def.rewards, this.economy, (reward) => this.emit('reward-granted', reward, def.id));
+  }
+}
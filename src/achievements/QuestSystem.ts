@@ -0,0 +1,314 @@
+import { EventEmitter } from 'eventemitter3';
+import type { EconomyManager } from '../economy/EconomyManager.js';
+import { grantRewards, persistOnChange, ProgressStore, RewardDef } from './rewards.js';
+
+/** When a quest's progress is wiped */
+export type QuestResetWindow = 'none' | 'daily' | 'weekly';
+
+export interface QuestStepDef {
+  /** Counter that advances this step */
+  counter: string;
+  /** Amount required to complete the step */
+  target: number;
+  description?: string;
+}
+
+export interface QuestDef {
+  id: string;
+  name: string;
+  description?: string;
+  /** Steps completed in order; progress only counts toward the current step */
+  steps: QuestStepDef[];
+  /** Reset window (default: 'none') */
+  reset?: QuestResetWindow;
+  rewards?: RewardDef[];
+  /** Grant rewards on completion instead of waiting for claim() */
+  autoClaim?: boolean;
+}
+
+export interface QuestState {
+  /** Index of the current step (== steps.length when complete) */
+  step: number;
+  /** Progress within the current step */
+  progress: number;
+  completed: boolean;
+  claimed: boolean;
+  /** Reset period the state belongs to (daily/weekly quests) */
+  period?: number;
+}
+
+export interface QuestSaveData {
+  quests: Record<string, QuestState>;
+}
+
+export interface QuestSystemConfig {
+  /** Economy that receives quest rewards */
+  economy?: EconomyManager;
+  /** Clock used for reset windows (default: Date.now) */
+  now?: () => number;
+  /**
+   * Offset in hours added to UTC when computing reset boundaries
+   * (e.g. -5 resets at 05:00 UTC). Default: 0.
+   */
+  resetOffsetHours?: number;
+}
+
+export interface QuestSystemEvents {
+  'progress': (quest: QuestDef, step: number, value: number, target: number) => void;
+  'step-completed': (quest: QuestDef, step: number) => void;
+  'completed': (quest: QuestDef) => void;
+  'claimed': (quest: QuestDef) => void;
+  'reward-granted': (reward: RewardDef, questId: string) => void;
+  'reset': (quest: QuestDef) => void;
+  'changed': () => void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+/** 1970-01-01 was a Thursday; weeks start on Monday */
+const MONDAY_OFFSET_MS = 4 * DAY_MS;
+
+/**
+ * QuestSystem - Declarative multi-step quests with daily/weekly resets.
+ *
+ * Quests advance by tracking named counters, the same vocabulary as
+ * AchievementSystem, so one `track('kills')` call can feed both.
+ *
+ * @example
+ * ```typescript
+ * const quests = new QuestSystem([
+ *   { id: 'daily-runner', name: 'Daily Runner', reset: 'daily',
+ *     steps: [{ counter: 'runs', target: 3 }, { counter: 'coins', target: 500 }],
+ *     rewards: [{ currency: 'gems', amount: 10 }] },
+ * ], { economy });
+ *
+ * quests.persistTo(save);
+ * quests.on('completed', (q) => celebration.levelComplete());
+ * quests.track('runs');
+ * quests.claim('daily-runner');
+ * ```
+ */
+export class QuestSystem extends EventEmitter<QuestSystemEvents> {
+  private defs: Map<string, QuestDef>;
+  private states: Map<string, QuestState>;
+  private economy: EconomyManager | null;
+  private now: () => number;
+  private resetOffsetMs: number;
+
+  constructor(quests: QuestDef[], config: QuestSystemConfig = {}) {
+    super();
+    this.defs = new Map();
+    this.states = new Map();
+    this.economy = config.economy ?? null;
+    this.now = config.now ?? Date.now;
+    this.resetOffsetMs = (config.resetOffsetHours ?? 0) * HOUR_MS;
+
+    for (const def of quests) {
+      if (!def.id || !def.steps || def.steps.length === 0) {
+        throw new Error(`QuestSystem: quest "${def.id}" must have an id and at least one step`);
+      }
+      this.defs.set(def.id, def);
+    }
+  }
+
+  // ============================================
+  // PROGRESS
+  // ============================================
+
+  /**
+   * Advance every active quest whose current step watches `counter`.
+   */
+  track(counter: string, amount = 1): void {
+    if (amount <= 0) return;
+    this.checkResets();
+
+    let changed = false;
+    for (const def of this.defs.values()) {
+      const state = this.getOrCreateState(def);
+      if (state.completed) continue;
+      const step = def.steps[state.step];
+      if (step.counter !== counter) continue;
+
+      state.progress = Math.min(step.target, state.progress + amount);
+      changed = true;
+      this.emit('progress', def, state.step, state.progress, step.target);
+
+      if (state.progress >= step.target) {
+        this.advanceStep(def, state);
+      }
+    }
+    if (changed) this.emit('changed');
+  }
+
+  /**
+   * Claim a completed quest's rewards. Returns false if the quest is
+   * unknown, incomplete or already claimed.
+   */
+  claim(id: string): boolean {
+    this.checkResets();
+    const def = this.defs.get(id);
+    const state = this.states.get(id);
+    if (!def || !state || !state.completed || state.claimed) return false;
+
+    this.claimState(def, state);
+    this.emit('changed');
+    return true;
+  }
+
+  /**
+   * Wipe progress of quests whose reset window has rolled over.
+   * Called automatically by track()/claim(); call it on resume to refresh UI.
+   */
+  checkResets(): void {
+    let changed = false;
+    for (const def of this.defs.values()) {
+      const window = def.reset ?? 'none';
+      if (window === 'none') continue;
+
+      const period = this.periodOf(window);
+      const state = this.states.get(def.id);
+      if (!state) continue;
+      if (state.period !== period) {
+        this.states.set(def.id, this.freshState(period));
+        changed = true;
+        this.emit('reset', def);
+      }
+    }
+    if (changed) this.emit('changed');
+  }
+
+  /**
+   * Milliseconds until a quest's next reset, or null for non-resetting quests.
+   */
+  getTimeUntilReset(id: string): number | null {
+    const def = this.defs.get(id);
+    const window = def?.reset ?? 'none';
+    if (!def || window === 'none') return null;
+
+    const size = window === 'daily' ? DAY_MS : WEEK_MS;
+    const origin = window === 'daily' ? 0 : MONDAY_OFFSET_MS;
+    const next = (this.periodOf(window) + 1) * size + origin - this.resetOffsetMs;
+    return next - this.now();
+  }
+
+  // ============================================
+  // QUERIES
+  // ============================================
+
+  getState(id: string): QuestState | null {
+    const def = this.defs.get(id);
+    if (!def) return null;
+    return { ...this.getOrCreateState(def) };
+  }
+
+  isCompleted(id: string): boolean {
+    return this.states.get(id)?.completed ?? false;
+  }
+
+  isClaimed(id: string): boolean {
+    return this.states.get(id)?.claimed ?? false;
+  }
+
+  /** Quests that are not yet completed */
+  getActive(): QuestDef[] {
+    return [...this.defs.values()].filter((d) => !this.isCompleted(d.id));
+  }
+
+  /** Completed quests waiting for claim() */
+  getClaimable(): QuestDef[] {
+    return [...this.defs.values()].filter((d) => this.isCompleted(d.id) && !this.isClaimed(d.id));
+  }
+
+  getAll(): QuestDef[] {
+    return [...this.defs.values()];
+  }
+
+  // ============================================
+  // PERSISTENCE
+  // ============================================
+
+  serialize(): QuestSaveData {
+    const quests: Record<string, QuestState> = {};
+    for (const [id, state] of this.states) quests[id] = { ...state };
+    return { quests };
+  }
+
+  /**
+   * Restore state. Entries for unknown quests are dropped; stale
+   * daily/weekly entries reset on the next checkResets().
+   */
+  deserialize(data: Partial<QuestSaveData> | null | undefined): void {
+    this.states.clear();
+    for (const [id, state] of Object.entries(data?.quests ?? {})) {
+      const def = this.defs.get(id);
+      if (!def) continue;
+      this.states.set(id, {
+        ...state,
+        step: Math.min(state.step, def.steps.length),
+      });
+    }
+  }
+
+  /**
+   * Load state from a save field and write it back after changes (at most
+   * once per frame).
+   * @returns Function that writes any pending change and stops persisting
+   */
+  persistTo(store: ProgressStore, key = 'quests'): () => void {
+    const existing = store.get(key);
+    if (existing) this.deserialize(existing);
+    this.checkResets();
+
+    return persistOnChange(this, store, key, () => this.serialize());
+  }
+
+  /**
+   * Reset all quest progress.
+   */
+  reset(): void {
+    this.states.clear();
+    this.emit('changed');
+  }
+
+  private advanceStep(def: QuestDef, state: QuestState): void {
+    this.emit('step-completed', def, state.step);
+    state.step++;
+    state.progress = 0;
+
+    if (state.step >= def.steps.length) {
+      state.completed = true;
+      this.emit('completed', def);
+      if (def.autoClaim) this.claimState(def, state);
+    }
+  }
+
+  private claimState(def: QuestDef, state: QuestState): void {
+    state.claimed = true;
+    this.emit('claimed', def);
+    grantRewards(def.rewards, this.economy, (reward) => this.emit('reward-granted', reward, def.id));
+  }
+
+  private getOrCreateState(def: QuestDef): QuestState {
+    let state = this.states.get(def.id);
+    if (!state) {
+      const window = def.reset ?? 'none';
+      state = this.freshState(window === 'none' ? undefined : this.periodOf(window));
+      this.states.set(def.id, state);
+    }
+    return state;
+  }
+
+  private freshState(period?: number): QuestState {
+    const state: QuestState = { step: 0, progress: 0, completed: false, claimed: false };
+    if (period !== undefined) state.period = period;
+    return state;
+  }
+
+  private periodOf(window: Exclude<QuestResetWindow, 'none'>): number {
+    const t = this.now() + this.resetOffsetMs;
+    return window === 'daily'
+      ? Math.floor(t / DAY_MS)
+      : Math.floor((t - MONDAY_OFFSET_MS) / WEEK_MS);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Achievements Module - GameByte Framework
+ *
+ * Declarative achievements and quests with economy rewards and save persistence.
+ *
+ * @module achievements
+ * @example
+ * ```typescript
+ * import { AchievementSystem, QuestSystem } from '@gamebyte/framework/achievements';
+ * ```
+ */
+
+export { AchievementSystem } from './AchievementSystem.js';
+export type {
+  AchievementDef,
+  AchievementProgress,
+  AchievementSaveData,
+  AchievementSystemConfig,
+  AchievementSystemEvents,
+} from './AchievementSystem.js';
+
+export { QuestSystem } from './QuestSystem.js';
+export type {
+  QuestDef,
+  QuestStepDef,
+  QuestState,
+  QuestSaveData,
+  QuestResetWindow,
+  QuestSystemConfig,
+  QuestSystemEvents,
+} from './QuestSystem.js';
+
+export type { RewardDef, ProgressStore } from './rewards.js';
@@ -0,0 +1,63 @@
+import type { EconomyManager } from '../economy/EconomyManager.js';
+
+/** Currency reward granted through EconomyManager.add */
+export interface RewardDef {
+  currency: string;
+  amount: number;
+}
+
+/**
+ * Key/value store used for persistence. SaveSystem and SaveSlotSystem both
+ * satisfy it; progress is stored as one JSON-safe field.
+ */
+export interface ProgressStore {
+  get(key: string): any;
+  set(key: string, value: any): void;
+}
+
+/**
+ * Grant rewards through the economy (if any) and report each one.
+ * @internal
+ */
+export function grantRewards(
+  rewards: RewardDef[] | undefined,
+  economy: EconomyManager | null,
+  onGranted: (reward: RewardDef) => void
+): void {
+  if (!rewards) return;
+  for (const reward of rewards) {
+    if (reward.amount <= 0) continue;
+    economy?.add(reward.currency, reward.amount);
+    onGranted(reward);
+  }
+}
+
+/**
+ * Write `serialize()` to `store[key]` after 'changed', at most once per
+ * frame. Stopping writes any change still pending.
+ * @internal
+ */
+export function persistOnChange(
+  emitter: { on(event: 'changed', fn: () => void): unknown; off(event: 'changed', fn: () => void): unknown },
+  store: ProgressStore,
+  key: string,
+  serialize: () => unknown
+): () => void {
+  let pending = false;
+  const write = () => {
+    if (!pending) return;
+    pending = false;
+    store.set(key, serialize());
+  };
+  const schedule = () => {
+    if (pending) return;
+    pending = true;
+    if (typeof requestAnimationFrame === 'function') requestAnimationFrame(write);
+    else setTimeout(write, 16);
+  };
+  emitter.on('changed', schedule);
+  return () => {
+    emitter.off('changed', schedule);
+    write();
+  };
+}
@@ -0,0 +1,594 @@
+import { Logger } from '../utils/Logger.js';
+import type { Blackboard } from './Blackboard.js';
+
+/** Result of ticking a behavior tree node */
+export type BTStatus = 'success' | 'failure' | 'running';
+
+/**
+ * Per-tick data handed to every node.
+ * @template T - The entity type the tree controls
+ */
+export interface BTContext<T = any> {
+  entity: T;
+  blackboard: Blackboard;
+  /** Seconds since the previous tick */
+  delta: number;
+  /** Seconds since the tree instance was created */
+  elapsed: number;
+}
+
+/**
+ * Context passed to action and condition leaves.
+ */
+export interface BTLeafContext<T = any> extends BTContext<T> {
+  /** `args` from the node definition (JSON-authored parameters) */
+  args: Record<string, unknown>;
+  /** Aborted when the leaf is interrupted (timeout, reactive branch switch, reset) */
+  signal: AbortSignal;
+}
+
+/**
+ * Action leaf. Return a status, a boolean (true = success) or nothing
+ * (success). Returning a Promise keeps the node `running` until it settles;
+ * a rejection counts as failure.
+ */
+export type BTActionFn<T = any> = (
+  ctx: BTLeafContext<T>
+) => BTStatus | boolean | void | Promise<BTStatus | boolean | void>;
+
+/** Condition leaf: true = success, false = failure */
+export type BTConditionFn<T = any> = (ctx: BTLeafContext<T>) => boolean;
+
+/**
+ * Declarative node definition. Plain data (apart from inline functions),
+ * so whole trees can be authored as JSON.
+ *
+ * Built-in types:
+ * - `sequence` / `selector` (`children`, optional `reactive`)
+ * - `parallel` (`children`, `successThreshold` default: all)
+ * - `inverter`, `succeeder` (`child`)
+ * - `repeat` (`child`, `count` default: forever)
+ * - `cooldown`, `timeout` (`child`, `seconds`)
+ * - `wait` (`seconds`)
+ * - `action` (`action`, `args`), `condition` (`condition`, `args`)
+ * - `subtree` (`tree`: id of a tree in the library)
+ */
+export interface BTNodeDef {
+  type: string;
+  /** Label for debugging */
+  name?: string;
+  children?: BTNodeDef[];
+  child?: BTNodeDef;
+  /** Registered action name, or an inline function */
+  action?: string | BTActionFn;
+  /** Registered condition name, or an inline function */
+  condition?: string | BTConditionFn;
+  args?: Record<string, unknown>;
+  seconds?: number;
+  count?: number;
+  successThreshold?: number;
+  /** Re-evaluate earlier children every tick, interrupting a running later child */
+  reactive?: boolean;
+  tree?: string;
+  /** Extra parameters for custom node types */
+  [param: string]: unknown;
+}
+
+/**
+ * Runtime node. One tree of these is built per BehaviorTreeInstance, so
+ * nodes may keep per-entity state.
+ */
+export abstract class BTNode {
+  readonly name: string;
+  /** Status returned by the most recent tick (null before the first) */
+  lastStatus: BTStatus | null = null;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  /** Tick the node and record its status */
+  execute(ctx: BTContext): BTStatus {
+    this.lastStatus = this.tick(ctx);
+    return this.lastStatus;
+  }
+
+  /**
+   * Abort any running work and forget progress.
+   * Nodes also reset themselves when they finish.
+   */
+  reset(): void {
+    // Stateless by default
+  }
+
+  /** Child nodes, for debugging/inspection */
+  getChildren(): BTNode[] {
+    return [];
+  }
+
+  protected abstract tick(ctx: BTContext): BTStatus;
+}
+
+// ============================================
+// COMPOSITES
+// ============================================
+
+abstract class CompositeNode extends BTNode {
+  protected children: BTNode[];
+  protected reactive: boolean;
+  /** Index of the child left running, or -1 */
+  protected running = -1;
+
+  constructor(name: string, children: BTNode[], reactive: boolean) {
+    super(name);
+    this.children = children;
+    this.reactive = reactive;
+  }
+
+  reset(): void {
+    if (this.running !== -1) this.children[this.running].reset();
+    this.running = -1;
+  }
+
+  getChildren(): BTNode[] {
+    return this.children;
+  }
+
+  /**
+   * Shared sequence/selector loop. `skip` is the status that moves on to the
+   * next child (success for sequences, failure for selectors).
+   */
+  protected runChildren(ctx: BTContext, skip: BTStatus): BTStatus {
+    const start = this.reactive || this.running === -1 ? 0 : this.running;
+
+    for (let i = start; i < this.children.length; i++) {
+      const status = this.children[i].execute(ctx);
+      if (status === skip) continue;
+
+      // A different child took over: interrupt the one left running
+      if (this.running !== -1 && this.running !== i) this.children[this.running].reset();
+
+      if (status === 'running') {
+        this.running = i;
+        return 'running';
+      }
+      this.running = -1;
+      return status;
+    }
+
+    this.running = -1;
+    return skip;
+  }
+}
+
+/** Runs children in order; fails on the first failure */
+export class SequenceNode extends CompositeNode {
+  protected tick(ctx: BTContext): BTStatus {
+    return this.runChildren(ctx, 'success');
+  }
+}
+
+/** Runs children in order; succeeds on the first success */
+export class SelectorNode extends CompositeNode {
+  protected tick(ctx: BTContext): BTStatus {
+    return this.runChildren(ctx, 'failure');
+  }
+}
+
+/**
+ * Ticks all children every tick. Succeeds once `successThreshold` children
+ * succeed, fails once that is no longer reachable; the rest are aborted.
+ */
+export class ParallelNode extends BTNode {
+  private children: BTNode[];
+  private threshold: number;
+  private results: Array<BTStatus | null>;
+
+  constructor(name: string, children: BTNode[], successThreshold?: number) {
+    super(name);
+    this.children = children;
+    this.threshold = Math.max(1, Math.min(successThreshold ?? children.length, children.length));
+    this.results = children.map(() => null);
+  }
+
+  reset(): void {
+    for (let i = 0; i < this.children.length; i++) {
+      if (this.results[i] === 'running') this.children[i].reset();
+      this.results[i] = null;
+    }
+  }
+
+  getChildren(): BTNode[] {
+    return this.children;
+  }
+
+  protected tick(ctx: BTContext): BTStatus {
+    let successes = 0;
+    let failures = 0;
+
+    for (let i = 0; i < this.children.length; i++) {
+      const previous = this.results[i];
+      if (previous !== 'success' && previous !== 'failure') {
+        this.results[i] = this.children[i].execute(ctx);
+      }
+      if (this.results[i] === 'success') successes++;
+      else if (this.results[i] === 'failure') failures++;
+    }
+
+    if (successes >= this.threshold) {
+      this.reset();
+      return 'success';
+    }
+    if (failures > this.children.length - this.threshold) {
+      this.reset();
+      return 'failure';
+    }
+    return 'running';
+  }
+}
+
+// ============================================
+// DECORATORS
+// ============================================
+
+abstract class DecoratorNode extends BTNode {
+  protected child: BTNode;
+
+  constructor(name: string, child: BTNode) {
+    super(name);
+    this.child = child;
+  }
+
+  reset(): void {
+    this.child.reset();
+  }
+
+  getChildren(): BTNode[] {
+    return [this.child];
+  }
+}
+
+/** Swaps success and failure */
+export class InverterNode extends DecoratorNode {
+  protected tick(ctx: BTContext): BTStatus {
+    const status = this.child.execute(ctx);
+    if (status === 'running') return 'running';
+    return status === 'success' ? 'failure' : 'success';
+  }
+}
+
+/** Turns failure into success */
+export class SucceederNode extends DecoratorNode {
+  protected tick(ctx: BTContext): BTStatus {
+    return this.child.execute(ctx) === 'running' ? 'running' : 'success';
+  }
+}
+
+/**
+ * Re-runs its child after each success, `count` times (forever if omitted).
+ * Fails as soon as the child fails. Runs at most one iteration per tick.
+ */
+export class RepeatNode extends DecoratorNode {
+  private count: number;
+  private done = 0;
+
+  constructor(name: string, child: BTNode, count?: number) {
+    super(name, child);
+    this.count = count ?? Infinity;
+  }
+
+  reset(): void {
+    super.reset();
+    this.done = 0;
+  }
+
+  protected tick(ctx: BTContext): BTStatus {
+    const status = this.child.execute(ctx);
+    if (status === 'running') return 'running';
+    if (status === 'failure') {
+      this.done = 0;
+      return 'failure';
+    }
+    if (++this.done >= this.count) {
+      this.done = 0;
+      return 'success';
+    }
+    return 'running';
+  }
+}
+
+/**
+ * Fails without ticking its child for `seconds` after the child finishes.
+ * The cooldown survives resets (an interrupted attack does not start one).
+ */
+export class CooldownNode extends DecoratorNode {
+  private seconds: number;
+  private readyAt = -Infinity;
+  private active = false;
+
+  constructor(name: string, child: BTNode, seconds: number) {
+    super(name, child);
+    this.seconds = seconds;
+  }
+
+  reset(): void {
+    super.reset();
+    this.active = false;
+  }
+
+  protected tick(ctx: BTContext): BTStatus {
+    if (!this.active && ctx.elapsed < this.readyAt) return 'failure';
+
+    const status = this.child.execute(ctx);
+    this.active = status === 'running';
+    if (!this.active) this.readyAt = ctx.elapsed + this.seconds;
+    return status;
+  }
+}
+
+/** Aborts its child and fails if it runs longer than `seconds` */
+export class TimeoutNode extends DecoratorNode {
+  private seconds: number;
+  private startedAt: number | null = null;
+
+  constructor(name: string, child: BTNode, seconds: number) {
+    super(name, child);
+    this.seconds = seconds;
+  }
+
+  reset(): void {
+    super.reset();
+    this.startedAt = null;
+  }
+
+  protected tick(ctx: BTContext): BTStatus {
+    if (this.startedAt === null) {
+      this.startedAt = ctx.elapsed;
+    } else if (ctx.elapsed - this.startedAt >= this.seconds) {
+      this.reset();
+      return 'failure';
+    }
+
+    const status = this.child.execute(ctx);
+    if (status !== 'running') this.startedAt = null;
+    return status;
+  }
+}
+
+// ============================================
+// LEAVES
+// ============================================
+
+/** Succeeds after `seconds` */
+export class WaitNode extends BTNode {
+  private seconds: number;
+  private startedAt: number | null = null;
+
+  constructor(name: string, seconds: number) {
+    super(name);
+    this.seconds = seconds;
+  }
+
+  reset(): void {
+    this.startedAt = null;
+  }
+
+  protected tick(ctx: BTContext): BTStatus {
+    if (this.startedAt === null) this.startedAt = ctx.elapsed;
+    if (ctx.elapsed - this.startedAt < this.seconds) return 'running';
+    this.startedAt = null;
+    return 'success';
+  }
+}
+
+abstract class LeafNode extends BTNode {
+  protected args: Record<string, unknown>;
+  protected controller: AbortController | null = null;
+
+  constructor(name: string, args: Record<string, unknown> = {}) {
+    super(name);
+    this.args = args;
+  }
+
+  protected leafContext(ctx: BTContext): BTLeafContext {
+    if (!this.controller) this.controller = new AbortController();
+    return {
+      entity: ctx.entity,
+      blackboard: ctx.blackboard,
+      delta: ctx.delta,
+      elapsed: ctx.elapsed,
+      args: this.args,
+      signal: this.controller.signal,
+    };
+  }
+}
+
+/** Calls a condition function */
+export class ConditionNode extends LeafNode {
+  private fn: BTConditionFn;
+
+  constructor(name: string, fn: BTConditionFn, args?: Record<string, unknown>) {
+    super(name, args);
+    this.fn = fn;
+  }
+
+  protected tick(ctx: BTContext): BTStatus {
+    try {
+      return this.fn(this.leafContext(ctx)) ? 'success' : 'failure';
+    } catch (error) {
+      Logger.warn('BehaviorTree', `Condition '${this.name}' threw:`, error);
+      return 'failure';
+    }
+  }
+}
+
+/**
+ * Calls an action function. Sync actions may return `running` to be
+ * ticked again; async actions stay running until their promise settles.
+ */
+export class ActionNode extends LeafNode {
+  private fn: BTActionFn;
+  private pending = false;
+  private settled: BTStatus | null = null;
+  /** Bumped on reset so stale promises are ignored */
+  private generation = 0;
+
+  constructor(name: string, fn: BTActionFn, args?: Record<string, unknown>) {
+    super(name, args);
+    this.fn = fn;
+  }
+
+  reset(): void {
+    // The controller only exists while the action is in progress
+    this.controller?.abort();
+    this.controller = null;
+    this.pending = false;
+    this.settled = null;
+    this.generation++;
+  }
+
+  protected tick(ctx: BTContext): BTStatus {
+    if (this.pending) {
+      if (this.settled === null) return 'running';
+      const result = this.settled;
+      this.finish();
+      return result;
+    }
+
+    let result: ReturnType<BTActionFn>;
+    try {
+      result = this.fn(this.leafContext(ctx));
+    } catch (error) {
+      Logger.warn('BehaviorTree', `Action '${this.name}' threw:`, error);
+      this.finish();
+      return 'failure';
+    }
+
+    if (result && typeof (result as Promise<unknown>).then === 'function') {
+      const generation = this.generation;
+      this.pending = true;
+      (result as Promise<BTStatus | boolean | void>).then(
+        (value) => {
+          if (generation === this.generation) this.settled = toStatus(value);
+        },
+        (error) => {
+          if (generation !== this.generation) return;
+          Logger.warn('BehaviorTree', `Action '${this.name}' rejected:`, error);
+          this.settled = 'failure';
+        }
+      );
+      return 'running';
+    }
+
+    const status = toStatus(result as BTStatus | boolean | void);
+    if (status !== 'running') this.finish();
+    return status;
+  }
+
+  private finish(): void {
+    this.controller = null;
+    this.pending = false;
+    this.settled = null;
+  }
+}
+
+function toStatus(value: BTStatus | boolean | void): BTStatus {
+  if (value === undefined || value === true) return 'success';
+  if (value === false) return 'failure';
+  return value;
+}
+
+// ============================================
+// BUILDING
+// ============================================
+
+/**
+ * Lookups used while building runtime nodes from definitions.
+ */
+export interface BTResolver {
+  action(name: string): BTActionFn | undefined;
+  condition(name: string): BTConditionFn | undefined;
+  tree(id: string): BTNodeDef | undefined;
+  nodeType(type: string): BTNodeFactory | undefined;
+}
+
+/**
+ * Factory for a custom node type. `build` turns child definitions into nodes.
+ */
+export type BTNodeFactory = (def: BTNodeDef, build: (child: BTNodeDef) => BTNode) => BTNode;
+
+/**
+ * Build a runtime node tree from a definition.
+ * Throws on unknown types, missing children and unresolved leaves.
+ * @internal
+ */
+export function buildNode(def: BTNodeDef, resolver: BTResolver, trees: string[] = []): BTNode {
+  const build = (child: BTNodeDef) => buildNode(child, resolver, trees);
+  const name = def.name ?? def.type;
+
+  const children = (): BTNode[] => {
+    if (!Array.isArray(def.children) || def.children.length === 0) {
+      throw new Error(`BehaviorTree: '${name}' (${def.type}) needs at least one child`);
+    }
+    return def.children.map(build);
+  };
+  const child = (): BTNode => {
+    if (!def.child) throw new Error(`BehaviorTree: '${name}' (${def.type}) needs a child`);
+    return build(def.child);
+  };
+  const seconds = (): number => {
+    if (typeof def.seconds !== 'number' || def.seconds < 0) {
+      throw new Error(`BehaviorTree: '${name}' (${def.type}) needs a non-negative 'seconds'`);
+    }
+    return def.seconds;
+  };
+
+  switch (def.type) {
+    case 'sequence':
+      return new SequenceNode(name, children(), def.reactive ?? false);
+    case 'selector':
+      return new SelectorNode(name, children(), def.reactive ?? false);
+    case 'parallel':
+      return new ParallelNode(name, children(), def.successThreshold);
+    case 'inverter':
+      return new InverterNode(name, child());
+    case 'succeeder':
+      return new SucceederNode(name, child());
+    case 'repeat':
+      return new RepeatNode(name, child(), def.count);
+    case 'cooldown':
+      return new CooldownNode(name, child(), seconds());
+    case 'timeout':
+      return new TimeoutNode(name, child(), seconds());
+    case 'wait':
+      return new WaitNode(name, seconds());
+
+    case 'action': {
+      const fn = typeof def.action === 'function' ? def.action : resolver.action(def.action ?? '');
+      if (!fn) throw new Error(`BehaviorTree: unknown action '${String(def.action)}'`);
+      return new ActionNode(def.name ?? (typeof def.action === 'string' ? def.action : 'action'), fn, def.args);
+    }
+
+    case 'condition': {
+      const fn = typeof def.condition === 'function' ? def.condition : resolver.condition(def.condition ?? '');
+      if (!fn) throw new Error(`BehaviorTree: unknown condition '${String(def.condition)}'`);
+      return new ConditionNode(def.name ?? (typeof def.condition === 'string' ? def.condition : 'condition'), fn, def.args);
+    }
+
+    case 'subtree': {
+      const id = def.tree ?? '';
+      if (trees.includes(id)) {
+        throw new Error(`BehaviorTree: subtree cycle ${[...trees, id].join(' -> ')}`);
+      }
+      const root = resolver.tree(id);
+      if (!root) throw new Error(`BehaviorTree: unknown subtree '${id}'`);
+      return buildNode(root, resolver, [...trees, id]);
+    }
+
+    default: {
+      const factory = resolver.nodeType(def.type);
+      if (!factory) throw new Error(`BehaviorTree: unknown node type '${def.type}'`);
+      return factory(def, build);
+    }
+  }
+}
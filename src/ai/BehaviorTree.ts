@@ -0,0 +1,231 @@
+import { EventEmitter } from 'eventemitter3';
+import type { ITickSystem, TickSubscriptionHandle } from '../contracts/Tick.js';
+import { Blackboard } from './Blackboard.js';
+import {
+  buildNode,
+  BTActionFn,
+  BTConditionFn,
+  BTContext,
+  BTNode,
+  BTNodeDef,
+  BTResolver,
+  BTStatus,
+} from './BehaviorNode.js';
+
+/**
+ * Events emitted by BehaviorTreeInstance
+ */
+export interface BehaviorTreeEvents {
+  /** The root finished; the next update starts a new pass */
+  'completed': (status: Exclude<BTStatus, 'running'>) => void;
+}
+
+export interface BehaviorTreeInstanceOptions {
+  /** Blackboard to use (default: a new one, parented to `parentBlackboard`) */
+  blackboard?: Blackboard;
+  /** Shared blackboard that reads fall through to */
+  parentBlackboard?: Blackboard;
+}
+
+const EMPTY_RESOLVER: BTResolver = {
+  action: () => undefined,
+  condition: () => undefined,
+  tree: () => undefined,
+  nodeType: () => undefined,
+};
+
+/**
+ * Per-entity instance of a behavior tree.
+ * Owns its runtime nodes (and their memory) and its blackboard.
+ * @template T - The entity type this instance controls
+ */
+export class BehaviorTreeInstance<T = any> extends EventEmitter<BehaviorTreeEvents> {
+  readonly blackboard: Blackboard;
+  private root: BTNode;
+  private context: BTContext<T>;
+  private _status: BTStatus | null = null;
+  private tickHandle: TickSubscriptionHandle | null = null;
+
+  /**
+   * @param entity - The entity this tree controls
+   * @param root - Built runtime root node
+   * @param options - Blackboard options
+   */
+  constructor(entity: T, root: BTNode, options: BehaviorTreeInstanceOptions = {}) {
+    super();
+    this.root = root;
+    this.blackboard = options.blackboard ?? new Blackboard({}, options.parentBlackboard ?? null);
+    this.context = { entity, blackboard: this.blackboard, delta: 0, elapsed: 0 };
+  }
+
+  /**
+   * Tick the tree once
+   * @param deltaTime - Time since last tick in seconds
+   * @returns Root status for this tick
+   */
+  public update(deltaTime: number): BTStatus {
+    this.context.delta = deltaTime;
+    this.context.elapsed += deltaTime;
+
+    const status = this.root.execute(this.context);
+    this._status = status;
+    if (status !== 'running') this.emit('completed', status);
+    return status;
+  }
+
+  /**
+   * Drive the tree from a TickSystem
+   * @param tick - The tick system
+   * @param priority - Subscription priority (default 0)
+   */
+  public attach(tick: Pick<ITickSystem, 'subscribe'>, priority = 0): this {
+    this.detach();
+    this.tickHandle = tick.subscribe((state) => this.update(state.delta), priority);
+    return this;
+  }
+
+  /**
+   * Stop being driven by the TickSystem
+   */
+  public detach(): void {
+    this.tickHandle?.unsubscribe();
+    this.tickHandle = null;
+  }
+
+  /**
+   * Abort running actions and restart from the root on the next update
+   */
+  public reset(): void {
+    this.root.reset();
+    this._status = null;
+  }
+
+  /** Root status from the last update (null before the first) */
+  public get status(): BTStatus | null {
+    return this._status;
+  }
+
+  /** Entity this tree controls */
+  public getEntity(): T {
+    return this.context.entity;
+  }
+
+  /** Root runtime node, for debugging (walk getChildren()/lastStatus) */
+  public getRoot(): BTNode {
+    return this.root;
+  }
+
+  /**
+   * Detach, abort running actions and remove all listeners
+   */
+  public destroy(): void {
+    this.detach();
+    this.root.reset();
+    this.removeAllListeners();
+  }
+}
+
+/**
+ * Behavior tree template/definition.
+ * Define the tree once, then create an instance per entity.
+ *
+ * Leaves may be inline functions or names resolved through a
+ * BehaviorTreeLibrary (required for JSON-authored trees).
+ *
+ * @template T - The entity type this tree operates on
+ *
+ * @example
+ * ```typescript
+ * const enemyAI = new BehaviorTree<Enemy>(
+ *   BT.selector([
+ *     BT.sequence([
+ *       BT.condition((c) => c.entity.distanceTo(player) < 2),
+ *       BT.cooldown(1.5, BT.action((c) => c.entity.attack())),
+ *     ]),
+ *     BT.action((c) => { c.entity.moveToward(player, c.delta); return 'running'; }),
+ *   ], { reactive: true })
+ * );
+ *
+ * const brain = enemyAI.createInstance(enemy).attach(tickSystem);
+ * ```
+ */
+export class BehaviorTree<T = any> {
+  private root: BTNodeDef;
+  private resolver: BTResolver;
+
+  /**
+   * @param root - Root node definition
+   * @param resolver - Resolves named actions, conditions, subtrees and custom node types
+   */
+  constructor(root: BTNodeDef, resolver: BTResolver = EMPTY_RESOLVER) {
+    this.root = root;
+    this.resolver = resolver;
+    // Build once to surface definition errors early
+    buildNode(root, resolver);
+  }
+
+  /**
+   * Create a new instance for an entity
+   * @param entity - The entity the instance will control
+   * @param options - Blackboard options
+   */
+  public createInstance(entity: T, options?: BehaviorTreeInstanceOptions): BehaviorTreeInstance<T> {
+    return new BehaviorTreeInstance(entity, buildNode(this.root, this.resolver), options);
+  }
+
+  /** Root node definition */
+  public getDefinition(): BTNodeDef {
+    return this.root;
+  }
+}
+
+type CompositeOptions = Pick<BTNodeDef, 'name' | 'reactive'>;
+
+/**
+ * Builders for node definitions.
+ *
+ * @example
+ * ```typescript
+ * BT.sequence([BT.condition('has-target'), BT.timeout(3, BT.action('chase'))]);
+ * ```
+ */
+export const BT = {
+  sequence(children: BTNodeDef[], options: CompositeOptions = {}): BTNodeDef {
+    return { type: 'sequence', children, ...options };
+  },
+  selector(children: BTNodeDef[], options: CompositeOptions = {}): BTNodeDef {
+    return { type: 'selector', children, ...options };
+  },
+  parallel(children: BTNodeDef[], successThreshold?: number): BTNodeDef {
+    return successThreshold === undefined
+      ? { type: 'parallel', children }
+      : { type: 'parallel', children, successThreshold };
+  },
+  inverter(child: BTNodeDef): BTNodeDef {
+    return { type: 'inverter', child };
+  },
+  succeeder(child: BTNodeDef): BTNodeDef {
+    return { type: 'succeeder', child };
+  },
+  repeat(child: BTNodeDef, count?: number): BTNodeDef {
+    return count === undefined ? { type: 'repeat', child } : { type: 'repeat', child, count };
+  },
+  cooldown(seconds: number, child: BTNodeDef): BTNodeDef {
+    return { type: 'cooldown', seconds, child };
+  },
+  timeout(seconds: number, child: BTNodeDef): BTNodeDef {
+    return { type: 'timeout', seconds, child };
+  },
+  wait(seconds: number): BTNodeDef {
+    return { type: 'wait', seconds };
+  },
+  action(action: string | BTActionFn, args?: Record<string, unknown>): BTNodeDef {
+    return args ? { type: 'action', action, args } : { type: 'action', action };
+  },
+  condition(condition: string | BTConditionFn, args?: Record<string, unknown>): BTNodeDef {
+    return args ? { type: 'condition', condition, args } : { type: 'condition', condition };
+  },
+  subtree(tree: string): BTNodeDef {
+    return { type: 'subtree', tree };
+  },
+};
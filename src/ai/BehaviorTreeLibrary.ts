@@ -0,0 +1,130 @@
+import { BehaviorTree, BehaviorTreeInstance, BehaviorTreeInstanceOptions } from './BehaviorTree.js';
+import type {
+  BTActionFn,
+  BTConditionFn,
+  BTNodeDef,
+  BTNodeFactory,
+  BTResolver,
+} from './BehaviorNode.js';
+
+/**
+ * JSON shape of a named tree.
+ */
+export interface BehaviorTreeConfig {
+  id: string;
+  root: BTNodeDef;
+}
+
+/**
+ * BehaviorTreeLibrary - Registry of named trees, actions and conditions.
+ *
+ * Code registers the leaf behaviors; designers author trees as JSON that
+ * refer to them by name. Trees can reuse each other through `subtree` nodes.
+ *
+ * @example
+ * ```typescript
+ * const ai = new BehaviorTreeLibrary();
+ * ai.registerCondition('player-in-range', ({ entity, args }) => entity.distanceToPlayer() < (args.range as number));
+ * ai.registerAction('attack', ({ entity }) => entity.attack());
+ * ai.registerAction('chase', ({ entity, delta }) => { entity.chase(delta); return 'running'; });
+ *
+ * ai.registerFromJSON(await (await fetch('ai/enemies.json')).json());
+ * // [{ "id": "grunt", "root": { "type": "selector", "reactive": true, "children": [
+ * //   { "type": "sequence", "children": [
+ * //     { "type": "condition", "condition": "player-in-range", "args": { "range": 2 } },
+ * //     { "type": "cooldown", "seconds": 1.5, "child": { "type": "action", "action": "attack" } } ] },
+ * //   { "type": "action", "action": "chase" } ] } }]
+ *
+ * const brain = ai.createInstance('grunt', enemy).attach(tickSystem);
+ * ```
+ */
+export class BehaviorTreeLibrary implements BTResolver {
+  private trees = new Map<string, BTNodeDef>();
+  private compiled = new Map<string, BehaviorTree>();
+  private actions = new Map<string, BTActionFn>();
+  private conditions = new Map<string, BTConditionFn>();
+  private nodeTypes = new Map<string, BTNodeFactory>();
+
+  /**
+   * Register a named tree definition.
+   */
+  register(id: string, root: BTNodeDef): void {
+    this.trees.set(id, root);
+    this.compiled.clear();
+  }
+
+  /**
+   * Register tree(s) from parsed JSON (`{ id, root }` or an array of them).
+   */
+  registerFromJSON(json: unknown): void {
+    const configs = Array.isArray(json) ? json : [json];
+    for (const config of configs) {
+      if (config && typeof config === 'object' && 'id' in config && 'root' in config) {
+        const { id, root } = config as BehaviorTreeConfig;
+        this.register(id, root);
+      }
+    }
+  }
+
+  registerAction<T = any>(name: string, fn: BTActionFn<T>): void {
+    this.actions.set(name, fn);
+  }
+
+  registerCondition<T = any>(name: string, fn: BTConditionFn<T>): void {
+    this.conditions.set(name, fn);
+  }
+
+  /**
+   * Register a custom node type usable from JSON as `{ "type": name, ... }`.
+   */
+  registerNodeType(type: string, factory: BTNodeFactory): void {
+    this.nodeTypes.set(type, factory);
+  }
+
+  /**
+   * Check if a tree is registered.
+   */
+  has(id: string): boolean {
+    return this.trees.has(id);
+  }
+
+  /**
+   * Get a registered tree. Throws if unknown or if it references
+   * unregistered actions/conditions/subtrees.
+   */
+  get<T = any>(id: string): BehaviorTree<T> {
+    let tree = this.compiled.get(id);
+    if (!tree) {
+      const root = this.trees.get(id);
+      if (!root) throw new Error(`BehaviorTreeLibrary: unknown tree '${id}'`);
+      tree = new BehaviorTree(root, this);
+      this.compiled.set(id, tree);
+    }
+    return tree as BehaviorTree<T>;
+  }
+
+  /**
+   * Create an instance of a registered tree for an entity.
+   */
+  createInstance<T = any>(id: string, entity: T, options?: BehaviorTreeInstanceOptions): BehaviorTreeInstance<T> {
+    return this.get<T>(id).createInstance(entity, options);
+  }
+
+  // BTResolver
+
+  action(name: string): BTActionFn | undefined {
+    return this.actions.get(name);
+  }
+
+  condition(name: string): BTConditionFn | undefined {
+    return this.conditions.get(name);
+  }
+
+  tree(id: string): BTNodeDef | undefined {
+    return this.trees.get(id);
+  }
+
+  nodeType(type: string): BTNodeFactory | undefined {
+    return this.nodeTypes.get(type);
+  }
+}
@@ -0,0 +1,81 @@
+import { EventEmitter } from 'eventemitter3';
+
+export interface BlackboardEvents {
+  'changed': (key: string, value: unknown, previous: unknown) => void;
+}
+
+/**
+ * Blackboard - Key/value memory shared by behavior tree nodes.
+ *
+ * A blackboard can have a parent: reads fall through to it, writes stay
+ * local. Give each enemy its own blackboard with a shared squad/world
+ * blackboard as parent.
+ *
+ * @example
+ * ```typescript
+ * const world = new Blackboard({ playerPosition: { x: 0, y: 0 } });
+ * const memory = new Blackboard({ ammo: 6 }, world);
+ *
+ * memory.get<number>('ammo');           // 6
+ * memory.get('playerPosition');         // from world
+ * memory.set('target', enemy);
+ * ```
+ */
+export class Blackboard extends EventEmitter<BlackboardEvents> {
+  private values: Map<string, unknown>;
+  private parent: Blackboard | null;
+
+  constructor(initial: Record<string, unknown> = {}, parent: Blackboard | null = null) {
+    super();
+    this.values = new Map(Object.entries(initial));
+    this.parent = parent;
+  }
+
+  /**
+   * Read a value, falling back to the parent blackboard.
+   */
+  get<V = unknown>(key: string): V | undefined;
+  get<V>(key: string, fallback: V): V;
+  get<V>(key: string, fallback?: V): V | undefined {
+    if (this.values.has(key)) return this.values.get(key) as V;
+    if (this.parent) return this.parent.get<V>(key, fallback as V);
+    return fallback;
+  }
+
+  /**
+   * Write a local value. Emits `changed` only when the value differs.
+   */
+  set(key: string, value: unknown): void {
+    const previous = this.values.get(key);
+    this.values.set(key, value);
+    if (previous !== value) this.emit('changed', key, value, previous);
+  }
+
+  /**
+   * True if the key is set locally or on a parent.
+   */
+  has(key: string): boolean {
+    return this.values.has(key) || (this.parent?.has(key) ?? false);
+  }
+
+  /**
+   * Remove a local value (parent values become visible again).
+   */
+  delete(key: string): boolean {
+    if (!this.values.has(key)) return false;
+    const previous = this.values.get(key);
+    this.values.delete(key);
+    this.emit('changed', key, undefined, previous);
+    return true;
+  }
+
+  /** Remove all local values */
+  clear(): void {
+    for (const key of [...this.values.keys()]) this.delete(key);
+  }
+
+  /** Local values as a plain object (JSON-safe if the values are) */
+  toJSON(): Record<string, unknown> {
+    return Object.fromEntries(this.values);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * AI Module - GameByte Framework
+ *
+ * Behavior trees with blackboards, async actions and JSON authoring;
+ * steering behaviors and flocking.
+ *
+ * @module ai
+ * @example
+ * ```typescript
+ * import { BehaviorTree, BehaviorTreeLibrary, BT, SteeringAgent, Flock } from '@gamebyte/framework/ai';
+ * ```
+ */
+
+export { Blackboard } from './Blackboard.js';
+export type { BlackboardEvents } from './Blackboard.js';
+
+export { BehaviorTree, BehaviorTreeInstance, BT } from './BehaviorTree.js';
+export type { BehaviorTreeEvents, BehaviorTreeInstanceOptions } from './BehaviorTree.js';
+
+export { BehaviorTreeLibrary } from './BehaviorTreeLibrary.js';
+export type { BehaviorTreeConfig } from './BehaviorTreeLibrary.js';
+
+export { BTNode } from './BehaviorNode.js';
+export type {
+  BTStatus,
+  BTContext,
+  BTLeafContext,
+  BTActionFn,
+  BTConditionFn,
+  BTNodeDef,
+  BTNodeFactory,
+  BTResolver,
+} from './BehaviorNode.js';
+
+// Steering & Flocking
+export {
+  SteeringAgent,
+  Flock,
+  seek,
+  flee,
+  arrive,
+  pursue,
+  evade,
+  wander,
+  separation,
+  alignment,
+  cohesion,
+  avoidObstacles,
+} from './steering/index.js';
+export type {
+  SteeringAgentConfig,
+  SteeringBehaviorEntry,
+  SteeringBehaviorType,
+  FlockConfig,
+  Vec2,
+  SteeringBody,
+  CircleObstacle,
+  WanderState,
+  WanderParams,
+} from './steering/index.js';
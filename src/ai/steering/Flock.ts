@@ -0,0 +1,133 @@
+import { SpatialHash } from '../../spatial/SpatialHash.js';
+import type { SteeringAgent } from './SteeringAgent.js';
+import type { SteeringBody } from './SteeringBehaviors.js';
+
+export interface FlockConfig {
+  /** Spatial hash cell size; match the typical neighborRadius (default: 50) */
+  cellSize?: number;
+  /** Cap on neighbors considered per agent, nearest first (default: 12). Keeps dense clumps cheap. */
+  maxNeighbors?: number;
+}
+
+/**
+ * Flock - Updates a group of SteeringAgents with spatial-hash neighbor queries.
+ *
+ * Each update rebuilds the hash once (O(n)) and gives every agent only the
+ * bodies inside its neighborRadius, so flocking stays near O(n) for large
+ * swarms instead of O(n²).
+ *
+ * @example
+ * ```typescript
+ * const swarm = new Flock({ cellSize: 40 });
+ * for (const enemy of enemies) {
+ *   swarm.add(new SteeringAgent(enemy, { maxSpeed: 90, neighborRadius: 40 })
+ *     .seek(player, 1).separation(2).alignment(0.5).cohesion(0.3));
+ * }
+ *
+ * tick.subscribe(({ delta }) => {
+ *   swarm.update(delta);
+ *   for (const enemy of enemies) enemy.update(delta);
+ * });
+ * ```
+ */
+export class Flock<T extends SteeringBody = SteeringBody> {
+  private agents: SteeringAgent<T>[] = [];
+  private hash: SpatialHash<T>;
+  private maxNeighbors: number;
+  private readonly neighbors: T[] = [];
+  private readonly bodies: T[] = [];
+  /** Squared distances of `neighbors`, reused by keepNearest() */
+  private readonly distances: number[] = [];
+
+  constructor(config: FlockConfig = {}) {
+    this.hash = new SpatialHash<T>(config.cellSize ?? 50);
+    this.maxNeighbors = config.maxNeighbors ?? 12;
+  }
+
+  add(agent: SteeringAgent<T>): this {
+    if (!this.agents.includes(agent)) this.agents.push(agent);
+    return this;
+  }
+
+  remove(agent: SteeringAgent<T>): boolean {
+    const index = this.agents.indexOf(agent);
+    if (index === -1) return false;
+    this.agents.splice(index, 1);
+    return true;
+  }
+
+  get size(): number {
+    return this.agents.length;
+  }
+
+  getAgents(): readonly SteeringAgent<T>[] {
+    return this.agents;
+  }
+
+  /**
+   * Bodies within `radius` of a point (valid after the last update).
+   */
+  queryRadius(x: number, y: number, radius: number, out: T[] = []): T[] {
+    return this.hash.queryRadius(x, y, radius, out);
+  }
+
+  /**
+   * Steer every agent. Call before the entities integrate their velocity.
+   * @param dt - Delta time in seconds
+   */
+  update(dt: number): void {
+    const agents = this.agents;
+    const bodies = this.bodies;
+    bodies.length = agents.length;
+    for (let i = 0; i < agents.length; i++) bodies[i] = agents[i].body;
+    this.hash.rebuild(bodies);
+
+    for (let i = 0; i < agents.length; i++) {
+      const agent = agents[i];
+      if (!agent.usesNeighbors) {
+        agent.update(dt);
+        continue;
+      }
+
+      const body = agent.body;
+      const found = this.hash.queryRadius(body.x, body.y, agent.neighborRadius, this.neighbors, body);
+      if (found.length > this.maxNeighbors) this.keepNearest(found, body);
+      agent.update(dt, found);
+    }
+  }
+
+  /**
+   * Truncate `found` to the maxNeighbors bodies nearest to `body`
+   * (partial selection sort, O(n·k)).
+   */
+  private keepNearest(found: T[], body: T): void {
+    const distances = this.distances;
+    distances.length = found.length;
+    for (let i = 0; i < found.length; i++) {
+      const dx = found[i].x - body.x;
+      const dy = found[i].y - body.y;
+      distances[i] = dx * dx + dy * dy;
+    }
+    for (let i = 0; i < this.maxNeighbors; i++) {
+      let nearest = i;
+      for (let j = i + 1; j < found.length; j++) {
+        if (distances[j] < distances[nearest]) nearest = j;
+      }
+      if (nearest === i) continue;
+      const item = found[i];
+      found[i] = found[nearest];
+      found[nearest] = item;
+      const distance = distances[i];
+      distances[i] = distances[nearest];
+      distances[nearest] = distance;
+    }
+    found.length = this.maxNeighbors;
+  }
+
+  /** Remove all agents */
+  clear(): void {
+    this.agents.length = 0;
+    this.bodies.length = 0;
+    this.hash.clear();
+  }
+}
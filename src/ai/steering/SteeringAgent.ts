@@ -0,0 +1,279 @@
+import type { RandomSource } from '../../contracts/Random.js';
+import {
+  alignment,
+  arrive,
+  avoidObstacles,
+  CircleObstacle,
+  cohesion,
+  evade,
+  flee,
+  pursue,
+  seek,
+  separation,
+  SteeringBody,
+  Vec2,
+  wander,
+  WanderParams,
+  WanderState,
+} from './SteeringBehaviors.js';
+
+export type SteeringBehaviorType =
+  | 'seek'
+  | 'flee'
+  | 'arrive'
+  | 'pursue'
+  | 'evade'
+  | 'wander'
+  | 'separation'
+  | 'alignment'
+  | 'cohesion'
+  | 'avoid';
+
+/**
+ * A weighted behavior on an agent. Targets are live references: pass the
+ * player entity itself and the agent follows it as it moves.
+ */
+export interface SteeringBehaviorEntry {
+  type: SteeringBehaviorType;
+  weight: number;
+  target?: Vec2 | SteeringBody;
+  /** flee/evade panic distance, arrive slowing radius, separation radius, avoid look-ahead */
+  distance?: number;
+  obstacles?: readonly CircleObstacle[];
+  wander?: WanderParams;
+}
+
+export interface SteeringAgentConfig {
+  /** Top speed in units/second (default: 150) */
+  maxSpeed?: number;
+  /** Max steering force per second (default: maxSpeed * 4) */
+  maxForce?: number;
+  /** Acceleration divisor (default: 1) */
+  mass?: number;
+  /** Radius for flocking neighbors (default: 50) */
+  neighborRadius?: number;
+  /** Random source for wander (default: Math.random) */
+  rng?: RandomSource;
+}
+
+const EMPTY: readonly SteeringBody[] = [];
+
+/**
+ * SteeringAgent - Composes weighted steering behaviors onto a body's velocity.
+ *
+ * The agent only writes `vx`/`vy`; the entity's own `update(dt)` integrates
+ * position as usual. Flocking behaviors read neighbors passed to update();
+ * a Flock supplies them from a spatial hash.
+ *
+ * @example
+ * ```typescript
+ * const enemy = new GameEntity({ x: 0, y: 0, collisionRadius: 12 });
+ * const steering = new SteeringAgent(enemy, { maxSpeed: 120 })
+ *   .pursue(player, 1)
+ *   .separation(1.5, 30)
+ *   .avoid(rocks, 2);
+ *
+ * // each frame
+ * steering.update(dt);
+ * enemy.update(dt);
+ * ```
+ */
+export class SteeringAgent<T extends SteeringBody = SteeringBody> {
+  readonly body: T;
+  maxSpeed: number;
+  maxForce: number;
+  mass: number;
+  neighborRadius: number;
+
+  private behaviors: SteeringBehaviorEntry[] = [];
+  private rng: RandomSource;
+  private wanderState: WanderState;
+  /** Scratch vectors reused every update */
+  private readonly force: Vec2 = { x: 0, y: 0 };
+  private readonly scratch: Vec2 = { x: 0, y: 0 };
+
+  constructor(body: T, config: SteeringAgentConfig = {}) {
+    this.body = body;
+    this.maxSpeed = config.maxSpeed ?? 150;
+    this.maxForce = config.maxForce ?? this.maxSpeed * 4;
+    this.mass = config.mass ?? 1;
+    this.neighborRadius = config.neighborRadius ?? 50;
+    this.rng = config.rng ?? { next: Math.random };
+    this.wanderState = { angle: this.rng.next() * Math.PI * 2 };
+  }
+
+  // ============================================
+  // BEHAVIORS
+  // ============================================
+
+  seek(target: Vec2, weight = 1): this {
+    return this.add({ type: 'seek', target, weight });
+  }
+
+  /** @param panicDistance - Only flee when closer than this */
+  flee(target: Vec2, weight = 1, panicDistance?: number): this {
+    return this.add({ type: 'flee', target, weight, distance: panicDistance });
+  }
+
+  /** @param slowingRadius - Distance at which to start slowing down (default: 100) */
+  arrive(target: Vec2, weight = 1, slowingRadius = 100): this {
+    return this.add({ type: 'arrive', target, weight, distance: slowingRadius });
+  }
+
+  pursue(quarry: SteeringBody, weight = 1): this {
+    return this.add({ type: 'pursue', target: quarry, weight });
+  }
+
+  /** @param panicDistance - Only evade when closer than this */
+  evade(threat: SteeringBody, weight = 1, panicDistance?: number): this {
+    return this.add({ type: 'evade', target: threat, weight, distance: panicDistance });
+  }
+
+  wander(weight = 1, params: WanderParams = {}): this {
+    return this.add({ type: 'wander', weight, wander: params });
+  }
+
+  /** @param radius - Personal space (default: neighborRadius / 2) */
+  separation(weight = 1, radius?: number): this {
+    return this.add({ type: 'separation', weight, distance: radius });
+  }
+
+  alignment(weight = 1): this {
+    return this.add({ type: 'alignment', weight });
+  }
+
+  cohesion(weight = 1): this {
+    return this.add({ type: 'cohesion', weight });
+  }
+
+  /** @param lookAhead - Feeler length at full speed (default: maxSpeed * 0.5) */
+  avoid(obstacles: readonly CircleObstacle[], weight = 1, lookAhead?: number): this {
+    return this.add({ type: 'avoid', weight, obstacles, distance: lookAhead });
+  }
+
+  /**
+   * Add a behavior entry directly.
+   */
+  add(entry: SteeringBehaviorEntry): this {
+    this.behaviors.push(entry);
+    return this;
+  }
+
+  /**
+   * Remove all behaviors of a type. Returns true if any were removed.
+   */
+  remove(type: SteeringBehaviorType): boolean {
+    const before = this.behaviors.length;
+    this.behaviors = this.behaviors.filter((b) => b.type !== type);
+    return this.behaviors.length !== before;
+  }
+
+  /**
+   * Change the weight of all behaviors of a type (0 disables them).
+   */
+  setWeight(type: SteeringBehaviorType, weight: number): this {
+    for (const b of this.behaviors) {
+      if (b.type === type) b.weight = weight;
+    }
+    return this;
+  }
+
+  /** Remove all behaviors */
+  clear(): this {
+    this.behaviors.length = 0;
+    return this;
+  }
+
+  getBehaviors(): readonly SteeringBehaviorEntry[] {
+    return this.behaviors;
+  }
+
+  /** True if any behavior needs neighbors */
+  get usesNeighbors(): boolean {
+    return this.behaviors.some((b) =>
+      b.type === 'separation' || b.type === 'alignment' || b.type === 'cohesion');
+  }
+
+  // ============================================
+  // UPDATE
+  // ============================================
+
+  /**
+   * Sum weighted forces, clamp to maxForce and apply to the body's velocity.
+   * @param dt - Delta time in seconds
+   * @param neighbors - Nearby bodies for flocking (excluding this body)
+   * @returns The applied steering force (reused object)
+   */
+  update(dt: number, neighbors: readonly SteeringBody[] = EMPTY): Readonly<Vec2> {
+    const body = this.body;
+    const force = this.force;
+    const s = this.scratch;
+    force.x = 0;
+    force.y = 0;
+
+    for (let i = 0; i < this.behaviors.length; i++) {
+      const b = this.behaviors[i];
+      if (b.weight === 0) continue;
+
+      switch (b.type) {
+        case 'seek':
+          seek(body, b.target!, this.maxSpeed, s);
+          break;
+        case 'flee':
+          flee(body, b.target!, this.maxSpeed, b.distance, s);
+          break;
+        case 'arrive':
+          arrive(body, b.target!, this.maxSpeed, b.distance ?? 100, s);
+          break;
+        case 'pursue':
+          pursue(body, b.target as SteeringBody, this.maxSpeed, s);
+          break;
+        case 'evade':
+          evade(body, b.target as SteeringBody, this.maxSpeed, b.distance, s);
+          break;
+        case 'wander':
+          wander(body, this.wanderState, this.maxSpeed, dt, this.rng, b.wander, s);
+          break;
+        case 'separation':
+          separation(body, neighbors, b.distance ?? this.neighborRadius * 0.5, this.maxSpeed, s);
+          break;
+        case 'alignment':
+          alignment(body, neighbors, this.maxSpeed, s);
+          break;
+        case 'cohesion':
+          cohesion(body, neighbors, this.maxSpeed, s);
+          break;
+        case 'avoid':
+          avoidObstacles(body, b.obstacles ?? [], b.distance ?? this.maxSpeed * 0.5, this.maxSpeed, s);
+          break;
+      }
+
+      force.x += s.x * b.weight;
+      force.y += s.y * b.weight;
+    }
+
+    truncate(force, this.maxForce);
+
+    const inverseMass = 1 / this.mass;
+    body.vx += force.x * inverseMass * dt;
+    body.vy += force.y * inverseMass * dt;
+
+    const speed2 = body.vx * body.vx + body.vy * body.vy;
+    if (speed2 > this.maxSpeed * this.maxSpeed) {
+      const scale = this.maxSpeed / Math.sqrt(speed2);
+      body.vx *= scale;
+      body.vy *= scale;
+    }
+
+    return force;
+  }
+}
+
+function truncate(v: Vec2, max: number): void {
+  const len2 = v.x * v.x + v.y * v.y;
+  if (len2 > max * max) {
+    const scale = max / Math.sqrt(len2);
+    v.x *= scale;
+    v.y *= scale;
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Steering behaviors (Reynolds), as pure functions.
+ *
+ * Each behavior writes a steering force (desired velocity minus current
+ * velocity) into `out` and returns it, so hot loops allocate nothing.
+ * SteeringAgent composes them; call them directly for custom blends.
+ */
+
+import type { RandomSource } from '../../contracts/Random.js';
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+/**
+ * Moving body. GameEntity satisfies it.
+ */
+export interface SteeringBody extends Vec2 {
+  vx: number;
+  vy: number;
+  /** Used by obstacle avoidance when present */
+  collisionRadius?: number;
+}
+
+/** Circular obstacle for avoidance */
+export interface CircleObstacle extends Vec2 {
+  radius: number;
+}
+
+/** Per-agent wander state */
+export interface WanderState {
+  /** Current angle on the wander circle (radians) */
+  angle: number;
+}
+
+export interface WanderParams {
+  /** Radius of the wander circle (default: 30) */
+  radius?: number;
+  /** Distance of the circle ahead of the body (default: 60) */
+  distance?: number;
+  /** Max angle change per second (radians, default: 4) */
+  jitter?: number;
+}
+
+function set(out: Vec2, x: number, y: number): Vec2 {
+  out.x = x;
+  out.y = y;
+  return out;
+}
+
+/** Force toward a desired direction (dx, dy) at `speed` */
+function steerToward(body: SteeringBody, dx: number, dy: number, speed: number, out: Vec2): Vec2 {
+  const len = Math.sqrt(dx * dx + dy * dy);
+  if (len === 0) return set(out, -body.vx, -body.vy);
+  const scale = speed / len;
+  return set(out, dx * scale - body.vx, dy * scale - body.vy);
+}
+
+/**
+ * Full speed toward a target.
+ */
+export function seek(body: SteeringBody, target: Vec2, maxSpeed: number, out: Vec2 = { x: 0, y: 0 }): Vec2 {
+  return steerToward(body, target.x - body.x, target.y - body.y, maxSpeed, out);
+}
+
+/**
+ * Full speed away from a threat. With `panicDistance`, only reacts inside it.
+ */
+export function flee(
+  body: SteeringBody,
+  threat: Vec2,
+  maxSpeed: number,
+  panicDistance = Infinity,
+  out: Vec2 = { x: 0, y: 0 }
+): Vec2 {
+  const dx = body.x - threat.x;
+  const dy = body.y - threat.y;
+  if (dx * dx + dy * dy > panicDistance * panicDistance) return set(out, 0, 0);
+  return steerToward(body, dx, dy, maxSpeed, out);
+}
+
+/**
+ * Seek that slows down inside `slowingRadius` and stops on the target.
+ */
+export function arrive(
+  body: SteeringBody,
+  target: Vec2,
+  maxSpeed: number,
+  slowingRadius: number,
+  out: Vec2 = { x: 0, y: 0 }
+): Vec2 {
+  const dx = target.x - body.x;
+  const dy = target.y - body.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist < 1e-6) return set(out, -body.vx, -body.vy);
+  const speed = dist < slowingRadius ? maxSpeed * (dist / slowingRadius) : maxSpeed;
+  return steerToward(body, dx, dy, speed, out);
+}
+
+/**
+ * Seek where a moving quarry will be, predicting by distance / speed.
+ */
+export function pursue(
+  body: SteeringBody,
+  quarry: SteeringBody,
+  maxSpeed: number,
+  out: Vec2 = { x: 0, y: 0 }
+): Vec2 {
+  const t = predictionTime(body, quarry, maxSpeed);
+  return steerToward(body, quarry.x + quarry.vx * t - body.x, quarry.y + quarry.vy * t - body.y, maxSpeed, out);
+}
+
+/**
+ * Flee from where a moving threat will be.
+ */
+export function evade(
+  body: SteeringBody,
+  threat: SteeringBody,
+  maxSpeed: number,
+  panicDistance = Infinity,
+  out: Vec2 = { x: 0, y: 0 }
+): Vec2 {
+  const t = predictionTime(body, threat, maxSpeed);
+  const dx = body.x - (threat.x + threat.vx * t);
+  const dy = body.y - (threat.y + threat.vy * t);
+  if (dx * dx + dy * dy > panicDistance * panicDistance) return set(out, 0, 0);
+  return steerToward(body, dx, dy, maxSpeed, out);
+}
+
+function predictionTime(body: SteeringBody, other: SteeringBody, maxSpeed: number): number {
+  const dx = other.x - body.x;
+  const dy = other.y - body.y;
+  const speed = maxSpeed + Math.sqrt(other.vx * other.vx + other.vy * other.vy);
+  return speed > 0 ? Math.sqrt(dx * dx + dy * dy) / speed : 0;
+}
+
+/**
+ * Smooth random wandering: seek a point on a circle ahead of the body whose
+ * angle drifts by up to `jitter` rad/s.
+ */
+export function wander(
+  body: SteeringBody,
+  state: WanderState,
+  maxSpeed: number,
+  dt: number,
+  rng: RandomSource,
+  params: WanderParams = {},
+  out: Vec2 = { x: 0, y: 0 }
+): Vec2 {
+  const radius = params.radius ?? 30;
+  const distance = params.distance ?? 60;
+  const jitter = params.jitter ?? 4;
+
+  state.angle += (rng.next() * 2 - 1) * jitter * dt;
+
+  const speed = Math.sqrt(body.vx * body.vx + body.vy * body.vy);
+  // Heading; a resting body wanders from its wander angle alone
+  const hx = speed > 0 ? body.vx / speed : Math.cos(state.angle);
+  const hy = speed > 0 ? body.vy / speed : Math.sin(state.angle);
+
+  const tx = hx * distance + Math.cos(state.angle) * radius;
+  const ty = hy * distance + Math.sin(state.angle) * radius;
+  return steerToward(body, tx, ty, maxSpeed, out);
+}
+
+/**
+ * Push away from neighbors closer than `radius`, weighted by closeness.
+ */
+export function separation(
+  body: SteeringBody,
+  neighbors: readonly Vec2[],
+  radius: number,
+  maxSpeed: number,
+  out: Vec2 = { x: 0, y: 0 }
+): Vec2 {
+  let sx = 0;
+  let sy = 0;
+  let count = 0;
+  const r2 = radius * radius;
+
+  for (let i = 0; i < neighbors.length; i++) {
+    const n = neighbors[i];
+    const dx = body.x - n.x;
+    const dy = body.y - n.y;
+    const d2 = dx * dx + dy * dy;
+    if (d2 === 0 || d2 > r2) continue;
+    // 1/d falloff: direction (dx/d) scaled by 1/d
+    sx += dx / d2;
+    sy += dy / d2;
+    count++;
+  }
+
+  if (count === 0) return set(out, 0, 0);
+  return steerToward(body, sx, sy, maxSpeed, out);
+}
+
+/**
+ * Match the average heading of neighbors.
+ */
+export function alignment(
+  body: SteeringBody,
+  neighbors: readonly SteeringBody[],
+  maxSpeed: number,
+  out: Vec2 = { x: 0, y: 0 }
+): Vec2 {
+  let ax = 0;
+  let ay = 0;
+  for (let i = 0; i < neighbors.length; i++) {
+    ax += neighbors[i].vx;
+    ay += neighbors[i].vy;
+  }
+  if (ax === 0 && ay === 0) return set(out, 0, 0);
+  return steerToward(body, ax, ay, maxSpeed, out);
+}
+
+/**
+ * Seek the center of mass of neighbors.
+ */
+export function cohesion(
+  body: SteeringBody,
+  neighbors: readonly Vec2[],
+  maxSpeed: number,
+  out: Vec2 = { x: 0, y: 0 }
+): Vec2 {
+  if (neighbors.length === 0) return set(out, 0, 0);
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < neighbors.length; i++) {
+    cx += neighbors[i].x;
+    cy += neighbors[i].y;
+  }
+  const inv = 1 / neighbors.length;
+  return steerToward(body, cx * inv - body.x, cy * inv - body.y, maxSpeed, out);
+}
+
+/**
+ * Steer sideways around the nearest obstacle in the path ahead.
+ * `lookAhead` is the feeler length at full speed; it scales with speed.
+ */
+export function avoidObstacles(
+  body: SteeringBody,
+  obstacles: readonly CircleObstacle[],
+  lookAhead: number,
+  maxSpeed: number,
+  out: Vec2 = { x: 0, y: 0 }
+): Vec2 {
+  const speed = Math.sqrt(body.vx * body.vx + body.vy * body.vy);
+  if (speed === 0 || obstacles.length === 0) return set(out, 0, 0);
+
+  const hx = body.vx / speed;
+  const hy = body.vy / speed;
+  const reach = lookAhead * Math.min(1, speed / maxSpeed);
+  const bodyRadius = body.collisionRadius ?? 0;
+
+  let nearest: CircleObstacle | null = null;
+  let nearestAlong = Infinity;
+  let nearestSide = 0;
+
+  for (let i = 0; i < obstacles.length; i++) {
+    const o = obstacles[i];
+    const ox = o.x - body.x;
+    const oy = o.y - body.y;
+    // Distance along the heading and perpendicular to it
+    const along = ox * hx + oy * hy;
+    if (along < 0 || along > reach + o.radius) continue;
+    const side = ox * -hy + oy * hx;
+    if (Math.abs(side) >= o.radius + bodyRadius) continue;
+    if (along < nearestAlong) {
+      nearest = o;
+      nearestAlong = along;
+      nearestSide = side;
+    }
+  }
+
+  if (!nearest) return set(out, 0, 0);
+
+  // Steer to the side the obstacle is not on; stronger when closer
+  const urgency = 1 - nearestAlong / (reach + nearest.radius);
+  const dir = nearestSide > 0 ? -1 : 1;
+  const strength = maxSpeed * (0.5 + urgency);
+  return set(out, -hy * dir * strength, hx * dir * strength);
+}
@@ -0,0 +1,27 @@
+export {
+  seek,
+  flee,
+  arrive,
+  pursue,
+  evade,
+  wander,
+  separation,
+  alignment,
+  cohesion,
+  avoidObstacles,
+} from './SteeringBehaviors.js';
+export type {
+  Vec2,
+  SteeringBody,
+  CircleObstacle,
+  WanderState,
+  WanderParams,
+} from './SteeringBehaviors.js';
+export { SteeringAgent } from './SteeringAgent.js';
+export type {
+  SteeringAgentConfig,
+  SteeringBehaviorEntry,
+  SteeringBehaviorType,
+} from './SteeringAgent.js';
+export { Flock } from './Flock.js';
+export type { FlockConfig } from './Flock.js';
@@ -20,6 +20,10 @@ import {
 import { TextureLoader } from './loaders/TextureLoader';
 import { AudioLoader } from './loaders/AudioLoader';
 import { JSONLoader } from './loaders/JSONLoader';
+import { TiledMapLoader } from '../tilemap/TiledMapLoader';
+import { ParticleEffectLoader } from '../particles/ParticleEffectLoader';
+import { TextureAtlasLoader } from '../sprites/TextureAtlasLoader';
+import { SkeletonLoader } from '../skeletal/SkeletonLoader';
 
 // Import cache implementations
 import { LRUCache } from './cache/LRUCache';
@@ -582,6 +586,10 @@ export class GameByteAssetManager extends EventEmitter implements AssetManager {
     this.registerLoader(new TextureLoader());
     this.registerLoader(new AudioLoader());
     this.registerLoader(new JSONLoader());
+    this.registerLoader(new TiledMapLoader());
+    this.registerLoader(new ParticleEffectLoader());
+    this.registerLoader(new TextureAtlasLoader());
+    this.registerLoader(new SkeletonLoader());
   }
   
   /**
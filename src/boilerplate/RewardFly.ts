@@ -1,5 +1,6 @@
 import { Tween } from '../tween/Tween.js';
 import { Ease } from '../tween/Ease.js';
+import { motionPath } from '../tween/MotionPath.js';
 import { graphics } from '../graphics/GraphicsEngine.js';
 
 export interface RewardFlyConfig {
@@ -54,17 +55,17 @@ export class RewardFly {
       const midY = Math.min(startY, to.y) - 80 - Math.random() * 40;
 
       const delay = i * stagger;
-      const proxy = { t: 0 };
 
-      Tween.to(proxy, { t: 1 }, {
+      Tween.to(particle, {
+        motionPath: motionPath({
+          points: [{ x: startX, y: startY }, { x: midX, y: midY }, { x: to.x, y: to.y }],
+          curve: 'bezier',
+        }),
+      }, {
         duration,
         delay,
         ease: Ease.cubicOut,
         onUpdate: (progress: number) => {
-          // Quadratic bezier: B(t) = (1-t)^2 * P0 + 2(1-t)t * P1 + t^2 * P2
-          const inv = 1 - progress;
-          particle.x = inv * inv * startX + 2 * inv * progress * midX + progress * progress * to.x;
-          particle.y = inv * inv * startY + 2 * inv * progress * midY + progress * progress * to.y;
           particle.alpha = progress < 0.8 ? 1 : 1 - (progress - 0.8) / 0.2;
         },
         onComplete: () => {
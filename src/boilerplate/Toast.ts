@@ -1,14 +1,29 @@
+import { EventEmitter } from 'eventemitter3';
 import { Tween } from '../tween/Tween.js';
 import { Ease } from '../tween/Ease.js';
 import { graphics } from '../graphics/GraphicsEngine.js';
+import { i18n } from '../i18n/I18n.js';
+import type { MessageParams } from '../i18n/MessageFormat.js';
 
 export interface ToastConfig {
-  text: string;
+  /** Literal text (ignored when textKey is set) */
+  text?: string;
+  /** Translation key resolved through the shared I18n */
+  textKey?: string;
+  textParams?: MessageParams;
   duration?: number;
   type?: 'info' | 'success' | 'warning' | 'error';
   y?: number;
 }
 
+/**
+ * Events emitted on Toast.events
+ */
+export interface ToastEvents {
+  /** A toast was shown; `text` is the resolved message */
+  'show': (text: string, config: ToastConfig) => void;
+}
+
 const TYPE_COLORS: Record<string, number> = {
   info: 0xffffff,
   success: 0x4caf50,
@@ -24,6 +39,9 @@ const PADDING_Y = 10;
  * Static API: Toast.show(parent, config).
  */
 export class Toast {
+  /** Every toast shown, e.g. for screen-reader announcements */
+  static readonly events = new EventEmitter<ToastEvents>();
+
   /** Show a toast notification on the given parent container */
   static show(parent: any, config: ToastConfig | string): void {
     const cfg: ToastConfig = typeof config === 'string' ? { text: config } : config;
@@ -31,18 +49,19 @@ export class Toast {
     const type = cfg.type ?? 'info';
     const yPos = cfg.y ?? 80;
     const bgColor = TYPE_COLORS[type] ?? TYPE_COLORS.info;
+    const text = cfg.textKey ? i18n().t(cfg.textKey, cfg.textParams) : (cfg.text ?? '');
 
     const f = graphics();
     const container = f.createContainer();
 
     // Measure text first, then draw bg
-    const label = f.createText(cfg.text, {
+    const label = f.createText(text, {
       fontSize: 15,
       fill: type === 'info' ? 0x222222 : 0xffffff,
       fontWeight: '600',
     });
 
-    const textW = (label as any).width ?? cfg.text.length * 9;
+    const textW = (label as any).width ?? text.length * 9;
     const textH = (label as any).height ?? 20;
     const bgW = textW + PADDING_X * 2;
     const bgH = textH + PADDING_Y * 2;
@@ -58,6 +77,7 @@ export class Toast {
     container.y = yPos;
     container.alpha = 0;
     parent.addChild(container);
+    Toast.events.emit('show', text, cfg);
 
     // Fade in
     Tween.to(container, { alpha: 1 }, {
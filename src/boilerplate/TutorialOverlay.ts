@@ -1,9 +1,14 @@
 import { EventEmitter } from 'eventemitter3';
 import { graphics } from '../graphics/GraphicsEngine.js';
+import { i18n } from '../i18n/I18n.js';
+import type { MessageParams } from '../i18n/MessageFormat.js';
 
 export interface TutorialStep {
-  /** Text to display */
-  text: string;
+  /** Text to display (ignored when textKey is set) */
+  text?: string;
+  /** Translation key; re-resolved when the language changes */
+  textKey?: string;
+  textParams?: MessageParams;
   /** Position for text bubble */
   x: number;
   y: number;
@@ -16,6 +21,8 @@ export interface TutorialStep {
 export interface TutorialOptions {
   skipButton?: boolean;
   dimAlpha?: number;
+  /** Translation key for the skip label (default: literal 'Skip') */
+  skipTextKey?: string;
 }
 
 export interface TutorialEvents {
@@ -39,13 +46,24 @@ export class TutorialOverlay extends EventEmitter<TutorialEvents> {
   private _bubbleText: any;
   private _stepIndex: number = 0;
   private _steps: TutorialStep[];
+  private _skipLabel: any = null;
+  private _skipTextKey: string | undefined;
   private _dimAlpha: number;
+  private _unbindLocale: () => void;
 
   constructor(steps: TutorialStep[], options: TutorialOptions = {}) {
     super();
     this._steps = steps;
     this._dimAlpha = options.dimAlpha ?? 0.7;
+    this._skipTextKey = options.skipTextKey;
     this._build(options.skipButton ?? true);
+
+    // Re-render localized text in place when the language changes
+    this._unbindLocale = i18n().onLocaleChange(() => {
+      if (this._skipLabel && this._skipTextKey) this._skipLabel.text = i18n().t(this._skipTextKey);
+      const step = this._steps[this._stepIndex];
+      if (this._container.visible && step) this._renderStep(step);
+    });
   }
 
   private _build(showSkip: boolean): void {
@@ -68,13 +86,15 @@ export class TutorialOverlay extends EventEmitter<TutorialEvents> {
 
     // Skip button
     if (showSkip) {
-      const skipLabel = f.createText('Skip', { fontSize: 14, fill: COLORS.skip });
+      const skipText = this._skipTextKey ? i18n().t(this._skipTextKey) : 'Skip';
+      const skipLabel = f.createText(skipText, { fontSize: 14, fill: COLORS.skip });
       skipLabel.x = -120;
       skipLabel.y = -300;
       skipLabel.eventMode = 'static';
       skipLabel.cursor = 'pointer';
       skipLabel.on('pointerdown', (e: any) => { e.stopPropagation?.(); this.skip(); });
       this._container.addChild(skipLabel);
+      this._skipLabel = skipLabel;
     }
   }
 
@@ -100,7 +120,7 @@ export class TutorialOverlay extends EventEmitter<TutorialEvents> {
     this._bubbleGfx.roundRect(bubbleX, bubbleY, BUBBLE_W, BUBBLE_H, 10)
       .fill({ color: COLORS.bubble });
 
-    this._bubbleText.text = step.text;
+    this._bubbleText.text = step.textKey ? i18n().t(step.textKey, step.textParams) : (step.text ?? '');
     this._bubbleText.x = bubbleX + 12;
     this._bubbleText.y = bubbleY + 12;
   }
@@ -144,6 +164,7 @@ export class TutorialOverlay extends EventEmitter<TutorialEvents> {
   get currentStep(): number { return this._stepIndex; }
 
   destroy(): void {
+    this._unbindLocale();
     this._container.destroy({ children: true });
     this.removeAllListeners();
   }
@@ -5,7 +5,7 @@ export type { SettingsConfig, SettingsPanelEvents, SettingsFieldDef, SettingsFie
 export { TutorialOverlay } from './TutorialOverlay.js';
 export type { TutorialStep, TutorialOptions, TutorialEvents } from './TutorialOverlay.js';
 export { Toast } from './Toast.js';
-export type { ToastConfig } from './Toast.js';
+export type { ToastConfig, ToastEvents } from './Toast.js';
 export { RewardFly } from './RewardFly.js';
 export type { RewardFlyConfig } from './RewardFly.js';
 export { QuickGameSetup } from './QuickGameSetup.js';
@@ -11,7 +11,11 @@ export enum AssetType {
   JSON = 'json',
   FONT = 'font',
   VIDEO = 'video',
-  BINARY = 'binary'
+  BINARY = 'binary',
+  TILEMAP = 'tilemap',
+  PARTICLE_EFFECT = 'particle_effect',
+  ATLAS = 'atlas',
+  SKELETON = 'skeleton'
 }
 
 /**
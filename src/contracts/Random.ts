@@ -0,0 +1,52 @@
+/**
+ * Minimal random source accepted by gameplay systems.
+ * `Math` satisfies it via `{ next: Math.random }`; the framework `Random`
+ * service satisfies it with a seedable, reproducible stream.
+ */
+export interface RandomSource {
+  /** Uniform float in [0, 1) */
+  next(): number;
+}
+
+/**
+ * Seedable random service contract.
+ */
+export interface IRandom extends RandomSource {
+  /** Seed the stream was created (or last reseeded) with */
+  readonly seed: number | string;
+  /** Uniform float in [min, max) (default [0, 1)) */
+  float(min?: number, max?: number): number;
+  /** Uniform integer in [min, max] (inclusive) */
+  int(min: number, max: number): number;
+  /** Alias of float(min, max) */
+  range(min: number, max: number): number;
+  /** True with probability `chance` (default 0.5) */
+  bool(chance?: number): boolean;
+  /** Uniformly pick one element. Throws on an empty array. */
+  pick<T>(items: readonly T[]): T;
+  /** Pick one element with probability proportional to its weight */
+  weightedPick<T>(items: readonly T[], weight: (item: T) => number): T;
+  /** Shuffle an array in place (Fisher-Yates) and return it */
+  shuffle<T>(items: T[]): T[];
+  /** Normally distributed float */
+  gaussian(mean?: number, stdDev?: number): number;
+  /** Derive an independent, deterministic sub-stream */
+  fork(label?: string): IRandom;
+  /** Restart the stream from a new seed */
+  reseed(seed: number | string): void;
+  /** Snapshot the internal state */
+  getState(): RandomState;
+  /** Restore a snapshot taken with getState() */
+  setState(state: RandomState): void;
+}
+
+/**
+ * Serializable PRNG state (JSON-safe).
+ */
+export interface RandomState {
+  seed: number | string;
+  /** Four 32-bit words of generator state */
+  s: [number, number, number, number];
+  /** Number of sub-streams forked so far (keeps unlabeled forks reproducible) */
+  forks: number;
+}
@@ -1,6 +1,9 @@
 import { EventEmitter } from 'eventemitter3';
 import { IContainer } from '../contracts/Graphics.js';
 import { graphics } from '../graphics/GraphicsEngine.js';
+import { SpatialIndex } from '../spatial/SpatialIndex.js';
+import type { SpriteAnimator } from '../sprites/SpriteAnimator.js';
+import type { FlowField } from '../grids/FlowField.js';
 
 /**
  * Typed events emitted by GameEntity
@@ -26,6 +29,11 @@ export interface CollisionRect {
 export interface GameEntityConfig {
   /** Optional display object (Container, Sprite, etc.) added as child */
   display?: any;
+  /**
+   * Frame animator whose sprite is added as a child (after `display`).
+   * update() advances it and destroy() destroys it.
+   */
+  animator?: SpriteAnimator;
   /** Initial x position */
   x?: number;
   /** Initial y position */
@@ -44,6 +52,13 @@ export interface GameEntityConfig {
   collisionRect?: CollisionRect;
   /** Classification tags for the entity */
   tags?: string[];
+  /**
+   * Spatial index to register with (default: SpatialIndex.getDefault(),
+   * which is only set when auto-registration is enabled). Pass null to
+   * keep the entity out of any index. A registered entity is held by the
+   * index until destroy() is called.
+   */
+  spatialIndex?: SpatialIndex<any> | null;
 }
 
 /**
@@ -60,7 +75,7 @@ export interface GameEntityConfig {
  * ```
  */
 export class GameEntity extends EventEmitter<GameEntityEvents> {
-  private static readonly DEFAULT_CONFIG: Required<Omit<GameEntityConfig, 'display' | 'collisionRect'>> & {
+  private static readonly DEFAULT_CONFIG: Required<Omit<GameEntityConfig, 'display' | 'animator' | 'collisionRect' | 'spatialIndex'>> & {
     display: any;
     collisionRect: CollisionRect | undefined;
   } = {
@@ -80,6 +95,12 @@ export class GameEntity extends EventEmitter<GameEntityEvents> {
   private _health: number;
   private _maxHealth: number;
   private _isAlive: boolean;
+  private _spatialIndex: SpatialIndex<any> | null;
+  private _animator: SpriteAnimator | null;
+  private _flowField: FlowField | null = null;
+  private _flowSpeed: number = 0;
+  /** Reused by update() so following a flow field doesn't allocate */
+  private readonly _flowDirection = { x: 0, y: 0 };
 
   /** X velocity in units per second */
   vx: number;
@@ -113,6 +134,10 @@ export class GameEntity extends EventEmitter<GameEntityEvents> {
     if (cfg.display) {
       this._container.addChild(cfg.display);
     }
+    this._animator = config.animator ?? null;
+    if (this._animator) {
+      this._container.addChild(this._animator.sprite);
+    }
 
     this.vx = cfg.vx;
     this.vy = cfg.vy;
@@ -122,6 +147,9 @@ export class GameEntity extends EventEmitter<GameEntityEvents> {
     this.collisionRadius = cfg.collisionRadius;
     this.collisionRect = cfg.collisionRect;
     this.tags = new Set(cfg.tags);
+
+    this._spatialIndex = config.spatialIndex === undefined ? SpatialIndex.getDefault() : config.spatialIndex;
+    this._spatialIndex?.insert(this);
   }
 
   // ============================================
@@ -134,6 +162,7 @@ export class GameEntity extends EventEmitter<GameEntityEvents> {
 
   set x(value: number) {
     this._container.x = value;
+    this._spatialIndex?.update(this);
   }
 
   get y(): number {
@@ -142,6 +171,7 @@ export class GameEntity extends EventEmitter<GameEntityEvents> {
 
   set y(value: number) {
     this._container.y = value;
+    this._spatialIndex?.update(this);
   }
 
   // ============================================
@@ -172,11 +202,52 @@ export class GameEntity extends EventEmitter<GameEntityEvents> {
   }
 
   /**
-   * Per-frame update. Applies velocity, override in subclasses for custom logic.
+   * The frame animator passed in the config, if any.
+   */
+  get animator(): SpriteAnimator | null {
+    return this._animator;
+  }
+
+  /**
+   * The spatial index this entity is registered with, if any.
+   */
+  getSpatialIndex(): SpatialIndex<any> | null {
+    return this._spatialIndex;
+  }
+
+  /**
+   * Steer along a flow field: each update() points the velocity down the
+   * field at `speed` units/second (zero once in a goal cell). Pass null to stop.
+   */
+  followFlowField(field: FlowField | null, speed: number = this.speed): void {
+    this._flowField = field;
+    this._flowSpeed = speed;
+    if (!field) {
+      this.vx = 0;
+      this.vy = 0;
+    }
+  }
+
+  /**
+   * The flow field set with followFlowField(), if any.
+   */
+  get flowField(): FlowField | null {
+    return this._flowField;
+  }
+
+  /**
+   * Per-frame update. Samples the flow field, applies velocity and advances
+   * the animator, override in subclasses for custom logic.
    * @param dt - Delta time in seconds
    */
   update(dt: number): void {
+    if (this._flowField) {
+      const direction = this._flowField.sample(this.x, this.y, this._flowDirection);
+      this.vx = direction.x * this._flowSpeed;
+      this.vy = direction.y * this._flowSpeed;
+    }
     this.move(dt);
+    this._animator?.update(dt);
   }
 
   /**
@@ -186,6 +257,7 @@ export class GameEntity extends EventEmitter<GameEntityEvents> {
   protected move(dt: number): void {
     this._container.x += this.vx * dt;
     this._container.y += this.vy * dt;
+    this._spatialIndex?.update(this);
   }
 
   /**
@@ -265,7 +337,12 @@ export class GameEntity extends EventEmitter<GameEntityEvents> {
     if (container.parent && typeof container.parent.removeChild === 'function') {
       container.parent.removeChild(this._container);
     }
+    this._animator?.destroy();
+    this._animator = null;
+    this._flowField = null;
     this._container.destroy();
+    this._spatialIndex?.remove(this);
+    this._spatialIndex = null;
     this.emit('destroyed');
     this.removeAllListeners();
   }
@@ -5,6 +5,7 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
+import type { RandomSource } from '../../contracts/Random.js';
 
 export interface CardDef {
   id: string;
@@ -28,13 +29,19 @@ export class DeckManager extends EventEmitter<DeckManagerEvents> {
   private _hand: CardDef[];
   private _discardPile: CardDef[];
   private _maxHandSize: number;
+  private _rng: RandomSource;
 
-  constructor(config: { maxHandSize?: number } = {}) {
+  /**
+   * @param config.maxHandSize Maximum cards in hand (default: 7)
+   * @param config.rng Random source for shuffling (default: Math.random)
+   */
+  constructor(config: { maxHandSize?: number; rng?: RandomSource } = {}) {
     super();
     this._drawPile = [];
     this._hand = [];
     this._discardPile = [];
     this._maxHandSize = config.maxHandSize ?? 7;
+    this._rng = config.rng ?? { next: Math.random };
   }
 
   /** Add cards to the draw pile */
@@ -48,7 +55,7 @@ export class DeckManager extends EventEmitter<DeckManagerEvents> {
   shuffle(): void {
     const arr = this._drawPile;
     for (let i = arr.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this._rng.next() * (i + 1));
       [arr[i], arr[j]] = [arr[j], arr[i]];
     }
     this.emit('shuffle');
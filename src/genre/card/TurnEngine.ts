@@ -57,6 +57,23 @@ export class TurnEngine extends EventEmitter<TurnEngineEvents> {
     this.emit('turn-start', this._participants[this._currentIndex]);
   }
 
+  /**
+   * Jump to a round and participant, e.g. to mirror a remote engine.
+   * Emits 'round-start' if the round changed and 'turn-start' if the turn did.
+   */
+  setTurn(round: number, participant: string): void {
+    const index = this._participants.indexOf(participant);
+    if (index === -1) throw new Error(`TurnEngine: unknown participant "${participant}"`);
+
+    const roundChanged = !this._started || round !== this._round;
+    const turnChanged = roundChanged || index !== this._currentIndex;
+    this._round = round;
+    this._currentIndex = index;
+    this._started = true;
+    if (roundChanged) this.emit('round-start', this._round);
+    if (turnChanged) this.emit('turn-start', participant);
+  }
+
   /** Who's turn is it currently? */
   get currentTurn(): string {
     return this._participants[this._currentIndex];
@@ -4,6 +4,7 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
+import type { RandomSource } from '../../contracts/Random.js';
 
 export interface ObstacleDef {
   type: string;
@@ -29,9 +30,15 @@ export interface ObstaclePatternEvents {
 
 export class ObstaclePattern extends EventEmitter<ObstaclePatternEvents> {
   private _patterns: Map<string, PatternDef>;
+  private _rng: RandomSource;
 
-  constructor(patterns: PatternDef[]) {
+  /**
+   * @param patterns Pattern definitions
+   * @param rng Random source for pattern selection (default: Math.random)
+   */
+  constructor(patterns: PatternDef[], rng: RandomSource = { next: Math.random }) {
     super();
+    this._rng = rng;
     this._patterns = new Map();
     for (const pattern of patterns) {
       this._patterns.set(pattern.id, pattern);
@@ -53,7 +60,7 @@ export class ObstaclePattern extends EventEmitter<ObstaclePatternEvents> {
       if (filtered.length > 0) pool = filtered;
     }
 
-    const idx = Math.floor(Math.random() * pool.length);
+    const idx = Math.floor(this._rng.next() * pool.length);
     return pool[idx];
   }
 
@@ -4,6 +4,8 @@
  * No Pixi/Three dependencies — pure logic.
  */
 
+import type { RandomSource } from '../../contracts/Random.js';
+
 export interface GravityResult {
   /** Cells that moved: { from, to } */
   moves: Array<{ fromRow: number; fromCol: number; toRow: number; toCol: number }>;
@@ -11,6 +13,11 @@ export interface GravityResult {
   spawns: Array<{ row: number; col: number }>;
 }
 
+export interface FillResult {
+  /** Cells that received a new piece */
+  filled: Array<{ row: number; col: number; value: any }>;
+}
+
 export class BoardGravity {
   /**
    * Apply gravity: drop pieces downward to fill gaps. Mutates grid in-place.
@@ -47,4 +54,30 @@ export class BoardGravity {
 
     return { moves, spawns };
   }
+
+  /**
+   * Fill spawn cells (typically `GravityResult.spawns`) with random pieces. Mutates grid in-place.
+   * Inject a seeded RandomSource for reproducible boards (daily puzzles, replays, tests).
+   * @param grid    2D array [row][col]
+   * @param spawns  Cells to fill
+   * @param pieces  Piece values to choose from uniformly
+   * @param rng     Random source (default: Math.random)
+   */
+  static fill(
+    grid: any[][],
+    spawns: Array<{ row: number; col: number }>,
+    pieces: readonly any[],
+    rng: RandomSource = { next: Math.random }
+  ): FillResult {
+    const filled: FillResult['filled'] = [];
+    if (pieces.length === 0) return { filled };
+
+    for (const { row, col } of spawns) {
+      const value = pieces[Math.floor(rng.next() * pieces.length)];
+      grid[row][col] = value;
+      filled.push({ row, col, value });
+    }
+
+    return { filled };
+  }
 }
@@ -1,4 +1,4 @@
 export { MatchDetector } from './MatchDetector.js';
 export type { MatchRule, MatchResult, MatchDetectorConfig } from './MatchDetector.js';
 export { BoardGravity } from './BoardGravity.js';
-export type { GravityResult } from './BoardGravity.js';
+export type { GravityResult, FillResult } from './BoardGravity.js';
@@ -4,12 +4,18 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
+import { i18n } from '../../i18n/I18n.js';
+import type { MessageParams } from '../../i18n/MessageFormat.js';
 
 export interface DialogueNode {
   id: string;
+  /** Literal text, also the fallback when textKey is set */
   text: string;
+  /** Translation key resolved by getText() */
+  textKey?: string;
+  textParams?: MessageParams;
   speaker?: string;
-  choices?: Array<{ text: string; next: string; condition?: () => boolean }>;
+  choices?: Array<{ text: string; textKey?: string; next: string; condition?: () => boolean }>;
   next?: string;
   onEnter?: () => void;
 }
@@ -18,12 +24,15 @@ export interface DialogueEvents {
   'node': (node: DialogueNode) => void;
   'choice-made': (choiceIndex: number, nextId: string) => void;
   'end': () => void;
+  /** Language changed while a node is shown; re-read getText()/getChoiceTexts() */
+  'text-changed': (node: DialogueNode) => void;
 }
 
 export class DialogueSystem extends EventEmitter<DialogueEvents> {
   private _nodes: Map<string, DialogueNode>;
   private _current: DialogueNode | null;
   private _active: boolean;
+  private _unbindLocale: (() => void) | null = null;
 
   constructor(nodes: DialogueNode[]) {
     super();
@@ -34,6 +43,13 @@ export class DialogueSystem extends EventEmitter<DialogueEvents> {
     for (const node of nodes) {
       this._nodes.set(node.id, node);
     }
+
+    const localized = nodes.some(n => n.textKey || n.choices?.some(c => c.textKey));
+    if (localized) {
+      this._unbindLocale = i18n().onLocaleChange(() => {
+        if (this._current) this.emit('text-changed', this._current);
+      });
+    }
   }
 
   /** Start dialogue from a specific node (defaults to first node) */
@@ -72,6 +88,20 @@ export class DialogueSystem extends EventEmitter<DialogueEvents> {
     }
   }
 
+  /** Display text of a node (current node by default), translated if it has a textKey */
+  getText(node: DialogueNode | null = this._current): string {
+    if (!node) return '';
+    return node.textKey ? i18n().t(node.textKey, node.textParams) : node.text;
+  }
+
+  /** Display text of the current node's available choices, in choose() index order */
+  getChoiceTexts(): string[] {
+    if (!this._current || !this._current.choices) return [];
+    return this._current.choices
+      .filter(c => !c.condition || c.condition())
+      .map(c => (c.textKey ? i18n().t(c.textKey) : c.text));
+  }
+
   /** Current active node */
   get current(): DialogueNode | null {
     return this._current;
@@ -82,6 +112,13 @@ export class DialogueSystem extends EventEmitter<DialogueEvents> {
     return this._active;
   }
 
+  /** Stop listening for language changes and remove all listeners */
+  destroy(): void {
+    this._unbindLocale?.();
+    this._unbindLocale = null;
+    this.removeAllListeners();
+  }
+
   private _goTo(nodeId: string): void {
     const node = this._nodes.get(nodeId);
     if (!node) {
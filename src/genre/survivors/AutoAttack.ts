@@ -4,6 +4,8 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
+import type { RandomSource } from '../../contracts/Random.js';
+import type { SpatialFilter, SpatialQuery } from '../../spatial/SpatialIndex.js';
 
 export interface AutoAttackConfig {
   /** Attack range in pixels */
@@ -14,6 +16,12 @@ export interface AutoAttackConfig {
   damage: number;
   /** Targeting strategy */
   targeting?: 'nearest' | 'lowest-hp' | 'random';
+  /** Random source for 'random' targeting (default: Math.random) */
+  rng?: RandomSource;
+  /** Spatial index to acquire targets from when update() gets no enemy array */
+  index?: SpatialQuery<any>;
+  /** Which indexed bodies are valid targets: a tag or predicate (default: 'enemy') */
+  targetFilter?: SpatialFilter<any>;
 }
 
 export interface AutoAttackEvents {
@@ -30,6 +38,10 @@ export class AutoAttack extends EventEmitter<AutoAttackEvents> {
   private _targeting: NonNullable<AutoAttackConfig['targeting']>;
   private _target: any | null = null;
   private _accumulated: number = 0;
+  private _rng: RandomSource;
+  private _index: SpatialQuery<any> | null;
+  private _targetFilter: SpatialFilter<any>;
+  private _candidates: Enemy[] = [];
 
   constructor(config: AutoAttackConfig) {
     super();
@@ -37,6 +49,9 @@ export class AutoAttack extends EventEmitter<AutoAttackEvents> {
     this._fireRate = config.fireRate;
     this._damage = config.damage;
     this._targeting = config.targeting ?? 'nearest';
+    this._rng = config.rng ?? { next: Math.random };
+    this._index = config.index ?? null;
+    this._targetFilter = config.targetFilter ?? 'enemy';
   }
 
   /** Current target (or null) */
@@ -50,15 +65,18 @@ export class AutoAttack extends EventEmitter<AutoAttackEvents> {
     if (config.fireRate !== undefined) this._fireRate = config.fireRate;
     if (config.damage   !== undefined) this._damage   = config.damage;
     if (config.targeting !== undefined) this._targeting = config.targeting;
+    if (config.index !== undefined) this._index = config.index;
+    if (config.targetFilter !== undefined) this._targetFilter = config.targetFilter;
   }
 
   /**
    * Call each frame.
    * @param dt      Delta time in seconds
    * @param owner   Entity with x, y position
-   * @param enemies Array of enemies with x, y (and optionally health)
+   * @param enemies Array of enemies with x, y (and optionally health).
+   *                Omit to query the configured spatial index instead.
    */
-  update(dt: number, owner: { x: number; y: number }, enemies: Enemy[]): void {
+  update(dt: number, owner: { x: number; y: number }, enemies?: Enemy[]): void {
     if (this._fireRate <= 0) return;
 
     this._accumulated += dt;
@@ -68,9 +86,7 @@ export class AutoAttack extends EventEmitter<AutoAttackEvents> {
     while (this._accumulated >= interval) {
       this._accumulated -= interval;
 
-      // Filter to in-range enemies
-      const inRange = enemies.filter(e => this._dist(owner, e) <= this._range);
-      const newTarget = inRange.length > 0 ? this._pickTarget(inRange, owner) : null;
+      const newTarget = this._acquire(owner, enemies);
 
       if (newTarget !== this._target) {
         this._target = newTarget;
@@ -85,6 +101,28 @@ export class AutoAttack extends EventEmitter<AutoAttackEvents> {
 
   // --- Private helpers ---
 
+  private _acquire(owner: { x: number; y: number }, enemies?: Enemy[]): Enemy | null {
+    let inRange: Enemy[];
+    if (enemies) {
+      inRange = enemies.filter(e => this._dist(owner, e) <= this._range);
+    } else if (this._index) {
+      const filter = this._excludeOwner(owner);
+      if (this._targeting === 'nearest') {
+        return this._index.nearest(owner.x, owner.y, 1, this._range, filter, this._candidates)[0] ?? null;
+      }
+      inRange = this._index.queryRadius(owner.x, owner.y, this._range, filter, this._candidates);
+    } else {
+      return null;
+    }
+    return inRange.length > 0 ? this._pickTarget(inRange, owner) : null;
+  }
+
+  private _excludeOwner(owner: { x: number; y: number }): (item: any) => boolean {
+    const filter = this._targetFilter;
+    if (typeof filter === 'string') return (item) => item !== owner && (item.tags?.has(filter) ?? false);
+    return (item) => item !== owner && filter(item);
+  }
+
   private _dist(a: { x: number; y: number }, b: { x: number; y: number }): number {
     const dx = a.x - b.x;
     const dy = a.y - b.y;
@@ -112,7 +150,7 @@ export class AutoAttack extends EventEmitter<AutoAttackEvents> {
         return best;
       }
       case 'random':
-        return candidates[Math.floor(Math.random() * candidates.length)];
+        return candidates[Math.floor(this._rng.next() * candidates.length)];
     }
   }
 }
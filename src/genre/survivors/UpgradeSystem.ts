@@ -5,6 +5,7 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
+import type { RandomSource } from '../../contracts/Random.js';
 
 export interface UpgradeDef {
   id: string;
@@ -24,11 +25,17 @@ export interface UpgradeSystemEvents {
 export class UpgradeSystem extends EventEmitter<UpgradeSystemEvents> {
   private _defs: Map<string, UpgradeDef>;
   private _levels: Map<string, number>;
+  private _rng: RandomSource;
 
-  constructor(upgrades: UpgradeDef[]) {
+  /**
+   * @param upgrades Upgrade definitions
+   * @param rng Random source for weighted choices (default: Math.random)
+   */
+  constructor(upgrades: UpgradeDef[], rng: RandomSource = { next: Math.random }) {
     super();
     this._defs = new Map(upgrades.map(u => [u.id, u]));
     this._levels = new Map(upgrades.map(u => [u.id, 0]));
+    this._rng = rng;
   }
 
   /**
@@ -52,7 +59,7 @@ export class UpgradeSystem extends EventEmitter<UpgradeSystemEvents> {
 
     for (let i = 0; i < take; i++) {
       const totalWeight = pool.reduce((sum, u) => sum + (u.weight ?? 1), 0);
-      let rnd = Math.random() * totalWeight;
+      let rnd = this._rng.next() * totalWeight;
       let pickedIndex = 0;
       for (let j = 0; j < pool.length; j++) {
         rnd -= pool[j].weight ?? 1;
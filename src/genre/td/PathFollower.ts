@@ -1,10 +1,12 @@
 /**
  * PathFollower - Entity that follows a waypoint path at configurable speed.
  * Interpolates smoothly between waypoints, fires events on completion.
+ * Can steer along a FlowField instead of a fixed path.
  * No Pixi/Three dependencies — pure logic.
  */
 
 import { EventEmitter } from 'eventemitter3';
+import type { FlowField } from '../../grids/FlowField.js';
 
 export interface Waypoint {
   x: number;
@@ -30,6 +32,12 @@ export class PathFollower extends EventEmitter<PathFollowerEvents> {
   /** 0-1 progress between currentWaypoint and currentWaypoint+1 */
   private segmentProgress: number = 0;
 
+  private flowField: FlowField | null = null;
+  /** Field distance where flow following started, for progress */
+  private flowStartDistance: number = 0;
+  /** Reused by update() so following a flow field doesn't allocate */
+  private readonly flowDirection = { x: 0, y: 0 };
+
   constructor(path: Waypoint[], speed: number = 100) {
     super();
     this.path = path;
@@ -47,6 +55,8 @@ export class PathFollower extends EventEmitter<PathFollowerEvents> {
 
   /** Call each frame. dt in seconds. Returns current position. */
   update(dt: number): { x: number; y: number } {
+    if (this.flowField) return this.updateFlowField(this.flowField, dt);
+
     if (this._isComplete || this._paused || this.path.length < 2) {
       return { x: this._x, y: this._y };
     }
@@ -130,6 +140,20 @@ export class PathFollower extends EventEmitter<PathFollowerEvents> {
     this.speed = speed;
   }
 
+  /**
+   * Steer along a flow field from the current position instead of the
+   * waypoint path, sampling it every update(). Completes on entering a goal
+   * cell. Pass null to go back to the path.
+   */
+  followFlowField(field: FlowField | null): void {
+    this.flowField = field;
+    if (field) {
+      this._isComplete = false;
+      this._progress = 0;
+      this.flowStartDistance = field.getDistanceAt(this._x, this._y);
+    }
+  }
+
   /** Pause movement */
   pause(): void {
     this._paused = true;
@@ -153,4 +177,25 @@ export class PathFollower extends EventEmitter<PathFollowerEvents> {
       this._y = this.path[0].y;
     }
   }
+
+  private updateFlowField(field: FlowField, dt: number): { x: number; y: number } {
+    if (!this._isComplete && !this._paused) {
+      if (!field.isGoalAt(this._x, this._y)) {
+        const direction = field.sample(this._x, this._y, this.flowDirection);
+        this._x += direction.x * this.speed * dt;
+        this._y += direction.y * this.speed * dt;
+      }
+
+      if (field.isGoalAt(this._x, this._y)) {
+        this._isComplete = true;
+        this._progress = 1;
+        this.emit('path-complete');
+      } else if (this.flowStartDistance > 0 && this.flowStartDistance < Infinity) {
+        const remaining = field.getDistanceAt(this._x, this._y);
+        this._progress = Math.max(this._progress, Math.min(1, 1 - remaining / this.flowStartDistance));
+      }
+    }
+
+    return { x: this._x, y: this._y };
+  }
 }
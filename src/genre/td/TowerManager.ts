@@ -5,6 +5,7 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
+import type { SpatialFilter, SpatialQuery } from '../../spatial/SpatialIndex.js';
 
 export interface TowerDef {
   id: string;
@@ -42,14 +43,26 @@ export interface TowerManagerEvents {
   'tower-fire': (tower: PlacedTower, target: any) => void;
 }
 
+export interface TowerManagerOptions {
+  /** Spatial index to acquire targets from when update() gets no enemy array */
+  index?: SpatialQuery<any>;
+  /** Which indexed bodies are valid targets: a tag or predicate (default: 'enemy') */
+  targetFilter?: SpatialFilter<any>;
+}
+
 let _towerIdCounter = 0;
 
 export class TowerManager extends EventEmitter<TowerManagerEvents> {
   private defs: Map<string, TowerDef> = new Map();
   private towers: Map<string, TowerState> = new Map();
+  private index: SpatialQuery<any> | null;
+  private targetFilter: SpatialFilter<any>;
+  private candidates: any[] = [];
 
-  constructor(towerDefs: TowerDef[]) {
+  constructor(towerDefs: TowerDef[], options: TowerManagerOptions = {}) {
     super();
+    this.index = options.index ?? null;
+    this.targetFilter = options.targetFilter ?? 'enemy';
     for (const def of towerDefs) {
       this.defs.set(def.id, def);
     }
@@ -119,13 +132,18 @@ export class TowerManager extends EventEmitter<TowerManagerEvents> {
     return refund;
   }
 
-  /** Call each frame. Checks range, fires at enemies in range. */
-  update(dt: number, enemies: Array<{ x: number; y: number; health?: number }>): void {
+  /**
+   * Call each frame. Checks range, fires at enemies in range.
+   * Omit `enemies` to query the spatial index passed in the options instead.
+   */
+  update(dt: number, enemies?: Array<{ x: number; y: number; health?: number }>): void {
     for (const state of this.towers.values()) {
       state.cooldown -= dt;
       if (state.cooldown > 0) continue;
 
-      const target = this._findNearest(state, enemies);
+      const target = enemies
+        ? this._findNearest(state, enemies)
+        : this.index?.nearest(state.x, state.y, 1, state.currentRange, this.targetFilter, this.candidates)[0] ?? null;
       if (!target) continue;
 
       state.cooldown = 1 / state.currentFireRate;
@@ -2,4 +2,4 @@ export { PathFollower } from './PathFollower.js';
 export type { Waypoint, PathFollowerEvents } from './PathFollower.js';
 
 export { TowerManager } from './TowerManager.js';
-export type { TowerDef, PlacedTower, TowerManagerEvents } from './TowerManager.js';
+export type { TowerDef, PlacedTower, TowerManagerEvents, TowerManagerOptions } from './TowerManager.js';
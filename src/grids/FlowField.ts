@@ -0,0 +1,361 @@
+import { EventEmitter } from 'eventemitter3';
+import { Grid } from './Grid.js';
+import { HexGrid } from './HexGrid.js';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface GridCell {
+  row: number;
+  col: number;
+}
+
+export interface FlowFieldConfig<T = any> {
+  /** Cells every unit heads for (the nearest one wins) */
+  goals?: GridCell[];
+  /**
+   * Cost of crossing a cell; Infinity blocks it.
+   * Default: 1 for cells holding the grid's default value, Infinity otherwise,
+   * so anything placed with setCell (a tower, a wall) blocks.
+   */
+  cost?: (value: T | null, row: number, col: number) => number;
+  /** Allow diagonal moves on square grids, never across blocked corners. Default: true */
+  diagonal?: boolean;
+  /** Update affected cells when the grid emits 'cell-changed'. Default: true */
+  autoUpdate?: boolean;
+}
+
+export interface FlowFieldEvents {
+  /** Integration field changed; `cells` is how many were recomputed */
+  'updated': (cells: number) => void;
+}
+
+// ============================================================
+// FlowField<T>
+// ============================================================
+
+/**
+ * Flow field over a Grid or HexGrid.
+ *
+ * One multi-source Dijkstra pass from the goals fills an integration
+ * field (cost to the nearest goal) and a direction field (next cell
+ * toward it) for every cell, so any number of units can steer toward
+ * the goals with a constant-time lookup. When a cell changes, only the
+ * cells whose route ran through it are recomputed.
+ *
+ * Pure data — no Pixi.js or Three.js dependencies.
+ *
+ * @example
+ * ```typescript
+ * const field = new FlowField(grid, { goals: [{ row: 0, col: 9 }] });
+ * grid.setCell(4, 4, tower);            // field updates incrementally
+ * const dir = field.sample(enemy.x, enemy.y);
+ * enemy.vx = dir.x * speed;
+ * enemy.vy = dir.y * speed;
+ * ```
+ */
+export class FlowField<T = any> extends EventEmitter<FlowFieldEvents> {
+  private readonly grid: Grid<T>;
+  private readonly costFn: (value: T | null, row: number, col: number) => number;
+  private readonly diagonal: boolean;
+  private readonly autoUpdate: boolean;
+
+  private goals: GridCell[] = [];
+  private readonly goalSet = new Set<number>();
+
+  /** Per-cell crossing cost */
+  private readonly costs: Float64Array;
+  /** Integration field: cost to the nearest goal */
+  private readonly distances: Float64Array;
+  /** Direction field: index of the next cell, -1 at goals and unreachable cells */
+  private readonly next: Int32Array;
+
+  /** Scratch values so per-frame queries don't allocate */
+  private readonly scratchCell = { row: 0, col: 0 };
+  private readonly scratchPoint = { x: 0, y: 0 };
+
+  private readonly onCellChanged = (row: number, col: number): void => {
+    this.updateCell(row, col);
+  };
+
+  constructor(grid: Grid<T>, config: FlowFieldConfig<T> = {}) {
+    super();
+    this.grid = grid;
+    this.costFn = config.cost ?? ((value) => (value === grid.defaultValue ? 1 : Infinity));
+    this.diagonal = !(grid instanceof HexGrid) && (config.diagonal ?? true);
+    this.autoUpdate = config.autoUpdate ?? true;
+
+    const size = grid.rows * grid.cols;
+    this.costs = new Float64Array(size);
+    this.distances = new Float64Array(size);
+    this.next = new Int32Array(size);
+
+    if (this.autoUpdate) grid.on('cell-changed', this.onCellChanged);
+    this.setGoals(config.goals ?? []);
+  }
+
+  // ============================================================
+  // Goals & updates
+  // ============================================================
+
+  /** Replace the goals and rebuild the whole field. */
+  setGoals(goals: GridCell[]): void {
+    this.goals = goals.filter((g) => this.grid.isValidCell(g.row, g.col)).map((g) => ({ row: g.row, col: g.col }));
+    this.goalSet.clear();
+    for (const goal of this.goals) this.goalSet.add(this.index(goal.row, goal.col));
+    this.rebuild();
+  }
+
+  getGoals(): GridCell[] {
+    return this.goals.map((g) => ({ ...g }));
+  }
+
+  /** Re-read every cell's cost and recompute the whole field. */
+  rebuild(): void {
+    const all: number[] = [];
+    for (let i = 0; i < this.costs.length; i++) {
+      this.costs[i] = this.readCost(i);
+      all.push(i);
+    }
+    this.recompute(all);
+  }
+
+  /**
+   * Re-read one cell's cost and recompute the cells routed through it.
+   * Called automatically on 'cell-changed' unless autoUpdate is false;
+   * call it yourself when the cost function depends on other state.
+   */
+  updateCell(row: number, col: number): void {
+    if (!this.grid.isValidCell(row, col)) return;
+    const i = this.index(row, col);
+    const cost = this.readCost(i);
+    if (cost === this.costs[i]) return;
+    this.costs[i] = cost;
+
+    // Diagonal moves between this cell's neighbours depend on it too
+    const seeds = [i];
+    if (this.diagonal) for (const [n] of this.neighbors(i, false)) seeds.push(n);
+
+    // Everything whose route passes through a seed is stale
+    const stale = new Set<number>(seeds);
+    const queue = [...seeds];
+    while (queue.length > 0) {
+      const current = queue.pop()!;
+      for (const [n] of this.neighbors(current, false)) {
+        if (this.next[n] === current && !stale.has(n)) {
+          stale.add(n);
+          queue.push(n);
+        }
+      }
+    }
+    this.recompute(stale);
+  }
+
+  // ============================================================
+  // Queries
+  // ============================================================
+
+  /**
+   * Unit direction (pixels) from a position toward the center of the next
+   * cell. Zero inside goal, blocked or unreachable cells and off the grid.
+   */
+  sample(x: number, y: number, out: { x: number; y: number } = { x: 0, y: 0 }): { x: number; y: number } {
+    out.x = 0;
+    out.y = 0;
+    const cell = this.grid.pixelToCell(x, y, this.scratchCell);
+    if (!cell) return out;
+    const next = this.next[this.index(cell.row, cell.col)];
+    if (next < 0) return out;
+
+    const target = this.grid.cellToPixel(Math.floor(next / this.grid.cols), next % this.grid.cols, this.scratchPoint);
+    const dx = target.x - x;
+    const dy = target.y - y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length > 0) {
+      out.x = dx / length;
+      out.y = dy / length;
+    }
+    return out;
+  }
+
+  /** Integration value (cost to the nearest goal); Infinity if unreachable. */
+  getDistance(row: number, col: number): number {
+    if (!this.grid.isValidCell(row, col)) return Infinity;
+    return this.distances[this.index(row, col)];
+  }
+
+  /** Integration value at a pixel position; Infinity off the grid. */
+  getDistanceAt(x: number, y: number): number {
+    const cell = this.grid.pixelToCell(x, y, this.scratchCell);
+    return cell ? this.distances[this.index(cell.row, cell.col)] : Infinity;
+  }
+
+  /** The neighbour to move to, or null at goals and unreachable cells. */
+  getNextCell(row: number, col: number): GridCell | null {
+    if (!this.grid.isValidCell(row, col)) return null;
+    const next = this.next[this.index(row, col)];
+    return next < 0 ? null : { row: Math.floor(next / this.grid.cols), col: next % this.grid.cols };
+  }
+
+  isGoal(row: number, col: number): boolean {
+    return this.grid.isValidCell(row, col) && this.goalSet.has(this.index(row, col));
+  }
+
+  /** Whether the pixel position is inside a goal cell. */
+  isGoalAt(x: number, y: number): boolean {
+    const cell = this.grid.pixelToCell(x, y, this.scratchCell);
+    return cell !== null && this.isGoal(cell.row, cell.col);
+  }
+
+  isReachable(row: number, col: number): boolean {
+    return this.getDistance(row, col) < Infinity;
+  }
+
+  /**
+   * Cell-center waypoints (pixels) from a position to its goal, for
+   * PathFollower. Empty if the position is unreachable or off the grid.
+   */
+  getPath(x: number, y: number): Array<{ x: number; y: number }> {
+    const cell = this.grid.pixelToCell(x, y);
+    if (!cell) return [];
+    let i = this.index(cell.row, cell.col);
+    if (this.distances[i] === Infinity) return [];
+
+    const path = [{ x, y }];
+    while (this.next[i] >= 0) {
+      i = this.next[i];
+      path.push(this.grid.cellToPixel(Math.floor(i / this.grid.cols), i % this.grid.cols));
+    }
+    return path;
+  }
+
+  /** Stop listening to the grid. */
+  dispose(): void {
+    if (this.autoUpdate) this.grid.off('cell-changed', this.onCellChanged);
+    this.removeAllListeners();
+  }
+
+  // ============================================================
+  // Private
+  // ============================================================
+
+  private index(row: number, col: number): number {
+    return row * this.grid.cols + col;
+  }
+
+  private readCost(i: number): number {
+    const row = Math.floor(i / this.grid.cols);
+    const col = i % this.grid.cols;
+    const cost = this.costFn(this.grid.getCell(row, col), row, col);
+    return cost > 0 ? cost : Infinity;
+  }
+
+  /**
+   * Neighbour indices with step lengths. With `passable`, blocked cells and
+   * diagonals that would cut a blocked corner are left out.
+   */
+  private neighbors(i: number, passable: boolean): Array<[number, number]> {
+    const cols = this.grid.cols;
+    const row = Math.floor(i / cols);
+    const col = i % cols;
+    const result: Array<[number, number]> = [];
+    const cells = this.diagonal ? this.grid.getNeighbors8(row, col) : this.grid.getNeighbors(row, col);
+
+    for (const cell of cells) {
+      const n = this.index(cell.row, cell.col);
+      const isDiagonal = this.diagonal && cell.row !== row && cell.col !== col;
+      if (passable) {
+        if (this.costs[n] === Infinity) continue;
+        if (isDiagonal && (this.costs[this.index(row, cell.col)] === Infinity || this.costs[this.index(cell.row, col)] === Infinity)) {
+          continue;
+        }
+      }
+      result.push([n, isDiagonal ? Math.SQRT2 : 1]);
+    }
+    return result;
+  }
+
+  /**
+   * Reset the given cells, seed them from their settled neighbours and
+   * run Dijkstra outward until no distance improves.
+   */
+  private recompute(cells: Iterable<number>): void {
+    const heap: Array<[number, number]> = [];
+    const stale = new Set(cells);
+    for (const i of stale) {
+      this.distances[i] = Infinity;
+      this.next[i] = -1;
+    }
+
+    for (const i of stale) {
+      if (this.costs[i] === Infinity) continue;
+      if (this.goalSet.has(i)) {
+        this.distances[i] = 0;
+        heapPush(heap, [0, i]);
+        continue;
+      }
+      for (const [n, step] of this.neighbors(i, true)) {
+        if (stale.has(n) || this.distances[n] === Infinity) continue;
+        const d = this.distances[n] + step * this.costs[i];
+        if (d < this.distances[i]) {
+          this.distances[i] = d;
+          this.next[i] = n;
+        }
+      }
+      if (this.distances[i] < Infinity) heapPush(heap, [this.distances[i], i]);
+    }
+
+    let updated = stale.size;
+    while (heap.length > 0) {
+      const [d, i] = heapPop(heap);
+      if (d > this.distances[i]) continue;
+      for (const [n, step] of this.neighbors(i, true)) {
+        const nd = d + step * this.costs[n];
+        if (nd < this.distances[n] - 1e-9) {
+          if (!stale.has(n)) updated++;
+          this.distances[n] = nd;
+          this.next[n] = i;
+          heapPush(heap, [nd, n]);
+        }
+      }
+    }
+
+    this.emit('updated', updated);
+  }
+}
+
+// ============================================================
+// Binary heap of [distance, cell]
+// ============================================================
+
+function heapPush(heap: Array<[number, number]>, entry: [number, number]): void {
+  heap.push(entry);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent][0] <= heap[i][0]) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function heapPop(heap: Array<[number, number]>): [number, number] {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const l = i * 2 + 1;
+      const r = l + 1;
+      let smallest = i;
+      if (l < heap.length && heap[l][0] < heap[smallest][0]) smallest = l;
+      if (r < heap.length && heap[r][0] < heap[smallest][0]) smallest = r;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+}
@@ -18,6 +18,11 @@ export interface GridConfig<T = any> {
   y?: number;
 }
 
+export interface GridEvents<T = any> {
+  /** A cell's value changed through setCell or clearCell */
+  'cell-changed': (row: number, col: number, value: T | null, previous: T | null) => void;
+}
+
 export interface CellResult<T> {
   row: number;
   col: number;
@@ -41,7 +46,7 @@ export interface CellResult<T> {
  * const px = grid.cellToPixel(0, 0); // { x: 32, y: 32 }
  * ```
  */
-export class Grid<T> extends EventEmitter {
+export class Grid<T> extends EventEmitter<GridEvents<T>> {
   protected readonly _rows: number;
   protected readonly _cols: number;
   protected readonly _cellSize: number;
@@ -77,14 +82,15 @@ export class Grid<T> extends EventEmitter {
     return this.cells[row][col];
   }
 
+  /** Emits 'cell-changed' when the value differs from the current one. */
   setCell(row: number, col: number, value: T): void {
     if (!this.isValidCell(row, col)) return;
-    this.cells[row][col] = value;
+    this.writeCell(row, col, value);
   }
 
   clearCell(row: number, col: number): void {
     if (!this.isValidCell(row, col)) return;
-    this.cells[row][col] = this._defaultValue;
+    this.writeCell(row, col, this._defaultValue);
   }
 
   // ============================================================
@@ -167,19 +173,20 @@ export class Grid<T> extends EventEmitter {
    * Returns pixel center of a cell.
    * `x = originX + col * (cellSize + gap) + cellSize / 2`
    * `y = originY + row * (cellSize + gap) + cellSize / 2`
+   * Pass `out` to write into an existing object instead of allocating.
    */
-  cellToPixel(row: number, col: number): { x: number; y: number } {
+  cellToPixel(row: number, col: number, out: { x: number; y: number } = { x: 0, y: 0 }): { x: number; y: number } {
     const stride = this._cellSize + this._gap;
-    return {
-      x: this._originX + col * stride + this._cellSize / 2,
-      y: this._originY + row * stride + this._cellSize / 2,
-    };
+    out.x = this._originX + col * stride + this._cellSize / 2;
+    out.y = this._originY + row * stride + this._cellSize / 2;
+    return out;
   }
 
   /**
    * Returns grid cell for a pixel coordinate, or null if outside.
+   * Pass `out` to write into an existing object instead of allocating.
    */
-  pixelToCell(x: number, y: number): { row: number; col: number } | null {
+  pixelToCell(x: number, y: number, out?: { row: number; col: number }): { row: number; col: number } | null {
     const stride = this._cellSize + this._gap;
     const localX = x - this._originX;
     const localY = y - this._originY;
@@ -196,7 +203,10 @@ export class Grid<T> extends EventEmitter {
     const cellLocalY = localY - row * stride;
     if (cellLocalX > this._cellSize || cellLocalY > this._cellSize) return null;
 
-    return { row, col };
+    if (!out) return { row, col };
+    out.row = row;
+    out.col = col;
+    return out;
   }
 
   // ============================================================
@@ -218,6 +228,8 @@ export class Grid<T> extends EventEmitter {
   get rows(): number { return this._rows; }
   get cols(): number { return this._cols; }
   get cellSize(): number { return this._cellSize; }
+  /** Value of empty (never set or cleared) cells */
+  get defaultValue(): T | null { return this._defaultValue; }
 
   isValidCell(row: number, col: number): boolean {
     return row >= 0 && row < this._rows && col >= 0 && col < this._cols;
@@ -227,6 +239,13 @@ export class Grid<T> extends EventEmitter {
   // Private
   // ============================================================
 
+  private writeCell(row: number, col: number, value: T | null): void {
+    const previous = this.cells[row][col];
+    if (previous === value) return;
+    this.cells[row][col] = value;
+    this.emit('cell-changed', row, col, value, previous);
+  }
+
   private createEmptyGrid(): (T | null)[][] {
     const grid: (T | null)[][] = [];
     for (let r = 0; r < this._rows; r++) {
@@ -52,28 +52,28 @@ export class HexGrid<T> extends Grid<T> {
   // ============================================================
 
   /** Returns pixel center of a hex cell. */
-  override cellToPixel(row: number, col: number): { x: number; y: number } {
+  override cellToPixel(row: number, col: number, out: { x: number; y: number } = { x: 0, y: 0 }): { x: number; y: number } {
     const size = this._cellSize;
 
     if (this.orientation === 'pointy') {
       // Pointy-top: width = sqrt(3)*size, height = 2*size
       const w = Math.sqrt(3) * size;
       const h = 2 * size;
-      const x = this._originX + col * w + (row % 2 !== 0 ? w / 2 : 0);
-      const y = this._originY + row * (h * 0.75);
-      return { x, y };
+      out.x = this._originX + col * w + (row % 2 !== 0 ? w / 2 : 0);
+      out.y = this._originY + row * (h * 0.75);
+      return out;
     } else {
       // Flat-top: width = 2*size, height = sqrt(3)*size
       const w = 2 * size;
       const h = Math.sqrt(3) * size;
-      const x = this._originX + col * (w * 0.75);
-      const y = this._originY + row * h + (col % 2 !== 0 ? h / 2 : 0);
-      return { x, y };
+      out.x = this._originX + col * (w * 0.75);
+      out.y = this._originY + row * h + (col % 2 !== 0 ? h / 2 : 0);
+      return out;
     }
   }
 
   /** Returns hex cell for a pixel coordinate, or null if outside. */
-  override pixelToCell(x: number, y: number): { row: number; col: number } | null {
+  override pixelToCell(x: number, y: number, out?: { row: number; col: number }): { row: number; col: number } | null {
     const size = this._cellSize;
     let row: number;
     let col: number;
@@ -95,7 +95,10 @@ export class HexGrid<T> extends Grid<T> {
     }
 
     if (!this.isValidCell(row, col)) return null;
-    return { row, col };
+    if (!out) return { row, col };
+    out.row = row;
+    out.col = col;
+    return out;
   }
 
   // ============================================================
@@ -1,4 +1,6 @@
 export { Grid } from './Grid.js';
 export { HexGrid } from './HexGrid.js';
+export { FlowField } from './FlowField.js';
 
-export type { GridConfig, CellResult } from './Grid.js';
+export type { GridConfig, GridEvents, CellResult } from './Grid.js';
+export type { FlowFieldConfig, FlowFieldEvents, GridCell } from './FlowField.js';
@@ -0,0 +1,300 @@
+import { EventEmitter } from 'eventemitter3';
+import { AssetType } from '../contracts/AssetManager.js';
+import type { AssetManager } from '../contracts/AssetManager.js';
+import { setFontLocale } from '../ui/utils/FontLoader.js';
+import { Logger } from '../utils/Logger.js';
+import { formatMessage, MessageParams } from './MessageFormat.js';
+
+/**
+ * String table: flat (`'menu.play': 'Play'`) or nested (`{ menu: { play: 'Play' } }`).
+ */
+export interface StringTable {
+  [key: string]: string | StringTable;
+}
+
+export interface I18nConfig {
+  /** Initial locale (default: detected from the browser, else fallbackLocale) */
+  locale?: string;
+  /** Locale consulted when a key is missing (default: 'en') */
+  fallbackLocale?: string;
+  /** Inline string tables by locale */
+  tables?: Record<string, StringTable>;
+  /** JSON string table URLs by locale, loaded through the asset manager on demand */
+  sources?: Record<string, string>;
+  /** Asset manager used to load `sources` */
+  assets?: Pick<AssetManager, 'load'>;
+  /** Detect the initial locale from navigator.languages (default: true) */
+  detect?: boolean;
+  /**
+   * Swap the framework font for CJK/Arabic locales while this is the
+   * shared instance (default: true)
+   */
+  swapFonts?: boolean;
+}
+
+export interface I18nEvents {
+  'locale-changed': (locale: string, previous: string) => void;
+  'table-loaded': (locale: string) => void;
+  'missing-key': (key: string, locale: string) => void;
+}
+
+/** Languages written right-to-left */
+const RTL_LANGUAGES = new Set(['ar', 'fa', 'he', 'ur', 'ps', 'yi']);
+
+/**
+ * I18n - String tables, ICU-style messages and runtime language switching.
+ *
+ * Lookups walk a fallback chain: `pt-BR` → `pt` → fallbackLocale. Messages
+ * support `{name}` interpolation, plural, selectordinal and select.
+ * Components that take a `textKey` resolve it through the shared instance
+ * (see `i18n()`) and re-render on `locale-changed`.
+ *
+ * @example
+ * ```typescript
+ * const i18n = new I18n({
+ *   fallbackLocale: 'en',
+ *   tables: { en: { coins: '{count, plural, one {# coin} other {# coins}}' } },
+ *   sources: { tr: 'i18n/tr.json', ja: 'i18n/ja.json' },
+ *   assets: game.make('assets'),
+ * });
+ *
+ * await i18n.setLocale('tr');
+ * i18n.t('coins', { count: 3 });
+ * new GameStyleButton({ textKey: 'menu.play' }); // follows setLocale()
+ * ```
+ */
+export class I18n extends EventEmitter<I18nEvents> {
+  private static instance: I18n | null = null;
+
+  private tables: Map<string, Map<string, string>> = new Map();
+  private sources: Map<string, string>;
+  private loading: Map<string, Promise<void>> = new Map();
+  private assets: Pick<AssetManager, 'load'> | null;
+  private fallbackLocale: string;
+  private swapFonts: boolean;
+  private _locale: string;
+  /** Bumped by every setLocale(), so an older, slower call can't win */
+  private localeRequest = 0;
+  /** `locale:key` pairs already reported as missing */
+  private warnedMissing: Set<string> = new Set();
+
+  constructor(config: I18nConfig = {}) {
+    super();
+    this.fallbackLocale = config.fallbackLocale ?? 'en';
+    this.sources = new Map(Object.entries(config.sources ?? {}));
+    this.assets = config.assets ?? null;
+    this.swapFonts = config.swapFonts ?? true;
+
+    for (const [locale, table] of Object.entries(config.tables ?? {})) {
+      this.addTable(locale, table);
+    }
+
+    const detected = config.detect === false
+      ? null
+      : I18n.detectLocale(this.availableLocales);
+    this._locale = config.locale ?? detected ?? this.fallbackLocale;
+  }
+
+  // ============================================
+  // SHARED INSTANCE
+  // ============================================
+
+  /**
+   * Shared instance used by UI components. Created empty on first use
+   * unless one was installed with setInstance() (I18nServiceProvider does).
+   */
+  static getInstance(): I18n {
+    if (!I18n.instance) {
+      const instance = new I18n({ detect: false });
+      I18n.setInstance(instance);
+      return instance;
+    }
+    return I18n.instance;
+  }
+
+  /**
+   * Install the shared instance and apply its locale font.
+   */
+  static setInstance(instance: I18n | null): void {
+    I18n.instance = instance;
+    if (instance?.swapFonts) void setFontLocale(instance.locale);
+  }
+
+  /**
+   * Best match for the browser's preferred languages among `available`
+   * (exact locale first, then language), or null.
+   */
+  static detectLocale(available: string[]): string | null {
+    if (typeof navigator === 'undefined' || available.length === 0) return null;
+    const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+    const lower = available.map((l) => l.toLowerCase());
+
+    for (const pref of preferred) {
+      if (!pref) continue;
+      const exact = lower.indexOf(pref.toLowerCase());
+      if (exact !== -1) return available[exact];
+      const lang = lower.indexOf(pref.split('-')[0].toLowerCase());
+      if (lang !== -1) return available[lang];
+    }
+    return null;
+  }
+
+  // ============================================
+  // LOCALE
+  // ============================================
+
+  get locale(): string {
+    return this._locale;
+  }
+
+  /** Text direction of the current locale */
+  get direction(): 'ltr' | 'rtl' {
+    return RTL_LANGUAGES.has(this._locale.split('-')[0]) ? 'rtl' : 'ltr';
+  }
+
+  /** Locales with an inline table or a registered source */
+  get availableLocales(): string[] {
+    return [...new Set([...this.tables.keys(), ...this.sources.keys()])];
+  }
+
+  /**
+   * Switch language. Loads any missing tables in the fallback chain first,
+   * then emits `locale-changed` (and swaps the locale font for the shared
+   * instance). If another setLocale() starts meanwhile, the latest wins.
+   * Also useful as an initial load: `await i18n.setLocale(i18n.locale)`.
+   */
+  async setLocale(locale: string): Promise<void> {
+    const request = ++this.localeRequest;
+    await Promise.all(this.getChain(locale).map((l) => this.loadTable(l)));
+    if (request !== this.localeRequest) return;
+
+    const previous = this._locale;
+    this._locale = locale;
+    if (this.swapFonts && I18n.instance === this) void setFontLocale(locale);
+    if (previous !== locale) this.emit('locale-changed', locale, previous);
+  }
+
+  /**
+   * Subscribe to language changes.
+   * @returns Function that removes the listener
+   */
+  onLocaleChange(listener: (locale: string, previous: string) => void): () => void {
+    this.on('locale-changed', listener);
+    return () => { this.off('locale-changed', listener); };
+  }
+
+  // ============================================
+  // TABLES
+  // ============================================
+
+  /**
+   * Merge strings into a locale's table. Nested objects become dotted keys.
+   */
+  addTable(locale: string, table: StringTable): void {
+    let target = this.tables.get(locale);
+    if (!target) {
+      target = new Map();
+      this.tables.set(locale, target);
+    }
+    flatten(table, '', target);
+  }
+
+  /**
+   * Register a JSON table URL loaded on the next setLocale() that needs it.
+   */
+  addSource(locale: string, src: string): void {
+    this.sources.set(locale, src);
+  }
+
+  /**
+   * Load a locale's registered source through the asset manager.
+   * Resolves immediately if there is no source or it is already loaded.
+   */
+  loadTable(locale: string): Promise<void> {
+    const src = this.sources.get(locale);
+    if (!src) return Promise.resolve();
+
+    let pending = this.loading.get(locale);
+    if (!pending) {
+      if (!this.assets) {
+        return Promise.reject(new Error(`I18n: no asset manager to load "${locale}" from ${src}`));
+      }
+      pending = this.assets
+        .load<StringTable>({ id: `i18n:${locale}`, type: AssetType.JSON, src })
+        .then((asset) => {
+          this.addTable(locale, asset.data);
+          this.emit('table-loaded', locale);
+        })
+        .catch((error) => {
+          this.loading.delete(locale);
+          throw error;
+        });
+      this.loading.set(locale, pending);
+    }
+    return pending;
+  }
+
+  // ============================================
+  // LOOKUP
+  // ============================================
+
+  /**
+   * Translate a key. Returns the key itself (and emits `missing-key`)
+   * when no locale in the chain has it; the warning is logged once per
+   * key and locale.
+   */
+  t(key: string, params?: MessageParams): string {
+    for (const locale of this.getChain(this._locale)) {
+      const message = this.tables.get(locale)?.get(key);
+      if (message !== undefined) {
+        return params || message.indexOf('{') !== -1
+          ? formatMessage(message, params, locale)
+          : message;
+      }
+    }
+
+    this.emit('missing-key', key, this._locale);
+    const id = `${this._locale}:${key}`;
+    if (!this.warnedMissing.has(id)) {
+      this.warnedMissing.add(id);
+      Logger.warn('I18n', `Missing translation "${key}" for ${this._locale}`);
+    }
+    return key;
+  }
+
+  /**
+   * True if any locale in the current chain has the key.
+   */
+  has(key: string): boolean {
+    return this.getChain(this._locale).some((l) => this.tables.get(l)?.has(key));
+  }
+
+  /**
+   * Locales consulted for `locale`, most specific first.
+   */
+  getChain(locale: string): string[] {
+    const chain = [locale];
+    const lang = locale.split('-')[0];
+    if (lang !== locale) chain.push(lang);
+    if (!chain.includes(this.fallbackLocale)) chain.push(this.fallbackLocale);
+    return chain;
+  }
+}
+
+/**
+ * Shared I18n instance (shorthand for `I18n.getInstance()`).
+ */
+export function i18n(): I18n {
+  return I18n.getInstance();
+}
+
+function flatten(table: StringTable, prefix: string, out: Map<string, string>): void {
+  for (const [key, value] of Object.entries(table)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'string') {
+      out.set(path, value);
+    } else if (value && typeof value === 'object') {
+      flatten(value, path, out);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * ICU MessageFormat subset used by I18n.
+ *
+ * Supported syntax:
+ * - `{name}` interpolation
+ * - `{n, number}` locale-aware number formatting
+ * - `{n, plural, =0 {none} one {# item} other {# items}}` with `offset:N`
+ * - `{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}`
+ * - `{g, select, male {he} female {she} other {they}}`
+ *
+ * Unknown parameters are left as written so missing values are visible.
+ */
+
+export type MessageParams = Record<string, string | number | boolean | null | undefined>;
+
+const pluralRulesCache = new Map<string, Intl.PluralRules | null>();
+
+function getPluralCategory(locale: string, value: number, ordinal: boolean): string {
+  const cacheKey = `${locale}|${ordinal ? 'o' : 'c'}`;
+  let rules = pluralRulesCache.get(cacheKey);
+  if (rules === undefined) {
+    try {
+      rules = typeof Intl !== 'undefined' && Intl.PluralRules
+        ? new Intl.PluralRules(locale, { type: ordinal ? 'ordinal' : 'cardinal' })
+        : null;
+    } catch {
+      rules = null;
+    }
+    pluralRulesCache.set(cacheKey, rules);
+  }
+  if (rules) return rules.select(value);
+  // English-like fallback when Intl is unavailable
+  return !ordinal && value === 1 ? 'one' : 'other';
+}
+
+function formatNumber(locale: string, value: number): string {
+  try {
+    return new Intl.NumberFormat(locale).format(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/** Index of the `}` matching the `{` at `open`, or -1 */
+function findClose(message: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < message.length; i++) {
+    const ch = message[i];
+    if (ch === '{') depth++;
+    else if (ch === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Parse `key {message} key {message}` option lists */
+function parseOptions(body: string): { options: Map<string, string>; offset: number } {
+  const options = new Map<string, string>();
+  let offset = 0;
+  let i = 0;
+
+  while (i < body.length) {
+    while (i < body.length && /\s/.test(body[i])) i++;
+    if (i >= body.length) break;
+
+    const keyStart = i;
+    while (i < body.length && body[i] !== '{' && !/\s/.test(body[i])) i++;
+    const key = body.slice(keyStart, i);
+
+    if (key.startsWith('offset:')) {
+      offset = Number(key.slice(7)) || 0;
+      continue;
+    }
+
+    while (i < body.length && /\s/.test(body[i])) i++;
+    if (body[i] !== '{') break;
+    const close = findClose(body, i);
+    if (close === -1) break;
+    options.set(key, body.slice(i + 1, close));
+    i = close + 1;
+  }
+
+  return { options, offset };
+}
+
+function formatArgument(
+  arg: string,
+  params: MessageParams,
+  locale: string,
+  pound: string | undefined
+): string | null {
+  const firstComma = arg.indexOf(',');
+  const name = (firstComma === -1 ? arg : arg.slice(0, firstComma)).trim();
+  const value = params[name];
+
+  if (firstComma === -1) {
+    if (value === undefined || value === null) return null;
+    return String(value);
+  }
+
+  const rest = arg.slice(firstComma + 1);
+  const secondComma = rest.indexOf(',');
+  const type = (secondComma === -1 ? rest : rest.slice(0, secondComma)).trim();
+  const body = secondComma === -1 ? '' : rest.slice(secondComma + 1);
+
+  if (value === undefined || value === null) return null;
+
+  switch (type) {
+    case 'number':
+      return formatNumber(locale, Number(value));
+
+    case 'plural':
+    case 'selectordinal': {
+      const { options, offset } = parseOptions(body);
+      const n = Number(value);
+      const exact = options.get(`=${n}`);
+      const adjusted = n - offset;
+      const chosen = exact
+        ?? options.get(getPluralCategory(locale, adjusted, type === 'selectordinal'))
+        ?? options.get('other');
+      if (chosen === undefined) return null;
+      return formatMessage(chosen, params, locale, formatNumber(locale, adjusted));
+    }
+
+    case 'select': {
+      const { options } = parseOptions(body);
+      const chosen = options.get(String(value)) ?? options.get('other');
+      if (chosen === undefined) return null;
+      return formatMessage(chosen, params, locale, pound);
+    }
+
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Format an ICU-style message with parameters.
+ *
+ * @param message - Message pattern
+ * @param params - Values for `{placeholders}`
+ * @param locale - Locale used for plural rules and number formatting
+ * @param pound - Value substituted for `#` (set inside plural branches)
+ */
+export function formatMessage(
+  message: string,
+  params: MessageParams = {},
+  locale = 'en',
+  pound?: string
+): string {
+  if (message.indexOf('{') === -1 && (pound === undefined || message.indexOf('#') === -1)) {
+    return message;
+  }
+
+  let out = '';
+  let i = 0;
+  while (i < message.length) {
+    const ch = message[i];
+
+    if (ch === '{') {
+      const close = findClose(message, i);
+      if (close === -1) {
+        out += message.slice(i);
+        break;
+      }
+      const formatted = formatArgument(message.slice(i + 1, close), params, locale, pound);
+      out += formatted ?? message.slice(i, close + 1);
+      i = close + 1;
+      continue;
+    }
+
+    if (ch === '#' && pound !== undefined) {
+      out += pound;
+    } else {
+      out += ch;
+    }
+    i++;
+  }
+  return out;
+}
@@ -0,0 +1,16 @@
+/**
+ * I18n Module - GameByte Framework
+ *
+ * String tables, ICU-style plurals/interpolation and live language switching.
+ *
+ * @module i18n
+ * @example
+ * ```typescript
+ * import { I18n, i18n, formatMessage } from '@gamebyte/framework/i18n';
+ * ```
+ */
+
+export { I18n, i18n } from './I18n.js';
+export type { I18nConfig, I18nEvents, StringTable } from './I18n.js';
+export { formatMessage } from './MessageFormat.js';
+export type { MessageParams } from './MessageFormat.js';
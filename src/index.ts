@@ -428,6 +428,26 @@ export type { GameInputConfig, GameInputColorScheme } from './ui/components/Game
 export { GameList } from './ui/components/GameList';
 export type { GameListConfig } from './ui/components/GameList';
 
+// Virtualized list/grid views (recycling renderers)
+export {
+  GameVirtualList,
+  GameVirtualGrid,
+  VirtualScrollView,
+  ListDataSource,
+  ScrollPhysics
+} from './ui/components/virtual';
+export type {
+  GameVirtualListConfig,
+  GameVirtualGridConfig,
+  VirtualScrollViewConfig,
+  VirtualScrollViewEvents,
+  VirtualItemRenderer,
+  VirtualItemBounds,
+  ScrollAlign,
+  ListDataSourceEvents,
+  ScrollPhysicsConfig
+} from './ui/components/virtual';
+
 export { GameRadioGroup, GameRadioColors } from './ui/components/GameRadioGroup';
 export type { GameRadioGroupConfig, GameRadioColorScheme, GameRadioOption } from './ui/components/GameRadioGroup';
 
@@ -464,7 +484,51 @@ export type {
 export * as PixiUI from '@pixi/ui';
 
 // Font Loader (auto-loads framework font)
-export { loadFrameworkFont, getFrameworkFontFamily, isFontReady } from './ui/utils/FontLoader';
+export { loadFrameworkFont, getFrameworkFontFamily, isFontReady, registerLocaleFont, getLocaleFont, setFontLocale } from './ui/utils/FontLoader';
+export type { LocaleFontConfig } from './ui/utils/FontLoader';
+
+// Accessibility (screen-reader proxies for canvas UI)
+export { AccessibilityManager, AccessibleNode, describeComponent } from './ui/accessibility';
+export type {
+  AccessibilityManagerConfig,
+  AccessibilityManagerEvents,
+  AccessibleOptions,
+  AccessibleRole,
+  AccessibleState,
+  AccessibleTarget,
+  AnnouncePriority
+} from './ui/accessibility';
+
+// Focus Navigation (gamepad / keyboard / TV remote)
+export { FocusManager, FocusRing, findNeighbor, findWrapTarget } from './ui/focus';
+export type {
+  FocusManagerConfig,
+  FocusManagerEvents,
+  FocusScope,
+  FocusScopeOptions,
+  FocusRingConfig,
+  FocusRingColorScheme,
+  Focusable,
+  FocusableOptions,
+  FocusDirection
+} from './ui/focus';
+
+// Declarative UI Markup
+export { MarkupView, MarkupScreen, MarkupRegistry, markupComponents, h, compileExpression, compileTemplate } from './ui/markup';
+export type {
+  MarkupViewOptions,
+  MarkupViewEvents,
+  MarkupState,
+  MarkupComponentDefinition,
+  MarkupProps,
+  UINode,
+  UIMarkupDocument,
+  UINodeAttributes,
+  UINodeHandler,
+  CompiledExpression,
+  CompiledTemplate,
+  ExpressionScope
+} from './ui/markup';
 
 // Screen & Panel Management (Boilerplate)
 export { ScreenManager } from './ui/app/ScreenManager';
@@ -524,6 +588,15 @@ export type {
 // Input Buffering with Coyote Time
 export { InputBuffer } from './input/InputBuffer';
 export type { InputBufferConfig, InputBufferEvents } from './input/InputBuffer';
+export { InputRecorder, InputReplayPlayer, serializeRecording, parseRecording } from './input/index';
+export type {
+  InputRecorderConfig,
+  InputRecorderEvents,
+  InputReplayConfig,
+  InputReplayEvents,
+  InputRecording,
+  RecordedInput,
+} from './input/index';
 
 // Game-Specific Input Handlers
 export { GameBytePlatformerInputHandler } from './input/handlers/PlatformerInputHandler';
@@ -708,8 +781,8 @@ export type {
 } from './layout/index';
 
 // Reactive State Management
-export { createState, computed, isReactive, resolveValue } from './ui/state';
-export type { StateListener, ReactiveState } from './ui/state';
+export { createState, computed, isReactive, resolveValue, reactive, effect, watch, batch, toRaw, isTracked, persist } from './ui/state';
+export type { StateListener, ReactiveState, WatchOptions, FlushMode, PersistOptions, PersistHandle } from './ui/state';
 
 // ═══════════════════════════════════════════════════
 // Feature Expansion: New Modules
@@ -752,6 +825,10 @@ export { QualityTierManager } from './performance/QualityTierManager';
 // Instance Manager (available via three-toolkit sub-path)
 export type { IInstanceManager, IInstanceHandle } from './contracts/Instancing';
 
+// 3D Particle Effects (ParticleSystem3D / ParticlePool3D via three-toolkit sub-path)
+export { parseParticleEffect3D } from './three/particles/ParticleEffect3D';
+export type { ParticleEffect3DConfig, EmissionShape3D } from './three/particles/ParticleEffect3D';
+
 // Post-Processing Pipeline
 export { PostProcessingPipeline } from './postprocessing/PostProcessingPipeline';
 export { PostProcessingServiceProvider } from './services/PostProcessingServiceProvider';
@@ -819,8 +896,8 @@ export { WaveManager } from './waves/index';
 export type { WaveConfig, WaveData, EnemySpawnDef, WaveManagerEvents } from './waves/index';
 
 // Grid System
-export { Grid, HexGrid } from './grids/index';
-export type { GridConfig, CellResult } from './grids/index';
+export { Grid, HexGrid, FlowField } from './grids/index';
+export type { GridConfig, GridEvents, CellResult, FlowFieldConfig, FlowFieldEvents, GridCell } from './grids/index';
 
 // Gesture Detector
 export { GestureDetector } from './gesture/index';
@@ -828,24 +905,187 @@ export type { GestureConfig, GestureDetectorEvents } from './gesture/index';
 
 // Save System
 export { SaveSystem } from './save/index';
-export type { SaveConfig, SaveSystemEvents } from './save/index';
+export type { SaveConfig, SaveSystemEvents, SaveCorruptionReason, SaveRecoverySource } from './save/index';
+export {
+  SaveSlotSystem,
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  IndexedDBStorageAdapter,
+} from './save/index';
+export type {
+  SaveSlotConfig,
+  SaveSlotMetadata,
+  SaveSlotSystemEvents,
+  SaveStorageAdapter,
+} from './save/index';
 
 // Economy Manager
 export { EconomyManager } from './economy/index';
 export type { CurrencyDef, ShopItemDef, EconomyManagerEvents } from './economy/index';
 
+// Achievements & Quests
+export { AchievementSystem, QuestSystem } from './achievements/index';
+export type {
+  AchievementDef,
+  AchievementProgress,
+  AchievementSaveData,
+  AchievementSystemConfig,
+  AchievementSystemEvents,
+  QuestDef,
+  QuestStepDef,
+  QuestState,
+  QuestSaveData,
+  QuestResetWindow,
+  QuestSystemConfig,
+  QuestSystemEvents,
+  RewardDef,
+  ProgressStore,
+} from './achievements/index';
+
 // ─── v1.5 Core Infrastructure ──────────────────────────────────────────────
 
+// Seeded Random Service
+export { Random } from './random/index';
+export type { RandomSource, IRandom, RandomState } from './random/index';
+export { RandomServiceProvider } from './services/RandomServiceProvider';
+
+// Localization
+export { I18n, i18n, formatMessage } from './i18n/index';
+export type { I18nConfig, I18nEvents, StringTable, MessageParams } from './i18n/index';
+export { I18nServiceProvider } from './services/I18nServiceProvider';
+export { SpatialServiceProvider } from './services/SpatialServiceProvider';
+export type { SpatialServiceConfig } from './services/SpatialServiceProvider';
+
+// AI: Behavior Trees
+export { Blackboard, BehaviorTree, BehaviorTreeInstance, BehaviorTreeLibrary, BT, BTNode } from './ai/index';
+export type {
+  BlackboardEvents,
+  BehaviorTreeEvents,
+  BehaviorTreeInstanceOptions,
+  BehaviorTreeConfig,
+  BTStatus,
+  BTContext,
+  BTLeafContext,
+  BTActionFn,
+  BTConditionFn,
+  BTNodeDef,
+  BTNodeFactory,
+  BTResolver,
+} from './ai/index';
+
+// AI: Steering & Flocking
+export {
+  SteeringAgent,
+  Flock,
+  seek,
+  flee,
+  arrive,
+  pursue,
+  evade,
+  wander,
+  separation,
+  alignment,
+  cohesion,
+  avoidObstacles,
+} from './ai/index';
+export type {
+  SteeringAgentConfig,
+  SteeringBehaviorEntry,
+  SteeringBehaviorType,
+  FlockConfig,
+  Vec2,
+  SteeringBody,
+  CircleObstacle,
+  WanderState,
+  WanderParams,
+} from './ai/index';
+
+// Spatial Indexing
+export { SpatialHash, SpatialIndex, bodiesOverlap } from './spatial/index';
+export type {
+  SpatialPoint,
+  SpatialBody,
+  SpatialIndexConfig,
+  SpatialIndexEvents,
+  SpatialFilter,
+  SpatialQuery,
+} from './spatial/index';
+
+// Tilemaps (Tiled)
+export {
+  TiledMap,
+  parseTiledMap,
+  parseTmx,
+  parseTsx,
+  TiledMapLoader,
+  TilemapRenderer,
+  tiledObjectToBodyConfig,
+  createBodiesFromObjects,
+  createTriggerZonesFromObjects,
+  tiledObjectToWaypoints,
+} from './tilemap/index';
+export type {
+  TiledProperties,
+  TiledTileset,
+  TiledTileData,
+  TiledObject,
+  TiledLayer,
+  TiledTileLayer,
+  TiledObjectLayer,
+  TiledImageLayer,
+  TiledParseOptions,
+  TilemapRendererOptions,
+  TiledBodyOptions,
+  TiledMapJSON,
+} from './tilemap/index';
+
+// Sprite Sheets & Frame Animation
+export { parseAtlas, TextureAtlas, TextureAtlasLoader, SpriteAnimator } from './sprites/index';
+export type {
+  AtlasData,
+  AtlasFrameData,
+  AtlasClipData,
+  SpriteAnimatorConfig,
+  SpriteAnimatorEvents,
+  SpriteClipConfig,
+  SpriteAnimationMode,
+} from './sprites/index';
+
+// Skeletal 2D Animation (Spine)
+export { parseSpineSkeleton, parseSpineAtlas, Skeleton, SkeletonAnimation, SkeletonLoader } from './skeletal/index';
+export type {
+  SkeletonData,
+  SkeletonAsset,
+  SkeletonAnimationConfig,
+  SkeletonAnimationEvents,
+  SkeletonPlayOptions,
+  SkeletonEvent,
+} from './skeletal/index';
+
 // Tween Engine
 export { Tween } from './tween/index';
-export type { TweenConfig } from './tween/index';
+export type { TweenConfig, TweenProps, TweenValue } from './tween/index';
+export { TweenPlugins, color as tweenColor, MotionPath, motionPath } from './tween/index';
+export type { TweenPlugin, ColorSpace, ColorValue, MotionPathConfig, PathCurve, PathPoint } from './tween/index';
 export { TweenManager } from './tween/index';
+export { Timeline } from './tween/index';
+export type { TimelineConfig, TimelineEvents, TimelinePosition } from './tween/index';
 export { Ease } from './tween/index';
 export type { EasingFunction as TweenEasingFunction } from './tween/index';
 
 // Particle System
 export { ParticleEmitter } from './particles/index';
 export type { ParticleConfig } from './particles/index';
+export { ParticleEffectLoader, ParticlePreview, parseParticleEffect } from './particles/index';
+export type {
+  EmissionShape,
+  ValueCurve,
+  ColorGradient,
+  ParticleBurst,
+  SubEmitterConfig,
+  ParticleAttractor,
+  ParticlePreviewOptions,
+} from './particles/index';
 
 // Camera System
 export { Camera } from './camera/index';
@@ -875,6 +1115,38 @@ export {
 } from './camera/controllers/index';
 export type { ICameraController3D, OrbitalConfig } from './camera/controllers/index';
 
+// Networking (multiplayer)
+export {
+  defineMessage,
+  Protocol,
+  LoopbackTransport,
+  LoopbackListener,
+  WebSocketTransport,
+  NetServer,
+  NetClient,
+  EntityReplicator,
+  EntityInterpolator,
+  ClientPrediction,
+  hostTurnEngine,
+  mirrorTurnEngine,
+} from './net/index';
+export type {
+  MessageDef,
+  MessageData,
+  Transport,
+  TransportListener,
+  NetServerConfig,
+  NetClientConfig,
+  Room,
+  Session,
+  PeerInfo,
+  NetBody,
+  Snapshot,
+  EntityReplicatorConfig,
+  EntityInterpolatorConfig,
+  ClientPredictionConfig,
+} from './net/index';
+
 // Asset Fallback System
 export { AssetFallback } from './assets/AssetFallback';
 export type { FallbackConfig } from './assets/AssetFallback';
@@ -883,7 +1155,7 @@ export type { FallbackConfig } from './assets/AssetFallback';
 export { MatchDetector } from './genre/puzzle/index';
 export type { MatchRule, MatchResult, MatchDetectorConfig } from './genre/puzzle/index';
 export { BoardGravity } from './genre/puzzle/index';
-export type { GravityResult } from './genre/puzzle/index';
+export type { GravityResult, FillResult } from './genre/puzzle/index';
 
 // ─── Genre Templates: Survivors/Roguelike ──────────────────────────────────
 export { AutoAttack } from './genre/survivors/index';
@@ -903,7 +1175,7 @@ export type { PrestigeConfig, PrestigeEvents } from './genre/idle/index';
 export { PathFollower } from './genre/td/index';
 export type { Waypoint, PathFollowerEvents } from './genre/td/index';
 export { TowerManager } from './genre/td/index';
-export type { TowerDef, PlacedTower, TowerManagerEvents } from './genre/td/index';
+export type { TowerDef, PlacedTower, TowerManagerEvents, TowerManagerOptions } from './genre/td/index';
 
 // ─── Genre Templates: RPG ───────────────────────────────────────────────────
 export { StatsSystem } from './genre/rpg/index';
@@ -933,7 +1205,7 @@ export type { SettingsConfig, SettingsPanelEvents, SettingsFieldDef, SettingsFie
 export { TutorialOverlay } from './boilerplate/index';
 export type { TutorialStep, TutorialOptions, TutorialEvents } from './boilerplate/index';
 export { Toast } from './boilerplate/index';
-export type { ToastConfig } from './boilerplate/index';
+export type { ToastConfig, ToastEvents } from './boilerplate/index';
 export { RewardFly } from './boilerplate/index';
 export type { RewardFlyConfig } from './boilerplate/index';
 export { QuickGameSetup } from './boilerplate/index';
@@ -973,6 +1245,9 @@ import { PerformanceServiceProvider } from './services/PerformanceServiceProvide
 import { AudioServiceProvider } from './services/AudioServiceProvider';
 import { MergeServiceProvider } from './services/MergeServiceProvider';
 import { TickServiceProvider } from './services/TickServiceProvider';
+import { RandomServiceProvider } from './services/RandomServiceProvider';
+import { I18nServiceProvider } from './services/I18nServiceProvider';
+import { SpatialServiceProvider } from './services/SpatialServiceProvider';
 import { ResourceServiceProvider } from './services/ResourceServiceProvider';
 import { PostProcessingServiceProvider } from './services/PostProcessingServiceProvider';
 import { EnvironmentServiceProvider } from './services/EnvironmentServiceProvider';
@@ -1047,6 +1322,9 @@ export function createGame(config?: QuickGameConfig): GameByte | Promise<GameByt
 
   // Register new feature service providers
   app.register(new TickServiceProvider());
+  app.register(new RandomServiceProvider());
+  app.register(new I18nServiceProvider());
+  app.register(new SpatialServiceProvider());
   app.register(new ResourceServiceProvider());
   app.register(new PostProcessingServiceProvider());
   app.register(new EnvironmentServiceProvider());
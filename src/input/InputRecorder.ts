@@ -0,0 +1,126 @@
+import { EventEmitter } from 'eventemitter3';
+import type { TickSystem } from '../tick/TickSystem.js';
+import type { TickState } from '../contracts/Tick.js';
+import type { InputManager, ProcessedInputEvent } from '../contracts/Input.js';
+import type { IRandom } from '../contracts/Random.js';
+import { INPUT_RECORDING_VERSION, InputRecording, RecordedInput } from './InputRecording.js';
+
+export interface InputRecorderConfig {
+  /** Tick system whose frame deltas are recorded */
+  tick: Pick<TickSystem, 'on' | 'off'>;
+  /** Input manager whose processed events are recorded */
+  input?: Pick<InputManager, 'on' | 'off'>;
+  /** Random service whose state is captured at start, so replays roll the same numbers */
+  random?: Pick<IRandom, 'getState'>;
+}
+
+export interface InputRecorderEvents {
+  'started': () => void;
+  'stopped': (recording: InputRecording) => void;
+}
+
+/**
+ * InputRecorder - Captures a play session for deterministic replay.
+ *
+ * Listens to the TickSystem's `tick` event for per-frame deltas and to the
+ * input manager's `input-processed` event for the raw input/action stream.
+ * Inputs processed between two ticks are attributed to the frame that
+ * consumes them (the next tick).
+ *
+ * @example
+ * ```typescript
+ * const recorder = new InputRecorder({ tick, input, random });
+ * recorder.start({ level: 3 });
+ * // ...play...
+ * const text = serializeRecording(recorder.stop());
+ * ```
+ */
+export class InputRecorder extends EventEmitter<InputRecorderEvents> {
+  private tickSource: InputRecorderConfig['tick'];
+  private inputSource: InputRecorderConfig['input'] | null;
+  private random: InputRecorderConfig['random'] | null;
+
+  private recording: InputRecording | null = null;
+  private startTime = 0;
+
+  private readonly onTick = (state: TickState): void => {
+    this.recording?.deltas.push(state.deltaMs);
+  };
+
+  private readonly onInput = (event: ProcessedInputEvent): void => {
+    if (!this.recording) return;
+    const input: RecordedInput = {
+      frame: this.recording.deltas.length,
+      raw: { ...event.rawEvent, timestamp: event.rawEvent.timestamp - this.startTime },
+      context: event.context,
+    };
+    if (event.action) input.action = event.action;
+    if (event.value !== undefined) input.value = event.value;
+    this.recording.inputs.push(input);
+  };
+
+  constructor(config: InputRecorderConfig) {
+    super();
+    this.tickSource = config.tick;
+    this.inputSource = config.input ?? null;
+    this.random = config.random ?? null;
+  }
+
+  /** Whether a recording is in progress */
+  get isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /** Number of frames recorded so far */
+  get frameCount(): number {
+    return this.recording?.deltas.length ?? 0;
+  }
+
+  /**
+   * Begin recording. Any recording in progress is discarded.
+   * @param meta Free-form data stored with the recording
+   */
+  start(meta?: Record<string, unknown>): void {
+    if (this.recording) this.detach();
+
+    this.recording = { version: INPUT_RECORDING_VERSION, deltas: [], inputs: [] };
+    if (this.random) this.recording.random = this.random.getState();
+    if (meta) this.recording.meta = { ...meta };
+    this.startTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
+
+    this.tickSource.on('tick', this.onTick);
+    this.inputSource?.on('input-processed', this.onInput);
+    this.emit('started');
+  }
+
+  /**
+   * Stop recording and return the captured session.
+   * Throws if no recording is in progress.
+   */
+  stop(): InputRecording {
+    const recording = this.recording;
+    if (!recording) {
+      throw new Error('InputRecorder.stop: not recording');
+    }
+    this.detach();
+    this.recording = null;
+    this.emit('stopped', recording);
+    return recording;
+  }
+
+  /**
+   * Stop listening and drop any recording in progress.
+   */
+  destroy(): void {
+    if (this.recording) {
+      this.detach();
+      this.recording = null;
+    }
+    this.removeAllListeners();
+  }
+
+  private detach(): void {
+    this.tickSource.off('tick', this.onTick);
+    this.inputSource?.off('input-processed', this.onInput);
+  }
+}
@@ -0,0 +1,121 @@
+import type { GameAction, InputContext, RawInputEvent } from '../contracts/Input.js';
+import type { RandomState } from '../contracts/Random.js';
+
+/** Current recording format version */
+export const INPUT_RECORDING_VERSION = 1;
+
+/**
+ * One recorded input: the raw event (re-fed through `processInput` on
+ * replay) plus the action it mapped to when recorded.
+ */
+export interface RecordedInput {
+  /** Frame index the input was consumed in */
+  frame: number;
+  /** Raw event with timestamp relative to recording start (ms) */
+  raw: RawInputEvent;
+  /** Action the event mapped to at record time, if any */
+  action?: GameAction;
+  /** Input context at record time */
+  context: InputContext;
+  /** Analog value at record time */
+  value?: number;
+}
+
+/**
+ * A captured play session: per-frame deltas and the input stream.
+ */
+export interface InputRecording {
+  version: number;
+  /** Per-frame delta in ms, one entry per recorded tick */
+  deltas: number[];
+  /** Inputs in the order they were processed */
+  inputs: RecordedInput[];
+  /** Random service state at record start, for deterministic gameplay */
+  random?: RandomState;
+  /** Free-form game data (level id, build number, score...) */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Compact wire format. Deltas are run-length encoded as [ms, count] pairs
+ * (fixed-step sessions collapse to a single pair) and inputs are tuples
+ * without undefined fields.
+ */
+interface CompactRecording {
+  v: number;
+  d: Array<[number, number]>;
+  i: Array<[number, RawInputEvent, InputContext, GameAction | 0, number | 0]>;
+  r?: RandomState;
+  m?: Record<string, unknown>;
+}
+
+/**
+ * Serialize a recording to a compact JSON string.
+ */
+export function serializeRecording(recording: InputRecording): string {
+  const runs: Array<[number, number]> = [];
+  for (const delta of recording.deltas) {
+    const last = runs[runs.length - 1];
+    if (last && last[0] === delta) {
+      last[1]++;
+    } else {
+      runs.push([delta, 1]);
+    }
+  }
+
+  const compact: CompactRecording = {
+    v: recording.version,
+    d: runs,
+    i: recording.inputs.map((input) => [
+      input.frame,
+      stripUndefined(input.raw),
+      input.context,
+      input.action ?? 0,
+      input.value ?? 0,
+    ]),
+  };
+  if (recording.random) compact.r = recording.random;
+  if (recording.meta) compact.m = recording.meta;
+
+  return JSON.stringify(compact);
+}
+
+/**
+ * Parse a string produced by serializeRecording().
+ * Throws on malformed input or an unsupported format version.
+ */
+export function parseRecording(text: string): InputRecording {
+  const compact = JSON.parse(text) as CompactRecording;
+
+  if (!compact || typeof compact !== 'object' || !Array.isArray(compact.d) || !Array.isArray(compact.i)) {
+    throw new Error('parseRecording: not an input recording');
+  }
+  if (compact.v > INPUT_RECORDING_VERSION) {
+    throw new Error(`parseRecording: unsupported recording version ${compact.v}`);
+  }
+
+  const deltas: number[] = [];
+  for (const [delta, count] of compact.d) {
+    for (let i = 0; i < count; i++) deltas.push(delta);
+  }
+
+  const inputs: RecordedInput[] = compact.i.map(([frame, raw, context, action, value]) => {
+    const input: RecordedInput = { frame, raw, context };
+    if (action !== 0) input.action = action;
+    if (value !== 0) input.value = value;
+    return input;
+  });
+
+  const recording: InputRecording = { version: compact.v, deltas, inputs };
+  if (compact.r) recording.random = compact.r;
+  if (compact.m) recording.meta = compact.m;
+  return recording;
+}
+
+function stripUndefined<T extends object>(obj: T): T {
+  const out = {} as T;
+  for (const key of Object.keys(obj) as Array<keyof T>) {
+    if (obj[key] !== undefined) out[key] = obj[key];
+  }
+  return out;
+}
@@ -0,0 +1,189 @@
+import { EventEmitter } from 'eventemitter3';
+import type { TickSystem } from '../tick/TickSystem.js';
+import type { GameAction, InputManager } from '../contracts/Input.js';
+import type { IRandom } from '../contracts/Random.js';
+import type { InputRecording, RecordedInput } from './InputRecording.js';
+
+export interface InputReplayConfig {
+  /** Tick system driven with the recorded deltas */
+  tick: Pick<TickSystem, 'tick'>;
+  /** Input manager the recorded raw events are fed back into */
+  input?: Pick<InputManager, 'processInput' | 'currentContext' | 'setContext'>;
+  /** Random service restored to the recorded state on start */
+  random?: Pick<IRandom, 'setState'>;
+  /** Playback speed multiplier for update() (default: 1) */
+  speed?: number;
+}
+
+export interface InputReplayEvents {
+  'started': () => void;
+  'frame': (frame: number, deltaMs: number) => void;
+  'action': (action: GameAction, input: RecordedInput) => void;
+  'finished': () => void;
+}
+
+/**
+ * InputReplayPlayer - Feeds a recording back into the game loop.
+ *
+ * Each step re-processes the frame's raw inputs through the input manager
+ * (restoring the recorded context first) and then ticks the TickSystem with
+ * the recorded delta, so the simulation sees exactly what it saw live.
+ *
+ * Use `playAll()` for headless reproduction (tests, bug reports) and
+ * `update(realDeltaMs)` for watchable playback at `speed`.
+ *
+ * @example
+ * ```typescript
+ * const player = new InputReplayPlayer(parseRecording(text), { tick, input, random });
+ * player.on('finished', () => showResults());
+ * // Drive the loop from the player instead of wiring renderer ticks to TickSystem
+ * renderer.on('tick', (ms) => player.update(ms));
+ * ```
+ */
+export class InputReplayPlayer extends EventEmitter<InputReplayEvents> {
+  private recording: InputRecording;
+  private tickTarget: InputReplayConfig['tick'];
+  private input: InputReplayConfig['input'] | null;
+  private random: InputReplayConfig['random'] | null;
+
+  private _speed: number;
+  private _frame = 0;
+  private inputCursor = 0;
+  private started = false;
+  private playing = false;
+  private accumulator = 0;
+
+  constructor(recording: InputRecording, config: InputReplayConfig) {
+    super();
+    this.recording = recording;
+    this.tickTarget = config.tick;
+    this.input = config.input ?? null;
+    this.random = config.random ?? null;
+    this._speed = config.speed ?? 1;
+  }
+
+  /** Index of the next frame to play */
+  get frame(): number {
+    return this._frame;
+  }
+
+  /** Total frames in the recording */
+  get frameCount(): number {
+    return this.recording.deltas.length;
+  }
+
+  /** Whether update() is advancing playback */
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /** Whether every frame has been played */
+  get isFinished(): boolean {
+    return this._frame >= this.recording.deltas.length;
+  }
+
+  /** Playback speed multiplier for update() */
+  get speed(): number {
+    return this._speed;
+  }
+
+  set speed(value: number) {
+    this._speed = Math.max(0, value);
+  }
+
+  /**
+   * Rewind to the first frame, restore the recorded random state and begin playback.
+   */
+  start(): void {
+    this._frame = 0;
+    this.inputCursor = 0;
+    this.accumulator = 0;
+    if (this.random && this.recording.random) {
+      this.random.setState(this.recording.random);
+    }
+    this.started = true;
+    this.playing = true;
+    this.emit('started');
+  }
+
+  /** Pause update()-driven playback */
+  pause(): void {
+    this.playing = false;
+  }
+
+  /** Resume update()-driven playback */
+  resume(): void {
+    if (this.started && !this.isFinished) this.playing = true;
+  }
+
+  /**
+   * Play exactly one recorded frame. Starts playback if needed.
+   * @returns false once the recording is exhausted
+   */
+  step(): boolean {
+    if (!this.started) this.start();
+    if (this.isFinished) return false;
+
+    const frame = this._frame;
+    const inputs = this.recording.inputs;
+
+    while (this.inputCursor < inputs.length && inputs[this.inputCursor].frame <= frame) {
+      this.feed(inputs[this.inputCursor]);
+      this.inputCursor++;
+    }
+
+    const delta = this.recording.deltas[frame];
+    this.tickTarget.tick(delta);
+    this._frame++;
+    this.emit('frame', frame, delta);
+
+    if (this.isFinished) {
+      this.playing = false;
+      this.emit('finished');
+    }
+    return true;
+  }
+
+  /**
+   * Advance playback by real elapsed time, stepping every recorded frame
+   * whose delta fits. Recorded deltas are always used for the simulation.
+   */
+  update(realDeltaMs: number): void {
+    if (!this.playing) return;
+    this.accumulator += realDeltaMs * this._speed;
+
+    while (this.playing && !this.isFinished && this.accumulator >= this.recording.deltas[this._frame]) {
+      this.accumulator -= this.recording.deltas[this._frame];
+      this.step();
+    }
+  }
+
+  /**
+   * Play all remaining frames synchronously.
+   */
+  playAll(): void {
+    while (this.step()) {
+      // step() does the work
+    }
+  }
+
+  /**
+   * Stop playback and remove all listeners.
+   */
+  destroy(): void {
+    this.playing = false;
+    this.removeAllListeners();
+  }
+
+  private feed(input: RecordedInput): void {
+    if (this.input) {
+      if (this.input.currentContext !== input.context) {
+        this.input.setContext(input.context);
+      }
+      this.input.processInput({ ...input.raw });
+    }
+    if (input.action) {
+      this.emit('action', input.action, input);
+    }
+  }
+}
@@ -54,6 +54,8 @@ export class GameByteUINavigationHandler extends EventEmitter implements UINavig
   // Input tracking
   private pressedKeys: Set<string> = new Set();
   private pressedGamepadButtons: Set<number> = new Set();
+  /** Left stick direction past the dead zone, per axis */
+  private stickDirection: Point = { x: 0, y: 0 };
   
   constructor(config?: Partial<UINavigationConfig>) {
     super();
@@ -166,7 +168,8 @@ export class GameByteUINavigationHandler extends EventEmitter implements UINavig
   }
 
   /**
-   * Move focus in a direction
+   * Move focus in a direction (emits 'focus-move', as arrow keys, the
+   * D-pad and the left stick do)
    */
   public moveFocus(direction: 'up' | 'down' | 'left' | 'right'): void {
     let dir: Point;
@@ -177,7 +180,6 @@ export class GameByteUINavigationHandler extends EventEmitter implements UINavig
       case 'right': dir = { x: 1, y: 0 }; break;
     }
     this.handleNavigationInput(dir);
-    this.emit('focus-move', direction);
   }
 
   /**
@@ -453,21 +455,24 @@ export class GameByteUINavigationHandler extends EventEmitter implements UINavig
         }
       }
     } else if (event.type === 'gamepad-axis') {
-      const axis = event.gamepadAxis;
+      // InputManager reports the axis as axisIndex
+      const axis = event.axisIndex ?? event.gamepadAxis;
       const value = event.axisValue || 0;
       
-      // Left stick navigation
-      if (axis === 0) { // Left stick X
-        if (Math.abs(value) > this.config.analogDeadZone) {
-          this.state.navigationDirection.x = value > 0 ? 1 : -1;
-        } else {
-          this.state.navigationDirection.x = 0;
-        }
-      } else if (axis === 1) { // Left stick Y
-        if (Math.abs(value) > this.config.analogDeadZone) {
-          this.state.navigationDirection.y = value > 0 ? 1 : -1;
-        } else {
-          this.state.navigationDirection.y = 0;
+      // Left stick navigation; crossing the dead zone on an axis moves focus
+      // once, then repeats like a held D-pad. Each axis is tracked on its
+      // own, so a diagonal stick doesn't alternate X and Y moves.
+      if (axis === 0 || axis === 1) {
+        const key = axis === 0 ? 'x' : 'y';
+        const next = Math.abs(value) > this.config.analogDeadZone ? (value > 0 ? 1 : -1) : 0;
+        if (next === this.stickDirection[key]) return;
+        this.stickDirection[key] = next;
+
+        if (next !== 0) {
+          this.handleNavigationInput(key === 'x' ? { x: next, y: 0 } : { x: 0, y: next });
+        } else if (this.state.currentRepeatDirection[key] !== 0) {
+          this.clearRepeatTimer();
+          this.state.navigationDirection[key] = 0;
         }
       }
     }
@@ -506,11 +511,22 @@ export class GameByteUINavigationHandler extends EventEmitter implements UINavig
   private handleNavigationInput(direction: Point): void {
     this.state.navigationDirection = { ...direction };
     this.state.lastNavigationTime = performance.now();
+    this.emitFocusMove(direction);
     
     // Setup repeat timer
     this.setupNavigationRepeat(direction);
   }
 
+  /**
+   * Emit 'focus-move' with the direction name (for FocusManager)
+   */
+  private emitFocusMove(direction: Point): void {
+    if (direction.y < 0) this.emit('focus-move', 'up');
+    else if (direction.y > 0) this.emit('focus-move', 'down');
+    else if (direction.x < 0) this.emit('focus-move', 'left');
+    else if (direction.x > 0) this.emit('focus-move', 'right');
+  }
+
   /**
    * Update navigation state
    */
@@ -547,6 +563,7 @@ export class GameByteUINavigationHandler extends EventEmitter implements UINavig
           this.state.navigationDirection = { ...this.state.currentRepeatDirection };
           this.state.lastNavigationTime = performance.now();
           this.emit('navigation-repeat', this.state.currentRepeatDirection);
+          this.emitFocusMove(this.state.currentRepeatDirection);
         } else {
           clearInterval(repeatInterval);
         }
@@ -652,5 +669,6 @@ export class GameByteUINavigationHandler extends EventEmitter implements UINavig
     
     this.pressedKeys.clear();
     this.pressedGamepadButtons.clear();
+    this.stickDirection = { x: 0, y: 0 };
   }
 }
\ No newline at end of file
@@ -26,3 +26,11 @@ export { GameBytePlatformerInputHandler } from './handlers/PlatformerInputHandle
 export { GameByteCameraInputHandler } from './handlers/CameraInputHandler.js';
 export { GameByteUINavigationHandler } from './handlers/UINavigationHandler.js';
 export { GameBytePlayerMovementHandler } from './handlers/PlayerMovementHandler.js';
+
+// Input Recording & Replay
+export { InputRecorder } from './InputRecorder.js';
+export type { InputRecorderConfig, InputRecorderEvents } from './InputRecorder.js';
+export { InputReplayPlayer } from './InputReplayPlayer.js';
+export type { InputReplayConfig, InputReplayEvents } from './InputReplayPlayer.js';
+export { serializeRecording, parseRecording, INPUT_RECORDING_VERSION } from './InputRecording.js';
+export type { InputRecording, RecordedInput } from './InputRecording.js';
@@ -41,6 +41,8 @@ import { ParticleEmitter } from '../particles/ParticleEmitter.js';
 import { screenShake } from '../utils/screenShake.js';
 import { FloatingText2D } from '../ui/effects/FloatingText2D.js';
 import { TimeScale } from './TimeScale.js';
+import { SpriteAnimator } from '../sprites/SpriteAnimator.js';
+import { SkeletonAnimation } from '../skeletal/SkeletonAnimation.js';
 import { Haptics } from './Haptics.js';
 import { SquashStretch } from './SquashStretch.js';
 import { ScreenEffects } from './ScreenEffects.js';
@@ -76,13 +78,16 @@ export class Juice {
   private static _wired = false;
 
   /**
-   * Lazily wire the shared TimeScale into TweenManager so that hitstop /
-   * slow-mo effects automatically scale all tween playback speed.
+   * Lazily wire the shared TimeScale into TweenManager, SpriteAnimator and
+   * SkeletonAnimation so that hitstop / slow-mo effects automatically scale
+   * tween, sprite and skeleton animation playback speed.
    * Called once on first use of any time-affecting method.
    */
   private static _ensureWired(): void {
     if (!Juice._wired) {
       TweenManager.timeScale = Juice._timeScale;
+      SpriteAnimator.timeScale = Juice._timeScale;
+      SkeletonAnimation.timeScale = Juice._timeScale;
       Juice._wired = true;
     }
   }
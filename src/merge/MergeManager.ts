@@ -1,5 +1,6 @@
 import { EventEmitter } from 'eventemitter3';
 import { IContainer, ITexture } from '../contracts/Graphics';
+import type { RandomSource } from '../contracts/Random';
 import { graphics } from '../graphics/GraphicsEngine';
 import { MergeGrid, MergeGridConfig } from '../ui/components/merge/MergeGrid';
 import { MergeCell } from '../ui/components/merge/MergeCell';
@@ -57,6 +58,9 @@ export interface MergeGameConfig {
 
   /** Custom spawn animation duration (ms) */
   spawnAnimationDuration?: number;
+
+  /** Random source for spawn cells (default: Math.random) */
+  rng?: RandomSource;
 }
 
 /**
@@ -131,6 +135,7 @@ export class MergeManager extends EventEmitter<MergeManagerEvents> {
     autoSpawn: false,
     initialItems: 3,
     initialTier: 1,
+    rng: { next: Math.random },
     lockedCells: [],
     tierColors: [
       0x9E9E9E,  // Tier 0: Gray
@@ -190,6 +195,7 @@ export class MergeManager extends EventEmitter<MergeManagerEvents> {
       maxTier: this.config.maxTier,
       autoSpawn: this.config.autoSpawn,
       lockedCells: this.config.lockedCells,
+      rng: this.config.rng,
       cellConfig: {
         backgroundColor: this.config.cellBackgroundColor,
         borderColor: this.config.cellBorderColor
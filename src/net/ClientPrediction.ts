@@ -0,0 +1,150 @@
+import { EventEmitter } from 'eventemitter3';
+import type { ITickSystem, TickSubscriptionHandle } from '../contracts/Tick.js';
+import type { NetBody } from './EntityReplicator.js';
+
+export interface ClientPredictionConfig<I> {
+  /** Inputs are sampled and simulated from a fixed-step subscription on this tick system */
+  tickSystem: ITickSystem;
+  /**
+   * Simulation step in seconds; must match the server's
+   * @default 1/60
+   */
+  fixedStep?: number;
+  /**
+   * Tick priority (runs before gameplay at the default 0)
+   * @default -100
+   */
+  priority?: number;
+  /** Current local input, read once per step */
+  readInput: () => I;
+  /**
+   * Deterministic movement step shared with the server. It owns the
+   * body's movement: don't also integrate the body's velocity elsewhere.
+   */
+  simulate: (body: NetBody, input: I, dt: number) => void;
+  /** Send the input to the server, e.g. `client.send(Input, { seq, ...input })` */
+  sendInput: (seq: number, input: I) => void;
+  /**
+   * Corrections smaller than this distance are ignored
+   * @default 0.001
+   */
+  tolerance?: number;
+}
+
+/**
+ * Typed events emitted by ClientPrediction
+ */
+export interface ClientPredictionEvents {
+  /** Server state arrived; `correction` is how far the prediction was off */
+  'reconcile': (ack: number, correction: number) => void;
+}
+
+/**
+ * Client-side prediction and reconciliation for the local player.
+ *
+ * Every fixed step it reads the input, applies it to the attached body
+ * right away with `simulate`, remembers it and sends it to the server.
+ * When a snapshot acknowledges input `ack`, older inputs are dropped and
+ * the rest are replayed on top of the authoritative state, so the player
+ * moves without waiting a round trip yet ends up where the server says.
+ *
+ * @example
+ * ```typescript
+ * const prediction = new ClientPrediction({
+ *   tickSystem,
+ *   readInput: () => ({ dx: keys.x, dy: keys.y }),
+ *   simulate: (body, input, dt) => { body.x += input.dx * 200 * dt; body.y += input.dy * 200 * dt; },
+ *   sendInput: (seq, input) => client.send(Input, { seq, ...input }),
+ * });
+ * // EntityInterpolator attaches the local player's entity and reconciles it
+ * new EntityInterpolator({ client, tickSystem, prediction, spawn: createPlayer });
+ * ```
+ */
+export class ClientPrediction<I = any> extends EventEmitter<ClientPredictionEvents> {
+  readonly fixedStep: number;
+
+  private readonly config: ClientPredictionConfig<I>;
+  private readonly tolerance: number;
+  private readonly handle: TickSubscriptionHandle;
+  private pending: Array<{ seq: number; input: I }> = [];
+  private _body: NetBody | null = null;
+  private seq = 0;
+
+  constructor(config: ClientPredictionConfig<I>) {
+    super();
+    this.config = config;
+    this.fixedStep = config.fixedStep ?? 1 / 60;
+    this.tolerance = config.tolerance ?? 0.001;
+    this.handle = config.tickSystem.subscribe(() => this.step(), config.priority ?? -100, {
+      fixedStep: this.fixedStep,
+    });
+  }
+
+  /** Body being predicted, or null */
+  get body(): NetBody | null {
+    return this._body;
+  }
+
+  /** Inputs sent but not yet acknowledged */
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  /** Sequence number of the last input sent */
+  get lastSequence(): number {
+    return this.seq;
+  }
+
+  /**
+   * Predict this body (the local player); null stops predicting
+   */
+  attach(body: NetBody | null): void {
+    this._body = body;
+    this.pending = [];
+  }
+
+  /**
+   * Apply authoritative state for the attached body and replay the
+   * inputs the server has not seen yet
+   */
+  reconcile(ack: number, state: NetBody): void {
+    const body = this._body;
+    if (!body) return;
+
+    let dropped = 0;
+    while (dropped < this.pending.length && this.pending[dropped].seq <= ack) dropped++;
+    if (dropped > 0) this.pending = this.pending.slice(dropped);
+
+    const replay: NetBody = { x: state.x, y: state.y, vx: state.vx, vy: state.vy };
+    for (const { input } of this.pending) this.config.simulate(replay, input, this.fixedStep);
+
+    const correction = Math.hypot(replay.x - body.x, replay.y - body.y);
+    if (correction > this.tolerance) {
+      body.x = replay.x;
+      body.y = replay.y;
+    }
+    body.vx = replay.vx;
+    body.vy = replay.vy;
+    this.emit('reconcile', ack, correction);
+  }
+
+  /**
+   * Run one prediction step now (also runs every fixedStep seconds)
+   */
+  step(): void {
+    const body = this._body;
+    if (!body) return;
+    const seq = ++this.seq;
+    const input = this.config.readInput();
+    this.config.simulate(body, input, this.fixedStep);
+    this.pending.push({ seq, input });
+    this.config.sendInput(seq, input);
+  }
+
+  dispose(): void {
+    this.handle.unsubscribe();
+    this._body = null;
+    this.pending = [];
+    this.removeAllListeners();
+  }
+}
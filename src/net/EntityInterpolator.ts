@@ -0,0 +1,201 @@
+import { EventEmitter } from 'eventemitter3';
+import type { ITickSystem, TickSubscriptionHandle } from '../contracts/Tick.js';
+import type { MessageDef } from './Schema.js';
+import type { NetClient } from './NetClient.js';
+import type { ClientPrediction } from './ClientPrediction.js';
+import type { EntitySnapshot, NetBody, Snapshot } from './EntityReplicator.js';
+import { SnapshotMessage } from './SystemMessages.js';
+
+export interface EntityInterpolatorConfig<B extends NetBody = NetBody> {
+  client: NetClient;
+  /** When set, update() runs every frame from a tick subscription */
+  tickSystem?: ITickSystem;
+  /**
+   * How far behind the newest snapshot remote entities are shown, in
+   * seconds. Two or three snapshot intervals hide jitter and loss.
+   * @default 0.1
+   */
+  delay?: number;
+  /** Create the local object for an entity seen for the first time */
+  spawn: (id: number, state: EntitySnapshot) => B;
+  /** Called when an entity is no longer in snapshots */
+  despawn?: (id: number, body: B) => void;
+  /**
+   * Prediction for this client's own entity: it is attached on spawn and
+   * reconciled from each snapshot instead of being interpolated
+   */
+  prediction?: ClientPrediction;
+}
+
+/**
+ * Typed events emitted by EntityInterpolator
+ */
+export interface EntityInterpolatorEvents<B extends NetBody = NetBody> {
+  'spawn': (id: number, body: B) => void;
+  'despawn': (id: number, body: B) => void;
+  'snapshot': (snapshot: Snapshot) => void;
+}
+
+/** Snapshots older than this behind the render time are dropped (seconds) */
+const BUFFER_SECONDS = 1;
+/** Fraction of the clock drift corrected per update */
+const CLOCK_CORRECTION = 0.1;
+
+/**
+ * Client half of state sync: buffers EntityReplicator snapshots and
+ * places remote entities at positions interpolated `delay` seconds in
+ * the past, so they move smoothly between 10-30 Hz updates.
+ *
+ * @example
+ * ```typescript
+ * const remote = new EntityInterpolator({
+ *   client,
+ *   tickSystem,
+ *   spawn: (id, state) => {
+ *     const entity = new GameEntity({ x: state.x, y: state.y, display: makeSprite() });
+ *     stage.addChild(entity.getContainer());
+ *     return entity;
+ *   },
+ *   despawn: (id, entity) => entity.destroy(),
+ * });
+ * ```
+ */
+export class EntityInterpolator<B extends NetBody = NetBody> extends EventEmitter<EntityInterpolatorEvents<B>> {
+  readonly delay: number;
+
+  private readonly config: EntityInterpolatorConfig<B>;
+  private readonly bodies = new Map<number, B>();
+  private buffer: Array<{ time: number; entities: Map<number, EntitySnapshot> }> = [];
+  private clock: number | null = null;
+  private readonly handle: TickSubscriptionHandle | null;
+  private readonly onMessage = (type: MessageDef, data: any): void => {
+    if (type === SnapshotMessage) this.receive(data as Snapshot);
+  };
+  private readonly onDisconnect = (): void => {
+    this.clear();
+  };
+
+  constructor(config: EntityInterpolatorConfig<B>) {
+    super();
+    this.config = config;
+    this.delay = config.delay ?? 0.1;
+    config.client.on('message', this.onMessage);
+    config.client.on('disconnect', this.onDisconnect);
+    this.handle = config.tickSystem
+      ? config.tickSystem.subscribe((state) => this.update(state.delta))
+      : null;
+  }
+
+  /** Local object for a network id */
+  getBody(id: number): B | undefined {
+    return this.bodies.get(id);
+  }
+
+  getIds(): number[] {
+    return [...this.bodies.keys()];
+  }
+
+  /** Server time currently being rendered, or null before the first snapshot */
+  get renderTime(): number | null {
+    return this.clock;
+  }
+
+  /**
+   * Feed a snapshot (done automatically for SnapshotMessage)
+   */
+  receive(snapshot: Snapshot): void {
+    const newest = this.buffer[this.buffer.length - 1];
+    if (newest && snapshot.time <= newest.time) return; // late or duplicate
+
+    const entities = new Map<number, EntitySnapshot>();
+    for (const entity of snapshot.entities) entities.set(entity.id, entity);
+    this.buffer.push({ time: snapshot.time, entities });
+    if (this.clock === null) this.clock = snapshot.time - this.delay;
+
+    // Spawn newcomers, despawn the missing
+    for (const [id, state] of entities) {
+      if (this.bodies.has(id)) continue;
+      const body = this.config.spawn(id, state);
+      this.bodies.set(id, body);
+      if (this.isPredicted(state)) this.config.prediction!.attach(body);
+      this.emit('spawn', id, body);
+    }
+    for (const [id, body] of [...this.bodies]) {
+      if (!entities.has(id)) this.despawn(id, body);
+    }
+
+    // The local player follows the server through reconciliation
+    for (const state of entities.values()) {
+      if (this.isPredicted(state)) this.config.prediction!.reconcile(state.ack, state);
+    }
+
+    this.emit('snapshot', snapshot);
+  }
+
+  /**
+   * Advance the render clock and move remote entities
+   * @param dt - Delta time in seconds
+   */
+  update(dt: number): void {
+    if (this.clock === null || this.buffer.length === 0) return;
+
+    // Follow the snapshot stream: snap on large gaps, ease out small drift
+    const target = this.buffer[this.buffer.length - 1].time - this.delay;
+    this.clock += dt;
+    const drift = target - this.clock;
+    if (Math.abs(drift) > Math.max(this.delay, 0.25)) this.clock = target;
+    else this.clock += drift * CLOCK_CORRECTION;
+
+    const time = this.clock;
+    while (this.buffer.length > 2 && this.buffer[1].time < time - BUFFER_SECONDS) this.buffer.shift();
+
+    // Bracketing snapshots; hold the ends instead of extrapolating
+    let from = this.buffer[0];
+    let to = from;
+    for (const snapshot of this.buffer) {
+      to = snapshot;
+      if (snapshot.time > time) break;
+      from = snapshot;
+    }
+    const span = to.time - from.time;
+    const t = span > 0 ? Math.min(1, Math.max(0, (time - from.time) / span)) : 1;
+
+    for (const [id, body] of this.bodies) {
+      const a = from.entities.get(id);
+      const b = to.entities.get(id);
+      const start = a ?? b;
+      const end = b ?? a;
+      if (!start || !end || this.isPredicted(end)) continue;
+      body.x = start.x + (end.x - start.x) * t;
+      body.y = start.y + (end.y - start.y) * t;
+    }
+  }
+
+  /**
+   * Despawn everything and forget buffered snapshots
+   */
+  clear(): void {
+    for (const [id, body] of [...this.bodies]) this.despawn(id, body);
+    this.buffer = [];
+    this.clock = null;
+  }
+
+  dispose(): void {
+    this.clear();
+    this.handle?.unsubscribe();
+    this.config.client.off('message', this.onMessage);
+    this.config.client.off('disconnect', this.onDisconnect);
+    this.removeAllListeners();
+  }
+
+  private isPredicted(state: EntitySnapshot): boolean {
+    return !!this.config.prediction && state.owner !== 0 && state.owner === this.config.client.id;
+  }
+
+  private despawn(id: number, body: B): void {
+    this.bodies.delete(id);
+    if (this.config.prediction?.body === body) this.config.prediction.attach(null);
+    this.config.despawn?.(id, body);
+    this.emit('despawn', id, body);
+  }
+}
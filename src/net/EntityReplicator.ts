@@ -0,0 +1,139 @@
+import { EventEmitter } from 'eventemitter3';
+import type { ITickSystem, TickSubscriptionHandle } from '../contracts/Tick.js';
+import type { Room } from './NetServer.js';
+import { SnapshotMessage } from './SystemMessages.js';
+
+/**
+ * Replicated movement state. GameEntity satisfies it, as does any
+ * plain `{ x, y, vx, vy }` object.
+ */
+export interface NetBody {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+/** One entity in a snapshot */
+export interface EntitySnapshot extends NetBody {
+  id: number;
+  /** Owning session id, 0 for server-owned entities */
+  owner: number;
+  /** Last input sequence the server applied for the owner */
+  ack: number;
+}
+
+/** Decoded SnapshotMessage payload */
+export interface Snapshot {
+  tick: number;
+  /** Server time in seconds (tick / sendRate) */
+  time: number;
+  entities: EntitySnapshot[];
+}
+
+export interface EntityReplicatorConfig {
+  /** Snapshots go out from a fixed-step subscription on this tick system */
+  tickSystem: ITickSystem;
+  /**
+   * Snapshots per second
+   * @default 20
+   */
+  sendRate?: number;
+  /**
+   * Tick priority (runs after gameplay at the default 0)
+   * @default 100
+   */
+  priority?: number;
+}
+
+/**
+ * Typed events emitted by EntityReplicator
+ */
+export interface EntityReplicatorEvents {
+  'snapshot': (snapshot: Snapshot) => void;
+}
+
+/**
+ * Server half of state sync: broadcasts the position and velocity of
+ * registered entities to a room at a fixed rate. Clients render them
+ * with EntityInterpolator.
+ *
+ * @example
+ * ```typescript
+ * const replicator = new EntityReplicator(room, { tickSystem, sendRate: 20 });
+ * room.on('join', (session) => replicator.add(session.id, spawnPlayer(), session.id));
+ * server.on('message', (session, type, data) => {
+ *   if (type !== Input) return;
+ *   simulate(players.get(session.id)!, data, 1 / 60);
+ *   replicator.acknowledge(session.id, data.seq);
+ * });
+ * ```
+ */
+export class EntityReplicator extends EventEmitter<EntityReplicatorEvents> {
+  readonly room: Room;
+  readonly sendRate: number;
+
+  private readonly entities = new Map<number, { body: NetBody; owner: number }>();
+  private readonly acks = new Map<number, number>();
+  private readonly handle: TickSubscriptionHandle;
+  private tick = 0;
+  private readonly onLeave = (session: { id: number }): void => {
+    this.acks.delete(session.id);
+  };
+
+  constructor(room: Room, config: EntityReplicatorConfig) {
+    super();
+    this.room = room;
+    this.sendRate = config.sendRate ?? 20;
+    this.handle = config.tickSystem.subscribe(() => this.sendSnapshot(), config.priority ?? 100, {
+      fixedStep: 1 / this.sendRate,
+    });
+    room.on('leave', this.onLeave);
+  }
+
+  /**
+   * Start replicating an entity under a network id (u16)
+   * @param owner - Session id whose inputs drive it (0 = server)
+   */
+  add(id: number, body: NetBody, owner: number = 0): void {
+    if (id < 0 || id > 0xffff) throw new RangeError(`EntityReplicator: id ${id} is outside 0-65535`);
+    this.entities.set(id, { body, owner });
+  }
+
+  remove(id: number): void {
+    this.entities.delete(id);
+  }
+
+  has(id: number): boolean {
+    return this.entities.has(id);
+  }
+
+  /**
+   * Record the latest input sequence applied for a session; sent back in
+   * snapshots so its ClientPrediction can drop confirmed inputs
+   */
+  acknowledge(owner: number, seq: number): void {
+    this.acks.set(owner, Math.max(seq, this.acks.get(owner) ?? 0));
+  }
+
+  /**
+   * Broadcast a snapshot now (also runs every 1/sendRate seconds)
+   */
+  sendSnapshot(): void {
+    if (this.room.closed) return;
+    this.tick++;
+    const snapshot: Snapshot = { tick: this.tick, time: this.tick / this.sendRate, entities: [] };
+    for (const [id, { body, owner }] of this.entities) {
+      snapshot.entities.push({ id, owner, ack: this.acks.get(owner) ?? 0, x: body.x, y: body.y, vx: body.vx, vy: body.vy });
+    }
+    this.room.broadcast(SnapshotMessage, snapshot);
+    this.emit('snapshot', snapshot);
+  }
+
+  dispose(): void {
+    this.handle.unsubscribe();
+    this.room.off('leave', this.onLeave);
+    this.entities.clear();
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,138 @@
+import { EventEmitter } from 'eventemitter3';
+import type { Transport, TransportEvents, TransportListener, TransportListenerEvents, TransportState } from './Transport.js';
+
+export interface LoopbackOptions {
+  /**
+   * One-way delay in milliseconds. 0 delivers on the next microtask.
+   * @default 0
+   */
+  latency?: number;
+}
+
+/**
+ * In-process transport: two connected ends, no sockets. Messages keep
+ * their order and arrive asynchronously (after `latency`), like a real
+ * connection, which makes it the transport for tests, local split-screen
+ * and single-player games hosting their own NetServer.
+ *
+ * @example
+ * ```typescript
+ * const listener = new LoopbackListener({ latency: 50 });
+ * server.listen(listener);
+ * const client = new NetClient({ protocol, transport: listener.createClient() });
+ * ```
+ */
+export class LoopbackTransport extends EventEmitter<TransportEvents> implements Transport {
+  /**
+   * Two ends wired to each other; connect() on either opens both
+   */
+  static pair(options?: LoopbackOptions): [LoopbackTransport, LoopbackTransport] {
+    const a = new LoopbackTransport(options);
+    const b = new LoopbackTransport(options);
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+  }
+
+  private _state: TransportState = 'connecting';
+  private peer: LoopbackTransport | null = null;
+  private readonly latency: number;
+  /** Called once when this end initiates the connection */
+  onConnect: (() => void) | null = null;
+
+  private constructor(options?: LoopbackOptions) {
+    super();
+    this.latency = options?.latency ?? 0;
+  }
+
+  get state(): TransportState {
+    return this._state;
+  }
+
+  connect(): Promise<void> {
+    if (this._state === 'open') return Promise.resolve();
+    if (this._state === 'closed' || !this.peer) return Promise.reject(new Error('LoopbackTransport: closed'));
+
+    const peer = this.peer;
+    this.onConnect?.();
+    if (this.state === 'closed') return Promise.reject(new Error('LoopbackTransport: connection refused'));
+    return new Promise((resolve) => {
+      this.deliver(() => {
+        this.open();
+        peer.open();
+        resolve();
+      });
+    });
+  }
+
+  send(data: Uint8Array): void {
+    if (this._state !== 'open' || !this.peer) throw new Error('LoopbackTransport: not open');
+    const peer = this.peer;
+    const copy = data.slice();
+    this.deliver(() => {
+      if (peer._state === 'open') peer.emit('message', copy);
+    });
+  }
+
+  close(reason: string = 'closed'): void {
+    if (this._state === 'closed') return;
+    const peer = this.peer;
+    this.shutdown(reason);
+    if (peer) this.deliver(() => peer.shutdown(reason));
+  }
+
+  private open(): void {
+    if (this._state !== 'connecting') return;
+    this._state = 'open';
+    this.emit('open');
+  }
+
+  private shutdown(reason: string): void {
+    if (this._state === 'closed') return;
+    this._state = 'closed';
+    this.peer = null;
+    this.emit('close', reason);
+  }
+
+  private deliver(fn: () => void): void {
+    if (this.latency > 0) setTimeout(fn, this.latency);
+    else queueMicrotask(fn);
+  }
+}
+
+/**
+ * Server end for loopback clients: createClient() returns the client
+ * end and the server end is emitted as 'connection' once it connects.
+ */
+export class LoopbackListener extends EventEmitter<TransportListenerEvents> implements TransportListener {
+  private readonly options: LoopbackOptions | undefined;
+  private readonly connections = new Set<LoopbackTransport>();
+  private closed = false;
+
+  constructor(options?: LoopbackOptions) {
+    super();
+    this.options = options;
+  }
+
+  createClient(): LoopbackTransport {
+    if (this.closed) throw new Error('LoopbackListener: closed');
+    const [client, server] = LoopbackTransport.pair(this.options);
+    client.onConnect = () => {
+      if (this.closed) {
+        client.close('server closed');
+        return;
+      }
+      this.connections.add(server);
+      server.once('close', () => this.connections.delete(server));
+      this.emit('connection', server);
+    };
+    return client;
+  }
+
+  close(): void {
+    this.closed = true;
+    for (const connection of this.connections) connection.close('server closed');
+    this.connections.clear();
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,178 @@
+import { EventEmitter } from 'eventemitter3';
+import { Protocol, MessageDef, MessageData, SchemaFields } from './Schema.js';
+import {
+  SYSTEM_MESSAGES,
+  JoinMessage,
+  LeaveMessage,
+  WelcomeMessage,
+  RejectMessage,
+  PeerJoinedMessage,
+  PeerLeftMessage,
+} from './SystemMessages.js';
+import type { Transport } from './Transport.js';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface NetClientConfig {
+  /** Game messages, in the same order as the server's */
+  messages: MessageDef[];
+  transport: Transport;
+}
+
+/** Another player in the room */
+export interface PeerInfo {
+  id: number;
+  name: string;
+}
+
+/** Result of NetClient.join() */
+export interface JoinResult {
+  /** This client's session id */
+  id: number;
+  room: string;
+  /** Players already in the room */
+  peers: PeerInfo[];
+}
+
+/**
+ * Typed events emitted by NetClient
+ */
+export interface NetClientEvents {
+  'message': (type: MessageDef, data: any) => void;
+  'peer-joined': (peer: PeerInfo) => void;
+  'peer-left': (peer: PeerInfo) => void;
+  'disconnect': (reason: string) => void;
+}
+
+// ============================================================
+// NetClient
+// ============================================================
+
+/**
+ * Client end of the net stack: connects a Transport, joins a room and
+ * sends/receives typed messages. Everything the server sends, including
+ * snapshots and turn updates, arrives as a 'message' event.
+ *
+ * @example
+ * ```typescript
+ * const client = new NetClient({ messages: [Move, Chat], transport });
+ * await client.connect();
+ * const { id, peers } = await client.join('arena', 'Ada');
+ * client.on('message', (type, data) => {
+ *   if (type === Chat) showChat(data.text);
+ * });
+ * client.send(Chat, { text: 'gg', mentions: [] });
+ * ```
+ */
+export class NetClient extends EventEmitter<NetClientEvents> {
+  readonly protocol: Protocol;
+  readonly transport: Transport;
+
+  private _id = 0;
+  private _room: string | null = null;
+  private readonly peers = new Map<number, PeerInfo>();
+  private pendingJoin: { resolve: (result: JoinResult) => void; reject: (error: Error) => void } | null = null;
+
+  constructor(config: NetClientConfig) {
+    super();
+    this.protocol = new Protocol([...SYSTEM_MESSAGES, ...config.messages]);
+    this.transport = config.transport;
+    this.transport.on('message', (bytes) => this.handleMessage(bytes));
+    this.transport.once('close', (reason) => {
+      this.rejectJoin(new Error(`NetClient: disconnected (${reason})`));
+      this._room = null;
+      this.peers.clear();
+      this.emit('disconnect', reason);
+    });
+  }
+
+  /** Session id assigned by the server (0 until joined) */
+  get id(): number {
+    return this._id;
+  }
+
+  /** Current room id, or null */
+  get room(): string | null {
+    return this._room;
+  }
+
+  get connected(): boolean {
+    return this.transport.state === 'open';
+  }
+
+  getPeers(): PeerInfo[] {
+    return [...this.peers.values()];
+  }
+
+  connect(): Promise<void> {
+    return this.transport.connect();
+  }
+
+  /**
+   * Enter a room; rejects if the server refuses (full, unknown room)
+   */
+  join(room: string, name: string = ''): Promise<JoinResult> {
+    if (this.pendingJoin) return Promise.reject(new Error('NetClient: a join is already in progress'));
+    return new Promise((resolve, reject) => {
+      this.pendingJoin = { resolve, reject };
+      this.send(JoinMessage, { room, name });
+    });
+  }
+
+  leave(): void {
+    if (!this._room) return;
+    this.send(LeaveMessage, {});
+    this._room = null;
+    this.peers.clear();
+  }
+
+  send<S extends SchemaFields>(type: MessageDef<S>, data: MessageData<S>): void {
+    this.transport.send(this.protocol.encode(type, data));
+  }
+
+  disconnect(): void {
+    this.transport.close('disconnected');
+  }
+
+  private handleMessage(bytes: Uint8Array): void {
+    let type: MessageDef;
+    let data: any;
+    try {
+      ({ type, data } = this.protocol.decode(bytes));
+    } catch (error) {
+      this.transport.emit('error', error as Error);
+      return;
+    }
+
+    if (type === WelcomeMessage) {
+      this._id = data.id;
+      this._room = data.room;
+      this.peers.clear();
+      for (const peer of data.peers as PeerInfo[]) this.peers.set(peer.id, peer);
+      const pending = this.pendingJoin;
+      this.pendingJoin = null;
+      pending?.resolve({ id: data.id, room: data.room, peers: data.peers });
+    } else if (type === RejectMessage) {
+      this.rejectJoin(new Error(`NetClient: join refused (${data.reason})`));
+    } else if (type === PeerJoinedMessage) {
+      const peer: PeerInfo = { id: data.id, name: data.name };
+      this.peers.set(peer.id, peer);
+      this.emit('peer-joined', peer);
+    } else if (type === PeerLeftMessage) {
+      const peer = this.peers.get(data.id);
+      if (!peer) return;
+      this.peers.delete(data.id);
+      this.emit('peer-left', peer);
+    } else {
+      this.emit('message', type, data);
+    }
+  }
+
+  private rejectJoin(error: Error): void {
+    const pending = this.pendingJoin;
+    this.pendingJoin = null;
+    pending?.reject(error);
+  }
+}
@@ -0,0 +1,354 @@
+import { EventEmitter } from 'eventemitter3';
+import { Protocol, MessageDef, MessageData, SchemaFields } from './Schema.js';
+import {
+  SYSTEM_MESSAGES,
+  JoinMessage,
+  LeaveMessage,
+  WelcomeMessage,
+  RejectMessage,
+  PeerJoinedMessage,
+  PeerLeftMessage,
+} from './SystemMessages.js';
+import type { Transport, TransportListener } from './Transport.js';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface NetServerConfig {
+  /** Game messages, in the same order as the clients' */
+  messages: MessageDef[];
+  /**
+   * Create a room when a client joins one that does not exist.
+   * Such rooms close once empty.
+   * @default true
+   */
+  autoCreateRooms?: boolean;
+  /**
+   * Player limit for auto-created rooms
+   * @default 16
+   */
+  maxPlayersPerRoom?: number;
+}
+
+export interface RoomOptions {
+  /** @default NetServerConfig.maxPlayersPerRoom */
+  maxPlayers?: number;
+  /**
+   * Close the room when the last player leaves
+   * @default false
+   */
+  closeWhenEmpty?: boolean;
+}
+
+/**
+ * Typed events emitted by NetServer
+ */
+export interface NetServerEvents {
+  /** A client joined a room */
+  'join': (session: Session) => void;
+  /** A joined client left its room or disconnected */
+  'leave': (session: Session, reason: string) => void;
+  'message': (session: Session, type: MessageDef, data: any) => void;
+  'room-created': (room: Room) => void;
+  'room-closed': (room: Room) => void;
+}
+
+/**
+ * Typed events emitted by Room
+ */
+export interface RoomEvents {
+  'join': (session: Session) => void;
+  'leave': (session: Session, reason: string) => void;
+  'message': (session: Session, type: MessageDef, data: any) => void;
+  'close': () => void;
+}
+
+// ============================================================
+// Session
+// ============================================================
+
+/**
+ * One connected client, as seen by the server.
+ */
+export class Session {
+  /** Unique, non-zero id (u16) */
+  readonly id: number;
+  /** Name the client joined with; non-empty names are unique within a room */
+  name: string = '';
+  /** Room the client is in, once joined */
+  room: Room | null = null;
+
+  /** @internal */
+  readonly transport: Transport;
+  private readonly protocol: Protocol;
+
+  /** @internal */
+  constructor(id: number, transport: Transport, protocol: Protocol) {
+    this.id = id;
+    this.transport = transport;
+    this.protocol = protocol;
+  }
+
+  get connected(): boolean {
+    return this.transport.state === 'open';
+  }
+
+  send<S extends SchemaFields>(type: MessageDef<S>, data: MessageData<S>): void {
+    this.sendBytes(this.protocol.encode(type, data));
+  }
+
+  disconnect(reason: string = 'kicked'): void {
+    this.transport.close(reason);
+  }
+
+  /** @internal */
+  sendBytes(bytes: Uint8Array): void {
+    if (this.transport.state === 'open') this.transport.send(bytes);
+  }
+}
+
+// ============================================================
+// Room
+// ============================================================
+
+/**
+ * A group of sessions that see each other's joins and share broadcasts.
+ */
+export class Room extends EventEmitter<RoomEvents> {
+  readonly id: string;
+  readonly maxPlayers: number;
+  readonly closeWhenEmpty: boolean;
+
+  private readonly sessions = new Map<number, Session>();
+  private readonly protocol: Protocol;
+  private readonly onClose: (room: Room) => void;
+  private _closed = false;
+
+  /** @internal */
+  constructor(id: string, options: Required<RoomOptions>, protocol: Protocol, onClose: (room: Room) => void) {
+    super();
+    this.id = id;
+    this.maxPlayers = options.maxPlayers;
+    this.closeWhenEmpty = options.closeWhenEmpty;
+    this.protocol = protocol;
+    this.onClose = onClose;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  getSessions(): Session[] {
+    return [...this.sessions.values()];
+  }
+
+  getSession(id: number): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Send to every session in the room, optionally skipping one
+   */
+  broadcast<S extends SchemaFields>(type: MessageDef<S>, data: MessageData<S>, except?: Session): void {
+    const bytes = this.protocol.encode(type, data);
+    for (const session of this.sessions.values()) {
+      if (session !== except) session.sendBytes(bytes);
+    }
+  }
+
+  /**
+   * Remove every session (they stay connected) and close the room
+   */
+  close(): void {
+    if (this._closed) return;
+    for (const session of [...this.sessions.values()]) this.remove(session, 'room closed');
+    this._closed = true;
+    this.emit('close');
+    this.onClose(this);
+    this.removeAllListeners();
+  }
+
+  /** @internal */
+  add(session: Session): void {
+    this.broadcast(PeerJoinedMessage, { id: session.id, name: session.name });
+    this.sessions.set(session.id, session);
+    session.room = this;
+    this.emit('join', session);
+  }
+
+  /** @internal */
+  remove(session: Session, reason: string): void {
+    if (!this.sessions.delete(session.id)) return;
+    session.room = null;
+    this.broadcast(PeerLeftMessage, { id: session.id });
+    this.emit('leave', session, reason);
+    if (this.closeWhenEmpty && this.sessions.size === 0) this.close();
+  }
+}
+
+// ============================================================
+// NetServer
+// ============================================================
+
+/**
+ * Authoritative server: accepts transports, runs the join handshake and
+ * routes decoded messages by room. Runs anywhere a Transport does — in
+ * Node behind WebSockets or in the browser over LoopbackTransport.
+ *
+ * @example
+ * ```typescript
+ * const server = new NetServer({ messages: [Move, Chat] });
+ * server.listen(new LoopbackListener());
+ * server.on('message', (session, type, data) => {
+ *   if (type === Chat) session.room?.broadcast(Chat, data);
+ * });
+ * ```
+ */
+export class NetServer extends EventEmitter<NetServerEvents> {
+  readonly protocol: Protocol;
+  private readonly autoCreateRooms: boolean;
+  private readonly maxPlayersPerRoom: number;
+  private readonly rooms = new Map<string, Room>();
+  private readonly sessions = new Set<Session>();
+  private readonly transportListeners = new Set<TransportListener>();
+  private nextSessionId = 1;
+
+  constructor(config: NetServerConfig) {
+    super();
+    this.protocol = new Protocol([...SYSTEM_MESSAGES, ...config.messages]);
+    this.autoCreateRooms = config.autoCreateRooms ?? true;
+    this.maxPlayersPerRoom = config.maxPlayersPerRoom ?? 16;
+  }
+
+  /**
+   * Accept every connection the listener produces
+   */
+  listen(listener: TransportListener): void {
+    this.transportListeners.add(listener);
+    listener.on('connection', (transport) => this.accept(transport));
+  }
+
+  /**
+   * Take over a connected (or connecting) transport
+   */
+  accept(transport: Transport): Session {
+    const session = new Session(this.allocateId(), transport, this.protocol);
+    this.sessions.add(session);
+
+    transport.on('message', (bytes) => this.handleMessage(session, bytes));
+    transport.once('close', (reason) => {
+      this.sessions.delete(session);
+      this.leaveRoom(session, reason);
+    });
+    return session;
+  }
+
+  createRoom(id: string, options?: RoomOptions): Room {
+    if (this.rooms.has(id)) throw new Error(`NetServer: room "${id}" already exists`);
+    const room = new Room(id, {
+      maxPlayers: options?.maxPlayers ?? this.maxPlayersPerRoom,
+      closeWhenEmpty: options?.closeWhenEmpty ?? false,
+    }, this.protocol, (closed) => {
+      this.rooms.delete(closed.id);
+      this.emit('room-closed', closed);
+    });
+
+    // Re-emit room traffic on the server
+    room.on('join', (session) => this.emit('join', session));
+    room.on('leave', (session, reason) => this.emit('leave', session, reason));
+    room.on('message', (session, type, data) => this.emit('message', session, type, data));
+
+    this.rooms.set(id, room);
+    this.emit('room-created', room);
+    return room;
+  }
+
+  getRoom(id: string): Room | undefined {
+    return this.rooms.get(id);
+  }
+
+  getRooms(): Room[] {
+    return [...this.rooms.values()];
+  }
+
+  getSessions(): Session[] {
+    return [...this.sessions];
+  }
+
+  /**
+   * Disconnect everyone and stop listening
+   */
+  close(): void {
+    for (const listener of this.transportListeners) listener.close();
+    this.transportListeners.clear();
+    for (const session of [...this.sessions]) session.disconnect('server closed');
+    for (const room of [...this.rooms.values()]) room.close();
+    this.removeAllListeners();
+  }
+
+  private allocateId(): number {
+    // u16 ids, 0 is reserved for "the server"
+    for (let attempts = 0; attempts < 0xffff; attempts++) {
+      const id = this.nextSessionId;
+      this.nextSessionId = id >= 0xffff ? 1 : id + 1;
+      if (![...this.sessions].some((s) => s.id === id)) return id;
+    }
+    throw new Error('NetServer: no free session ids');
+  }
+
+  private handleMessage(session: Session, bytes: Uint8Array): void {
+    let type: MessageDef;
+    let data: any;
+    try {
+      ({ type, data } = this.protocol.decode(bytes));
+    } catch {
+      session.disconnect('malformed message');
+      return;
+    }
+
+    if (type === JoinMessage) {
+      this.join(session, data.room, data.name);
+    } else if (type === LeaveMessage) {
+      this.leaveRoom(session, 'left');
+    } else if (session.room) {
+      session.room.emit('message', session, type, data);
+    }
+  }
+
+  private join(session: Session, roomId: string, name: string): void {
+    if (session.room) this.leaveRoom(session, 'switched rooms');
+
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      if (!this.autoCreateRooms) {
+        session.send(RejectMessage, { reason: `room "${roomId}" does not exist` });
+        return;
+      }
+      room = this.createRoom(roomId, { closeWhenEmpty: true });
+    }
+    if (room.size >= room.maxPlayers) {
+      session.send(RejectMessage, { reason: `room "${roomId}" is full` });
+      return;
+    }
+
+    // Names identify players (e.g. TurnEngine participants), so one session cannot play as another
+    if (name !== '' && room.getSessions().some((s) => s.name === name)) {
+      session.send(RejectMessage, { reason: `name "${name}" is taken in room "${roomId}"` });
+      return;
+    }
+
+    session.name = name;
+    const peers = room.getSessions().map((s) => ({ id: s.id, name: s.name }));
+    session.send(WelcomeMessage, { id: session.id, room: room.id, peers });
+    room.add(session);
+  }
+
+  private leaveRoom(session: Session, reason: string): void {
+    session.room?.remove(session, reason);
+  }
+}
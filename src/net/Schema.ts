@@ -0,0 +1,191 @@
+import { BinaryReader, BinaryWriter } from './Binary.js';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Scalar field types; numbers are little-endian */
+export type PrimitiveType = 'u8' | 'u16' | 'u32' | 'i8' | 'i16' | 'i32' | 'f32' | 'f64' | 'bool' | 'string';
+
+/**
+ * A field is a primitive, `[type]` for an array (u16 length prefix)
+ * or a nested field map
+ */
+export type FieldType = PrimitiveType | readonly [FieldType] | SchemaFields;
+
+export interface SchemaFields {
+  readonly [name: string]: FieldType;
+}
+
+/** Decoded value of a field type */
+export type FieldValue<F> =
+  F extends 'string' ? string
+    : F extends 'bool' ? boolean
+      : F extends PrimitiveType ? number
+        : F extends readonly [infer E] ? FieldValue<E>[]
+          : F extends SchemaFields ? MessageData<F>
+            : never;
+
+/** Decoded message payload for a field map */
+export type MessageData<S extends SchemaFields> = { -readonly [K in keyof S]: FieldValue<S[K]> };
+
+/**
+ * A named message type. Create with defineMessage() and list it in a
+ * Protocol; both ends must list the same messages in the same order.
+ */
+export interface MessageDef<S extends SchemaFields = SchemaFields> {
+  readonly name: string;
+  readonly fields: S;
+}
+
+/** Payload type of a MessageDef */
+export type MessageOf<M> = M extends MessageDef<infer S> ? MessageData<S> : never;
+
+/** A decoded message */
+export interface DecodedMessage {
+  type: MessageDef;
+  data: any;
+}
+
+// ============================================================
+// Definition & Protocol
+// ============================================================
+
+/**
+ * Define a message schema.
+ *
+ * @example
+ * ```typescript
+ * const Move = defineMessage('move', { seq: 'u32', dx: 'i8', dy: 'i8' });
+ * const Chat = defineMessage('chat', { text: 'string', mentions: ['u16'] });
+ * ```
+ */
+export function defineMessage<const S extends SchemaFields>(name: string, fields: S): MessageDef<S> {
+  validateFields(name, fields);
+  return { name, fields };
+}
+
+const MAX_MESSAGES = 256;
+
+/**
+ * Ordered set of message types with a compact binary encoding:
+ * one u8 type id, then the fields in declaration order.
+ *
+ * @example
+ * ```typescript
+ * const protocol = new Protocol([Move, Chat]);
+ * const bytes = protocol.encode(Move, { seq: 1, dx: 1, dy: 0 });
+ * const { type, data } = protocol.decode(bytes);
+ * ```
+ */
+export class Protocol {
+  private readonly messages: MessageDef[];
+  private readonly ids = new Map<MessageDef, number>();
+  private readonly byName = new Map<string, MessageDef>();
+
+  constructor(messages: MessageDef[]) {
+    if (messages.length > MAX_MESSAGES) throw new Error(`Protocol: at most ${MAX_MESSAGES} message types`);
+    this.messages = [...messages];
+    this.messages.forEach((message, id) => {
+      if (this.byName.has(message.name)) throw new Error(`Protocol: duplicate message "${message.name}"`);
+      this.ids.set(message, id);
+      this.byName.set(message.name, message);
+    });
+  }
+
+  /** Message types in id order */
+  getMessages(): MessageDef[] {
+    return [...this.messages];
+  }
+
+  has(message: MessageDef): boolean {
+    return this.ids.has(message);
+  }
+
+  get(name: string): MessageDef | undefined {
+    return this.byName.get(name);
+  }
+
+  encode<S extends SchemaFields>(message: MessageDef<S>, data: MessageData<S>): Uint8Array {
+    const id = this.ids.get(message as MessageDef);
+    if (id === undefined) throw new Error(`Protocol: message "${message.name}" is not registered`);
+    const writer = new BinaryWriter();
+    writer.u8(id);
+    writeFields(writer, message.fields, data, message.name);
+    return writer.toBytes();
+  }
+
+  decode(bytes: Uint8Array): DecodedMessage {
+    const reader = new BinaryReader(bytes);
+    const id = reader.u8();
+    const type = this.messages[id];
+    if (!type) throw new Error(`Protocol: unknown message id ${id}`);
+    return { type, data: readFields(reader, type.fields) };
+  }
+}
+
+// ============================================================
+// Codec
+// ============================================================
+
+function validateFields(path: string, fields: SchemaFields): void {
+  for (const [name, type] of Object.entries(fields)) validateType(`${path}.${name}`, type);
+}
+
+function validateType(path: string, type: FieldType): void {
+  if (typeof type === 'string') {
+    if (!(type in PRIMITIVES)) throw new Error(`defineMessage: unknown type "${type}" at ${path}`);
+  } else if (Array.isArray(type)) {
+    if (type.length !== 1) throw new Error(`defineMessage: array at ${path} needs exactly one element type`);
+    validateType(`${path}[]`, type[0]);
+  } else {
+    validateFields(path, type as SchemaFields);
+  }
+}
+
+const PRIMITIVES: Record<PrimitiveType, true> = {
+  u8: true, u16: true, u32: true, i8: true, i16: true, i32: true, f32: true, f64: true, bool: true, string: true,
+};
+
+function writeFields(writer: BinaryWriter, fields: SchemaFields, data: any, path: string): void {
+  if (data === null || typeof data !== 'object') throw new TypeError(`Protocol: ${path} must be an object`);
+  for (const name in fields) writeValue(writer, fields[name], data[name], `${path}.${name}`);
+}
+
+function writeValue(writer: BinaryWriter, type: FieldType, value: any, path: string): void {
+  if (typeof type === 'string') {
+    if (type === 'string') {
+      if (typeof value !== 'string') throw new TypeError(`Protocol: ${path} must be a string`);
+      writer.string(value);
+    } else if (type === 'bool') {
+      writer.bool(!!value);
+    } else {
+      if (typeof value !== 'number') throw new TypeError(`Protocol: ${path} must be a number`);
+      writer[type](value);
+    }
+  } else if (Array.isArray(type)) {
+    if (!Array.isArray(value)) throw new TypeError(`Protocol: ${path} must be an array`);
+    if (value.length > 0xffff) throw new RangeError(`Protocol: ${path} has more than 65535 items`);
+    writer.u16(value.length);
+    for (let i = 0; i < value.length; i++) writeValue(writer, type[0], value[i], `${path}[${i}]`);
+  } else {
+    writeFields(writer, type as SchemaFields, value, path);
+  }
+}
+
+function readFields(reader: BinaryReader, fields: SchemaFields): any {
+  const data: any = {};
+  for (const name in fields) data[name] = readValue(reader, fields[name]);
+  return data;
+}
+
+function readValue(reader: BinaryReader, type: FieldType): any {
+  if (typeof type === 'string') return reader[type]();
+  if (Array.isArray(type)) {
+    const length = reader.u16();
+    const items: any[] = [];
+    for (let i = 0; i < length; i++) items.push(readValue(reader, type[0]));
+    return items;
+  }
+  return readFields(reader, type as SchemaFields);
+}
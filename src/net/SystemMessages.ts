@@ -0,0 +1,44 @@
+import { defineMessage, MessageDef } from './Schema.js';
+
+/**
+ * Messages the net stack itself exchanges. They take the first protocol
+ * ids, ahead of the game's own messages.
+ */
+
+/** Client asks to enter a room */
+export const JoinMessage = defineMessage('$join', { room: 'string', name: 'string' });
+/** Server accepted the join */
+export const WelcomeMessage = defineMessage('$welcome', {
+  id: 'u16',
+  room: 'string',
+  peers: [{ id: 'u16', name: 'string' }],
+});
+/** Server refused the join */
+export const RejectMessage = defineMessage('$reject', { reason: 'string' });
+export const LeaveMessage = defineMessage('$leave', {});
+export const PeerJoinedMessage = defineMessage('$peer-joined', { id: 'u16', name: 'string' });
+export const PeerLeftMessage = defineMessage('$peer-left', { id: 'u16' });
+
+/** Authoritative entity state, sent by EntityReplicator */
+export const SnapshotMessage = defineMessage('$snapshot', {
+  tick: 'u32',
+  time: 'f64',
+  entities: [{ id: 'u16', owner: 'u16', ack: 'u32', x: 'f32', y: 'f32', vx: 'f32', vy: 'f32' }],
+});
+
+/** TurnEngine state, sent by hostTurnEngine */
+export const TurnMessage = defineMessage('$turn', { round: 'u32', current: 'string' });
+/** Client asks to end its turn */
+export const EndTurnMessage = defineMessage('$end-turn', {});
+
+export const SYSTEM_MESSAGES: MessageDef[] = [
+  JoinMessage,
+  WelcomeMessage,
+  RejectMessage,
+  LeaveMessage,
+  PeerJoinedMessage,
+  PeerLeftMessage,
+  SnapshotMessage,
+  TurnMessage,
+  EndTurnMessage,
+];
@@ -0,0 +1,40 @@
+import type { EventEmitter } from 'eventemitter3';
+
+export type TransportState = 'connecting' | 'open' | 'closed';
+
+/**
+ * Typed events emitted by a Transport
+ */
+export interface TransportEvents {
+  'open': () => void;
+  'message': (data: Uint8Array) => void;
+  'close': (reason: string) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * One reliable, ordered, binary connection between two peers.
+ * NetClient and NetServer only talk to this interface, so WebSocket,
+ * WebRTC data channels or the in-process loopback are interchangeable.
+ */
+export interface Transport extends EventEmitter<TransportEvents> {
+  readonly state: TransportState;
+  /** Resolves once the connection is open */
+  connect(): Promise<void>;
+  send(data: Uint8Array): void;
+  close(reason?: string): void;
+}
+
+/**
+ * Typed events emitted by a TransportListener
+ */
+export interface TransportListenerEvents {
+  'connection': (transport: Transport) => void;
+}
+
+/**
+ * Server side: hands every accepted connection to NetServer.
+ */
+export interface TransportListener extends EventEmitter<TransportListenerEvents> {
+  close(): void;
+}
@@ -0,0 +1,81 @@
+import type { TurnEngine } from '../genre/card/TurnEngine.js';
+import type { MessageDef } from './Schema.js';
+import type { NetClient } from './NetClient.js';
+import type { Room, Session } from './NetServer.js';
+import { EndTurnMessage, TurnMessage } from './SystemMessages.js';
+
+export interface HostTurnEngineOptions {
+  /**
+   * Participant name a session plays as
+   * @default session.name (the server rejects a second session joining a room under a taken name)
+   */
+  participantOf?: (session: Session) => string;
+}
+
+/** Client side handle returned by mirrorTurnEngine() */
+export interface TurnEngineMirror {
+  /** Ask the server to end this client's turn */
+  endTurn(): void;
+  dispose(): void;
+}
+
+/**
+ * Make a room's TurnEngine authoritative: every turn change is broadcast,
+ * late joiners get the current turn, and a client's end-turn request is
+ * honoured only on its own turn.
+ *
+ * @example
+ * ```typescript
+ * const engine = new TurnEngine(['Ada', 'Bob']);
+ * const stop = hostTurnEngine(room, engine);
+ * engine.start();
+ * ```
+ * @returns Function that stops syncing
+ */
+export function hostTurnEngine(room: Room, engine: TurnEngine, options?: HostTurnEngineOptions): () => void {
+  const participantOf = options?.participantOf ?? ((session: Session) => session.name);
+
+  const onTurnStart = (current: string) => room.broadcast(TurnMessage, { round: engine.round, current });
+  const onJoin = (session: Session) => {
+    if (engine.round > 0) session.send(TurnMessage, { round: engine.round, current: engine.currentTurn });
+  };
+  const onMessage = (session: Session, type: MessageDef) => {
+    if (type === EndTurnMessage && engine.isTurn(participantOf(session))) engine.endTurn();
+  };
+
+  engine.on('turn-start', onTurnStart);
+  room.on('join', onJoin);
+  room.on('message', onMessage);
+
+  return () => {
+    engine.off('turn-start', onTurnStart);
+    room.off('join', onJoin);
+    room.off('message', onMessage);
+  };
+}
+
+/**
+ * Keep a client's TurnEngine in step with the host's. The local engine
+ * emits its usual events, so card game UI code works unchanged.
+ *
+ * @example
+ * ```typescript
+ * const engine = new TurnEngine(['Ada', 'Bob']);
+ * engine.on('turn-start', (who) => showTurnBanner(who));
+ * const turns = mirrorTurnEngine(client, engine);
+ * endTurnButton.on('pointertap', () => turns.endTurn());
+ * ```
+ */
+export function mirrorTurnEngine(client: NetClient, engine: TurnEngine): TurnEngineMirror {
+  const onMessage = (type: MessageDef, data: any) => {
+    if (type === TurnMessage) engine.setTurn(data.round, data.current);
+  };
+  client.on('message', onMessage);
+
+  return {
+    endTurn: () => client.send(EndTurnMessage, {}),
+    dispose: () => {
+      client.off('message', onMessage);
+    },
+  };
+}
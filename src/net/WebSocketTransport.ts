@@ -0,0 +1,139 @@
+import { EventEmitter } from 'eventemitter3';
+import type { Transport, TransportEvents, TransportState } from './Transport.js';
+
+/**
+ * The WebSocket surface the transport needs. Browser sockets and Node's
+ * `ws` package both provide it.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  binaryType: string;
+  send(data: ArrayBufferView | ArrayBuffer): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: { reason?: string }) => void) | null;
+  onerror: ((event: any) => void) | null;
+}
+
+export interface WebSocketTransportOptions {
+  /** Sub-protocols passed to the WebSocket constructor */
+  protocols?: string | string[];
+  /** WebSocket implementation (default: globalThis.WebSocket) */
+  WebSocket?: new (url: string, protocols?: string | string[]) => WebSocketLike;
+}
+
+const OPEN = 1;
+const CLOSING = 2;
+
+/**
+ * Transport over a WebSocket with binary frames.
+ *
+ * Clients pass a URL and call connect(); servers wrap each accepted
+ * socket (for example from the `ws` package) with fromSocket() and hand
+ * it to NetServer.accept().
+ *
+ * @example
+ * ```typescript
+ * const client = new NetClient({ protocol, transport: new WebSocketTransport('wss://play.example.com') });
+ *
+ * // Node server with `ws`
+ * wss.on('connection', (socket) => server.accept(WebSocketTransport.fromSocket(socket)));
+ * ```
+ */
+export class WebSocketTransport extends EventEmitter<TransportEvents> implements Transport {
+  /**
+   * Wrap an already accepted or connecting socket
+   */
+  static fromSocket(socket: WebSocketLike): WebSocketTransport {
+    const transport = new WebSocketTransport('');
+    transport.attach(socket);
+    return transport;
+  }
+
+  private readonly url: string;
+  private readonly options: WebSocketTransportOptions;
+  private socket: WebSocketLike | null = null;
+  private _state: TransportState = 'connecting';
+  private opening: Promise<void> | null = null;
+
+  constructor(url: string, options: WebSocketTransportOptions = {}) {
+    super();
+    this.url = url;
+    this.options = options;
+  }
+
+  get state(): TransportState {
+    return this._state;
+  }
+
+  connect(): Promise<void> {
+    if (this._state === 'open') return Promise.resolve();
+    if (this._state === 'closed') return Promise.reject(new Error('WebSocketTransport: closed'));
+    if (this.opening) return this.opening;
+
+    if (!this.socket) {
+      const WebSocketImpl = this.options.WebSocket ?? (globalThis as any).WebSocket;
+      if (!WebSocketImpl) return Promise.reject(new Error('WebSocketTransport: no WebSocket implementation available'));
+      this.attach(new WebSocketImpl(this.url, this.options.protocols));
+    }
+
+    this.opening = new Promise((resolve, reject) => {
+      const onOpen = () => {
+        this.off('close', onClose);
+        resolve();
+      };
+      const onClose = (reason: string) => {
+        this.off('open', onOpen);
+        reject(new Error(`WebSocketTransport: connection failed (${reason})`));
+      };
+      this.once('open', onOpen);
+      this.once('close', onClose);
+    });
+    return this.opening;
+  }
+
+  send(data: Uint8Array): void {
+    if (this._state !== 'open' || !this.socket) throw new Error('WebSocketTransport: not open');
+    this.socket.send(data);
+  }
+
+  close(reason: string = 'closed'): void {
+    if (this._state === 'closed') return;
+    const socket = this.socket;
+    if (socket && socket.readyState < CLOSING) socket.close(1000, reason);
+    this.finish(reason);
+  }
+
+  private attach(socket: WebSocketLike): void {
+    this.socket = socket;
+    socket.binaryType = 'arraybuffer';
+    socket.onopen = () => {
+      if (this._state !== 'connecting') return;
+      this._state = 'open';
+      this.emit('open');
+    };
+    socket.onmessage = (event) => {
+      const data = event.data;
+      if (data instanceof ArrayBuffer) this.emit('message', new Uint8Array(data));
+      else if (ArrayBuffer.isView(data)) this.emit('message', new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+      else this.emit('error', new Error('WebSocketTransport: received a non-binary frame'));
+    };
+    socket.onerror = () => {
+      this.emit('error', new Error('WebSocketTransport: socket error'));
+    };
+    socket.onclose = (event) => {
+      this.finish(event.reason || 'closed');
+    };
+    if (socket.readyState === OPEN) socket.onopen(null);
+  }
+
+  private finish(reason: string): void {
+    if (this._state === 'closed') return;
+    this._state = 'closed';
+    if (this.socket) {
+      this.socket.onopen = this.socket.onmessage = this.socket.onerror = this.socket.onclose = null;
+    }
+    this.emit('close', reason);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Net Module - GameByte Framework
+ *
+ * Transport-agnostic multiplayer: binary message schemas, WebSocket and
+ * in-process loopback transports, rooms and sessions, entity state sync
+ * with snapshot interpolation, client-side prediction driven by
+ * TickSystem fixed steps, and TurnEngine sync for turn-based games.
+ *
+ * @module net
+ * @example
+ * ```typescript
+ * import { NetServer, NetClient, LoopbackListener, defineMessage } from '@gamebyte/framework/net';
+ * ```
+ */
+
+export { defineMessage, Protocol } from './Schema.js';
+export type {
+  PrimitiveType,
+  FieldType,
+  SchemaFields,
+  FieldValue,
+  MessageData,
+  MessageDef,
+  MessageOf,
+  DecodedMessage,
+} from './Schema.js';
+export { BinaryWriter, BinaryReader } from './Binary.js';
+export type {
+  Transport,
+  TransportEvents,
+  TransportState,
+  TransportListener,
+  TransportListenerEvents,
+} from './Transport.js';
+export { LoopbackTransport, LoopbackListener } from './LoopbackTransport.js';
+export type { LoopbackOptions } from './LoopbackTransport.js';
+export { WebSocketTransport } from './WebSocketTransport.js';
+export type { WebSocketLike, WebSocketTransportOptions } from './WebSocketTransport.js';
+export { NetServer, Room, Session } from './NetServer.js';
+export type { NetServerConfig, NetServerEvents, RoomOptions, RoomEvents } from './NetServer.js';
+export { NetClient } from './NetClient.js';
+export type { NetClientConfig, NetClientEvents, PeerInfo, JoinResult } from './NetClient.js';
+export { SnapshotMessage, TurnMessage, EndTurnMessage } from './SystemMessages.js';
+export { EntityReplicator } from './EntityReplicator.js';
+export type {
+  NetBody,
+  EntitySnapshot,
+  Snapshot,
+  EntityReplicatorConfig,
+  EntityReplicatorEvents,
+} from './EntityReplicator.js';
+export { EntityInterpolator } from './EntityInterpolator.js';
+export type { EntityInterpolatorConfig, EntityInterpolatorEvents } from './EntityInterpolator.js';
+export { ClientPrediction } from './ClientPrediction.js';
+export type { ClientPredictionConfig, ClientPredictionEvents } from './ClientPrediction.js';
+export { hostTurnEngine, mirrorTurnEngine } from './TurnSync.js';
+export type { HostTurnEngineOptions, TurnEngineMirror } from './TurnSync.js';
@@ -0,0 +1,410 @@
+import type { RandomSource } from '../contracts/Random.js';
+import type { ParticleConfig } from './ParticleEmitter.js';
+
+// ---------------------------------------------------------------------------
+// JSON effect types
+// ---------------------------------------------------------------------------
+
+/** Min/max range sampled uniformly per particle */
+export interface ParticleRange {
+  min: number;
+  max: number;
+}
+
+/** One key of a curve; `time` is particle life progress [0, 1] */
+export interface CurveKey<T = number> {
+  time: number;
+  value: T;
+}
+
+/** Multi-stop curve, linearly interpolated between keys */
+export interface ValueCurve {
+  keys: CurveKey<number>[];
+}
+
+/** Multi-stop color gradient; values are 0xRRGGBB or '#rrggbb' */
+export interface ColorGradient {
+  keys: CurveKey<number | string>[];
+}
+
+/**
+ * Emission area relative to the emit position.
+ * `edge` emits from the outline only; polygons always emit from their edges.
+ */
+export type EmissionShape =
+  | { type: 'point' }
+  | { type: 'circle'; radius: number; edge?: boolean }
+  | { type: 'ring'; innerRadius: number; outerRadius: number }
+  | { type: 'rect'; width: number; height: number; edge?: boolean }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'polygon'; points: Array<{ x: number; y: number }>; closed?: boolean };
+
+/** Frame animation for texture particles */
+export interface ParticleAnimation {
+  /**
+   * 'life' spreads the frames over the lifetime (default), 'loop'/'once' play
+   * at `fps`, 'random' picks one static frame per particle.
+   */
+  mode?: 'life' | 'loop' | 'once' | 'random';
+  /** Frames per second for 'loop' and 'once' (default: 12) */
+  fps?: number;
+}
+
+/** Burst fired on a schedule after start() */
+export interface ParticleBurst {
+  /** Seconds after start() */
+  time: number;
+  count: number;
+  /** Number of times to fire (default: 1, -1 = forever) */
+  cycles?: number;
+  /** Seconds between cycles (default: 1) */
+  interval?: number;
+}
+
+/** Child effect spawned where particles die */
+export interface SubEmitterConfig {
+  trigger: 'death';
+  config: ParticleConfig;
+  /** Particles per trigger (default: 5) */
+  count?: number;
+  /** Probability [0, 1] that a dying particle triggers it (default: 1) */
+  chance?: number;
+}
+
+/**
+ * Point that pulls (positive strength) or pushes (negative) particles.
+ * Coordinates are in the emitter container's space, like emit positions.
+ */
+export interface ParticleAttractor {
+  x: number;
+  y: number;
+  /** Acceleration in px/sec² */
+  strength: number;
+  /** Influence radius in px; strength falls off linearly to 0 at the edge (default: unlimited) */
+  radius?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const SHAPES = ['circle', 'square', 'triangle'];
+const BLEND_MODES = ['normal', 'add', 'screen'];
+const EMISSION_TYPES = ['point', 'circle', 'ring', 'rect', 'line', 'polygon'];
+const ANIMATION_MODES = ['life', 'loop', 'once', 'random'];
+
+/**
+ * Validate JSON effect data and normalize it into a ParticleConfig.
+ * '#rrggbb' color strings become numbers; sub-emitter configs are parsed
+ * recursively. Throws with the offending path on invalid data.
+ */
+export function parseParticleEffect(data: unknown, path = 'effect'): ParticleConfig {
+  if (!isObject(data)) throw new Error(`${path}: expected an object`);
+  const config = { ...data } as Record<string, any>;
+
+  for (const key of ['maxParticles', 'rate', 'gravity', 'size', 'duration']) {
+    if (config[key] !== undefined) expectNumber(config[key], `${path}.${key}`);
+  }
+  for (const key of ['lifetime', 'speed', 'angle', 'rotation', 'angularVelocity']) {
+    if (config[key] !== undefined) expectRange(config[key], `${path}.${key}`);
+  }
+  for (const key of ['scale', 'alpha']) {
+    if (config[key] !== undefined) expectCurve(config[key], `${path}.${key}`);
+  }
+  if (config.color !== undefined) config.color = normalizeColor(config.color, `${path}.color`);
+  if (config.shape !== undefined) expectOneOf(config.shape, SHAPES, `${path}.shape`);
+  if (config.blendMode !== undefined) expectOneOf(config.blendMode, BLEND_MODES, `${path}.blendMode`);
+  if (config.direction !== undefined) expectOneOf(config.direction, ['angle', 'outward'], `${path}.direction`);
+
+  if (config.emission !== undefined) {
+    if (!isObject(config.emission)) throw new Error(`${path}.emission: expected an object`);
+    expectOneOf(config.emission.type, EMISSION_TYPES, `${path}.emission.type`);
+    if (config.emission.type === 'polygon' && (!Array.isArray(config.emission.points) || config.emission.points.length < 2)) {
+      throw new Error(`${path}.emission.points: expected at least 2 points`);
+    }
+  }
+
+  if (config.texture !== undefined) {
+    const frames = Array.isArray(config.texture) ? config.texture : [config.texture];
+    if (frames.length === 0 || frames.some((frame: unknown) => typeof frame !== 'string')) {
+      throw new Error(`${path}.texture: expected a texture id or an array of frame ids`);
+    }
+  }
+  if (config.animation !== undefined && config.animation.mode !== undefined) {
+    expectOneOf(config.animation.mode, ANIMATION_MODES, `${path}.animation.mode`);
+  }
+
+  if (config.bursts !== undefined) {
+    expectArray(config.bursts, `${path}.bursts`).forEach((burst, i) => {
+      expectNumber(burst?.time, `${path}.bursts[${i}].time`);
+      expectNumber(burst?.count, `${path}.bursts[${i}].count`);
+      if (burst.cycles !== undefined) expectNumber(burst.cycles, `${path}.bursts[${i}].cycles`);
+      if (burst.interval !== undefined) expectNumber(burst.interval, `${path}.bursts[${i}].interval`);
+      if ((burst.cycles ?? 1) !== 1 && (burst.interval ?? 1) <= 0) {
+        throw new Error(`${path}.bursts[${i}].interval: expected a positive number for repeating bursts`);
+      }
+    });
+  }
+  if (config.attractors !== undefined) {
+    expectArray(config.attractors, `${path}.attractors`).forEach((attractor, i) => {
+      expectNumber(attractor?.x, `${path}.attractors[${i}].x`);
+      expectNumber(attractor?.y, `${path}.attractors[${i}].y`);
+      expectNumber(attractor?.strength, `${path}.attractors[${i}].strength`);
+    });
+  }
+  if (config.subEmitters !== undefined) {
+    config.subEmitters = expectArray(config.subEmitters, `${path}.subEmitters`).map((sub, i) => {
+      expectOneOf(sub?.trigger, ['death'], `${path}.subEmitters[${i}].trigger`);
+      return { ...sub, config: parseParticleEffect(sub.config, `${path}.subEmitters[${i}].config`) };
+    });
+  }
+
+  return config as ParticleConfig;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function expectNumber(value: unknown, path: string): void {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new Error(`${path}: expected a number`);
+}
+
+function expectRange(value: unknown, path: string): void {
+  if (!isObject(value)) throw new Error(`${path}: expected { min, max }`);
+  expectNumber(value.min, `${path}.min`);
+  expectNumber(value.max, `${path}.max`);
+}
+
+function expectArray(value: unknown, path: string): any[] {
+  if (!Array.isArray(value)) throw new Error(`${path}: expected an array`);
+  return value;
+}
+
+function expectOneOf(value: unknown, allowed: string[], path: string): void {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new Error(`${path}: expected one of ${allowed.join(', ')}`);
+  }
+}
+
+function expectCurve(value: unknown, path: string): void {
+  if (!isObject(value)) throw new Error(`${path}: expected { start, end } or { keys }`);
+  if ('keys' in value) {
+    expectArray(value.keys, `${path}.keys`).forEach((key, i) => {
+      expectNumber(key?.time, `${path}.keys[${i}].time`);
+      expectNumber(key?.value, `${path}.keys[${i}].value`);
+    });
+  } else {
+    expectNumber(value.start, `${path}.start`);
+    expectNumber(value.end, `${path}.end`);
+  }
+}
+
+function normalizeColor(value: unknown, path: string): ParticleConfig['color'] {
+  if (!isObject(value)) throw new Error(`${path}: expected { start, end } or { keys }`);
+  if ('keys' in value) {
+    return {
+      keys: expectArray(value.keys, `${path}.keys`).map((key, i) => {
+        expectNumber(key?.time, `${path}.keys[${i}].time`);
+        return { time: key.time, value: toColor(key.value, `${path}.keys[${i}].value`) };
+      }),
+    };
+  }
+  return { start: toColor(value.start, `${path}.start`), end: toColor(value.end, `${path}.end`) };
+}
+
+function toColor(value: unknown, path: string): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && /^#?[0-9a-f]{6}$/i.test(value)) return parseInt(value.replace('#', ''), 16);
+  throw new Error(`${path}: expected a color (0xRRGGBB or '#rrggbb')`);
+}
+
+// ---------------------------------------------------------------------------
+// Compiled curves (internal to the particles module)
+// ---------------------------------------------------------------------------
+
+/** Curve sampled by the emitter hot path */
+export interface CompiledCurve {
+  times: Float32Array;
+  values: Float32Array;
+  constant: boolean;
+}
+
+/** Gradient stored as per-channel curves */
+export interface CompiledGradient {
+  times: Float32Array;
+  r: Float32Array;
+  g: Float32Array;
+  b: Float32Array;
+  constant: boolean;
+}
+
+/** Compile `{ start, end }` or `{ keys }` into a sorted curve. */
+export function compileCurve(input: { start: number; end: number } | ValueCurve): CompiledCurve {
+  const keys = 'keys' in input
+    ? [...input.keys].sort((a, b) => a.time - b.time)
+    : [{ time: 0, value: input.start }, { time: 1, value: input.end }];
+  if (keys.length === 0) keys.push({ time: 0, value: 1 });
+  const values = Float32Array.from(keys, (k) => k.value);
+  return {
+    times: Float32Array.from(keys, (k) => k.time),
+    values,
+    constant: values.every((v) => v === values[0]),
+  };
+}
+
+/** Compile `{ start, end }` or `{ keys }` colors into a gradient. */
+export function compileGradient(input: { start: number; end: number } | ColorGradient): CompiledGradient {
+  const keys = 'keys' in input
+    ? [...input.keys].sort((a, b) => a.time - b.time).map((k) => ({ time: k.time, value: toColor(k.value, 'color') }))
+    : [{ time: 0, value: input.start }, { time: 1, value: input.end }];
+  if (keys.length === 0) keys.push({ time: 0, value: 0xffffff });
+  return {
+    times: Float32Array.from(keys, (k) => k.time),
+    r: Float32Array.from(keys, (k) => (k.value >> 16) & 0xff),
+    g: Float32Array.from(keys, (k) => (k.value >> 8) & 0xff),
+    b: Float32Array.from(keys, (k) => k.value & 0xff),
+    constant: keys.every((k) => k.value === keys[0].value),
+  };
+}
+
+/** Value of `curve` at `t` [0, 1]. No allocations. */
+export function sampleCurve(curve: CompiledCurve, t: number): number {
+  const times = curve.times;
+  const values = curve.values;
+  const last = times.length - 1;
+  if (t <= times[0]) return values[0];
+  if (t >= times[last]) return values[last];
+  let i = 1;
+  while (times[i] < t) i++;
+  const f = (t - times[i - 1]) / (times[i] - times[i - 1]);
+  return values[i - 1] + (values[i] - values[i - 1]) * f;
+}
+
+/** Packed 0xRRGGBB color of `gradient` at `t` [0, 1]. No allocations. */
+export function sampleGradient(gradient: CompiledGradient, t: number): number {
+  const times = gradient.times;
+  const last = times.length - 1;
+  let i0 = 0;
+  let i1 = 0;
+  let f = 0;
+  if (t >= times[last]) {
+    i0 = i1 = last;
+  } else if (t > times[0]) {
+    i1 = 1;
+    while (times[i1] < t) i1++;
+    i0 = i1 - 1;
+    f = (t - times[i0]) / (times[i1] - times[i0]);
+  }
+  const r = Math.round(gradient.r[i0] + (gradient.r[i1] - gradient.r[i0]) * f);
+  const g = Math.round(gradient.g[i0] + (gradient.g[i1] - gradient.g[i0]) * f);
+  const b = Math.round(gradient.b[i0] + (gradient.b[i1] - gradient.b[i0]) * f);
+  return (r << 16) | (g << 8) | b;
+}
+
+// ---------------------------------------------------------------------------
+// Emission shapes
+// ---------------------------------------------------------------------------
+
+/** Spawn offset and outward normal written by an EmissionSampler */
+export interface EmissionSample {
+  x: number;
+  y: number;
+  /** Outward direction in radians (from the shape center or edge normal) */
+  normal: number;
+}
+
+export type EmissionSampler = (rng: RandomSource, out: EmissionSample) => void;
+
+/** Build a sampler for `shape`. Polygon perimeters are precomputed. */
+export function createEmissionSampler(shape: EmissionShape | undefined): EmissionSampler {
+  if (!shape || shape.type === 'point') {
+    return (rng, out) => {
+      out.x = 0;
+      out.y = 0;
+      out.normal = rng.next() * Math.PI * 2;
+    };
+  }
+
+  switch (shape.type) {
+    case 'circle':
+      return (rng, out) => {
+        const a = rng.next() * Math.PI * 2;
+        const r = shape.edge ? shape.radius : Math.sqrt(rng.next()) * shape.radius;
+        out.x = Math.cos(a) * r;
+        out.y = Math.sin(a) * r;
+        out.normal = a;
+      };
+
+    case 'ring':
+      return (rng, out) => {
+        const a = rng.next() * Math.PI * 2;
+        const inner2 = shape.innerRadius * shape.innerRadius;
+        const outer2 = shape.outerRadius * shape.outerRadius;
+        const r = Math.sqrt(inner2 + (outer2 - inner2) * rng.next());
+        out.x = Math.cos(a) * r;
+        out.y = Math.sin(a) * r;
+        out.normal = a;
+      };
+
+    case 'rect': {
+      const hw = shape.width / 2;
+      const hh = shape.height / 2;
+      if (!shape.edge) {
+        return (rng, out) => {
+          out.x = (rng.next() - 0.5) * shape.width;
+          out.y = (rng.next() - 0.5) * shape.height;
+          out.normal = Math.atan2(out.y, out.x);
+        };
+      }
+      return createEmissionSampler({
+        type: 'polygon',
+        points: [{ x: -hw, y: -hh }, { x: hw, y: -hh }, { x: hw, y: hh }, { x: -hw, y: hh }],
+      });
+    }
+
+    case 'line':
+      return createEmissionSampler({
+        type: 'polygon',
+        points: [{ x: shape.x1, y: shape.y1 }, { x: shape.x2, y: shape.y2 }],
+        closed: false,
+      });
+
+    case 'polygon': {
+      const points = shape.points;
+      const closed = (shape.closed ?? true) && points.length > 2;
+      const segments = closed ? points.length : points.length - 1;
+      const cumulative = new Float32Array(segments + 1);
+      // Winding sign so normals point away from the interior
+      let area = 0;
+      for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        area += a.x * b.y - b.x * a.y;
+      }
+      const sign = area < 0 ? -1 : 1;
+      for (let i = 0; i < segments; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        cumulative[i + 1] = cumulative[i] + Math.hypot(b.x - a.x, b.y - a.y);
+      }
+      const total = cumulative[segments];
+
+      return (rng, out) => {
+        const d = rng.next() * total;
+        let i = 0;
+        while (i < segments - 1 && cumulative[i + 1] < d) i++;
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        const len = cumulative[i + 1] - cumulative[i];
+        const f = len > 0 ? (d - cumulative[i]) / len : 0;
+        out.x = a.x + (b.x - a.x) * f;
+        out.y = a.y + (b.y - a.y) * f;
+        // Edge normal; open lines get either side at random
+        const edge = Math.atan2(b.y - a.y, b.x - a.x);
+        const side = closed ? sign : rng.next() < 0.5 ? 1 : -1;
+        out.normal = edge - (side * Math.PI) / 2;
+      };
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { BaseAssetLoader } from '../assets/loaders/BaseAssetLoader.js';
+import { AssetConfig, AssetType } from '../contracts/AssetManager.js';
+import type { ParticleConfig } from './ParticleEmitter.js';
+import { parseParticleEffect } from './ParticleEffect.js';
+
+/**
+ * Particle effect asset loader (AssetType.PARTICLE_EFFECT).
+ *
+ * Loads a JSON effect file, validates it and returns a ParticleConfig ready
+ * for `new ParticleEmitter(config)`. Texture ids referenced by the effect are
+ * not fetched here; load them (or their spritesheet) separately.
+ *
+ * @example
+ * ```typescript
+ * const fx = await assets.load<ParticleConfig>({ id: 'fx/explosion', type: AssetType.PARTICLE_EFFECT, src: 'fx/explosion.json' });
+ * const emitter = new ParticleEmitter(fx);
+ * ```
+ */
+export class ParticleEffectLoader extends BaseAssetLoader<ParticleConfig> {
+  readonly supportedTypes = [AssetType.PARTICLE_EFFECT];
+
+  async load(config: AssetConfig): Promise<ParticleConfig> {
+    if (!this.canLoad(config.type)) {
+      throw new Error(`ParticleEffectLoader cannot load assets of type: ${config.type}`);
+    }
+
+    try {
+      const text = await this.loadWithXHR(config, 'text') as string;
+      const effect = parseParticleEffect(JSON.parse(text), config.id);
+      this.emit('loaded', { assetId: config.id, effect });
+      return effect;
+    } catch (error) {
+      this.emit('failed', { assetId: config.id, error });
+      throw error;
+    }
+  }
+}
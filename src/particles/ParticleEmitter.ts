@@ -1,15 +1,41 @@
 import { EventEmitter } from 'eventemitter3';
-import { IContainer, IGraphics } from '../contracts/Graphics.js';
+import { IContainer, IGraphics, ISprite, ITexture } from '../contracts/Graphics.js';
 import { graphics } from '../graphics/GraphicsEngine.js';
+import type { RandomSource } from '../contracts/Random.js';
+import {
+  compileCurve,
+  compileGradient,
+  createEmissionSampler,
+  sampleCurve,
+  sampleGradient,
+} from './ParticleEffect.js';
+import type {
+  ColorGradient,
+  CompiledCurve,
+  CompiledGradient,
+  EmissionSample,
+  EmissionSampler,
+  EmissionShape,
+  ParticleAnimation,
+  ParticleAttractor,
+  ParticleBurst,
+  ParticleRange,
+  SubEmitterConfig,
+  ValueCurve,
+} from './ParticleEffect.js';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+/**
+ * Emitter configuration. Everything is JSON-serializable, so effects can be
+ * authored as data and loaded with ParticleEffectLoader.
+ */
 export interface ParticleConfig {
   /** Max simultaneous particles (default: 100) */
   maxParticles?: number;
-  /** Particles emitted per second (default: 20) */
+  /** Particles emitted per second (default: 20; use 0 for burst-only effects) */
   rate?: number;
   /** Particle lifetime range in seconds */
   lifetime?: { min: number; max: number };
@@ -19,18 +45,46 @@ export interface ParticleConfig {
   angle?: { min: number; max: number };
   /** Gravity in px/sec² (default: 0) */
   gravity?: number;
-  /** Start/end scale */
-  scale?: { start: number; end: number };
-  /** Start/end alpha */
-  alpha?: { start: number; end: number };
-  /** Start/end color (hex numbers) */
-  color?: { start: number; end: number };
+  /** Start/end scale, or a multi-stop curve over the lifetime */
+  scale?: { start: number; end: number } | ValueCurve;
+  /** Start/end alpha, or a multi-stop curve over the lifetime */
+  alpha?: { start: number; end: number } | ValueCurve;
+  /** Start/end color (hex numbers), or a multi-stop gradient over the lifetime */
+  color?: { start: number; end: number } | ColorGradient;
   /** Particle shape (default: 'circle') */
   shape?: 'circle' | 'square' | 'triangle';
   /** Particle size in px (default: 4) */
   size?: number;
   /** Blend mode (default: 'normal') */
   blendMode?: 'normal' | 'add' | 'screen';
+  /** Emission area around the emit position (default: point) */
+  emission?: EmissionShape;
+  /**
+   * 'angle' (default) fires within `angle`; 'outward' fires away from the
+   * emission shape, offset by a random value in `angle` (default: 0).
+   */
+  direction?: 'angle' | 'outward';
+  /** Texture id, or frame ids of an animated sequence; replaces `shape` */
+  texture?: string | string[];
+  /** Frame animation when `texture` lists several frames */
+  animation?: ParticleAnimation;
+  /** Initial rotation range in radians (default: 0) */
+  rotation?: ParticleRange;
+  /** Angular velocity range in radians/sec (default: 0) */
+  angularVelocity?: ParticleRange;
+  /** Rotate particles to face their direction of travel */
+  alignToVelocity?: boolean;
+  /** Bursts fired on a schedule after start() */
+  bursts?: ParticleBurst[];
+  /**
+   * Seconds after start() until emission stops by itself; `complete` fires
+   * once the last particle dies (default: 0 = until stop())
+   */
+  duration?: number;
+  /** Child effects spawned by particles (e.g. sparks on death) */
+  subEmitters?: SubEmitterConfig[];
+  /** Points that pull or push particles */
+  attractors?: ParticleAttractor[];
 }
 
 export interface ParticleEmitterEvents {
@@ -46,12 +100,23 @@ interface ResolvedConfig {
   speed: { min: number; max: number };
   angle: { min: number; max: number };
   gravity: number;
-  scale: { start: number; end: number };
-  alpha: { start: number; end: number };
-  color: { start: number; end: number };
+  scale: CompiledCurve;
+  alpha: CompiledCurve;
+  color: CompiledGradient;
   shape: 'circle' | 'square' | 'triangle';
   size: number;
   blendMode: 'normal' | 'add' | 'screen';
+  emission: EmissionSampler;
+  outward: boolean;
+  textures: string[] | null;
+  animationMode: 'life' | 'loop' | 'once' | 'random';
+  fps: number;
+  rotation: ParticleRange;
+  angularVelocity: ParticleRange;
+  alignToVelocity: boolean;
+  bursts: ParticleBurst[];
+  duration: number;
+  attractors: ParticleAttractor[];
 }
 
 // Pre-allocated particle data (no class allocation per particle)
@@ -60,17 +125,30 @@ interface Particle {
   y: number;
   vx: number;
   vy: number;
+  rotation: number;
+  spin: number;
   life: number;
   maxLife: number;
+  /** Frame shown (texture particles) and its random phase for looping modes */
+  frame: number;
+  frameOffset: number;
   active: boolean;
-  graphics: IGraphics;
+  display: IGraphics | ISprite;
+}
+
+interface BurstState {
+  next: number;
+  remaining: number;
 }
 
 // ---------------------------------------------------------------------------
 // Defaults
 // ---------------------------------------------------------------------------
 
-const DEFAULTS: ResolvedConfig = {
+/** Most cycles of one burst fired in a single update */
+const MAX_BURST_CYCLES_PER_UPDATE = 32;
+
+const DEFAULTS = {
   maxParticles: 100,
   rate: 20,
   lifetime: { min: 1.0, max: 2.0 },
@@ -80,50 +158,41 @@ const DEFAULTS: ResolvedConfig = {
   scale: { start: 1, end: 0 },
   alpha: { start: 1, end: 0 },
   color: { start: 0xffffff, end: 0xffffff },
-  shape: 'circle',
+  shape: 'circle' as const,
   size: 4,
-  blendMode: 'normal',
+  blendMode: 'normal' as const,
 };
 
 // ---------------------------------------------------------------------------
 // Utilities
 // ---------------------------------------------------------------------------
 
-function lerp(a: number, b: number, t: number): number {
-  return a + (b - a) * t;
-}
-
-function lerpColor(startColor: number, endColor: number, t: number): number {
-  const sr = (startColor >> 16) & 0xff;
-  const sg = (startColor >> 8) & 0xff;
-  const sb = startColor & 0xff;
-  const er = (endColor >> 16) & 0xff;
-  const eg = (endColor >> 8) & 0xff;
-  const eb = endColor & 0xff;
-  const r = Math.round(lerp(sr, er, t));
-  const g = Math.round(lerp(sg, eg, t));
-  const b = Math.round(lerp(sb, eb, t));
-  return (r << 16) | (g << 8) | b;
-}
-
-function rand(min: number, max: number): number {
-  return min + Math.random() * (max - min);
-}
-
 function mergeConfig(partial: Partial<ParticleConfig>): ResolvedConfig {
+  const outward = partial.direction === 'outward';
   return {
     maxParticles: partial.maxParticles ?? DEFAULTS.maxParticles,
     rate: partial.rate ?? DEFAULTS.rate,
     lifetime: partial.lifetime ?? { ...DEFAULTS.lifetime },
     speed: partial.speed ?? { ...DEFAULTS.speed },
-    angle: partial.angle ?? { ...DEFAULTS.angle },
+    angle: partial.angle ?? (outward ? { min: 0, max: 0 } : { ...DEFAULTS.angle }),
     gravity: partial.gravity ?? DEFAULTS.gravity,
-    scale: partial.scale ?? { ...DEFAULTS.scale },
-    alpha: partial.alpha ?? { ...DEFAULTS.alpha },
-    color: partial.color ?? { ...DEFAULTS.color },
+    scale: compileCurve(partial.scale ?? DEFAULTS.scale),
+    alpha: compileCurve(partial.alpha ?? DEFAULTS.alpha),
+    color: compileGradient(partial.color ?? DEFAULTS.color),
     shape: partial.shape ?? DEFAULTS.shape,
     size: partial.size ?? DEFAULTS.size,
     blendMode: partial.blendMode ?? DEFAULTS.blendMode,
+    emission: createEmissionSampler(partial.emission),
+    outward,
+    textures: partial.texture === undefined ? null : Array.isArray(partial.texture) ? partial.texture : [partial.texture],
+    animationMode: partial.animation?.mode ?? 'life',
+    fps: partial.animation?.fps ?? 12,
+    rotation: partial.rotation ?? { min: 0, max: 0 },
+    angularVelocity: partial.angularVelocity ?? { min: 0, max: 0 },
+    alignToVelocity: partial.alignToVelocity ?? false,
+    bursts: partial.bursts ?? [],
+    duration: partial.duration ?? 0,
+    attractors: partial.attractors ?? [],
   };
 }
 
@@ -156,8 +225,10 @@ function drawShape(gfx: IGraphics, shape: 'circle' | 'square' | 'triangle', size
 /**
  * General-purpose 2D particle emitter.
  *
- * Supports continuous emission and one-shot bursts. Uses a fixed-size particle
- * pool pre-allocated in the constructor to avoid per-frame garbage collection.
+ * Supports continuous emission, one-shot and scheduled bursts, emission
+ * shapes, lifetime curves, texture/spritesheet particles, sub-emitters and
+ * attractors. Uses a fixed-size particle pool pre-allocated in the
+ * constructor to avoid per-frame garbage collection.
  *
  * @example
  * ```typescript
@@ -181,30 +252,60 @@ export class ParticleEmitter extends EventEmitter<ParticleEmitterEvents> {
   private _spawnInterval: number;
   private _burstActive: boolean = false;
   private _destroyed: boolean = false;
+  private _rng: RandomSource;
+  private _source: Partial<ParticleConfig>;
+  /** Seconds since start() */
+  private _elapsed: number = 0;
+  private _bursts: BurstState[] = [];
+  /** Frame textures for animated texture particles */
+  private _frames: ITexture[] = [];
+  private _subEmitters: Array<{ emitter: ParticleEmitter; count: number; chance: number }> = [];
+  private readonly _sample: EmissionSample = { x: 0, y: 0, normal: 0 };
 
-  constructor(config?: Partial<ParticleConfig>) {
+  /**
+   * @param config Emitter configuration
+   * @param rng Random source for spawn variation (default: Math.random)
+   */
+  constructor(config?: Partial<ParticleConfig>, rng: RandomSource = { next: Math.random }) {
     super();
-    this._config = mergeConfig(config ?? {});
+    this._rng = rng;
+    this._source = config ?? {};
+    this._config = mergeConfig(this._source);
     this._spawnInterval = 1 / this._config.rate;
 
     const factory = graphics();
     this._container = factory.createContainer();
+    const textures = this._config.textures;
+    this._loadFrames();
 
     // Pre-allocate the particle pool
     this._particles = [];
+    const startColor = sampleGradient(this._config.color, 0);
     for (let i = 0; i < this._config.maxParticles; i++) {
-      const gfx = factory.createGraphics();
-      drawShape(gfx, this._config.shape, this._config.size, this._config.color.start);
-      gfx.visible = false;
-      this._container.addChild(gfx);
+      let display: IGraphics | ISprite;
+      if (textures) {
+        const sprite = factory.createSprite(this._frames[0] ?? textures[0]);
+        sprite.anchor?.set(0.5, 0.5);
+        display = sprite;
+      } else {
+        const gfx = factory.createGraphics();
+        drawShape(gfx, this._config.shape, this._config.size, startColor);
+        display = gfx;
+      }
+      display.visible = false;
+      this._container.addChild(display);
       this._particles.push({
         x: 0, y: 0,
         vx: 0, vy: 0,
+        rotation: 0, spin: 0,
         life: 0, maxLife: 0,
+        frame: 0, frameOffset: 0,
         active: false,
-        graphics: gfx,
+        display,
       });
     }
+
+    this._createSubEmitters(this._source.subEmitters);
   }
 
   // --------------------------------------------------------------------------
@@ -216,13 +317,15 @@ export class ParticleEmitter extends EventEmitter<ParticleEmitterEvents> {
     return this._container;
   }
 
-  /** Start continuous emission at (x, y). */
+  /** Start continuous emission (and the burst schedule) at (x, y). */
   start(x: number, y: number): void {
     this._emitX = x;
     this._emitY = y;
     this._isEmitting = true;
     this._spawnAccumulator = 0;
     this._burstActive = false;
+    this._elapsed = 0;
+    this._bursts = this._config.bursts.map((b) => ({ next: b.time, remaining: b.cycles ?? 1 }));
   }
 
   /** Stop continuous emission. Existing particles continue until they expire. */
@@ -265,30 +368,35 @@ export class ParticleEmitter extends EventEmitter<ParticleEmitterEvents> {
   update(dt: number): void {
     if (this._destroyed) return;
 
-    // Spawn new particles for continuous emission
+    // Spawn new particles for continuous emission and scheduled bursts
     if (this._isEmitting) {
+      this._elapsed += dt;
       this._spawnAccumulator += dt;
       let spawned = 0;
       while (this._spawnAccumulator >= this._spawnInterval) {
         if (this._spawnOne()) spawned++;
         this._spawnAccumulator -= this._spawnInterval;
       }
+      spawned += this._updateBursts();
       if (spawned > 0) {
         this.emit('particle-spawn', spawned);
       }
+      // Timed effects stop by themselves and complete like bursts
+      if (this._config.duration > 0 && this._elapsed >= this._config.duration) {
+        this._isEmitting = false;
+        this._burstActive = true;
+      }
     }
 
     // Update all particles (hot path — minimal allocations)
+    const cfg = this._config;
     const particles = this._particles;
     const len = particles.length;
-    const gravity = this._config.gravity;
-    const alphaStart = this._config.alpha.start;
-    const alphaEnd = this._config.alpha.end;
-    const scaleStart = this._config.scale.start;
-    const scaleEnd = this._config.scale.end;
-    const colorStart = this._config.color.start;
-    const colorEnd = this._config.color.end;
-    const colorsMatch = colorStart === colorEnd;
+    const gravity = cfg.gravity;
+    const attractors = cfg.attractors;
+    const frames = this._frames;
+    const animated = frames.length > 1 && cfg.animationMode !== 'random';
+    const textured = cfg.textures !== null;
 
     for (let i = 0; i < len; i++) {
       const p = particles[i];
@@ -297,47 +405,87 @@ export class ParticleEmitter extends EventEmitter<ParticleEmitterEvents> {
       p.life -= dt;
       if (p.life <= 0) {
         p.active = false;
-        p.graphics.visible = false;
+        p.display.visible = false;
         this._activeCount--;
+        if (this._subEmitters.length > 0) this._triggerSubEmitters(p.x, p.y);
         continue;
       }
 
       // Physics
+      for (let a = 0; a < attractors.length; a++) {
+        const attractor = attractors[a];
+        const dx = attractor.x - p.x;
+        const dy = attractor.y - p.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < 1e-3 || (attractor.radius !== undefined && dist >= attractor.radius)) continue;
+        const falloff = attractor.radius !== undefined ? 1 - dist / attractor.radius : 1;
+        const accel = (attractor.strength * falloff * dt) / dist;
+        p.vx += dx * accel;
+        p.vy += dy * accel;
+      }
       p.vy += gravity * dt;
       p.x += p.vx * dt;
       p.y += p.vy * dt;
+      p.rotation += p.spin * dt;
 
       // Progress: 0 = just spawned, 1 = about to die
       const progress = 1 - (p.life / p.maxLife);
-      const gfx = p.graphics;
-
-      gfx.x = p.x;
-      gfx.y = p.y;
-      gfx.alpha = lerp(alphaStart, alphaEnd, progress);
-      const s = lerp(scaleStart, scaleEnd, progress);
-      gfx.scale.x = s;
-      gfx.scale.y = s;
-
-      // Redraw with interpolated color only when colors differ
-      if (!colorsMatch) {
-        const color = lerpColor(colorStart, colorEnd, progress);
-        drawShape(gfx, this._config.shape, this._config.size, color);
+      const display = p.display;
+
+      display.x = p.x;
+      display.y = p.y;
+      display.alpha = sampleCurve(cfg.alpha, progress);
+      const s = sampleCurve(cfg.scale, progress);
+      display.scale.x = s;
+      display.scale.y = s;
+      display.rotation = cfg.alignToVelocity ? Math.atan2(p.vy, p.vx) + p.rotation : p.rotation;
+
+      // Sprites are tinted; shapes are redrawn only when colors change
+      if (!cfg.color.constant) {
+        const color = sampleGradient(cfg.color, progress);
+        if (textured) (display as ISprite).tint = color;
+        else drawShape(display as IGraphics, cfg.shape, cfg.size, color);
+      }
+
+      if (animated) {
+        const frame = this._frameAt(p, progress);
+        if (frame !== p.frame) {
+          p.frame = frame;
+          (display as ISprite).texture = frames[frame];
+        }
       }
     }
 
+    let subActive = false;
+    for (let i = 0; i < this._subEmitters.length; i++) {
+      const sub = this._subEmitters[i].emitter;
+      sub.update(dt);
+      if (sub.activeCount > 0) subActive = true;
+    }
+
     // Fire 'complete' when a burst finishes and all particles have expired
-    if (this._burstActive && !this._isEmitting && this._activeCount === 0) {
+    if (this._burstActive && !this._isEmitting && this._activeCount === 0 && !subActive) {
       this._burstActive = false;
       this.emit('complete');
     }
   }
 
-  /** Update config at runtime. Does not resize the particle pool. */
+  /**
+   * Update config at runtime. Does not resize the particle pool or switch
+   * between shape and texture particles.
+   */
   configure(config: Partial<ParticleConfig>): void {
     // Rate changes require recalculating spawn interval
-    const newConfig = mergeConfig({ ...this._config, ...config });
-    this._config = newConfig;
+    this._source = { ...this._source, ...config };
+    this._config = mergeConfig(this._source);
     this._spawnInterval = 1 / this._config.rate;
+    if (config.texture !== undefined) this._loadFrames();
+    if (config.subEmitters !== undefined) this._createSubEmitters(config.subEmitters);
+  }
+
+  /** Live attractor list — move attractors by mutating their x/y. */
+  getAttractors(): ParticleAttractor[] {
+    return this._config.attractors;
   }
 
   /** Kill all active particles and stop emission immediately. */
@@ -350,10 +498,13 @@ export class ParticleEmitter extends EventEmitter<ParticleEmitterEvents> {
       const p = particles[i];
       if (p.active) {
         p.active = false;
-        p.graphics.visible = false;
+        p.display.visible = false;
       }
     }
     this._activeCount = 0;
+    for (let i = 0; i < this._subEmitters.length; i++) {
+      this._subEmitters[i].emitter.clear();
+    }
   }
 
   /** Destroy emitter and free all resources. */
@@ -362,9 +513,13 @@ export class ParticleEmitter extends EventEmitter<ParticleEmitterEvents> {
     this._destroyed = true;
     const particles = this._particles;
     for (let i = 0, len = particles.length; i < len; i++) {
-      particles[i].graphics.destroy();
+      particles[i].display.destroy();
     }
     this._particles = [];
+    for (let i = 0; i < this._subEmitters.length; i++) {
+      this._subEmitters[i].emitter.destroy();
+    }
+    this._subEmitters = [];
     this._container.destroy();
     this.removeAllListeners();
   }
@@ -482,6 +637,10 @@ export class ParticleEmitter extends EventEmitter<ParticleEmitterEvents> {
   // Private helpers
   // --------------------------------------------------------------------------
 
+  private _rand(min: number, max: number): number {
+    return min + this._rng.next() * (max - min);
+  }
+
   /** Find an inactive particle slot, initialise it, and return true on success. */
   private _spawnOne(): boolean {
     const particles = this._particles;
@@ -497,30 +656,118 @@ export class ParticleEmitter extends EventEmitter<ParticleEmitterEvents> {
 
   private _initParticle(p: Particle): void {
     const cfg = this._config;
-    const angle = rand(cfg.angle.min, cfg.angle.max);
-    const speed = rand(cfg.speed.min, cfg.speed.max);
-    const life = rand(cfg.lifetime.min, cfg.lifetime.max);
-
-    p.x = this._emitX;
-    p.y = this._emitY;
+    const sample = this._sample;
+    cfg.emission(this._rng, sample);
+    const spread = this._rand(cfg.angle.min, cfg.angle.max);
+    const angle = cfg.outward ? sample.normal + spread : spread;
+    const speed = this._rand(cfg.speed.min, cfg.speed.max);
+    const life = this._rand(cfg.lifetime.min, cfg.lifetime.max);
+
+    p.x = this._emitX + sample.x;
+    p.y = this._emitY + sample.y;
     p.vx = Math.cos(angle) * speed;
     p.vy = Math.sin(angle) * speed;
+    p.rotation = this._rand(cfg.rotation.min, cfg.rotation.max);
+    p.spin = this._rand(cfg.angularVelocity.min, cfg.angularVelocity.max);
     p.life = life;
     p.maxLife = life;
     p.active = true;
     this._activeCount++;
 
-    const gfx = p.graphics;
-    drawShape(gfx, cfg.shape, cfg.size, cfg.color.start);
-    gfx.x = p.x;
-    gfx.y = p.y;
-    gfx.alpha = cfg.alpha.start;
-    const s = cfg.scale.start;
-    gfx.scale.x = s;
-    gfx.scale.y = s;
-    gfx.visible = true;
+    const display = p.display;
+    const color = sampleGradient(cfg.color, 0);
+    if (cfg.textures) {
+      const sprite = display as ISprite;
+      sprite.tint = color;
+      if (this._frames.length > 1) {
+        p.frameOffset = this._rng.next();
+        p.frame = cfg.animationMode === 'random'
+          ? Math.floor(p.frameOffset * this._frames.length) % this._frames.length
+          : this._frameAt(p, 0);
+        sprite.texture = this._frames[p.frame];
+      }
+    } else {
+      drawShape(display as IGraphics, cfg.shape, cfg.size, color);
+    }
+    display.x = p.x;
+    display.y = p.y;
+    display.alpha = sampleCurve(cfg.alpha, 0);
+    const s = sampleCurve(cfg.scale, 0);
+    display.scale.x = s;
+    display.scale.y = s;
+    display.rotation = cfg.alignToVelocity ? Math.atan2(p.vy, p.vx) + p.rotation : p.rotation;
+    display.visible = true;
     if (cfg.blendMode !== 'normal') {
-      (gfx as any).blendMode = cfg.blendMode;
+      (display as any).blendMode = cfg.blendMode;
     }
   }
+
+  /** Frame index for a particle at life `progress`. */
+  private _frameAt(p: Particle, progress: number): number {
+    const count = this._frames.length;
+    const mode = this._config.animationMode;
+    if (mode === 'life') return Math.min(Math.floor(progress * count), count - 1);
+    const frame = Math.floor((p.maxLife - p.life) * this._config.fps);
+    if (mode === 'once') return Math.min(frame, count - 1);
+    // Loop: start each particle at a random phase
+    return (frame + Math.floor(p.frameOffset * count)) % count;
+  }
+
+  /** Fire scheduled bursts that are due. Returns the number spawned. */
+  private _updateBursts(): number {
+    const bursts = this._config.bursts;
+    let spawned = 0;
+    for (let i = 0; i < this._bursts.length; i++) {
+      const state = this._bursts[i];
+      const burst = bursts[i];
+      const interval = burst.interval ?? 1;
+      let fired = 0;
+      while (state.remaining !== 0 && this._elapsed >= state.next) {
+        for (let n = 0; n < burst.count; n++) {
+          if (this._spawnOne()) spawned++;
+        }
+        if (state.remaining > 0) state.remaining--;
+        // A non-positive interval can never catch up with the clock: fire once
+        if (interval <= 0) {
+          state.remaining = 0;
+          break;
+        }
+        state.next += interval;
+        // After a long stall, skip missed cycles instead of replaying them all
+        if (++fired >= MAX_BURST_CYCLES_PER_UPDATE && this._elapsed >= state.next) {
+          state.next = this._elapsed + interval;
+          break;
+        }
+      }
+    }
+    return spawned;
+  }
+
+  private _triggerSubEmitters(x: number, y: number): void {
+    for (let i = 0; i < this._subEmitters.length; i++) {
+      const sub = this._subEmitters[i];
+      if (sub.chance >= 1 || this._rng.next() < sub.chance) {
+        sub.emitter.burst(x, y, sub.count);
+      }
+    }
+  }
+
+  private _createSubEmitters(configs: SubEmitterConfig[] | undefined): void {
+    for (let i = 0; i < this._subEmitters.length; i++) {
+      this._container.removeChild(this._subEmitters[i].emitter.getContainer());
+      this._subEmitters[i].emitter.destroy();
+    }
+    this._subEmitters = (configs ?? []).map((sub) => {
+      const emitter = new ParticleEmitter({ rate: 0, ...sub.config }, this._rng);
+      this._container.addChild(emitter.getContainer());
+      return { emitter, count: sub.count ?? 5, chance: sub.chance ?? 1 };
+    });
+  }
+
+  private _loadFrames(): void {
+    const textures = this._config.textures;
+    this._frames = textures && textures.length > 1
+      ? textures.map((id) => graphics().createTexture(id))
+      : [];
+  }
 }
@@ -0,0 +1,114 @@
+import { IContainer } from '../contracts/Graphics.js';
+import { graphics } from '../graphics/GraphicsEngine.js';
+import { ParticleEmitter, ParticleConfig } from './ParticleEmitter.js';
+import { parseParticleEffect } from './ParticleEffect.js';
+
+export interface ParticlePreviewOptions {
+  /** Emit position inside the preview container (default: 0, 0) */
+  x?: number;
+  y?: number;
+  /** Replay finished effects (default: true) */
+  loop?: boolean;
+  /** Seconds to wait before replaying (default: 0.5) */
+  loopDelay?: number;
+  /** Particles for effects without rate or bursts (default: maxParticles / 2) */
+  burstCount?: number;
+}
+
+/**
+ * Plays a particle effect on its own, for editors and effect galleries.
+ *
+ * Effects with a rate or burst schedule are started; effects without either
+ * are fired as a single burst. Finished effects replay after `loopDelay`.
+ * setConfig() swaps in an edited effect without touching the container's
+ * place in the scene.
+ *
+ * @example
+ * ```typescript
+ * const preview = new ParticlePreview(effectJson, { x: 200, y: 200 });
+ * stage.addChild(preview.getContainer());
+ * tick.subscribe(({ delta }) => preview.update(delta / 1000));
+ * editor.on('change', (json) => preview.setConfig(json));
+ * ```
+ */
+export class ParticlePreview {
+  private _container: IContainer;
+  private _emitter: ParticleEmitter | null = null;
+  private _config: ParticleConfig = {};
+  private _options: Required<Omit<ParticlePreviewOptions, 'burstCount'>> & { burstCount?: number };
+  /** Seconds until the next replay; -1 while playing */
+  private _restartIn: number = -1;
+
+  /**
+   * @param effect ParticleConfig or raw JSON effect data (validated)
+   * @param options Preview placement and looping
+   */
+  constructor(effect: unknown, options: ParticlePreviewOptions = {}) {
+    this._options = {
+      x: options.x ?? 0,
+      y: options.y ?? 0,
+      loop: options.loop ?? true,
+      loopDelay: options.loopDelay ?? 0.5,
+      burstCount: options.burstCount,
+    };
+    this._container = graphics().createContainer();
+    this.setConfig(effect);
+  }
+
+  /** Get the container to add to your scene. */
+  getContainer(): IContainer {
+    return this._container;
+  }
+
+  /** The emitter currently playing. */
+  get emitter(): ParticleEmitter | null {
+    return this._emitter;
+  }
+
+  /** Replace the effect (validated) and restart it. */
+  setConfig(effect: unknown): void {
+    this._config = parseParticleEffect(effect);
+    if (this._emitter) {
+      this._container.removeChild(this._emitter.getContainer());
+      this._emitter.destroy();
+    }
+    this._emitter = new ParticleEmitter(this._config);
+    this._emitter.on('complete', () => {
+      if (this._options.loop) this._restartIn = this._options.loopDelay;
+    });
+    this._container.addChild(this._emitter.getContainer());
+    this.restart();
+  }
+
+  /** Clear live particles and play the effect from the start. */
+  restart(): void {
+    const emitter = this._emitter;
+    if (!emitter) return;
+    emitter.clear();
+    this._restartIn = -1;
+    const { x, y } = this._options;
+    const continuous = (this._config.rate ?? 20) > 0 || (this._config.bursts?.length ?? 0) > 0;
+    if (continuous) emitter.start(x, y);
+    else emitter.burst(x, y, this._options.burstCount);
+  }
+
+  /**
+   * Advance the preview. Must be called each frame.
+   * @param dt - delta time in seconds
+   */
+  update(dt: number): void {
+    if (!this._emitter) return;
+    this._emitter.update(dt);
+    if (this._restartIn >= 0) {
+      this._restartIn -= dt;
+      if (this._restartIn < 0) this.restart();
+    }
+  }
+
+  /** Destroy the emitter and container. */
+  destroy(): void {
+    this._emitter?.destroy();
+    this._emitter = null;
+    this._container.destroy();
+  }
+}
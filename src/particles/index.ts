@@ -1,2 +1,17 @@
 export { ParticleEmitter } from './ParticleEmitter.js';
 export type { ParticleConfig, ParticleEmitterEvents } from './ParticleEmitter.js';
+export { parseParticleEffect } from './ParticleEffect.js';
+export type {
+  ParticleRange,
+  CurveKey,
+  ValueCurve,
+  ColorGradient,
+  EmissionShape,
+  ParticleAnimation,
+  ParticleBurst,
+  SubEmitterConfig,
+  ParticleAttractor,
+} from './ParticleEffect.js';
+export { ParticleEffectLoader } from './ParticleEffectLoader.js';
+export { ParticlePreview } from './ParticlePreview.js';
+export type { ParticlePreviewOptions } from './ParticlePreview.js';
@@ -410,6 +410,26 @@ export class Matter2DBody extends EventEmitter implements PhysicsBody {
         );
         break;
 
+      case 'mesh':
+        if (primaryShape.vertices && primaryShape.vertices.length >= 3) {
+          // fromVertices recenters the shape on its centroid at the given position
+          body = Matter.Bodies.fromVertices(
+            position.x,
+            position.y,
+            [primaryShape.vertices as Point[]],
+            options
+          );
+          break;
+        }
+        body = Matter.Bodies.rectangle(
+          position.x,
+          position.y,
+          (primaryShape.dimensions as Point).x || 32,
+          (primaryShape.dimensions as Point).y || 32,
+          options
+        );
+        break;
+
       default:
         // Default to box
         body = Matter.Bodies.rectangle(
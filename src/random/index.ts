@@ -0,0 +1,2 @@
+export { Random } from './Random.js';
+export type { RandomSource, IRandom, RandomState } from '../contracts/Random.js';
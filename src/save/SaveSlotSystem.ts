@@ -0,0 +1,413 @@
+import { EventEmitter } from 'eventemitter3';
+import { runMigrations, SaveMigrations } from './migrations.js';
+import { SaveStorageAdapter, createDefaultStorageAdapter } from './SaveStorageAdapter.js';
+
+export interface SaveSlotConfig<T extends Record<string, any>> {
+  /** Key namespace for all slots (default: 'gamebyte-save') */
+  key?: string;
+  /** Schema version for migrations */
+  version: number;
+  /** Default save data for a fresh slot */
+  defaults: T;
+  /** Migration functions: { fromVersion: migrateFn } */
+  migrations?: SaveMigrations;
+  /**
+   * Async storage backend. Defaults to IndexedDB, falling back to
+   * localStorage and then in-memory storage.
+   */
+  adapter?: SaveStorageAdapter;
+  /** Debounce window for autosave in ms (default: 1000) */
+  autosaveDelay?: number;
+}
+
+/**
+ * Metadata stored alongside each slot. Listing slots only reads metadata,
+ * never the full save payload.
+ */
+export interface SaveSlotMetadata {
+  /** Slot identifier */
+  id: string;
+  /** Unix timestamp (ms) of the last write */
+  timestamp: number;
+  /** Accumulated playtime in ms */
+  playtime: number;
+  /** Optional thumbnail (e.g. a data URL) */
+  thumbnail?: string;
+  /** Schema version the slot was written with */
+  version: number;
+  /** Optional player-facing label */
+  label?: string;
+}
+
+/** Metadata fields the game may set directly */
+export type SaveSlotMetadataUpdate = Partial<Pick<SaveSlotMetadata, 'playtime' | 'thumbnail' | 'label'>>;
+
+export interface SaveSlotSystemEvents {
+  'saved': (data: any, slot: string) => void;
+  'loaded': (data: any, slot: string) => void;
+  'migrated': (fromVersion: number, toVersion: number) => void;
+  'error': (error: Error) => void;
+  'slot-copied': (from: string, to: string) => void;
+  'slot-deleted': (slot: string) => void;
+}
+
+/** Serialized storage format for a slot payload */
+interface SlotEnvelope {
+  version: number;
+  data: any;
+}
+
+/**
+ * SaveSlotSystem - Async, multi-slot save system.
+ *
+ * Each slot stores a versioned `{ version, data }` envelope plus a separate
+ * metadata record (timestamp, playtime, thumbnail, version). Writes go through
+ * a pluggable async adapter (IndexedDB, localStorage, memory) and are
+ * serialized so copy/delete/autosave never interleave.
+ *
+ * @example
+ * ```typescript
+ * const saves = new SaveSlotSystem<GameSave>({
+ *   version: 2,
+ *   defaults: { score: 0, level: 1 },
+ *   migrations: { 1: (old) => ({ ...old, level: old.stage ?? 1 }) }
+ * });
+ *
+ * await saves.load('slot-1');
+ * saves.set('score', 100);          // debounced autosave
+ * await saves.save({}, { thumbnail: canvas.toDataURL() });
+ *
+ * const slots = await saves.listSlots();
+ * await saves.copySlot('slot-1', 'backup');
+ * ```
+ */
+export class SaveSlotSystem<T extends Record<string, any>> extends EventEmitter<SaveSlotSystemEvents> {
+  private key: string;
+  private version: number;
+  private defaults: T;
+  private migrations: SaveMigrations;
+  private adapter: SaveStorageAdapter;
+  private autosaveDelay: number;
+
+  private data: T;
+  private slot: string | null = null;
+  private meta: SaveSlotMetadata | null = null;
+  private autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(config: SaveSlotConfig<T>) {
+    super();
+
+    this.key = config.key ?? 'gamebyte-save';
+    this.version = config.version;
+    this.defaults = this.deepClone(config.defaults);
+    this.migrations = config.migrations ?? {};
+    this.adapter = config.adapter ?? createDefaultStorageAdapter();
+    this.autosaveDelay = config.autosaveDelay ?? 1000;
+
+    this.data = this.deepClone(this.defaults);
+  }
+
+  // ============================================
+  // ACTIVE SLOT
+  // ============================================
+
+  /**
+   * Currently loaded slot id, or null if no slot has been loaded.
+   */
+  get activeSlot(): string | null {
+    return this.slot;
+  }
+
+  /**
+   * Metadata of the active slot, or null if no slot has been loaded.
+   */
+  get metadata(): SaveSlotMetadata | null {
+    return this.meta ? { ...this.meta } : null;
+  }
+
+  /**
+   * Load a slot and make it the active slot.
+   * A pending autosave for the slot being left is written first, and
+   * queued writes finish before the slot is read.
+   * Runs the migration chain on version mismatch.
+   * Falls back to defaults on parse or migration errors.
+   */
+  async load(slot: string): Promise<T> {
+    await this.flushPendingAutosave();
+    await this.writeQueue;
+    this.slot = slot;
+
+    const [raw, rawMeta] = await Promise.all([
+      this.adapter.getItem(this.dataKey(slot)),
+      this.adapter.getItem(this.metaKey(slot)),
+    ]);
+
+    this.meta = this.parseMeta(slot, rawMeta);
+
+    if (raw === null) {
+      return this.finishLoad(slot, this.deepClone(this.defaults));
+    }
+
+    let envelope: SlotEnvelope;
+    try {
+      envelope = JSON.parse(raw) as SlotEnvelope;
+    } catch (err) {
+      this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      return this.finishLoad(slot, this.deepClone(this.defaults));
+    }
+
+    let loadedData = envelope.data;
+    const storedVersion = envelope.version ?? 0;
+
+    if (storedVersion < this.version) {
+      try {
+        loadedData = runMigrations(loadedData, storedVersion, this.version, this.migrations,
+          (from, to) => this.emit('migrated', from, to));
+      } catch (error) {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        return this.finishLoad(slot, this.deepClone(this.defaults));
+      }
+    } else if (storedVersion > this.version) {
+      console.warn(
+        `[SaveSlotSystem] Slot "${slot}" version (${storedVersion}) is newer than current version (${this.version}). Using stored data as-is.`
+      );
+    }
+
+    return this.finishLoad(slot, { ...this.deepClone(this.defaults), ...loadedData });
+  }
+
+  /**
+   * Merge partial data into the active slot and persist it.
+   * Cancels any pending autosave, since this write supersedes it.
+   */
+  async save(data: Partial<T> = {}, meta: SaveSlotMetadataUpdate = {}): Promise<void> {
+    const slot = this.requireSlot('save');
+    this.cancelAutosave();
+    this.data = { ...this.data, ...data };
+
+    const current = this.meta ?? this.createMeta(slot);
+    this.meta = { ...current, ...meta, id: slot, version: this.version, timestamp: Date.now() };
+
+    const snapshot = this.deepClone(this.data);
+    const metaSnapshot = { ...this.meta };
+
+    await this.enqueue(async () => {
+      const envelope: SlotEnvelope = { version: this.version, data: snapshot };
+      await this.adapter.setItem(this.dataKey(slot), JSON.stringify(envelope));
+      await this.adapter.setItem(this.metaKey(slot), JSON.stringify(metaSnapshot));
+      this.emit('saved', this.deepClone(snapshot), slot);
+    });
+  }
+
+  /**
+   * Get a single field from current in-memory data.
+   */
+  get<K extends keyof T>(key: K): T[K] {
+    return this.data[key];
+  }
+
+  /**
+   * Set a single field and schedule a debounced autosave.
+   */
+  set<K extends keyof T>(key: K, value: T[K]): void {
+    this.data[key] = value;
+    this.scheduleAutosave();
+  }
+
+  /**
+   * Add elapsed playtime (ms) to the active slot's metadata.
+   * Persisted on the next save or autosave.
+   */
+  addPlaytime(ms: number): void {
+    const slot = this.requireSlot('addPlaytime');
+    if (!this.meta) this.meta = this.createMeta(slot);
+    this.meta.playtime += Math.max(0, ms);
+  }
+
+  // ============================================
+  // AUTOSAVE
+  // ============================================
+
+  /**
+   * Schedule a save after `autosaveDelay` ms. Repeated calls within the
+   * window collapse into a single write.
+   */
+  scheduleAutosave(): void {
+    if (this.slot === null) return;
+    this.cancelAutosave();
+    this.autosaveTimer = setTimeout(() => {
+      this.autosaveTimer = null;
+      // Write failures are already reported through the 'error' event.
+      this.save().catch(() => undefined);
+    }, this.autosaveDelay);
+  }
+
+  /**
+   * Whether an autosave is waiting to run.
+   */
+  get hasPendingAutosave(): boolean {
+    return this.autosaveTimer !== null;
+  }
+
+  /**
+   * Write any pending autosave immediately and wait for all queued writes.
+   */
+  async flush(): Promise<void> {
+    if (this.autosaveTimer !== null) {
+      await this.save();
+    }
+    await this.writeQueue;
+  }
+
+  // ============================================
+  // SLOT MANAGEMENT
+  // ============================================
+
+  /**
+   * List metadata for all stored slots, most recently written first.
+   */
+  async listSlots(): Promise<SaveSlotMetadata[]> {
+    const prefix = this.metaKey('');
+    const keys = await this.adapter.keys(prefix);
+    const slots: SaveSlotMetadata[] = [];
+
+    for (const key of keys) {
+      const id = key.slice(prefix.length);
+      const raw = await this.adapter.getItem(key);
+      if (raw !== null) slots.push(this.parseMeta(id, raw));
+    }
+
+    return slots.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Whether storage contains a save for the given slot.
+   */
+  async hasSlot(slot: string): Promise<boolean> {
+    return (await this.adapter.getItem(this.dataKey(slot))) !== null;
+  }
+
+  /**
+   * Copy a slot (payload and metadata) to another slot id, overwriting it.
+   * Copying onto the active slot drops its pending autosave and reloads it.
+   */
+  async copySlot(from: string, to: string): Promise<void> {
+    if (from === this.slot) await this.flushPendingAutosave();
+    if (to === this.slot) this.cancelAutosave();
+    await this.enqueue(async () => {
+      const raw = await this.adapter.getItem(this.dataKey(from));
+      if (raw === null) {
+        throw new Error(`SaveSlotSystem: slot "${from}" does not exist`);
+      }
+      const meta = this.parseMeta(from, await this.adapter.getItem(this.metaKey(from)));
+
+      await this.adapter.setItem(this.dataKey(to), raw);
+      await this.adapter.setItem(this.metaKey(to), JSON.stringify({ ...meta, id: to }));
+      this.emit('slot-copied', from, to);
+    });
+    if (to === this.slot) await this.load(to);
+  }
+
+  /**
+   * Delete a slot. If it is the active slot, in-memory data resets to defaults.
+   */
+  async deleteSlot(slot: string): Promise<void> {
+    if (slot === this.slot) {
+      this.cancelAutosave();
+      this.data = this.deepClone(this.defaults);
+      this.meta = this.createMeta(slot);
+    }
+
+    await this.enqueue(async () => {
+      await this.adapter.removeItem(this.dataKey(slot));
+      await this.adapter.removeItem(this.metaKey(slot));
+      this.emit('slot-deleted', slot);
+    });
+  }
+
+  /**
+   * Export current in-memory data as a JSON string (for debugging).
+   */
+  export(): string {
+    return JSON.stringify(this.data);
+  }
+
+  /**
+   * Cancel pending autosave and remove all listeners.
+   * Call flush() first if pending changes must be kept.
+   */
+  destroy(): void {
+    this.cancelAutosave();
+    this.removeAllListeners();
+  }
+
+  // ============================================
+  // PRIVATE HELPERS
+  // ============================================
+
+  private finishLoad(slot: string, data: T): T {
+    this.data = data;
+    this.emit('loaded', this.deepClone(this.data), slot);
+    return this.deepClone(this.data);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    // Keep the queue alive after a failed write; the caller still sees the rejection.
+    this.writeQueue = run.catch(() => undefined);
+    return run.catch((err) => {
+      const error = err instanceof Error ? err : new Error(String(err));
+      this.emit('error', error);
+      throw error;
+    });
+  }
+
+  /**
+   * Queue the pending autosave now. Failures are reported through the
+   * 'error' event and do not stop the caller.
+   */
+  private async flushPendingAutosave(): Promise<void> {
+    if (this.autosaveTimer === null) return;
+    await this.save().catch(() => undefined);
+  }
+
+  private cancelAutosave(): void {
+    if (this.autosaveTimer !== null) {
+      clearTimeout(this.autosaveTimer);
+      this.autosaveTimer = null;
+    }
+  }
+
+  private requireSlot(method: string): string {
+    if (this.slot === null) {
+      throw new Error(`SaveSlotSystem.${method}: no active slot — call load(slot) first`);
+    }
+    return this.slot;
+  }
+
+  private createMeta(slot: string): SaveSlotMetadata {
+    return { id: slot, timestamp: 0, playtime: 0, version: this.version };
+  }
+
+  private parseMeta(slot: string, raw: string | null): SaveSlotMetadata {
+    if (raw === null) return this.createMeta(slot);
+    try {
+      return { ...this.createMeta(slot), ...(JSON.parse(raw) as Partial<SaveSlotMetadata>), id: slot };
+    } catch {
+      return this.createMeta(slot);
+    }
+  }
+
+  private dataKey(slot: string): string {
+    return `${this.key}:slot:${slot}`;
+  }
+
+  private metaKey(slot: string): string {
+    return `${this.key}:meta:${slot}`;
+  }
+
+  private deepClone<V>(value: V): V {
+    return JSON.parse(JSON.stringify(value)) as V;
+  }
+}
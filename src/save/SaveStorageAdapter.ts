@@ -0,0 +1,199 @@
+/**
+ * Async key/value backend used by SaveSlotSystem.
+ *
+ * All methods return promises so slow or large backends (IndexedDB, native
+ * bridges, cloud saves) never block the frame.
+ */
+export interface SaveStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  /** List stored keys, optionally filtered by prefix. */
+  keys(prefix?: string): Promise<string[]>;
+}
+
+/**
+ * In-memory adapter. Data lives only as long as the instance does.
+ * Useful for tests and SSR/Node environments.
+ */
+export class MemoryStorageAdapter implements SaveStorageAdapter {
+  private store = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    return [...this.store.keys()].filter((k) => k.startsWith(prefix));
+  }
+}
+
+/**
+ * Adapter over a synchronous `Storage` object (localStorage by default).
+ * Quota errors surface as rejected promises.
+ */
+export class LocalStorageAdapter implements SaveStorageAdapter {
+  private storage: Storage;
+
+  constructor(storage?: Storage) {
+    if (storage) {
+      this.storage = storage;
+    } else if (typeof window !== 'undefined' && window.localStorage) {
+      this.storage = window.localStorage;
+    } else {
+      throw new Error('LocalStorageAdapter: localStorage is not available');
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const result: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null && key.startsWith(prefix)) result.push(key);
+    }
+    return result;
+  }
+}
+
+/**
+ * IndexedDB adapter configuration.
+ */
+export interface IndexedDBStorageConfig {
+  /** Database name (default: 'GameByteSaves') */
+  name?: string;
+  /** Object store name (default: 'saves') */
+  storeName?: string;
+}
+
+/**
+ * IndexedDB adapter. Not bound by the ~5MB localStorage quota and writes
+ * happen off the main thread's critical path.
+ *
+ * The database is opened lazily on first access.
+ */
+export class IndexedDBStorageAdapter implements SaveStorageAdapter {
+  private name: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(config: IndexedDBStorageConfig = {}) {
+    this.name = config.name ?? 'GameByteSaves';
+    this.storeName = config.storeName ?? 'saves';
+  }
+
+  /**
+   * Whether IndexedDB is available in the current environment.
+   */
+  static isSupported(): boolean {
+    try {
+      return typeof indexedDB !== 'undefined' && indexedDB !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const result = await this.request<string | undefined>('readonly', (store) => store.get(key));
+    return result ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  async keys(prefix = ''): Promise<string[]> {
+    const all = await this.request<IDBValidKey[]>('readonly', (store) => store.getAllKeys());
+    return all.map(String).filter((k) => k.startsWith(prefix));
+  }
+
+  /**
+   * Close the underlying database connection.
+   */
+  async close(): Promise<void> {
+    if (!this.dbPromise) return;
+    const db = await this.dbPromise;
+    db.close();
+    this.dbPromise = null;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    if (!IndexedDBStorageAdapter.isSupported()) {
+      return Promise.reject(new Error('IndexedDBStorageAdapter: IndexedDB is not available'));
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.name, 1);
+
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(new Error(`IndexedDBStorageAdapter: failed to open "${this.name}"`));
+      };
+
+      request.onsuccess = () => resolve(request.result);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          db.createObjectStore(this.storeName);
+        }
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private async request<R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ): Promise<R> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName], mode);
+      const request = action(transaction.objectStore(this.storeName));
+
+      transaction.oncomplete = () => resolve(request.result as R);
+      transaction.onerror = () => reject(request.error ?? new Error('IndexedDBStorageAdapter: transaction failed'));
+      transaction.onabort = () => reject(request.error ?? new Error('IndexedDBStorageAdapter: transaction aborted'));
+    });
+  }
+}
+
+/**
+ * Pick the best available adapter: IndexedDB, then localStorage, then memory.
+ */
+export function createDefaultStorageAdapter(): SaveStorageAdapter {
+  if (IndexedDBStorageAdapter.isSupported()) {
+    return new IndexedDBStorageAdapter();
+  }
+  if (typeof window !== 'undefined' && window.localStorage) {
+    return new LocalStorageAdapter(window.localStorage);
+  }
+  return new MemoryStorageAdapter();
+}
@@ -1,4 +1,6 @@
 import { EventEmitter } from 'eventemitter3';
+import { runMigrations, SaveMigrations } from './migrations.js';
+import { crc32, hmacSha256 } from './integrity.js';
 
 export interface SaveConfig<T extends Record<string, any>> {
   /** Unique key for localStorage (default: 'gamebyte-save') */
@@ -8,28 +10,54 @@ export interface SaveConfig<T extends Record<string, any>> {
   /** Default save data */
   defaults: T;
   /** Migration functions: { fromVersion: migrateFn } */
-  migrations?: Record<number, (oldData: any) => any>;
+  migrations?: SaveMigrations;
   /**
    * Custom storage backend (for testing or custom persistence).
    * If not provided, uses localStorage with in-memory fallback.
    */
   storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+  /**
+   * Secret used to sign saves with HMAC-SHA256. When set, saves edited
+   * outside the game fail verification and are treated as corrupted.
+   * Only pre-integrity saves (no checksum) load unsigned; they are signed
+   * as soon as they are loaded.
+   */
+  hmacKey?: string;
 }
 
+/** Why a stored copy failed verification */
+export type SaveCorruptionReason = 'parse' | 'checksum' | 'signature';
+
+/** Which stored copy a save was recovered from */
+export type SaveRecoverySource = 'temp' | 'backup';
+
 export interface SaveSystemEvents {
   'saved': (data: any) => void;
   'loaded': (data: any) => void;
   'migrated': (fromVersion: number, toVersion: number) => void;
   'error': (error: Error) => void;
   'reset': () => void;
+  /** The primary copy failed verification; recovery is attempted next */
+  'corrupted': (reason: SaveCorruptionReason) => void;
+  /** Data was restored from the temp or backup copy */
+  'recovered': (source: SaveRecoverySource) => void;
 }
 
 /** Serialized storage format */
 interface StorageEnvelope {
   version: number;
   data: any;
+  /** CRC32 of the serialized { version, data } payload */
+  checksum?: string;
+  /** HMAC-SHA256 of the same payload, when an hmacKey is configured */
+  signature?: string;
 }
 
+/** Suffix for the in-flight copy written before the swap */
+const TEMP_SUFFIX = '.tmp';
+/** Suffix for the last known-good copy */
+const BACKUP_SUFFIX = '.bak';
+
 /** Simple in-memory storage fallback for SSR/Node environments */
 class MemoryStorage {
   private store = new Map<string, string>();
@@ -63,7 +91,9 @@ const globalMemoryStorage = new MemoryStorage();
  * SaveSystem - Generic typed save/load system with versioned migrations.
  *
  * Supports localStorage with in-memory fallback for SSR/Node environments.
- * Uses a { version, data } envelope for schema versioning.
+ * Uses a { version, data, checksum } envelope for schema versioning and
+ * torn-write detection, with a temp/backup copy pair for corruption recovery.
+ * Pass `hmacKey` to additionally sign saves against casual editing.
  *
  * @example
  * ```typescript
@@ -86,9 +116,12 @@ export class SaveSystem<T extends Record<string, any>> extends EventEmitter<Save
   private key: string;
   private version: number;
   private defaults: T;
-  private migrations: Record<number, (oldData: any) => any>;
+  private migrations: SaveMigrations;
   private data: T;
   private storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | MemoryStorage;
+  private hmacKey: string | null;
+  /** Last envelope this instance wrote or verified, so save() need not re-verify it */
+  private lastWritten: string | null = null;
 
   constructor(config: SaveConfig<T>) {
     super();
@@ -97,6 +130,7 @@ export class SaveSystem<T extends Record<string, any>> extends EventEmitter<Save
     this.version = config.version;
     this.defaults = this.deepClone(config.defaults);
     this.migrations = config.migrations ?? {};
+    this.hmacKey = config.hmacKey ?? null;
 
     // SSR/Node safety: check for localStorage availability
     if (config.storage) {
@@ -122,8 +156,11 @@ export class SaveSystem<T extends Record<string, any>> extends EventEmitter<Save
 
   /**
    * Load save data from storage.
+   * Verifies the checksum (and signature, if an hmacKey is set). When the
+   * primary copy is corrupted, recovers from the temp or backup copy instead
+   * of resetting, emitting 'corrupted' and then 'recovered'.
    * Runs migration chain if version mismatch is detected.
-   * Falls back to defaults on parse errors.
+   * Falls back to defaults only when no stored copy is usable.
    */
   load(): T {
     const raw = this.storage.getItem(this.key);
@@ -134,15 +171,23 @@ export class SaveSystem<T extends Record<string, any>> extends EventEmitter<Save
       return this.deepClone(this.data);
     }
 
-    let envelope: StorageEnvelope;
-    try {
-      envelope = JSON.parse(raw) as StorageEnvelope;
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error(String(err));
-      this.emit('error', error);
-      this.data = this.deepClone(this.defaults);
-      this.emit('loaded', this.deepClone(this.data));
-      return this.deepClone(this.data);
+    let envelope = this.readEnvelope(raw);
+
+    if (typeof envelope === 'string') {
+      this.emit('corrupted', envelope);
+      const recovered = this.recover();
+
+      if (!recovered) {
+        this.emit('error', new Error(`SaveSystem: save "${this.key}" is corrupted (${envelope}) and no backup is usable`));
+        this.data = this.deepClone(this.defaults);
+        this.emit('loaded', this.deepClone(this.data));
+        return this.deepClone(this.data);
+      }
+
+      envelope = recovered.envelope;
+      // Restore the primary copy so the next load doesn't go through recovery again
+      this.storage.setItem(this.key, recovered.raw);
+      this.emit('recovered', recovered.source);
     }
 
     let loadedData = envelope.data;
@@ -150,18 +195,14 @@ export class SaveSystem<T extends Record<string, any>> extends EventEmitter<Save
 
     if (storedVersion < this.version) {
       // Run migration chain: storedVersion → storedVersion+1 → ... → this.version
-      for (let v = storedVersion; v < this.version; v++) {
-        if (this.migrations[v]) {
-          try {
-            loadedData = this.migrations[v](loadedData);
-            this.emit('migrated', v, v + 1);
-          } catch (error) {
-            this.emit('error', error instanceof Error ? error : new Error(String(error)));
-            this.data = this.deepClone(this.defaults);
-            this.emit('loaded', this.deepClone(this.data));
-            return this.deepClone(this.data);
-          }
-        }
+      try {
+        loadedData = runMigrations(loadedData, storedVersion, this.version, this.migrations,
+          (from, to) => this.emit('migrated', from, to));
+      } catch (error) {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        this.data = this.deepClone(this.defaults);
+        this.emit('loaded', this.deepClone(this.data));
+        return this.deepClone(this.data);
       }
     } else if (storedVersion > this.version) {
       console.warn(
@@ -170,17 +211,36 @@ export class SaveSystem<T extends Record<string, any>> extends EventEmitter<Save
     }
 
     this.data = { ...this.deepClone(this.defaults), ...loadedData };
+    if (this.hmacKey !== null && envelope.signature === undefined) {
+      // Sign a pre-integrity save right away so it can't stay unsigned
+      this.storage.setItem(this.key, this.serialize(this.data));
+    }
+    this.lastWritten = this.storage.getItem(this.key);
     this.emit('loaded', this.deepClone(this.data));
     return this.deepClone(this.data);
   }
 
   /**
    * Merge partial data into current save and persist to storage.
+   *
+   * Writes are atomic with respect to torn writes: the new envelope goes to a
+   * temp key first, the current primary is kept as a backup if it verifies,
+   * and only then is the primary overwritten.
    */
   save(data: Partial<T>): void {
     this.data = { ...this.data, ...data };
-    const envelope: StorageEnvelope = { version: this.version, data: this.data };
-    this.storage.setItem(this.key, JSON.stringify(envelope));
+    const serialized = this.serialize(this.data);
+
+    this.storage.setItem(this.key + TEMP_SUFFIX, serialized);
+
+    const previous = this.storage.getItem(this.key);
+    if (previous !== null && (previous === this.lastWritten || typeof this.readEnvelope(previous) !== 'string')) {
+      this.storage.setItem(this.key + BACKUP_SUFFIX, previous);
+    }
+
+    this.storage.setItem(this.key, serialized);
+    this.storage.removeItem(this.key + TEMP_SUFFIX);
+    this.lastWritten = serialized;
     this.emit('saved', this.deepClone(this.data));
   }
 
@@ -206,11 +266,21 @@ export class SaveSystem<T extends Record<string, any>> extends EventEmitter<Save
     return this.storage.getItem(this.key) !== null;
   }
 
+  /**
+   * Whether a backup copy of a previous save exists.
+   */
+  get hasBackup(): boolean {
+    return this.storage.getItem(this.key + BACKUP_SUFFIX) !== null;
+  }
+
   /**
    * Delete the save from storage and reset in-memory data to defaults.
    */
   reset(): void {
     this.storage.removeItem(this.key);
+    this.storage.removeItem(this.key + TEMP_SUFFIX);
+    this.storage.removeItem(this.key + BACKUP_SUFFIX);
+    this.lastWritten = null;
     this.data = this.deepClone(this.defaults);
     this.emit('reset');
   }
@@ -226,6 +296,66 @@ export class SaveSystem<T extends Record<string, any>> extends EventEmitter<Save
   // PRIVATE HELPERS
   // ============================================
 
+  private serialize(data: T): string {
+    const payload = JSON.stringify({ version: this.version, data });
+    const envelope: StorageEnvelope = { version: this.version, data, checksum: crc32(payload) };
+    if (this.hmacKey !== null) {
+      envelope.signature = hmacSha256(this.hmacKey, payload);
+    }
+    return JSON.stringify(envelope);
+  }
+
+  /**
+   * Parse and verify a stored copy. Returns the envelope, or the reason it
+   * failed verification. Envelopes written before checksums existed carry no
+   * checksum and are accepted as-is, even with an hmacKey (load() signs
+   * them). Any other envelope must carry a valid signature once an hmacKey
+   * is set.
+   */
+  private readEnvelope(raw: string): StorageEnvelope | SaveCorruptionReason {
+    let envelope: StorageEnvelope;
+    try {
+      envelope = JSON.parse(raw) as StorageEnvelope;
+    } catch {
+      return 'parse';
+    }
+    if (envelope === null || typeof envelope !== 'object') return 'parse';
+
+    const payload = JSON.stringify({ version: envelope.version, data: envelope.data });
+
+    if (envelope.checksum !== undefined && envelope.checksum !== crc32(payload)) {
+      return 'checksum';
+    }
+    if (this.hmacKey !== null) {
+      const legacy = envelope.checksum === undefined && envelope.signature === undefined;
+      if (!legacy && envelope.signature !== hmacSha256(this.hmacKey, payload)) {
+        return 'signature';
+      }
+    }
+    return envelope;
+  }
+
+  /**
+   * Find the newest usable copy: the temp copy (a write that completed but
+   * never swapped) first, then the backup.
+   */
+  private recover(): { envelope: StorageEnvelope; raw: string; source: SaveRecoverySource } | null {
+    const candidates: Array<[SaveRecoverySource, string]> = [
+      ['temp', this.key + TEMP_SUFFIX],
+      ['backup', this.key + BACKUP_SUFFIX],
+    ];
+
+    for (const [source, key] of candidates) {
+      const raw = this.storage.getItem(key);
+      if (raw === null) continue;
+      const envelope = this.readEnvelope(raw);
+      if (typeof envelope !== 'string') {
+        return { envelope, raw, source };
+      }
+    }
+    return null;
+  }
+
   private deepClone<V>(value: V): V {
     return JSON.parse(JSON.stringify(value)) as V;
   }
@@ -1,2 +1,24 @@
 export { SaveSystem } from './SaveSystem.js';
-export type { SaveConfig, SaveSystemEvents } from './SaveSystem.js';
+export type {
+  SaveConfig,
+  SaveSystemEvents,
+  SaveCorruptionReason,
+  SaveRecoverySource,
+} from './SaveSystem.js';
+export { SaveSlotSystem } from './SaveSlotSystem.js';
+export type {
+  SaveSlotConfig,
+  SaveSlotMetadata,
+  SaveSlotMetadataUpdate,
+  SaveSlotSystemEvents,
+} from './SaveSlotSystem.js';
+export {
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  IndexedDBStorageAdapter,
+  createDefaultStorageAdapter,
+} from './SaveStorageAdapter.js';
+export type { SaveStorageAdapter, IndexedDBStorageConfig } from './SaveStorageAdapter.js';
+export { runMigrations } from './migrations.js';
+export type { SaveMigrations } from './migrations.js';
+export { crc32, sha256, hmacSha256 } from './integrity.js';
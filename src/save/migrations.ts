@@ -0,0 +1,28 @@
+/** Migration functions keyed by the version they migrate *from*. */
+export type SaveMigrations = Record<number, (oldData: any) => any>;
+
+/**
+ * Run the migration chain storedVersion → storedVersion+1 → ... → targetVersion.
+ *
+ * Shared by SaveSystem and SaveSlotSystem so both apply the same `migrations`
+ * map identically. Missing steps are skipped; a throwing step propagates to the
+ * caller, which decides how to recover.
+ *
+ * @param onStep - Called after each successful step with (from, to).
+ */
+export function runMigrations(
+  data: any,
+  storedVersion: number,
+  targetVersion: number,
+  migrations: SaveMigrations,
+  onStep?: (fromVersion: number, toVersion: number) => void
+): any {
+  let migrated = data;
+  for (let v = storedVersion; v < targetVersion; v++) {
+    if (migrations[v]) {
+      migrated = migrations[v](migrated);
+      onStep?.(v, v + 1);
+    }
+  }
+  return migrated;
+}
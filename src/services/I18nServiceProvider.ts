@@ -0,0 +1,35 @@
+import { AbstractServiceProvider } from '../contracts/ServiceProvider.js';
+import { GameByte } from '../core/GameByte.js';
+import { I18n, I18nConfig } from '../i18n/I18n.js';
+
+/**
+ * Service provider for localization.
+ *
+ * Registers `'i18n'` and installs it as the shared instance that
+ * `textKey`-aware UI components resolve through. String table sources are
+ * loaded with the `'assets'` service unless `config.assets` is given.
+ */
+export class I18nServiceProvider extends AbstractServiceProvider {
+  private config: I18nConfig;
+
+  constructor(config: I18nConfig = {}) {
+    super();
+    this.config = config;
+  }
+
+  register(app: GameByte): void {
+    app.singleton('i18n', () => {
+      const assets = this.config.assets
+        ?? (app.getContainer().bound('assets') ? app.make('assets') : undefined);
+      return new I18n({ ...this.config, assets });
+    });
+  }
+
+  boot(app: GameByte): void {
+    I18n.setInstance(app.make<I18n>('i18n'));
+  }
+
+  provides(): string[] {
+    return ['i18n'];
+  }
+}
@@ -0,0 +1,26 @@
+import { AbstractServiceProvider } from '../contracts/ServiceProvider.js';
+import { GameByte } from '../core/GameByte.js';
+import { Random } from '../random/Random.js';
+
+/**
+ * Service provider for the shared seedable Random service.
+ *
+ * Pass a seed to make the whole session reproducible, or reseed later
+ * (e.g. `app.make<Random>('random').reseed(dailySeed)`).
+ */
+export class RandomServiceProvider extends AbstractServiceProvider {
+  private seed: number | string | undefined;
+
+  constructor(seed?: number | string) {
+    super();
+    this.seed = seed;
+  }
+
+  register(app: GameByte): void {
+    app.singleton('random', () => new Random(this.seed));
+  }
+
+  provides(): string[] {
+    return ['random'];
+  }
+}
@@ -0,0 +1,46 @@
+import { AbstractServiceProvider } from '../contracts/ServiceProvider.js';
+import { GameByte } from '../core/GameByte.js';
+import type { ITickSystem } from '../contracts/Tick.js';
+import { SpatialIndex, SpatialIndexConfig } from '../spatial/SpatialIndex.js';
+
+export interface SpatialServiceConfig extends SpatialIndexConfig {
+  /**
+   * Install the index as SpatialIndex.getDefault(), so every GameEntity
+   * created afterwards registers itself. Registered entities stay
+   * referenced by the index until destroy() is called.
+   * @default false
+   */
+  autoRegisterEntities?: boolean;
+}
+
+/**
+ * Service provider for the shared spatial index.
+ *
+ * Registers `'spatial'`. With `autoRegisterEntities`, it also becomes the
+ * default index GameEntities join on construction. When `'tick'` is
+ * bound, collision pairs are checked every frame.
+ */
+export class SpatialServiceProvider extends AbstractServiceProvider {
+  private config: SpatialServiceConfig;
+
+  constructor(config: SpatialServiceConfig = {}) {
+    super();
+    this.config = config;
+  }
+
+  register(app: GameByte): void {
+    app.singleton('spatial', () => new SpatialIndex(this.config));
+  }
+
+  boot(app: GameByte): void {
+    const index = app.make<SpatialIndex>('spatial');
+    if (this.config.autoRegisterEntities) SpatialIndex.setDefault(index);
+    if (app.getContainer().bound('tick')) {
+      index.attach(app.make<ITickSystem>('tick'));
+    }
+  }
+
+  provides(): string[] {
+    return ['spatial'];
+  }
+}
@@ -0,0 +1,349 @@
+import type {
+  AnimationData,
+  BoneData,
+  BoneTimelineProperty,
+  CurveData,
+  RegionAttachmentData,
+  SkeletonColor,
+  SkeletonData,
+  SkinData,
+  SlotData,
+} from './SkeletonData.js';
+
+/** Posed bone: local transform plus the world transform computed from it */
+export interface Bone {
+  data: BoneData;
+  parent: Bone | null;
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  shearX: number;
+  shearY: number;
+  /** World matrix [a b; c d] and translation, in Spine's y-up space */
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  worldX: number;
+  worldY: number;
+}
+
+export interface Slot {
+  data: SlotData;
+  bone: Bone;
+  color: SkeletonColor;
+  attachmentName: string | null;
+  /** Attachment resolved through the current skin, then the default skin */
+  attachment: RegionAttachmentData | null;
+}
+
+/** One animation sampled into the pose */
+export interface SkeletonPoseLayer {
+  animation: AnimationData;
+  time: number;
+  /** 0-1; weights summing past 1 are normalized */
+  weight: number;
+}
+
+const PROPERTIES: BoneTimelineProperty[] = ['rotate', 'x', 'y', 'scaleX', 'scaleY'];
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Skeleton - The posable instance of SkeletonData.
+ *
+ * Holds bone and slot state, resolves attachments through skins, blends
+ * animations into the pose and computes world transforms. Rendering lives
+ * in SkeletonAnimation; this class has no display dependencies.
+ */
+export class Skeleton {
+  readonly data: SkeletonData;
+  readonly bones: Bone[];
+  readonly slots: Slot[];
+  /** Root position and scale, applied to the root bone */
+  x: number = 0;
+  y: number = 0;
+  scaleX: number = 1;
+  scaleY: number = 1;
+
+  private _skin: SkinData | null = null;
+  private readonly _defaultSkin: SkinData | null;
+  private readonly _boneSums: Float64Array;
+  private readonly _boneWeights: Float64Array;
+  private readonly _colorSums: Float64Array;
+  private readonly _colorWeights: Float64Array;
+
+  constructor(data: SkeletonData) {
+    this.data = data;
+    this.bones = [];
+    for (const boneData of data.bones) {
+      this.bones.push({
+        data: boneData,
+        parent: boneData.parent >= 0 ? this.bones[boneData.parent] : null,
+        x: 0, y: 0, rotation: 0, scaleX: 1, scaleY: 1, shearX: 0, shearY: 0,
+        a: 1, b: 0, c: 0, d: 1, worldX: 0, worldY: 0,
+      });
+    }
+    this.slots = data.slots.map((slotData) => ({
+      data: slotData,
+      bone: this.bones[slotData.bone],
+      color: { ...slotData.color },
+      attachmentName: null,
+      attachment: null,
+    }));
+    this._defaultSkin = data.skins.find((s) => s.name === 'default') ?? null;
+    this._boneSums = new Float64Array(this.bones.length * PROPERTIES.length);
+    this._boneWeights = new Float64Array(this.bones.length * PROPERTIES.length);
+    this._colorSums = new Float64Array(this.slots.length * 4);
+    this._colorWeights = new Float64Array(this.slots.length);
+    this.setToSetupPose();
+    this.updateWorldTransform();
+  }
+
+  // ============================================
+  // SKINS & ATTACHMENTS
+  // ============================================
+
+  get skin(): string | null {
+    return this._skin?.name ?? null;
+  }
+
+  get skinNames(): string[] {
+    return this.data.skins.map((s) => s.name);
+  }
+
+  /**
+   * Switch skin. Every slot keeps its attachment name, now resolved through
+   * the new skin first and the default skin second. Pass null to use only
+   * the default skin.
+   */
+  setSkin(name: string | null): void {
+    if (name === null) {
+      this._skin = null;
+    } else {
+      const skin = this.data.skins.find((s) => s.name === name);
+      if (!skin) throw new Error(`Skeleton: unknown skin "${name}"`);
+      this._skin = skin;
+    }
+    for (const slot of this.slots) slot.attachment = this.getAttachment(slot.data.name, slot.attachmentName);
+  }
+
+  /** Look an attachment up in the current skin, then the default skin. */
+  getAttachment(slotName: string, attachmentName: string | null): RegionAttachmentData | null {
+    if (attachmentName === null) return null;
+    return this._skin?.attachments[slotName]?.[attachmentName]
+      ?? this._defaultSkin?.attachments[slotName]?.[attachmentName]
+      ?? null;
+  }
+
+  /**
+   * Show an attachment in a slot (null hides the slot). Animations that key
+   * the slot's attachment override it while they play.
+   */
+  setAttachment(slotName: string, attachmentName: string | null): void {
+    const slot = this.findSlot(slotName);
+    if (!slot) throw new Error(`Skeleton: unknown slot "${slotName}"`);
+    if (attachmentName !== null && !this.getAttachment(slotName, attachmentName)) {
+      throw new Error(`Skeleton: slot "${slotName}" has no attachment "${attachmentName}"`);
+    }
+    this._setAttachmentName(slot, attachmentName);
+  }
+
+  findBone(name: string): Bone | null {
+    return this.bones.find((b) => b.data.name === name) ?? null;
+  }
+
+  findSlot(name: string): Slot | null {
+    return this.slots.find((s) => s.data.name === name) ?? null;
+  }
+
+  // ============================================
+  // POSE
+  // ============================================
+
+  setToSetupPose(): void {
+    this.setBonesToSetupPose();
+    for (const slot of this.slots) {
+      Object.assign(slot.color, slot.data.color);
+      this._setAttachmentName(slot, slot.data.attachment);
+    }
+  }
+
+  setBonesToSetupPose(): void {
+    for (const bone of this.bones) {
+      const { x, y, rotation, scaleX, scaleY, shearX, shearY } = bone.data;
+      Object.assign(bone, { x, y, rotation, scaleX, scaleY, shearX, shearY });
+    }
+  }
+
+  /**
+   * Pose the skeleton from weighted animation layers. Bones and slot colors
+   * start from the setup pose; where the layer weights sum below 1 the
+   * setup pose shows through. Attachment keys come from the heaviest layer
+   * that keys the slot, and leave unkeyed slots as they are.
+   */
+  applyAnimations(layers: readonly SkeletonPoseLayer[]): void {
+    this.setBonesToSetupPose();
+    for (const slot of this.slots) Object.assign(slot.color, slot.data.color);
+
+    const boneSums = this._boneSums.fill(0);
+    const boneWeights = this._boneWeights.fill(0);
+    const colorSums = this._colorSums.fill(0);
+    const colorWeights = this._colorWeights.fill(0);
+    const attachmentWeights = new Map<number, number>();
+
+    for (const { animation, time, weight } of layers) {
+      if (weight <= 0) continue;
+
+      for (const timeline of animation.bones) {
+        const bone = this.bones[timeline.bone];
+        const value = sampleTimeline(timeline.times, timeline.values, timeline.curves, time);
+        const i = timeline.bone * PROPERTIES.length + PROPERTIES.indexOf(timeline.property);
+        boneSums[i] += weight * applyProperty(bone.data, timeline.property, value);
+        boneWeights[i] += weight;
+      }
+
+      for (const timeline of animation.colors) {
+        const color = sampleColor(timeline.times, timeline.colors, timeline.curves, time);
+        const i = timeline.slot * 4;
+        colorSums[i] += weight * color.r;
+        colorSums[i + 1] += weight * color.g;
+        colorSums[i + 2] += weight * color.b;
+        colorSums[i + 3] += weight * color.a;
+        colorWeights[timeline.slot] += weight;
+      }
+
+      for (const timeline of animation.attachments) {
+        if ((attachmentWeights.get(timeline.slot) ?? 0) > weight) continue;
+        attachmentWeights.set(timeline.slot, weight);
+        const slot = this.slots[timeline.slot];
+        const key = findKey(timeline.times, time);
+        this._setAttachmentName(slot, key < 0 ? slot.data.attachment : timeline.names[key]);
+      }
+    }
+
+    for (let b = 0; b < this.bones.length; b++) {
+      const bone = this.bones[b];
+      for (let p = 0; p < PROPERTIES.length; p++) {
+        const i = b * PROPERTIES.length + p;
+        const weight = boneWeights[i];
+        if (weight === 0) continue;
+        const property = PROPERTIES[p];
+        const setup = bone[property === 'rotate' ? 'rotation' : property];
+        const value = weight >= 1 ? boneSums[i] / weight : setup * (1 - weight) + boneSums[i];
+        bone[property === 'rotate' ? 'rotation' : property] = value;
+      }
+    }
+
+    for (let s = 0; s < this.slots.length; s++) {
+      const weight = colorWeights[s];
+      if (weight === 0) continue;
+      const color = this.slots[s].color;
+      const mix = (setup: number, sum: number) => (weight >= 1 ? sum / weight : setup * (1 - weight) + sum);
+      color.r = mix(color.r, colorSums[s * 4]);
+      color.g = mix(color.g, colorSums[s * 4 + 1]);
+      color.b = mix(color.b, colorSums[s * 4 + 2]);
+      color.a = mix(color.a, colorSums[s * 4 + 3]);
+    }
+  }
+
+  /** Compute world transforms from the local pose (normal inheritance). */
+  updateWorldTransform(): void {
+    for (const bone of this.bones) {
+      const rotationY = bone.rotation + 90 + bone.shearY;
+      const la = Math.cos((bone.rotation + bone.shearX) * DEG_TO_RAD) * bone.scaleX;
+      const lb = Math.cos(rotationY * DEG_TO_RAD) * bone.scaleY;
+      const lc = Math.sin((bone.rotation + bone.shearX) * DEG_TO_RAD) * bone.scaleX;
+      const ld = Math.sin(rotationY * DEG_TO_RAD) * bone.scaleY;
+
+      const parent = bone.parent;
+      if (!parent) {
+        bone.a = la * this.scaleX;
+        bone.b = lb * this.scaleX;
+        bone.c = lc * this.scaleY;
+        bone.d = ld * this.scaleY;
+        bone.worldX = bone.x * this.scaleX + this.x;
+        bone.worldY = bone.y * this.scaleY + this.y;
+        continue;
+      }
+      bone.worldX = parent.a * bone.x + parent.b * bone.y + parent.worldX;
+      bone.worldY = parent.c * bone.x + parent.d * bone.y + parent.worldY;
+      bone.a = parent.a * la + parent.b * lc;
+      bone.b = parent.a * lb + parent.b * ld;
+      bone.c = parent.c * la + parent.d * lc;
+      bone.d = parent.c * lb + parent.d * ld;
+    }
+  }
+
+  private _setAttachmentName(slot: Slot, name: string | null): void {
+    slot.attachmentName = name;
+    slot.attachment = this.getAttachment(slot.data.name, name);
+  }
+}
+
+/** Absolute local value for a timeline value (offsets for rotate/translate, multipliers for scale) */
+function applyProperty(setup: BoneData, property: BoneTimelineProperty, value: number): number {
+  switch (property) {
+    case 'rotate': return setup.rotation + value;
+    case 'x': return setup.x + value;
+    case 'y': return setup.y + value;
+    case 'scaleX': return setup.scaleX * value;
+    case 'scaleY': return setup.scaleY * value;
+  }
+}
+
+/** Index of the last key at or before `time`, -1 before the first key */
+function findKey(times: number[], time: number): number {
+  let i = -1;
+  while (i + 1 < times.length && times[i + 1] <= time) i++;
+  return i;
+}
+
+/** Interpolation factor from key `i` to key `i + 1` */
+function keyProgress(times: number[], curves: CurveData[], i: number, time: number): number {
+  const curve = curves[i];
+  if (curve === 'stepped') return 0;
+  const span = times[i + 1] - times[i];
+  const t = span > 0 ? (time - times[i]) / span : 1;
+  return curve === 'linear' ? t : bezier(curve, t);
+}
+
+function sampleTimeline(times: number[], values: number[], curves: CurveData[], time: number): number {
+  const i = findKey(times, time);
+  if (i < 0) return values[0];
+  if (i === times.length - 1) return values[i];
+  return values[i] + (values[i + 1] - values[i]) * keyProgress(times, curves, i, time);
+}
+
+function sampleColor(times: number[], colors: SkeletonColor[], curves: CurveData[], time: number): SkeletonColor {
+  const i = findKey(times, time);
+  if (i < 0) return colors[0];
+  if (i === times.length - 1) return colors[i];
+  const t = keyProgress(times, curves, i, time);
+  const from = colors[i];
+  const to = colors[i + 1];
+  return {
+    r: from.r + (to.r - from.r) * t,
+    g: from.g + (to.g - from.g) * t,
+    b: from.b + (to.b - from.b) * t,
+    a: from.a + (to.a - from.a) * t,
+  };
+}
+
+/** Evaluate a normalized cubic bezier (0,0)-(cx1,cy1)-(cx2,cy2)-(1,1) at x = t */
+function bezier([cx1, cy1, cx2, cy2]: [number, number, number, number], t: number): number {
+  const at = (p1: number, p2: number, s: number) => {
+    const u = 1 - s;
+    return 3 * u * u * s * p1 + 3 * u * s * s * p2 + s * s * s;
+  };
+  // x(s) is monotonic for control points inside [0, 1]; bisect for s
+  let lo = 0;
+  let hi = 1;
+  for (let n = 0; n < 20; n++) {
+    const mid = (lo + hi) / 2;
+    if (at(cx1, cx2, mid) < t) lo = mid;
+    else hi = mid;
+  }
+  return at(cy1, cy2, (lo + hi) / 2);
+}
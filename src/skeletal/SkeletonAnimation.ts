@@ -0,0 +1,527 @@
+import * as PIXI from 'pixi.js';
+import { EventEmitter } from 'eventemitter3';
+import { Logger } from '../utils/Logger.js';
+import type { TextureAtlas } from '../sprites/TextureAtlas.js';
+import type { AnimationData, SkeletonEvent, SkeletonData } from './SkeletonData.js';
+import { Skeleton } from './Skeleton.js';
+
+/** Parsed skeleton plus the atlas pages its attachments are cut from */
+export interface SkeletonAsset {
+  data: SkeletonData;
+  atlases: TextureAtlas[];
+}
+
+export interface SkeletonAnimationConfig {
+  /** Skin to start with (default: only the default skin) */
+  skin?: string;
+  /** Default transition duration in seconds (default: 0.2) */
+  defaultTransitionDuration?: number;
+  /** Global time scale (default: 1) */
+  timeScale?: number;
+  /** Follow SkeletonAnimation.timeScale (hitstop, slow-mo) (default: true) */
+  useTimeScale?: boolean;
+  /** Animation to start playing immediately (looping) */
+  autoPlay?: string;
+}
+
+export interface SkeletonPlayOptions {
+  /** Loop the animation (default: true) */
+  loop?: boolean;
+  /** Number of loops before 'finished' when looping (default: Infinity) */
+  repetitions?: number;
+  /** Time scale for this animation (default: 1) */
+  timeScale?: number;
+  /** Start time offset in seconds (default: 0) */
+  startAt?: number;
+  /** Crossfade from current animation (default: false) */
+  crossFade?: boolean;
+  /** Crossfade duration in seconds (default: config setting) */
+  crossFadeDuration?: number;
+  /** Weight of the animation 0-1 (default: 1) */
+  weight?: number;
+}
+
+export interface SkeletonAnimationEvents {
+  /** Fired when animation starts playing */
+  play: [name: string];
+  /** Fired when animation is paused */
+  pause: [name: string];
+  /** Fired when animation finishes (non-looping, or out of repetitions) */
+  finished: [name: string];
+  /** Fired when animation loops */
+  loop: [name: string];
+  /** Fired when crossfade completes */
+  crossfadeComplete: [from: string, to: string];
+  /** Fired when playback passes an event key */
+  event: [name: string, animation: string, event: SkeletonEvent];
+}
+
+interface TrackEntry {
+  animation: AnimationData;
+  time: number;
+  /** Events up to this time have fired in the current cycle */
+  eventTime: number;
+  timeScale: number;
+  weight: number;
+  loop: boolean;
+  repetitions: number;
+  cycle: number;
+  active: boolean;
+  paused: boolean;
+  finished: boolean;
+  /** Crossfade multiplier on weight */
+  fade: number;
+  fadeFrom: number;
+  fadeTo: number;
+  fadeElapsed: number;
+  fadeDuration: number;
+  /** Entry this one fades out in favour of */
+  fadingInto: TrackEntry | null;
+}
+
+/**
+ * SkeletonAnimation - Spine skeleton display with the AnimationController API.
+ *
+ * Renders region attachments as Pixi sprites in slot draw order, plays and
+ * crossfades animations, switches skins and swaps attachments. The playback
+ * surface (play, crossFadeTo, setTimeScale, setWeight, pause/resume/stop
+ * and the play/finished/loop/crossfadeComplete events) matches the 3D
+ * AnimationController, so 2D and 3D characters are driven the same way.
+ * Unlike the 3D controller, play() without crossFade replaces the current
+ * animation, and finished animations hold their last pose.
+ *
+ * @example
+ * ```typescript
+ * const hero = await assets.load<SkeletonAsset>({ id: 'hero', type: AssetType.SKELETON, src: 'spine/hero.json' });
+ * const spine = new SkeletonAnimation(hero, { skin: 'knight', autoPlay: 'idle' });
+ * stage.addChild(spine.view);
+ *
+ * spine.crossFadeTo('run', 0.2);
+ * spine.on('event', (name) => name === 'footstep' && audio.play('step'));
+ * spine.setAttachment('weapon', 'axe');
+ *
+ * // Update in game loop
+ * spine.update(deltaTime);
+ * ```
+ */
+export class SkeletonAnimation extends EventEmitter<SkeletonAnimationEvents> {
+  /**
+   * Shared time scale applied to every skeleton with `useTimeScale`.
+   * Juice sets this to its TimeScale on first use.
+   */
+  static timeScale: { apply: (dt: number) => number } | null = null;
+
+  /** Follow SkeletonAnimation.timeScale */
+  useTimeScale: boolean;
+
+  readonly skeleton: Skeleton;
+  /** Container holding the slot sprites; y points down as usual in Pixi */
+  readonly view: PIXI.Container;
+
+  private readonly atlases: TextureAtlas[];
+  private readonly entries = new Map<string, TrackEntry>();
+  private readonly sprites: PIXI.Sprite[];
+  private readonly textures = new Map<string, PIXI.Texture | null>();
+  /** Playing entries, oldest first (fading-out entries before the current one) */
+  private active: TrackEntry[] = [];
+  private current: TrackEntry | null = null;
+  private globalTimeScale: number;
+  private readonly defaultTransitionDuration: number;
+
+  constructor(asset: SkeletonAsset, config: SkeletonAnimationConfig = {}) {
+    super();
+    this.atlases = asset.atlases;
+    this.skeleton = new Skeleton(asset.data);
+    this.globalTimeScale = config.timeScale ?? 1;
+    this.defaultTransitionDuration = config.defaultTransitionDuration ?? 0.2;
+    this.useTimeScale = config.useTimeScale ?? true;
+
+    for (const animation of asset.data.animations) {
+      this.entries.set(animation.name, {
+        animation,
+        time: 0,
+        eventTime: 0,
+        timeScale: 1,
+        weight: 1,
+        loop: true,
+        repetitions: Infinity,
+        cycle: 0,
+        active: false,
+        paused: false,
+        finished: false,
+        fade: 1,
+        fadeFrom: 1,
+        fadeTo: 1,
+        fadeElapsed: 0,
+        fadeDuration: 0,
+        fadingInto: null,
+      });
+    }
+
+    this.view = new PIXI.Container();
+    this.sprites = this.skeleton.slots.map(() => {
+      const sprite = new PIXI.Sprite();
+      sprite.anchor.set(0.5);
+      this.view.addChild(sprite);
+      return sprite;
+    });
+
+    if (config.skin) this.skeleton.setSkin(config.skin);
+    if (config.autoPlay) this.play(config.autoPlay);
+    this.syncView();
+  }
+
+  // ============================================
+  // ANIMATIONS
+  // ============================================
+
+  /**
+   * Get all animation names
+   */
+  getAnimationNames(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Check if an animation exists
+   */
+  hasAnimation(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Get animation duration in seconds
+   */
+  getDuration(name: string): number {
+    return this.entries.get(name)?.animation.duration ?? 0;
+  }
+
+  /**
+   * Play an animation by name. Returns false for unknown animations.
+   */
+  play(name: string, options: SkeletonPlayOptions = {}): boolean {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      Logger.warn('Animation', `Animation "${name}" not found`);
+      return false;
+    }
+
+    entry.loop = options.loop ?? true;
+    entry.repetitions = options.repetitions ?? Infinity;
+    if (options.timeScale !== undefined) entry.timeScale = options.timeScale;
+    if (options.weight !== undefined) entry.weight = options.weight;
+
+    const previous = this.current;
+    const duration = options.crossFadeDuration ?? this.defaultTransitionDuration;
+    if (options.crossFade && previous && previous !== entry && duration > 0) {
+      // An entry still fading out fades back in from where it is
+      startFade(entry, entry.active ? entry.fade : 0, 1, duration);
+      startFade(previous, previous.fade, 0, duration);
+      previous.fadingInto = entry;
+      this.active = this.active.filter((e) => e !== entry);
+    } else {
+      for (const other of this.active) {
+        other.active = false;
+        other.fadingInto = null;
+      }
+      this.active = [];
+      entry.fade = 1;
+      entry.fadeDuration = 0;
+    }
+    entry.fadingInto = null;
+
+    entry.time = options.startAt ?? 0;
+    // Events keyed exactly at the start time still fire
+    entry.eventTime = entry.time - 1e-6;
+    entry.cycle = 0;
+    entry.active = true;
+    entry.paused = false;
+    entry.finished = false;
+    this.active.push(entry);
+    this.current = entry;
+    this.emit('play', name);
+    return true;
+  }
+
+  /**
+   * Pause the currently playing animation
+   */
+  pause(name?: string): void {
+    const entry = name ? this.entries.get(name) : this.current;
+    if (entry) {
+      entry.paused = true;
+      this.emit('pause', entry.animation.name);
+    }
+  }
+
+  /**
+   * Resume a paused animation
+   */
+  resume(name?: string): void {
+    const entry = name ? this.entries.get(name) : this.current;
+    if (entry) entry.paused = false;
+  }
+
+  /**
+   * Stop an animation. Without playing animations the skeleton returns to
+   * its setup pose on the next update.
+   */
+  stop(name?: string): void {
+    const entry = name ? this.entries.get(name) : this.current;
+    if (!entry) return;
+    entry.active = false;
+    this.active = this.active.filter((e) => e !== entry);
+    if (entry === this.current) this.current = null;
+  }
+
+  /**
+   * Stop all animations
+   */
+  stopAll(): void {
+    for (const entry of this.active) entry.active = false;
+    this.active = [];
+    this.current = null;
+  }
+
+  /**
+   * Crossfade to another animation
+   */
+  crossFadeTo(name: string, duration?: number, options: SkeletonPlayOptions = {}): boolean {
+    return this.play(name, {
+      ...options,
+      crossFade: true,
+      crossFadeDuration: duration ?? this.defaultTransitionDuration,
+    });
+  }
+
+  /**
+   * Set the weight of an animation (for blending)
+   */
+  setWeight(name: string, weight: number): void {
+    const entry = this.entries.get(name);
+    if (entry) entry.weight = weight;
+  }
+
+  /**
+   * Set the time scale of an animation
+   */
+  setTimeScale(name: string, scale: number): void {
+    const entry = this.entries.get(name);
+    if (entry) entry.timeScale = scale;
+  }
+
+  /**
+   * Set global time scale for all animations
+   */
+  setGlobalTimeScale(scale: number): void {
+    this.globalTimeScale = scale;
+  }
+
+  /**
+   * Get current animation time
+   */
+  getTime(name?: string): number {
+    const entry = name ? this.entries.get(name) : this.current;
+    return entry ? entry.time : 0;
+  }
+
+  /**
+   * Set animation time (events between the old and new time do not fire)
+   */
+  setTime(time: number, name?: string): void {
+    const entry = name ? this.entries.get(name) : this.current;
+    if (entry) {
+      entry.time = time;
+      entry.eventTime = time;
+    }
+  }
+
+  /**
+   * Check if animation is playing
+   */
+  isPlaying(name?: string): boolean {
+    const entry = name ? this.entries.get(name) : this.current;
+    return entry ? entry.active && !entry.paused && !entry.finished : false;
+  }
+
+  /**
+   * Get the currently playing animation name
+   */
+  getCurrentAnimation(): string | null {
+    return this.current ? this.current.animation.name : null;
+  }
+
+  // ============================================
+  // SKINS & ATTACHMENTS
+  // ============================================
+
+  get skin(): string | null {
+    return this.skeleton.skin;
+  }
+
+  /** Switch skin; slots keep their attachment names. */
+  setSkin(name: string | null): void {
+    this.skeleton.setSkin(name);
+    this.syncView();
+  }
+
+  /** Show a named attachment in a slot, or hide the slot with null. */
+  setAttachment(slotName: string, attachmentName: string | null): void {
+    this.skeleton.setAttachment(slotName, attachmentName);
+    this.syncView();
+  }
+
+  // ============================================
+  // UPDATE
+  // ============================================
+
+  /**
+   * Advance animations, pose the skeleton and update the sprites (call in game loop)
+   * @param deltaTime - Delta time in seconds
+   */
+  update(deltaTime: number): void {
+    const shared = this.useTimeScale && SkeletonAnimation.timeScale;
+    const dt = (shared ? shared.apply(deltaTime) : deltaTime) * this.globalTimeScale;
+
+    for (const entry of [...this.active]) {
+      if (entry.fadeDuration > 0) this.advanceFade(entry, dt);
+      if (!entry.active || entry.paused || entry.finished) continue;
+      this.advance(entry, dt * entry.timeScale);
+    }
+
+    if (this.active.length > 0) {
+      this.skeleton.applyAnimations(this.active.map((e) => ({
+        animation: e.animation,
+        time: e.time,
+        weight: e.weight * e.fade,
+      })));
+    } else {
+      this.skeleton.setBonesToSetupPose();
+    }
+    this.syncView();
+  }
+
+  /**
+   * Dispose of the skeleton display
+   */
+  dispose(): void {
+    this.stopAll();
+    this.entries.clear();
+    this.textures.clear();
+    this.view.destroy({ children: true });
+    this.removeAllListeners();
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private advance(entry: TrackEntry, dt: number): void {
+    const duration = entry.animation.duration;
+    const name = entry.animation.name;
+    entry.time += dt;
+
+    while (entry.time >= duration && entry.active && !entry.finished) {
+      this.fireEvents(entry, duration);
+      entry.cycle++;
+      if (!entry.loop || entry.cycle >= entry.repetitions || duration <= 0) {
+        entry.time = duration;
+        entry.finished = true;
+        this.emit('finished', name);
+        return;
+      }
+      entry.time -= duration;
+      entry.eventTime = -1e-6;
+      this.emit('loop', name);
+    }
+    this.fireEvents(entry, entry.time);
+  }
+
+  private advanceFade(entry: TrackEntry, dt: number): void {
+    entry.fadeElapsed = Math.min(entry.fadeElapsed + dt, entry.fadeDuration);
+    const t = entry.fadeElapsed / entry.fadeDuration;
+    entry.fade = entry.fadeFrom + (entry.fadeTo - entry.fadeFrom) * t;
+    if (t < 1) return;
+
+    entry.fadeDuration = 0;
+    const target = entry.fadingInto;
+    if (target) {
+      entry.fadingInto = null;
+      entry.active = false;
+      this.active = this.active.filter((e) => e !== entry);
+      this.emit('crossfadeComplete', entry.animation.name, target.animation.name);
+    }
+  }
+
+  /** Fire event keys in (eventTime, time]; fading-out entries stay silent */
+  private fireEvents(entry: TrackEntry, time: number): void {
+    if (!entry.fadingInto) {
+      for (const event of entry.animation.events) {
+        if (event.time > entry.eventTime && event.time <= time) {
+          this.emit('event', event.name, entry.animation.name, event);
+        }
+      }
+    }
+    entry.eventTime = time;
+  }
+
+  private syncView(): void {
+    const skeleton = this.skeleton;
+    skeleton.updateWorldTransform();
+
+    skeleton.slots.forEach((slot, i) => {
+      const sprite = this.sprites[i];
+      const attachment = slot.attachment;
+      const texture = attachment ? this.findTexture(attachment.path) : null;
+      if (!attachment || !texture) {
+        sprite.visible = false;
+        return;
+      }
+      sprite.visible = true;
+      sprite.texture = texture;
+
+      // Attachment transform in bone space, sized to the attachment
+      const radians = attachment.rotation * Math.PI / 180;
+      const sx = attachment.scaleX * attachment.width / texture.orig.width;
+      const sy = attachment.scaleY * attachment.height / texture.orig.height;
+      const ra = Math.cos(radians) * sx;
+      const rb = -Math.sin(radians) * sy;
+      const rc = Math.sin(radians) * sx;
+      const rd = Math.cos(radians) * sy;
+
+      const { a, b, c, d, worldX, worldY } = slot.bone;
+      const wa = a * ra + b * rc;
+      const wb = a * rb + b * rd;
+      const wc = c * ra + d * rc;
+      const wd = c * rb + d * rd;
+      const tx = a * attachment.x + b * attachment.y + worldX;
+      const ty = c * attachment.x + d * attachment.y + worldY;
+      // Spine is y-up: flip the world and the texture's own y axis
+      sprite.setFromMatrix(new PIXI.Matrix(wa, -wc, -wb, wd, tx, -ty));
+
+      const { color } = slot;
+      const tint = attachment.color;
+      sprite.tint = [color.r * tint.r, color.g * tint.g, color.b * tint.b];
+      sprite.alpha = color.a * tint.a;
+    });
+  }
+
+  private findTexture(path: string): PIXI.Texture | null {
+    let texture = this.textures.get(path);
+    if (texture === undefined) {
+      const atlas = this.atlases.find((a) => a.hasFrame(path));
+      texture = atlas ? atlas.getTexture(path) : null;
+      if (!texture) Logger.warn('Animation', `Skeleton region "${path}" not found in atlas`);
+      this.textures.set(path, texture);
+    }
+    return texture;
+  }
+}
+
+function startFade(entry: TrackEntry, from: number, to: number, duration: number): void {
+  entry.fade = from;
+  entry.fadeFrom = from;
+  entry.fadeTo = to;
+  entry.fadeElapsed = 0;
+  entry.fadeDuration = duration;
+}
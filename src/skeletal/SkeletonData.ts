@@ -0,0 +1,366 @@
+/** RGBA color, components 0-1 */
+export interface SkeletonColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface BoneData {
+  name: string;
+  /** Index of the parent bone, -1 for the root */
+  parent: number;
+  length: number;
+  x: number;
+  y: number;
+  /** Degrees, counter-clockwise (Spine's y-up space) */
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  shearX: number;
+  shearY: number;
+}
+
+export interface SlotData {
+  name: string;
+  /** Index of the bone the slot is attached to */
+  bone: number;
+  color: SkeletonColor;
+  /** Setup-pose attachment name, or null for none */
+  attachment: string | null;
+}
+
+/** Textured quad attached to a slot */
+export interface RegionAttachmentData {
+  type: 'region';
+  /** Attachment name (the key animations and setAttachment use) */
+  name: string;
+  /** Atlas region name (defaults to the name) */
+  path: string;
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  width: number;
+  height: number;
+  color: SkeletonColor;
+}
+
+export interface SkinData {
+  name: string;
+  /** Attachments by slot name, then attachment name */
+  attachments: Record<string, Record<string, RegionAttachmentData>>;
+}
+
+/** Event declared by the skeleton, with the defaults its keys inherit */
+export interface SkeletonEventData {
+  name: string;
+  int: number;
+  float: number;
+  string: string;
+  audio?: string;
+}
+
+/**
+ * Interpolation from a key to the next: linear, stepped (hold), or a cubic
+ * bezier with normalized control points [cx1, cy1, cx2, cy2].
+ */
+export type CurveData = 'linear' | 'stepped' | [number, number, number, number];
+
+export type BoneTimelineProperty = 'rotate' | 'x' | 'y' | 'scaleX' | 'scaleY';
+
+export interface BoneTimelineData {
+  bone: number;
+  property: BoneTimelineProperty;
+  times: number[];
+  /** Rotation/translation are offsets from the setup pose, scales are multipliers */
+  values: number[];
+  /** Curve from each key to the next */
+  curves: CurveData[];
+}
+
+export interface AttachmentTimelineData {
+  slot: number;
+  times: number[];
+  names: Array<string | null>;
+}
+
+export interface ColorTimelineData {
+  slot: number;
+  times: number[];
+  colors: SkeletonColor[];
+  curves: CurveData[];
+}
+
+/** Event key on an animation timeline */
+export interface SkeletonEvent {
+  time: number;
+  name: string;
+  int: number;
+  float: number;
+  string: string;
+}
+
+export interface AnimationData {
+  name: string;
+  /** Seconds (time of the last key) */
+  duration: number;
+  bones: BoneTimelineData[];
+  attachments: AttachmentTimelineData[];
+  colors: ColorTimelineData[];
+  /** Sorted by time */
+  events: SkeletonEvent[];
+}
+
+export interface SkeletonData {
+  /** Spine editor version that exported the data */
+  version: string;
+  width: number;
+  height: number;
+  /** Parents always come before their children */
+  bones: BoneData[];
+  /** In setup draw order */
+  slots: SlotData[];
+  skins: SkinData[];
+  events: Record<string, SkeletonEventData>;
+  animations: AnimationData[];
+}
+
+const WHITE: SkeletonColor = { r: 1, g: 1, b: 1, a: 1 };
+
+/**
+ * Parse Spine skeleton JSON (3.8 and 4.x exports).
+ *
+ * Supports bones (normal transform inheritance), slots, skins with region
+ * attachments, events, and bone rotate/translate/scale, slot attachment,
+ * slot color and event timelines with stepped, linear and bezier curves.
+ * Mesh, clipping, path and bounding box attachments, constraints and draw
+ * order keys are skipped. Throws with the offending path on malformed data.
+ *
+ * @param json - Parsed skeleton JSON
+ */
+export function parseSpineSkeleton(json: unknown): SkeletonData {
+  const data = json as Record<string, any>;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.bones)) {
+    throw new Error('parseSpineSkeleton: expected a "bones" array');
+  }
+  const version = String(data.skeleton?.spine ?? '');
+  // 4.x writes bezier control points in absolute time/value
+  const absoluteCurves = !version.startsWith('3');
+
+  const boneIndex = new Map<string, number>();
+  const bones = (data.bones as any[]).map((raw, i): BoneData => {
+    if (typeof raw?.name !== 'string') throw new Error(`parseSpineSkeleton: bones[${i}] has no name`);
+    let parent = -1;
+    if (raw.parent !== undefined) {
+      parent = boneIndex.get(raw.parent) ?? -1;
+      if (parent === -1) throw new Error(`parseSpineSkeleton: bones[${i}] parent "${raw.parent}" not found`);
+    }
+    boneIndex.set(raw.name, i);
+    return {
+      name: raw.name,
+      parent,
+      length: raw.length ?? 0,
+      x: raw.x ?? 0,
+      y: raw.y ?? 0,
+      rotation: raw.rotation ?? 0,
+      scaleX: raw.scaleX ?? 1,
+      scaleY: raw.scaleY ?? 1,
+      shearX: raw.shearX ?? 0,
+      shearY: raw.shearY ?? 0,
+    };
+  });
+
+  const slotIndex = new Map<string, number>();
+  const slots = ((data.slots ?? []) as any[]).map((raw, i): SlotData => {
+    const bone = boneIndex.get(raw?.bone);
+    if (bone === undefined) throw new Error(`parseSpineSkeleton: slots[${i}] bone "${raw?.bone}" not found`);
+    slotIndex.set(raw.name, i);
+    return {
+      name: String(raw.name),
+      bone,
+      color: raw.color ? parseColor(raw.color, `slots[${i}].color`) : { ...WHITE },
+      attachment: raw.attachment ?? null,
+    };
+  });
+
+  // 4.x: [{ name, attachments }]; 3.x: { skinName: attachments }
+  const rawSkins: Array<[string, any]> = Array.isArray(data.skins)
+    ? (data.skins as any[]).map((s) => [String(s.name), s.attachments ?? {}])
+    : Object.entries(data.skins ?? {});
+  const skins = rawSkins.map(([name, rawSlots]): SkinData => {
+    const attachments: SkinData['attachments'] = {};
+    for (const [slotName, rawAttachments] of Object.entries(rawSlots as Record<string, any>)) {
+      if (!slotIndex.has(slotName)) throw new Error(`parseSpineSkeleton: skin "${name}" slot "${slotName}" not found`);
+      for (const [key, raw] of Object.entries(rawAttachments as Record<string, any>)) {
+        if ((raw.type ?? 'region') !== 'region') continue;
+        const path = `skins.${name}.${slotName}.${key}`;
+        (attachments[slotName] ??= {})[key] = {
+          type: 'region',
+          name: key,
+          path: raw.path ?? raw.name ?? key,
+          x: raw.x ?? 0,
+          y: raw.y ?? 0,
+          rotation: raw.rotation ?? 0,
+          scaleX: raw.scaleX ?? 1,
+          scaleY: raw.scaleY ?? 1,
+          width: requireNumber(raw.width, `${path}.width`),
+          height: requireNumber(raw.height, `${path}.height`),
+          color: raw.color ? parseColor(raw.color, `${path}.color`) : { ...WHITE },
+        };
+      }
+    }
+    return { name, attachments };
+  });
+
+  const events: Record<string, SkeletonEventData> = {};
+  for (const [name, raw] of Object.entries((data.events ?? {}) as Record<string, any>)) {
+    events[name] = { name, int: raw.int ?? 0, float: raw.float ?? 0, string: raw.string ?? '' };
+    if (raw.audio) events[name].audio = raw.audio;
+  }
+
+  const animations = Object.entries((data.animations ?? {}) as Record<string, any>).map(([name, raw]) =>
+    parseAnimation(name, raw, { boneIndex, slotIndex, events, absoluteCurves })
+  );
+
+  return {
+    version,
+    width: data.skeleton?.width ?? 0,
+    height: data.skeleton?.height ?? 0,
+    bones,
+    slots,
+    skins,
+    events,
+    animations,
+  };
+}
+
+interface AnimationContext {
+  boneIndex: Map<string, number>;
+  slotIndex: Map<string, number>;
+  events: Record<string, SkeletonEventData>;
+  absoluteCurves: boolean;
+}
+
+/** Timeline name -> [property, value field, default] per channel */
+const BONE_CHANNELS: Record<string, Array<[BoneTimelineProperty, string[], number]>> = {
+  rotate: [['rotate', ['value', 'angle'], 0]],
+  translate: [['x', ['x'], 0], ['y', ['y'], 0]],
+  translatex: [['x', ['value'], 0]],
+  translatey: [['y', ['value'], 0]],
+  scale: [['scaleX', ['x'], 1], ['scaleY', ['y'], 1]],
+  scalex: [['scaleX', ['value'], 1]],
+  scaley: [['scaleY', ['value'], 1]],
+};
+
+function parseAnimation(name: string, raw: any, ctx: AnimationContext): AnimationData {
+  const animation: AnimationData = { name, duration: 0, bones: [], attachments: [], colors: [], events: [] };
+  const extend = (times: number[]) => {
+    if (times.length > 0) animation.duration = Math.max(animation.duration, times[times.length - 1]);
+  };
+
+  for (const [boneName, timelines] of Object.entries((raw.bones ?? {}) as Record<string, any>)) {
+    const bone = ctx.boneIndex.get(boneName);
+    if (bone === undefined) throw new Error(`parseSpineSkeleton: animation "${name}" bone "${boneName}" not found`);
+    for (const [timelineName, keys] of Object.entries(timelines as Record<string, any[]>)) {
+      const channels = BONE_CHANNELS[timelineName];
+      if (!channels || keys.length === 0) continue;
+      const times = keys.map((k) => k.time ?? 0);
+      channels.forEach(([property, fields, fallback], channel) => {
+        const values = keys.map((k) => {
+          const field = fields.find((f) => k[f] !== undefined);
+          return field ? k[field] : fallback;
+        });
+        const curves = keys.map((k, i) => parseCurve(k, channel, times, values, i, ctx.absoluteCurves));
+        animation.bones.push({ bone, property, times, values, curves });
+      });
+      extend(times);
+    }
+  }
+
+  for (const [slotName, timelines] of Object.entries((raw.slots ?? {}) as Record<string, any>)) {
+    const slot = ctx.slotIndex.get(slotName);
+    if (slot === undefined) throw new Error(`parseSpineSkeleton: animation "${name}" slot "${slotName}" not found`);
+    for (const [timelineName, keys] of Object.entries(timelines as Record<string, any[]>)) {
+      if (keys.length === 0) continue;
+      const times = keys.map((k) => k.time ?? 0);
+      if (timelineName === 'attachment') {
+        animation.attachments.push({ slot, times, names: keys.map((k) => k.name ?? null) });
+      } else if (timelineName === 'color' || timelineName === 'rgba') {
+        const colors = keys.map((k, i) => parseColor(k.color, `animations.${name}.slots.${slotName}.${timelineName}[${i}]`));
+        const reds = colors.map((c) => c.r);
+        const curves = keys.map((k, i) => parseCurve(k, 0, times, reds, i, ctx.absoluteCurves));
+        animation.colors.push({ slot, times, colors, curves });
+      } else {
+        continue;
+      }
+      extend(times);
+    }
+  }
+
+  for (const key of (raw.events ?? []) as any[]) {
+    const data = ctx.events[key.name];
+    if (!data) throw new Error(`parseSpineSkeleton: animation "${name}" event "${key.name}" not found`);
+    animation.events.push({
+      time: key.time ?? 0,
+      name: data.name,
+      int: key.int ?? data.int,
+      float: key.float ?? data.float,
+      string: key.string ?? data.string,
+    });
+  }
+  animation.events.sort((a, b) => a.time - b.time);
+  extend(animation.events.map((e) => e.time));
+
+  return animation;
+}
+
+/**
+ * Read the curve of key `i` for one channel. 3.8 writes normalized control
+ * points (`curve: cx1, c2, c3, c4` or an array); 4.x writes absolute
+ * time/value pairs, four per channel, which are normalized against the key
+ * span here.
+ */
+function parseCurve(
+  key: any,
+  channel: number,
+  times: number[],
+  values: number[],
+  i: number,
+  absolute: boolean
+): CurveData {
+  const curve = key.curve;
+  if (curve === 'stepped') return 'stepped';
+  if (curve === undefined || i === times.length - 1) return 'linear';
+  if (Array.isArray(curve)) {
+    const points = curve.slice(channel * 4, channel * 4 + 4) as number[];
+    if (points.length < 4) return 'linear';
+    if (!absolute) return points as [number, number, number, number];
+    const dt = times[i + 1] - times[i];
+    const dv = values[i + 1] - values[i];
+    if (dt <= 0) return 'stepped';
+    const nx = (t: number) => (t - times[i]) / dt;
+    // A flat span has no meaningful value curve; keep the timing only
+    const ny = (v: number, fallback: number) => (dv === 0 ? fallback : (v - values[i]) / dv);
+    const x1 = nx(points[0]);
+    const x2 = nx(points[2]);
+    return [x1, ny(points[1], x1), x2, ny(points[3], x2)];
+  }
+  if (typeof curve === 'number') return [curve, key.c2 ?? 0, key.c3 ?? 1, key.c4 ?? 1];
+  return 'linear';
+}
+
+/** Parse a Spine color string (RRGGBBAA or RRGGBB) */
+function parseColor(value: unknown, path: string): SkeletonColor {
+  if (typeof value !== 'string' || !/^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value)) {
+    throw new Error(`parseSpineSkeleton: ${path} is not an RRGGBBAA color`);
+  }
+  const byte = (i: number) => parseInt(value.slice(i, i + 2), 16) / 255;
+  return { r: byte(0), g: byte(2), b: byte(4), a: value.length === 8 ? byte(6) : 1 };
+}
+
+function requireNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number') throw new Error(`parseSpineSkeleton: ${path} must be a number`);
+  return value;
+}
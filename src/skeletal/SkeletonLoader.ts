@@ -0,0 +1,50 @@
+import { BaseAssetLoader } from '../assets/loaders/BaseAssetLoader.js';
+import { AssetConfig, AssetType } from '../contracts/AssetManager.js';
+import { TextureAtlas } from '../sprites/TextureAtlas.js';
+import { parseSpineSkeleton } from './SkeletonData.js';
+import { parseSpineAtlas } from './SpineAtlas.js';
+import type { SkeletonAsset } from './SkeletonAnimation.js';
+
+/**
+ * Spine skeleton asset loader (AssetType.SKELETON).
+ *
+ * Loads the skeleton JSON, then the `.atlas` file exported next to it
+ * (same path, `.atlas` extension) and every page image the atlas lists,
+ * and returns a SkeletonAsset ready for SkeletonAnimation.
+ *
+ * @example
+ * ```typescript
+ * assets.registerLoader(new SkeletonLoader()); // already done by GameByteAssetManager
+ * const hero = await assets.load<SkeletonAsset>({ id: 'hero', type: AssetType.SKELETON, src: 'spine/hero.json' });
+ * ```
+ */
+export class SkeletonLoader extends BaseAssetLoader<SkeletonAsset> {
+  readonly supportedTypes = [AssetType.SKELETON];
+
+  async load(config: AssetConfig): Promise<SkeletonAsset> {
+    if (!this.canLoad(config.type)) {
+      throw new Error(`SkeletonLoader cannot load assets of type: ${config.type}`);
+    }
+
+    try {
+      const text = await this.loadWithXHR(config, 'text') as string;
+      const data = parseSpineSkeleton(JSON.parse(text));
+
+      const atlasSrc = atlasUrl(config.src);
+      const atlasText = await this.loadWithXHR({ ...config, id: `${config.id}:atlas`, src: atlasSrc }, 'text') as string;
+      const atlases = await Promise.all(parseSpineAtlas(atlasText, atlasSrc).map((page) => TextureAtlas.create(page)));
+
+      const asset: SkeletonAsset = { data, atlases };
+      this.emit('loaded', { assetId: config.id, skeleton: asset });
+      return asset;
+    } catch (error) {
+      this.emit('failed', { assetId: config.id, error });
+      throw error;
+    }
+  }
+}
+
+/** `spine/hero.json` -> `spine/hero.atlas` (query strings are kept) */
+export function atlasUrl(src: string): string {
+  return src.replace(/(\.[a-z0-9]+)?(\?.*)?$/i, (_match, _ext, query) => `.atlas${query ?? ''}`);
+}
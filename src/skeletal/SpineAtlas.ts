@@ -0,0 +1,93 @@
+import { resolveUrl } from '../tilemap/TiledMap.js';
+import type { AtlasData, AtlasFrameData } from '../sprites/AtlasData.js';
+
+/**
+ * Parse a Spine / libGDX `.atlas` text file (3.x `xy`/`size`/`orig`/`offset`
+ * and 4.x `bounds`/`offsets` region fields) into one AtlasData per page,
+ * ready for TextureAtlas. Rotated regions (`rotate: true` or `rotate: 90`)
+ * are packed counter-clockwise, unlike TexturePacker JSON.
+ *
+ * @param text - Atlas file contents
+ * @param baseUrl - URL of the atlas file; page images are resolved against it
+ */
+export function parseSpineAtlas(text: string, baseUrl = ''): AtlasData[] {
+  const pages: AtlasData[] = [];
+  let page: AtlasData | null = null;
+  let region: Record<string, number[]> | null = null;
+  let regionName = '';
+  let regionDegrees = 0;
+
+  const flush = () => {
+    if (page && region) page.frames.push(createFrame(regionName, region, regionDegrees));
+    region = null;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '') {
+      flush();
+      page = null;
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      if (!page) {
+        page = { format: 'spine', image: resolveUrl(baseUrl, line), size: { w: 0, h: 0 }, frames: [], clips: [] };
+        pages.push(page);
+      } else {
+        flush();
+        region = {};
+        regionName = line;
+        regionDegrees = 0;
+      }
+      continue;
+    }
+
+    const key = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+    if (!page) throw new Error(`parseSpineAtlas: "${key}" before any page image`);
+    if (!region) {
+      if (key === 'size') {
+        const [w, h] = numbers(value);
+        page.size = { w, h };
+      }
+      continue;
+    }
+    if (key === 'rotate') {
+      regionDegrees = value === 'true' ? 90 : value === 'false' ? 0 : Number(value) || 0;
+    } else {
+      region[key] = numbers(value);
+    }
+  }
+  flush();
+
+  if (pages.length === 0) throw new Error('parseSpineAtlas: no pages found');
+  return pages;
+}
+
+function createFrame(name: string, fields: Record<string, number[]>, degrees: number): AtlasFrameData {
+  // 4.x: bounds x,y,w,h and offsets x,y,origW,origH; 3.x: xy, size, orig, offset
+  const [x, y, w, h] = fields.bounds ?? [...(fields.xy ?? []), ...(fields.size ?? [])];
+  if ([x, y, w, h].some((v) => typeof v !== 'number' || Number.isNaN(v))) {
+    throw new Error(`parseSpineAtlas: region "${name}" has no bounds`);
+  }
+  const [offsetX, offsetY, origW, origH] = fields.offsets ?? [...(fields.offset ?? [0, 0]), ...(fields.orig ?? [w, h])];
+  const normalized = ((degrees % 360) + 360) % 360;
+
+  const frame: AtlasFrameData = {
+    name,
+    frame: { x, y, w, h },
+    rotated: false,
+    trimmed: offsetX !== 0 || offsetY !== 0 || origW !== w || origH !== h,
+    // libGDX offsets are measured from the bottom-left corner
+    spriteSourceSize: { x: offsetX, y: origH - offsetY - h, w, h },
+    sourceSize: { w: origW, h: origH },
+  };
+  if (normalized === 90 || normalized === 180 || normalized === 270) frame.degrees = normalized;
+  return frame;
+}
+
+function numbers(value: string): number[] {
+  return value.split(',').map((v) => Number(v.trim()));
+}
@@ -0,0 +1,43 @@
+/**
+ * Skeletal Module - GameByte Framework
+ *
+ * 2D skeletal animation from Spine exports (skeleton JSON + .atlas):
+ * skins, animation crossfades, events and attachment swapping, driven
+ * through the same play/crossFadeTo/setTimeScale surface as the 3D
+ * AnimationController.
+ *
+ * @module skeletal
+ * @example
+ * ```typescript
+ * import { SkeletonAnimation } from '@gamebyte/framework/skeletal';
+ * ```
+ */
+
+export { parseSpineSkeleton } from './SkeletonData.js';
+export type {
+  SkeletonData,
+  SkeletonColor,
+  BoneData,
+  SlotData,
+  SkinData,
+  RegionAttachmentData,
+  SkeletonEventData,
+  SkeletonEvent,
+  AnimationData,
+  BoneTimelineData,
+  BoneTimelineProperty,
+  AttachmentTimelineData,
+  ColorTimelineData,
+  CurveData,
+} from './SkeletonData.js';
+export { parseSpineAtlas } from './SpineAtlas.js';
+export { Skeleton } from './Skeleton.js';
+export type { Bone, Slot, SkeletonPoseLayer } from './Skeleton.js';
+export { SkeletonAnimation } from './SkeletonAnimation.js';
+export type {
+  SkeletonAsset,
+  SkeletonAnimationConfig,
+  SkeletonAnimationEvents,
+  SkeletonPlayOptions,
+} from './SkeletonAnimation.js';
+export { SkeletonLoader } from './SkeletonLoader.js';
@@ -0,0 +1,276 @@
+/**
+ * Anything with a 2D position. GameEntity satisfies this.
+ */
+export interface SpatialPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Pack integer cell coordinates into one numeric key.
+ * Coordinates wrap at 65536 cells; wrapped cells only add candidates, which
+ * the exact distance checks discard.
+ */
+function cellKey(cx: number, cy: number): number {
+  return ((cx & 0xffff) << 16) | (cy & 0xffff);
+}
+
+/**
+ * SpatialHash - Uniform grid for fast 2D neighbor queries over points.
+ *
+ * Insert/remove/update are O(1) (amortized); radius queries only visit the
+ * cells the circle overlaps. For swarms that all move every frame,
+ * `rebuild()` once per frame is cheaper than per-item updates.
+ *
+ * Pick a cell size close to the most common query radius.
+ *
+ * @example
+ * ```typescript
+ * const hash = new SpatialHash<Enemy>(64);
+ * hash.rebuild(enemies);
+ * const near = hash.queryRadius(player.x, player.y, 120);
+ * ```
+ */
+export class SpatialHash<T extends SpatialPoint = SpatialPoint> {
+  readonly cellSize: number;
+  private readonly inverseCell: number;
+  private cells = new Map<number, T[]>();
+  private itemCells = new Map<T, number>();
+
+  constructor(cellSize = 64) {
+    if (cellSize <= 0) throw new Error('SpatialHash: cellSize must be positive');
+    this.cellSize = cellSize;
+    this.inverseCell = 1 / cellSize;
+  }
+
+  /** Number of items in the hash */
+  get size(): number {
+    return this.itemCells.size;
+  }
+
+  /**
+   * Add an item at its current position (no-op if already present).
+   */
+  insert(item: T): void {
+    if (this.itemCells.has(item)) return;
+    const key = this.keyFor(item.x, item.y);
+    this.bucket(key).push(item);
+    this.itemCells.set(item, key);
+  }
+
+  /**
+   * Re-file an item after it moved. Inserts it if absent.
+   */
+  update(item: T): void {
+    const key = this.keyFor(item.x, item.y);
+    const current = this.itemCells.get(item);
+    if (current === key) return;
+    if (current !== undefined) this.removeFromBucket(current, item);
+    this.bucket(key).push(item);
+    this.itemCells.set(item, key);
+  }
+
+  /**
+   * Remove an item. Returns false if it was not present.
+   */
+  remove(item: T): boolean {
+    const key = this.itemCells.get(item);
+    if (key === undefined) return false;
+    this.removeFromBucket(key, item);
+    this.itemCells.delete(item);
+    return true;
+  }
+
+  has(item: T): boolean {
+    return this.itemCells.has(item);
+  }
+
+  /** Remove all items */
+  clear(): void {
+    this.cells.clear();
+    this.itemCells.clear();
+  }
+
+  /**
+   * Clear and insert all items at their current positions.
+   */
+  rebuild(items: Iterable<T>): void {
+    // Keep bucket arrays to avoid reallocating them every frame
+    for (const bucket of this.cells.values()) bucket.length = 0;
+    this.itemCells.clear();
+
+    for (const item of items) {
+      const key = this.keyFor(item.x, item.y);
+      this.bucket(key).push(item);
+      this.itemCells.set(item, key);
+    }
+
+    // Drop cells nobody occupies any more, so moving swarms don't grow the map
+    for (const [key, bucket] of this.cells) {
+      if (bucket.length === 0) this.cells.delete(key);
+    }
+  }
+
+  /**
+   * Items within `radius` of (x, y).
+   * @param out - Array to fill (cleared first), to avoid per-query allocation
+   * @param exclude - Item to skip (typically the querying agent)
+   * @param filter - Return false to skip an item
+   */
+  queryRadius(
+    x: number,
+    y: number,
+    radius: number,
+    out: T[] = [],
+    exclude?: T,
+    filter?: (item: T) => boolean
+  ): T[] {
+    out.length = 0;
+    const r2 = radius * radius;
+    const minX = Math.floor((x - radius) * this.inverseCell);
+    const maxX = Math.floor((x + radius) * this.inverseCell);
+    const minY = Math.floor((y - radius) * this.inverseCell);
+    const maxY = Math.floor((y + radius) * this.inverseCell);
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const bucket = this.cells.get(cellKey(cx, cy));
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) {
+          const item = bucket[i];
+          if (item === exclude) continue;
+          const dx = item.x - x;
+          const dy = item.y - y;
+          if (dx * dx + dy * dy > r2) continue;
+          if (filter && !filter(item)) continue;
+          out.push(item);
+        }
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Items whose position lies inside the rectangle.
+   * @param out - Array to fill (cleared first)
+   */
+  queryRect(x: number, y: number, width: number, height: number, out: T[] = [], filter?: (item: T) => boolean): T[] {
+    out.length = 0;
+    const maxX = x + width;
+    const maxY = y + height;
+    const minCx = Math.floor(x * this.inverseCell);
+    const maxCx = Math.floor(maxX * this.inverseCell);
+    const minCy = Math.floor(y * this.inverseCell);
+    const maxCy = Math.floor(maxY * this.inverseCell);
+
+    for (let cx = minCx; cx <= maxCx; cx++) {
+      for (let cy = minCy; cy <= maxCy; cy++) {
+        const bucket = this.cells.get(cellKey(cx, cy));
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) {
+          const item = bucket[i];
+          if (item.x < x || item.x > maxX || item.y < y || item.y > maxY) continue;
+          if (filter && !filter(item)) continue;
+          out.push(item);
+        }
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Up to `k` items nearest to (x, y), closest first.
+   * Searches rings of cells outward, so cost depends on local density
+   * rather than the total item count.
+   * @param maxDistance - Ignore items farther than this (default: unlimited)
+   */
+  nearest(
+    x: number,
+    y: number,
+    k = 1,
+    maxDistance = Infinity,
+    filter?: (item: T) => boolean,
+    out: T[] = []
+  ): T[] {
+    out.length = 0;
+    if (k <= 0 || this.itemCells.size === 0) return out;
+
+    const found: Array<{ item: T; d2: number }> = [];
+    const consider = (item: T) => {
+      const dx = item.x - x;
+      const dy = item.y - y;
+      const d2 = dx * dx + dy * dy;
+      if (d2 > maxDistance * maxDistance) return;
+      if (filter && !filter(item)) return;
+      found.push({ item, d2 });
+    };
+
+    const ccx = Math.floor(x * this.inverseCell);
+    const ccy = Math.floor(y * this.inverseCell);
+    const maxRing = Number.isFinite(maxDistance) ? Math.ceil(maxDistance * this.inverseCell) + 1 : Infinity;
+    let visitedCells = 0;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Too sparse for ring search: scanning everything is cheaper
+      if (visitedCells > this.itemCells.size * 4) {
+        found.length = 0;
+        for (const item of this.itemCells.keys()) consider(item);
+        break;
+      }
+
+      for (let cx = ccx - ring; cx <= ccx + ring; cx++) {
+        const edgeX = cx === ccx - ring || cx === ccx + ring;
+        for (let cy = ccy - ring; cy <= ccy + ring; cy++) {
+          if (!edgeX && cy !== ccy - ring && cy !== ccy + ring) continue;
+          visitedCells++;
+          const bucket = this.cells.get(cellKey(cx, cy));
+          if (!bucket) continue;
+          for (let i = 0; i < bucket.length; i++) consider(bucket[i]);
+        }
+      }
+
+      // Anything beyond this ring is at least ring * cellSize away
+      if (found.length >= k) {
+        found.sort((a, b) => a.d2 - b.d2);
+        const bound = ring * this.cellSize;
+        if (found[k - 1].d2 <= bound * bound) break;
+      }
+    }
+
+    found.sort((a, b) => a.d2 - b.d2);
+    const count = Math.min(k, found.length);
+    for (let i = 0; i < count; i++) out.push(found[i].item);
+    return out;
+  }
+
+  /**
+   * Visit every item, in no particular order.
+   */
+  forEach(callback: (item: T) => void): void {
+    for (const item of this.itemCells.keys()) callback(item);
+  }
+
+  private keyFor(x: number, y: number): number {
+    return cellKey(Math.floor(x * this.inverseCell), Math.floor(y * this.inverseCell));
+  }
+
+  private bucket(key: number): T[] {
+    let bucket = this.cells.get(key);
+    if (!bucket) {
+      bucket = [];
+      this.cells.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private removeFromBucket(key: number, item: T): void {
+    const bucket = this.cells.get(key);
+    if (!bucket) return;
+    const index = bucket.indexOf(item);
+    if (index === -1) return;
+    // Swap-remove: order inside a cell does not matter
+    bucket[index] = bucket[bucket.length - 1];
+    bucket.pop();
+    if (bucket.length === 0) this.cells.delete(key);
+  }
+}
@@ -0,0 +1,355 @@
+import { EventEmitter } from 'eventemitter3';
+import type { ITickSystem, TickSubscriptionHandle } from '../contracts/Tick.js';
+import { SpatialHash, SpatialPoint } from './SpatialHash.js';
+
+/**
+ * A positioned item with optional collision bounds. GameEntity satisfies this.
+ * Circles take precedence over rects, matching GameEntity.collidesWith().
+ */
+export interface SpatialBody extends SpatialPoint {
+  /** Circle radius (> 0 to use circle bounds) */
+  collisionRadius?: number;
+  /** Centered AABB */
+  collisionRect?: { width: number; height: number };
+  /** Inactive bodies are skipped by collision checks */
+  active?: boolean;
+  /** Classification tags, used by `tag` filters */
+  tags?: ReadonlySet<string>;
+}
+
+/**
+ * Events emitted by SpatialIndex
+ */
+export interface SpatialIndexEvents<T extends SpatialBody = SpatialBody> {
+  /** Two bodies started overlapping */
+  'collision-start': (a: T, b: T) => void;
+  /** Two bodies are overlapping (every checkCollisions() while they do) */
+  'collision': (a: T, b: T) => void;
+  /** Two bodies stopped overlapping, or one was removed */
+  'collision-end': (a: T, b: T) => void;
+}
+
+export interface SpatialIndexConfig<T extends SpatialBody = SpatialBody> {
+  /** Grid cell size; pick close to typical query radius (default: 64) */
+  cellSize?: number;
+  /** Return false to never test a pair (e.g. two enemies) */
+  pairFilter?: (a: T, b: T) => boolean;
+}
+
+/**
+ * Query filter: a predicate, or a tag the body must carry.
+ */
+export type SpatialFilter<T> = ((item: T) => boolean) | string;
+
+/**
+ * Read-only query surface, accepted by systems that only acquire targets
+ * (AutoAttack, TowerManager).
+ */
+export interface SpatialQuery<T extends SpatialPoint = SpatialPoint> {
+  queryRadius(x: number, y: number, radius: number, filter?: SpatialFilter<T>, out?: T[]): T[];
+  nearest(x: number, y: number, k?: number, maxDistance?: number, filter?: SpatialFilter<T>, out?: T[]): T[];
+}
+
+/**
+ * Extent of a body from its center, used to widen broadphase queries.
+ */
+function extentOf(body: SpatialBody): number {
+  if (body.collisionRadius && body.collisionRadius > 0) return body.collisionRadius;
+  const rect = body.collisionRect;
+  if (rect) return Math.hypot(rect.width, rect.height) * 0.5;
+  return 0;
+}
+
+/**
+ * Narrowphase overlap test. Circle/circle and rect/rect behave like
+ * GameEntity.collidesWith(); circle/rect uses the closest point on the rect.
+ */
+export function bodiesOverlap(a: SpatialBody, b: SpatialBody): boolean {
+  const ar = a.collisionRadius ?? 0;
+  const br = b.collisionRadius ?? 0;
+
+  if (ar > 0 && br > 0) {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const r = ar + br;
+    return dx * dx + dy * dy < r * r;
+  }
+
+  if (ar > 0 && b.collisionRect) return circleRectOverlap(a.x, a.y, ar, b.x, b.y, b.collisionRect);
+  if (br > 0 && a.collisionRect) return circleRectOverlap(b.x, b.y, br, a.x, a.y, a.collisionRect);
+
+  const ra = a.collisionRect;
+  const rb = b.collisionRect;
+  if (!ra || !rb) return false;
+  return (
+    Math.abs(a.x - b.x) * 2 < ra.width + rb.width &&
+    Math.abs(a.y - b.y) * 2 < ra.height + rb.height
+  );
+}
+
+function circleRectOverlap(
+  cx: number,
+  cy: number,
+  radius: number,
+  rx: number,
+  ry: number,
+  rect: { width: number; height: number }
+): boolean {
+  const hw = rect.width * 0.5;
+  const hh = rect.height * 0.5;
+  const px = Math.max(rx - hw, Math.min(cx, rx + hw));
+  const py = Math.max(ry - hh, Math.min(cy, ry + hh));
+  const dx = cx - px;
+  const dy = cy - py;
+  return dx * dx + dy * dy < radius * radius;
+}
+
+/**
+ * SpatialIndex - Shared broadphase for game bodies.
+ *
+ * Wraps a SpatialHash with body-aware queries (radius, rect, nearest-k,
+ * tag filters) and collision pair detection with start/stay/end events.
+ * Queries test body centers; collision checks use the bodies' bounds.
+ *
+ * GameEntity registers itself with the default index, if one is
+ * installed (SpatialServiceProvider with `autoRegisterEntities`, or
+ * setDefault()), and keeps its cell up to date as it moves. Such
+ * entities must be destroy()ed, or the index keeps them alive.
+ *
+ * @example
+ * ```typescript
+ * const index = new SpatialIndex<GameEntity>({ cellSize: 64 });
+ * index.insert(player);
+ * index.on('collision-start', (a, b) => handleHit(a, b));
+ * index.attach(tickSystem);
+ *
+ * const targets = index.nearest(player.x, player.y, 3, 200, 'enemy');
+ * ```
+ */
+export class SpatialIndex<T extends SpatialBody = SpatialBody> extends EventEmitter<SpatialIndexEvents<T>> {
+  private static defaultIndex: SpatialIndex<any> | null = null;
+
+  /**
+   * Index new GameEntities register with, or null if none is installed.
+   */
+  static getDefault(): SpatialIndex<any> | null {
+    return SpatialIndex.defaultIndex;
+  }
+
+  /**
+   * Install (or clear) the index new GameEntities register with.
+   */
+  static setDefault(index: SpatialIndex<any> | null): void {
+    SpatialIndex.defaultIndex = index;
+  }
+
+  private hash: SpatialHash<T>;
+  private pairFilter?: (a: T, b: T) => boolean;
+  private ids = new Map<T, number>();
+  private nextId = 1;
+  private maxExtent = 0;
+  private pairs = new Map<string, [T, T]>();
+  private candidates: T[] = [];
+  private tickHandle: TickSubscriptionHandle | null = null;
+
+  constructor(config: SpatialIndexConfig<T> = {}) {
+    super();
+    this.hash = new SpatialHash<T>(config.cellSize ?? 64);
+    this.pairFilter = config.pairFilter;
+  }
+
+  /** Number of indexed bodies */
+  get size(): number {
+    return this.hash.size;
+  }
+
+  get cellSize(): number {
+    return this.hash.cellSize;
+  }
+
+  /**
+   * Add a body at its current position (no-op if already present).
+   */
+  insert(item: T): void {
+    if (this.ids.has(item)) return;
+    this.ids.set(item, this.nextId++);
+    this.maxExtent = Math.max(this.maxExtent, extentOf(item));
+    this.hash.insert(item);
+  }
+
+  /**
+   * Re-file a body after it moved. Ignored for bodies not in the index.
+   */
+  update(item: T): void {
+    if (this.ids.has(item)) this.hash.update(item);
+  }
+
+  /**
+   * Re-file every body. Use for bodies moved without calling update().
+   */
+  updateAll(): void {
+    for (const item of this.ids.keys()) this.hash.update(item);
+  }
+
+  /**
+   * Remove a body, ending any collisions it was part of.
+   */
+  remove(item: T): boolean {
+    if (!this.ids.delete(item)) return false;
+    this.hash.remove(item);
+    for (const [key, pair] of this.pairs) {
+      if (pair[0] === item || pair[1] === item) {
+        this.pairs.delete(key);
+        this.emit('collision-end', pair[0], pair[1]);
+      }
+    }
+    return true;
+  }
+
+  has(item: T): boolean {
+    return this.ids.has(item);
+  }
+
+  /**
+   * Remove every body. No collision-end events are emitted.
+   */
+  clear(): void {
+    this.hash.clear();
+    this.ids.clear();
+    this.pairs.clear();
+    this.maxExtent = 0;
+  }
+
+  /**
+   * Bodies whose center lies within `radius` of (x, y).
+   */
+  queryRadius(x: number, y: number, radius: number, filter?: SpatialFilter<T>, out: T[] = []): T[] {
+    return this.hash.queryRadius(x, y, radius, out, undefined, toPredicate(filter));
+  }
+
+  /**
+   * Bodies whose center lies inside the rectangle (top-left origin).
+   */
+  queryRect(x: number, y: number, width: number, height: number, filter?: SpatialFilter<T>, out: T[] = []): T[] {
+    return this.hash.queryRect(x, y, width, height, out, toPredicate(filter));
+  }
+
+  /**
+   * Up to `k` bodies nearest to (x, y), closest first.
+   */
+  nearest(
+    x: number,
+    y: number,
+    k = 1,
+    maxDistance = Infinity,
+    filter?: SpatialFilter<T>,
+    out: T[] = []
+  ): T[] {
+    return this.hash.nearest(x, y, k, maxDistance, toPredicate(filter), out);
+  }
+
+  /**
+   * Bodies currently overlapping `item` (it need not be indexed).
+   */
+  queryOverlaps(item: T, filter?: SpatialFilter<T>, out: T[] = []): T[] {
+    const predicate = toPredicate(filter);
+    this.hash.queryRadius(item.x, item.y, extentOf(item) + this.maxExtent, out, item, (other) =>
+      bodiesOverlap(item, other) && (!predicate || predicate(other))
+    );
+    return out;
+  }
+
+  /**
+   * Visit every overlapping pair once.
+   */
+  forEachPair(callback: (a: T, b: T) => void): void {
+    const candidates = this.candidates;
+    for (const [a, idA] of this.ids) {
+      if (a.active === false) continue;
+      this.hash.queryRadius(a.x, a.y, extentOf(a) + this.maxExtent, candidates, a);
+      for (let i = 0; i < candidates.length; i++) {
+        const b = candidates[i];
+        if ((this.ids.get(b) ?? 0) <= idA || b.active === false) continue;
+        if (this.pairFilter && !this.pairFilter(a, b)) continue;
+        if (bodiesOverlap(a, b)) callback(a, b);
+      }
+    }
+    candidates.length = 0;
+  }
+
+  /**
+   * Find overlapping pairs and emit collision-start / collision / collision-end.
+   * Called every frame when attached to a TickSystem.
+   */
+  checkCollisions(): void {
+    const previous = this.pairs;
+    const current = new Map<string, [T, T]>();
+
+    this.forEachPair((a, b) => {
+      const key = this.pairKey(a, b);
+      const pair = previous.get(key) ?? [a, b];
+      current.set(key, pair);
+      if (!previous.has(key)) this.emit('collision-start', pair[0], pair[1]);
+      this.emit('collision', pair[0], pair[1]);
+    });
+
+    this.pairs = current;
+    for (const [key, pair] of previous) {
+      if (!current.has(key)) this.emit('collision-end', pair[0], pair[1]);
+    }
+  }
+
+  /**
+   * Whether two bodies overlapped at the last checkCollisions()
+   */
+  isColliding(a: T, b: T): boolean {
+    return this.ids.has(a) && this.ids.has(b) && this.pairs.has(this.pairKey(a, b));
+  }
+
+  /**
+   * Run checkCollisions() every frame while anyone listens for collisions.
+   * @param priority - Tick priority (default: 100, after gameplay movement)
+   */
+  attach(tick: Pick<ITickSystem, 'subscribe'>, priority = 100): this {
+    this.detach();
+    this.tickHandle = tick.subscribe(() => {
+      if (this.hasCollisionListeners()) this.checkCollisions();
+    }, priority);
+    return this;
+  }
+
+  detach(): void {
+    this.tickHandle?.unsubscribe();
+    this.tickHandle = null;
+  }
+
+  /**
+   * Detach, clear and remove listeners. Uninstalls itself as the default index.
+   */
+  destroy(): void {
+    this.detach();
+    this.clear();
+    this.removeAllListeners();
+    if (SpatialIndex.defaultIndex === this) SpatialIndex.defaultIndex = null;
+  }
+
+  private hasCollisionListeners(): boolean {
+    return (
+      this.listenerCount('collision-start') > 0 ||
+      this.listenerCount('collision') > 0 ||
+      this.listenerCount('collision-end') > 0
+    );
+  }
+
+  private pairKey(a: T, b: T): string {
+    const idA = this.ids.get(a) ?? 0;
+    const idB = this.ids.get(b) ?? 0;
+    return idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+  }
+}
+
+function toPredicate<T extends SpatialBody>(filter?: SpatialFilter<T>): ((item: T) => boolean) | undefined {
+  if (filter === undefined) return undefined;
+  if (typeof filter === 'function') return filter;
+  return (item) => item.tags?.has(filter) ?? false;
+}
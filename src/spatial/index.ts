@@ -0,0 +1,22 @@
+/**
+ * Spatial Module - GameByte Framework
+ *
+ * Spatial indexing for fast neighbor queries.
+ *
+ * @module spatial
+ * @example
+ * ```typescript
+ * import { SpatialHash, SpatialIndex } from '@gamebyte/framework/spatial';
+ * ```
+ */
+
+export { SpatialHash } from './SpatialHash.js';
+export type { SpatialPoint } from './SpatialHash.js';
+export { SpatialIndex, bodiesOverlap } from './SpatialIndex.js';
+export type {
+  SpatialBody,
+  SpatialIndexConfig,
+  SpatialIndexEvents,
+  SpatialFilter,
+  SpatialQuery,
+} from './SpatialIndex.js';
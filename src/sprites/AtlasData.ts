@@ -0,0 +1,131 @@
+import { resolveUrl } from '../tilemap/TiledMap.js';
+
+/** Rectangle in atlas pixels */
+export interface AtlasRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface AtlasFrameData {
+  name: string;
+  /** Region in the atlas image (unrotated size) */
+  frame: AtlasRect;
+  /** Packed 90° clockwise (TexturePacker) */
+  rotated: boolean;
+  /** Packed rotated counter-clockwise by this many degrees (Spine); overrides `rotated` */
+  degrees?: 90 | 180 | 270;
+  /** Transparent border removed; `spriteSourceSize` is the kept region */
+  trimmed: boolean;
+  spriteSourceSize: AtlasRect;
+  /** Original size before trimming */
+  sourceSize: { w: number; h: number };
+  /** Normalized pivot, if the exporter wrote one */
+  pivot?: { x: number; y: number };
+  /** Frame duration in ms (Aseprite) */
+  duration?: number;
+}
+
+/** Playback direction of an atlas clip, as Aseprite names them */
+export type AtlasClipDirection = 'forward' | 'reverse' | 'pingpong' | 'pingpong_reverse';
+
+/** Named frame sequence from Aseprite tags or TexturePacker animations */
+export interface AtlasClipData {
+  name: string;
+  frames: string[];
+  /** Per-frame durations in ms (Aseprite); absent for TexturePacker animations */
+  durations?: number[];
+  direction: AtlasClipDirection;
+  /** Times to play before stopping (Aseprite "repeat"); absent = loop forever */
+  repeat?: number;
+}
+
+export type AtlasFormat = 'texturepacker-hash' | 'texturepacker-array' | 'aseprite' | 'spine';
+
+export interface AtlasData {
+  format: AtlasFormat;
+  /** Atlas image URL, resolved against the JSON's URL */
+  image: string;
+  size: { w: number; h: number };
+  /** Frames in export order */
+  frames: AtlasFrameData[];
+  clips: AtlasClipData[];
+}
+
+const DIRECTIONS: AtlasClipDirection[] = ['forward', 'reverse', 'pingpong', 'pingpong_reverse'];
+
+/**
+ * Parse TexturePacker (JSON hash or JSON array) and Aseprite sprite sheet
+ * JSON. Aseprite frame tags become clips with per-frame durations;
+ * TexturePacker `animations` become forward clips. Throws on data that is
+ * neither format.
+ *
+ * @param json - Parsed atlas JSON
+ * @param baseUrl - URL of the JSON file; `meta.image` is resolved against it
+ */
+export function parseAtlas(json: unknown, baseUrl = ''): AtlasData {
+  const data = json as Record<string, any>;
+  if (!data || typeof data !== 'object' || !data.frames || typeof data.frames !== 'object') {
+    throw new Error('parseAtlas: expected a "frames" hash or array');
+  }
+  const meta = (data.meta ?? {}) as Record<string, any>;
+  if (typeof meta.image !== 'string') throw new Error('parseAtlas: missing meta.image');
+
+  const isArray = Array.isArray(data.frames);
+  const entries: Array<[string, any]> = isArray
+    ? (data.frames as any[]).map((f, i) => [f.filename ?? String(i), f])
+    : Object.entries(data.frames);
+  const frames = entries.map(([name, raw]) => parseFrame(name, raw));
+
+  const isAseprite = typeof meta.app === 'string' && meta.app.includes('aseprite');
+  const clips: AtlasClipData[] = [];
+
+  if (Array.isArray(meta.frameTags)) {
+    for (const tag of meta.frameTags) {
+      const from = Math.max(0, tag.from ?? 0);
+      const to = Math.min(frames.length - 1, tag.to ?? from);
+      const slice = frames.slice(from, to + 1);
+      const repeat = tag.repeat !== undefined ? parseInt(tag.repeat, 10) : NaN;
+      clips.push({
+        name: String(tag.name),
+        frames: slice.map((f) => f.name),
+        durations: slice.map((f) => f.duration ?? 100),
+        direction: DIRECTIONS.includes(tag.direction) ? tag.direction : 'forward',
+        ...(repeat > 0 ? { repeat } : {}),
+      });
+    }
+  }
+  if (data.animations && typeof data.animations === 'object') {
+    for (const [name, names] of Object.entries(data.animations as Record<string, string[]>)) {
+      clips.push({ name, frames: [...names], direction: 'forward' });
+    }
+  }
+
+  return {
+    format: isAseprite ? 'aseprite' : isArray ? 'texturepacker-array' : 'texturepacker-hash',
+    image: resolveUrl(baseUrl, meta.image),
+    size: { w: meta.size?.w ?? 0, h: meta.size?.h ?? 0 },
+    frames,
+    clips,
+  };
+}
+
+function parseFrame(name: string, raw: any): AtlasFrameData {
+  const rect = raw?.frame;
+  if (!rect || [rect.x, rect.y, rect.w, rect.h].some((v) => typeof v !== 'number')) {
+    throw new Error(`parseAtlas: frame "${name}" has no { x, y, w, h } rect`);
+  }
+  const frame = { x: rect.x, y: rect.y, w: rect.w, h: rect.h };
+  const frameData: AtlasFrameData = {
+    name,
+    frame,
+    rotated: raw.rotated === true,
+    trimmed: raw.trimmed === true,
+    spriteSourceSize: raw.spriteSourceSize ?? { x: 0, y: 0, w: frame.w, h: frame.h },
+    sourceSize: raw.sourceSize ?? { w: frame.w, h: frame.h },
+  };
+  if (raw.pivot) frameData.pivot = { x: raw.pivot.x, y: raw.pivot.y };
+  if (typeof raw.duration === 'number') frameData.duration = raw.duration;
+  return frameData;
+}
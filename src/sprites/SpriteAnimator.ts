@@ -0,0 +1,358 @@
+import { EventEmitter } from 'eventemitter3';
+import { ISprite, ITexture } from '../contracts/Graphics.js';
+import { graphics } from '../graphics/GraphicsEngine.js';
+import type { TextureAtlas } from './TextureAtlas.js';
+import type { AtlasClipData } from './AtlasData.js';
+
+/**
+ * 'loop' repeats forward, 'ping-pong' plays forward then back, 'once' plays
+ * forward a single time and holds the last frame.
+ */
+export type SpriteAnimationMode = 'loop' | 'ping-pong' | 'once';
+
+export interface SpriteClipConfig {
+  /** Frame textures, or frame names resolved through the animator's atlas */
+  frames: Array<ITexture | string>;
+  /** Frames per second (default: the animator's fps) */
+  fps?: number;
+  /** Per-frame durations in ms; overrides fps */
+  durations?: number[];
+  /** Default: 'loop' */
+  mode?: SpriteAnimationMode;
+  /**
+   * Cycles to play before 'complete' for 'loop' and 'ping-pong'
+   * (default: forever). A finished ping-pong rests on its first frame.
+   */
+  repeat?: number;
+  /** Named events fired when a frame (by index) is shown, e.g. { 3: 'footstep' } */
+  events?: Record<number, string | string[]>;
+}
+
+export interface SpriteAnimatorEvents {
+  'play': (clip: string) => void;
+  'frame': (clip: string, frame: number) => void;
+  'event': (name: string, clip: string, frame: number) => void;
+  /** A looping clip started a new cycle */
+  'loop': (clip: string) => void;
+  /** A finite clip reached its end */
+  'complete': (clip: string) => void;
+}
+
+export interface SpriteAnimatorConfig {
+  /** Atlas for frame names; its Aseprite tags / TexturePacker animations become clips */
+  atlas?: TextureAtlas;
+  /** Clips by name (added after, and overriding, atlas clips) */
+  clips?: Record<string, SpriteClipConfig>;
+  /** Sprite to animate (default: a new sprite) */
+  sprite?: ISprite;
+  /** Anchor applied to the sprite (default for new sprites: 0.5, 0.5) */
+  anchor?: { x: number; y: number };
+  /** Default frames per second (default: 12) */
+  fps?: number;
+  /** Playback speed multiplier (default: 1) */
+  speed?: number;
+  /** Follow the global time scale (hitstop, slow-mo) (default: true) */
+  useTimeScale?: boolean;
+  /** Clip to start playing immediately */
+  autoPlay?: string;
+}
+
+interface CompiledClip {
+  name: string;
+  textures: ITexture[];
+  /** Frame indices played in one cycle */
+  sequence: number[];
+  /** Seconds per frame index */
+  durations: number[];
+  /** 0 = forever */
+  repeat: number;
+  pingPong: boolean;
+  events: Map<number, string[]>;
+}
+
+/**
+ * SpriteAnimator — frame-by-frame animation for a sprite.
+ *
+ * Plays named clips at a fixed fps or per-frame durations, loops or
+ * ping-pongs them, and fires frame events for footsteps, hit frames and
+ * sounds. Playback follows `SpriteAnimator.timeScale` (wired to the Juice
+ * time scale), so hitstop and slow-mo freeze or slow animations too.
+ *
+ * @example
+ * ```typescript
+ * const atlas = await assets.load<TextureAtlas>({ id: 'hero', type: AssetType.ATLAS, src: 'sprites/hero.json' });
+ * const animator = new SpriteAnimator({
+ *   atlas,
+ *   clips: { attack: { frames: atlas.frameNames.slice(8, 14), fps: 18, mode: 'once', events: { 3: 'hit' } } },
+ *   autoPlay: 'idle', // an Aseprite tag
+ * });
+ * animator.on('event', (name) => name === 'hit' && applyDamage());
+ * animator.on('complete', () => animator.play('idle'));
+ *
+ * const hero = new GameEntity({ animator });
+ * hero.update(dt); // advances the animator
+ * ```
+ */
+export class SpriteAnimator extends EventEmitter<SpriteAnimatorEvents> {
+  /**
+   * Shared time scale applied to every animator with `useTimeScale`.
+   * Juice sets this to its TimeScale on first use.
+   */
+  static timeScale: { apply: (dt: number) => number } | null = null;
+
+  /** Playback speed multiplier */
+  speed: number;
+  /** Follow SpriteAnimator.timeScale */
+  useTimeScale: boolean;
+
+  private readonly _sprite: ISprite;
+  private readonly _ownsSprite: boolean;
+  private readonly _atlas: TextureAtlas | null;
+  private readonly _fps: number;
+  private readonly _clips = new Map<string, CompiledClip>();
+
+  private _clip: CompiledClip | null = null;
+  /** Position in the clip's sequence */
+  private _step: number = 0;
+  private _cycle: number = 0;
+  private _time: number = 0;
+  private _playing: boolean = false;
+
+  constructor(config: SpriteAnimatorConfig = {}) {
+    super();
+    this._atlas = config.atlas ?? null;
+    this._fps = config.fps ?? 12;
+    this.speed = config.speed ?? 1;
+    this.useTimeScale = config.useTimeScale ?? true;
+
+    if (this._atlas) {
+      for (const name of this._atlas.clipNames) {
+        this.addClip(name, clipFromAtlas(this._atlas.getClip(name)!));
+      }
+    }
+    for (const [name, clip] of Object.entries(config.clips ?? {})) this.addClip(name, clip);
+
+    const first = this._clips.values().next().value?.textures[0];
+    this._ownsSprite = !config.sprite;
+    // Without clips yet, a blank 1×1 texture stands in until play()
+    this._sprite = config.sprite ?? graphics().createSprite(first ?? graphics().createCanvasTexture(1, 1, () => {}));
+    const anchor = config.anchor ?? (this._ownsSprite ? { x: 0.5, y: 0.5 } : undefined);
+    if (anchor) this._sprite.anchor?.set(anchor.x, anchor.y);
+
+    if (config.autoPlay) this.play(config.autoPlay);
+  }
+
+  // ============================================
+  // CLIPS
+  // ============================================
+
+  /** Add or replace a clip. Frame names need an atlas. */
+  addClip(name: string, config: SpriteClipConfig): this {
+    if (config.frames.length === 0) throw new Error(`SpriteAnimator: clip "${name}" has no frames`);
+    const textures = config.frames.map((frame) => {
+      if (typeof frame !== 'string') return frame;
+      if (!this._atlas) throw new Error(`SpriteAnimator: clip "${name}" uses frame names but no atlas was given`);
+      return this._atlas.getTexture(frame) as ITexture;
+    });
+    const count = textures.length;
+    const mode = config.mode ?? 'loop';
+    const fps = config.fps ?? this._fps;
+    const durations = textures.map((_, i) => {
+      const ms = config.durations?.[i];
+      return Math.max(ms !== undefined ? ms / 1000 : 1 / fps, 0.001);
+    });
+
+    const sequence = textures.map((_, i) => i);
+    if (mode === 'ping-pong') {
+      for (let i = count - 2; i > 0; i--) sequence.push(i);
+    }
+
+    const events = new Map<number, string[]>();
+    for (const [frame, names] of Object.entries(config.events ?? {})) {
+      events.set(Number(frame), Array.isArray(names) ? names : [names]);
+    }
+
+    this._clips.set(name, {
+      name,
+      textures,
+      sequence,
+      durations,
+      repeat: mode === 'once' ? 1 : config.repeat ?? 0,
+      pingPong: mode === 'ping-pong',
+      events,
+    });
+    return this;
+  }
+
+  hasClip(name: string): boolean {
+    return this._clips.has(name);
+  }
+
+  get clipNames(): string[] {
+    return [...this._clips.keys()];
+  }
+
+  // ============================================
+  // PLAYBACK
+  // ============================================
+
+  /**
+   * Play a clip from its first frame. Playing the clip that is already
+   * playing does nothing unless `restart` is set.
+   */
+  play(name: string, options: { restart?: boolean; frame?: number } = {}): this {
+    const clip = this._clips.get(name);
+    if (!clip) throw new Error(`SpriteAnimator: unknown clip "${name}"`);
+    if (clip === this._clip && this._playing && !options.restart) return this;
+
+    this._clip = clip;
+    this._step = Math.max(0, clip.sequence.indexOf(options.frame ?? 0));
+    this._cycle = 0;
+    this._time = 0;
+    this._playing = true;
+    this.emit('play', name);
+    this._show();
+    return this;
+  }
+
+  /** Pause on the current frame. */
+  pause(): void {
+    this._playing = false;
+  }
+
+  /** Continue after pause(). */
+  resume(): void {
+    if (this._clip) this._playing = true;
+  }
+
+  /** Stop and show the clip's first frame. */
+  stop(): void {
+    this._playing = false;
+    if (!this._clip) return;
+    this._step = 0;
+    this._time = 0;
+    this._show();
+  }
+
+  /** Show a frame (index into the clip's frames) and pause. */
+  gotoAndStop(frame: number): void {
+    this._goto(frame);
+    this._playing = false;
+  }
+
+  /** Jump to a frame (index into the clip's frames) and keep playing. */
+  gotoAndPlay(frame: number): void {
+    this._goto(frame);
+    if (this._clip) this._playing = true;
+  }
+
+  /**
+   * Advance the animation. Call each frame.
+   * @param dt - Delta time in seconds
+   */
+  update(dt: number): void {
+    const clip = this._clip;
+    if (!this._playing || !clip) return;
+
+    const scaled = this.useTimeScale && SpriteAnimator.timeScale ? SpriteAnimator.timeScale.apply(dt) : dt;
+    this._time += scaled * Math.max(0, this.speed);
+
+    while (this._playing) {
+      const duration = clip.durations[clip.sequence[this._step]];
+      if (this._time < duration) break;
+      this._time -= duration;
+      this._advance(clip);
+    }
+  }
+
+  // ============================================
+  // STATE
+  // ============================================
+
+  /** The animated sprite — use as GameEntity `display` or add to a container. */
+  get sprite(): ISprite {
+    return this._sprite;
+  }
+
+  get currentClip(): string | null {
+    return this._clip?.name ?? null;
+  }
+
+  /** Index of the shown frame within the current clip */
+  get currentFrame(): number {
+    return this._clip ? this._clip.sequence[this._step] : 0;
+  }
+
+  get isPlaying(): boolean {
+    return this._playing;
+  }
+
+  /** Remove listeners; destroys the sprite if the animator created it. */
+  destroy(): void {
+    this._playing = false;
+    this._clip = null;
+    this._clips.clear();
+    if (this._ownsSprite) this._sprite.destroy();
+    this.removeAllListeners();
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private _advance(clip: CompiledClip): void {
+    this._step++;
+    if (this._step < clip.sequence.length) {
+      this._show();
+      return;
+    }
+
+    this._cycle++;
+    if (clip.repeat > 0 && this._cycle >= clip.repeat) {
+      this._playing = false;
+      this._time = 0;
+      // Ping-pong comes back to rest on its first frame
+      this._step = clip.pingPong ? 0 : clip.sequence.length - 1;
+      if (clip.pingPong) this._show();
+      this.emit('complete', clip.name);
+      return;
+    }
+    this._step = 0;
+    this.emit('loop', clip.name);
+    this._show();
+  }
+
+  private _goto(frame: number): void {
+    const clip = this._clip;
+    if (!clip) return;
+    const step = clip.sequence.indexOf(frame);
+    if (step === -1) return;
+    this._step = step;
+    this._time = 0;
+    this._show();
+  }
+
+  private _show(): void {
+    const clip = this._clip!;
+    const frame = clip.sequence[this._step];
+    this._sprite.texture = clip.textures[frame];
+    this.emit('frame', clip.name, frame);
+    const names = clip.events.get(frame);
+    if (names) {
+      for (const name of names) this.emit('event', name, clip.name, frame);
+    }
+  }
+}
+
+/** Convert an Aseprite tag / TexturePacker animation into a clip config. */
+function clipFromAtlas(data: AtlasClipData): SpriteClipConfig {
+  const reverse = data.direction === 'reverse' || data.direction === 'pingpong_reverse';
+  const frames = reverse ? [...data.frames].reverse() : data.frames;
+  const durations = data.durations && reverse ? [...data.durations].reverse() : data.durations;
+  return {
+    frames,
+    durations,
+    mode: data.direction.startsWith('pingpong') ? 'ping-pong' : 'loop',
+    repeat: data.repeat,
+  };
+}
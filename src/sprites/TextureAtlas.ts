@@ -0,0 +1,109 @@
+import * as PIXI from 'pixi.js';
+import { AtlasClipData, AtlasData, AtlasFrameData } from './AtlasData.js';
+
+/**
+ * TextureAtlas - Frame textures cut from one sprite sheet image.
+ *
+ * Built from parsed atlas data (see parseAtlas) and the sheet texture.
+ * Handles trimmed and rotated TexturePacker frames the same way Pixi's
+ * Spritesheet does, and keeps Aseprite tags / TexturePacker animations as
+ * named clips for SpriteAnimator.
+ *
+ * @example
+ * ```typescript
+ * const atlas = await assets.load<TextureAtlas>({ id: 'hero', type: AssetType.ATLAS, src: 'sprites/hero.json' });
+ * const sprite = new PIXI.Sprite(atlas.getTexture('hero_idle_0.png'));
+ * const run = atlas.getTextures('hero_run_'); // frames by name prefix, in export order
+ * ```
+ */
+export class TextureAtlas {
+  /**
+   * Load the sheet image (via PIXI.Assets) and create the atlas.
+   * @param data - Parsed atlas data
+   * @param texture - Sheet texture to use instead of loading `data.image`
+   */
+  static async create(data: AtlasData, texture?: PIXI.Texture): Promise<TextureAtlas> {
+    const base = texture ?? await PIXI.Assets.load<PIXI.Texture>(data.image);
+    return new TextureAtlas(data, base);
+  }
+
+  readonly data: AtlasData;
+  readonly baseTexture: PIXI.Texture;
+  private readonly textures = new Map<string, PIXI.Texture>();
+  private readonly clips = new Map<string, AtlasClipData>();
+
+  constructor(data: AtlasData, baseTexture: PIXI.Texture) {
+    this.data = data;
+    this.baseTexture = baseTexture;
+    for (const frame of data.frames) {
+      this.textures.set(frame.name, createFrameTexture(baseTexture, frame));
+    }
+    for (const clip of data.clips) this.clips.set(clip.name, clip);
+  }
+
+  /** Frame names in export order */
+  get frameNames(): string[] {
+    return this.data.frames.map((f) => f.name);
+  }
+
+  /** Clip names (Aseprite tags and TexturePacker animations) */
+  get clipNames(): string[] {
+    return [...this.clips.keys()];
+  }
+
+  hasFrame(name: string): boolean {
+    return this.textures.has(name);
+  }
+
+  /** Texture for a frame. Throws for unknown names. */
+  getTexture(name: string): PIXI.Texture {
+    const texture = this.textures.get(name);
+    if (!texture) throw new Error(`TextureAtlas: no frame named "${name}"`);
+    return texture;
+  }
+
+  /**
+   * Textures for a list of frame names, or for every frame whose name
+   * starts with a prefix (in export order).
+   */
+  getTextures(namesOrPrefix: string[] | string): PIXI.Texture[] {
+    if (Array.isArray(namesOrPrefix)) return namesOrPrefix.map((name) => this.getTexture(name));
+    return this.data.frames
+      .filter((f) => f.name.startsWith(namesOrPrefix))
+      .map((f) => this.textures.get(f.name)!);
+  }
+
+  getClip(name: string): AtlasClipData | undefined {
+    return this.clips.get(name);
+  }
+
+  /**
+   * Destroy the frame textures.
+   * @param destroyBase - also destroy the sheet texture and its source (default: false)
+   */
+  destroy(destroyBase = false): void {
+    for (const texture of this.textures.values()) texture.destroy(false);
+    this.textures.clear();
+    if (destroyBase) this.baseTexture.destroy(true);
+  }
+}
+
+/** Counter-clockwise packing rotation -> groupD8 rotation that undoes it */
+const SPINE_ROTATIONS = { 90: PIXI.groupD8.N, 180: PIXI.groupD8.W, 270: PIXI.groupD8.S };
+
+function createFrameTexture(base: PIXI.Texture, data: AtlasFrameData): PIXI.Texture {
+  const { frame, rotated, trimmed, spriteSourceSize, sourceSize, degrees } = data;
+  // Rotated frames occupy w×h swapped in the sheet
+  const swapped = degrees ? degrees !== 180 : rotated;
+  const width = swapped ? frame.h : frame.w;
+  const height = swapped ? frame.w : frame.h;
+  return new PIXI.Texture({
+    source: base.source,
+    label: data.name,
+    frame: new PIXI.Rectangle(base.frame.x + frame.x, base.frame.y + frame.y, width, height),
+    orig: new PIXI.Rectangle(0, 0, sourceSize.w, sourceSize.h),
+    trim: trimmed ? new PIXI.Rectangle(spriteSourceSize.x, spriteSourceSize.y, frame.w, frame.h) : undefined,
+    rotate: degrees ? SPINE_ROTATIONS[degrees] : rotated ? PIXI.groupD8.S : 0,
+    defaultAnchor: data.pivot,
+  });
+}
@@ -0,0 +1,37 @@
+import { BaseAssetLoader } from '../assets/loaders/BaseAssetLoader.js';
+import { AssetConfig, AssetType } from '../contracts/AssetManager.js';
+import { parseAtlas } from './AtlasData.js';
+import { TextureAtlas } from './TextureAtlas.js';
+
+/**
+ * Sprite sheet asset loader (AssetType.ATLAS).
+ *
+ * Loads TexturePacker (JSON hash / JSON array) or Aseprite JSON, then the
+ * sheet image it references (relative to the JSON), and returns a ready
+ * TextureAtlas.
+ *
+ * @example
+ * ```typescript
+ * assets.registerLoader(new TextureAtlasLoader()); // already done by GameByteAssetManager
+ * const atlas = await assets.load<TextureAtlas>({ id: 'hero', type: AssetType.ATLAS, src: 'sprites/hero.json' });
+ * ```
+ */
+export class TextureAtlasLoader extends BaseAssetLoader<TextureAtlas> {
+  readonly supportedTypes = [AssetType.ATLAS];
+
+  async load(config: AssetConfig): Promise<TextureAtlas> {
+    if (!this.canLoad(config.type)) {
+      throw new Error(`TextureAtlasLoader cannot load assets of type: ${config.type}`);
+    }
+
+    try {
+      const text = await this.loadWithXHR(config, 'text') as string;
+      const atlas = await TextureAtlas.create(parseAtlas(JSON.parse(text), config.src));
+      this.emit('loaded', { assetId: config.id, atlas });
+      return atlas;
+    } catch (error) {
+      this.emit('failed', { assetId: config.id, error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Sprites Module - GameByte Framework
+ *
+ * Sprite sheet atlases (TexturePacker JSON hash/array, Aseprite JSON with
+ * tags) and frame-by-frame sprite animation.
+ *
+ * @module sprites
+ * @example
+ * ```typescript
+ * import { TextureAtlas, SpriteAnimator } from '@gamebyte/framework/sprites';
+ * ```
+ */
+
+export { parseAtlas } from './AtlasData.js';
+export type {
+  AtlasData,
+  AtlasFormat,
+  AtlasFrameData,
+  AtlasClipData,
+  AtlasClipDirection,
+  AtlasRect,
+} from './AtlasData.js';
+export { TextureAtlas } from './TextureAtlas.js';
+export { TextureAtlasLoader } from './TextureAtlasLoader.js';
+export { SpriteAnimator } from './SpriteAnimator.js';
+export type {
+  SpriteAnimatorConfig,
+  SpriteAnimatorEvents,
+  SpriteClipConfig,
+  SpriteAnimationMode,
+} from './SpriteAnimator.js';
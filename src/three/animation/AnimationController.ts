@@ -314,6 +314,27 @@ export class AnimationController extends EventEmitter<AnimationControllerEvents>
     return this.currentAction ? this.currentAction.getClip().name : null;
   }
 
+  /**
+   * Get an animation clip by name
+   */
+  getClip(name: string): THREE.AnimationClip | undefined {
+    return this.clips.get(name);
+  }
+
+  /**
+   * Get the underlying mixer (e.g. for an Animator graph)
+   */
+  getMixer(): THREE.AnimationMixer {
+    return this.mixer;
+  }
+
+  /**
+   * Get the animated root object
+   */
+  getRoot(): THREE.Object3D {
+    return this.mixer.getRoot() as THREE.Object3D;
+  }
+
   /**
    * Update the animation mixer (call in game loop)
    */
@@ -0,0 +1,564 @@
+/**
+ * Animator - Layered animation state machine on top of AnimationController
+ *
+ * States play a clip or a 1D/2D blend tree and switch through transitions
+ * driven by parameters (float, int, bool, trigger) and exit times. Layers
+ * stack on the base layer either overriding it (optionally masked to part
+ * of the skeleton, e.g. upper-body attacks over running legs) or adding to
+ * it. Gameplay code only sets parameters; call update() each frame.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AnimationController(model.scene, model.animations);
+ * const animator = new Animator(controller, {
+ *   parameters: { speed: 'float', attack: 'trigger' },
+ *   layers: [
+ *     {
+ *       name: 'base',
+ *       states: {
+ *         locomotion: { motion: { type: '1d', parameter: 'speed', children: [
+ *           { clip: 'idle', threshold: 0 }, { clip: 'walk', threshold: 2 }, { clip: 'run', threshold: 6 },
+ *         ] } },
+ *       },
+ *     },
+ *     {
+ *       name: 'upper',
+ *       mask: ['Spine'],
+ *       states: { empty: {}, attack: { motion: 'slash', loop: false } },
+ *       transitions: [
+ *         { from: '*', to: 'attack', conditions: [{ parameter: 'attack' }] },
+ *         { from: 'attack', to: 'empty', exitTime: 0.9, duration: 0.2 },
+ *       ],
+ *     },
+ *   ],
+ *   events: { walk: [{ time: 0.1, name: 'footstep' }, { time: 0.6, name: 'footstep' }] },
+ * });
+ *
+ * animator.on('event', (name) => name === 'footstep' && audio.play('step'));
+ *
+ * // Game loop
+ * animator.setFloat('speed', player.velocity.length());
+ * if (input.attackPressed) animator.setTrigger('attack');
+ * animator.update(deltaTime);
+ * ```
+ */
+
+import * as THREE from 'three';
+import { EventEmitter } from 'eventemitter3';
+import type { AnimationController } from './AnimationController.js';
+
+export type AnimatorParameterType = 'float' | 'int' | 'bool' | 'trigger';
+
+/** 1D blend tree: blends neighbouring children by one float parameter */
+export interface BlendTree1D {
+  type: '1d';
+  parameter: string;
+  /** Children with ascending thresholds */
+  children: Array<{ clip: string; threshold: number }>;
+}
+
+/** 2D blend tree: gradient-band blend of children placed on a plane */
+export interface BlendTree2D {
+  type: '2d';
+  parameters: [x: string, y: string];
+  children: Array<{ clip: string; position: [x: number, y: number] }>;
+}
+
+/** Clip name or blend tree */
+export type AnimatorMotion = string | BlendTree1D | BlendTree2D;
+
+export interface AnimatorStateConfig {
+  /** What the state plays; states without a motion play nothing (e.g. an empty upper-body state) */
+  motion?: AnimatorMotion;
+  /** Playback speed (default: 1) */
+  speed?: number;
+  /** Float parameter multiplied into speed */
+  speedParameter?: string;
+  /** Loop the motion (default: true); otherwise it holds the last frame */
+  loop?: boolean;
+}
+
+export interface AnimatorCondition {
+  parameter: string;
+  /** Comparison for float/int parameters; bools and triggers just need to be set */
+  op?: '>' | '<' | '>=' | '<=' | '==' | '!=';
+  value?: number | boolean;
+}
+
+export interface AnimatorTransition {
+  /** Source state, or '*' for any state */
+  from: string;
+  to: string;
+  /** All must hold; triggers used here are consumed when the transition fires */
+  conditions?: AnimatorCondition[];
+  /**
+   * Normalized time in the source state (1 = one cycle) before the
+   * transition may fire. Without conditions, it fires as soon as reached.
+   */
+  exitTime?: number;
+  /** Crossfade duration in seconds (default: 0.25) */
+  duration?: number;
+}
+
+export interface AnimatorLayerConfig {
+  name: string;
+  states: Record<string, AnimatorStateConfig>;
+  /** Entry state (default: the first state) */
+  defaultState?: string;
+  transitions?: AnimatorTransition[];
+  /** 0-1 (default: 1) */
+  weight?: number;
+  /** 'override' replaces the layers below, 'additive' adds on top (default: 'override') */
+  blending?: 'override' | 'additive';
+  /** Object names (with their descendants) this layer animates; default: everything */
+  mask?: string[];
+}
+
+export interface AnimatorConfig {
+  parameters?: Record<string, AnimatorParameterType>;
+  /** The first layer is the base layer */
+  layers: AnimatorLayerConfig[];
+  /** Events by clip name at clip times in seconds */
+  events?: Record<string, Array<{ time: number; name: string }>>;
+}
+
+export interface AnimatorEvents {
+  /** A transition started */
+  transition: [layer: string, from: string, to: string];
+  /** A state became the current state of its layer */
+  stateEnter: [layer: string, state: string];
+  /** A state finished fading out */
+  stateExit: [layer: string, state: string];
+  /** Playback passed a clip event (only the heaviest clip of a blend tree fires) */
+  event: [name: string, state: string, layer: string];
+}
+
+interface ChildRuntime {
+  clip: string;
+  action: THREE.AnimationAction;
+  duration: number;
+  weight: number;
+}
+
+interface StateRuntime {
+  name: string;
+  config: AnimatorStateConfig;
+  children: ChildRuntime[];
+  /** Cycles since entering the state */
+  time: number;
+  /** Weight when the current fade began */
+  fadeStart: number;
+  weight: number;
+}
+
+interface LayerRuntime {
+  config: AnimatorLayerConfig;
+  states: Map<string, StateRuntime>;
+  transitions: AnimatorTransition[];
+  weight: number;
+  additive: boolean;
+  current: StateRuntime;
+  /** States fading out, plus the current one */
+  active: StateRuntime[];
+  fadeTime: number;
+  fadeDuration: number;
+}
+
+/** Highest mixer weight used for a fully opaque override layer */
+const MAX_OVERRIDE = 1e4;
+
+export class Animator extends EventEmitter<AnimatorEvents> {
+  private readonly controller: AnimationController;
+  private readonly parameters = new Map<string, { type: AnimatorParameterType; value: number }>();
+  private readonly layers: LayerRuntime[] = [];
+  private readonly clipEvents: Map<string, Array<{ time: number; name: string }>>;
+
+  constructor(controller: AnimationController, config: AnimatorConfig) {
+    super();
+    this.controller = controller;
+    for (const [name, type] of Object.entries(config.parameters ?? {})) {
+      this.parameters.set(name, { type, value: 0 });
+    }
+    this.clipEvents = new Map(Object.entries(config.events ?? {}).map(([clip, events]) => [
+      clip,
+      [...events].sort((a, b) => a.time - b.time),
+    ]));
+    if (config.layers.length === 0) throw new Error('Animator: at least one layer is required');
+    for (const layer of config.layers) this.layers.push(this.createLayer(layer));
+  }
+
+  // ============================================
+  // PARAMETERS
+  // ============================================
+
+  setFloat(name: string, value: number): void {
+    this.param(name, 'float').value = value;
+  }
+
+  setInteger(name: string, value: number): void {
+    this.param(name, 'int').value = Math.trunc(value);
+  }
+
+  setBool(name: string, value: boolean): void {
+    this.param(name, 'bool').value = value ? 1 : 0;
+  }
+
+  /** Set a trigger; it stays set until a transition consumes it or resetTrigger() */
+  setTrigger(name: string): void {
+    this.param(name, 'trigger').value = 1;
+  }
+
+  resetTrigger(name: string): void {
+    this.param(name, 'trigger').value = 0;
+  }
+
+  getParameter(name: string): number | boolean {
+    const param = this.param(name);
+    return param.type === 'bool' || param.type === 'trigger' ? param.value !== 0 : param.value;
+  }
+
+  // ============================================
+  // LAYERS & STATES
+  // ============================================
+
+  setLayerWeight(layer: string | number, weight: number): void {
+    this.layer(layer).weight = Math.max(0, Math.min(1, weight));
+  }
+
+  getLayerWeight(layer: string | number): number {
+    return this.layer(layer).weight;
+  }
+
+  getCurrentState(layer: string | number = 0): string {
+    return this.layer(layer).current.name;
+  }
+
+  /** Normalized time of the current state (1 = one cycle) */
+  getNormalizedTime(layer: string | number = 0): number {
+    return this.layer(layer).current.time;
+  }
+
+  isInTransition(layer: string | number = 0): boolean {
+    return this.layer(layer).fadeDuration > 0;
+  }
+
+  /** Jump to a state immediately, bypassing transitions */
+  play(state: string, layer: string | number = 0, normalizedTime: number = 0): void {
+    this.crossFade(state, 0, layer, normalizedTime);
+  }
+
+  /** Crossfade to a state, bypassing transitions */
+  crossFade(state: string, duration: number, layer: string | number = 0, normalizedTime: number = 0): void {
+    const runtime = this.layer(layer);
+    this.enter(runtime, this.state(runtime, state), duration, normalizedTime);
+  }
+
+  // ============================================
+  // UPDATE
+  // ============================================
+
+  /**
+   * Evaluate transitions, advance states and pose the model (call in game
+   * loop instead of controller.update()).
+   * @param deltaTime - Delta time in seconds
+   */
+  update(deltaTime: number): void {
+    // Override layers are composited by the mixer's weighted average, so a
+    // layer's share is scaled against the accumulated weight below it
+    let below = 0;
+    this.layers.forEach((layer, index) => {
+      this.evaluateTransitions(layer);
+      this.advance(layer, deltaTime);
+
+      let scale = layer.weight;
+      if (!layer.additive && index > 0) {
+        scale = layer.weight >= 1 ? MAX_OVERRIDE : below * layer.weight / (1 - layer.weight);
+      }
+      if (!layer.additive) below += scale;
+
+      for (const state of layer.states.values()) {
+        const looping = state.config.loop ?? true;
+        const cycle = looping ? state.time - Math.floor(state.time) : Math.min(state.time, 1);
+        for (const child of state.children) {
+          child.action.weight = scale * state.weight * child.weight;
+          child.action.time = cycle * child.duration;
+        }
+      }
+    });
+    this.controller.getMixer().update(0);
+  }
+
+  /**
+   * Stop the animator's actions and remove listeners
+   */
+  dispose(): void {
+    const mixer = this.controller.getMixer();
+    for (const layer of this.layers) {
+      for (const state of layer.states.values()) {
+        for (const child of state.children) {
+          child.action.stop();
+          mixer.uncacheClip(child.action.getClip());
+        }
+      }
+    }
+    this.layers.length = 0;
+    this.removeAllListeners();
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private createLayer(config: AnimatorLayerConfig): LayerRuntime {
+    const names = Object.keys(config.states);
+    if (names.length === 0) throw new Error(`Animator: layer "${config.name}" has no states`);
+    const additive = config.blending === 'additive';
+    const mask = config.mask ? this.maskNodes(config.mask) : null;
+
+    const states = new Map<string, StateRuntime>();
+    for (const name of names) {
+      const stateConfig = config.states[name];
+      const clips = motionClips(stateConfig.motion);
+      const children = clips.map((clipName) => {
+        const source = this.controller.getClip(clipName);
+        if (!source) throw new Error(`Animator: unknown clip "${clipName}" in state "${name}"`);
+        const action = this.controller.getMixer().clipAction(layerClip(source, mask, additive));
+        action.blendMode = additive ? THREE.AdditiveAnimationBlendMode : THREE.NormalAnimationBlendMode;
+        action.weight = 0;
+        action.play();
+        action.paused = true;
+        return { clip: clipName, action, duration: source.duration, weight: 0 };
+      });
+      states.set(name, { name, config: stateConfig, children, time: 0, fadeStart: 0, weight: 0 });
+    }
+
+    for (const transition of config.transitions ?? []) {
+      if (transition.from !== '*' && !states.has(transition.from)) {
+        throw new Error(`Animator: transition from unknown state "${transition.from}" in layer "${config.name}"`);
+      }
+      if (!states.has(transition.to)) {
+        throw new Error(`Animator: transition to unknown state "${transition.to}" in layer "${config.name}"`);
+      }
+      if (!transition.conditions?.length && transition.exitTime === undefined) {
+        throw new Error(`Animator: transition ${transition.from} -> ${transition.to} needs conditions or an exitTime`);
+      }
+      for (const condition of transition.conditions ?? []) this.param(condition.parameter);
+    }
+
+    const initial = states.get(config.defaultState ?? names[0]);
+    if (!initial) throw new Error(`Animator: unknown default state "${config.defaultState}"`);
+    initial.weight = 1;
+
+    return {
+      config,
+      states,
+      transitions: config.transitions ?? [],
+      weight: config.weight ?? 1,
+      additive,
+      current: initial,
+      active: [initial],
+      fadeTime: 0,
+      fadeDuration: 0,
+    };
+  }
+
+  private maskNodes(mask: string[]): Set<string> {
+    const root = this.controller.getRoot();
+    const nodes = new Set<string>();
+    for (const name of mask) {
+      const object = root.getObjectByName(name);
+      if (!object) throw new Error(`Animator: mask object "${name}" not found`);
+      object.traverse((child) => nodes.add(child.name));
+    }
+    return nodes;
+  }
+
+  private evaluateTransitions(layer: LayerRuntime): void {
+    const current = layer.current;
+    for (const transition of layer.transitions) {
+      if (transition.from === '*' ? transition.to === current.name : transition.from !== current.name) continue;
+      if (transition.exitTime !== undefined && current.time < transition.exitTime) continue;
+      const conditions = transition.conditions ?? [];
+      if (!conditions.every((c) => this.test(c))) continue;
+
+      for (const condition of conditions) {
+        const param = this.parameters.get(condition.parameter)!;
+        if (param.type === 'trigger') param.value = 0;
+      }
+      this.enter(layer, this.state(layer, transition.to), transition.duration ?? 0.25, 0);
+      return;
+    }
+  }
+
+  private enter(layer: LayerRuntime, state: StateRuntime, duration: number, normalizedTime: number): void {
+    const from = layer.current;
+    if (state !== from) this.emit('transition', layer.config.name, from.name, state.name);
+
+    for (const active of layer.active) active.fadeStart = active.weight;
+    if (!layer.active.includes(state)) {
+      state.weight = 0;
+      state.fadeStart = 0;
+      layer.active.push(state);
+    }
+    state.time = normalizedTime;
+    layer.current = state;
+    layer.fadeTime = 0;
+    layer.fadeDuration = Math.max(0, duration);
+    this.emit('stateEnter', layer.config.name, state.name);
+    if (layer.fadeDuration === 0) this.finishFade(layer);
+  }
+
+  private finishFade(layer: LayerRuntime): void {
+    layer.fadeDuration = 0;
+    for (const state of layer.active) {
+      if (state === layer.current) continue;
+      state.weight = 0;
+      this.emit('stateExit', layer.config.name, state.name);
+    }
+    layer.current.weight = 1;
+    layer.active = [layer.current];
+  }
+
+  private advance(layer: LayerRuntime, dt: number): void {
+    if (layer.fadeDuration > 0) {
+      layer.fadeTime += dt;
+      const t = Math.min(1, layer.fadeTime / layer.fadeDuration);
+      for (const state of layer.active) {
+        state.weight = state === layer.current ? state.fadeStart + (1 - state.fadeStart) * t : state.fadeStart * (1 - t);
+      }
+      if (t >= 1) this.finishFade(layer);
+    }
+
+    for (const state of layer.active) {
+      this.updateChildWeights(state);
+      if (state.children.length === 0) continue;
+      // Blend tree children share a cycle length, weighted by their blend
+      const duration = state.children.reduce((sum, c) => sum + c.duration * c.weight, 0);
+      const speed = (state.config.speed ?? 1) * (state.config.speedParameter ? this.param(state.config.speedParameter).value : 1);
+      const previous = state.time;
+      if (duration > 0) state.time += dt * speed / duration;
+      if (!(state.config.loop ?? true)) state.time = Math.min(state.time, 1);
+      if (state === layer.current) this.fireEvents(layer, state, previous);
+    }
+  }
+
+  private updateChildWeights(state: StateRuntime): void {
+    const motion = state.config.motion;
+    const children = state.children;
+    if (children.length === 0) return;
+    if (motion === undefined || typeof motion === 'string') {
+      children[0].weight = 1;
+      return;
+    }
+    const weights = motion.type === '1d'
+      ? blend1D(motion.children.map((c) => c.threshold), this.param(motion.parameter).value)
+      : blend2D(
+          motion.children.map((c) => c.position),
+          [this.param(motion.parameters[0]).value, this.param(motion.parameters[1]).value]
+        );
+    children.forEach((child, i) => { child.weight = weights[i]; });
+  }
+
+  private fireEvents(layer: LayerRuntime, state: StateRuntime, previous: number): void {
+    if (state.time <= previous) return;
+    const child = state.children.reduce((best, c) => (c.weight > best.weight ? c : best));
+    const events = this.clipEvents.get(child.clip);
+    if (!events || child.duration <= 0) return;
+
+    // Check each cycle the step crossed
+    for (let cycle = Math.floor(previous); cycle <= Math.floor(state.time); cycle++) {
+      for (const event of events) {
+        const at = cycle + event.time / child.duration;
+        if (at > previous && at <= state.time) this.emit('event', event.name, state.name, layer.config.name);
+      }
+    }
+  }
+
+  private test(condition: AnimatorCondition): boolean {
+    const param = this.parameters.get(condition.parameter)!;
+    if (param.type === 'trigger') return param.value !== 0;
+    if (param.type === 'bool') return (param.value !== 0) === (condition.value ?? true);
+    const value = Number(condition.value ?? 0);
+    switch (condition.op ?? '>') {
+      case '>': return param.value > value;
+      case '<': return param.value < value;
+      case '>=': return param.value >= value;
+      case '<=': return param.value <= value;
+      case '==': return param.value === value;
+      case '!=': return param.value !== value;
+    }
+  }
+
+  private param(name: string, type?: AnimatorParameterType): { type: AnimatorParameterType; value: number } {
+    const param = this.parameters.get(name);
+    if (!param) throw new Error(`Animator: unknown parameter "${name}"`);
+    if (type && param.type !== type) throw new Error(`Animator: parameter "${name}" is a ${param.type}, not a ${type}`);
+    return param;
+  }
+
+  private layer(layer: string | number): LayerRuntime {
+    const runtime = typeof layer === 'number' ? this.layers[layer] : this.layers.find((l) => l.config.name === layer);
+    if (!runtime) throw new Error(`Animator: unknown layer "${layer}"`);
+    return runtime;
+  }
+
+  private state(layer: LayerRuntime, name: string): StateRuntime {
+    const state = layer.states.get(name);
+    if (!state) throw new Error(`Animator: unknown state "${name}" in layer "${layer.config.name}"`);
+    return state;
+  }
+}
+
+function motionClips(motion: AnimatorMotion | undefined): string[] {
+  if (motion === undefined) return [];
+  if (typeof motion === 'string') return [motion];
+  return motion.children.map((c) => c.clip);
+}
+
+/** Copy of a clip limited to the mask, made additive against its first frame if needed */
+function layerClip(source: THREE.AnimationClip, mask: Set<string> | null, additive: boolean): THREE.AnimationClip {
+  const clip = source.clone();
+  if (mask) {
+    clip.tracks = clip.tracks.filter((track) => mask.has(THREE.PropertyBinding.parseTrackName(track.name).nodeName));
+  }
+  return additive ? THREE.AnimationUtils.makeClipAdditive(clip) : clip;
+}
+
+/** Weights of children at ascending thresholds for a parameter value */
+export function blend1D(thresholds: number[], value: number): number[] {
+  const weights = thresholds.map(() => 0);
+  if (thresholds.length === 0) return weights;
+  if (value <= thresholds[0]) {
+    weights[0] = 1;
+    return weights;
+  }
+  for (let i = 1; i < thresholds.length; i++) {
+    if (value <= thresholds[i]) {
+      const t = (value - thresholds[i - 1]) / (thresholds[i] - thresholds[i - 1]);
+      weights[i - 1] = 1 - t;
+      weights[i] = t;
+      return weights;
+    }
+  }
+  weights[thresholds.length - 1] = 1;
+  return weights;
+}
+
+/** Gradient-band weights of children placed at 2D positions */
+export function blend2D(positions: Array<[number, number]>, [px, py]: [number, number]): number[] {
+  const weights = positions.map(([ix, iy], i) => {
+    let weight = 1;
+    positions.forEach(([jx, jy], j) => {
+      if (i === j) return;
+      const ex = jx - ix;
+      const ey = jy - iy;
+      const lengthSq = ex * ex + ey * ey;
+      if (lengthSq === 0) return;
+      const h = 1 - ((px - ix) * ex + (py - iy) * ey) / lengthSq;
+      weight = Math.min(weight, Math.max(0, h));
+    });
+    return weight;
+  });
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return total > 0 ? weights.map((w) => w / total) : weights;
+}
@@ -7,3 +7,4 @@
  */
 
 export * from './AnimationController.js';
+export * from './Animator.js';
@@ -71,6 +71,21 @@ export { TextureLoader3D, type TextureLoader3DConfig, type TextureOptions } from
 
 // Animation
 export { AnimationController, type AnimationControllerConfig, type PlayOptions } from './animation/AnimationController.js';
+export {
+  Animator,
+  blend1D,
+  blend2D,
+  type AnimatorConfig,
+  type AnimatorEvents,
+  type AnimatorLayerConfig,
+  type AnimatorStateConfig,
+  type AnimatorTransition,
+  type AnimatorCondition,
+  type AnimatorMotion,
+  type AnimatorParameterType,
+  type BlendTree1D,
+  type BlendTree2D,
+} from './animation/Animator.js';
 
 // Events (3D Pointer Event System)
 export { RaycastEventSystem } from './events/RaycastEventSystem.js';
@@ -84,3 +99,24 @@ export type {
 // Instancing (GPU Instance Manager)
 export { InstanceManager } from './instancing/InstanceManager.js';
 export type { IInstanceManager, IInstanceHandle } from './instancing/index.js';
+
+// Particles (GPU-instanced 3D effects)
+export { ParticleSystem3D, ParticlePool3D, parseParticleEffect3D } from './particles/index.js';
+export type {
+  ParticleSystem3DOptions,
+  ParticleSystem3DEventMap,
+  ParticlePool3DConfig,
+  ParticleEffect3DConfig,
+  EmissionShape3D,
+} from './particles/index.js';
+
+// Navigation (navmesh pathfinding)
+export { NavMesh } from './navigation/index.js';
+export type {
+  NavMeshData,
+  NavMeshBuildOptions,
+  NavMeshPathOptions,
+  NavObstacleShape,
+  NavObstacleOptions,
+  NavMeshDebugOptions,
+} from './navigation/index.js';
@@ -0,0 +1,735 @@
+import * as THREE from 'three';
+import type { PathLineOptions } from '../helpers/Pathfinder.js';
+
+/** Point in world space */
+export interface NavPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Serializable navmesh: shared vertices and convex polygons indexing them.
+ * Produced by NavMesh.toJSON() or an offline baker.
+ */
+export interface NavMeshData {
+  /** Flat xyz vertex positions */
+  vertices: number[];
+  /** Convex polygons as vertex indices (any winding) */
+  polygons: number[][];
+  /** Optional traversal cost multiplier per polygon (default: 1) */
+  costs?: number[];
+}
+
+/**
+ * Configuration for building a navmesh from geometry
+ */
+export interface NavMeshBuildOptions {
+  /**
+   * Steepest walkable slope in degrees
+   * @default 45
+   */
+  maxSlope?: number;
+
+  /**
+   * Distance within which vertices are merged so neighbouring triangles connect
+   * @default 0.001
+   */
+  weldTolerance?: number;
+}
+
+/**
+ * Options for NavMesh.findPath
+ */
+export interface NavMeshPathOptions {
+  /**
+   * Maximum distance from the navmesh for start and end points
+   * @default Infinity
+   */
+  maxDistance?: number;
+
+  /**
+   * Return the polygon-center route instead of the funnel-smoothed one
+   * @default false
+   */
+  raw?: boolean;
+
+  /**
+   * Maximum polygons expanded by A*
+   * @default 10000
+   */
+  maxIterations?: number;
+}
+
+/** Obstacle footprint on the XZ plane */
+export type NavObstacleShape =
+  | { type: 'circle'; x: number; z: number; radius: number }
+  | { type: 'box'; minX: number; minZ: number; maxX: number; maxZ: number };
+
+export interface NavObstacleOptions {
+  /**
+   * Cost multiplier for covered polygons; Infinity blocks them
+   * @default Infinity
+   */
+  cost?: number;
+}
+
+/**
+ * Options for createDebugMesh
+ */
+export interface NavMeshDebugOptions {
+  /** @default 0x2196f3 */
+  color?: number;
+  /** Color of blocked polygons @default 0xf44336 */
+  blockedColor?: number;
+  /** @default 0.35 */
+  opacity?: number;
+  /** @default 0.05 */
+  yOffset?: number;
+}
+
+interface NavPolygon {
+  index: number;
+  vertices: number[];
+  centroid: THREE.Vector3;
+  /** Plane normal (unit, facing up) and offset for height queries */
+  normal: THREE.Vector3;
+  constant: number;
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+  links: Array<{ polygon: number; a: number; b: number }>;
+  baseCost: number;
+  obstacleCost: number;
+}
+
+/** Binary min-heap entry for A* */
+interface OpenNode {
+  polygon: number;
+  f: number;
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * NavMesh - Polygon navigation mesh for 3D levels of arbitrary geometry.
+ *
+ * Build one from walkable (upward-facing, not too steep) triangles of
+ * level meshes, or load a baked NavMeshData. Paths are found with A* over
+ * polygons and straightened with the funnel algorithm. Dynamic obstacles
+ * flag the polygons under their footprint as blocked or more expensive.
+ *
+ * @example
+ * ```typescript
+ * const navMesh = NavMesh.fromObject(levelScene, { maxSlope: 40 });
+ * const path = navMesh.findPath(player.position, target);
+ * if (path) scene.add(navMesh.createPathLine(path));
+ *
+ * const crate = navMesh.addObstacle({ type: 'box', minX: 2, minZ: -1, maxX: 4, maxZ: 1 });
+ * navMesh.removeObstacle(crate);
+ * ```
+ */
+export class NavMesh {
+  /**
+   * Build from all meshes under an object (world transforms applied)
+   */
+  static fromObject(object: THREE.Object3D, options?: NavMeshBuildOptions): NavMesh {
+    object.updateWorldMatrix(true, true);
+    const positions: number[] = [];
+    const vertex = new THREE.Vector3();
+    object.traverse((child) => {
+      const mesh = child as THREE.Mesh;
+      if (!mesh.isMesh) return;
+      const geometry = mesh.geometry;
+      const position = geometry.getAttribute('position');
+      const index = geometry.getIndex();
+      const count = index ? index.count : position.count;
+      for (let i = 0; i < count; i++) {
+        vertex.fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(mesh.matrixWorld);
+        positions.push(vertex.x, vertex.y, vertex.z);
+      }
+    });
+    return NavMesh.fromTriangles(positions, undefined, options);
+  }
+
+  /**
+   * Build from triangles: flat xyz positions, optionally indexed
+   */
+  static fromTriangles(positions: ArrayLike<number>, indices?: ArrayLike<number>, options?: NavMeshBuildOptions): NavMesh {
+    const minUp = Math.cos(THREE.MathUtils.degToRad(options?.maxSlope ?? 45));
+    const tolerance = options?.weldTolerance ?? 0.001;
+    const vertices: number[] = [];
+    const welded = new Map<string, number>();
+    const polygons: number[][] = [];
+
+    const weld = (i: number): number => {
+      const x = positions[i * 3];
+      const y = positions[i * 3 + 1];
+      const z = positions[i * 3 + 2];
+      const key = `${Math.round(x / tolerance)},${Math.round(y / tolerance)},${Math.round(z / tolerance)}`;
+      let id = welded.get(key);
+      if (id === undefined) {
+        id = vertices.length / 3;
+        vertices.push(x, y, z);
+        welded.set(key, id);
+      }
+      return id;
+    };
+
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const triangle = new THREE.Triangle();
+    const normal = new THREE.Vector3();
+    const count = indices ? indices.length : positions.length / 3;
+    for (let t = 0; t + 2 < count; t += 3) {
+      const ia = indices ? indices[t] : t;
+      const ib = indices ? indices[t + 1] : t + 1;
+      const ic = indices ? indices[t + 2] : t + 2;
+      a.fromArray(positions as number[], ia * 3);
+      b.fromArray(positions as number[], ib * 3);
+      c.fromArray(positions as number[], ic * 3);
+      triangle.set(a, b, c);
+      if (triangle.getArea() < EPSILON) continue;
+      triangle.getNormal(normal);
+      // Front faces must point up: walls, steep slopes and ceilings are skipped
+      if (normal.y < minUp) continue;
+
+      const polygon = [weld(ia), weld(ib), weld(ic)];
+      if (new Set(polygon).size === 3) polygons.push(polygon);
+    }
+
+    return new NavMesh({ vertices, polygons });
+  }
+
+  private readonly vertices: THREE.Vector3[];
+  private readonly polygons: NavPolygon[];
+  private readonly obstacles = new Map<number, { shape: NavObstacleShape; cost: number; polygons: number[] }>();
+  private nextObstacleId = 1;
+
+  constructor(data: NavMeshData) {
+    this.vertices = [];
+    for (let i = 0; i + 2 < data.vertices.length; i += 3) {
+      this.vertices.push(new THREE.Vector3(data.vertices[i], data.vertices[i + 1], data.vertices[i + 2]));
+    }
+    this.polygons = data.polygons.map((indices, index) => this.createPolygon(indices, index, data.costs?.[index] ?? 1));
+    this.linkPolygons();
+  }
+
+  // ============================================
+  // QUERIES
+  // ============================================
+
+  get polygonCount(): number {
+    return this.polygons.length;
+  }
+
+  /**
+   * Index of the polygon under (or nearest to) a point, or -1 if none is
+   * within maxDistance
+   */
+  findPolygon(point: NavPoint, maxDistance: number = Infinity): number {
+    return this.locate(point, maxDistance)?.polygon ?? -1;
+  }
+
+  /**
+   * Closest point on the navmesh, or null if none is within maxDistance
+   */
+  closestPoint(point: NavPoint, maxDistance: number = Infinity): THREE.Vector3 | null {
+    return this.locate(point, maxDistance)?.point ?? null;
+  }
+
+  /**
+   * Whether a point is over an unblocked polygon (within maxDistance vertically)
+   */
+  isWalkable(point: NavPoint, maxDistance: number = 0.5): boolean {
+    const hit = this.locate(point, maxDistance);
+    return hit !== null && this.polygons[hit.polygon].obstacleCost !== Infinity;
+  }
+
+  /**
+   * Find a path between two points
+   * @returns Points from start to end on the navmesh, or null if unreachable
+   */
+  findPath(start: NavPoint, end: NavPoint, options?: NavMeshPathOptions): THREE.Vector3[] | null {
+    const maxDistance = options?.maxDistance ?? Infinity;
+    const from = this.locate(start, maxDistance);
+    const to = this.locate(end, maxDistance);
+    if (!from || !to) return null;
+    if (this.polygons[to.polygon].obstacleCost === Infinity) return null;
+
+    const route = this.search(from.polygon, from.point, to.point, to.polygon, options?.maxIterations ?? 10000);
+    if (!route) return null;
+    if (route.length === 1) return [from.point, to.point];
+    if (options?.raw) {
+      return [from.point, ...route.slice(1, -1).map((i) => this.polygons[i].centroid.clone()), to.point];
+    }
+    return this.funnel(route, from.point, to.point);
+  }
+
+  // ============================================
+  // OBSTACLES
+  // ============================================
+
+  /**
+   * Block (or make costlier) the polygons overlapping a footprint
+   * @returns Obstacle id for updateObstacle/removeObstacle
+   */
+  addObstacle(shape: NavObstacleShape, options?: NavObstacleOptions): number {
+    const id = this.nextObstacleId++;
+    this.obstacles.set(id, { shape, cost: options?.cost ?? Infinity, polygons: [] });
+    this.applyObstacle(id);
+    return id;
+  }
+
+  /**
+   * Move or resize an obstacle
+   */
+  updateObstacle(id: number, shape: NavObstacleShape): void {
+    const obstacle = this.obstacles.get(id);
+    if (!obstacle) return;
+    const affected = obstacle.polygons;
+    obstacle.shape = shape;
+    this.applyObstacle(id);
+    this.refreshCosts(affected);
+  }
+
+  removeObstacle(id: number): void {
+    const obstacle = this.obstacles.get(id);
+    if (!obstacle) return;
+    this.obstacles.delete(id);
+    this.refreshCosts(obstacle.polygons);
+  }
+
+  clearObstacles(): void {
+    this.obstacles.clear();
+    for (const polygon of this.polygons) polygon.obstacleCost = 1;
+  }
+
+  /**
+   * Whether a polygon is currently blocked by an obstacle
+   */
+  isBlocked(polygon: number): boolean {
+    return this.polygons[polygon]?.obstacleCost === Infinity;
+  }
+
+  // ============================================
+  // DEBUG & SERIALIZATION
+  // ============================================
+
+  /**
+   * Create a visual debug line for a path
+   */
+  createPathLine(path: NavPoint[], options?: PathLineOptions): THREE.Line {
+    const color = options?.color ?? 0x00ff00;
+    const lineWidth = options?.lineWidth ?? 2;
+    const yOffset = options?.yOffset ?? 0.1;
+
+    const points = path.map((p) => new THREE.Vector3(p.x, p.y + yOffset, p.z));
+    const geometry = new THREE.BufferGeometry().setFromPoints(points);
+    const material = new THREE.LineBasicMaterial({
+      color,
+      linewidth: lineWidth,
+    });
+
+    return new THREE.Line(geometry, material);
+  }
+
+  /**
+   * Create a translucent overlay of the polygons, blocked ones highlighted.
+   * Rebuild it after obstacles change.
+   */
+  createDebugMesh(options?: NavMeshDebugOptions): THREE.Mesh {
+    const walkable = new THREE.Color(options?.color ?? 0x2196f3);
+    const blocked = new THREE.Color(options?.blockedColor ?? 0xf44336);
+    const yOffset = options?.yOffset ?? 0.05;
+    const positions: number[] = [];
+    const colors: number[] = [];
+
+    for (const polygon of this.polygons) {
+      const color = polygon.obstacleCost === Infinity ? blocked : walkable;
+      const [first, ...rest] = polygon.vertices.map((i) => this.vertices[i]);
+      for (let i = 0; i + 1 < rest.length; i++) {
+        for (const v of [first, rest[i], rest[i + 1]]) {
+          positions.push(v.x, v.y + yOffset, v.z);
+          colors.push(color.r, color.g, color.b);
+        }
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    const material = new THREE.MeshBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      opacity: options?.opacity ?? 0.35,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+    return new THREE.Mesh(geometry, material);
+  }
+
+  /**
+   * Export for baking; obstacles are not included
+   */
+  toJSON(): NavMeshData {
+    const data: NavMeshData = {
+      vertices: this.vertices.flatMap((v) => [v.x, v.y, v.z]),
+      polygons: this.polygons.map((p) => [...p.vertices]),
+    };
+    if (this.polygons.some((p) => p.baseCost !== 1)) data.costs = this.polygons.map((p) => p.baseCost);
+    return data;
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private createPolygon(indices: number[], index: number, baseCost: number): NavPolygon {
+    if (indices.length < 3) throw new Error(`NavMesh: polygon ${index} has fewer than 3 vertices`);
+    const points = indices.map((i) => {
+      const v = this.vertices[i];
+      if (!v) throw new Error(`NavMesh: polygon ${index} references missing vertex ${i}`);
+      return v;
+    });
+
+    const centroid = new THREE.Vector3();
+    for (const p of points) centroid.add(p);
+    centroid.divideScalar(points.length);
+
+    // Newell's method handles any winding
+    const normal = new THREE.Vector3();
+    points.forEach((p, i) => {
+      const q = points[(i + 1) % points.length];
+      normal.x += (p.y - q.y) * (p.z + q.z);
+      normal.y += (p.z - q.z) * (p.x + q.x);
+      normal.z += (p.x - q.x) * (p.y + q.y);
+    });
+    normal.normalize();
+    if (normal.y < 0) normal.negate();
+
+    return {
+      index,
+      vertices: indices,
+      centroid,
+      normal,
+      constant: -normal.dot(centroid),
+      minX: Math.min(...points.map((p) => p.x)),
+      maxX: Math.max(...points.map((p) => p.x)),
+      minZ: Math.min(...points.map((p) => p.z)),
+      maxZ: Math.max(...points.map((p) => p.z)),
+      links: [],
+      baseCost,
+      obstacleCost: 1,
+    };
+  }
+
+  private linkPolygons(): void {
+    const edges = new Map<string, { polygon: number; a: number; b: number }>();
+    for (const polygon of this.polygons) {
+      const n = polygon.vertices.length;
+      for (let i = 0; i < n; i++) {
+        const a = polygon.vertices[i];
+        const b = polygon.vertices[(i + 1) % n];
+        const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+        const other = edges.get(key);
+        if (other) {
+          polygon.links.push({ polygon: other.polygon, a, b });
+          this.polygons[other.polygon].links.push({ polygon: polygon.index, a: other.a, b: other.b });
+        } else {
+          edges.set(key, { polygon: polygon.index, a, b });
+        }
+      }
+    }
+  }
+
+  /** Height of a polygon's plane at (x, z) */
+  private heightAt(polygon: NavPolygon, x: number, z: number): number {
+    const n = polygon.normal;
+    return n.y > EPSILON ? -(n.x * x + n.z * z + polygon.constant) / n.y : polygon.centroid.y;
+  }
+
+  private containsXZ(polygon: NavPolygon, x: number, z: number): boolean {
+    if (x < polygon.minX - EPSILON || x > polygon.maxX + EPSILON || z < polygon.minZ - EPSILON || z > polygon.maxZ + EPSILON) {
+      return false;
+    }
+    let sign = 0;
+    const n = polygon.vertices.length;
+    for (let i = 0; i < n; i++) {
+      const a = this.vertices[polygon.vertices[i]];
+      const b = this.vertices[polygon.vertices[(i + 1) % n]];
+      const cross = (b.x - a.x) * (z - a.z) - (b.z - a.z) * (x - a.x);
+      if (Math.abs(cross) < EPSILON) continue;
+      if (sign === 0) sign = Math.sign(cross);
+      else if (Math.sign(cross) !== sign) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Polygons containing the point on XZ win (nearest height first); only
+   * when there are none is the point snapped to the closest boundary
+   */
+  private locate(point: NavPoint, maxDistance: number): { polygon: number; point: THREE.Vector3 } | null {
+    const target = new THREE.Vector3(point.x, point.y, point.z);
+    const pick = (contained: boolean) => {
+      let best: { polygon: number; point: THREE.Vector3 } | null = null;
+      let bestDistance = maxDistance;
+      for (const polygon of this.polygons) {
+        if (this.containsXZ(polygon, point.x, point.z) !== contained) continue;
+        const candidate = contained
+          ? new THREE.Vector3(point.x, this.heightAt(polygon, point.x, point.z), point.z)
+          : this.closestOnBoundary(polygon, target);
+        const distance = candidate.distanceTo(target);
+        if (distance <= bestDistance) {
+          bestDistance = distance;
+          best = { polygon: polygon.index, point: candidate };
+        }
+      }
+      return best;
+    };
+    return pick(true) ?? pick(false);
+  }
+
+  private closestOnBoundary(polygon: NavPolygon, target: THREE.Vector3): THREE.Vector3 {
+    const segment = new THREE.Line3();
+    const closest = new THREE.Vector3();
+    const result = new THREE.Vector3();
+    let best = Infinity;
+    const n = polygon.vertices.length;
+    for (let i = 0; i < n; i++) {
+      segment.set(this.vertices[polygon.vertices[i]], this.vertices[polygon.vertices[(i + 1) % n]]);
+      segment.closestPointToPoint(target, true, closest);
+      const distance = closest.distanceToSquared(target);
+      if (distance < best) {
+        best = distance;
+        result.copy(closest);
+      }
+    }
+    return result;
+  }
+
+  private cost(polygon: NavPolygon): number {
+    return polygon.baseCost * polygon.obstacleCost;
+  }
+
+  /** A* over polygons; returns polygon indices from start to goal */
+  private search(start: number, startPoint: THREE.Vector3, endPoint: THREE.Vector3, goal: number, maxIterations: number): number[] | null {
+    if (start === goal) return [start];
+
+    const g = new Map<number, number>([[start, 0]]);
+    const cameFrom = new Map<number, number>();
+    const position = new Map<number, THREE.Vector3>([[start, startPoint]]);
+    const closed = new Set<number>();
+    const open: OpenNode[] = [{ polygon: start, f: startPoint.distanceTo(endPoint) }];
+    let iterations = 0;
+
+    while (open.length > 0 && iterations++ < maxIterations) {
+      const current = heapPop(open);
+      if (closed.has(current.polygon)) continue;
+      if (current.polygon === goal) {
+        const route = [goal];
+        let node = goal;
+        while (cameFrom.has(node)) {
+          node = cameFrom.get(node)!;
+          route.unshift(node);
+        }
+        return route;
+      }
+      closed.add(current.polygon);
+
+      const from = position.get(current.polygon)!;
+      for (const link of this.polygons[current.polygon].links) {
+        const neighbor = this.polygons[link.polygon];
+        if (closed.has(neighbor.index)) continue;
+        const cost = this.cost(neighbor);
+        if (cost === Infinity) continue;
+
+        // Cross the shared edge at its midpoint; the goal is entered at the end point
+        const to = neighbor.index === goal
+          ? endPoint
+          : this.vertices[link.a].clone().add(this.vertices[link.b]).multiplyScalar(0.5);
+        const tentative = g.get(current.polygon)! + from.distanceTo(to) * cost;
+        if (tentative >= (g.get(neighbor.index) ?? Infinity)) continue;
+
+        g.set(neighbor.index, tentative);
+        cameFrom.set(neighbor.index, current.polygon);
+        position.set(neighbor.index, to);
+        heapPush(open, { polygon: neighbor.index, f: tentative + to.distanceTo(endPoint) });
+      }
+    }
+    return null;
+  }
+
+  /** Simple stupid funnel algorithm on the XZ plane */
+  private funnel(route: number[], start: THREE.Vector3, end: THREE.Vector3): THREE.Vector3[] {
+    const portals: Array<{ left: THREE.Vector3; right: THREE.Vector3 }> = [{ left: start, right: start }];
+    for (let i = 0; i + 1 < route.length; i++) {
+      const polygon = this.polygons[route[i]];
+      const link = polygon.links.find((l) => l.polygon === route[i + 1])!;
+      const a = this.vertices[link.a];
+      const b = this.vertices[link.b];
+      // Left/right as seen travelling from this polygon's centre through the edge
+      const mx = (a.x + b.x) / 2 - polygon.centroid.x;
+      const mz = (a.z + b.z) / 2 - polygon.centroid.z;
+      const aIsLeft = cross2(mx, mz, a.x - polygon.centroid.x, a.z - polygon.centroid.z) > 0;
+      portals.push(aIsLeft ? { left: a, right: b } : { left: b, right: a });
+    }
+    portals.push({ left: end, right: end });
+
+    const path: THREE.Vector3[] = [start.clone()];
+    let apex = start;
+    let left = portals[0].left;
+    let right = portals[0].right;
+    let apexIndex = 0;
+    let leftIndex = 0;
+    let rightIndex = 0;
+
+    for (let i = 1; i < portals.length; i++) {
+      const portal = portals[i];
+
+      // Narrow the right side
+      if (side(apex, right, portal.right) >= 0) {
+        if (samePoint(apex, right) || side(apex, left, portal.right) < 0) {
+          right = portal.right;
+          rightIndex = i;
+        } else {
+          // Right crossed over left: the left point is a corner
+          apex = left;
+          apexIndex = leftIndex;
+          if (!samePoint(path[path.length - 1], apex)) path.push(apex.clone());
+          left = right = apex;
+          leftIndex = rightIndex = apexIndex;
+          i = apexIndex;
+          continue;
+        }
+      }
+
+      // Narrow the left side
+      if (side(apex, left, portal.left) <= 0) {
+        if (samePoint(apex, left) || side(apex, right, portal.left) > 0) {
+          left = portal.left;
+          leftIndex = i;
+        } else {
+          apex = right;
+          apexIndex = rightIndex;
+          if (!samePoint(path[path.length - 1], apex)) path.push(apex.clone());
+          left = right = apex;
+          leftIndex = rightIndex = apexIndex;
+          i = apexIndex;
+          continue;
+        }
+      }
+    }
+
+    if (!samePoint(path[path.length - 1], end)) path.push(end.clone());
+    return path;
+  }
+
+  private applyObstacle(id: number): void {
+    const obstacle = this.obstacles.get(id)!;
+    obstacle.polygons = this.polygons.filter((p) => this.overlaps(p, obstacle.shape)).map((p) => p.index);
+    this.refreshCosts(obstacle.polygons);
+  }
+
+  private refreshCosts(polygons: number[]): void {
+    for (const index of polygons) this.polygons[index].obstacleCost = 1;
+    for (const obstacle of this.obstacles.values()) {
+      for (const index of obstacle.polygons) {
+        const polygon = this.polygons[index];
+        polygon.obstacleCost = Math.max(polygon.obstacleCost, obstacle.cost);
+      }
+    }
+  }
+
+  private overlaps(polygon: NavPolygon, shape: NavObstacleShape): boolean {
+    const points = polygon.vertices.map((i) => this.vertices[i]);
+    if (shape.type === 'circle') {
+      if (polygon.maxX < shape.x - shape.radius || polygon.minX > shape.x + shape.radius
+        || polygon.maxZ < shape.z - shape.radius || polygon.minZ > shape.z + shape.radius) {
+        return false;
+      }
+      if (this.containsXZ(polygon, shape.x, shape.z)) return true;
+      return points.some((a, i) => {
+        const b = points[(i + 1) % points.length];
+        return distanceToSegmentXZ(shape.x, shape.z, a, b) < shape.radius;
+      });
+    }
+
+    // Separating axis test: box axes, then polygon edge normals
+    if (polygon.maxX <= shape.minX || polygon.minX >= shape.maxX || polygon.maxZ <= shape.minZ || polygon.minZ >= shape.maxZ) {
+      return false;
+    }
+    const corners = [
+      [shape.minX, shape.minZ], [shape.maxX, shape.minZ], [shape.maxX, shape.maxZ], [shape.minX, shape.maxZ],
+    ];
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      const nx = b.z - a.z;
+      const nz = a.x - b.x;
+      const project = (x: number, z: number) => x * nx + z * nz;
+      const polygonValues = points.map((p) => project(p.x, p.z));
+      const boxValues = corners.map(([x, z]) => project(x, z));
+      if (Math.max(...polygonValues) <= Math.min(...boxValues) + EPSILON
+        || Math.max(...boxValues) <= Math.min(...polygonValues) + EPSILON) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+function cross2(ax: number, az: number, bx: number, bz: number): number {
+  return ax * bz - az * bx;
+}
+
+/** > 0 when c is left of the ray a→b on the XZ plane */
+function side(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): number {
+  return cross2(b.x - a.x, b.z - a.z, c.x - a.x, c.z - a.z);
+}
+
+function samePoint(a: THREE.Vector3, b: THREE.Vector3): boolean {
+  return Math.abs(a.x - b.x) < EPSILON && Math.abs(a.z - b.z) < EPSILON && Math.abs(a.y - b.y) < EPSILON;
+}
+
+function distanceToSegmentXZ(x: number, z: number, a: THREE.Vector3, b: THREE.Vector3): number {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const lengthSq = dx * dx + dz * dz;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - a.x) * dx + (z - a.z) * dz) / lengthSq)) : 0;
+  return Math.hypot(x - (a.x + dx * t), z - (a.z + dz * t));
+}
+
+function heapPush(heap: OpenNode[], node: OpenNode): void {
+  heap.push(node);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].f <= heap[i].f) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function heapPop(heap: OpenNode[]): OpenNode {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const l = i * 2 + 1;
+      const r = l + 1;
+      let smallest = i;
+      if (l < heap.length && heap[l].f < heap[smallest].f) smallest = l;
+      if (r < heap.length && heap[r].f < heap[smallest].f) smallest = r;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+}
@@ -0,0 +1,10 @@
+export { NavMesh } from './NavMesh.js';
+export type {
+  NavPoint,
+  NavMeshData,
+  NavMeshBuildOptions,
+  NavMeshPathOptions,
+  NavObstacleShape,
+  NavObstacleOptions,
+  NavMeshDebugOptions,
+} from './NavMesh.js';
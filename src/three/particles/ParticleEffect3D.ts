@@ -0,0 +1,287 @@
+import type { RandomSource } from '../../contracts/Random.js';
+import type {
+  ParticleRange,
+  ValueCurve,
+  ColorGradient,
+  ParticleBurst,
+} from '../../particles/ParticleEffect.js';
+
+// ---------------------------------------------------------------------------
+// JSON effect types
+// ---------------------------------------------------------------------------
+
+export interface Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Emission volume relative to the system's origin.
+ * `surface` / `edge` emit from the outline only. Circles lie in the XZ plane.
+ */
+export type EmissionShape3D =
+  | { type: 'point' }
+  | { type: 'sphere'; radius: number; surface?: boolean }
+  | { type: 'hemisphere'; radius: number; surface?: boolean }
+  | { type: 'box'; width: number; height: number; depth: number }
+  | { type: 'circle'; radius: number; edge?: boolean };
+
+/**
+ * JSON-serializable 3D particle effect. All fields are optional; units are
+ * world units and seconds.
+ */
+export interface ParticleEffect3DConfig {
+  /** Pool size (default: 200) */
+  maxParticles?: number;
+  /** Particles per second while emitting (default: 20) */
+  rate?: number;
+  /** Seconds of emission after play(); omit for endless emission */
+  duration?: number;
+  /** Bursts fired on a schedule after play() */
+  bursts?: ParticleBurst[];
+  /** Lifetime in seconds (default: 1–2) */
+  lifetime?: ParticleRange;
+  /** Initial speed in units/sec (default: 1–3) */
+  speed?: ParticleRange;
+  /** Spawn volume (default: point) */
+  emission?: EmissionShape3D;
+  /** Central emit direction (default: +Y) */
+  direction?: Vector3Like;
+  /** Half-angle in radians around `direction` (default: PI, every direction) */
+  spread?: number;
+  /** Fire away from the emission shape's center instead of along `direction` */
+  outward?: boolean;
+  /** Acceleration in units/sec² (default: none) */
+  gravity?: Vector3Like;
+  /** Fraction of velocity lost per second (default: 0) */
+  drag?: number;
+  /** Quad size in world units over the lifetime (default: 1) */
+  size?: { start: number; end: number } | ValueCurve;
+  /** Alpha over the lifetime (default: 1 → 0) */
+  alpha?: { start: number; end: number } | ValueCurve;
+  /** Tint over the lifetime; 0xRRGGBB or '#rrggbb' (default: white) */
+  color?: { start: number | string; end: number | string } | ColorGradient;
+  /** Initial rotation in radians (default: 0) */
+  rotation?: ParticleRange;
+  /** Spin in radians/sec (default: 0) */
+  angularVelocity?: ParticleRange;
+  /** 'additive' (default) or 'normal' alpha blending */
+  blending?: 'additive' | 'normal';
+  /**
+   * 'camera' faces the camera (default); 'vertical' only turns around the
+   * world Y axis, for flames and smoke columns.
+   */
+  billboard?: 'camera' | 'vertical';
+  /**
+   * 'world' (default) leaves live particles behind when the system moves;
+   * 'local' moves them with it.
+   */
+  space?: 'world' | 'local';
+  /**
+   * Distance in world units over which particles fade out where they meet
+   * scene geometry. Requires a depth texture (see setDepthTexture). 0 = off.
+   */
+  softness?: number;
+  /** Texture id resolved through the system's `textures` option; omit for a soft round dot */
+  texture?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const EMISSION_TYPES = ['point', 'sphere', 'hemisphere', 'box', 'circle'];
+
+/**
+ * Validate JSON effect data and normalize it into a ParticleEffect3DConfig.
+ * '#rrggbb' color strings become numbers. Throws with the offending path on
+ * invalid data.
+ */
+export function parseParticleEffect3D(data: unknown, path = 'effect'): ParticleEffect3DConfig {
+  if (!isObject(data)) throw new Error(`${path}: expected an object`);
+  const config = { ...data } as Record<string, any>;
+
+  for (const key of ['maxParticles', 'rate', 'duration', 'spread', 'drag', 'softness']) {
+    if (config[key] !== undefined) expectNumber(config[key], `${path}.${key}`);
+  }
+  for (const key of ['lifetime', 'speed', 'rotation', 'angularVelocity']) {
+    if (config[key] !== undefined) expectRange(config[key], `${path}.${key}`);
+  }
+  for (const key of ['size', 'alpha']) {
+    if (config[key] !== undefined) expectCurve(config[key], `${path}.${key}`);
+  }
+  for (const key of ['direction', 'gravity']) {
+    if (config[key] !== undefined) expectVector(config[key], `${path}.${key}`);
+  }
+  if (config.outward !== undefined && typeof config.outward !== 'boolean') {
+    throw new Error(`${path}.outward: expected a boolean`);
+  }
+  if (config.color !== undefined) config.color = normalizeColor(config.color, `${path}.color`);
+  if (config.blending !== undefined) expectOneOf(config.blending, ['additive', 'normal'], `${path}.blending`);
+  if (config.billboard !== undefined) expectOneOf(config.billboard, ['camera', 'vertical'], `${path}.billboard`);
+  if (config.space !== undefined) expectOneOf(config.space, ['world', 'local'], `${path}.space`);
+  if (config.texture !== undefined && typeof config.texture !== 'string') {
+    throw new Error(`${path}.texture: expected a texture id`);
+  }
+
+  if (config.emission !== undefined) {
+    const emission = config.emission;
+    if (!isObject(emission)) throw new Error(`${path}.emission: expected an object`);
+    expectOneOf(emission.type, EMISSION_TYPES, `${path}.emission.type`);
+    const sizes = emission.type === 'box' ? ['width', 'height', 'depth'] : emission.type === 'point' ? [] : ['radius'];
+    for (const key of sizes) expectNumber(emission[key], `${path}.emission.${key}`);
+  }
+
+  if (config.bursts !== undefined) {
+    expectArray(config.bursts, `${path}.bursts`).forEach((burst, i) => {
+      expectNumber(burst?.time, `${path}.bursts[${i}].time`);
+      expectNumber(burst?.count, `${path}.bursts[${i}].count`);
+    });
+  }
+
+  return config as ParticleEffect3DConfig;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function expectNumber(value: unknown, path: string): void {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new Error(`${path}: expected a number`);
+}
+
+function expectRange(value: unknown, path: string): void {
+  if (!isObject(value)) throw new Error(`${path}: expected { min, max }`);
+  expectNumber(value.min, `${path}.min`);
+  expectNumber(value.max, `${path}.max`);
+}
+
+function expectVector(value: unknown, path: string): void {
+  if (!isObject(value)) throw new Error(`${path}: expected { x, y, z }`);
+  expectNumber(value.x, `${path}.x`);
+  expectNumber(value.y, `${path}.y`);
+  expectNumber(value.z, `${path}.z`);
+}
+
+function expectArray(value: unknown, path: string): any[] {
+  if (!Array.isArray(value)) throw new Error(`${path}: expected an array`);
+  return value;
+}
+
+function expectOneOf(value: unknown, allowed: string[], path: string): void {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new Error(`${path}: expected one of ${allowed.join(', ')}`);
+  }
+}
+
+function expectCurve(value: unknown, path: string): void {
+  if (!isObject(value)) throw new Error(`${path}: expected { start, end } or { keys }`);
+  if ('keys' in value) {
+    expectArray(value.keys, `${path}.keys`).forEach((key, i) => {
+      expectNumber(key?.time, `${path}.keys[${i}].time`);
+      expectNumber(key?.value, `${path}.keys[${i}].value`);
+    });
+  } else {
+    expectNumber(value.start, `${path}.start`);
+    expectNumber(value.end, `${path}.end`);
+  }
+}
+
+function normalizeColor(value: unknown, path: string): ParticleEffect3DConfig['color'] {
+  if (!isObject(value)) throw new Error(`${path}: expected { start, end } or { keys }`);
+  if ('keys' in value) {
+    return {
+      keys: expectArray(value.keys, `${path}.keys`).map((key, i) => {
+        expectNumber(key?.time, `${path}.keys[${i}].time`);
+        return { time: key.time, value: toColor(key.value, `${path}.keys[${i}].value`) };
+      }),
+    };
+  }
+  return { start: toColor(value.start, `${path}.start`), end: toColor(value.end, `${path}.end`) };
+}
+
+function toColor(value: unknown, path: string): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && /^#?[0-9a-f]{6}$/i.test(value)) return parseInt(value.replace('#', ''), 16);
+  throw new Error(`${path}: expected a color (0xRRGGBB or '#rrggbb')`);
+}
+
+// ---------------------------------------------------------------------------
+// Emission shapes
+// ---------------------------------------------------------------------------
+
+/** Spawn offset and outward unit normal written by an EmissionSampler3D */
+export interface EmissionSample3D {
+  x: number;
+  y: number;
+  z: number;
+  nx: number;
+  ny: number;
+  nz: number;
+}
+
+export type EmissionSampler3D = (rng: RandomSource, out: EmissionSample3D) => void;
+
+/** Build a sampler for `shape`. No allocations per sample. */
+export function createEmissionSampler3D(shape: EmissionShape3D | undefined): EmissionSampler3D {
+  if (!shape || shape.type === 'point') {
+    return (rng, out) => {
+      randomUnitVector(rng, out);
+      out.x = 0;
+      out.y = 0;
+      out.z = 0;
+    };
+  }
+
+  switch (shape.type) {
+    case 'sphere':
+    case 'hemisphere':
+      return (rng, out) => {
+        randomUnitVector(rng, out);
+        if (shape.type === 'hemisphere' && out.ny < 0) out.ny = -out.ny;
+        // Cube root keeps the volume uniformly filled
+        const r = shape.surface ? shape.radius : Math.cbrt(rng.next()) * shape.radius;
+        out.x = out.nx * r;
+        out.y = out.ny * r;
+        out.z = out.nz * r;
+      };
+
+    case 'box':
+      return (rng, out) => {
+        out.x = (rng.next() - 0.5) * shape.width;
+        out.y = (rng.next() - 0.5) * shape.height;
+        out.z = (rng.next() - 0.5) * shape.depth;
+        const len = Math.sqrt(out.x * out.x + out.y * out.y + out.z * out.z);
+        if (len > 0) {
+          out.nx = out.x / len;
+          out.ny = out.y / len;
+          out.nz = out.z / len;
+        } else {
+          randomUnitVector(rng, out);
+        }
+      };
+
+    case 'circle':
+      return (rng, out) => {
+        const a = rng.next() * Math.PI * 2;
+        const r = shape.edge ? shape.radius : Math.sqrt(rng.next()) * shape.radius;
+        out.nx = Math.cos(a);
+        out.ny = 0;
+        out.nz = Math.sin(a);
+        out.x = out.nx * r;
+        out.y = 0;
+        out.z = out.nz * r;
+      };
+  }
+}
+
+/** Uniform random direction written into out.nx/ny/nz. */
+function randomUnitVector(rng: RandomSource, out: EmissionSample3D): void {
+  const y = rng.next() * 2 - 1;
+  const a = rng.next() * Math.PI * 2;
+  const r = Math.sqrt(1 - y * y);
+  out.nx = Math.cos(a) * r;
+  out.ny = y;
+  out.nz = Math.sin(a) * r;
+}
@@ -0,0 +1,113 @@
+/**
+ * ParticlePool3D - Fire-and-forget pooled 3D particle effects
+ *
+ * Keeps ParticleSystem3D instances for one effect in an ObjectPool3D. play()
+ * places a system, starts it and returns it to the pool on 'complete', so
+ * hits, explosions and pickups never allocate GPU buffers mid-game.
+ *
+ * @example
+ * ```typescript
+ * const hits = new ParticlePool3D(hitEffectJson, { scene, initialSize: 8 });
+ *
+ * enemy.on('hit', (point) => hits.play(point));
+ *
+ * // Each frame
+ * hits.update(deltaSeconds);
+ * ```
+ */
+
+import * as THREE from 'three';
+import { ObjectPool3D } from '../helpers/ObjectPool3D.js';
+import { ParticleSystem3D, ParticleSystem3DOptions } from './ParticleSystem3D.js';
+import { ParticleEffect3DConfig, parseParticleEffect3D, Vector3Like } from './ParticleEffect3D.js';
+
+export interface ParticlePool3DConfig extends ParticleSystem3DOptions {
+  /** Scene the systems are added to while playing */
+  scene: THREE.Scene;
+  /** Systems to pre-allocate (default: 4) */
+  initialSize?: number;
+  /** Maximum systems; the oldest playing one is recycled beyond this (default: 32) */
+  maxSize?: number;
+}
+
+/**
+ * ParticlePool3D - Pool of ParticleSystem3D for one effect
+ */
+export class ParticlePool3D {
+  private effect: ParticleEffect3DConfig;
+  private pool: ObjectPool3D<ParticleSystem3D>;
+  private playing: ParticleSystem3D[] = [];
+  private systems: ParticleSystem3D[] = [];
+
+  /**
+   * @param effect ParticleEffect3DConfig or raw JSON effect data (validated once)
+   * @param config Scene, pool sizes and ParticleSystem3D options
+   */
+  constructor(effect: unknown, config: ParticlePool3DConfig) {
+    this.effect = parseParticleEffect3D(effect);
+    const { scene, initialSize, maxSize, ...options } = config;
+
+    this.pool = new ObjectPool3D<ParticleSystem3D>({
+      factory: () => {
+        const system = new ParticleSystem3D(this.effect, options);
+        system.addEventListener('complete', () => this.pool.release(system));
+        this.systems.push(system);
+        return system;
+      },
+      initialSize: initialSize ?? 4,
+      maxSize: maxSize ?? 32,
+      autoAddToScene: scene,
+      // Also runs when the pool recycles the oldest system at maxSize
+      onRelease: (system) => {
+        const index = this.playing.indexOf(system);
+        if (index !== -1) this.playing.splice(index, 1);
+        system.clearParticles();
+      },
+    });
+  }
+
+  /**
+   * Play the effect at `position`. Continuous effects keep playing until
+   * stopped; the system returns to the pool once its particles expire.
+   * @param position - world position
+   * @param burstCount - fire a one-shot burst of this many particles instead of play()
+   */
+  play(position: Vector3Like, burstCount?: number): ParticleSystem3D {
+    const system = this.pool.acquire();
+    system.position.set(position.x, position.y, position.z);
+    system.updateMatrixWorld(true);
+    this.playing.push(system);
+    if (burstCount !== undefined) system.burst(burstCount);
+    else system.play();
+    return system;
+  }
+
+  /**
+   * Update every playing system. Must be called each frame.
+   * @param dt - delta time in seconds
+   */
+  update(dt: number): void {
+    // Iterate backwards: completed systems remove themselves
+    for (let i = this.playing.length - 1; i >= 0; i--) {
+      this.playing[i]?.update(dt);
+    }
+  }
+
+  /** Stop and recycle every playing system immediately. */
+  releaseAll(): void {
+    this.pool.releaseAll();
+  }
+
+  /** Number of systems currently playing */
+  getActiveCount(): number {
+    return this.playing.length;
+  }
+
+  /** Dispose every system and the pool. */
+  destroy(): void {
+    this.releaseAll();
+    for (const system of this.systems) system.dispose();
+    this.systems = [];
+    this.pool.destroy();
+  }
+}
@@ -0,0 +1,679 @@
+/**
+ * ParticleSystem3D - GPU-instanced particle effects for Three.js scenes
+ *
+ * Every particle is one instance of a camera-facing quad in a single
+ * InstancedMesh, so a system costs one draw call regardless of particle count.
+ * Billboarding happens in the vertex shader; the CPU only simulates positions
+ * and writes per-instance attributes. Effects are plain JSON (see
+ * ParticleEffect3DConfig) so they can be authored, saved and hot-swapped.
+ *
+ * With the `mesh` option the system drives InstanceManager handles instead,
+ * for debris, coins and other particles that need real geometry.
+ *
+ * @example
+ * ```typescript
+ * const sparks = new ParticleSystem3D({
+ *   rate: 0,
+ *   bursts: [{ time: 0, count: 40 }],
+ *   duration: 0.1,
+ *   speed: { min: 2, max: 6 },
+ *   gravity: { x: 0, y: -9.8, z: 0 },
+ *   size: { start: 0.3, end: 0 },
+ *   color: { start: '#ffd700', end: '#ff4500' },
+ * });
+ * sparks.position.set(0, 1, 0);
+ * scene.add(sparks);
+ * sparks.play();
+ *
+ * // Each frame
+ * sparks.update(deltaSeconds);
+ * ```
+ */
+
+import * as THREE from 'three';
+import type { RandomSource } from '../../contracts/Random.js';
+import type { IInstanceManager, IInstanceHandle } from '../../contracts/Instancing.js';
+import {
+  compileCurve,
+  compileGradient,
+  sampleCurve,
+  sampleGradient,
+  CompiledCurve,
+  CompiledGradient,
+} from '../../particles/ParticleEffect.js';
+import type { ParticleBurst, ColorGradient } from '../../particles/ParticleEffect.js';
+import { Logger } from '../../utils/Logger.js';
+import {
+  ParticleEffect3DConfig,
+  EmissionSample3D,
+  EmissionSampler3D,
+  createEmissionSampler3D,
+  parseParticleEffect3D,
+} from './ParticleEffect3D.js';
+
+export interface ParticleSystem3DEventMap extends THREE.Object3DEventMap {
+  /** Emission has ended (duration, stop() or burst()) and every particle has expired */
+  complete: {};
+}
+
+export interface ParticleSystem3DOptions {
+  /** Textures referenced by the effect's `texture` id */
+  textures?: Record<string, THREE.Texture>;
+  /** Random source (default: Math.random) */
+  random?: RandomSource;
+  /**
+   * Render particles as InstanceManager instances of `source` instead of
+   * billboards. Handles are created on demand and kept for the system's
+   * lifetime, so pool systems (ParticlePool3D) rather than recreating them.
+   * Mesh particles spin about Y and ignore alpha, blending and softness.
+   */
+  mesh?: {
+    manager: IInstanceManager;
+    key: string;
+    source: THREE.Object3D;
+  };
+}
+
+/** Effect config with defaults applied and curves compiled */
+interface ResolvedConfig {
+  maxParticles: number;
+  spawnInterval: number;
+  duration: number;
+  bursts: ParticleBurst[];
+  lifetimeMin: number;
+  lifetimeMax: number;
+  speedMin: number;
+  speedMax: number;
+  rotationMin: number;
+  rotationMax: number;
+  spinMin: number;
+  spinMax: number;
+  sampler: EmissionSampler3D;
+  outward: boolean;
+  /** Emit direction and two perpendicular axes */
+  axis: THREE.Vector3;
+  tangent: THREE.Vector3;
+  bitangent: THREE.Vector3;
+  cosSpread: number;
+  gravity: THREE.Vector3;
+  drag: number;
+  size: CompiledCurve;
+  alpha: CompiledCurve;
+  color: CompiledGradient;
+  worldSpace: boolean;
+}
+
+interface BurstState {
+  next: number;
+  remaining: number;
+}
+
+const VERTEX_SHADER = /* glsl */ `
+attribute vec3 aOffset;
+attribute vec4 aColor;
+attribute vec2 aSizeRotation;
+
+uniform float uWorldSpace;
+uniform float uVertical;
+
+varying vec2 vUv;
+varying vec4 vColor;
+varying float vViewDepth;
+
+void main() {
+  vUv = uv;
+  vColor = aColor;
+
+  float c = cos(aSizeRotation.y);
+  float s = sin(aSizeRotation.y);
+  vec2 corner = vec2(c * position.x - s * position.y, s * position.x + c * position.y) * aSizeRotation.x;
+  vec3 center = uWorldSpace > 0.5 ? aOffset : (modelMatrix * vec4(aOffset, 1.0)).xyz;
+
+  vec4 mvPosition;
+  if (uVertical > 0.5) {
+    // Camera right flattened onto XZ; up stays world up
+    vec3 right = normalize(vec3(viewMatrix[0][0], 0.0, viewMatrix[2][0]));
+    mvPosition = viewMatrix * vec4(center + right * corner.x + vec3(0.0, corner.y, 0.0), 1.0);
+  } else {
+    mvPosition = viewMatrix * vec4(center, 1.0);
+    mvPosition.xy += corner;
+  }
+
+  vViewDepth = -mvPosition.z;
+  gl_Position = projectionMatrix * mvPosition;
+}
+`;
+
+const FRAGMENT_SHADER = /* glsl */ `
+#include <packing>
+
+uniform sampler2D uMap;
+uniform float uHasMap;
+uniform sampler2D uDepth;
+uniform float uSoftness;
+uniform float uNear;
+uniform float uFar;
+uniform vec2 uResolution;
+
+varying vec2 vUv;
+varying vec4 vColor;
+varying float vViewDepth;
+
+void main() {
+  vec4 color = vColor;
+  if (uHasMap > 0.5) {
+    color *= texture2D(uMap, vUv);
+  } else {
+    float d = length(vUv - 0.5) * 2.0;
+    color.a *= 1.0 - smoothstep(0.0, 1.0, d);
+  }
+
+  if (uSoftness > 0.0) {
+    float sceneDepth = texture2D(uDepth, gl_FragCoord.xy / uResolution).x;
+    float sceneViewDepth = -perspectiveDepthToViewZ(sceneDepth, uNear, uFar);
+    color.a *= clamp((sceneViewDepth - vViewDepth) / uSoftness, 0.0, 1.0);
+  }
+
+  if (color.a < 0.003) discard;
+  gl_FragColor = color;
+}
+`;
+
+// Scratch objects (zero allocations in update)
+const _sample: EmissionSample3D = { x: 0, y: 0, z: 0, nx: 0, ny: 1, nz: 0 };
+const _position = new THREE.Vector3();
+const _direction = new THREE.Vector3();
+const _quaternion = new THREE.Quaternion();
+const _scale = new THREE.Vector3();
+
+/**
+ * ParticleSystem3D - Instanced, JSON-driven particle emitter
+ */
+export class ParticleSystem3D extends THREE.Object3D<ParticleSystem3DEventMap> {
+  public readonly isParticleSystem3D = true;
+
+  private _effect: ParticleEffect3DConfig = {};
+  private _config!: ResolvedConfig;
+  private _options: ParticleSystem3DOptions;
+  private _rng: RandomSource;
+
+  private _mesh: THREE.InstancedMesh | null = null;
+  private _material: THREE.ShaderMaterial | null = null;
+  private _handles: IInstanceHandle[] = [];
+  /** Mesh handles currently shown */
+  private _shownHandles: number = 0;
+
+  // Particle state (structure of arrays; live particles are packed at the front)
+  private _positions!: Float32Array;
+  private _velocities!: Float32Array;
+  private _ages!: Float32Array;
+  private _lifetimes!: Float32Array;
+  private _rotations!: Float32Array;
+  private _spins!: Float32Array;
+  private _colors!: Float32Array;
+  private _sizeRotation!: Float32Array;
+  private _count: number = 0;
+
+  private _isEmitting: boolean = false;
+  /** Set once emission has a natural end, so 'complete' can fire */
+  private _finite: boolean = false;
+  private _elapsed: number = 0;
+  private _spawnAccumulator: number = 0;
+  private _bursts: BurstState[] = [];
+
+  private _depthCamera: THREE.Camera | null = null;
+
+  /**
+   * @param effect ParticleEffect3DConfig or raw JSON effect data (validated)
+   * @param options Textures, random source and mesh-particle setup
+   */
+  constructor(effect: unknown = {}, options: ParticleSystem3DOptions = {}) {
+    super();
+    this.name = 'ParticleSystem3D';
+    this._options = options;
+    this._rng = options.random ?? { next: Math.random };
+    this.setEffect(effect);
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  /** The current effect description (JSON-serializable). */
+  get effect(): ParticleEffect3DConfig {
+    return this._effect;
+  }
+
+  /** Number of live particles. */
+  get activeCount(): number {
+    return this._count;
+  }
+
+  get isEmitting(): boolean {
+    return this._isEmitting;
+  }
+
+  /** The instanced billboard mesh (null in mesh-particle mode). */
+  getMesh(): THREE.InstancedMesh | null {
+    return this._mesh;
+  }
+
+  /**
+   * Replace the effect (validated). Live particles are removed and GPU
+   * buffers are rebuilt.
+   */
+  setEffect(effect: unknown): void {
+    this._effect = parseParticleEffect3D(effect);
+    this._config = resolveConfig(this._effect);
+    this._build();
+  }
+
+  /** Start continuous emission and the burst schedule at the system's position. */
+  play(): void {
+    this._isEmitting = true;
+    this._finite = this._config.duration > 0;
+    this._elapsed = 0;
+    this._spawnAccumulator = 0;
+    this._bursts = this._config.bursts.map((b) => ({ next: b.time, remaining: b.cycles ?? 1 }));
+  }
+
+  /** Stop emission. Live particles finish their lifetime, then 'complete' fires. */
+  stop(): void {
+    this._isEmitting = false;
+    this._finite = true;
+  }
+
+  /**
+   * One-shot burst at the system's position. 'complete' fires once every
+   * particle has expired.
+   * @param count - number of particles (default: maxParticles / 2)
+   */
+  burst(count?: number): void {
+    const n = count ?? Math.floor(this._config.maxParticles / 2);
+    this._isEmitting = false;
+    this._finite = true;
+    this._prepareSpawn();
+    for (let i = 0; i < n; i++) this._spawnOne();
+  }
+
+  /** Remove all live particles and stop emission without firing 'complete'. */
+  clearParticles(): void {
+    this._isEmitting = false;
+    this._finite = false;
+    this._spawnAccumulator = 0;
+    this._count = 0;
+    this._syncRender();
+  }
+
+  /**
+   * Enable soft particles: fragments fade out over `effect.softness` units
+   * in front of the scene depth in `texture`. `camera` must be the
+   * perspective camera that rendered the depth. Pass null to disable.
+   */
+  setDepthTexture(texture: THREE.Texture | null, camera: THREE.Camera | null = null): void {
+    this._depthCamera = texture ? camera : null;
+    if (!this._material) return;
+    const uniforms = this._material.uniforms;
+    uniforms.uDepth.value = texture;
+    this._updateSoftness();
+  }
+
+  /**
+   * Simulate particles and upload instance data. Must be called each frame.
+   * @param dt - delta time in seconds
+   */
+  update(dt: number): void {
+    const cfg = this._config;
+
+    if (this._isEmitting) {
+      this._elapsed += dt;
+      this._spawnAccumulator += dt;
+      this._prepareSpawn();
+      while (this._spawnAccumulator >= cfg.spawnInterval) {
+        this._spawnOne();
+        this._spawnAccumulator -= cfg.spawnInterval;
+      }
+      this._updateBursts();
+      if (cfg.duration > 0 && this._elapsed >= cfg.duration) this._isEmitting = false;
+    }
+
+    // Simulate (hot path — no allocations)
+    const pos = this._positions;
+    const vel = this._velocities;
+    const ages = this._ages;
+    const lifetimes = this._lifetimes;
+    const rotations = this._rotations;
+    const gx = cfg.gravity.x * dt;
+    const gy = cfg.gravity.y * dt;
+    const gz = cfg.gravity.z * dt;
+    const damping = cfg.drag > 0 ? Math.max(0, 1 - cfg.drag * dt) : 1;
+
+    for (let i = 0; i < this._count; i++) {
+      ages[i] += dt;
+      if (ages[i] >= lifetimes[i]) {
+        this._kill(i);
+        i--;
+        continue;
+      }
+      const i3 = i * 3;
+      vel[i3] = (vel[i3] + gx) * damping;
+      vel[i3 + 1] = (vel[i3 + 1] + gy) * damping;
+      vel[i3 + 2] = (vel[i3 + 2] + gz) * damping;
+      pos[i3] += vel[i3] * dt;
+      pos[i3 + 1] += vel[i3 + 1] * dt;
+      pos[i3 + 2] += vel[i3 + 2] * dt;
+      rotations[i] += this._spins[i] * dt;
+    }
+
+    this._syncRender();
+
+    if (this._finite && !this._isEmitting && this._count === 0) {
+      this._finite = false;
+      this.dispatchEvent({ type: 'complete' });
+    }
+  }
+
+  /** Free GPU resources and mesh handles. The system cannot be reused. */
+  dispose(): void {
+    this.clearParticles();
+    this._disposeRender();
+    for (const handle of this._handles) handle.dispose();
+    this._handles = [];
+    this.removeFromParent();
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  /** (Re)allocate particle state and the render mesh for the current config. */
+  private _build(): void {
+    const max = this._config.maxParticles;
+    this._positions = new Float32Array(max * 3);
+    this._velocities = new Float32Array(max * 3);
+    this._ages = new Float32Array(max);
+    this._lifetimes = new Float32Array(max);
+    this._rotations = new Float32Array(max);
+    this._spins = new Float32Array(max);
+    this._colors = new Float32Array(max * 4);
+    this._sizeRotation = new Float32Array(max * 2);
+    this._count = 0;
+    this._isEmitting = false;
+    this._finite = false;
+
+    this._disposeRender();
+    if (this._options.mesh) {
+      // Handles beyond the new pool size stay hidden
+      for (let i = 0; i < this._shownHandles; i++) this._handles[i].setVisible(false);
+      this._shownHandles = 0;
+      return;
+    }
+
+    const geometry = new THREE.PlaneGeometry(1, 1);
+    geometry.setAttribute('aOffset', dynamicAttribute(this._positions, 3));
+    geometry.setAttribute('aColor', dynamicAttribute(this._colors, 4));
+    geometry.setAttribute('aSizeRotation', dynamicAttribute(this._sizeRotation, 2));
+
+    const effect = this._effect;
+    const map = this._resolveTexture(effect.texture);
+    this._material = new THREE.ShaderMaterial({
+      vertexShader: VERTEX_SHADER,
+      fragmentShader: FRAGMENT_SHADER,
+      uniforms: {
+        uMap: { value: map },
+        uHasMap: { value: map ? 1 : 0 },
+        uWorldSpace: { value: this._config.worldSpace ? 1 : 0 },
+        uVertical: { value: effect.billboard === 'vertical' ? 1 : 0 },
+        uDepth: { value: null },
+        uSoftness: { value: 0 },
+        uNear: { value: 0.1 },
+        uFar: { value: 1000 },
+        uResolution: { value: new THREE.Vector2(1, 1) },
+      },
+      transparent: true,
+      depthWrite: false,
+      blending: effect.blending === 'normal' ? THREE.NormalBlending : THREE.AdditiveBlending,
+    });
+
+    const mesh = new THREE.InstancedMesh(geometry, this._material, max);
+    mesh.count = 0;
+    // Particles move every frame; bounds would be stale
+    mesh.frustumCulled = false;
+    this._mesh = mesh;
+    this.add(mesh);
+  }
+
+  private _disposeRender(): void {
+    if (!this._mesh) return;
+    this.remove(this._mesh);
+    this._mesh.geometry.dispose();
+    this._material!.dispose();
+    this._mesh.dispose();
+    this._mesh = null;
+    this._material = null;
+  }
+
+  private _resolveTexture(id: string | undefined): THREE.Texture | null {
+    if (id === undefined) return null;
+    const texture = this._options.textures?.[id];
+    if (!texture) {
+      Logger.warn('ParticleSystem3D', `Texture '${id}' not provided; using the default dot`);
+      return null;
+    }
+    return texture;
+  }
+
+  private _updateSoftness(): void {
+    const uniforms = this._material!.uniforms;
+    const texture = uniforms.uDepth.value as THREE.Texture | null;
+    const camera = this._depthCamera as THREE.PerspectiveCamera | null;
+    const softness = this._effect.softness ?? 0;
+    if (!texture || !camera || softness <= 0) {
+      uniforms.uSoftness.value = 0;
+      return;
+    }
+    uniforms.uSoftness.value = softness;
+    uniforms.uNear.value = camera.near;
+    uniforms.uFar.value = camera.far;
+    const image = texture.image as { width?: number; height?: number } | undefined;
+    (uniforms.uResolution.value as THREE.Vector2).set(image?.width || 1, image?.height || 1);
+  }
+
+  /** Refresh the world transform used to place world-space spawns. */
+  private _prepareSpawn(): void {
+    if (this._config.worldSpace) this.updateWorldMatrix(true, false);
+  }
+
+  private _spawnOne(): boolean {
+    const cfg = this._config;
+    if (this._count >= cfg.maxParticles) return false;
+    const rng = this._rng;
+    const i = this._count++;
+    const i3 = i * 3;
+
+    cfg.sampler(rng, _sample);
+    _position.set(_sample.x, _sample.y, _sample.z);
+    if (cfg.outward) {
+      _direction.set(_sample.nx, _sample.ny, _sample.nz);
+    } else {
+      // Uniform direction within the spread cone around the axis
+      const cosTheta = 1 - rng.next() * (1 - cfg.cosSpread);
+      const sinTheta = Math.sqrt(Math.max(0, 1 - cosTheta * cosTheta));
+      const phi = rng.next() * Math.PI * 2;
+      const a = Math.cos(phi) * sinTheta;
+      const b = Math.sin(phi) * sinTheta;
+      _direction
+        .copy(cfg.axis).multiplyScalar(cosTheta)
+        .addScaledVector(cfg.tangent, a)
+        .addScaledVector(cfg.bitangent, b);
+    }
+    if (cfg.worldSpace) {
+      _position.applyMatrix4(this.matrixWorld);
+      _direction.transformDirection(this.matrixWorld);
+    }
+
+    const speed = range(rng, cfg.speedMin, cfg.speedMax);
+    this._positions[i3] = _position.x;
+    this._positions[i3 + 1] = _position.y;
+    this._positions[i3 + 2] = _position.z;
+    this._velocities[i3] = _direction.x * speed;
+    this._velocities[i3 + 1] = _direction.y * speed;
+    this._velocities[i3 + 2] = _direction.z * speed;
+    this._ages[i] = 0;
+    this._lifetimes[i] = range(rng, cfg.lifetimeMin, cfg.lifetimeMax);
+    this._rotations[i] = range(rng, cfg.rotationMin, cfg.rotationMax);
+    this._spins[i] = range(rng, cfg.spinMin, cfg.spinMax);
+    return true;
+  }
+
+  /** Remove particle `i` by moving the last live particle into its slot. */
+  private _kill(i: number): void {
+    const last = --this._count;
+    if (i === last) return;
+    const i3 = i * 3;
+    const l3 = last * 3;
+    for (let k = 0; k < 3; k++) {
+      this._positions[i3 + k] = this._positions[l3 + k];
+      this._velocities[i3 + k] = this._velocities[l3 + k];
+    }
+    this._ages[i] = this._ages[last];
+    this._lifetimes[i] = this._lifetimes[last];
+    this._rotations[i] = this._rotations[last];
+    this._spins[i] = this._spins[last];
+  }
+
+  /** Fire scheduled bursts that are due. */
+  private _updateBursts(): void {
+    const bursts = this._config.bursts;
+    for (let i = 0; i < this._bursts.length; i++) {
+      const state = this._bursts[i];
+      const burst = bursts[i];
+      while (state.remaining !== 0 && this._elapsed >= state.next) {
+        for (let n = 0; n < burst.count; n++) this._spawnOne();
+        if (state.remaining > 0) state.remaining--;
+        state.next += burst.interval ?? 1;
+      }
+    }
+  }
+
+  /** Write size, color and alpha for live particles to the renderer. */
+  private _syncRender(): void {
+    const cfg = this._config;
+    const count = this._count;
+
+    if (this._options.mesh) {
+      this._syncHandles();
+      return;
+    }
+
+    const colors = this._colors;
+    const sizeRotation = this._sizeRotation;
+    for (let i = 0; i < count; i++) {
+      const t = this._ages[i] / this._lifetimes[i];
+      const packed = sampleGradient(cfg.color, t);
+      const i4 = i * 4;
+      colors[i4] = ((packed >> 16) & 0xff) / 255;
+      colors[i4 + 1] = ((packed >> 8) & 0xff) / 255;
+      colors[i4 + 2] = (packed & 0xff) / 255;
+      colors[i4 + 3] = sampleCurve(cfg.alpha, t);
+      sizeRotation[i * 2] = sampleCurve(cfg.size, t);
+      sizeRotation[i * 2 + 1] = this._rotations[i];
+    }
+
+    const mesh = this._mesh!;
+    mesh.count = count;
+    if (this._depthCamera) this._updateSoftness();
+    if (count === 0) return;
+    const geometry = mesh.geometry;
+    for (const name of ['aOffset', 'aColor', 'aSizeRotation']) {
+      const attribute = geometry.getAttribute(name) as THREE.InstancedBufferAttribute;
+      attribute.clearUpdateRanges();
+      attribute.addUpdateRange(0, count * attribute.itemSize);
+      attribute.needsUpdate = true;
+    }
+  }
+
+  private _syncHandles(): void {
+    const cfg = this._config;
+    const mesh = this._options.mesh!;
+    const count = this._count;
+    const local = !cfg.worldSpace;
+    if (local) this.updateWorldMatrix(true, false);
+
+    for (let i = 0; i < count; i++) {
+      let handle = this._handles[i];
+      if (!handle) {
+        handle = mesh.manager.createInstance(mesh.key, mesh.source);
+        this._handles[i] = handle;
+      }
+      const t = this._ages[i] / this._lifetimes[i];
+      const i3 = i * 3;
+      _position.set(this._positions[i3], this._positions[i3 + 1], this._positions[i3 + 2]);
+      let size = sampleCurve(cfg.size, t);
+      if (local) {
+        _position.applyMatrix4(this.matrixWorld);
+        this.matrixWorld.decompose(_direction, _quaternion, _scale);
+        size *= _scale.x;
+      }
+      handle.setPosition(_position.x, _position.y, _position.z);
+      handle.setRotation(0, this._rotations[i], 0);
+      handle.setScale(size, size, size);
+      handle.setColor(sampleGradient(cfg.color, t));
+      if (i >= this._shownHandles) handle.setVisible(true);
+    }
+    for (let i = count; i < this._shownHandles; i++) this._handles[i].setVisible(false);
+    this._shownHandles = count;
+  }
+}
+
+function dynamicAttribute(array: Float32Array, itemSize: number): THREE.InstancedBufferAttribute {
+  const attribute = new THREE.InstancedBufferAttribute(array, itemSize);
+  attribute.setUsage(THREE.DynamicDrawUsage);
+  return attribute;
+}
+
+function range(rng: RandomSource, min: number, max: number): number {
+  return min === max ? min : min + rng.next() * (max - min);
+}
+
+function resolveConfig(effect: ParticleEffect3DConfig): ResolvedConfig {
+  const rate = effect.rate ?? 20;
+  const direction = effect.direction ?? { x: 0, y: 1, z: 0 };
+  const axis = new THREE.Vector3(direction.x, direction.y, direction.z);
+  if (axis.lengthSq() === 0) axis.set(0, 1, 0);
+  axis.normalize();
+  // Any vector not parallel to the axis gives a perpendicular basis
+  const tangent = Math.abs(axis.y) < 0.99 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0);
+  tangent.cross(axis).normalize();
+  const bitangent = new THREE.Vector3().crossVectors(axis, tangent);
+  const gravity = effect.gravity ?? { x: 0, y: 0, z: 0 };
+  // parseParticleEffect3D has already turned '#rrggbb' strings into numbers
+  const color = (effect.color ?? { start: 0xffffff, end: 0xffffff }) as { start: number; end: number } | ColorGradient;
+
+  return {
+    maxParticles: Math.max(1, Math.floor(effect.maxParticles ?? 200)),
+    spawnInterval: rate > 0 ? 1 / rate : Infinity,
+    duration: effect.duration ?? 0,
+    bursts: effect.bursts ?? [],
+    lifetimeMin: effect.lifetime?.min ?? 1,
+    lifetimeMax: effect.lifetime?.max ?? 2,
+    speedMin: effect.speed?.min ?? 1,
+    speedMax: effect.speed?.max ?? 3,
+    rotationMin: effect.rotation?.min ?? 0,
+    rotationMax: effect.rotation?.max ?? 0,
+    spinMin: effect.angularVelocity?.min ?? 0,
+    spinMax: effect.angularVelocity?.max ?? 0,
+    sampler: createEmissionSampler3D(effect.emission),
+    outward: effect.outward ?? false,
+    axis,
+    tangent,
+    bitangent,
+    cosSpread: Math.cos(Math.min(Math.max(effect.spread ?? Math.PI, 0), Math.PI)),
+    gravity: new THREE.Vector3(gravity.x, gravity.y, gravity.z),
+    drag: effect.drag ?? 0,
+    size: compileCurve(effect.size ?? { start: 1, end: 1 }),
+    alpha: compileCurve(effect.alpha ?? { start: 1, end: 0 }),
+    color: compileGradient(color),
+    worldSpace: (effect.space ?? 'world') === 'world',
+  };
+}
@@ -0,0 +1,12 @@
+export { ParticleSystem3D } from './ParticleSystem3D.js';
+export type { ParticleSystem3DOptions, ParticleSystem3DEventMap } from './ParticleSystem3D.js';
+export { ParticlePool3D } from './ParticlePool3D.js';
+export type { ParticlePool3DConfig } from './ParticlePool3D.js';
+export { parseParticleEffect3D, createEmissionSampler3D } from './ParticleEffect3D.js';
+export type {
+  ParticleEffect3DConfig,
+  EmissionShape3D,
+  EmissionSample3D,
+  EmissionSampler3D,
+  Vector3Like,
+} from './ParticleEffect3D.js';
@@ -0,0 +1,489 @@
+import type {
+  TiledChunkJSON,
+  TiledLayerJSON,
+  TiledMapJSON,
+  TiledObjectJSON,
+  TiledPropertyJSON,
+  TiledTileLayerJSON,
+  TiledTilesetJSON,
+} from './TiledTypes.js';
+
+/** GID flag bits Tiled stores in the top of each tile id */
+export const TILE_FLIP_HORIZONTAL = 0x80000000;
+export const TILE_FLIP_VERTICAL = 0x40000000;
+export const TILE_FLIP_DIAGONAL = 0x20000000;
+const TILE_ROTATE_HEX = 0x10000000;
+const GID_MASK = ~(TILE_FLIP_HORIZONTAL | TILE_FLIP_VERTICAL | TILE_FLIP_DIAGONAL | TILE_ROTATE_HEX) >>> 0;
+
+/** Strip flip flags from a raw GID */
+export function tileGid(raw: number): number {
+  return (raw & GID_MASK) >>> 0;
+}
+
+/** Custom properties, flattened to name → value */
+export type TiledProperties = Record<string, any>;
+
+export interface TiledFrame {
+  /** Local tile id within the tileset */
+  tileId: number;
+  /** Duration in milliseconds */
+  duration: number;
+}
+
+export interface TiledTileData {
+  /** Local tile id within the tileset */
+  id: number;
+  type?: string;
+  properties: TiledProperties;
+  animation?: TiledFrame[];
+  /** Resolved image URL (image collection tilesets) */
+  image?: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  /** Collision shapes drawn in the tile collision editor */
+  objects?: TiledObject[];
+}
+
+export interface TiledTileset {
+  name: string;
+  firstGid: number;
+  tileCount: number;
+  columns: number;
+  tileWidth: number;
+  tileHeight: number;
+  margin: number;
+  spacing: number;
+  /** Resolved image URL (undefined for image collection tilesets) */
+  image?: string;
+  imageWidth: number;
+  imageHeight: number;
+  tileOffset: { x: number; y: number };
+  properties: TiledProperties;
+  /** Per-tile data, keyed by local tile id (only tiles that have any) */
+  tiles: Map<number, TiledTileData>;
+}
+
+export type TiledObjectShape = 'rectangle' | 'ellipse' | 'point' | 'polygon' | 'polyline' | 'tile' | 'text';
+
+export interface TiledObject {
+  id: number;
+  name: string;
+  /** Class (Tiled 1.9+) or type */
+  type: string;
+  shape: TiledObjectShape;
+  /** Top-left for rectangles/ellipses, bottom-left for tile objects, origin for polygons */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Rotation in degrees, clockwise, around (x, y) */
+  rotation: number;
+  visible: boolean;
+  /** Polygon/polyline points in map coordinates */
+  points?: Array<{ x: number; y: number }>;
+  /** Raw GID (with flip flags) for tile objects */
+  gid?: number;
+  text?: string;
+  properties: TiledProperties;
+  /** Name of the object layer this object belongs to */
+  layer: string;
+}
+
+interface TiledLayerBase {
+  id: number;
+  name: string;
+  /** Class set on the layer in Tiled */
+  type: string;
+  visible: boolean;
+  opacity: number;
+  offsetX: number;
+  offsetY: number;
+  parallaxX: number;
+  parallaxY: number;
+  properties: TiledProperties;
+}
+
+export interface TiledTileLayer extends TiledLayerBase {
+  kind: 'tile';
+  /** First tile column/row covered by `data` (non-zero on infinite maps) */
+  startX: number;
+  startY: number;
+  width: number;
+  height: number;
+  /** Raw GIDs (with flip flags), row-major; 0 is empty */
+  data: Uint32Array;
+}
+
+export interface TiledObjectLayer extends TiledLayerBase {
+  kind: 'object';
+  objects: TiledObject[];
+}
+
+export interface TiledImageLayer extends TiledLayerBase {
+  kind: 'image';
+  /** Resolved image URL */
+  image: string;
+}
+
+export type TiledLayer = TiledTileLayer | TiledObjectLayer | TiledImageLayer;
+
+export interface TiledParseOptions {
+  /** URL of the map file; relative image and tileset paths resolve against it */
+  baseUrl?: string;
+  /** Parsed external tilesets, keyed by the `source` string used in the map */
+  externalTilesets?: Record<string, TiledTilesetJSON>;
+}
+
+/**
+ * TiledMap - Parsed Tiled map.
+ *
+ * Group layers are flattened (offsets, opacity and visibility are combined),
+ * tile layer data is decoded to a Uint32Array and custom properties are
+ * flattened to plain objects.
+ *
+ * @example
+ * ```typescript
+ * const map = parseTiledMap(json, { baseUrl: 'maps/level1.json' });
+ * const walls = map.getObjectLayer('collision')!.objects;
+ * const gid = map.getGid('ground', 3, 7);
+ * if (map.getTileProperties(gid).solid) { ... }
+ * ```
+ */
+export class TiledMap {
+  readonly width: number;
+  readonly height: number;
+  readonly tileWidth: number;
+  readonly tileHeight: number;
+  readonly orientation: TiledMapJSON['orientation'];
+  readonly infinite: boolean;
+  readonly backgroundColor?: string;
+  readonly properties: TiledProperties;
+  /** Sorted by firstGid */
+  readonly tilesets: TiledTileset[];
+  /** Flattened layers, bottom to top */
+  readonly layers: TiledLayer[];
+
+  constructor(json: TiledMapJSON, options: TiledParseOptions = {}) {
+    if (!json || !Array.isArray(json.layers) || !Array.isArray(json.tilesets)) {
+      throw new Error('TiledMap: not a Tiled JSON map');
+    }
+    const baseUrl = options.baseUrl ?? '';
+
+    this.width = json.width;
+    this.height = json.height;
+    this.tileWidth = json.tilewidth;
+    this.tileHeight = json.tileheight;
+    this.orientation = json.orientation;
+    this.infinite = json.infinite ?? false;
+    this.backgroundColor = json.backgroundcolor;
+    this.properties = parseProperties(json.properties);
+
+    this.tilesets = json.tilesets
+      .map((ref) => {
+        if (ref.source === undefined) return parseTileset(ref, ref.firstgid, baseUrl);
+        const external = options.externalTilesets?.[ref.source];
+        if (!external) throw new Error(`TiledMap: external tileset "${ref.source}" was not provided`);
+        return parseTileset(external, ref.firstgid, resolveUrl(baseUrl, ref.source));
+      })
+      .sort((a, b) => a.firstGid - b.firstGid);
+
+    this.layers = [];
+    flattenLayers(json.layers, this.layers, baseUrl, { x: 0, y: 0, opacity: 1, visible: true });
+  }
+
+  /** Map size in pixels */
+  get pixelWidth(): number {
+    return this.width * this.tileWidth;
+  }
+
+  get pixelHeight(): number {
+    return this.height * this.tileHeight;
+  }
+
+  getLayer(name: string): TiledLayer | undefined {
+    return this.layers.find((layer) => layer.name === name);
+  }
+
+  getTileLayer(name: string): TiledTileLayer | undefined {
+    return this.layers.find((layer): layer is TiledTileLayer => layer.kind === 'tile' && layer.name === name);
+  }
+
+  getObjectLayer(name: string): TiledObjectLayer | undefined {
+    return this.layers.find((layer): layer is TiledObjectLayer => layer.kind === 'object' && layer.name === name);
+  }
+
+  /**
+   * GID (flags stripped) at a tile coordinate, or 0 if empty/out of bounds.
+   */
+  getGid(layer: string | TiledTileLayer, tx: number, ty: number): number {
+    const tiles = typeof layer === 'string' ? this.getTileLayer(layer) : layer;
+    if (!tiles) return 0;
+    const lx = tx - tiles.startX;
+    const ly = ty - tiles.startY;
+    if (lx < 0 || ly < 0 || lx >= tiles.width || ly >= tiles.height) return 0;
+    return tileGid(tiles.data[ly * tiles.width + lx]);
+  }
+
+  /**
+   * Tileset a GID belongs to (flags are ignored).
+   */
+  getTileset(gid: number): TiledTileset | undefined {
+    const id = tileGid(gid);
+    if (id === 0) return undefined;
+    for (let i = this.tilesets.length - 1; i >= 0; i--) {
+      if (this.tilesets[i].firstGid <= id) return this.tilesets[i];
+    }
+    return undefined;
+  }
+
+  /**
+   * Per-tile data (type, properties, animation) for a GID, if any.
+   */
+  getTileData(gid: number): TiledTileData | undefined {
+    const tileset = this.getTileset(gid);
+    return tileset?.tiles.get(tileGid(gid) - tileset.firstGid);
+  }
+
+  getTileProperties(gid: number): TiledProperties {
+    return this.getTileData(gid)?.properties ?? {};
+  }
+
+  /**
+   * Objects of one object layer, or of all object layers.
+   */
+  getObjects(layerName?: string): TiledObject[] {
+    const out: TiledObject[] = [];
+    for (const layer of this.layers) {
+      if (layer.kind !== 'object') continue;
+      if (layerName !== undefined && layer.name !== layerName) continue;
+      out.push(...layer.objects);
+    }
+    return out;
+  }
+
+  /** First object with the given name, across all object layers */
+  findObject(name: string): TiledObject | undefined {
+    return this.getObjects().find((object) => object.name === name);
+  }
+
+  findObjects(predicate: (object: TiledObject) => boolean): TiledObject[] {
+    return this.getObjects().filter(predicate);
+  }
+
+  /** Tile coordinate containing a map-space point */
+  worldToTile(x: number, y: number): { x: number; y: number } {
+    return { x: Math.floor(x / this.tileWidth), y: Math.floor(y / this.tileHeight) };
+  }
+
+  /** Top-left corner of a tile in map space */
+  tileToWorld(tx: number, ty: number): { x: number; y: number } {
+    return { x: tx * this.tileWidth, y: ty * this.tileHeight };
+  }
+}
+
+/**
+ * Parse a Tiled JSON map. External tilesets must be supplied in
+ * `options.externalTilesets` (TiledMapLoader fetches them for you).
+ */
+export function parseTiledMap(json: TiledMapJSON, options: TiledParseOptions = {}): TiledMap {
+  return new TiledMap(json, options);
+}
+
+/**
+ * Resolve a path from a Tiled file against the URL of the file it appears in.
+ */
+export function resolveUrl(baseUrl: string, path: string): string {
+  if (/^([a-z][a-z0-9+.-]*:|\/)/i.test(path) || !baseUrl) return path;
+  const parts = baseUrl.split('/');
+  parts.pop();
+  for (const segment of path.split('/')) {
+    if (segment === '..' && parts.length > 0 && parts[parts.length - 1] !== '..' && parts[parts.length - 1] !== '') {
+      parts.pop();
+    } else if (segment !== '.') {
+      parts.push(segment);
+    }
+  }
+  return parts.join('/');
+}
+
+/**
+ * Flatten Tiled's property list (or a legacy name → value object).
+ */
+export function parseProperties(properties?: TiledPropertyJSON[] | Record<string, unknown>): TiledProperties {
+  const out: TiledProperties = {};
+  if (!properties) return out;
+  if (!Array.isArray(properties)) return { ...properties };
+  for (const property of properties) out[property.name] = property.value;
+  return out;
+}
+
+function parseTileset(json: TiledTilesetJSON, firstGid: number, baseUrl: string): TiledTileset {
+  const tiles = new Map<number, TiledTileData>();
+  for (const tile of json.tiles ?? []) {
+    tiles.set(tile.id, {
+      id: tile.id,
+      type: tile.class ?? tile.type,
+      properties: parseProperties(tile.properties),
+      animation: tile.animation?.map((frame) => ({ tileId: frame.tileid, duration: frame.duration })),
+      image: tile.image !== undefined ? resolveUrl(baseUrl, tile.image) : undefined,
+      imageWidth: tile.imagewidth,
+      imageHeight: tile.imageheight,
+      objects: tile.objectgroup?.objects.map((object) => parseObject(object, 'collision')),
+    });
+  }
+
+  return {
+    name: json.name,
+    firstGid,
+    tileCount: json.tilecount,
+    columns: json.columns,
+    tileWidth: json.tilewidth,
+    tileHeight: json.tileheight,
+    margin: json.margin ?? 0,
+    spacing: json.spacing ?? 0,
+    image: json.image !== undefined ? resolveUrl(baseUrl, json.image) : undefined,
+    imageWidth: json.imagewidth ?? 0,
+    imageHeight: json.imageheight ?? 0,
+    tileOffset: { x: json.tileoffset?.x ?? 0, y: json.tileoffset?.y ?? 0 },
+    properties: parseProperties(json.properties),
+    tiles,
+  };
+}
+
+interface GroupState {
+  x: number;
+  y: number;
+  opacity: number;
+  visible: boolean;
+}
+
+function flattenLayers(layers: TiledLayerJSON[], out: TiledLayer[], baseUrl: string, group: GroupState): void {
+  for (const json of layers) {
+    const base = {
+      id: json.id ?? out.length,
+      name: json.name,
+      type: json.class ?? '',
+      visible: group.visible && (json.visible ?? true),
+      opacity: group.opacity * (json.opacity ?? 1),
+      offsetX: group.x + (json.offsetx ?? 0),
+      offsetY: group.y + (json.offsety ?? 0),
+      parallaxX: json.parallaxx ?? 1,
+      parallaxY: json.parallaxy ?? 1,
+      properties: parseProperties(json.properties),
+    };
+
+    switch (json.type) {
+      case 'group':
+        flattenLayers(json.layers, out, baseUrl, {
+          x: base.offsetX,
+          y: base.offsetY,
+          opacity: base.opacity,
+          visible: base.visible,
+        });
+        break;
+      case 'tilelayer':
+        out.push({ ...base, kind: 'tile', ...decodeTileLayer(json) });
+        break;
+      case 'objectgroup':
+        out.push({ ...base, kind: 'object', objects: json.objects.map((object) => parseObject(object, json.name)) });
+        break;
+      case 'imagelayer':
+        out.push({ ...base, kind: 'image', image: resolveUrl(baseUrl, json.image) });
+        break;
+    }
+  }
+}
+
+function parseObject(json: TiledObjectJSON, layer: string): TiledObject {
+  let shape: TiledObjectShape = 'rectangle';
+  let points: Array<{ x: number; y: number }> | undefined;
+  if (json.gid !== undefined) shape = 'tile';
+  else if (json.point) shape = 'point';
+  else if (json.ellipse) shape = 'ellipse';
+  else if (json.text) shape = 'text';
+  else if (json.polygon || json.polyline) {
+    shape = json.polygon ? 'polygon' : 'polyline';
+    const rad = ((json.rotation ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    points = (json.polygon ?? json.polyline)!.map((p) => ({
+      x: json.x + p.x * cos - p.y * sin,
+      y: json.y + p.x * sin + p.y * cos,
+    }));
+  }
+
+  return {
+    id: json.id,
+    name: json.name ?? '',
+    type: json.class ?? json.type ?? '',
+    shape,
+    x: json.x,
+    y: json.y,
+    width: json.width ?? 0,
+    height: json.height ?? 0,
+    rotation: json.rotation ?? 0,
+    visible: json.visible ?? true,
+    points,
+    gid: json.gid,
+    text: json.text?.text,
+    properties: parseProperties(json.properties),
+    layer,
+  };
+}
+
+function decodeTileLayer(json: TiledTileLayerJSON): Pick<TiledTileLayer, 'startX' | 'startY' | 'width' | 'height' | 'data'> {
+  if (json.compression) {
+    throw new Error(
+      `TiledMap: layer "${json.name}" uses ${json.compression} compression; ` +
+      'load it through TiledMapLoader or export with CSV/uncompressed Base64'
+    );
+  }
+
+  if (!json.chunks) {
+    return {
+      startX: 0,
+      startY: 0,
+      width: json.width,
+      height: json.height,
+      data: decodeData(json.data ?? [], json.width * json.height),
+    };
+  }
+
+  // Infinite map: merge chunks into one dense array covering their bounds
+  const chunks: TiledChunkJSON[] = json.chunks;
+  if (chunks.length === 0) return { startX: 0, startY: 0, width: 0, height: 0, data: new Uint32Array(0) };
+  const startX = Math.min(...chunks.map((c) => c.x));
+  const startY = Math.min(...chunks.map((c) => c.y));
+  const width = Math.max(...chunks.map((c) => c.x + c.width)) - startX;
+  const height = Math.max(...chunks.map((c) => c.y + c.height)) - startY;
+  const data = new Uint32Array(width * height);
+
+  for (const chunk of chunks) {
+    const chunkData = decodeData(chunk.data, chunk.width * chunk.height);
+    for (let row = 0; row < chunk.height; row++) {
+      const target = (chunk.y - startY + row) * width + (chunk.x - startX);
+      data.set(chunkData.subarray(row * chunk.width, (row + 1) * chunk.width), target);
+    }
+  }
+  return { startX, startY, width, height, data };
+}
+
+/**
+ * Decode CSV-array or uncompressed Base64 tile data (little-endian uint32).
+ */
+function decodeData(data: number[] | string, count: number): Uint32Array {
+  if (Array.isArray(data)) return Uint32Array.from(data, (gid) => gid >>> 0);
+
+  const binary = atob(data.trim());
+  const out = new Uint32Array(count);
+  for (let i = 0; i < count && i * 4 + 3 < binary.length; i++) {
+    const o = i * 4;
+    out[i] = (
+      binary.charCodeAt(o) |
+      (binary.charCodeAt(o + 1) << 8) |
+      (binary.charCodeAt(o + 2) << 16) |
+      (binary.charCodeAt(o + 3) << 24)
+    ) >>> 0;
+  }
+  return out;
+}
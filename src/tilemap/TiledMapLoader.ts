@@ -0,0 +1,101 @@
+import { BaseAssetLoader } from '../assets/loaders/BaseAssetLoader.js';
+import { AssetConfig, AssetType } from '../contracts/AssetManager.js';
+import { TiledMap, resolveUrl } from './TiledMap.js';
+import { parseTmx, parseTsx } from './TmxParser.js';
+import type { TiledLayerJSON, TiledMapJSON, TiledTilesetJSON } from './TiledTypes.js';
+
+/**
+ * Tiled map asset loader (AssetType.TILEMAP).
+ *
+ * Accepts JSON (.tmj/.json) and XML (.tmx) maps, fetches external tilesets
+ * (.tsj/.json/.tsx) relative to the map, and inflates zlib/gzip-compressed
+ * layers where the browser supports DecompressionStream. Tileset images are
+ * not fetched here; TilemapRenderer.create() loads them.
+ *
+ * @example
+ * ```typescript
+ * assets.registerLoader(new TiledMapLoader()); // already done by GameByteAssetManager
+ * const map = await assets.load<TiledMap>({ id: 'level1', type: AssetType.TILEMAP, src: 'maps/level1.tmj' });
+ * ```
+ */
+export class TiledMapLoader extends BaseAssetLoader<TiledMap> {
+  readonly supportedTypes = [AssetType.TILEMAP];
+
+  async load(config: AssetConfig): Promise<TiledMap> {
+    if (!this.canLoad(config.type)) {
+      throw new Error(`TiledMapLoader cannot load assets of type: ${config.type}`);
+    }
+
+    try {
+      const text = await this.loadWithXHR(config, 'text') as string;
+      const json = isXml(text) ? parseTmx(text) : JSON.parse(text) as TiledMapJSON;
+
+      const externalTilesets: Record<string, TiledTilesetJSON> = {};
+      for (const ref of json.tilesets) {
+        if (ref.source === undefined || externalTilesets[ref.source]) continue;
+        const tilesetText = await this.loadWithXHR(
+          { ...config, id: `${config.id}:${ref.source}`, src: resolveUrl(config.src, ref.source) },
+          'text'
+        ) as string;
+        externalTilesets[ref.source] = isXml(tilesetText) ? parseTsx(tilesetText) : JSON.parse(tilesetText);
+      }
+
+      await inflateLayers(json.layers);
+
+      const map = new TiledMap(json, { baseUrl: config.src, externalTilesets });
+      this.emit('loaded', { assetId: config.id, map });
+      return map;
+    } catch (error) {
+      this.emit('failed', { assetId: config.id, error });
+      throw error;
+    }
+  }
+}
+
+function isXml(text: string): boolean {
+  return text.trimStart().startsWith('<');
+}
+
+/**
+ * Replace compressed Base64 layer data with decoded GID arrays, in place.
+ */
+export async function inflateLayers(layers: TiledLayerJSON[]): Promise<void> {
+  for (const layer of layers) {
+    if (layer.type === 'group') {
+      await inflateLayers(layer.layers);
+      continue;
+    }
+    if (layer.type !== 'tilelayer' || !layer.compression) continue;
+
+    if (layer.chunks) {
+      for (const chunk of layer.chunks) {
+        chunk.data = await inflate(chunk.data as string, layer.compression);
+      }
+    } else {
+      layer.data = await inflate(layer.data as string, layer.compression);
+    }
+    layer.encoding = 'csv';
+    layer.compression = '';
+  }
+}
+
+async function inflate(base64: string, compression: 'zlib' | 'gzip' | 'zstd'): Promise<number[]> {
+  if (compression === 'zstd' || typeof DecompressionStream === 'undefined') {
+    throw new Error(`TiledMapLoader: ${compression} layer compression is not supported in this browser`);
+  }
+
+  const binary = atob(base64.trim());
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+
+  const stream = new Blob([bytes]).stream().pipeThrough(
+    new DecompressionStream(compression === 'zlib' ? 'deflate' : 'gzip')
+  );
+  const view = new DataView(await new Response(stream).arrayBuffer());
+
+  const gids: number[] = [];
+  for (let offset = 0; offset + 3 < view.byteLength; offset += 4) {
+    gids.push(view.getUint32(offset, true));
+  }
+  return gids;
+}
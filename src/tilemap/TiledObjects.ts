@@ -0,0 +1,153 @@
+import type { PhysicsBody, PhysicsBodyConfig, PhysicsWorld } from '../contracts/Physics.js';
+import { GameByteTriggerZone } from '../physics/helpers/TriggerZone.js';
+import type { Waypoint } from '../genre/td/PathFollower.js';
+import type { TiledObject } from './TiledMap.js';
+
+/**
+ * Options for converting Tiled objects to physics bodies.
+ */
+export interface TiledBodyOptions {
+  /** Body type (default: 'static') */
+  type?: PhysicsBodyConfig['type'];
+  /** Create sensors instead of solid bodies */
+  isSensor?: boolean;
+  /** Extra config merged into every body (material, collision groups...) */
+  overrides?: Partial<PhysicsBodyConfig>;
+}
+
+/**
+ * Convert a Tiled object to a physics body config in map space.
+ *
+ * Rectangles and tile objects become boxes, ellipses circles (averaged
+ * radius) and polygons convex meshes around their centroid. Points and
+ * polylines have no area and return null. The object is kept in `userData.tiled`;
+ * `friction`, `restitution` and `density` custom properties set the material,
+ * and an `isSensor` property makes the body a sensor.
+ */
+export function tiledObjectToBodyConfig(object: TiledObject, options: TiledBodyOptions = {}): PhysicsBodyConfig | null {
+  const rotation = (object.rotation * Math.PI) / 180;
+  const base: PhysicsBodyConfig = {
+    id: `tiled_${object.layer}_${object.id}`,
+    type: options.type ?? 'static',
+    position: { x: 0, y: 0 },
+    rotation,
+    shapes: [],
+    isSensor: options.isSensor ?? object.properties.isSensor === true,
+    userData: { tiled: object, label: object.name || object.type },
+    ...options.overrides,
+  };
+
+  const props = object.properties;
+  if (!options.overrides?.material && (props.friction !== undefined || props.restitution !== undefined || props.density !== undefined)) {
+    base.material = {
+      id: base.id!,
+      name: object.name,
+      friction: Number(props.friction ?? 0.1),
+      restitution: Number(props.restitution ?? 0),
+      density: Number(props.density ?? 0.001),
+    };
+  }
+
+  switch (object.shape) {
+    case 'rectangle':
+    case 'tile':
+    case 'text':
+    case 'ellipse': {
+      if (object.width <= 0 || object.height <= 0) return null;
+      // Rectangles rotate around their top-left corner, tile objects around bottom-left
+      const localY = object.shape === 'tile' ? -object.height / 2 : object.height / 2;
+      const localX = object.width / 2;
+      base.position = {
+        x: object.x + localX * Math.cos(rotation) - localY * Math.sin(rotation),
+        y: object.y + localX * Math.sin(rotation) + localY * Math.cos(rotation),
+      };
+      base.shapes = object.shape === 'ellipse'
+        ? [{ type: 'circle', dimensions: { x: object.width, y: object.height }, radius: (object.width + object.height) / 4 }]
+        : [{ type: 'box', dimensions: { x: object.width, y: object.height } }];
+      return base;
+    }
+    case 'polygon': {
+      const points = object.points ?? [];
+      if (points.length < 3) return null;
+      const centroid = polygonCentroid(points);
+      base.position = centroid;
+      // Points are already rotated into map space
+      base.rotation = 0;
+      base.shapes = [{
+        type: 'mesh',
+        dimensions: boundsSize(points),
+        vertices: points.map((p) => ({ x: p.x - centroid.x, y: p.y - centroid.y })),
+      }];
+      return base;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Create a body in `world` for every object that has an area.
+ * Bodies are static unless `options.type` says otherwise.
+ */
+export function createBodiesFromObjects(
+  world: PhysicsWorld,
+  objects: TiledObject[],
+  options: TiledBodyOptions = {}
+): PhysicsBody[] {
+  const bodies: PhysicsBody[] = [];
+  for (const object of objects) {
+    const config = tiledObjectToBodyConfig(object, options);
+    if (config) bodies.push(world.createBody(config));
+  }
+  return bodies;
+}
+
+/**
+ * Create a trigger zone for every object that has an area.
+ */
+export function createTriggerZonesFromObjects(world: PhysicsWorld, objects: TiledObject[]): GameByteTriggerZone[] {
+  const zones: GameByteTriggerZone[] = [];
+  for (const object of objects) {
+    const config = tiledObjectToBodyConfig(object, { isSensor: true });
+    if (config) zones.push(new GameByteTriggerZone(world, config));
+  }
+  return zones;
+}
+
+/**
+ * Waypoints described by an object: polyline/polygon vertices in map space,
+ * or the single center point of any other shape. Feed the result to
+ * PathFollower.
+ */
+export function tiledObjectToWaypoints(object: TiledObject): Waypoint[] {
+  if (object.points) return object.points.map((p) => ({ x: p.x, y: p.y }));
+  if (object.shape === 'point') return [{ x: object.x, y: object.y }];
+  const dy = object.shape === 'tile' ? -object.height / 2 : object.height / 2;
+  return [{ x: object.x + object.width / 2, y: object.y + dy }];
+}
+
+function polygonCentroid(points: Array<{ x: number; y: number }>): { x: number; y: number } {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  if (Math.abs(area) < 1e-9) {
+    // Degenerate polygon: fall back to the vertex average
+    const n = points.length;
+    return { x: points.reduce((s, p) => s + p.x, 0) / n, y: points.reduce((s, p) => s + p.y, 0) / n };
+  }
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+}
+
+function boundsSize(points: Array<{ x: number; y: number }>): { x: number; y: number } {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return { x: Math.max(...xs) - Math.min(...xs), y: Math.max(...ys) - Math.min(...ys) };
+}
@@ -0,0 +1,150 @@
+/**
+ * Raw Tiled JSON format (.tmj / .json and external .tsj tilesets), as
+ * exported by Tiled 1.x. Only the fields the framework reads are typed.
+ */
+
+/** Custom property as stored by Tiled 1.2+ */
+export interface TiledPropertyJSON {
+  name: string;
+  type?: 'string' | 'int' | 'float' | 'bool' | 'color' | 'file' | 'object' | 'class';
+  propertytype?: string;
+  value: unknown;
+}
+
+export interface TiledChunkJSON {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: number[] | string;
+}
+
+interface TiledLayerBaseJSON {
+  id?: number;
+  name: string;
+  visible?: boolean;
+  opacity?: number;
+  offsetx?: number;
+  offsety?: number;
+  parallaxx?: number;
+  parallaxy?: number;
+  properties?: TiledPropertyJSON[];
+  class?: string;
+}
+
+export interface TiledTileLayerJSON extends TiledLayerBaseJSON {
+  type: 'tilelayer';
+  width: number;
+  height: number;
+  /** Infinite maps only: top-left tile of the layer bounds */
+  startx?: number;
+  starty?: number;
+  data?: number[] | string;
+  chunks?: TiledChunkJSON[];
+  encoding?: 'csv' | 'base64';
+  compression?: '' | 'zlib' | 'gzip' | 'zstd';
+}
+
+export interface TiledPointJSON {
+  x: number;
+  y: number;
+}
+
+export interface TiledObjectJSON {
+  id: number;
+  name?: string;
+  /** Pre-1.9 class field */
+  type?: string;
+  /** Tiled 1.9+ class field */
+  class?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  rotation?: number;
+  visible?: boolean;
+  gid?: number;
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: TiledPointJSON[];
+  polyline?: TiledPointJSON[];
+  text?: { text: string; [key: string]: unknown };
+  properties?: TiledPropertyJSON[];
+}
+
+export interface TiledObjectLayerJSON extends TiledLayerBaseJSON {
+  type: 'objectgroup';
+  objects: TiledObjectJSON[];
+}
+
+export interface TiledImageLayerJSON extends TiledLayerBaseJSON {
+  type: 'imagelayer';
+  image: string;
+}
+
+export interface TiledGroupLayerJSON extends TiledLayerBaseJSON {
+  type: 'group';
+  layers: TiledLayerJSON[];
+}
+
+export type TiledLayerJSON =
+  | TiledTileLayerJSON
+  | TiledObjectLayerJSON
+  | TiledImageLayerJSON
+  | TiledGroupLayerJSON;
+
+export interface TiledFrameJSON {
+  tileid: number;
+  /** Frame duration in milliseconds */
+  duration: number;
+}
+
+export interface TiledTileJSON {
+  id: number;
+  type?: string;
+  class?: string;
+  properties?: TiledPropertyJSON[];
+  animation?: TiledFrameJSON[];
+  /** Image collection tilesets: one image per tile */
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  objectgroup?: TiledObjectLayerJSON;
+}
+
+export interface TiledTilesetJSON {
+  name: string;
+  tilewidth: number;
+  tileheight: number;
+  tilecount: number;
+  columns: number;
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  margin?: number;
+  spacing?: number;
+  tileoffset?: TiledPointJSON;
+  tiles?: TiledTileJSON[];
+  properties?: TiledPropertyJSON[];
+}
+
+/** Tileset reference inside a map: embedded, or external via `source` */
+export type TiledTilesetRefJSON =
+  | ({ firstgid: number; source?: undefined } & TiledTilesetJSON)
+  | { firstgid: number; source: string };
+
+export interface TiledMapJSON {
+  type?: 'map';
+  version?: string | number;
+  orientation: 'orthogonal' | 'isometric' | 'staggered' | 'hexagonal';
+  renderorder?: string;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  infinite?: boolean;
+  backgroundcolor?: string;
+  layers: TiledLayerJSON[];
+  tilesets: TiledTilesetRefJSON[];
+  properties?: TiledPropertyJSON[];
+}
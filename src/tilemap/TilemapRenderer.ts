@@ -0,0 +1,437 @@
+import * as PIXI from 'pixi.js';
+import {
+  TiledMap,
+  TiledObjectLayer,
+  TiledTileLayer,
+  TiledTileset,
+  TILE_FLIP_DIAGONAL,
+  TILE_FLIP_HORIZONTAL,
+  TILE_FLIP_VERTICAL,
+  tileGid,
+} from './TiledMap.js';
+
+export interface TilemapRendererOptions {
+  /** Textures keyed by resolved image URL (tileset, tile and image layer images) */
+  textures?: Record<string, PIXI.Texture>;
+  /** Chunk size in tiles (default: 16) */
+  chunkSize?: number;
+  /**
+   * Build chunks lazily and hide those outside setViewport() (default: true).
+   * When false, every chunk is built up front and always visible.
+   */
+  cull?: boolean;
+  /** Layer names to render (default: all tile, image and object layers) */
+  layers?: string[];
+  /** Render tile objects (objects with a gid) in object layers (default: true) */
+  renderObjects?: boolean;
+}
+
+interface AnimatedTile {
+  frames: PIXI.Texture[];
+  /** Cumulative frame end times in ms */
+  ends: number[];
+  total: number;
+  frame: number;
+  sprites: PIXI.Sprite[];
+}
+
+interface TileLayerView {
+  layer: TiledTileLayer;
+  container: PIXI.Container;
+  chunksX: number;
+  chunksY: number;
+  chunks: Map<number, PIXI.Container>;
+}
+
+/**
+ * TilemapRenderer - Chunked Pixi renderer for orthogonal Tiled maps.
+ *
+ * Each tile layer is split into chunk containers of `chunkSize`² tiles that
+ * are built on first sight and hidden when off-screen, so large maps cost
+ * only what the camera sees. Supports flipped tiles, tileset offsets, image
+ * collection tilesets, animated tiles, image layers, tile objects and
+ * parallax factors.
+ *
+ * @example
+ * ```typescript
+ * const map = await assets.load<TiledMap>({ id: 'level1', type: AssetType.TILEMAP, src: 'maps/level1.tmj' });
+ * const tilemap = await TilemapRenderer.create(map);
+ * stage.addChild(tilemap.container);
+ *
+ * tick.subscribe(({ delta }) => {
+ *   tilemap.setViewport(camera.x, camera.y, screenWidth, screenHeight);
+ *   tilemap.update(delta);
+ * });
+ * ```
+ */
+export class TilemapRenderer {
+  /**
+   * Load every image the map references (via PIXI.Assets) and create a renderer.
+   */
+  static async create(map: TiledMap, options: TilemapRendererOptions = {}): Promise<TilemapRenderer> {
+    const textures: Record<string, PIXI.Texture> = { ...options.textures };
+    const missing = TilemapRenderer.getImageUrls(map).filter((url) => !textures[url]);
+    if (missing.length > 0) {
+      const loaded = await PIXI.Assets.load<PIXI.Texture>(missing);
+      for (const url of missing) textures[url] = loaded[url];
+    }
+    return new TilemapRenderer(map, { ...options, textures });
+  }
+
+  /**
+   * Resolved URLs of every image used by the map's tilesets and image layers.
+   */
+  static getImageUrls(map: TiledMap): string[] {
+    const urls = new Set<string>();
+    for (const tileset of map.tilesets) {
+      if (tileset.image) urls.add(tileset.image);
+      for (const tile of tileset.tiles.values()) if (tile.image) urls.add(tile.image);
+    }
+    for (const layer of map.layers) if (layer.kind === 'image' && layer.image) urls.add(layer.image);
+    return Array.from(urls);
+  }
+
+  readonly container: PIXI.Container;
+  readonly map: TiledMap;
+
+  private textures: Record<string, PIXI.Texture>;
+  private chunkSize: number;
+  private cull: boolean;
+  private tileTextures = new Map<number, PIXI.Texture>();
+  /** Sub-textures created here (the rest belong to the caller or PIXI.Assets) */
+  private ownedTextures = new Set<PIXI.Texture>();
+  private animated = new Map<number, AnimatedTile>();
+  private elapsed = 0;
+  private tileViews: TileLayerView[] = [];
+  private layerContainers = new Map<string, PIXI.Container>();
+  private parallaxLayers: Array<{ container: PIXI.Container; offsetX: number; offsetY: number; px: number; py: number }> = [];
+  /** Extra pixels tiles may overhang their cell (tall tiles, tile offsets) */
+  private overhang: number;
+
+  constructor(map: TiledMap, options: TilemapRendererOptions = {}) {
+    if (map.orientation !== 'orthogonal') {
+      throw new Error(`TilemapRenderer: ${map.orientation} maps are not supported`);
+    }
+    this.map = map;
+    this.textures = options.textures ?? {};
+    this.chunkSize = options.chunkSize ?? 16;
+    this.cull = options.cull ?? true;
+    this.container = new PIXI.Container();
+    this.container.label = 'tilemap';
+
+    this.overhang = 0;
+    for (const tileset of map.tilesets) {
+      const maxTile = Math.max(tileset.tileWidth, tileset.tileHeight);
+      const offset = Math.abs(tileset.tileOffset.x) + Math.abs(tileset.tileOffset.y);
+      this.overhang = Math.max(this.overhang, maxTile + offset);
+    }
+
+    const only = options.layers ? new Set(options.layers) : null;
+    for (const layer of map.layers) {
+      if (only && !only.has(layer.name)) continue;
+      if (layer.kind === 'object' && options.renderObjects === false) continue;
+
+      const container = new PIXI.Container();
+      container.label = layer.name;
+      container.visible = layer.visible;
+      container.alpha = layer.opacity;
+      container.position.set(layer.offsetX, layer.offsetY);
+      this.container.addChild(container);
+      this.layerContainers.set(layer.name, container);
+      if (layer.parallaxX !== 1 || layer.parallaxY !== 1) {
+        this.parallaxLayers.push({
+          container,
+          offsetX: layer.offsetX,
+          offsetY: layer.offsetY,
+          px: layer.parallaxX,
+          py: layer.parallaxY,
+        });
+      }
+
+      if (layer.kind === 'tile') {
+        const view: TileLayerView = {
+          layer,
+          container,
+          chunksX: Math.ceil(layer.width / this.chunkSize),
+          chunksY: Math.ceil(layer.height / this.chunkSize),
+          chunks: new Map(),
+        };
+        this.tileViews.push(view);
+        if (!this.cull) {
+          for (let cy = 0; cy < view.chunksY; cy++) {
+            for (let cx = 0; cx < view.chunksX; cx++) this.buildChunk(view, cx, cy);
+          }
+        }
+      } else if (layer.kind === 'object') {
+        this.buildObjects(layer, container);
+      } else {
+        container.addChild(new PIXI.Sprite(this.requireTexture(layer.image)));
+      }
+    }
+  }
+
+  /** Container of a rendered layer */
+  getLayerContainer(name: string): PIXI.Container | undefined {
+    return this.layerContainers.get(name);
+  }
+
+  /** Number of chunks built so far (for profiling) */
+  get builtChunks(): number {
+    let count = 0;
+    for (const view of this.tileViews) count += view.chunks.size;
+    return count;
+  }
+
+  /**
+   * Show the chunks overlapping a rectangle in map space (the container's
+   * local coordinates), building them on first sight, and apply parallax.
+   */
+  setViewport(x: number, y: number, width: number, height: number): void {
+    for (const layer of this.parallaxLayers) {
+      layer.container.position.set(layer.offsetX + x * (1 - layer.px), layer.offsetY + y * (1 - layer.py));
+    }
+    if (!this.cull) return;
+
+    const chunkW = this.chunkSize * this.map.tileWidth;
+    const chunkH = this.chunkSize * this.map.tileHeight;
+
+    for (const view of this.tileViews) {
+      const { layer } = view;
+      const localX = x - view.container.position.x - layer.startX * this.map.tileWidth;
+      const localY = y - view.container.position.y - layer.startY * this.map.tileHeight;
+      const minCx = Math.max(0, Math.floor((localX - this.overhang) / chunkW));
+      const maxCx = Math.min(view.chunksX - 1, Math.floor((localX + width + this.overhang) / chunkW));
+      const minCy = Math.max(0, Math.floor((localY - this.overhang) / chunkH));
+      const maxCy = Math.min(view.chunksY - 1, Math.floor((localY + height + this.overhang) / chunkH));
+
+      for (const [key, chunk] of view.chunks) {
+        const cx = key % view.chunksX;
+        const cy = Math.floor(key / view.chunksX);
+        chunk.visible = cx >= minCx && cx <= maxCx && cy >= minCy && cy <= maxCy;
+      }
+      for (let cy = minCy; cy <= maxCy; cy++) {
+        for (let cx = minCx; cx <= maxCx; cx++) {
+          if (!view.chunks.has(cy * view.chunksX + cx)) this.buildChunk(view, cx, cy);
+        }
+      }
+    }
+  }
+
+  /**
+   * Advance tile animations.
+   * @param dt - Delta time in seconds
+   */
+  update(dt: number): void {
+    if (this.animated.size === 0) return;
+    this.elapsed += dt * 1000;
+
+    for (const anim of this.animated.values()) {
+      const t = this.elapsed % anim.total;
+      let frame = 0;
+      while (frame < anim.ends.length - 1 && t >= anim.ends[frame]) frame++;
+      if (frame === anim.frame) continue;
+      anim.frame = frame;
+      const texture = anim.frames[frame];
+      for (const sprite of anim.sprites) sprite.texture = texture;
+    }
+  }
+
+  /**
+   * Change a tile and rebuild its chunk if it was already built.
+   * @param gid - Raw GID (may include flip flags); 0 clears the cell
+   */
+  setTile(layerName: string, tx: number, ty: number, gid: number): void {
+    const view = this.tileViews.find((v) => v.layer.name === layerName);
+    if (!view) return;
+    const { layer } = view;
+    const lx = tx - layer.startX;
+    const ly = ty - layer.startY;
+    if (lx < 0 || ly < 0 || lx >= layer.width || ly >= layer.height) return;
+    layer.data[ly * layer.width + lx] = gid >>> 0;
+
+    const cx = Math.floor(lx / this.chunkSize);
+    const cy = Math.floor(ly / this.chunkSize);
+    const existing = view.chunks.get(cy * view.chunksX + cx);
+    if (existing) {
+      const visible = existing.visible;
+      this.destroyChunk(existing);
+      this.buildChunk(view, cx, cy).visible = visible;
+    }
+  }
+
+  /**
+   * Texture for a GID (flags ignored), or null for empty/unknown tiles.
+   */
+  getTileTexture(gid: number): PIXI.Texture | null {
+    const id = tileGid(gid);
+    if (id === 0) return null;
+    const cached = this.tileTextures.get(id);
+    if (cached) return cached;
+
+    const tileset = this.map.getTileset(id);
+    if (!tileset) return null;
+    const local = id - tileset.firstGid;
+    const texture = this.createTileTexture(tileset, local);
+    if (texture) this.tileTextures.set(id, texture);
+    return texture;
+  }
+
+  destroy(): void {
+    for (const texture of this.ownedTextures) texture.destroy(false);
+    this.ownedTextures.clear();
+    this.tileTextures.clear();
+    this.animated.clear();
+    this.tileViews = [];
+    this.layerContainers.clear();
+    this.container.destroy({ children: true });
+  }
+
+  private createTileTexture(tileset: TiledTileset, local: number): PIXI.Texture | null {
+    const tile = tileset.tiles.get(local);
+    if (tile?.image) return this.requireTexture(tile.image);
+    if (!tileset.image || tileset.columns <= 0) return null;
+
+    const base = this.requireTexture(tileset.image);
+    const col = local % tileset.columns;
+    const row = Math.floor(local / tileset.columns);
+    const texture = new PIXI.Texture({
+      source: base.source,
+      frame: new PIXI.Rectangle(
+        base.frame.x + tileset.margin + col * (tileset.tileWidth + tileset.spacing),
+        base.frame.y + tileset.margin + row * (tileset.tileHeight + tileset.spacing),
+        tileset.tileWidth,
+        tileset.tileHeight
+      ),
+    });
+    this.ownedTextures.add(texture);
+    return texture;
+  }
+
+  private requireTexture(url: string): PIXI.Texture {
+    const texture = this.textures[url];
+    if (!texture) {
+      throw new Error(`TilemapRenderer: no texture for "${url}" (use TilemapRenderer.create() or pass options.textures)`);
+    }
+    return texture;
+  }
+
+  private buildChunk(view: TileLayerView, cx: number, cy: number): PIXI.Container {
+    const { layer } = view;
+    const { tileWidth, tileHeight } = this.map;
+    const chunk = new PIXI.Container();
+    chunk.label = `chunk_${cx}_${cy}`;
+    chunk.interactiveChildren = false;
+
+    const x0 = cx * this.chunkSize;
+    const y0 = cy * this.chunkSize;
+    const x1 = Math.min(layer.width, x0 + this.chunkSize);
+    const y1 = Math.min(layer.height, y0 + this.chunkSize);
+
+    for (let ly = y0; ly < y1; ly++) {
+      for (let lx = x0; lx < x1; lx++) {
+        const raw = layer.data[ly * layer.width + lx];
+        const sprite = this.createTileSprite(raw);
+        if (!sprite) continue;
+
+        const tileset = this.map.getTileset(raw)!;
+        const w = sprite.texture.width;
+        const h = sprite.texture.height;
+        // Tiled aligns tile images to the bottom-left of their cell
+        const left = (layer.startX + lx) * tileWidth + tileset.tileOffset.x;
+        const top = (layer.startY + ly + 1) * tileHeight - h + tileset.tileOffset.y;
+        sprite.anchor.set(0.5);
+        sprite.position.set(left + w / 2, top + h / 2);
+        chunk.addChild(sprite);
+      }
+    }
+
+    view.container.addChild(chunk);
+    view.chunks.set(cy * view.chunksX + cx, chunk);
+    return chunk;
+  }
+
+  /**
+   * Sprite for a raw GID with its flip flags applied as rotation + scale.
+   */
+  private createTileSprite(raw: number): PIXI.Sprite | null {
+    const texture = this.getTileTexture(raw);
+    if (!texture) return null;
+    const sprite = new PIXI.Sprite(texture);
+    this.trackAnimation(raw, sprite);
+
+    const h = (raw & TILE_FLIP_HORIZONTAL) !== 0;
+    const v = (raw & TILE_FLIP_VERTICAL) !== 0;
+    const d = (raw & TILE_FLIP_DIAGONAL) !== 0;
+    if (h || v || d) {
+      // Tiled applies diagonal (transpose), then horizontal, then vertical
+      let m00 = d ? 0 : 1, m01 = d ? 1 : 0, m10 = d ? 1 : 0, m11 = d ? 0 : 1;
+      if (h) { m00 = -m00; m01 = -m01; }
+      if (v) { m10 = -m10; m11 = -m11; }
+      // Decompose as rotation * scale(1, det)
+      sprite.rotation = Math.atan2(m10, m00);
+      sprite.scale.set(1, m00 * m11 - m01 * m10);
+    }
+    return sprite;
+  }
+
+  private trackAnimation(raw: number, sprite: PIXI.Sprite): void {
+    const id = tileGid(raw);
+    let anim = this.animated.get(id);
+    if (!anim) {
+      const data = this.map.getTileData(id);
+      const tileset = this.map.getTileset(id);
+      if (!data?.animation || data.animation.length === 0 || !tileset) return;
+
+      const frames: PIXI.Texture[] = [];
+      const ends: number[] = [];
+      let total = 0;
+      for (const frame of data.animation) {
+        const texture = this.getTileTexture(tileset.firstGid + frame.tileId);
+        if (!texture) continue;
+        total += frame.duration;
+        frames.push(texture);
+        ends.push(total);
+      }
+      if (frames.length === 0 || total <= 0) return;
+      anim = { frames, ends, total, frame: 0, sprites: [] };
+      this.animated.set(id, anim);
+    }
+    sprite.texture = anim.frames[anim.frame];
+    anim.sprites.push(sprite);
+  }
+
+  private destroyChunk(chunk: PIXI.Container): void {
+    for (const anim of this.animated.values()) {
+      anim.sprites = anim.sprites.filter((sprite) => sprite.parent !== chunk);
+    }
+    for (const view of this.tileViews) {
+      for (const [key, value] of view.chunks) {
+        if (value === chunk) view.chunks.delete(key);
+      }
+    }
+    chunk.destroy({ children: true });
+  }
+
+  private buildObjects(layer: TiledObjectLayer, container: PIXI.Container): void {
+    for (const object of layer.objects) {
+      if (object.gid === undefined || !object.visible) continue;
+      const texture = this.getTileTexture(object.gid);
+      if (!texture) continue;
+
+      const sprite = new PIXI.Sprite(texture);
+      this.trackAnimation(object.gid, sprite);
+      const flipH = (object.gid & TILE_FLIP_HORIZONTAL) !== 0;
+      const flipV = (object.gid & TILE_FLIP_VERTICAL) !== 0;
+      // Tile objects are positioned and rotated around their bottom-left corner
+      sprite.anchor.set(flipH ? 1 : 0, flipV ? 0 : 1);
+      sprite.position.set(object.x, object.y);
+      sprite.width = object.width || texture.width;
+      sprite.height = object.height || texture.height;
+      if (flipH) sprite.scale.x = -sprite.scale.x;
+      if (flipV) sprite.scale.y = -sprite.scale.y;
+      sprite.rotation = (object.rotation * Math.PI) / 180;
+      sprite.label = object.name;
+      container.addChild(sprite);
+    }
+  }
+}
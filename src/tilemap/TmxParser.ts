@@ -0,0 +1,245 @@
+import type {
+  TiledLayerJSON,
+  TiledMapJSON,
+  TiledObjectJSON,
+  TiledObjectLayerJSON,
+  TiledPropertyJSON,
+  TiledTileJSON,
+  TiledTilesetJSON,
+  TiledTilesetRefJSON,
+} from './TiledTypes.js';
+
+/**
+ * Convert a TMX (XML) map to the Tiled JSON structure, so both formats go
+ * through the same TiledMap parser. External tilesets keep their `source`.
+ */
+export function parseTmx(xml: string): TiledMapJSON {
+  const root = parseXml(xml, 'map');
+
+  return {
+    type: 'map',
+    version: root.getAttribute('version') ?? undefined,
+    orientation: (root.getAttribute('orientation') ?? 'orthogonal') as TiledMapJSON['orientation'],
+    renderorder: root.getAttribute('renderorder') ?? undefined,
+    width: num(root, 'width'),
+    height: num(root, 'height'),
+    tilewidth: num(root, 'tilewidth'),
+    tileheight: num(root, 'tileheight'),
+    infinite: root.getAttribute('infinite') === '1',
+    backgroundcolor: root.getAttribute('backgroundcolor') ?? undefined,
+    properties: readProperties(root),
+    tilesets: children(root, 'tileset').map((el): TiledTilesetRefJSON => {
+      const firstgid = num(el, 'firstgid', 1);
+      const source = el.getAttribute('source');
+      return source ? { firstgid, source } : { firstgid, ...readTileset(el) };
+    }),
+    layers: readLayers(root),
+  };
+}
+
+/**
+ * Convert an external TSX tileset to the Tiled JSON structure.
+ */
+export function parseTsx(xml: string): TiledTilesetJSON {
+  return readTileset(parseXml(xml, 'tileset'));
+}
+
+function parseXml(xml: string, rootName: string): Element {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.nodeName !== rootName || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`parseTmx: expected a <${rootName}> document`);
+  }
+  return root;
+}
+
+function children(el: Element, name: string): Element[] {
+  return Array.from(el.children).filter((child) => child.nodeName === name);
+}
+
+function child(el: Element, name: string): Element | undefined {
+  return children(el, name)[0];
+}
+
+function num(el: Element, name: string, fallback = 0): number {
+  const value = el.getAttribute(name);
+  return value === null ? fallback : Number(value);
+}
+
+function optNum(el: Element, name: string): number | undefined {
+  const value = el.getAttribute(name);
+  return value === null ? undefined : Number(value);
+}
+
+function readProperties(el: Element): TiledPropertyJSON[] | undefined {
+  const container = child(el, 'properties');
+  if (!container) return undefined;
+
+  return children(container, 'property').map((prop) => {
+    const type = (prop.getAttribute('type') ?? 'string') as NonNullable<TiledPropertyJSON['type']>;
+    const raw = prop.getAttribute('value') ?? prop.textContent ?? '';
+    let value: unknown = raw;
+    if (type === 'int' || type === 'float' || type === 'object') value = Number(raw);
+    else if (type === 'bool') value = raw === 'true';
+    else if (type === 'class') {
+      const nested: Record<string, unknown> = {};
+      for (const p of readProperties(prop) ?? []) nested[p.name] = p.value;
+      value = nested;
+    }
+    return { name: prop.getAttribute('name') ?? '', type, value };
+  });
+}
+
+function readTileset(el: Element): TiledTilesetJSON {
+  const image = child(el, 'image');
+  const offset = child(el, 'tileoffset');
+  const tiles = children(el, 'tile').map((tileEl): TiledTileJSON => {
+    const tileImage = child(tileEl, 'image');
+    const animation = child(tileEl, 'animation');
+    const objectgroup = child(tileEl, 'objectgroup');
+    return {
+      id: num(tileEl, 'id'),
+      type: tileEl.getAttribute('type') ?? undefined,
+      class: tileEl.getAttribute('class') ?? undefined,
+      properties: readProperties(tileEl),
+      animation: animation
+        ? children(animation, 'frame').map((f) => ({ tileid: num(f, 'tileid'), duration: num(f, 'duration') }))
+        : undefined,
+      image: tileImage?.getAttribute('source') ?? undefined,
+      imagewidth: tileImage ? optNum(tileImage, 'width') : undefined,
+      imageheight: tileImage ? optNum(tileImage, 'height') : undefined,
+      objectgroup: objectgroup ? readObjectGroup(objectgroup) : undefined,
+    };
+  });
+
+  return {
+    name: el.getAttribute('name') ?? '',
+    tilewidth: num(el, 'tilewidth'),
+    tileheight: num(el, 'tileheight'),
+    tilecount: num(el, 'tilecount'),
+    columns: num(el, 'columns'),
+    margin: num(el, 'margin'),
+    spacing: num(el, 'spacing'),
+    image: image?.getAttribute('source') ?? undefined,
+    imagewidth: image ? optNum(image, 'width') : undefined,
+    imageheight: image ? optNum(image, 'height') : undefined,
+    tileoffset: offset ? { x: num(offset, 'x'), y: num(offset, 'y') } : undefined,
+    tiles,
+    properties: readProperties(el),
+  };
+}
+
+function layerBase(el: Element) {
+  return {
+    id: optNum(el, 'id'),
+    name: el.getAttribute('name') ?? '',
+    class: el.getAttribute('class') ?? undefined,
+    visible: el.getAttribute('visible') !== '0',
+    opacity: optNum(el, 'opacity'),
+    offsetx: optNum(el, 'offsetx'),
+    offsety: optNum(el, 'offsety'),
+    parallaxx: optNum(el, 'parallaxx'),
+    parallaxy: optNum(el, 'parallaxy'),
+    properties: readProperties(el),
+  };
+}
+
+function readLayers(parent: Element): TiledLayerJSON[] {
+  const layers: TiledLayerJSON[] = [];
+  for (const el of Array.from(parent.children)) {
+    switch (el.nodeName) {
+      case 'layer': {
+        const data = child(el, 'data');
+        const encoding = (data?.getAttribute('encoding') ?? undefined) as 'csv' | 'base64' | undefined;
+        const compression = (data?.getAttribute('compression') ?? undefined) as '' | 'zlib' | 'gzip' | 'zstd' | undefined;
+        const chunks = data ? children(data, 'chunk') : [];
+        layers.push({
+          ...layerBase(el),
+          type: 'tilelayer',
+          width: num(el, 'width'),
+          height: num(el, 'height'),
+          encoding: encoding === 'base64' ? 'base64' : 'csv',
+          compression,
+          ...(chunks.length > 0
+            ? {
+                chunks: chunks.map((chunk) => ({
+                  x: num(chunk, 'x'),
+                  y: num(chunk, 'y'),
+                  width: num(chunk, 'width'),
+                  height: num(chunk, 'height'),
+                  data: readData(chunk, encoding),
+                })),
+              }
+            : { data: data ? readData(data, encoding) : [] }),
+        });
+        break;
+      }
+      case 'objectgroup':
+        layers.push(readObjectGroup(el));
+        break;
+      case 'imagelayer':
+        layers.push({ ...layerBase(el), type: 'imagelayer', image: child(el, 'image')?.getAttribute('source') ?? '' });
+        break;
+      case 'group':
+        layers.push({ ...layerBase(el), type: 'group', layers: readLayers(el) });
+        break;
+    }
+  }
+  return layers;
+}
+
+function readData(el: Element, encoding: string | undefined): number[] | string {
+  if (encoding === 'base64') return (el.textContent ?? '').trim();
+  if (encoding === 'csv') {
+    return (el.textContent ?? '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter((s) => s.length > 0)
+      .map(Number);
+  }
+  // Legacy XML format: one <tile gid=""/> per cell
+  return children(el, 'tile').map((tile) => num(tile, 'gid'));
+}
+
+function readObjectGroup(el: Element): TiledObjectLayerJSON {
+  return {
+    ...layerBase(el),
+    type: 'objectgroup',
+    objects: children(el, 'object').map(readObject),
+  };
+}
+
+function readObject(el: Element): TiledObjectJSON {
+  const points = (name: string) => {
+    const shape = child(el, name);
+    if (!shape) return undefined;
+    return (shape.getAttribute('points') ?? '')
+      .trim()
+      .split(/\s+/)
+      .map((pair) => {
+        const [x, y] = pair.split(',').map(Number);
+        return { x, y };
+      });
+  };
+  const text = child(el, 'text');
+
+  return {
+    id: num(el, 'id'),
+    name: el.getAttribute('name') ?? undefined,
+    type: el.getAttribute('type') ?? undefined,
+    class: el.getAttribute('class') ?? undefined,
+    x: num(el, 'x'),
+    y: num(el, 'y'),
+    width: optNum(el, 'width'),
+    height: optNum(el, 'height'),
+    rotation: optNum(el, 'rotation'),
+    visible: el.getAttribute('visible') !== '0',
+    gid: optNum(el, 'gid'),
+    point: child(el, 'point') ? true : undefined,
+    ellipse: child(el, 'ellipse') ? true : undefined,
+    polygon: points('polygon'),
+    polyline: points('polyline'),
+    text: text ? { text: text.textContent ?? '' } : undefined,
+    properties: readProperties(el),
+  };
+}
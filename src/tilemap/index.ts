@@ -0,0 +1,48 @@
+/**
+ * Tilemap Module - GameByte Framework
+ *
+ * Tiled (JSON/TMX) map loading, chunked Pixi rendering and object-layer
+ * helpers for physics bodies, trigger zones and paths.
+ *
+ * @module tilemap
+ * @example
+ * ```typescript
+ * import { TiledMapLoader, TilemapRenderer, createBodiesFromObjects } from '@gamebyte/framework/tilemap';
+ * ```
+ */
+
+export {
+  TiledMap,
+  parseTiledMap,
+  parseProperties,
+  resolveUrl,
+  tileGid,
+  TILE_FLIP_HORIZONTAL,
+  TILE_FLIP_VERTICAL,
+  TILE_FLIP_DIAGONAL,
+} from './TiledMap.js';
+export type {
+  TiledProperties,
+  TiledFrame,
+  TiledTileData,
+  TiledTileset,
+  TiledObject,
+  TiledObjectShape,
+  TiledTileLayer,
+  TiledObjectLayer,
+  TiledImageLayer,
+  TiledLayer,
+  TiledParseOptions,
+} from './TiledMap.js';
+export { parseTmx, parseTsx } from './TmxParser.js';
+export { TiledMapLoader, inflateLayers } from './TiledMapLoader.js';
+export { TilemapRenderer } from './TilemapRenderer.js';
+export type { TilemapRendererOptions } from './TilemapRenderer.js';
+export {
+  tiledObjectToBodyConfig,
+  createBodiesFromObjects,
+  createTriggerZonesFromObjects,
+  tiledObjectToWaypoints,
+} from './TiledObjects.js';
+export type { TiledBodyOptions } from './TiledObjects.js';
+export type { TiledMapJSON, TiledTilesetJSON, TiledLayerJSON, TiledObjectJSON, TiledPropertyJSON } from './TiledTypes.js';
@@ -0,0 +1,180 @@
+/**
+ * ColorPlugin — Tween colors in RGB or HSL space.
+ *
+ *   Tween.to(sprite, { tint: color(0xff0000) }, { duration: 300 })
+ *   Tween.to(sprite, { tint: color(0x00ff00, 'hsl') }, { duration: 300 })
+ *   Tween.to(mesh.material, { color: color('#3366ff') }, { duration: 300 })
+ *   Tween.to(style, { fill: '#ffcc00' }, { duration: 300 })   // '#hex' strings are colors
+ *
+ * The current value may be a 0xRRGGBB number, a '#rgb'/'#rrggbb' string or an
+ * object with r/g/b in [0, 1] (THREE.Color); it is written back in the same
+ * form. Number and object targets update without allocations.
+ */
+
+import type { TweenPlugin } from './TweenPlugin.js';
+
+export type ColorSpace = 'rgb' | 'hsl';
+
+/** End value created by color() */
+export interface ColorValue {
+  readonly __tweenColor: true;
+  readonly value: number | string;
+  readonly space: ColorSpace;
+}
+
+/**
+ * Mark `value` (0xRRGGBB or '#hex') as a color end value.
+ * @param space - Interpolation space; 'hsl' takes the shortest way around the hue wheel
+ */
+export function color(value: number | string, space: ColorSpace = 'rgb'): ColorValue {
+  return { __tweenColor: true, value, space };
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const enum ColorOutput {
+  Number = 0,
+  String = 1,
+  Object = 2
+}
+
+interface ColorState {
+  output: ColorOutput;
+  hsl: boolean;
+  /** Start/end channels: r, g, b in [0, 255] or h [0, 1), s, l [0, 1] */
+  a0: number;
+  a1: number;
+  a2: number;
+  b0: number;
+  b1: number;
+  b2: number;
+}
+
+/** Parse 0xRRGGBB, '#rgb', '#rrggbb' or an { r, g, b } object to 0xRRGGBB. */
+export function parseColor(value: unknown): number {
+  if (typeof value === 'number') return value & 0xffffff;
+  if (typeof value === 'string') {
+    const match = HEX_COLOR.exec(value);
+    if (!match) throw new Error(`ColorPlugin: invalid color "${value}"`);
+    let hex = match[1];
+    if (hex.length === 3) hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2];
+    return parseInt(hex, 16);
+  }
+  if (value && typeof value === 'object' && 'r' in value && 'g' in value && 'b' in value) {
+    const c = value as { r: number; g: number; b: number };
+    return (clampByte(c.r * 255) << 16) | (clampByte(c.g * 255) << 8) | clampByte(c.b * 255);
+  }
+  throw new Error('ColorPlugin: unsupported color value');
+}
+
+export const ColorPlugin: TweenPlugin<ColorValue | string, ColorState> = {
+  name: 'color',
+
+  test(value: unknown): boolean {
+    if (typeof value === 'string') return HEX_COLOR.test(value);
+    return !!value && typeof value === 'object' && (value as ColorValue).__tweenColor === true;
+  },
+
+  init(owner, key, end) {
+    const current = owner[key];
+    const output = typeof current === 'string'
+      ? ColorOutput.String
+      : current && typeof current === 'object' ? ColorOutput.Object : ColorOutput.Number;
+    const hsl = typeof end !== 'string' && end.space === 'hsl';
+    const from = parseColor(current ?? 0);
+    const to = parseColor(typeof end === 'string' ? end : end.value);
+    const state: ColorState = { output, hsl, a0: 0, a1: 0, a2: 0, b0: 0, b1: 0, b2: 0 };
+
+    if (hsl) {
+      rgbToHsl(from, state, 'a');
+      rgbToHsl(to, state, 'b');
+      // Interpolate hue the short way round
+      if (state.b0 - state.a0 > 0.5) state.a0 += 1;
+      else if (state.a0 - state.b0 > 0.5) state.b0 += 1;
+    } else {
+      state.a0 = (from >> 16) & 0xff;
+      state.a1 = (from >> 8) & 0xff;
+      state.a2 = from & 0xff;
+      state.b0 = (to >> 16) & 0xff;
+      state.b1 = (to >> 8) & 0xff;
+      state.b2 = to & 0xff;
+    }
+    return state;
+  },
+
+  apply(owner, key, s, p) {
+    const c0 = s.a0 + (s.b0 - s.a0) * p;
+    const c1 = s.a1 + (s.b1 - s.a1) * p;
+    const c2 = s.a2 + (s.b2 - s.a2) * p;
+    const rgb = s.hsl
+      ? hslToRgb(c0 % 1, c1, c2)
+      : (clampByte(c0) << 16) | (clampByte(c1) << 8) | clampByte(c2);
+
+    if (s.output === ColorOutput.Number) {
+      owner[key] = rgb;
+    } else if (s.output === ColorOutput.Object) {
+      const target = owner[key] as { r: number; g: number; b: number };
+      target.r = ((rgb >> 16) & 0xff) / 255;
+      target.g = ((rgb >> 8) & 0xff) / 255;
+      target.b = (rgb & 0xff) / 255;
+    } else {
+      owner[key] = '#' + rgb.toString(16).padStart(6, '0');
+    }
+  },
+};
+
+// ---- Conversion helpers ----------------------------------------------------
+
+function clampByte(value: number): number {
+  return value <= 0 ? 0 : value >= 255 ? 255 : Math.round(value);
+}
+
+/** Write h [0, 1), s, l [0, 1] of `rgb` into state channels `prefix`0..2. */
+function rgbToHsl(rgb: number, state: ColorState, prefix: 'a' | 'b'): void {
+  const r = ((rgb >> 16) & 0xff) / 255;
+  const g = ((rgb >> 8) & 0xff) / 255;
+  const b = (rgb & 0xff) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  let h = 0;
+  let s = 0;
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h /= 6;
+  }
+  if (prefix === 'a') {
+    state.a0 = h;
+    state.a1 = s;
+    state.a2 = l;
+  } else {
+    state.b0 = h;
+    state.b1 = s;
+    state.b2 = l;
+  }
+}
+
+function hslToRgb(h: number, s: number, l: number): number {
+  if (s <= 0) {
+    const v = clampByte(l * 255);
+    return (v << 16) | (v << 8) | v;
+  }
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return (clampByte(hueToChannel(p, q, h + 1 / 3) * 255) << 16)
+    | (clampByte(hueToChannel(p, q, h) * 255) << 8)
+    | clampByte(hueToChannel(p, q, h - 1 / 3) * 255);
+}
+
+function hueToChannel(p: number, q: number, t: number): number {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+}
@@ -0,0 +1,293 @@
+/**
+ * MotionPath — Move objects along linear, Catmull-Rom or Bezier paths.
+ *
+ *   Tween.to(coin, {
+ *     motionPath: motionPath({ points: [from, control, to], curve: 'bezier', autoRotate: true }),
+ *   }, { duration: 600, ease: Ease.cubicOut })
+ *
+ *   Tween.to(mesh, { position: motionPath({ points: waypoints3d }) }, { duration: 2000 })
+ *
+ * The path is written to `owner[key]` when that is an object (pixi
+ * `position`, THREE `position`), otherwise to the tweened object's own x/y(/z).
+ * Motion is arc-length parameterized, so eased progress maps to distance.
+ *
+ * Curves:
+ *   - 'linear'       straight segments through the points
+ *   - 'catmull-rom'  smooth curve through the points (default)
+ *   - 'bezier'       3 points = quadratic; 3n+1 points = cubic chain
+ *                    (anchor, control, control, anchor, ...)
+ */
+
+import type { TweenPlugin } from './TweenPlugin.js';
+
+export type PathCurve = 'linear' | 'catmull-rom' | 'bezier';
+
+export interface PathPoint {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+export interface MotionPathConfig {
+  points: ReadonlyArray<PathPoint>;
+  /** Curve type — defaults to 'catmull-rom' */
+  curve?: PathCurve;
+  /** Connect the last point back to the first (linear and catmull-rom) */
+  closed?: boolean;
+  /**
+   * Rotate the object to face along the path. A number adds that offset in
+   * radians. 2D paths set `rotation` (or `rotation.z`); 3D paths yaw `rotation.y`.
+   */
+  autoRotate?: boolean | number;
+  /** Offset the path so it starts at the current position */
+  relative?: boolean;
+  /** Arc-length samples per segment — defaults to 24 */
+  samples?: number;
+}
+
+/** End value created by motionPath() */
+export interface MotionPathValue {
+  readonly __tweenPath: true;
+  readonly path: MotionPath;
+  readonly config: MotionPathConfig;
+}
+
+/** Mark a path as a tween end value. */
+export function motionPath(config: MotionPathConfig): MotionPathValue {
+  return { __tweenPath: true, path: new MotionPath(config), config };
+}
+
+// ---- MotionPath ------------------------------------------------------------
+
+export class MotionPath {
+  /** True if any point has a z coordinate */
+  readonly is3D: boolean;
+
+  private readonly _curve: PathCurve;
+  private readonly _closed: boolean;
+  private readonly _points: PathPoint[];
+  private readonly _segments: number;
+  private readonly _samples: number;
+  /** Cumulative arc length at each sample */
+  private readonly _lengths: Float64Array;
+
+  constructor(config: MotionPathConfig) {
+    const points = config.points;
+    this._curve = config.curve ?? 'catmull-rom';
+    this._closed = (config.closed ?? false) && this._curve !== 'bezier';
+    this._samples = Math.max(1, config.samples ?? 24);
+    this.is3D = points.some((p) => p.z !== undefined);
+    this._points = points.map((p) => ({ x: p.x, y: p.y, z: p.z ?? 0 }));
+
+    if (points.length < 2) throw new Error('MotionPath: at least 2 points are required');
+    if (this._curve === 'bezier') {
+      if (points.length !== 3 && (points.length - 1) % 3 !== 0) {
+        throw new Error('MotionPath: bezier paths need 3 or 3n+1 points');
+      }
+      this._segments = points.length === 3 ? 1 : (points.length - 1) / 3;
+    } else {
+      this._segments = this._closed ? points.length : points.length - 1;
+    }
+
+    // Arc-length lookup table
+    const count = this._segments * this._samples;
+    this._lengths = new Float64Array(count + 1);
+    const prev = { x: 0, y: 0, z: 0 };
+    const next = { x: 0, y: 0, z: 0 };
+    this._evaluate(0, prev);
+    for (let i = 1; i <= count; i++) {
+      this._evaluate(i / this._samples, next);
+      const dx = next.x - prev.x;
+      const dy = next.y - prev.y;
+      const dz = next.z - prev.z;
+      this._lengths[i] = this._lengths[i - 1] + Math.sqrt(dx * dx + dy * dy + dz * dz);
+      prev.x = next.x;
+      prev.y = next.y;
+      prev.z = next.z;
+    }
+  }
+
+  /** Total path length */
+  get length(): number {
+    return this._lengths[this._lengths.length - 1];
+  }
+
+  /** First point of the path */
+  get start(): Readonly<Required<PathPoint>> {
+    return this._points[0] as Required<PathPoint>;
+  }
+
+  /**
+   * Point at `u` [0, 1] of the path's length, written into `out`.
+   * No allocations.
+   */
+  getPoint(u: number, out: Required<PathPoint>): Required<PathPoint> {
+    this._evaluate(this._distanceToParam(u), out);
+    return out;
+  }
+
+  /**
+   * Unit tangent at `u` [0, 1], written into `out`.
+   * No allocations.
+   */
+  getTangent(u: number, out: Required<PathPoint>): Required<PathPoint> {
+    const s = this._distanceToParam(u);
+    const eps = 1e-3 / this._samples;
+    const a = s - eps < 0 ? 0 : s - eps;
+    const max = this._segments;
+    const b = s + eps > max ? max : s + eps;
+    this._evaluate(b, out);
+    const bx = out.x;
+    const by = out.y;
+    const bz = out.z;
+    this._evaluate(a, out);
+    const dx = bx - out.x;
+    const dy = by - out.y;
+    const dz = bz - out.z;
+    const len = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+    out.x = dx / len;
+    out.y = dy / len;
+    out.z = dz / len;
+    return out;
+  }
+
+  /** Map arc-length fraction to curve parameter [0, segments]. */
+  private _distanceToParam(u: number): number {
+    const lengths = this._lengths;
+    const last = lengths.length - 1;
+    if (u <= 0) return 0;
+    if (u >= 1) return this._segments;
+    const target = u * lengths[last];
+
+    let lo = 0;
+    let hi = last;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (lengths[mid] <= target) lo = mid;
+      else hi = mid;
+    }
+    const span = lengths[hi] - lengths[lo];
+    const f = span > 0 ? (target - lengths[lo]) / span : 0;
+    return (lo + f) / this._samples;
+  }
+
+  /** Evaluate the curve at parameter `s` in [0, segments]. */
+  private _evaluate(s: number, out: { x: number; y: number; z: number }): void {
+    let seg = Math.floor(s);
+    if (seg >= this._segments) seg = this._segments - 1;
+    const t = s - seg;
+    const pts = this._points;
+    const n = pts.length;
+
+    if (this._curve === 'linear') {
+      const a = pts[seg];
+      const b = pts[(seg + 1) % n];
+      out.x = a.x + (b.x - a.x) * t;
+      out.y = a.y + (b.y - a.y) * t;
+      out.z = a.z! + (b.z! - a.z!) * t;
+      return;
+    }
+
+    if (this._curve === 'bezier') {
+      if (n === 3) {
+        const u = 1 - t;
+        const w0 = u * u;
+        const w1 = 2 * u * t;
+        const w2 = t * t;
+        out.x = w0 * pts[0].x + w1 * pts[1].x + w2 * pts[2].x;
+        out.y = w0 * pts[0].y + w1 * pts[1].y + w2 * pts[2].y;
+        out.z = w0 * pts[0].z! + w1 * pts[1].z! + w2 * pts[2].z!;
+        return;
+      }
+      const i = seg * 3;
+      const u = 1 - t;
+      const w0 = u * u * u;
+      const w1 = 3 * u * u * t;
+      const w2 = 3 * u * t * t;
+      const w3 = t * t * t;
+      const p0 = pts[i];
+      const p1 = pts[i + 1];
+      const p2 = pts[i + 2];
+      const p3 = pts[i + 3];
+      out.x = w0 * p0.x + w1 * p1.x + w2 * p2.x + w3 * p3.x;
+      out.y = w0 * p0.y + w1 * p1.y + w2 * p2.y + w3 * p3.y;
+      out.z = w0 * p0.z! + w1 * p1.z! + w2 * p2.z! + w3 * p3.z!;
+      return;
+    }
+
+    // Catmull-Rom (uniform); open ends repeat the end points
+    const p0 = pts[this._closed ? (seg - 1 + n) % n : Math.max(seg - 1, 0)];
+    const p1 = pts[seg % n];
+    const p2 = pts[this._closed ? (seg + 1) % n : Math.min(seg + 1, n - 1)];
+    const p3 = pts[this._closed ? (seg + 2) % n : Math.min(seg + 2, n - 1)];
+    out.x = catmullRom(p0.x, p1.x, p2.x, p3.x, t);
+    out.y = catmullRom(p0.y, p1.y, p2.y, p3.y, t);
+    out.z = catmullRom(p0.z!, p1.z!, p2.z!, p3.z!, t);
+  }
+}
+
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+}
+
+// ---- Plugin ----------------------------------------------------------------
+
+interface MotionPathState {
+  path: MotionPath;
+  /** Object receiving x/y/z */
+  dest: Record<string, any>;
+  offsetX: number;
+  offsetY: number;
+  offsetZ: number;
+  writeZ: boolean;
+  /** null = no auto-rotate */
+  rotateOffset: number | null;
+  point: Required<PathPoint>;
+}
+
+export const MotionPathPlugin: TweenPlugin<MotionPathValue, MotionPathState> = {
+  name: 'motionPath',
+
+  test(value: unknown): boolean {
+    return !!value && typeof value === 'object' && (value as MotionPathValue).__tweenPath === true;
+  },
+
+  init(owner, key, end) {
+    const nested = owner[key];
+    const dest = nested && typeof nested === 'object' ? nested : owner;
+    const { path, config } = end;
+    const start = path.start;
+    const relative = config.relative ?? false;
+    const autoRotate = config.autoRotate ?? false;
+    return {
+      path,
+      dest,
+      offsetX: relative ? dest.x - start.x : 0,
+      offsetY: relative ? dest.y - start.y : 0,
+      offsetZ: relative && typeof dest.z === 'number' ? dest.z - start.z : 0,
+      writeZ: path.is3D && typeof dest.z === 'number',
+      rotateOffset: autoRotate === false ? null : autoRotate === true ? 0 : autoRotate,
+      point: { x: 0, y: 0, z: 0 },
+    };
+  },
+
+  apply(owner, _key, s, p) {
+    const point = s.path.getPoint(p, s.point);
+    s.dest.x = point.x + s.offsetX;
+    s.dest.y = point.y + s.offsetY;
+    if (s.writeZ) s.dest.z = point.z + s.offsetZ;
+
+    if (s.rotateOffset === null) return;
+    const tangent = s.path.getTangent(p, s.point);
+    const rotation = owner.rotation;
+    if (s.path.is3D && rotation && typeof rotation === 'object') {
+      rotation.y = Math.atan2(tangent.x, tangent.z) + s.rotateOffset;
+    } else {
+      const angle = Math.atan2(tangent.y, tangent.x) + s.rotateOffset;
+      if (rotation && typeof rotation === 'object') rotation.z = angle;
+      else owner.rotation = angle;
+    }
+  },
+};
@@ -0,0 +1,544 @@
+/**
+ * Timeline — Seekable, reversible choreography of tweens.
+ *
+ *   Timeline.create()
+ *     .to(panel, { y: 0 }, { duration: 400 })
+ *     .addLabel('buttons')
+ *     .from(playBtn, { alpha: 0 }, { duration: 200 }, 'buttons')
+ *     .from(shopBtn, { alpha: 0 }, { duration: 200 }, 'buttons+=100')
+ *     .call(() => sfx.play('whoosh'), '-=150');
+ *
+ * Position parameter (last argument of to/from/add/call/addLabel):
+ *   - omitted        end of the timeline
+ *   - 500            absolute ms
+ *   - '+=200'/'-=200' relative to the end of the timeline
+ *   - 'label'        a label's time (created at the end if missing)
+ *   - 'label+=100'   relative to a label
+ *   - '<' / '>'      start / end of the previously added child ('<+=50' too)
+ *
+ * Children are rendered from the playhead position rather than integrated,
+ * so seek() and reverse() work at any time. Driven by TweenManager.update;
+ * no allocations in the update path.
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import { Tween, TweenConfig, TweenProps } from './Tween.js';
+import { TweenManager } from './TweenManager.js';
+
+// ---- Configuration -------------------------------------------------------
+
+export interface TimelineConfig {
+  /** Repeat count: 0 = no repeat, -1 = infinite */
+  repeat?: number;
+  /** Play every other cycle backwards */
+  yoyo?: boolean;
+  /** Playback speed multiplier — defaults to 1 */
+  timeScale?: number;
+  /** Start paused — defaults to false */
+  paused?: boolean;
+  /** Called each frame with overall progress [0, 1] */
+  onUpdate?: (progress: number) => void;
+  /** Called when playback reaches the end */
+  onComplete?: () => void;
+}
+
+/** Absolute ms, or a relative/label string (see Timeline docs) */
+export type TimelinePosition = number | string;
+
+export interface TimelineChildCallbacks {
+  /** Playhead crossed the child's start moving forward */
+  onStart?: () => void;
+  /** Playhead crossed the child's end moving forward */
+  onComplete?: () => void;
+}
+
+// ---- Events --------------------------------------------------------------
+
+export interface TimelineEvents {
+  /** Every rendered frame: local time (ms) and overall progress [0, 1] */
+  update: [time: number, progress: number];
+  complete: [];
+  /** Reversed playback reached the start */
+  'reverse-complete': [];
+  /** A new cycle started (1-based repeat count) */
+  repeat: [count: number];
+  /** The playhead crossed a label (either direction) */
+  label: [name: string];
+  pause: [];
+  resume: [];
+  stop: [];
+}
+
+// ---- Internal child record -----------------------------------------------
+
+interface TimelineChild {
+  /** Tween or nested Timeline; null for call() and label entries */
+  child: Tween | Timeline | null;
+  start: number;
+  duration: number;
+  fn: (() => void) | null;
+  /** Label name for addLabel() entries */
+  label: string | null;
+  onStart: (() => void) | null;
+  onComplete: (() => void) | null;
+}
+
+const POSITION_RELATIVE = /^([+-])=(\d*\.?\d+)$/;
+const POSITION_PREVIOUS = /^([<>])(?:([+-])=?(\d*\.?\d+))?$/;
+const POSITION_LABEL = /^(.+?)(?:([+-])=(\d*\.?\d+))?$/;
+
+// ---- Timeline -----------------------------------------------------------
+
+export class Timeline extends EventEmitter<TimelineEvents> {
+  // Internal fields accessed by TweenManager
+  readonly _target: object | null = null;
+  _isFinished = false;
+
+  private readonly _config: TimelineConfig;
+  private readonly _children: TimelineChild[] = [];
+  private _last: TimelineChild | null = null;
+  /** Length of one cycle in ms */
+  private _duration = 0;
+
+  private _timeScale: number;
+  private _playing: boolean;
+  private _reversed = false;
+  /** Playhead across all cycles */
+  private _totalTime = 0;
+  /** Local time of the last render; -1 = before the start */
+  private _renderedTime = -1;
+  /** True while owned by a parent timeline (not driven by TweenManager) */
+  private _nested = false;
+
+  // ---- Construction (private — use Timeline.create) ----------------------
+
+  private constructor(config: TimelineConfig) {
+    super();
+    this._config = config;
+    this._timeScale = config.timeScale ?? 1;
+    this._playing = !config.paused;
+  }
+
+  /**
+   * Create a timeline and register it with TweenManager.
+   */
+  static create(config: TimelineConfig = {}): Timeline {
+    const timeline = new Timeline(config);
+    TweenManager.add(timeline);
+    return timeline;
+  }
+
+  // ---- Building ----------------------------------------------------------
+
+  /** Add a Tween.to() at `position` */
+  to(target: object, props: TweenProps, config: TweenConfig, position?: TimelinePosition): this {
+    return this.add(Tween.to(target, props, config), position);
+  }
+
+  /**
+   * Add a Tween.from() at `position`. Like Tween.from, the from-values are
+   * applied immediately.
+   */
+  from(target: object, props: TweenProps, config: TweenConfig, position?: TimelinePosition): this {
+    return this.add(Tween.from(target, props, config), position);
+  }
+
+  /**
+   * Place a Tween (including sequence/parallel containers) or a nested
+   * Timeline at `position`. The child is detached from TweenManager and
+   * driven by this timeline from then on.
+   */
+  add(child: Tween | Timeline, position?: TimelinePosition, callbacks: TimelineChildCallbacks = {}): this {
+    const duration = child._totalDuration();
+    if (!Number.isFinite(duration)) {
+      throw new Error('Timeline: children cannot repeat infinitely');
+    }
+    TweenManager.remove(child);
+    if (child instanceof Timeline) child._nested = true;
+
+    return this._insert({
+      child,
+      start: this._resolvePosition(position),
+      duration,
+      fn: null,
+      label: null,
+      onStart: callbacks.onStart ?? null,
+      onComplete: callbacks.onComplete ?? null,
+    });
+  }
+
+  /**
+   * Call `fn` when the playhead crosses `position` (in either direction).
+   */
+  call(fn: () => void, position?: TimelinePosition): this {
+    return this._insert({
+      child: null,
+      start: this._resolvePosition(position),
+      duration: 0,
+      fn,
+      label: null,
+      onStart: null,
+      onComplete: null,
+    });
+  }
+
+  /** Name a point in time for positions, seek() and 'label' events */
+  addLabel(name: string, position?: TimelinePosition): this {
+    const time = this._resolvePosition(position);
+    const index = this._findLabel(name);
+    if (index !== -1) this._children.splice(index, 1);
+    this._insertLabel(name, time);
+    return this;
+  }
+
+  /** Time of a label in ms, if defined */
+  getLabelTime(name: string): number | undefined {
+    const index = this._findLabel(name);
+    return index === -1 ? undefined : this._children[index].start;
+  }
+
+  // ---- Playback control --------------------------------------------------
+
+  /** Play forward, optionally from a position */
+  play(from?: TimelinePosition): this {
+    if (from !== undefined) this.seek(from);
+    this._reversed = false;
+    return this._activate();
+  }
+
+  /** Play backward from the current position (or from `from`) */
+  reverse(from?: TimelinePosition): this {
+    if (from !== undefined) this.seek(from);
+    this._reversed = true;
+    return this._activate();
+  }
+
+  pause(): this {
+    this._playing = false;
+    this.emit('pause');
+    return this;
+  }
+
+  resume(): this {
+    this._activate();
+    this.emit('resume');
+    return this;
+  }
+
+  /** Rewind to the start (re-arming callbacks) and play forward */
+  restart(): this {
+    this._setTotalTime(0, true);
+    this._renderedTime = -1;
+    return this.play();
+  }
+
+  /**
+   * Jump the playhead to `position` (ms across all cycles, or a label).
+   * Callbacks and label events are skipped unless `suppressEvents` is false.
+   */
+  seek(position: TimelinePosition, suppressEvents = true): this {
+    let time = typeof position === 'number' ? position : this._resolvePosition(position, false);
+    const total = this.totalDuration;
+    if (time < 0) time = 0;
+    if (time > total) time = total;
+    if (this._isFinished && !this._nested) {
+      this._isFinished = false;
+      TweenManager.add(this);
+    }
+    this._setTotalTime(time, suppressEvents);
+    this._emitUpdate();
+    return this;
+  }
+
+  /**
+   * Stop immediately and remove from TweenManager. Does NOT fire complete.
+   */
+  stop(): void {
+    this._kill();
+    TweenManager.remove(this);
+    this.emit('stop');
+  }
+
+  // ---- Introspection -----------------------------------------------------
+
+  /** Length of one cycle in ms */
+  get duration(): number {
+    return this._duration;
+  }
+
+  /** Length including repeats (Infinity when repeating forever) */
+  get totalDuration(): number {
+    const repeat = this._config.repeat ?? 0;
+    if (repeat === -1) return Infinity;
+    return this._duration * (repeat + 1);
+  }
+
+  /** Playhead within the current cycle, in ms */
+  get time(): number {
+    return this._renderedTime < 0 ? 0 : this._renderedTime;
+  }
+
+  /** Playhead across all cycles, in ms */
+  get totalTime(): number {
+    return this._totalTime;
+  }
+
+  /** Overall progress [0, 1] (cycle progress when repeating forever) */
+  get progress(): number {
+    const total = this.totalDuration;
+    if (total === 0) return 1;
+    if (!Number.isFinite(total)) return this.time / this._duration;
+    return this._totalTime / total;
+  }
+
+  get timeScale(): number {
+    return this._timeScale;
+  }
+
+  set timeScale(value: number) {
+    this._timeScale = value;
+  }
+
+  get reversed(): boolean {
+    return this._reversed;
+  }
+
+  get isPlaying(): boolean {
+    return this._playing && !this._isFinished;
+  }
+
+  // ---- Internal update (called by TweenManager) --------------------------
+
+  /**
+   * Advance the playhead by `dt` milliseconds.
+   * Hot path — zero allocations inside.
+   */
+  _update(dt: number): void {
+    if (!this._playing || this._isFinished) return;
+
+    const total = this.totalDuration;
+    let time = this._totalTime + dt * this._timeScale * (this._reversed ? -1 : 1);
+    if (time > total) time = total;
+    if (time < 0) time = 0;
+
+    this._setTotalTime(time, false);
+    this._emitUpdate();
+
+    if (!this._reversed && time >= total) {
+      this._finish();
+      if (this._config.onComplete) this._config.onComplete();
+      this.emit('complete');
+    } else if (this._reversed && time <= 0) {
+      this._finish();
+      this.emit('reverse-complete');
+    }
+  }
+
+  /** Duration including repeats (used when nested). */
+  _totalDuration(): number {
+    return this.totalDuration;
+  }
+
+  /** Render at `time` ms as a child of another timeline. */
+  _renderAt(time: number, suppressEvents = false): void {
+    this._setTotalTime(time < 0 ? 0 : time, suppressEvents);
+  }
+
+  /** Fire completion callbacks without finishing (used by a parent timeline). */
+  _notifyComplete(): void {
+    if (this._config.onComplete) this._config.onComplete();
+    this.emit('complete');
+  }
+
+  /** Internal kill — stops without firing complete. */
+  _kill(): void {
+    this._isFinished = true;
+    this._playing = false;
+    for (let i = 0; i < this._children.length; i++) {
+      const child = this._children[i].child;
+      if (child) child._kill();
+    }
+  }
+
+  // ---- Rendering ---------------------------------------------------------
+
+  /** Map a playhead across cycles to local time, handling repeat and yoyo. */
+  private _setTotalTime(total: number, suppressEvents: boolean): void {
+    const prevTotal = this._totalTime;
+    this._totalTime = total;
+    const d = this._duration;
+    if (d <= 0) {
+      this._render(0, suppressEvents);
+      return;
+    }
+
+    const repeat = this._config.repeat ?? 0;
+    const last = repeat === -1 ? Infinity : repeat;
+    const yoyo = this._config.yoyo ?? false;
+    let cycle = Math.min(Math.floor(prevTotal / d), last);
+    const target = Math.min(Math.floor(total / d), last);
+
+    // Walk across cycle boundaries so callbacks in skipped spans still fire
+    while (cycle !== target) {
+      const forward = target > cycle;
+      const backwardCycle = yoyo && (cycle & 1) === 1;
+      // Finish the current cycle at the boundary we are leaving through
+      this._render(forward !== backwardCycle ? d : 0, suppressEvents);
+      cycle += forward ? 1 : -1;
+      if (!yoyo) {
+        // Jump to the other end of the cycle without firing anything
+        this._render(forward ? 0 : d, true);
+        this._renderedTime = forward ? -1 : d + 1;
+      }
+      if (forward && !suppressEvents) this.emit('repeat', cycle);
+    }
+
+    let local = total - target * d;
+    if (local > d) local = d;
+    if (yoyo && (target & 1) === 1) local = d - local;
+    this._render(local, suppressEvents);
+  }
+
+  /**
+   * Render all children at local `time`. Children the playhead did not
+   * cross since the last render are skipped.
+   */
+  private _render(time: number, suppressEvents: boolean): void {
+    const prev = this._renderedTime;
+    this._renderedTime = time;
+    const lo = prev < time ? prev : time;
+    const hi = prev < time ? time : prev;
+    const children = this._children;
+
+    // Children starting after the playhead: restore their start state,
+    // latest first, so they never override earlier children
+    for (let i = children.length - 1; i >= 0; i--) {
+      const entry = children[i];
+      if (entry.start <= time) break;
+      if (entry.start > hi) continue;
+      if (entry.child) entry.child._renderAt(0, suppressEvents);
+      else if (!suppressEvents && entry.start < prev) this._fire(entry);
+    }
+
+    // Children at or before the playhead, in start order
+    for (let i = 0; i < children.length; i++) {
+      const entry = children[i];
+      if (entry.start > time) break;
+      const end = entry.start + entry.duration;
+      if (end < lo) continue;
+
+      if (!entry.child) {
+        if (!suppressEvents && crossed(entry.start, prev, time)) this._fire(entry);
+        continue;
+      }
+
+      const local = time - entry.start;
+      entry.child._renderAt(local > entry.duration ? entry.duration : local, suppressEvents);
+
+      if (!suppressEvents && prev < time) {
+        if (entry.onStart && prev < entry.start) entry.onStart();
+        if (prev < end && end <= time) {
+          if (entry.onComplete) entry.onComplete();
+          entry.child._notifyComplete();
+        }
+      }
+    }
+  }
+
+  /** Run a call() entry or announce a label */
+  private _fire(entry: TimelineChild): void {
+    if (entry.fn) entry.fn();
+    else this.emit('label', entry.label!);
+  }
+
+  private _emitUpdate(): void {
+    const progress = this.progress;
+    if (this._config.onUpdate) this._config.onUpdate(progress);
+    this.emit('update', this.time, progress);
+  }
+
+  private _activate(): this {
+    this._playing = true;
+    if (this._isFinished && !this._nested) {
+      this._isFinished = false;
+      TweenManager.add(this);
+    }
+    return this;
+  }
+
+  private _finish(): void {
+    this._isFinished = true;
+    this._playing = false;
+  }
+
+  // ---- Building helpers --------------------------------------------------
+
+  private _insert(entry: TimelineChild): this {
+    this._insertSorted(entry);
+    this._last = entry;
+    this._duration = Math.max(this._duration, entry.start + entry.duration);
+    return this;
+  }
+
+  /** Labels are ordered with the children but never extend the duration */
+  private _insertLabel(name: string, time: number): void {
+    this._insertSorted({ child: null, start: time, duration: 0, fn: null, label: name, onStart: null, onComplete: null });
+  }
+
+  private _insertSorted(entry: TimelineChild): void {
+    // Keep children sorted by start time (stable for equal starts)
+    let index = this._children.length;
+    while (index > 0 && this._children[index - 1].start > entry.start) index--;
+    this._children.splice(index, 0, entry);
+  }
+
+  private _findLabel(name: string): number {
+    for (let i = 0; i < this._children.length; i++) {
+      if (this._children[i].label === name) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Resolve a position parameter to ms.
+   * @param createLabels - Unknown labels are created at the end (building only)
+   */
+  private _resolvePosition(position: TimelinePosition | undefined, createLabels = true): number {
+    if (position === undefined) return this._duration;
+    if (typeof position === 'number') return Math.max(0, position);
+
+    let match = POSITION_RELATIVE.exec(position);
+    if (match) {
+      return Math.max(0, this._duration + signed(match[1], match[2]));
+    }
+
+    match = POSITION_PREVIOUS.exec(position);
+    if (match) {
+      const last = this._last;
+      const anchor = !last ? this._duration : match[1] === '<' ? last.start : last.start + last.duration;
+      return Math.max(0, anchor + (match[2] ? signed(match[2], match[3]) : 0));
+    }
+
+    match = POSITION_LABEL.exec(position);
+    if (match) {
+      let time = this.getLabelTime(match[1]);
+      if (time === undefined) {
+        if (!createLabels) throw new Error(`Timeline: unknown label "${match[1]}"`);
+        time = this._duration;
+        this._insertLabel(match[1], time);
+      }
+      return Math.max(0, time + (match[2] ? signed(match[2], match[3]) : 0));
+    }
+
+    throw new Error(`Timeline: invalid position "${position}"`);
+  }
+}
+
+/** True if the playhead moved across `t` from `prev` to `time` (either direction) */
+function crossed(t: number, prev: number, time: number): boolean {
+  return prev < time ? prev < t && t <= time : time <= t && t < prev;
+}
+
+function signed(sign: string, value: string): number {
+  return sign === '-' ? -Number(value) : Number(value);
+}
@@ -4,6 +4,8 @@
  * Primary API:
  *   Tween.to(target, { x: 100, y: 200 }, { duration: 500 })
  *   Tween.from(target, { alpha: 0 }, { duration: 300, ease: Ease.cubicOut })
+ *   Tween.to(mesh, { 'scale.x': 2, position: { y: 3 } }, { duration: 400 })
+ *   Tween.to(sprite, { tint: color(0xff0000, 'hsl') }, { duration: 300 })
  *   Tween.sequence([tween1, tween2])
  *   Tween.parallel([tween1, tween2])
  *   Tween.delay(ms)
@@ -13,11 +15,17 @@
  *   - for-loops in hot paths (_update)
  *   - Start values captured on first _update call for .to() (lazy)
  *   - No allocations during update
+ *
+ * Values: numbers are interpolated directly. Dotted keys ('scale.x') and
+ * nested objects/arrays ({x, y, z} vectors) resolve to numeric properties
+ * of the nested object at construction. Other values go to a TweenPlugin
+ * (colors, motion paths, custom types).
  */
 
 import { EventEmitter } from 'eventemitter3';
 import { Ease, EasingFunction } from './Ease.js';
 import { TweenManager } from './TweenManager.js';
+import { TweenPlugins, TweenPlugin } from './TweenPlugin.js';
 
 // ---- Configuration -------------------------------------------------------
 
@@ -38,6 +46,14 @@ export interface TweenConfig {
   onComplete?: () => void;
 }
 
+/**
+ * End value: a number, a nested object/array of values, or any value a
+ * registered TweenPlugin accepts (color(), motionPath(), '#hex' strings).
+ */
+export type TweenValue = number | string | readonly number[] | object;
+
+export type TweenProps = Record<string, TweenValue>;
+
 // ---- Events --------------------------------------------------------------
 
 export interface TweenEvents {
@@ -51,9 +67,17 @@ export interface TweenEvents {
 // ---- Internal property record -------------------------------------------
 
 interface PropRecord {
+  /** Object holding the property — the target or a nested object ('scale.x') */
+  owner: Record<string, any>;
   key: string;
   start: number;
   end: number;
+  /** Plugin for non-numeric values, with its end value and captured state */
+  plugin: TweenPlugin | null;
+  value: unknown;
+  state: unknown;
+  /** Tween.from() plugin records play their plugin backwards */
+  invert: boolean;
 }
 
 // ---- Container mode enum ------------------------------------------------
@@ -113,7 +137,7 @@ export class Tween extends EventEmitter<TweenEvents> {
 
   private constructor(
     target: object | null,
-    props: Record<string, number> | null,
+    props: TweenProps | null,
     config: TweenConfig,
     captureStart: boolean,
     children: Tween[] | null = null,
@@ -134,19 +158,9 @@ export class Tween extends EventEmitter<TweenEvents> {
     this._containerMode = containerMode;
 
     // Pre-allocate property records
+    this._props = [];
     if (props && target) {
-      const keys = Object.keys(props);
-      this._props = new Array(keys.length);
-      for (let i = 0; i < keys.length; i++) {
-        const key = keys[i];
-        this._props[i] = {
-          key,
-          start: captureStart ? 0 : (target as Record<string, number>)[key],
-          end: props[key]
-        };
-      }
-    } else {
-      this._props = [];
+      collectProps(target as Record<string, any>, props, captureStart, this._props);
     }
   }
 
@@ -158,7 +172,7 @@ export class Tween extends EventEmitter<TweenEvents> {
    */
   static to(
     target: object,
-    props: Record<string, number>,
+    props: TweenProps,
     config: TweenConfig
   ): Tween {
     const tween = new Tween(target, props, config, true);
@@ -172,24 +186,23 @@ export class Tween extends EventEmitter<TweenEvents> {
    */
   static from(
     target: object,
-    props: Record<string, number>,
+    props: TweenProps,
     config: TweenConfig
   ): Tween {
-    const t = target as Record<string, number>;
-    const keys = Object.keys(props);
-
-    // Build end props from current target state before we overwrite
-    const endProps: Record<string, number> = {};
-    for (let i = 0; i < keys.length; i++) {
-      endProps[keys[i]] = t[keys[i]];
-    }
-
-    // Set target to from-values so constructor reads them as start
-    for (let i = 0; i < keys.length; i++) {
-      t[keys[i]] = props[keys[i]];
+    // Records start as current -> from-value; swap them and apply the from-values
+    const tween = new Tween(target, props, config, false);
+    const records = tween._props;
+    for (let i = 0; i < records.length; i++) {
+      const prop = records[i];
+      if (prop.plugin) {
+        prop.state = prop.plugin.init(prop.owner, prop.key, prop.value);
+        prop.invert = true;
+        prop.plugin.apply(prop.owner, prop.key, prop.state, 1);
+      } else {
+        prop.end = prop.start;
+        prop.start = prop.owner[prop.key] = (prop.value as number);
+      }
     }
-
-    const tween = new Tween(target, endProps, config, false);
     TweenManager.add(tween);
     return tween;
   }
@@ -288,6 +301,7 @@ export class Tween extends EventEmitter<TweenEvents> {
    */
   complete(): void {
     if (this._target) {
+      if (this._captureStart && !this._startCaptured) this._captureStartValues();
       this._applyProgress(1);
     }
     this._finish();
@@ -336,11 +350,7 @@ export class Tween extends EventEmitter<TweenEvents> {
 
     // Lazy start value capture for Tween.to()
     if (this._captureStart && !this._startCaptured) {
-      const t = this._target as Record<string, number>;
-      for (let i = 0; i < this._props.length; i++) {
-        this._props[i].start = t[this._props[i].key];
-      }
-      this._startCaptured = true;
+      this._captureStartValues();
     }
 
     if (this._elapsed >= this._duration) {
@@ -432,10 +442,13 @@ export class Tween extends EventEmitter<TweenEvents> {
     const eased = this._ease(rawProgress);
 
     if (this._target) {
-      const t = this._target as Record<string, number>;
       for (let i = 0; i < this._props.length; i++) {
         const prop = this._props[i];
-        t[prop.key] = prop.start + (prop.end - prop.start) * eased;
+        if (prop.plugin) {
+          prop.plugin.apply(prop.owner, prop.key, prop.state, prop.invert ? 1 - eased : eased);
+        } else {
+          prop.owner[prop.key] = prop.start + (prop.end - prop.start) * eased;
+        }
       }
     }
 
@@ -443,6 +456,16 @@ export class Tween extends EventEmitter<TweenEvents> {
     this.emit('update', eased);
   }
 
+  /** Read start values (and initialize plugins) from the target. */
+  private _captureStartValues(): void {
+    for (let i = 0; i < this._props.length; i++) {
+      const prop = this._props[i];
+      if (prop.plugin) prop.state = prop.plugin.init(prop.owner, prop.key, prop.value);
+      else prop.start = prop.owner[prop.key];
+    }
+    this._startCaptured = true;
+  }
+
   // ---- Completion --------------------------------------------------------
 
   private _finish(): void {
@@ -470,4 +493,148 @@ export class Tween extends EventEmitter<TweenEvents> {
   _fullDuration(): number {
     return this._delay + this._duration;
   }
+
+  // ---- Timeline support --------------------------------------------------
+
+  /** Duration including delay and repeats (Infinity for infinite repeats). */
+  _totalDuration(): number {
+    if (this._repeat === -1) return Infinity;
+    if (this._containerMode === ContainerMode.None) {
+      return this._delay + this._duration * (this._repeat + 1);
+    }
+    // Containers: recompute from children, which may repeat
+    const children = this._children!;
+    let total = 0;
+    for (let i = 0; i < children.length; i++) {
+      const child = children[i]._totalDuration();
+      total = this._containerMode === ContainerMode.Sequence ? total + child : Math.max(total, child);
+    }
+    return this._delay + total;
+  }
+
+  /**
+   * Render the state at local `time` ms (delay included), as a Timeline
+   * playhead does. Stateless with respect to elapsed time, so it can seek
+   * backwards. Hot path — zero allocations inside.
+   */
+  _renderAt(time: number): void {
+    let active = time - this._delay;
+
+    if (this._containerMode !== ContainerMode.None) {
+      this._renderChildrenAt(active < 0 ? 0 : active);
+      return;
+    }
+
+    if (this._captureStart && !this._startCaptured) {
+      // Not reached yet — keep the start values uncaptured
+      if (active <= 0) return;
+      this._captureStartValues();
+    }
+    if (active < 0) active = 0;
+
+    if (this._duration <= 0) {
+      this._applyProgress(1);
+      return;
+    }
+
+    const cycles = this._repeat + 1;
+    let cycle = Math.floor(active / this._duration);
+    let local = active - cycle * this._duration;
+    if (cycle >= cycles) {
+      cycle = cycles - 1;
+      local = this._duration;
+    }
+    const raw = local / this._duration;
+    this._applyProgress(this._yoyo && (cycle & 1) === 1 ? 1 - raw : raw);
+  }
+
+  private _renderChildrenAt(time: number): void {
+    const children = this._children!;
+    if (this._containerMode === ContainerMode.Parallel) {
+      for (let i = 0; i < children.length; i++) children[i]._renderAt(time);
+      return;
+    }
+
+    if (children.length === 0) return;
+
+    // Sequence: find the child containing `time`
+    let current = 0;
+    let start = 0;
+    while (current < children.length - 1 && time >= start + children[current]._totalDuration()) {
+      start += children[current]._totalDuration();
+      current++;
+    }
+    // Restore later children first so they cannot override the active one
+    for (let i = children.length - 1; i > current; i--) children[i]._renderAt(0);
+    let offset = 0;
+    for (let i = 0; i <= current; i++) {
+      children[i]._renderAt(time - offset);
+      offset += children[i]._totalDuration();
+    }
+  }
+
+  /** Fire completion callbacks without finishing (used by Timeline). */
+  _notifyComplete(): void {
+    if (this._onComplete) this._onComplete();
+    this.emit('complete');
+  }
+}
+
+// ---- Property resolution ---------------------------------------------------
+
+/**
+ * Flatten `props` into records: dotted keys and nested objects/arrays resolve
+ * to the nested owner, non-numeric leaves go to their plugin.
+ */
+function collectProps(
+  target: Record<string, any>,
+  props: TweenProps,
+  captureStart: boolean,
+  out: PropRecord[]
+): void {
+  const keys = Object.keys(props);
+  for (let i = 0; i < keys.length; i++) {
+    const path = keys[i];
+    const value = props[path];
+    let owner = target;
+    let key = path;
+
+    if (path.indexOf('.') !== -1) {
+      const segments = path.split('.');
+      for (let s = 0; s < segments.length - 1; s++) {
+        owner = owner[segments[s]];
+        if (!owner || typeof owner !== 'object') {
+          throw new Error(`Tween: cannot resolve property "${path}"`);
+        }
+      }
+      key = segments[segments.length - 1];
+    }
+
+    if (typeof value === 'number') {
+      out.push({
+        owner,
+        key,
+        start: captureStart ? 0 : owner[key],
+        end: value,
+        plugin: null,
+        value,
+        state: null,
+        invert: false
+      });
+      continue;
+    }
+
+    const plugin = TweenPlugins.find(value);
+    if (plugin) {
+      out.push({ owner, key, start: 0, end: 0, plugin, value, state: null, invert: false });
+      continue;
+    }
+
+    const nested = owner[key];
+    if (value && typeof value === 'object' && nested && typeof nested === 'object') {
+      collectProps(nested, value as TweenProps, captureStart, out);
+      continue;
+    }
+    throw new Error(`Tween: unsupported value for property "${path}"`);
+  }
 }
@@ -12,11 +12,20 @@
  *   - Compact pass only when dirty
  */
 
-import { Tween } from './Tween.js';
+/**
+ * Anything TweenManager can drive — Tween and Timeline.
+ * Underscore members are internal to the tween module.
+ */
+export interface ManagedTween {
+  _target: object | null;
+  _isFinished: boolean;
+  _update(dt: number): void;
+  _kill(): void;
+}
 
 /** Internal handle stored per-registration */
 interface TweenEntry {
-  tween: Tween;
+  tween: ManagedTween;
   /** Marked true to schedule removal on next compact */
   removed: boolean;
 }
@@ -37,7 +46,7 @@ export class TweenManager {
   // ---- Registration API ------------------------------------------------
 
   /** Add a tween to the managed list. Called internally by Tween factory methods. */
-  static add(tween: Tween): void {
+  static add(tween: ManagedTween): void {
     TweenManager._entries.push({ tween, removed: false });
 
     if (TweenManager._entries.length > WARN_THRESHOLD) {
@@ -49,7 +58,7 @@ export class TweenManager {
   }
 
   /** Remove a specific tween (lazy — flags for next compact pass). */
-  static remove(tween: Tween): void {
+  static remove(tween: ManagedTween): void {
     const entries = TweenManager._entries;
     const len = entries.length;
     for (let i = 0; i < len; i++) {
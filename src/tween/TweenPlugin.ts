@@ -0,0 +1,68 @@
+/**
+ * TweenPlugin — Extension point for non-numeric tween values.
+ *
+ * Tween interpolates plain numbers itself and expands nested objects,
+ * vectors and arrays into numeric properties. Any other end value (colors,
+ * motion paths, custom types) is handed to the first registered plugin
+ * whose test() accepts it:
+ *
+ *   TweenPlugins.register({
+ *     name: 'angle',
+ *     test: (v) => v instanceof Angle,
+ *     init: (owner, key, end: Angle) => ({ from: owner[key], to: end.radians }),
+ *     apply: (owner, key, s, p) => { owner[key] = s.from + (s.to - s.from) * p; },
+ *   });
+ *
+ * Built-in plugins: color() and motionPath().
+ */
+
+import { ColorPlugin } from './ColorPlugin.js';
+import { MotionPathPlugin } from './MotionPath.js';
+
+export interface TweenPlugin<V = any, S = any> {
+  /** Unique plugin name (used by unregister) */
+  readonly name: string;
+  /** Whether this plugin handles the given end value */
+  test(value: unknown): boolean;
+  /**
+   * Capture the start state when the tween starts (lazily for Tween.to).
+   * Allocation is fine here.
+   */
+  init(owner: Record<string, any>, key: string, end: V): S;
+  /**
+   * Write the value for eased `progress` [0, 1].
+   * Hot path — must not allocate.
+   */
+  apply(owner: Record<string, any>, key: string, state: S, progress: number): void;
+}
+
+// ---- Registry ------------------------------------------------------------
+
+export class TweenPlugins {
+  private static _plugins: TweenPlugin[] = [ColorPlugin, MotionPathPlugin];
+
+  /** Register a plugin. Later registrations are tested first. */
+  static register(plugin: TweenPlugin): void {
+    TweenPlugins.unregister(plugin.name);
+    TweenPlugins._plugins.unshift(plugin);
+  }
+
+  /** Remove a plugin by name. */
+  static unregister(name: string): void {
+    TweenPlugins._plugins = TweenPlugins._plugins.filter((plugin) => plugin.name !== name);
+  }
+
+  /** The plugin handling `value`, or null. */
+  static find(value: unknown): TweenPlugin | null {
+    const plugins = TweenPlugins._plugins;
+    for (let i = 0; i < plugins.length; i++) {
+      if (plugins[i].test(value)) return plugins[i];
+    }
+    return null;
+  }
+
+  /** Restore the built-in plugins (for tests). */
+  static _reset(): void {
+    TweenPlugins._plugins = [ColorPlugin, MotionPathPlugin];
+  }
+}
@@ -17,9 +17,20 @@
  */
 
 export { Tween } from './Tween.js';
-export type { TweenConfig, TweenEvents } from './Tween.js';
+export type { TweenConfig, TweenEvents, TweenProps, TweenValue } from './Tween.js';
+
+export { TweenPlugins } from './TweenPlugin.js';
+export type { TweenPlugin } from './TweenPlugin.js';
+export { color, parseColor, ColorPlugin } from './ColorPlugin.js';
+export type { ColorSpace, ColorValue } from './ColorPlugin.js';
+export { motionPath, MotionPath, MotionPathPlugin } from './MotionPath.js';
+export type { MotionPathConfig, MotionPathValue, PathCurve, PathPoint } from './MotionPath.js';
+
+export { Timeline } from './Timeline.js';
+export type { TimelineConfig, TimelineEvents, TimelinePosition, TimelineChildCallbacks } from './Timeline.js';
 
 export { TweenManager } from './TweenManager.js';
+export type { ManagedTween } from './TweenManager.js';
 
 export { Ease } from './Ease.js';
 export type { EasingFunction } from './Ease.js';
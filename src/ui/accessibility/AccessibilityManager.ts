@@ -0,0 +1,799 @@
+import { EventEmitter } from 'eventemitter3';
+import type { IContainer } from '../../contracts/Graphics.js';
+import type { Rect, UIComponent } from '../../contracts/UI.js';
+import { Toast, ToastConfig } from '../../boilerplate/Toast.js';
+import { describeComponent } from './describeComponent.js';
+
+/**
+ * Roles a proxy element can take (a subset of WAI-ARIA)
+ */
+export type AccessibleRole =
+  | 'button'
+  | 'checkbox'
+  | 'switch'
+  | 'slider'
+  | 'radiogroup'
+  | 'radio'
+  | 'tablist'
+  | 'tab'
+  | 'progressbar'
+  | 'text'
+  | 'heading'
+  | 'img'
+  | 'group'
+  | 'dialog';
+
+/**
+ * Dynamic state mirrored onto ARIA attributes
+ */
+export interface AccessibleState {
+  /** aria-checked (checkbox, switch, radio) */
+  checked?: boolean;
+  /** aria-selected (tab) */
+  selected?: boolean;
+  /** aria-expanded */
+  expanded?: boolean;
+  /** aria-disabled; activation is ignored while set */
+  disabled?: boolean;
+  /** Current value (slider, progressbar) */
+  value?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Spoken value, e.g. "75%" */
+  valueText?: string;
+  /** Hide from assistive tech (in addition to the target's own visibility) */
+  hidden?: boolean;
+}
+
+/** Anything the manager can mirror */
+export type AccessibleTarget = UIComponent | { getContainer(): IContainer } | IContainer | object;
+
+/**
+ * How a target is exposed. Built-in components are described
+ * automatically (see describeComponent); these options override that.
+ */
+export interface AccessibleOptions {
+  role?: AccessibleRole;
+  label?: string | (() => string);
+  /** Read the current state; polled and re-read after target events */
+  state?: () => AccessibleState;
+  /**
+   * Position in focus and reading order among siblings: lower first,
+   * equal values keep registration order
+   * @default 0
+   */
+  order?: number;
+  /** Heading level for role 'heading' @default 2 */
+  level?: number;
+  /**
+   * Called when the proxy is activated (click, Enter, Space, screen reader
+   * double-tap). Defaults to a synthesized tap - pointerdown then pointerup
+   * at the centre of the target's display container - so the same handlers
+   * run as for a finger.
+   */
+  activate?: () => void;
+  /** Slider value set from assistive tech */
+  setValue?: (value: number) => void;
+  /** Escape inside a dialog */
+  dismiss?: () => void;
+  /** Bounds in stage coordinates, used to place the proxy over the canvas */
+  getBounds?: () => Rect | null;
+  /** Display container for visibility, bounds and the default activation */
+  container?: IContainer;
+  /** Node to nest under (dialog contents, radio options) */
+  parent?: AccessibleNode;
+  /** Target events that trigger an immediate sync */
+  syncOn?: string[];
+  /** Child proxies created with the node (e.g. the options of a radio group) */
+  children?: AccessibleOptions[];
+}
+
+/**
+ * AccessibilityManager configuration
+ */
+export interface AccessibilityManagerConfig {
+  /** Game canvas; proxies are positioned over it */
+  canvas?: HTMLCanvasElement;
+  /** Element the hidden tree is appended to @default canvas.parentElement ?? document.body */
+  parent?: HTMLElement;
+  /**
+   * Canvas pixels per stage unit, i.e. the renderer resolution
+   * @default window.devicePixelRatio
+   */
+  resolution?: number;
+  /**
+   * How often update() re-reads labels, state and bounds (ms)
+   * @default 200
+   */
+  syncInterval?: number;
+  /**
+   * Announce Toast messages
+   * @default true
+   */
+  announceToasts?: boolean;
+  /**
+   * Delay before a live region is filled, so repeated messages are re-read (ms)
+   * @default 50
+   */
+  announceDelay?: number;
+}
+
+/**
+ * Events emitted by AccessibilityManager
+ */
+export interface AccessibilityManagerEvents {
+  /** A proxy received keyboard or screen reader focus; draw a focus ring here */
+  'focus': (node: AccessibleNode) => void;
+  'blur': (node: AccessibleNode) => void;
+  'activate': (node: AccessibleNode) => void;
+  'announce': (message: string, priority: AnnouncePriority) => void;
+}
+
+export type AnnouncePriority = 'polite' | 'assertive';
+
+/** Roles reachable with Tab */
+const FOCUSABLE_ROLES: ReadonlySet<AccessibleRole> = new Set<AccessibleRole>([
+  'button', 'checkbox', 'switch', 'slider', 'radio', 'tab'
+]);
+/** Roles whose state uses aria-checked */
+const CHECKABLE_ROLES: ReadonlySet<AccessibleRole> = new Set<AccessibleRole>(['checkbox', 'switch', 'radio']);
+
+const VISUALLY_HIDDEN = 'position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0 0 0 0);white-space:nowrap;border:0;';
+
+let nextNodeId = 1;
+
+/**
+ * One mirrored target and its proxy element.
+ */
+export class AccessibleNode {
+  readonly id: number;
+  readonly role: AccessibleRole;
+  readonly target: AccessibleTarget | null;
+  readonly element: HTMLElement;
+  readonly parent: AccessibleNode | null;
+  readonly children: AccessibleNode[] = [];
+
+  /** @internal */
+  options: AccessibleOptions;
+  /** @internal */
+  readonly cleanup: Array<() => void> = [];
+  /** @internal Last values written to the element, to skip unchanged writes */
+  readonly written = new Map<string, string | null>();
+
+  private readonly manager: AccessibilityManager;
+
+  /** @internal */
+  constructor(manager: AccessibilityManager, target: AccessibleTarget | null, options: AccessibleOptions & { role: AccessibleRole }, parent: AccessibleNode | null) {
+    this.id = nextNodeId++;
+    this.manager = manager;
+    this.target = target;
+    this.role = options.role;
+    this.options = options;
+    this.parent = parent;
+    this.element = createProxyElement(options.role);
+  }
+
+  get order(): number {
+    return this.options.order ?? 0;
+  }
+
+  /** Current label text */
+  get label(): string {
+    const label = this.options.label;
+    return (typeof label === 'function' ? label() : label) ?? '';
+  }
+
+  get state(): AccessibleState {
+    return this.options.state?.() ?? {};
+  }
+
+  /** Change options (label, state reader, order, ...) and re-sync */
+  update(options: Partial<Omit<AccessibleOptions, 'role' | 'parent' | 'children'>>): void {
+    const reorder = options.order !== undefined && options.order !== this.options.order;
+    this.options = { ...this.options, ...options };
+    if (reorder) this.manager.reorder(this);
+    this.manager.syncNode(this);
+  }
+
+  /** Move keyboard and screen reader focus to this proxy */
+  focus(): void {
+    this.element.focus();
+  }
+
+  /** Run the activation handler, as assistive tech would */
+  activate(): void {
+    this.manager.activateNode(this);
+  }
+
+  /** Stop mirroring this node and its children */
+  remove(): void {
+    this.manager.removeNode(this);
+  }
+}
+
+/**
+ * Screen-reader layer for canvas UI: keeps a hidden DOM tree of proxy
+ * elements in sync with registered components - role, label, state,
+ * focus order and position over the canvas - and announces toasts and
+ * dialogs through live regions. Activating a proxy (click, Enter, Space,
+ * a screen reader double-tap) runs the same handlers as a pointer tap.
+ *
+ * BaseUIComponent trees are mirrored recursively, following
+ * 'child-added' / 'child-removed'.
+ *
+ * @example
+ * ```typescript
+ * const a11y = new AccessibilityManager({ canvas: app.canvas, resolution: app.renderer.resolution });
+ * a11y.register(playButton);                              // role, label and tap inferred
+ * a11y.register(musicToggle, { label: 'Music' });
+ * a11y.register(volumeSlider, { label: 'Volume' });
+ * a11y.register(coinsIcon, { role: 'img', label: () => `${coins} coins` });
+ *
+ * const settings = a11y.register(settingsModal);          // dialog: focus moves in, Escape closes
+ * a11y.register(resetButton, { parent: settings });
+ *
+ * a11y.on('focus', (node) => focusRing.show(node.target));
+ * app.ticker.add((t) => a11y.update(t.deltaMS));
+ * a11y.announce('Level complete!');
+ * ```
+ */
+export class AccessibilityManager extends EventEmitter<AccessibilityManagerEvents> {
+  /** Hidden DOM tree root */
+  readonly root: HTMLElement;
+
+  private readonly config: Required<Omit<AccessibilityManagerConfig, 'canvas' | 'parent'>>;
+  private readonly canvas?: HTMLCanvasElement;
+  private readonly tree: HTMLElement;
+  private readonly politeRegion: HTMLElement;
+  private readonly assertiveRegion: HTMLElement;
+  private readonly nodes = new Map<AccessibleTarget, AccessibleNode>();
+  private readonly allNodes = new Set<AccessibleNode>();
+  private readonly modals: Array<{ node: AccessibleNode; returnFocus: Element | null }> = [];
+  private readonly announceTimers = new Set<ReturnType<typeof setTimeout>>();
+  private sinceSync = 0;
+  private destroyed = false;
+
+  private readonly onToast = (text: string, config: ToastConfig): void => {
+    const type = config.type ?? 'info';
+    this.announce(text, type === 'error' || type === 'warning' ? 'assertive' : 'polite');
+  };
+
+  constructor(config: AccessibilityManagerConfig = {}) {
+    super();
+
+    this.config = {
+      resolution: config.resolution ?? (typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1),
+      syncInterval: config.syncInterval ?? 200,
+      announceToasts: config.announceToasts ?? true,
+      announceDelay: config.announceDelay ?? 50
+    };
+    this.canvas = config.canvas;
+
+    this.root = document.createElement('div');
+    this.root.setAttribute('data-gamebyte-a11y', '');
+    // Over the canvas, invisible, and never in the way of pointer input
+    this.root.style.cssText = 'position:absolute;left:0;top:0;overflow:hidden;pointer-events:none;';
+
+    this.tree = document.createElement('div');
+    this.root.appendChild(this.tree);
+
+    this.politeRegion = this.createLiveRegion('polite');
+    this.assertiveRegion = this.createLiveRegion('assertive');
+
+    const parent = config.parent ?? this.canvas?.parentElement ?? document.body;
+    parent.appendChild(this.root);
+    this.layoutRoot();
+
+    if (this.config.announceToasts) Toast.events.on('show', this.onToast);
+  }
+
+  // ============================================
+  // REGISTRATION
+  // ============================================
+
+  /**
+   * Mirror a component. Known components (buttons, toggles, check boxes,
+   * sliders, radio groups, text, progress bars, panels) need no options;
+   * anything else needs at least a role.
+   */
+  register(target: AccessibleTarget, options: AccessibleOptions = {}): AccessibleNode {
+    const existing = this.nodes.get(target);
+    if (existing) {
+      existing.update(options);
+      return existing;
+    }
+
+    const described = describeComponent(target);
+    const merged: AccessibleOptions = { ...described, ...options };
+    if (!merged.role) {
+      throw new Error('AccessibilityManager: cannot infer a role for this target; pass options.role');
+    }
+    return this.createNode(target, merged as AccessibleOptions & { role: AccessibleRole }, merged.parent ?? null);
+  }
+
+  /**
+   * Add a proxy with no display object behind it, e.g. a heading for a
+   * screen or a summary read after a round
+   */
+  add(options: AccessibleOptions & { role: AccessibleRole }): AccessibleNode {
+    return this.createNode(null, options, options.parent ?? null);
+  }
+
+  unregister(target: AccessibleTarget): void {
+    const node = this.nodes.get(target);
+    if (node) this.removeNode(node);
+  }
+
+  getNode(target: AccessibleTarget): AccessibleNode | undefined {
+    return this.nodes.get(target);
+  }
+
+  /** Node whose proxy currently has DOM focus */
+  getFocused(): AccessibleNode | null {
+    const active = document.activeElement;
+    for (const node of this.allNodes) {
+      if (node.element === active) return node;
+    }
+    return null;
+  }
+
+  // ============================================
+  // ANNOUNCEMENTS
+  // ============================================
+
+  /**
+   * Have screen readers speak a message. 'assertive' interrupts; use it
+   * for errors and time-critical information only.
+   */
+  announce(message: string, priority: AnnouncePriority = 'polite'): void {
+    if (this.destroyed || !message) return;
+    const region = priority === 'assertive' ? this.assertiveRegion : this.politeRegion;
+
+    // Clearing first makes a repeated message count as a change
+    region.textContent = '';
+    const timer = setTimeout(() => {
+      this.announceTimers.delete(timer);
+      region.textContent = message;
+    }, this.config.announceDelay);
+    this.announceTimers.add(timer);
+    this.emit('announce', message, priority);
+  }
+
+  // ============================================
+  // SYNC
+  // ============================================
+
+  /**
+   * Re-read labels, state, visibility and bounds - call every frame;
+   * work is throttled to `syncInterval`
+   */
+  update(deltaTime: number): void {
+    this.sinceSync += deltaTime;
+    if (this.sinceSync < this.config.syncInterval) return;
+    this.sinceSync = 0;
+    this.sync();
+  }
+
+  /** Re-read every node now */
+  sync(): void {
+    if (this.destroyed) return;
+    this.layoutRoot();
+    for (const node of [...this.allNodes]) {
+      if (this.allNodes.has(node)) this.syncNode(node);
+    }
+  }
+
+  /** Remove the DOM tree and stop listening */
+  destroy(): void {
+    if (this.destroyed) return;
+    for (const node of [...this.allNodes]) {
+      if (!node.parent) this.removeNode(node);
+    }
+    for (const timer of this.announceTimers) clearTimeout(timer);
+    this.announceTimers.clear();
+    Toast.events.off('show', this.onToast);
+    this.root.remove();
+    this.destroyed = true;
+    this.removeAllListeners();
+  }
+
+  // ============================================
+  // NODE MANAGEMENT (used by AccessibleNode)
+  // ============================================
+
+  /** @internal */
+  syncNode(node: AccessibleNode): void {
+    const container = this.containerOf(node);
+    if (container && (container as any).destroyed) {
+      this.removeNode(node);
+      return;
+    }
+
+    const { role, element } = node;
+    const state = node.state;
+    const label = node.label;
+    const focusable = FOCUSABLE_ROLES.has(role);
+
+    // Visibility: hidden proxies leave the accessibility tree and tab order
+    const hidden = !!state.hidden || !this.isShown(node);
+    if (element.hidden !== hidden) element.hidden = hidden;
+
+    if (role === 'text' || role === 'heading') {
+      if (element.textContent !== label) element.textContent = label;
+    } else if (role === 'slider') {
+      const input = element as HTMLInputElement;
+      write(node, 'aria-label', label || null);
+      input.min = String(state.min ?? 0);
+      input.max = String(state.max ?? 100);
+      input.step = state.step !== undefined && state.step > 0 ? String(state.step) : 'any';
+      if (state.value !== undefined && input.value !== String(state.value)) input.value = String(state.value);
+      write(node, 'aria-valuetext', state.valueText ?? null);
+    } else {
+      write(node, 'aria-label', label || null);
+    }
+
+    if (role === 'heading') write(node, 'aria-level', String(node.options.level ?? 2));
+    if (CHECKABLE_ROLES.has(role)) write(node, 'aria-checked', String(!!state.checked));
+    if (role === 'tab') write(node, 'aria-selected', String(!!state.selected));
+    if (role === 'progressbar') {
+      write(node, 'aria-valuenow', state.value !== undefined ? String(state.value) : null);
+      write(node, 'aria-valuemin', String(state.min ?? 0));
+      write(node, 'aria-valuemax', String(state.max ?? 100));
+      write(node, 'aria-valuetext', state.valueText ?? null);
+    }
+    write(node, 'aria-expanded', state.expanded !== undefined ? String(state.expanded) : null);
+    write(node, 'aria-disabled', state.disabled ? 'true' : null);
+    if (role === 'slider') (element as HTMLInputElement).disabled = !!state.disabled;
+    if (focusable && role !== 'slider') write(node, 'tabindex', '0');
+
+    this.positionNode(node, container);
+    this.updateModal(node, !hidden);
+  }
+
+  /** @internal */
+  activateNode(node: AccessibleNode): void {
+    if (node.state.disabled || node.element.hidden) return;
+    if (node.options.activate) {
+      node.options.activate();
+    } else {
+      this.tap(node);
+    }
+    this.emit('activate', node);
+    // Activation usually changes state (checked, selected...)
+    if (this.allNodes.has(node)) this.syncNode(node);
+    if (node.parent && this.allNodes.has(node.parent)) {
+      for (const sibling of node.parent.children) this.syncNode(sibling);
+    }
+  }
+
+  /** @internal */
+  reorder(node: AccessibleNode): void {
+    const parentElement = node.parent ? node.parent.element : this.tree;
+    const siblings = node.parent ? node.parent.children : [...this.allNodes].filter((n) => !n.parent);
+    const before = siblings.find((other) =>
+      other !== node && (other.order > node.order || (other.order === node.order && other.id > node.id)));
+    if (before && before.element.parentElement === parentElement) {
+      parentElement.insertBefore(node.element, before.element);
+    } else {
+      parentElement.appendChild(node.element);
+    }
+  }
+
+  /** @internal */
+  removeNode(node: AccessibleNode): void {
+    if (!this.allNodes.has(node)) return;
+    for (const child of [...node.children]) this.removeNode(child);
+
+    this.updateModal(node, false);
+    for (const dispose of node.cleanup) dispose();
+    node.cleanup.length = 0;
+    node.element.remove();
+    this.allNodes.delete(node);
+    if (node.target && this.nodes.get(node.target) === node) this.nodes.delete(node.target);
+    if (node.parent) {
+      const index = node.parent.children.indexOf(node);
+      if (index !== -1) node.parent.children.splice(index, 1);
+    }
+  }
+
+  // ============================================
+  // PRIVATE
+  // ============================================
+
+  private createNode(target: AccessibleTarget | null, options: AccessibleOptions & { role: AccessibleRole }, parent: AccessibleNode | null): AccessibleNode {
+    if (this.destroyed) throw new Error('AccessibilityManager: already destroyed');
+    const node = new AccessibleNode(this, target, options, parent);
+    this.allNodes.add(node);
+    if (target) this.nodes.set(target, node);
+    if (parent) parent.children.push(node);
+    this.reorder(node);
+    this.bindElement(node);
+    this.bindTarget(node);
+
+    for (const childOptions of options.children ?? []) {
+      this.createNode(null, { ...childOptions, role: childOptions.role ?? 'group' }, node);
+    }
+
+    // Mirror BaseUIComponent hierarchies
+    if (target && isUIComponent(target)) {
+      for (const child of target.children) this.registerChild(child, node);
+    }
+
+    this.syncNode(node);
+    return node;
+  }
+
+  private registerChild(child: UIComponent, parent: AccessibleNode): void {
+    if (this.nodes.has(child)) return;
+    const described = describeComponent(child);
+    if (described?.role) this.createNode(child, { ...described, role: described.role }, parent);
+  }
+
+  private bindElement(node: AccessibleNode): void {
+    const element = node.element;
+    const on = <K extends keyof HTMLElementEventMap>(type: K, handler: (event: HTMLElementEventMap[K]) => void) => {
+      element.addEventListener(type, handler);
+      node.cleanup.push(() => element.removeEventListener(type, handler));
+    };
+
+    on('focus', () => this.emit('focus', node));
+    on('blur', () => this.emit('blur', node));
+
+    if (node.role === 'slider') {
+      on('input', () => {
+        const value = Number((element as HTMLInputElement).value);
+        node.options.setValue?.(value);
+        this.syncNode(node);
+      });
+      return;
+    }
+
+    if (FOCUSABLE_ROLES.has(node.role)) {
+      on('click', (event) => {
+        event.preventDefault();
+        this.activateNode(node);
+      });
+      on('keydown', (event) => {
+        if (event.key === 'Enter' || event.key === ' ') {
+          event.preventDefault();
+          this.activateNode(node);
+        }
+      });
+    }
+
+    if (node.role === 'dialog') {
+      on('keydown', (event) => {
+        if (event.key === 'Escape' && node.options.dismiss) {
+          event.preventDefault();
+          node.options.dismiss();
+        }
+      });
+    }
+  }
+
+  private bindTarget(node: AccessibleNode): void {
+    const target = node.target as any;
+    if (!target || typeof target.on !== 'function') return;
+
+    const listen = (event: string, handler: (...args: any[]) => void) => {
+      target.on(event, handler);
+      node.cleanup.push(() => target.off(event, handler));
+    };
+    const resync = () => {
+      if (!this.allNodes.has(node)) return;
+      this.syncNode(node);
+      // Option state (radio, tab) is usually read from the owner
+      for (const child of node.children) {
+        if (!child.target) this.syncNode(child);
+      }
+    };
+
+    for (const event of node.options.syncOn ?? []) listen(event, resync);
+
+    if (isUIComponent(target)) {
+      for (const event of ['visibility-changed', 'position-changed', 'size-changed', 'alpha-changed']) listen(event, resync);
+      listen('child-added', (child: UIComponent) => this.registerChild(child, node));
+      listen('child-removed', (child: UIComponent) => this.unregister(child));
+      listen('destroy', () => this.removeNode(node));
+    }
+  }
+
+  private containerOf(node: AccessibleNode): IContainer | null {
+    if (node.options.container) return node.options.container;
+    const target = node.target as any;
+    if (!target) return null;
+    if (typeof target.getContainer === 'function') return target.getContainer();
+    if (Array.isArray(target.children) && typeof target.addChild === 'function' && 'eventMode' in target) return target;
+    return null;
+  }
+
+  private isShown(node: AccessibleNode): boolean {
+    const target = node.target as any;
+    if (target && isUIComponent(target)) {
+      for (let c: UIComponent | null = target; c; c = c.parent) {
+        if (!c.visible || c.alpha <= 0) return false;
+      }
+      return true;
+    }
+    for (let c: any = this.containerOf(node); c; c = c.parent) {
+      if (c.visible === false) return false;
+    }
+    return true;
+  }
+
+  private boundsOf(node: AccessibleNode, container: IContainer | null): Rect | null {
+    if (node.options.getBounds) return node.options.getBounds();
+    const target = node.target as any;
+    if (target && isUIComponent(target)) {
+      const bounds = target.getBounds();
+      const global = target.getGlobalPosition();
+      return { ...bounds, x: bounds.x + global.x - target.position.x, y: bounds.y + global.y - target.position.y };
+    }
+    const bounds = (container as any)?.getBounds?.();
+    return bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : null;
+  }
+
+  private positionNode(node: AccessibleNode, container: IContainer | null): void {
+    const bounds = this.boundsOf(node, container);
+    const style = node.element.style;
+    if (!bounds) return;
+
+    // Absolute page offsets, relative to the nearest positioned proxy
+    let offsetX = 0;
+    let offsetY = 0;
+    for (let p = node.parent; p; p = p.parent) {
+      const parentBounds = this.boundsOf(p, this.containerOf(p));
+      if (parentBounds) {
+        offsetX = parentBounds.x;
+        offsetY = parentBounds.y;
+        break;
+      }
+    }
+    const scale = this.stageScale();
+    style.left = `${(bounds.x - offsetX) * scale}px`;
+    style.top = `${(bounds.y - offsetY) * scale}px`;
+    style.width = `${Math.max(1, bounds.width * scale)}px`;
+    style.height = `${Math.max(1, bounds.height * scale)}px`;
+  }
+
+  /** CSS pixels per stage unit */
+  private stageScale(): number {
+    const canvas = this.canvas;
+    if (!canvas || !canvas.width || !canvas.clientWidth) return 1;
+    return canvas.clientWidth / (canvas.width / this.config.resolution);
+  }
+
+  private layoutRoot(): void {
+    const canvas = this.canvas;
+    if (!canvas) return;
+    const style = this.root.style;
+    style.left = `${canvas.offsetLeft}px`;
+    style.top = `${canvas.offsetTop}px`;
+    style.width = `${canvas.clientWidth}px`;
+    style.height = `${canvas.clientHeight}px`;
+  }
+
+  /** Open dialogs hide everything else from assistive tech and trap reading order */
+  private updateModal(node: AccessibleNode, open: boolean): void {
+    if (node.role !== 'dialog') return;
+    const index = this.modals.findIndex((m) => m.node === node);
+    if (open === (index !== -1)) return;
+
+    if (open) {
+      this.modals.push({ node, returnFocus: document.activeElement });
+      write(node, 'aria-modal', 'true');
+      this.applyModalHiding();
+      const first = this.firstFocusable(node);
+      if (first) first.element.focus();
+      else {
+        node.element.tabIndex = -1;
+        node.element.focus();
+      }
+      if (node.label) this.announce(node.label);
+    } else {
+      const [{ returnFocus }] = this.modals.splice(index, 1);
+      this.applyModalHiding();
+      if (returnFocus instanceof HTMLElement && returnFocus.isConnected && index === this.modals.length) {
+        returnFocus.focus();
+      }
+    }
+  }
+
+  private applyModalHiding(): void {
+    const top = this.modals[this.modals.length - 1]?.node;
+    let topRoot = top;
+    while (topRoot?.parent) topRoot = topRoot.parent;
+    for (const node of this.allNodes) {
+      if (node.parent) continue;
+      const hide = !!topRoot && node !== topRoot;
+      node.element.toggleAttribute('inert', hide);
+      write(node, 'aria-hidden', hide ? 'true' : null);
+    }
+  }
+
+  private firstFocusable(node: AccessibleNode): AccessibleNode | null {
+    const ordered = [...node.children].sort((a, b) => a.order - b.order || a.id - b.id);
+    for (const child of ordered) {
+      if (child.element.hidden) continue;
+      if (FOCUSABLE_ROLES.has(child.role) && !child.state.disabled) return child;
+      const nested = this.firstFocusable(child);
+      if (nested) return nested;
+    }
+    return null;
+  }
+
+  private createLiveRegion(priority: AnnouncePriority): HTMLElement {
+    const region = document.createElement('div');
+    region.setAttribute('aria-live', priority);
+    region.setAttribute('aria-atomic', 'true');
+    region.setAttribute('role', priority === 'assertive' ? 'alert' : 'status');
+    region.style.cssText = VISUALLY_HIDDEN;
+    this.root.appendChild(region);
+    return region;
+  }
+
+  /** Synthesized pointer tap at the centre of the target */
+  private tap(node: AccessibleNode): void {
+    const container = this.containerOf(node) as any;
+    const target = node.target as any;
+    if (!container) {
+      // BaseUIComponents have no display container; they emit 'click' themselves
+      if (target && typeof target.emit === 'function') target.emit('click');
+      return;
+    }
+
+    const bounds = this.boundsOf(node, container);
+    const global = bounds ? { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 } : { x: 0, y: 0 };
+    const local = {
+      x: bounds ? bounds.width / 2 : 0,
+      y: bounds ? bounds.height / 2 : 0
+    };
+    const event = (type: string) => ({
+      type,
+      pointerId: -1,
+      pointerType: 'accessibility',
+      button: 0,
+      global,
+      clientX: global.x,
+      clientY: global.y,
+      target: container,
+      currentTarget: container,
+      getLocalPosition: () => ({ ...local }),
+      stopPropagation: () => {},
+      preventDefault: () => {}
+    });
+    container.emit('pointerdown', event('pointerdown'));
+    container.emit('pointerup', event('pointerup'));
+  }
+}
+
+/** Set an attribute only when it changed */
+function write(node: AccessibleNode, name: string, value: string | null): void {
+  if (node.written.get(name) === value) return;
+  node.written.set(name, value);
+  if (value === null) node.element.removeAttribute(name);
+  else node.element.setAttribute(name, value);
+}
+
+function createProxyElement(role: AccessibleRole): HTMLElement {
+  let element: HTMLElement;
+  if (role === 'slider') {
+    const input = document.createElement('input');
+    input.type = 'range';
+    element = input;
+  } else if (role === 'button') {
+    const button = document.createElement('button');
+    button.type = 'button';
+    element = button;
+  } else {
+    element = document.createElement('div');
+    element.setAttribute('role', role === 'text' ? 'note' : role);
+  }
+  element.style.cssText = 'position:absolute;left:0;top:0;width:1px;height:1px;margin:0;padding:0;opacity:0;overflow:hidden;';
+  return element;
+}
+
+function isUIComponent(target: any): target is UIComponent {
+  return !!target && typeof target.getGlobalPosition === 'function' && Array.isArray(target.children) && 'constraints' in target;
+}
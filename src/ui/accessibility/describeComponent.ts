@@ -0,0 +1,99 @@
+import { BaseUIComponent } from '../core/BaseUIComponent.js';
+import { UIButton } from '../components/UIButton.js';
+import { UIText } from '../components/UIText.js';
+import { UIProgressBar } from '../components/UIProgressBar.js';
+import { GameStyleButton } from '../components/GameStyleButton.js';
+import { GameToggle } from '../components/GameToggle.js';
+import { GameCheckBox } from '../components/GameCheckBox.js';
+import { GameSlider } from '../components/GameSlider.js';
+import { GameRadioGroup } from '../components/GameRadioGroup.js';
+import { GamePanel } from '../panels/GamePanel.js';
+import type { AccessibleOptions } from './AccessibilityManager.js';
+
+/**
+ * Default accessibility options for the framework's own components:
+ * role, label and state readers, and the target events that change them.
+ * Returns null for anything it does not recognise.
+ */
+export function describeComponent(target: unknown): AccessibleOptions | null {
+  if (target instanceof GameStyleButton || target instanceof UIButton) {
+    return {
+      role: 'button',
+      label: () => target.getText(),
+      state: () => ({ disabled: target.isDisabled() }),
+      syncOn: target instanceof UIButton ? ['disabled-changed'] : []
+    };
+  }
+
+  if (target instanceof GameToggle) {
+    return {
+      role: 'switch',
+      state: () => ({ checked: target.getValue(), disabled: target.isDisabled() }),
+      syncOn: ['change']
+    };
+  }
+
+  if (target instanceof GameCheckBox) {
+    return {
+      role: 'checkbox',
+      label: () => target.getLabel(),
+      state: () => ({ checked: target.isChecked(), disabled: target.isDisabled() }),
+      syncOn: ['change']
+    };
+  }
+
+  if (target instanceof GameSlider) {
+    return {
+      role: 'slider',
+      state: () => ({ value: target.getValue(), ...target.getRange(), disabled: target.isDisabled() }),
+      setValue: (value) => target.setValueFromInput(value),
+      syncOn: ['change']
+    };
+  }
+
+  if (target instanceof GameRadioGroup) {
+    return {
+      role: 'radiogroup',
+      state: () => ({ disabled: target.isDisabled() }),
+      syncOn: ['change'],
+      children: target.getOptions().map((option, index) => ({
+        role: 'radio' as const,
+        label: option.label,
+        container: target.getOptionContainer(index),
+        state: () => ({ checked: target.getValue() === option.value, disabled: target.isDisabled() })
+      }))
+    };
+  }
+
+  if (target instanceof GamePanel) {
+    return {
+      role: 'dialog',
+      label: () => target.getTitle(),
+      state: () => ({ hidden: !target.isVisible() }),
+      dismiss: () => { void target.close(); },
+      syncOn: ['show', 'hide']
+    };
+  }
+
+  if (target instanceof UIText) {
+    return { role: 'text', label: () => target.text };
+  }
+
+  if (target instanceof UIProgressBar) {
+    return {
+      role: 'progressbar',
+      state: () => {
+        const range = target.maxValue - target.minValue;
+        const percent = range > 0 ? Math.round(((target.value - target.minValue) / range) * 100) : 0;
+        return { value: target.value, min: target.minValue, max: target.maxValue, valueText: `${percent}%` };
+      }
+    };
+  }
+
+  // Plain containers keep their children reachable
+  if (target instanceof BaseUIComponent) {
+    return { role: 'group' };
+  }
+
+  return null;
+}
@@ -0,0 +1,30 @@
+/**
+ * Accessibility
+ *
+ * Screen-reader support for canvas UI: a hidden DOM tree of proxy
+ * elements mirrors registered components (role, label, state, focus
+ * order), and toasts and dialogs are announced through live regions.
+ *
+ * @example
+ * ```typescript
+ * import { AccessibilityManager } from '@gamebyte/framework/ui';
+ *
+ * const a11y = new AccessibilityManager({ canvas: app.canvas });
+ * a11y.register(playButton);
+ * a11y.announce('Level 3');
+ * ```
+ *
+ * @module accessibility
+ */
+
+export { AccessibilityManager, AccessibleNode } from './AccessibilityManager.js';
+export type {
+  AccessibilityManagerConfig,
+  AccessibilityManagerEvents,
+  AccessibleOptions,
+  AccessibleRole,
+  AccessibleState,
+  AccessibleTarget,
+  AnnouncePriority
+} from './AccessibilityManager.js';
+export { describeComponent } from './describeComponent.js';
@@ -2,6 +2,7 @@ import { EventEmitter } from 'eventemitter3';
 import { IContainer, IGraphics, IText } from '../../contracts/Graphics';
 import { graphics } from '../../graphics/GraphicsEngine';
 import { GameStyleColors } from '../themes/GameStyleUITheme';
+import type { Focusable } from '../focus/Focusable';
 import { getFrameworkFontFamily, loadFrameworkFont } from '../utils/FontLoader';
 
 /**
@@ -49,7 +50,7 @@ export interface GameCheckBoxConfig {
  * stage.addChild(checkbox.getContainer());
  * ```
  */
-export class GameCheckBox extends EventEmitter {
+export class GameCheckBox extends EventEmitter implements Focusable {
   private container: IContainer;
   private boxContainer: IContainer;
   private shadowGraphics: IGraphics;
@@ -216,6 +217,17 @@ export class GameCheckBox extends EventEmitter {
     this.toggle();
   }
 
+  /** Focusable: enabled controls take focus */
+  public canFocus(): boolean {
+    return !this.config.disabled;
+  }
+
+  /** Focusable: toggle, exactly like a tap */
+  public activate(): void {
+    this.onPointerDown();
+    this.onPointerUp();
+  }
+
   private onPointerUpOutside(): void {
     if (this.config.disabled) return;
     this.isPressed = false;
@@ -244,6 +256,11 @@ export class GameCheckBox extends EventEmitter {
     }
   }
 
+  /** Get the label text */
+  public getLabel(): string {
+    return this.config.label;
+  }
+
   /** Set disabled state */
   public setDisabled(disabled: boolean): void {
     this.config.disabled = disabled;
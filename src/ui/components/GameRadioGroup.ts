@@ -2,6 +2,7 @@ import { EventEmitter } from 'eventemitter3';
 import { IContainer, IGraphics, IText } from '../../contracts/Graphics';
 import { graphics } from '../../graphics/GraphicsEngine';
 import { GameStyleColors } from '../themes/GameStyleUITheme';
+import type { Focusable, FocusDirection } from '../focus/Focusable';
 import { getFrameworkFontFamily, loadFrameworkFont } from '../utils/FontLoader';
 
 /**
@@ -63,7 +64,7 @@ export interface GameRadioGroupConfig {
  * stage.addChild(difficulty.getContainer());
  * ```
  */
-export class GameRadioGroup extends EventEmitter {
+export class GameRadioGroup extends EventEmitter implements Focusable {
   private container: IContainer;
   private radioItems: Array<{
     container: IContainer;
@@ -267,6 +268,37 @@ export class GameRadioGroup extends EventEmitter {
     }
   }
 
+  /** Focusable: enabled groups take focus */
+  public canFocus(): boolean {
+    return !this.config.disabled;
+  }
+
+  /**
+   * Focusable: arrows along the group's direction move the selection;
+   * at either end focus is let out of the group
+   */
+  public adjust(direction: FocusDirection): boolean {
+    if (this.config.disabled) return false;
+    const vertical = this.config.direction === 'vertical';
+    if (vertical !== (direction === 'up' || direction === 'down')) return false;
+
+    const current = this.config.options.findIndex(o => o.value === this._selectedValue);
+    const next = current + (direction === 'down' || direction === 'right' ? 1 : -1);
+    if (next < 0 || next >= this.radioItems.length) return false;
+    this.selectIndex(next);
+    return true;
+  }
+
+  /** Get the options */
+  public getOptions(): GameRadioOption[] {
+    return this.config.options;
+  }
+
+  /** Get the display container of the option at `index` */
+  public getOptionContainer(index: number): IContainer | undefined {
+    return this.radioItems[index]?.container;
+  }
+
   /** Set disabled state */
   public setDisabled(disabled: boolean): void {
     this.config.disabled = disabled;
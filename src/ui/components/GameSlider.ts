@@ -2,6 +2,7 @@ import { EventEmitter } from 'eventemitter3';
 import { graphics } from '../../graphics/GraphicsEngine';
 import { IContainer, IGraphics } from '../../contracts/Graphics';
 import { Gradients } from '../../graphics/GradientFactory';
+import type { Focusable, FocusDirection } from '../focus/Focusable';
 
 /**
  * Slider color scheme - game style
@@ -54,7 +55,7 @@ export interface GameSliderConfig {
  * stage.addChild(volumeSlider.getContainer());
  * ```
  */
-export class GameSlider extends EventEmitter {
+export class GameSlider extends EventEmitter implements Focusable {
   private container: IContainer;
   private depthGraphics: IGraphics;
   private borderGraphics: IGraphics;
@@ -326,6 +327,42 @@ export class GameSlider extends EventEmitter {
     }
   }
 
+  /**
+   * Set the value as a user drag would: snapped to step, 'change' and
+   * onChange both fire. Used for keyboard and assistive-tech input.
+   */
+  public setValueFromInput(value: number): void {
+    const range = this.config.max - this.config.min;
+    this.setFromNormalized(range > 0 ? (value - this.config.min) / range : 0);
+  }
+
+  /**
+   * Focusable: enabled sliders take focus
+   */
+  public canFocus(): boolean {
+    return !this.config.disabled;
+  }
+
+  /**
+   * Focusable: left/right step the value (a tenth of the range when
+   * step is 0); consumed only if the value changed
+   */
+  public adjust(direction: FocusDirection): boolean {
+    if (this.config.disabled || (direction !== 'left' && direction !== 'right')) return false;
+    const { min, max } = this.config;
+    const step = this.config.step > 0 ? this.config.step : (max - min) / 10;
+    const before = this._value;
+    this.setValueFromInput(this._value + (direction === 'right' ? step : -step));
+    return this._value !== before;
+  }
+
+  /**
+   * Get min, max and step
+   */
+  public getRange(): { min: number; max: number; step: number } {
+    return { min: this.config.min, max: this.config.max, step: this.config.step };
+  }
+
   /**
    * Set disabled state
    */
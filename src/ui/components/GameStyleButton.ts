@@ -2,7 +2,10 @@ import { EventEmitter } from 'eventemitter3';
 import { IContainer, IGraphics, IText } from '../../contracts/Graphics';
 import { graphics } from '../../graphics/GraphicsEngine';
 import { GameStyleColors } from '../themes/GameStyleUITheme';
+import type { Focusable } from '../focus/Focusable';
 import { getFrameworkFontFamily, loadFrameworkFont } from '../utils/FontLoader';
+import { i18n } from '../../i18n/I18n';
+import type { MessageParams } from '../../i18n/MessageFormat';
 
 /**
  * Color scheme for game-style buttons
@@ -23,6 +26,8 @@ export interface GameButtonColorScheme {
  */
 export interface GameStyleButtonConfig {
   text?: string;
+  textKey?: string;               // Translation key; follows language changes (overrides text)
+  textParams?: MessageParams;
   width?: number;
   height?: number;
   fontSize?: number;
@@ -63,7 +68,7 @@ export interface GameStyleButtonConfig {
  * stage.addChild(playButton.getContainer());
  * ```
  */
-export class GameStyleButton extends EventEmitter {
+export class GameStyleButton extends EventEmitter implements Focusable {
   private container: IContainer;
   // Layer order (bottom to top): border → shadow → topShine → mainFill → highlight → jellybean → text
   private borderGraphics: IGraphics;      // 1. Black outer border (stroke)
@@ -74,9 +79,13 @@ export class GameStyleButton extends EventEmitter {
   private jellybeanGraphics: IGraphics;   // 6. Jellybean gloss
   private textField?: IText;
 
-  private config: Required<GameStyleButtonConfig>;
+  private config: Required<Omit<GameStyleButtonConfig, 'textKey' | 'textParams'>>;
   private isPressed: boolean = false;
   private isHovered: boolean = false;
+  private textKey: string | null = null;
+  private textParams: MessageParams | undefined;
+  private explicitFont: boolean;
+  private unbindLocale: (() => void) | null = null;
 
   constructor(config: GameStyleButtonConfig = {}) {
     super();
@@ -100,6 +109,11 @@ export class GameStyleButton extends EventEmitter {
       icon: config.icon || ''
     };
 
+    this.explicitFont = !!config.fontFamily;
+    if (config.textKey) {
+      this.bindTextKey(config.textKey, config.textParams);
+    }
+
     // Note: No minimum size constraint - developer controls button size
 
     // Create containers and graphics
@@ -414,6 +428,47 @@ export class GameStyleButton extends EventEmitter {
    */
 
   public setText(text: string): this {
+    this.unbindTextKey();
+    this.applyText(text);
+    return this;
+  }
+
+  /**
+   * Set the label from a translation key. The label follows language
+   * changes until setText() is called.
+   */
+  public setTextKey(key: string, params?: MessageParams): this {
+    this.bindTextKey(key, params);
+    this.applyText(this.config.text);
+    return this;
+  }
+
+  private bindTextKey(key: string, params?: MessageParams): void {
+    const translator = i18n();
+    this.textKey = key;
+    this.textParams = params;
+    this.config.text = translator.t(key, params);
+
+    if (!this.unbindLocale) {
+      this.unbindLocale = translator.onLocaleChange(() => {
+        if (!this.textKey) return;
+        if (!this.explicitFont) {
+          this.config.fontFamily = getFrameworkFontFamily();
+          if (this.textField) this.textField.style.fontFamily = this.config.fontFamily;
+        }
+        this.applyText(translator.t(this.textKey, this.textParams));
+      });
+    }
+  }
+
+  private unbindTextKey(): void {
+    this.textKey = null;
+    this.textParams = undefined;
+    this.unbindLocale?.();
+    this.unbindLocale = null;
+  }
+
+  private applyText(text: string): void {
     this.config.text = text;
     if (this.textField) {
       // Reset scale before measuring
@@ -429,7 +484,25 @@ export class GameStyleButton extends EventEmitter {
         this.textField.scale = { x: scale, y: scale };
       }
     }
-    return this;
+  }
+
+  public getText(): string {
+    return this.config.text;
+  }
+
+  public isDisabled(): boolean {
+    return this.config.disabled;
+  }
+
+  /** Focusable: enabled buttons take focus */
+  public canFocus(): boolean {
+    return !this.config.disabled;
+  }
+
+  /** Focusable: press and release, exactly like a tap */
+  public activate(): void {
+    this.onPointerDown(null);
+    this.onPointerUp(null);
   }
 
   public setDisabled(disabled: boolean): this {
@@ -468,6 +541,7 @@ export class GameStyleButton extends EventEmitter {
   }
 
   public destroy(): void {
+    this.unbindTextKey();
     this.container.destroy({ children: true });
     this.removeAllListeners();
   }
@@ -2,6 +2,7 @@ import { EventEmitter } from 'eventemitter3';
 import { graphics } from '../../graphics/GraphicsEngine';
 import { IContainer, IGraphics } from '../../contracts/Graphics';
 import { Gradients } from '../../graphics/GradientFactory';
+import type { Focusable } from '../focus/Focusable';
 
 /**
  * Toggle color scheme - enhanced for game style
@@ -49,7 +50,7 @@ export interface GameToggleConfig {
  * stage.addChild(musicToggle.getContainer());
  * ```
  */
-export class GameToggle extends EventEmitter {
+export class GameToggle extends EventEmitter implements Focusable {
   private container: IContainer;
   private depthGraphics: IGraphics;
   private borderGraphics: IGraphics;
@@ -216,6 +217,17 @@ export class GameToggle extends EventEmitter {
     this.toggle();
   }
 
+  /** Focusable: enabled controls take focus */
+  public canFocus(): boolean {
+    return !this.config.disabled;
+  }
+
+  /** Focusable: toggle, exactly like a tap */
+  public activate(): void {
+    this.onPointerDown();
+    this.onPointerUp();
+  }
+
   private onPointerUpOutside(): void {
     if (this.config.disabled) return;
     this.isPressed = false;
@@ -3,6 +3,7 @@ import { IContainer, IGraphics, IText } from '../../contracts/Graphics';
 import { graphics } from '../../graphics/GraphicsEngine';
 import { Gradients } from '../../graphics/GradientFactory';
 import { GameStyleColors, darkenColor } from '../themes/GameStyleUITheme';
+import type { Focusable } from '../focus/Focusable';
 
 /**
  * Level button state
@@ -62,7 +63,7 @@ export interface HexagonLevelButtonConfig {
  * stage.addChild(levelButton.getContainer());
  * ```
  */
-export class HexagonLevelButton extends EventEmitter {
+export class HexagonLevelButton extends EventEmitter implements Focusable {
   private container: IContainer;
   private shadowGraphics: IGraphics;
   private borderGraphics: IGraphics;
@@ -566,6 +567,17 @@ export class HexagonLevelButton extends EventEmitter {
     return this.config.state;
   }
 
+  /** Focusable: locked levels are skipped */
+  public canFocus(): boolean {
+    return this.config.state !== 'locked';
+  }
+
+  /** Focusable: press and release, exactly like a tap */
+  public activate(): void {
+    this.onPointerDown(null);
+    this.onPointerUp(null);
+  }
+
   public getContainer(): IContainer {
     return this.container;
   }
@@ -422,6 +422,14 @@ export class UIButton extends EventEmitter {
     return this;
   }
 
+  public getText(): string {
+    return this.config.text;
+  }
+
+  public isDisabled(): boolean {
+    return this.config.disabled;
+  }
+
   public setDisabled(disabled: boolean): this {
     this.config.disabled = disabled;
     this.container.cursor = disabled ? 'default' : 'pointer';
@@ -1,9 +1,15 @@
 import { BaseUIComponent } from '../core/BaseUIComponent';
 import { Color } from '../../contracts/UI';
 import { getFrameworkFontFamily } from '../utils/FontLoader';
+import { i18n } from '../../i18n/I18n';
+import type { MessageParams } from '../../i18n/MessageFormat';
 
 export interface UITextConfig {
   text?: string;
+  /** Translation key; resolved through the shared I18n and re-resolved on language change */
+  textKey?: string;
+  /** Parameters for textKey */
+  textParams?: MessageParams;
   fontSize?: number;
   fontFamily?: string;
   fontWeight?: 'normal' | 'bold' | '100' | '200' | '300' | '400' | '500' | '600' | '700' | '800' | '900';
@@ -59,6 +65,10 @@ export class UIText extends BaseUIComponent {
   private _lines: string[] = [];
   private _measuredSize: { width: number; height: number } = { width: 0, height: 0 };
   private _textMetrics: TextMetrics | null = null;
+  private _textKey: string | null = null;
+  private _textParams: MessageParams | undefined;
+  private _explicitFont: boolean = false;
+  private _unbindLocale: (() => void) | null = null;
 
   constructor(config?: UITextConfig, id?: string) {
     super(id);
@@ -79,7 +89,10 @@ export class UIText extends BaseUIComponent {
   public configure(config: UITextConfig): this {
     if (config.text !== undefined) this.text = config.text;
     if (config.fontSize !== undefined) this.fontSize = config.fontSize;
-    if (config.fontFamily !== undefined) this.fontFamily = config.fontFamily;
+    if (config.fontFamily !== undefined) {
+      this.fontFamily = config.fontFamily;
+      this._explicitFont = true;
+    }
     if (config.fontWeight !== undefined) this.fontWeight = config.fontWeight;
     if (config.color !== undefined) this.color = config.color;
     if (config.textAlign !== undefined) this.textAlign = config.textAlign;
@@ -90,6 +103,7 @@ export class UIText extends BaseUIComponent {
     if (config.ellipsis !== undefined) this.ellipsis = config.ellipsis;
     if (config.shadow !== undefined) this.shadow = config.shadow;
     if (config.stroke !== undefined) this.stroke = config.stroke;
+    if (config.textKey !== undefined) this.bindTextKey(config.textKey, config.textParams);
 
     this.calculateTextLayout();
     return this;
@@ -175,11 +189,34 @@ export class UIText extends BaseUIComponent {
    * Set text content
    */
   public setText(text: string): this {
+    this.unbindTextKey();
     this.text = text;
     this.calculateTextLayout();
     return this;
   }
 
+  /**
+   * Set text from a translation key. The text follows language changes
+   * until setText() is called.
+   */
+  public setTextKey(key: string, params?: MessageParams): this {
+    this.bindTextKey(key, params);
+    this.calculateTextLayout();
+    return this;
+  }
+
+  /**
+   * Current translation key, or null for literal text
+   */
+  public get textKey(): string | null {
+    return this._textKey;
+  }
+
+  public destroy(): void {
+    this.unbindTextKey();
+    super.destroy();
+  }
+
   /**
    * Set text style
    */
@@ -210,6 +247,29 @@ export class UIText extends BaseUIComponent {
     this.calculateTextLayout();
   }
 
+  private bindTextKey(key: string, params?: MessageParams): void {
+    const translator = i18n();
+    this._textKey = key;
+    this._textParams = params;
+    this.text = translator.t(key, params);
+
+    if (!this._unbindLocale) {
+      this._unbindLocale = translator.onLocaleChange(() => {
+        if (!this._textKey) return;
+        this.text = translator.t(this._textKey, this._textParams);
+        if (!this._explicitFont) this.fontFamily = getFrameworkFontFamily();
+        this.calculateTextLayout();
+      });
+    }
+  }
+
+  private unbindTextKey(): void {
+    this._textKey = null;
+    this._textParams = undefined;
+    this._unbindLocale?.();
+    this._unbindLocale = null;
+  }
+
   /**
    * Calculate text layout and line breaks
    */
@@ -59,6 +59,25 @@ export type { GameInputConfig, GameInputColorScheme } from './GameInput.js';
 export { GameList } from './GameList.js';
 export type { GameListConfig } from './GameList.js';
 
+export {
+  GameVirtualList,
+  GameVirtualGrid,
+  VirtualScrollView,
+  ListDataSource,
+  ScrollPhysics
+} from './virtual/index.js';
+export type {
+  GameVirtualListConfig,
+  GameVirtualGridConfig,
+  VirtualScrollViewConfig,
+  VirtualScrollViewEvents,
+  VirtualItemRenderer,
+  VirtualItemBounds,
+  ScrollAlign,
+  ListDataSourceEvents,
+  ScrollPhysicsConfig
+} from './virtual/index.js';
+
 export { GameRadioGroup, GameRadioColors } from './GameRadioGroup.js';
 export type { GameRadioGroupConfig, GameRadioColorScheme, GameRadioOption } from './GameRadioGroup.js';
 
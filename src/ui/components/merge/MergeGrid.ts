@@ -1,5 +1,6 @@
 import { EventEmitter } from 'eventemitter3';
 import { IContainer, IGraphics } from '../../../contracts/Graphics';
+import type { RandomSource } from '../../../contracts/Random';
 import { graphics } from '../../../graphics/GraphicsEngine';
 import { MergeCell, MergeCellConfig } from './MergeCell';
 import { MergeItem, MergeItemConfig } from './MergeItem';
@@ -30,6 +31,8 @@ export interface MergeGridConfig {
   autoSpawn?: boolean;
   /** Maximum tier for items */
   maxTier?: number;
+  /** Random source for picking spawn cells (default: Math.random) */
+  rng?: RandomSource;
 }
 
 /**
@@ -113,7 +116,8 @@ export class MergeGrid extends EventEmitter<MergeGridEvents> {
       cellConfig: config.cellConfig ?? {},
       lockedCells: config.lockedCells ?? [],
       autoSpawn: config.autoSpawn ?? false,
-      maxTier: config.maxTier ?? 10
+      maxTier: config.maxTier ?? 10,
+      rng: config.rng ?? { next: Math.random }
     };
 
     // Create containers
@@ -208,7 +212,7 @@ export class MergeGrid extends EventEmitter<MergeGridEvents> {
     }
 
     // Pick random empty cell
-    const cell = emptyCells[Math.floor(Math.random() * emptyCells.length)];
+    const cell = emptyCells[Math.floor(this.config.rng.next() * emptyCells.length)];
     return this.spawnItemInCell(cell, itemConfig);
   }
 
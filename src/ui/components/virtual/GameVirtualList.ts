@@ -0,0 +1,212 @@
+import {
+  VirtualScrollView,
+  VirtualScrollViewConfig,
+  VirtualItemBounds,
+  VirtualItemRenderer
+} from './VirtualScrollView';
+
+/**
+ * GameVirtualList configuration
+ */
+export interface GameVirtualListConfig<T> extends VirtualScrollViewConfig<T> {
+  /** Row height, fixed or per item */
+  itemHeight: number | ((item: T, index: number) => number);
+  /** Space between rows */
+  gap?: number;
+  /**
+   * Marks section header rows. Headers use the 'header' renderer type
+   * unless getItemType is given.
+   */
+  isHeader?: (item: T, index: number) => boolean;
+  /**
+   * Pin the current section's header to the top while scrolling
+   * @default true
+   */
+  stickyHeaders?: boolean;
+}
+
+/**
+ * Virtualized vertical list for long shop, inventory and leaderboard
+ * screens: only rows on screen exist, and they are recycled as they
+ * scroll out.
+ *
+ * Features:
+ * - Item renderer factory with per-type recycling pools
+ * - Fixed or variable row heights
+ * - Sticky section headers
+ * - Momentum scrolling with overscroll bounce (call update() every frame)
+ * - scrollToIndex and pull-to-refresh
+ *
+ * @example
+ * ```typescript
+ * const list = new GameVirtualList<ShopEntry>({
+ *   width: 360,
+ *   height: 520,
+ *   data: entries,
+ *   itemHeight: (entry) => (entry.kind === 'section' ? 40 : 88),
+ *   isHeader: (entry) => entry.kind === 'section',
+ *   createItem: (type) => (type === 'header' ? new SectionRow() : new ShopRow()),
+ *   onRefresh: () => shop.reload(),
+ * });
+ * list.on('item-tap', (entry) => buy(entry));
+ * stage.addChild(list.getContainer());
+ * ticker.add((t) => list.update(t.deltaMS));
+ * ```
+ */
+export class GameVirtualList<T> extends VirtualScrollView<T> {
+  private readonly itemHeight: number | ((item: T, index: number) => number);
+  private readonly gap: number;
+  private readonly isHeader?: (item: T, index: number) => boolean;
+  private readonly stickyHeaders: boolean;
+
+  /** offsets[i] = top of row i; offsets[length] = content height */
+  private offsets = new Float64Array(1);
+  private heights = new Float64Array(0);
+  private headers: number[] = [];
+  private readonly stickyRenderers = new Map<string, VirtualItemRenderer<T>>();
+  private stickyIndex = -1;
+  private stickyType = '';
+  private stickyY = 0;
+
+  constructor(config: GameVirtualListConfig<T>) {
+    const isHeader = config.isHeader;
+    super(config, isHeader ? (item, index) => (isHeader(item, index) ? 'header' : 'item') : undefined);
+
+    this.itemHeight = config.itemHeight;
+    this.gap = config.gap ?? 0;
+    this.isHeader = isHeader;
+    this.stickyHeaders = config.stickyHeaders ?? true;
+
+    this.refreshLayout();
+  }
+
+  /** Row width available to renderers */
+  public get itemWidth(): number {
+    return this.viewportWidth;
+  }
+
+  /** Index of the header pinned at the top, or -1 */
+  public getStickyIndex(): number {
+    return this.stickyIndex;
+  }
+
+  protected layout(): void {
+    const data = this.dataSource;
+    const count = data.length;
+    this.offsets = new Float64Array(count + 1);
+    this.heights = new Float64Array(count);
+    this.headers = [];
+    this.stickyIndex = -1;
+
+    let y = 0;
+    for (let i = 0; i < count; i++) {
+      const item = data.get(i);
+      const height = typeof this.itemHeight === 'number' ? this.itemHeight : this.itemHeight(item, i);
+      this.offsets[i] = y;
+      this.heights[i] = height;
+      y += height + (i < count - 1 ? this.gap : 0);
+      if (this.isHeader?.(item, i)) this.headers.push(i);
+    }
+    this.offsets[count] = y;
+  }
+
+  protected getContentHeight(): number {
+    return this.offsets[this.offsets.length - 1];
+  }
+
+  protected getRange(top: number, bottom: number): [number, number] {
+    const count = this.heights.length;
+    // Last row starting at or above `top`, then last row starting before `bottom`
+    const first = Math.max(0, this.rowAtOrBefore(top));
+    let last = first;
+    while (last + 1 < count && this.offsets[last + 1] < bottom) last++;
+    return [first, last];
+  }
+
+  protected getItemBounds(index: number): VirtualItemBounds {
+    return { x: 0, y: this.offsets[index], width: this.viewportWidth, height: this.heights[index] };
+  }
+
+  protected indexAt(_x: number, y: number): number {
+    const index = this.rowAtOrBefore(y);
+    if (index < 0 || y > this.offsets[index] + this.heights[index]) return -1;
+    return index;
+  }
+
+  protected hitTest(x: number, y: number): number {
+    if (this.stickyIndex >= 0 && y >= this.stickyY && y <= this.stickyY + this.heights[this.stickyIndex]) {
+      return this.stickyIndex;
+    }
+    return super.hitTest(x, y);
+  }
+
+  protected renderOverlay(scrollY: number): void {
+    const header = this.stickyHeaders && scrollY > 0 ? this.headerAbove(scrollY) : -1;
+    if (header < 0) {
+      this.hideSticky();
+      return;
+    }
+
+    // The next header pushes the pinned one up and out
+    const slot = this.headers.indexOf(header);
+    const next = this.headers[slot + 1];
+    this.stickyY = next === undefined ? 0 : Math.min(0, this.offsets[next] - scrollY - this.heights[header]);
+
+    const item = this.dataSource.get(header);
+    const type = this.typeOf(item, header);
+    let renderer = this.stickyRenderers.get(type);
+    if (!renderer) {
+      renderer = this.createRenderer(type);
+      this.stickyRenderers.set(type, renderer);
+      this.overlay.addChild(renderer.container);
+    }
+    if (header !== this.stickyIndex || type !== this.stickyType) {
+      this.hideSticky();
+      renderer.update(item, header);
+      this.stickyIndex = header;
+      this.stickyType = type;
+    }
+    renderer.container.visible = true;
+    renderer.container.x = 0;
+    renderer.container.y = this.stickyY;
+  }
+
+  private hideSticky(): void {
+    for (const renderer of this.stickyRenderers.values()) renderer.container.visible = false;
+    this.stickyIndex = -1;
+  }
+
+  /** Header whose section contains content offset `y` and has scrolled past the top */
+  private headerAbove(y: number): number {
+    let lo = 0;
+    let hi = this.headers.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.offsets[this.headers[mid]] < y) {
+        found = this.headers[mid];
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  }
+
+  /** Last row whose top is at or above `y`, or -1 */
+  private rowAtOrBefore(y: number): number {
+    let lo = 0;
+    let hi = this.heights.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.offsets[mid] <= y) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  }
+}
@@ -0,0 +1,88 @@
+import { EventEmitter } from 'eventemitter3';
+
+/**
+ * Events emitted by ListDataSource
+ */
+export interface ListDataSourceEvents {
+  /** Items were added, removed or replaced wholesale */
+  'changed': () => void;
+  /** One item was replaced in place */
+  'item-updated': (index: number) => void;
+}
+
+/**
+ * Observable item array behind GameVirtualList / GameVirtualGrid.
+ * Views listen to it and re-render only what is on screen, so edits to a
+ * 10,000 item inventory stay cheap.
+ *
+ * @example
+ * ```typescript
+ * const items = new ListDataSource(inventory);
+ * const list = new GameVirtualList({ data: items, itemHeight: 72, createItem });
+ * items.push(newSword);             // list updates
+ * items.set(3, { ...items.get(3), count: 5 });
+ * ```
+ */
+export class ListDataSource<T> extends EventEmitter<ListDataSourceEvents> {
+  private items: T[];
+
+  constructor(items: T[] = []) {
+    super();
+    this.items = [...items];
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  get(index: number): T {
+    return this.items[index];
+  }
+
+  indexOf(item: T): number {
+    return this.items.indexOf(item);
+  }
+
+  /** Copy of the items */
+  toArray(): T[] {
+    return [...this.items];
+  }
+
+  setItems(items: T[]): void {
+    this.items = [...items];
+    this.emit('changed');
+  }
+
+  push(...items: T[]): void {
+    if (items.length === 0) return;
+    this.items.push(...items);
+    this.emit('changed');
+  }
+
+  insert(index: number, ...items: T[]): void {
+    if (items.length === 0) return;
+    this.items.splice(index, 0, ...items);
+    this.emit('changed');
+  }
+
+  removeAt(index: number, count: number = 1): T[] {
+    const removed = this.items.splice(index, count);
+    if (removed.length > 0) this.emit('changed');
+    return removed;
+  }
+
+  /** Replace one item; the view rebinds (and re-measures) just that row */
+  set(index: number, item: T): void {
+    if (index < 0 || index >= this.items.length) {
+      throw new RangeError(`ListDataSource: index ${index} out of range`);
+    }
+    this.items[index] = item;
+    this.emit('item-updated', index);
+  }
+
+  clear(): void {
+    if (this.items.length === 0) return;
+    this.items = [];
+    this.emit('changed');
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * ScrollPhysics configuration
+ */
+export interface ScrollPhysicsConfig {
+  /**
+   * Fraction of fling velocity kept after one second
+   * @default 0.135 (iOS-like deceleration)
+   */
+  friction?: number;
+  /**
+   * Spring stiffness pulling overscroll back to the edge
+   * @default 250
+   */
+  bounceStiffness?: number;
+  /**
+   * How much a drag past the edge moves the content (0-1)
+   * @default 0.5
+   */
+  rubberBand?: number;
+  /**
+   * Overscroll distance at which dragging past the edge is twice as stiff
+   * @default 150
+   */
+  overscrollRange?: number;
+  /**
+   * Fastest fling, in pixels per second
+   * @default 6000
+   */
+  maxVelocity?: number;
+}
+
+/** Flings slower than this stop (px/s) */
+const MIN_VELOCITY = 5;
+/** Pointer samples older than this are ignored for fling velocity (ms) */
+const VELOCITY_WINDOW = 100;
+/** Largest integration step for the bounce spring (s) */
+const MAX_SPRING_STEP = 1 / 120;
+
+/**
+ * One-axis scroll model shared by the virtualized views: drag with
+ * rubber-banding past the edges, momentum after release, and a critically
+ * damped spring back into bounds. Positions are scroll offsets in pixels
+ * (0 = top); the renderer reads `position` after each `update()`.
+ *
+ * @example
+ * ```typescript
+ * const physics = new ScrollPhysics();
+ * physics.setBounds(0, contentHeight - viewportHeight);
+ * physics.beginDrag(performance.now());
+ * physics.dragBy(-dy, performance.now());
+ * physics.endDrag(performance.now());
+ * // every frame
+ * if (physics.update(dt)) layout(physics.position);
+ * ```
+ */
+export class ScrollPhysics {
+  /** Current scroll offset */
+  position: number = 0;
+  /** Current velocity in pixels per second */
+  velocity: number = 0;
+
+  private readonly friction: number;
+  private readonly bounceStiffness: number;
+  private readonly rubberBand: number;
+  private readonly overscrollRange: number;
+  private readonly maxVelocity: number;
+  private _min: number = 0;
+  private _max: number = 0;
+  private _dragging: boolean = false;
+  private samples: Array<{ time: number; position: number }> = [];
+  private tween: { from: number; to: number; elapsed: number; duration: number } | null = null;
+
+  constructor(config: ScrollPhysicsConfig = {}) {
+    this.friction = config.friction ?? 0.135;
+    this.bounceStiffness = config.bounceStiffness ?? 250;
+    this.rubberBand = config.rubberBand ?? 0.5;
+    this.overscrollRange = config.overscrollRange ?? 150;
+    this.maxVelocity = config.maxVelocity ?? 6000;
+  }
+
+  get min(): number {
+    return this._min;
+  }
+
+  get max(): number {
+    return this._max;
+  }
+
+  get dragging(): boolean {
+    return this._dragging;
+  }
+
+  /** True while flinging, bouncing or animating */
+  get moving(): boolean {
+    return !this._dragging && (this.tween !== null || this.velocity !== 0 || this.overscroll !== 0);
+  }
+
+  /** Distance past the nearest edge: negative above min, positive below max */
+  get overscroll(): number {
+    if (this.position < this._min) return this.position - this._min;
+    if (this.position > this._max) return this.position - this._max;
+    return 0;
+  }
+
+  /**
+   * Set the scrollable range; `max` is raised to `min` when smaller
+   */
+  setBounds(min: number, max: number): void {
+    this._min = min;
+    this._max = Math.max(min, max);
+  }
+
+  beginDrag(time: number): void {
+    this._dragging = true;
+    this.velocity = 0;
+    this.tween = null;
+    this.samples = [{ time, position: this.position }];
+  }
+
+  /**
+   * Move by a pointer delta (positive = scroll further down the content).
+   * Past the edges the content follows the finger with growing resistance.
+   */
+  dragBy(delta: number, time: number): void {
+    if (!this._dragging) return;
+    // Move freely up to the edge, then with resistance
+    const edge = delta < 0 ? this._min : this._max;
+    const inside = delta < 0 ? Math.max(delta, Math.min(0, edge - this.position)) : Math.min(delta, Math.max(0, edge - this.position));
+    this.position += inside;
+    const outside = delta - inside;
+    if (outside !== 0) {
+      this.position += outside * this.rubberBand / (1 + Math.abs(this.overscroll) / this.overscrollRange);
+    }
+
+    this.samples.push({ time, position: this.position });
+    while (this.samples.length > 2 && time - this.samples[0].time > VELOCITY_WINDOW) this.samples.shift();
+  }
+
+  /**
+   * Release the drag; the fling velocity comes from the last ~100 ms
+   */
+  endDrag(time: number): void {
+    if (!this._dragging) return;
+    this._dragging = false;
+
+    const first = this.samples.find((s) => time - s.time <= VELOCITY_WINDOW) ?? this.samples[this.samples.length - 1];
+    const elapsed = (time - first.time) / 1000;
+    const velocity = elapsed > 0 ? (this.position - first.position) / elapsed : 0;
+    this.velocity = Math.max(-this.maxVelocity, Math.min(this.maxVelocity, velocity));
+    this.samples = [];
+  }
+
+  /**
+   * Jump or ease to a position (clamped to bounds)
+   * @param duration - Seconds; 0 jumps
+   */
+  scrollTo(position: number, duration: number = 0): void {
+    const target = Math.max(this._min, Math.min(this._max, position));
+    this.velocity = 0;
+    if (duration <= 0) {
+      this.tween = null;
+      this.position = target;
+    } else {
+      this.tween = { from: this.position, to: target, elapsed: 0, duration };
+    }
+  }
+
+  /**
+   * Scroll by a wheel delta, stopping any fling
+   */
+  scrollBy(delta: number): void {
+    this.scrollTo((this.tween ? this.tween.to : this.position) + delta);
+  }
+
+  /** Stop flinging and animating where the content is */
+  stop(): void {
+    this.velocity = 0;
+    this.tween = null;
+  }
+
+  /**
+   * Advance the simulation
+   * @param dt - Delta time in seconds
+   * @returns Whether the position changed
+   */
+  update(dt: number): boolean {
+    if (this._dragging || dt <= 0) return false;
+    const start = this.position;
+
+    if (this.tween) {
+      const tween = this.tween;
+      tween.elapsed = Math.min(tween.duration, tween.elapsed + dt);
+      const t = 1 - Math.pow(1 - tween.elapsed / tween.duration, 3);
+      this.position = tween.from + (tween.to - tween.from) * t;
+      if (tween.elapsed >= tween.duration) this.tween = null;
+      return this.position !== start;
+    }
+
+    if (this.overscroll !== 0) {
+      this.stepSpring(dt);
+    } else if (this.velocity !== 0) {
+      this.position += this.velocity * dt;
+      this.velocity *= Math.pow(this.friction, dt);
+      if (Math.abs(this.velocity) < MIN_VELOCITY) this.velocity = 0;
+      // Flung past an edge: the spring takes over next frame
+    }
+    return this.position !== start;
+  }
+
+  private stepSpring(dt: number): void {
+    const k = this.bounceStiffness;
+    const c = 2 * Math.sqrt(k);
+    const edge = this.position < this._min ? this._min : this._max;
+    const side = Math.sign(this.position - edge);
+
+    // Semi-implicit Euler in small steps keeps the spring stable at low frame rates
+    let remaining = dt;
+    while (remaining > 0) {
+      const step = Math.min(remaining, MAX_SPRING_STEP);
+      remaining -= step;
+      const offset = this.position - edge;
+      this.velocity += (-k * offset - c * this.velocity) * step;
+      this.position += this.velocity * step;
+
+      const crossed = Math.sign(this.position - edge) !== side;
+      const settled = Math.abs(this.position - edge) < 0.5 && Math.abs(this.velocity) < MIN_VELOCITY * 4;
+      if (crossed || settled) {
+        this.position = edge;
+        this.velocity = 0;
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,647 @@
+import { EventEmitter } from 'eventemitter3';
+import { IContainer, IGraphics } from '../../../contracts/Graphics';
+import { graphics } from '../../../graphics/GraphicsEngine';
+import { GameStyleColors } from '../../themes/GameStyleUITheme';
+import type { GameScrollBoxColorScheme } from '../GameScrollBox';
+import { ListDataSource } from './ListDataSource';
+import { ScrollPhysics, ScrollPhysicsConfig } from './ScrollPhysics';
+
+/**
+ * A reusable row/cell view. Renderers are created on demand, then
+ * recycled: `update()` rebinds one to whichever item scrolls into view.
+ */
+export interface VirtualItemRenderer<T> {
+  readonly container: IContainer;
+  /** Show `item`; called on first use and every time the renderer is recycled */
+  update(item: T, index: number): void;
+  destroy?(): void;
+}
+
+/**
+ * Shared configuration for virtualized views
+ */
+export interface VirtualScrollViewConfig<T> {
+  width?: number;
+  height?: number;
+  padding?: number;
+  /** Items, or a ListDataSource to edit them in place */
+  data?: T[] | ListDataSource<T>;
+  /** Build a renderer for an item type (see getItemType) */
+  createItem: (type: string) => VirtualItemRenderer<T>;
+  /**
+   * Renderer pool key; items of one type share recycled renderers
+   * @default 'item'
+   */
+  getItemType?: (item: T, index: number) => string;
+  /**
+   * Extra pixels rendered above and below the viewport
+   * @default 100
+   */
+  overscan?: number;
+  colorScheme?: GameScrollBoxColorScheme;
+  showScrollbar?: boolean;
+  physics?: ScrollPhysicsConfig;
+  /**
+   * Enable pull-to-refresh
+   * @default true when onRefresh is set
+   */
+  pullToRefresh?: boolean;
+  /** Called on pull-to-refresh; the spinner stays until the promise settles */
+  onRefresh?: () => void | Promise<void>;
+  /**
+   * Pull distance that triggers a refresh
+   * @default 64
+   */
+  pullThreshold?: number;
+}
+
+/**
+ * Events emitted by virtualized views
+ */
+export interface VirtualScrollViewEvents<T> {
+  'scroll': (scrollY: number) => void;
+  'item-tap': (item: T, index: number) => void;
+  /** The rendered index range changed; `last` is -1 when empty */
+  'range-changed': (first: number, last: number) => void;
+  'refresh': () => void;
+  'refresh-end': () => void;
+}
+
+/** Item position in content coordinates */
+export interface VirtualItemBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ScrollAlign = 'start' | 'center' | 'end' | 'nearest';
+
+const BORDER_WIDTH = 3;
+/** Pointer travel before a press becomes a drag (px) */
+const DRAG_THRESHOLD = 8;
+/** Duration of animated scrolls (s) */
+const SCROLL_DURATION = 0.3;
+
+/**
+ * Base for GameVirtualList and GameVirtualGrid: a GameScrollBox-styled,
+ * masked viewport that only keeps renderers for the items on screen
+ * (plus `overscan`), recycling them by type as the user scrolls.
+ *
+ * Subclasses provide the layout and must call `refreshLayout()` at the end
+ * of their constructor.
+ *
+ * Call `update(deltaTime)` every frame to run momentum, bounce and
+ * animated scrolls.
+ */
+export abstract class VirtualScrollView<T> extends EventEmitter<VirtualScrollViewEvents<T>> {
+  protected container: IContainer;
+  protected viewport: IContainer;
+  protected content: IContainer;
+  /** Layer above the items, in viewport coordinates (sticky headers) */
+  protected overlay: IContainer;
+  protected dataSource: ListDataSource<T>;
+  protected readonly physics: ScrollPhysics;
+  protected readonly viewportWidth: number;
+  protected readonly viewportHeight: number;
+
+  private shadowGraphics: IGraphics;
+  private borderGraphics: IGraphics;
+  private backgroundGraphics: IGraphics;
+  private maskGraphics: IGraphics;
+  private scrollbarGraphics: IGraphics;
+  private refreshIndicator: IGraphics;
+
+  private baseConfig: Required<Omit<VirtualScrollViewConfig<T>, 'data' | 'getItemType' | 'onRefresh' | 'physics'>>;
+  private readonly createItem: (type: string) => VirtualItemRenderer<T>;
+  private readonly itemType?: (item: T, index: number) => string;
+  private readonly onRefresh?: () => void | Promise<void>;
+
+  private readonly pools = new Map<string, VirtualItemRenderer<T>[]>();
+  private readonly active = new Map<number, { renderer: VirtualItemRenderer<T>; type: string }>();
+  private readonly renderers: VirtualItemRenderer<T>[] = [];
+  private rangeFirst = 0;
+  private rangeLast = -1;
+
+  private pressed = false;
+  private dragging = false;
+  private pressStoppedScroll = false;
+  private pressY = 0;
+  private lastPointerY = 0;
+  private refreshing = false;
+  private destroyed = false;
+
+  private readonly onDataChanged = (): void => {
+    this.releaseAll();
+    this.refreshLayout();
+  };
+  private readonly onItemUpdated = (index: number): void => {
+    const entry = this.active.get(index);
+    if (entry) this.release(index, entry);
+    this.refreshLayout();
+  };
+
+  constructor(config: VirtualScrollViewConfig<T>, defaultItemType?: (item: T, index: number) => string) {
+    super();
+
+    this.baseConfig = {
+      width: config.width || 300,
+      height: config.height || 400,
+      padding: config.padding ?? 8,
+      createItem: config.createItem,
+      overscan: config.overscan ?? 100,
+      colorScheme: config.colorScheme || GameStyleColors.GAME_SCROLLBOX,
+      showScrollbar: config.showScrollbar !== false,
+      pullToRefresh: config.pullToRefresh ?? !!config.onRefresh,
+      pullThreshold: config.pullThreshold ?? 64
+    };
+    this.createItem = config.createItem;
+    this.itemType = config.getItemType ?? defaultItemType;
+    this.onRefresh = config.onRefresh;
+    this.physics = new ScrollPhysics(config.physics);
+
+    const { width, height, padding } = this.baseConfig;
+    this.viewportWidth = width - BORDER_WIDTH * 2 - padding * 2;
+    this.viewportHeight = height - BORDER_WIDTH * 2 - padding * 2;
+
+    const factory = graphics();
+    this.container = factory.createContainer();
+    this.shadowGraphics = factory.createGraphics();
+    this.borderGraphics = factory.createGraphics();
+    this.backgroundGraphics = factory.createGraphics();
+    this.viewport = factory.createContainer();
+    this.maskGraphics = factory.createGraphics();
+    this.refreshIndicator = factory.createGraphics();
+    this.content = factory.createContainer();
+    this.overlay = factory.createContainer();
+    this.scrollbarGraphics = factory.createGraphics();
+
+    // Build hierarchy
+    this.container.addChild(this.shadowGraphics);
+    this.container.addChild(this.borderGraphics);
+    this.container.addChild(this.backgroundGraphics);
+    this.container.addChild(this.viewport);
+    this.container.addChild(this.scrollbarGraphics);
+    this.viewport.addChild(this.maskGraphics);
+    this.viewport.addChild(this.refreshIndicator);
+    this.viewport.addChild(this.content);
+    this.viewport.addChild(this.overlay);
+
+    this.viewport.x = BORDER_WIDTH + padding;
+    this.viewport.y = BORDER_WIDTH + padding;
+    this.maskGraphics.rect(0, 0, this.viewportWidth, this.viewportHeight);
+    this.maskGraphics.fill({ color: 0xFFFFFF });
+    (this.viewport as any).mask = this.maskGraphics;
+    this.refreshIndicator.x = this.viewportWidth / 2;
+    this.refreshIndicator.visible = false;
+
+    const data = config.data ?? [];
+    this.dataSource = data instanceof ListDataSource ? data : new ListDataSource(data);
+    this.dataSource.on('changed', this.onDataChanged);
+    this.dataSource.on('item-updated', this.onItemUpdated);
+
+    this.drawFrame();
+    this.setupInteraction();
+  }
+
+  // ============================================
+  // LAYOUT (implemented by subclasses)
+  // ============================================
+
+  /** Measure every item; called whenever the data changes */
+  protected abstract layout(): void;
+
+  protected abstract getContentHeight(): number;
+
+  /** First and last index intersecting [top, bottom) in content coordinates */
+  protected abstract getRange(top: number, bottom: number): [number, number];
+
+  protected abstract getItemBounds(index: number): VirtualItemBounds;
+
+  /** Item under a content-space point, or -1 */
+  protected abstract indexAt(x: number, y: number): number;
+
+  /** Position overlay content after items are placed */
+  protected renderOverlay(_scrollY: number): void {
+    // No overlay by default
+  }
+
+  /** Item under a viewport-space point (overlays can claim taps first) */
+  protected hitTest(x: number, y: number): number {
+    return this.indexAt(x, y + this.physics.position);
+  }
+
+  // ============================================
+  // PUBLIC API
+  // ============================================
+
+  /** Items currently shown */
+  public getDataSource(): ListDataSource<T> {
+    return this.dataSource;
+  }
+
+  /** Swap in new items (array) or another data source */
+  public setData(data: T[] | ListDataSource<T>): void {
+    if (data instanceof ListDataSource) {
+      if (data === this.dataSource) return;
+      this.dataSource.off('changed', this.onDataChanged);
+      this.dataSource.off('item-updated', this.onItemUpdated);
+      this.dataSource = data;
+      this.dataSource.on('changed', this.onDataChanged);
+      this.dataSource.on('item-updated', this.onItemUpdated);
+      this.onDataChanged();
+    } else {
+      this.dataSource.setItems(data);
+    }
+  }
+
+  /** Rebind every visible renderer, e.g. after changing state they read */
+  public refresh(): void {
+    this.onDataChanged();
+  }
+
+  /**
+   * Scroll so an item is visible
+   * @param align - Where the item ends up; 'nearest' scrolls as little as possible
+   */
+  public scrollToIndex(index: number, options: { align?: ScrollAlign; animate?: boolean } = {}): void {
+    if (index < 0 || index >= this.dataSource.length) return;
+    const bounds = this.getItemBounds(index);
+    const align = options.align ?? 'start';
+    const current = this.physics.position;
+    let target: number;
+
+    if (align === 'center') {
+      target = bounds.y + bounds.height / 2 - this.viewportHeight / 2;
+    } else if (align === 'end') {
+      target = bounds.y + bounds.height - this.viewportHeight;
+    } else if (align === 'nearest') {
+      if (bounds.y < current) target = bounds.y;
+      else if (bounds.y + bounds.height > current + this.viewportHeight) target = bounds.y + bounds.height - this.viewportHeight;
+      else return;
+    } else {
+      target = bounds.y;
+    }
+    this.scrollTo(target, options.animate ?? true);
+  }
+
+  /** Scroll to an offset (clamped) */
+  public scrollTo(y: number, animate: boolean = true): void {
+    this.physics.scrollTo(y, animate ? SCROLL_DURATION : 0);
+    if (!animate) this.onScrolled();
+  }
+
+  public scrollToTop(animate: boolean = true): void {
+    this.scrollTo(0, animate);
+  }
+
+  public scrollToBottom(animate: boolean = true): void {
+    this.scrollTo(this.getMaxScroll(), animate);
+  }
+
+  /** Current scroll offset (negative while pulled down) */
+  public getScrollY(): number {
+    return this.physics.position;
+  }
+
+  public getMaxScroll(): number {
+    return Math.max(0, this.getContentHeight() - this.viewportHeight);
+  }
+
+  /** Indices that currently have renderers; `last` is -1 when empty */
+  public getVisibleRange(): { first: number; last: number } {
+    return { first: this.rangeFirst, last: this.rangeLast };
+  }
+
+  /** Renderer bound to an index, if it is on screen */
+  public getRenderer(index: number): VirtualItemRenderer<T> | undefined {
+    return this.active.get(index)?.renderer;
+  }
+
+  /** Renderers created so far (on screen and pooled) */
+  public getRendererCount(): number {
+    return this.renderers.length;
+  }
+
+  /** Whether a pull-to-refresh is in progress */
+  public get isRefreshing(): boolean {
+    return this.refreshing;
+  }
+
+  /**
+   * Show the refresh spinner and emit 'refresh', as if the user pulled
+   */
+  public beginRefresh(): void {
+    if (this.refreshing) return;
+    this.refreshing = true;
+    this.updateBounds();
+    this.physics.scrollTo(-this.baseConfig.pullThreshold, SCROLL_DURATION);
+    this.emit('refresh');
+
+    const result = this.onRefresh?.();
+    if (result && typeof (result as Promise<void>).then === 'function') {
+      (result as Promise<void>).then(() => this.endRefresh(), () => this.endRefresh());
+    } else if (this.onRefresh) {
+      this.endRefresh();
+    }
+  }
+
+  /** Hide the spinner; needed when listening to 'refresh' without onRefresh */
+  public endRefresh(): void {
+    if (!this.refreshing || this.destroyed) return;
+    this.refreshing = false;
+    this.updateBounds();
+    this.emit('refresh-end');
+  }
+
+  /**
+   * Advance momentum, bounce and animated scrolling - call every frame
+   */
+  public update(deltaTime: number): void {
+    const dt = deltaTime / 1000; // Convert to seconds
+    if (this.physics.update(dt)) this.onScrolled();
+    if (this.refreshing) {
+      this.refreshIndicator.rotation += dt * Math.PI * 2;
+    }
+  }
+
+  /** Set position */
+  public setPosition(x: number, y: number): void {
+    this.container.x = x;
+    this.container.y = y;
+  }
+
+  /** Get the container */
+  public getContainer(): IContainer {
+    return this.container;
+  }
+
+  /** Destroy the component */
+  public destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.dataSource.off('changed', this.onDataChanged);
+    this.dataSource.off('item-updated', this.onItemUpdated);
+    for (const renderer of this.renderers) renderer.destroy?.();
+    this.renderers.length = 0;
+    this.pools.clear();
+    this.active.clear();
+    this.container.destroy({ children: true });
+    this.removeAllListeners();
+  }
+
+  // ============================================
+  // RENDERING
+  // ============================================
+
+  /**
+   * Re-measure items and re-render; subclasses call this once constructed
+   */
+  protected refreshLayout(): void {
+    if (this.destroyed) return;
+    this.layout();
+    this.updateBounds();
+    // Content shrank below the scroll offset: settle at the new end
+    if (!this.physics.dragging && this.physics.position > this.physics.max) {
+      this.physics.scrollTo(this.physics.max);
+    }
+    this.render();
+  }
+
+  /** Item type used for pooling */
+  protected typeOf(item: T, index: number): string {
+    return this.itemType ? this.itemType(item, index) : 'item';
+  }
+
+  /** Create a renderer outside the pools (sticky headers) */
+  protected createRenderer(type: string): VirtualItemRenderer<T> {
+    const renderer = this.createItem(type);
+    this.renderers.push(renderer);
+    return renderer;
+  }
+
+  private onScrolled(): void {
+    this.render();
+    this.emit('scroll', this.physics.position);
+  }
+
+  private updateBounds(): void {
+    const min = this.refreshing ? -this.baseConfig.pullThreshold : 0;
+    this.physics.setBounds(min, this.getMaxScroll());
+  }
+
+  private render(): void {
+    const scrollY = this.physics.position;
+    const count = this.dataSource.length;
+    this.content.y = -scrollY;
+
+    let first = 0;
+    let last = -1;
+    if (count > 0) {
+      const top = Math.max(0, scrollY - this.baseConfig.overscan);
+      const bottom = Math.max(top, scrollY + this.viewportHeight + this.baseConfig.overscan);
+      [first, last] = this.getRange(top, bottom);
+    }
+
+    // Recycle renderers that left the range
+    for (const [index, entry] of this.active) {
+      if (index < first || index > last) this.release(index, entry);
+    }
+
+    // Bind newcomers and place everything (layout may have moved items)
+    for (let index = first; index <= last; index++) {
+      let entry = this.active.get(index);
+      if (!entry) {
+        const item = this.dataSource.get(index);
+        const type = this.typeOf(item, index);
+        entry = { renderer: this.acquire(type), type };
+        entry.renderer.update(item, index);
+        this.active.set(index, entry);
+      }
+      const bounds = this.getItemBounds(index);
+      entry.renderer.container.x = bounds.x;
+      entry.renderer.container.y = bounds.y;
+    }
+
+    this.renderOverlay(scrollY);
+    this.drawScrollbar();
+    this.drawRefreshIndicator();
+
+    if (first !== this.rangeFirst || last !== this.rangeLast) {
+      this.rangeFirst = first;
+      this.rangeLast = last;
+      this.emit('range-changed', first, last);
+    }
+  }
+
+  private acquire(type: string): VirtualItemRenderer<T> {
+    const pooled = this.pools.get(type)?.pop();
+    if (pooled) {
+      pooled.container.visible = true;
+      return pooled;
+    }
+    const renderer = this.createRenderer(type);
+    this.content.addChild(renderer.container);
+    return renderer;
+  }
+
+  private release(index: number, entry: { renderer: VirtualItemRenderer<T>; type: string }): void {
+    this.active.delete(index);
+    entry.renderer.container.visible = false;
+    let pool = this.pools.get(entry.type);
+    if (!pool) {
+      pool = [];
+      this.pools.set(entry.type, pool);
+    }
+    pool.push(entry.renderer);
+  }
+
+  private releaseAll(): void {
+    for (const [index, entry] of this.active) this.release(index, entry);
+  }
+
+  private drawFrame(): void {
+    const { width, height, colorScheme } = this.baseConfig;
+    const radius = 8;
+    const shadowOffset = 3;
+
+    // 1. Inner shadow (inset effect)
+    this.shadowGraphics.roundRect(shadowOffset, shadowOffset, width, height, radius);
+    this.shadowGraphics.fill({ color: colorScheme.shadow, alpha: 0.5 });
+
+    // 2. Black border
+    this.borderGraphics.roundRect(-1, -1, width + 2, height + 2, radius + 1);
+    this.borderGraphics.stroke({ color: colorScheme.border, width: 1 });
+
+    // 3. Background
+    this.backgroundGraphics.roundRect(0, 0, width, height, radius);
+    this.backgroundGraphics.fill({ color: colorScheme.background });
+
+    // 4. Inner border
+    this.backgroundGraphics.roundRect(1, 1, width - 2, height - 2, radius - 1);
+    this.backgroundGraphics.stroke({ color: colorScheme.borderInner, width: 1, alpha: 0.5 });
+  }
+
+  private drawScrollbar(): void {
+    const { width, showScrollbar, colorScheme } = this.baseConfig;
+    const contentHeight = this.getContentHeight();
+    this.scrollbarGraphics.clear();
+    if (!showScrollbar || contentHeight <= this.viewportHeight) return;
+
+    const trackX = width - BORDER_WIDTH - 6;
+    const trackY = this.viewport.y;
+    const trackHeight = this.viewportHeight;
+
+    // Thumb shrinks while overscrolled, like native scrollbars
+    const overscroll = Math.abs(this.physics.overscroll);
+    const thumbHeight = Math.max(16, trackHeight * (this.viewportHeight / contentHeight) - overscroll);
+    const progress = Math.max(0, Math.min(1, this.physics.position / this.getMaxScroll()));
+    const thumbY = trackY + (trackHeight - thumbHeight) * progress;
+
+    this.scrollbarGraphics.roundRect(trackX, trackY, 4, trackHeight, 2);
+    this.scrollbarGraphics.fill({ color: colorScheme.scrollbarTrack, alpha: 0.5 });
+    this.scrollbarGraphics.roundRect(trackX, thumbY, 4, thumbHeight, 2);
+    this.scrollbarGraphics.fill({ color: colorScheme.scrollbarThumb, alpha: 0.9 });
+  }
+
+  private drawRefreshIndicator(): void {
+    const pulled = -this.physics.position;
+    const indicator = this.refreshIndicator;
+    indicator.clear();
+    indicator.visible = this.baseConfig.pullToRefresh && pulled > 0;
+    if (!indicator.visible) return;
+
+    const radius = 10;
+    const progress = this.refreshing ? 0.75 : Math.min(1, pulled / this.baseConfig.pullThreshold);
+    indicator.y = pulled / 2;
+    indicator.alpha = this.refreshing ? 1 : progress;
+    if (!this.refreshing) indicator.rotation = 0;
+
+    indicator.arc(0, 0, radius, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+    indicator.stroke({
+      color: progress >= 1 || this.refreshing ? this.baseConfig.colorScheme.highlight : this.baseConfig.colorScheme.scrollbarThumb,
+      width: 3
+    });
+  }
+
+  // ============================================
+  // INPUT
+  // ============================================
+
+  private setupInteraction(): void {
+    const { width, height } = this.baseConfig;
+    this.container.eventMode = 'static';
+    this.container.hitArea = {
+      contains: (x: number, y: number) => x >= 0 && x <= width && y >= 0 && y <= height
+    };
+
+    this.container.on('pointerdown', this.onPointerDown.bind(this));
+    this.container.on('pointermove', this.onPointerMove.bind(this));
+    this.container.on('pointerup', (event: any) => this.onPointerUp(event, true));
+    this.container.on('pointerupoutside', (event: any) => this.onPointerUp(event, false));
+    this.container.on('wheel', (event: any) => {
+      if (this.physics.dragging) return;
+      this.physics.scrollBy(event.deltaY ?? 0);
+      this.onScrolled();
+    });
+  }
+
+  private onPointerDown(event: any): void {
+    this.pressed = true;
+    this.dragging = false;
+    this.pressY = event.global?.y ?? 0;
+    this.lastPointerY = this.pressY;
+    // Touching stops a fling, like native scroll views, without tapping an item
+    this.pressStoppedScroll = this.physics.moving;
+    this.physics.beginDrag(performance.now());
+  }
+
+  private onPointerMove(event: any): void {
+    if (!this.pressed) return;
+    const y = event.global?.y ?? 0;
+
+    if (!this.dragging) {
+      if (Math.abs(y - this.pressY) < DRAG_THRESHOLD) return;
+      this.dragging = true;
+      this.lastPointerY = y;
+      return;
+    }
+
+    this.physics.dragBy(this.lastPointerY - y, performance.now());
+    this.lastPointerY = y;
+    this.onScrolled();
+  }
+
+  private onPointerUp(event: any, inside: boolean): void {
+    if (!this.pressed) return;
+    this.pressed = false;
+    this.physics.endDrag(performance.now());
+
+    if (!this.dragging) {
+      if (inside && !this.pressStoppedScroll) this.handleTap(event);
+      return;
+    }
+    this.dragging = false;
+
+    const { pullToRefresh, pullThreshold } = this.baseConfig;
+    if (pullToRefresh && !this.refreshing && this.physics.position <= -pullThreshold) {
+      this.physics.stop();
+      this.beginRefresh();
+    }
+  }
+
+  private handleTap(event: any): void {
+    const local = event.getLocalPosition
+      ? event.getLocalPosition(this.viewport)
+      : {
+        x: (event.global?.x ?? 0) - this.container.x - this.viewport.x,
+        y: (event.global?.y ?? 0) - this.container.y - this.viewport.y
+      };
+    if (local.x < 0 || local.y < 0 || local.x > this.viewportWidth || local.y > this.viewportHeight) return;
+
+    const index = this.hitTest(local.x, local.y);
+    if (index >= 0 && index < this.dataSource.length) {
+      this.emit('item-tap', this.dataSource.get(index), index);
+    }
+  }
+}
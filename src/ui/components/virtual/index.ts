@@ -0,0 +1,45 @@
+/**
+ * Virtualized Scroll Views
+ *
+ * List and grid views for long content (shops, inventories, leaderboards)
+ * that only create renderers for what is on screen and recycle them as
+ * the user scrolls.
+ *
+ * Components:
+ * - GameVirtualList: rows with variable heights and sticky section headers
+ * - GameVirtualGrid: fixed-size cells in columns
+ * - ListDataSource: observable items shared with the views
+ * - ScrollPhysics: momentum and overscroll bounce model
+ *
+ * @example
+ * ```typescript
+ * import { GameVirtualList, ListDataSource } from 'gamebyte/ui/components/virtual';
+ *
+ * const items = new ListDataSource(players);
+ * const list = new GameVirtualList({
+ *   data: items,
+ *   itemHeight: 64,
+ *   createItem: () => new PlayerRow(),
+ * });
+ * list.scrollToIndex(items.indexOf(me), { align: 'center' });
+ * ```
+ *
+ * @module virtual
+ */
+
+export { VirtualScrollView } from './VirtualScrollView';
+export type {
+  VirtualScrollViewConfig,
+  VirtualScrollViewEvents,
+  VirtualItemRenderer,
+  VirtualItemBounds,
+  ScrollAlign
+} from './VirtualScrollView';
+export { GameVirtualList } from './GameVirtualList';
+export type { GameVirtualListConfig } from './GameVirtualList';
+export { GameVirtualGrid } from './GameVirtualGrid';
+export type { GameVirtualGridConfig } from './GameVirtualGrid';
+export { ListDataSource } from './ListDataSource';
+export type { ListDataSourceEvents } from './ListDataSource';
+export { ScrollPhysics } from './ScrollPhysics';
+export type { ScrollPhysicsConfig } from './ScrollPhysics';
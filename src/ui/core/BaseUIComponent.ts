@@ -103,11 +103,10 @@ export abstract class BaseUIComponent extends EventEmitter implements UIComponen
     // Remove from parent
     this.removeFromParent();
 
-    // Clean up
-    this.removeAllListeners();
+    // Notify before listeners are cleared
     this._destroyed = true;
-
     this.emit('destroy');
+    this.removeAllListeners();
   }
 
   /**
@@ -0,0 +1,419 @@
+import { EventEmitter } from 'eventemitter3';
+import type { IContainer } from '../../contracts/Graphics.js';
+import type { Rect } from '../../contracts/UI.js';
+import type { UINavigationHandler } from '../../contracts/Input.js';
+import type { GamePanel } from '../panels/GamePanel.js';
+import type { Focusable, FocusableOptions, FocusDirection } from './Focusable.js';
+import { FocusRing, FocusRingConfig } from './FocusRing.js';
+import { findNeighbor, findWrapTarget } from './spatialNavigation.js';
+
+/**
+ * FocusManager configuration
+ */
+export interface FocusManagerConfig {
+  /** Container the focus ring is added to: a top UI layer at the stage origin */
+  layer?: IContainer;
+  /** Focus ring style, or false to draw your own from the 'focus' event */
+  ring?: FocusRingConfig | false;
+  /**
+   * Wrap to the opposite edge when nothing lies in the pressed direction
+   * @default false
+   */
+  wrap?: boolean;
+  /** Navigation handler to follow ('focus-move', 'confirm', 'cancel') */
+  navigation?: UINavigationHandler;
+}
+
+/**
+ * Options for pushScope()
+ */
+export interface FocusScopeOptions {
+  /** Called on cancel (gamepad B, Escape) while this scope is on top */
+  onCancel?: () => void;
+  /** Focus this when the scope opens @default first autoFocus target, else top-left */
+  initialFocus?: Focusable;
+  /**
+   * Refocus the previous target when the scope is popped
+   * @default true
+   */
+  restoreFocus?: boolean;
+}
+
+/**
+ * A focus trap: while it is the top scope, only focusables inside
+ * `root` can take focus
+ */
+export interface FocusScope {
+  readonly root: IContainer;
+  readonly options: FocusScopeOptions;
+}
+
+/**
+ * Events emitted by FocusManager
+ */
+export interface FocusManagerEvents {
+  'focus': (target: Focusable, previous: Focusable | null) => void;
+  'blur': (target: Focusable) => void;
+  'activate': (target: Focusable) => void;
+  'adjust': (target: Focusable, direction: FocusDirection) => void;
+  /** Cancel pressed; `scope` is the top scope, if any */
+  'cancel': (scope: FocusScope | null) => void;
+  'scope-push': (scope: FocusScope) => void;
+  'scope-pop': (scope: FocusScope) => void;
+}
+
+interface Entry {
+  target: Focusable;
+  options: FocusableOptions;
+}
+
+interface ScopeState {
+  scope: FocusScope;
+  returnFocus: Focusable | null;
+}
+
+/**
+ * Gamepad / keyboard focus for canvas UI. Directional input moves focus
+ * to the nearest control on screen in that direction; confirm activates
+ * it; focused sliders and radio groups consume left/right to adjust.
+ * Modal panels and bottom sheets trap focus while open.
+ *
+ * @example
+ * ```typescript
+ * const focus = new FocusManager({ layer: uiLayer, navigation: app.make('input.handlers.uiNavigation') });
+ * focus.register(playButton);
+ * focus.register(musicToggle);
+ * focus.register(volumeSlider);            // left/right change the value
+ * focus.register(level1, { autoFocus: true });
+ *
+ * focus.trapPanel(settingsModal);           // focus stays inside while shown, B closes
+ * app.ticker.add((t) => focus.update(t.deltaMS));
+ * ```
+ */
+export class FocusManager extends EventEmitter<FocusManagerEvents> {
+  private readonly entries = new Map<Focusable, Entry>();
+  private readonly scopes: ScopeState[] = [];
+  private readonly ring: FocusRing | null;
+  private readonly disconnects: Array<() => void> = [];
+  private wrap: boolean;
+  private focused: Focusable | null = null;
+
+  constructor(config: FocusManagerConfig = {}) {
+    super();
+    this.wrap = config.wrap ?? false;
+
+    if (config.ring !== false) {
+      this.ring = new FocusRing(config.ring || {});
+      config.layer?.addChild(this.ring.getContainer());
+    } else {
+      this.ring = null;
+    }
+
+    if (config.navigation) this.connect(config.navigation);
+  }
+
+  // ============================================
+  // REGISTRATION
+  // ============================================
+
+  /** Make a component reachable with directional input */
+  public register(target: Focusable, options: FocusableOptions = {}): void {
+    this.entries.set(target, { target, options });
+  }
+
+  public unregister(target: Focusable): void {
+    this.entries.delete(target);
+    if (this.focused === target) this.blur();
+    for (const state of this.scopes) {
+      if (state.returnFocus === target) state.returnFocus = null;
+    }
+  }
+
+  public isRegistered(target: Focusable): boolean {
+    return this.entries.has(target);
+  }
+
+  // ============================================
+  // FOCUS
+  // ============================================
+
+  public getFocused(): Focusable | null {
+    return this.focused;
+  }
+
+  /** Focus a registered target; returns false if it cannot take focus */
+  public focus(target: Focusable): boolean {
+    const entry = this.entries.get(target);
+    if (!entry || !this.isEligible(entry)) return false;
+    if (this.focused === target) return true;
+
+    const previous = this.focused;
+    if (previous) this.emit('blur', previous);
+    this.focused = target;
+    this.updateRing();
+    this.emit('focus', target, previous);
+    return true;
+  }
+
+  public blur(): void {
+    const previous = this.focused;
+    if (!previous) return;
+    this.focused = null;
+    this.ring?.hide();
+    this.emit('blur', previous);
+  }
+
+  /**
+   * Handle a direction: the focused control may consume it (adjust);
+   * otherwise focus moves to the best neighbour. With nothing focused,
+   * the first target in the active scope gets focus.
+   * Returns true if anything changed.
+   */
+  public move(direction: FocusDirection): boolean {
+    const current = this.focused ? this.entries.get(this.focused) : undefined;
+    if (!current || !this.isEligible(current)) {
+      return this.focusInitial();
+    }
+
+    const adjust = current.options.adjust ?? current.target.adjust?.bind(current.target);
+    if (adjust && adjust(direction)) {
+      this.emit('adjust', current.target, direction);
+      this.updateRing();
+      return true;
+    }
+
+    const fixed = current.options.neighbors;
+    if (fixed && direction in fixed) {
+      const neighbor = fixed[direction];
+      return neighbor ? this.focus(neighbor) : false;
+    }
+
+    const from = this.boundsOf(current);
+    if (!from) return false;
+    const candidates = this.candidates().filter((entry) => entry !== current);
+    const rects = candidates.map((entry) => this.boundsOf(entry));
+
+    let index = findNeighbor(from, rects, direction);
+    if (index < 0 && this.wrap) index = findWrapTarget(from, rects, direction);
+    return index >= 0 ? this.focus(candidates[index].target) : false;
+  }
+
+  /** Activate the focused control, as a tap would */
+  public confirm(): boolean {
+    const entry = this.focused ? this.entries.get(this.focused) : undefined;
+    if (!entry || !this.isEligible(entry)) return false;
+    const activate = entry.options.activate ?? entry.target.activate?.bind(entry.target);
+    if (!activate) return false;
+    activate();
+    this.emit('activate', entry.target);
+    this.updateRing();
+    return true;
+  }
+
+  /** Cancel: runs the top scope's onCancel (e.g. closes the modal) */
+  public cancel(): void {
+    const top = this.scopes[this.scopes.length - 1]?.scope ?? null;
+    top?.options.onCancel?.();
+    this.emit('cancel', top);
+  }
+
+  public setWrap(wrap: boolean): void {
+    this.wrap = wrap;
+  }
+
+  // ============================================
+  // SCOPES
+  // ============================================
+
+  /**
+   * Trap focus inside `root` until popScope(). Focus moves into the
+   * scope immediately.
+   */
+  public pushScope(root: IContainer, options: FocusScopeOptions = {}): FocusScope {
+    const scope: FocusScope = { root, options };
+    this.scopes.push({ scope, returnFocus: this.focused });
+    this.emit('scope-push', scope);
+
+    if (!options.initialFocus || !this.focus(options.initialFocus)) {
+      if (!this.focusInitial()) this.blur();
+    }
+    return scope;
+  }
+
+  /** Remove a scope; focus returns to where it was when the scope opened */
+  public popScope(scope: FocusScope): void {
+    const index = this.scopes.findIndex((s) => s.scope === scope);
+    if (index === -1) return;
+    const [{ returnFocus }] = this.scopes.splice(index, 1);
+    this.emit('scope-pop', scope);
+
+    // Popping a scope underneath the top one leaves focus alone
+    if (index !== this.scopes.length) return;
+    if (scope.options.restoreFocus !== false && returnFocus && this.focus(returnFocus)) return;
+    if (this.focused && !this.isEligible(this.entries.get(this.focused)!)) {
+      if (!this.focusInitial()) this.blur();
+    }
+  }
+
+  /**
+   * Trap focus in a panel (GameModalPanel, GameBottomSheet) while it is
+   * shown; cancel closes it. Returns a function that stops tracking.
+   */
+  public trapPanel(panel: GamePanel, options: Omit<FocusScopeOptions, 'onCancel'> = {}): () => void {
+    let scope: FocusScope | null = null;
+    const open = () => {
+      if (!scope) scope = this.pushScope(panel.getContainer(), { ...options, onCancel: () => { void panel.close(); } });
+    };
+    const close = () => {
+      if (scope) this.popScope(scope);
+      scope = null;
+    };
+
+    panel.on('show', open);
+    panel.on('hide', close);
+    if (panel.isVisible()) open();
+
+    const dispose = () => {
+      panel.off('show', open);
+      panel.off('hide', close);
+      close();
+    };
+    this.disconnects.push(dispose);
+    return dispose;
+  }
+
+  // ============================================
+  // INPUT
+  // ============================================
+
+  /**
+   * Follow a UINavigationHandler: 'focus-move' moves focus, 'confirm'
+   * activates, 'cancel' cancels. Returns a function that disconnects.
+   */
+  public connect(navigation: UINavigationHandler): () => void {
+    const onMove = (direction: FocusDirection) => { this.move(direction); };
+    const onConfirm = () => { this.confirm(); };
+    const onCancel = () => { this.cancel(); };
+
+    navigation.on('focus-move', onMove);
+    navigation.on('confirm', onConfirm);
+    navigation.on('cancel', onCancel);
+
+    const disconnect = () => {
+      navigation.off('focus-move', onMove);
+      navigation.off('confirm', onConfirm);
+      navigation.off('cancel', onCancel);
+    };
+    this.disconnects.push(disconnect);
+    return disconnect;
+  }
+
+  // ============================================
+  // UPDATE
+  // ============================================
+
+  /**
+   * Keep the ring on the focused control (which may move or animate) and
+   * drop focus from controls that were hidden, disabled or destroyed
+   */
+  public update(deltaTime: number): void {
+    for (const entry of this.entries.values()) {
+      if ((entry.target.getContainer() as any).destroyed) this.unregister(entry.target);
+    }
+
+    if (this.focused) {
+      const entry = this.entries.get(this.focused);
+      if (!entry || !this.isEligible(entry)) {
+        this.blur();
+      } else {
+        this.updateRing();
+      }
+    }
+    this.ring?.update(deltaTime);
+  }
+
+  public getRing(): FocusRing | null {
+    return this.ring;
+  }
+
+  public destroy(): void {
+    for (const disconnect of this.disconnects.splice(0)) disconnect();
+    this.entries.clear();
+    this.scopes.length = 0;
+    this.focused = null;
+    this.ring?.destroy();
+    this.removeAllListeners();
+  }
+
+  // ============================================
+  // PRIVATE
+  // ============================================
+
+  /** Registered, focusable targets inside the top scope */
+  private candidates(): Entry[] {
+    const result: Entry[] = [];
+    for (const entry of this.entries.values()) {
+      if (this.isEligible(entry)) result.push(entry);
+    }
+    return result;
+  }
+
+  private isEligible(entry: Entry): boolean {
+    const canFocus = entry.options.canFocus ?? entry.target.canFocus?.bind(entry.target);
+    if (canFocus && !canFocus()) return false;
+
+    const container = entry.target.getContainer() as any;
+    if (!container || container.destroyed) return false;
+    for (let c = container; c; c = c.parent) {
+      if (c.visible === false) return false;
+    }
+
+    const top = this.scopes[this.scopes.length - 1];
+    return !top || isDescendant(container, top.scope.root);
+  }
+
+  /** Focus the autoFocus target in scope, else the top-left one */
+  private focusInitial(): boolean {
+    const candidates = this.candidates();
+    const preferred = candidates.find((entry) => entry.options.autoFocus);
+    if (preferred) return this.focus(preferred.target);
+
+    let best: Entry | null = null;
+    let bestKey = Infinity;
+    for (const entry of candidates) {
+      const rect = this.boundsOf(entry);
+      if (!rect) continue;
+      // Reading order: rows first, then left to right
+      const key = Math.round(rect.y) * 1e6 + rect.x;
+      if (key < bestKey) {
+        bestKey = key;
+        best = entry;
+      }
+    }
+    return best ? this.focus(best.target) : false;
+  }
+
+  private boundsOf(entry: Entry): Rect | null {
+    if (entry.options.getBounds) return entry.options.getBounds();
+    const bounds = (entry.target.getContainer() as any).getBounds?.();
+    return bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : null;
+  }
+
+  private updateRing(): void {
+    if (!this.ring) return;
+    const entry = this.focused ? this.entries.get(this.focused) : undefined;
+    const bounds = entry ? this.boundsOf(entry) : null;
+    if (bounds) {
+      this.ring.show(bounds);
+    } else {
+      this.ring.hide();
+    }
+  }
+}
+
+function isDescendant(node: any, root: IContainer): boolean {
+  for (let c = node; c; c = c.parent) {
+    if (c === root) return true;
+  }
+  return false;
+}
@@ -0,0 +1,121 @@
+import { graphics } from '../../graphics/GraphicsEngine.js';
+import type { IContainer, IGraphics } from '../../contracts/Graphics.js';
+import type { Rect } from '../../contracts/UI.js';
+import { GameStyleColors } from '../themes/GameStyleUITheme.js';
+
+/**
+ * Focus ring colours
+ */
+export interface FocusRingColorScheme {
+  ring: number;
+  glow: number;
+}
+
+/**
+ * FocusRing configuration
+ */
+export interface FocusRingConfig {
+  colorScheme?: FocusRingColorScheme;
+  /** Stroke width @default 4 */
+  width?: number;
+  /** Gap between the target and the ring @default 6 */
+  padding?: number;
+  /** Corner radius @default 14 */
+  radius?: number;
+  /**
+   * Pulse the glow while shown
+   * @default true
+   */
+  pulse?: boolean;
+}
+
+/**
+ * Game-style focus highlight: a thick rounded outline with a soft outer
+ * glow, drawn around the focused control. Owned by FocusManager, which
+ * keeps it on the focused bounds.
+ */
+export class FocusRing {
+  private readonly container: IContainer;
+  private readonly glowGraphics: IGraphics;
+  private readonly ringGraphics: IGraphics;
+  private readonly config: Required<FocusRingConfig>;
+  private bounds: Rect | null = null;
+  private time = 0;
+
+  constructor(config: FocusRingConfig = {}) {
+    this.config = {
+      colorScheme: config.colorScheme ?? GameStyleColors.GAME_FOCUS_RING,
+      width: config.width ?? 4,
+      padding: config.padding ?? 6,
+      radius: config.radius ?? 14,
+      pulse: config.pulse ?? true
+    };
+
+    const factory = graphics();
+    this.container = factory.createContainer();
+    this.glowGraphics = factory.createGraphics();
+    this.ringGraphics = factory.createGraphics();
+    this.container.addChild(this.glowGraphics);
+    this.container.addChild(this.ringGraphics);
+    this.container.visible = false;
+    // Never intercept taps meant for the control underneath
+    this.container.eventMode = 'none';
+  }
+
+  /** Draw around `bounds` (stage coordinates) */
+  public show(bounds: Rect): void {
+    const b = this.bounds;
+    this.container.visible = true;
+    if (b && b.x === bounds.x && b.y === bounds.y && b.width === bounds.width && b.height === bounds.height) return;
+    this.bounds = { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height };
+    this.render();
+  }
+
+  public hide(): void {
+    this.container.visible = false;
+    this.bounds = null;
+  }
+
+  public isVisible(): boolean {
+    return this.container.visible;
+  }
+
+  /** Advance the pulse (ms) */
+  public update(deltaTime: number): void {
+    if (!this.config.pulse || !this.container.visible) return;
+    this.time += deltaTime / 1000;
+    this.glowGraphics.alpha = 0.45 + 0.35 * Math.sin(this.time * Math.PI * 2);
+  }
+
+  public setColorScheme(scheme: FocusRingColorScheme): void {
+    this.config.colorScheme = scheme;
+    this.render();
+  }
+
+  public getContainer(): IContainer {
+    return this.container;
+  }
+
+  public destroy(): void {
+    this.container.destroy({ children: true });
+  }
+
+  private render(): void {
+    const b = this.bounds;
+    this.glowGraphics.clear();
+    this.ringGraphics.clear();
+    if (!b) return;
+
+    const { padding, width, radius, colorScheme } = this.config;
+    const x = b.x - padding;
+    const y = b.y - padding;
+    const w = b.width + padding * 2;
+    const h = b.height + padding * 2;
+
+    this.glowGraphics.roundRect(x - width, y - width, w + width * 2, h + width * 2, radius + width);
+    this.glowGraphics.stroke({ color: colorScheme.glow, width: width * 2, alpha: 0.5 });
+
+    this.ringGraphics.roundRect(x, y, w, h, radius);
+    this.ringGraphics.stroke({ color: colorScheme.ring, width });
+  }
+}
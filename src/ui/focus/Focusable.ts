@@ -0,0 +1,46 @@
+import type { IContainer } from '../../contracts/Graphics.js';
+import type { Rect } from '../../contracts/UI.js';
+
+/**
+ * Directional input for focus navigation
+ */
+export type FocusDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Contract for components that can take gamepad / keyboard focus.
+ * Only getContainer() is required; the container's bounds drive
+ * spatial navigation.
+ */
+export interface Focusable {
+  getContainer(): IContainer;
+  /** Whether focus may land here right now (e.g. not disabled or locked) */
+  canFocus?(): boolean;
+  /** Confirm pressed while focused (gamepad A, Enter) - runs the tap behaviour */
+  activate?(): void;
+  /**
+   * Direction pressed while focused. Return true to consume it (slider
+   * steps, radio selection); false lets focus move to a neighbour.
+   */
+  adjust?(direction: FocusDirection): boolean;
+}
+
+/**
+ * Per-registration overrides
+ */
+export interface FocusableOptions {
+  /** Bounds in stage coordinates @default container.getBounds() */
+  getBounds?: () => Rect | null;
+  canFocus?: () => boolean;
+  activate?: () => void;
+  adjust?: (direction: FocusDirection) => boolean;
+  /**
+   * Fixed neighbours that bypass the spatial search; null blocks the
+   * direction
+   */
+  neighbors?: Partial<Record<FocusDirection, Focusable | null>>;
+  /**
+   * Focus this first when its scope opens
+   * @default false
+   */
+  autoFocus?: boolean;
+}
@@ -0,0 +1,31 @@
+/**
+ * Focus Navigation
+ *
+ * Gamepad, keyboard and TV-remote navigation for canvas UI: directional
+ * input moves focus to the nearest control on screen, confirm activates
+ * it, and modal panels trap focus while open.
+ *
+ * @example
+ * ```typescript
+ * import { FocusManager } from '@gamebyte/framework/ui';
+ *
+ * const focus = new FocusManager({ layer: uiLayer, navigation });
+ * focus.register(playButton, { autoFocus: true });
+ * focus.register(volumeSlider);
+ * focus.trapPanel(settingsModal);
+ * ```
+ *
+ * @module focus
+ */
+
+export { FocusManager } from './FocusManager.js';
+export type {
+  FocusManagerConfig,
+  FocusManagerEvents,
+  FocusScope,
+  FocusScopeOptions
+} from './FocusManager.js';
+export { FocusRing } from './FocusRing.js';
+export type { FocusRingConfig, FocusRingColorScheme } from './FocusRing.js';
+export type { Focusable, FocusableOptions, FocusDirection } from './Focusable.js';
+export { findNeighbor, findWrapTarget } from './spatialNavigation.js';
@@ -0,0 +1,84 @@
+import type { Rect } from '../../contracts/UI.js';
+import type { FocusDirection } from './Focusable.js';
+
+/** Weight of sideways misalignment against distance along the direction */
+const ORTHOGONAL_WEIGHT = 2;
+/** Small bias towards candidates whose centres line up */
+const CENTER_WEIGHT = 0.25;
+
+/**
+ * Index of the best neighbour of `from` in `direction`, or -1.
+ *
+ * A candidate qualifies when its centre lies past `from`'s centre in
+ * that direction. Among those, the score is the gap along the direction
+ * plus a penalty for sideways gap, so a control in the same row or
+ * column wins over a closer one diagonally.
+ */
+export function findNeighbor(from: Rect, candidates: ReadonlyArray<Rect | null>, direction: FocusDirection): number {
+  const horizontal = direction === 'left' || direction === 'right';
+  const sign = direction === 'right' || direction === 'down' ? 1 : -1;
+  const fromCenter = center(from);
+
+  let best = -1;
+  let bestScore = Infinity;
+  for (let i = 0; i < candidates.length; i++) {
+    const rect = candidates[i];
+    if (!rect) continue;
+    const c = center(rect);
+    const along = ((horizontal ? c.x - fromCenter.x : c.y - fromCenter.y) * sign);
+    if (along <= 0.5) continue;
+
+    const gap = Math.max(0, sign > 0
+      ? (horizontal ? rect.x - (from.x + from.width) : rect.y - (from.y + from.height))
+      : (horizontal ? from.x - (rect.x + rect.width) : from.y - (rect.y + rect.height)));
+    const sideways = horizontal
+      ? spanGap(from.y, from.height, rect.y, rect.height)
+      : spanGap(from.x, from.width, rect.x, rect.width);
+    const offset = Math.abs(horizontal ? c.y - fromCenter.y : c.x - fromCenter.x);
+
+    const score = gap + sideways * ORTHOGONAL_WEIGHT + offset * CENTER_WEIGHT;
+    if (score < bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Index to wrap to when nothing lies in `direction`: the candidate
+ * furthest the other way, preferring the same row or column. -1 when
+ * there are no candidates besides `from`.
+ */
+export function findWrapTarget(from: Rect, candidates: ReadonlyArray<Rect | null>, direction: FocusDirection): number {
+  const horizontal = direction === 'left' || direction === 'right';
+  const sign = direction === 'right' || direction === 'down' ? 1 : -1;
+
+  let best = -1;
+  let bestSideways = Infinity;
+  let bestAlong = Infinity;
+  for (let i = 0; i < candidates.length; i++) {
+    const rect = candidates[i];
+    if (!rect || rect === from) continue;
+    const sideways = horizontal
+      ? spanGap(from.y, from.height, rect.y, rect.height)
+      : spanGap(from.x, from.width, rect.x, rect.width);
+    // Smallest along-axis position for right/down, largest for left/up
+    const along = (horizontal ? center(rect).x : center(rect).y) * sign;
+    if (sideways < bestSideways || (sideways === bestSideways && along < bestAlong)) {
+      bestSideways = sideways;
+      bestAlong = along;
+      best = i;
+    }
+  }
+  return best;
+}
+
+function center(rect: Rect): { x: number; y: number } {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+/** Distance between two 1D spans, 0 when they overlap */
+function spanGap(aStart: number, aSize: number, bStart: number, bSize: number): number {
+  return Math.max(0, bStart - (aStart + aSize), aStart - (bStart + bSize));
+}
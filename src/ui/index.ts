@@ -46,8 +46,52 @@ export { PanelManager } from './app/PanelManager.js';
 export type { PanelManagerConfig } from './app/PanelManager.js';
 
 // State Management
-export { createState, computed, isReactive, resolveValue } from './state/index.js';
-export type { StateListener, ReactiveState } from './state/index.js';
+export { createState, computed, isReactive, resolveValue, reactive, effect, watch, batch, toRaw, isTracked, persist } from './state/index.js';
+export type { StateListener, ReactiveState, WatchOptions, FlushMode, PersistOptions, PersistHandle } from './state/index.js';
+
+// Accessibility
+export { AccessibilityManager, AccessibleNode, describeComponent } from './accessibility/index.js';
+export type {
+  AccessibilityManagerConfig,
+  AccessibilityManagerEvents,
+  AccessibleOptions,
+  AccessibleRole,
+  AccessibleState,
+  AccessibleTarget,
+  AnnouncePriority
+} from './accessibility/index.js';
+
+// Focus Navigation
+export { FocusManager, FocusRing, findNeighbor, findWrapTarget } from './focus/index.js';
+export type {
+  FocusManagerConfig,
+  FocusManagerEvents,
+  FocusScope,
+  FocusScopeOptions,
+  FocusRingConfig,
+  FocusRingColorScheme,
+  Focusable,
+  FocusableOptions,
+  FocusDirection
+} from './focus/index.js';
+
+// Declarative UI Markup
+export { MarkupView, MarkupScreen, MarkupRegistry, markupComponents, h, compileExpression, compileTemplate } from './markup/index.js';
+export type {
+  MarkupViewOptions,
+  MarkupViewEvents,
+  MarkupState,
+  MarkupComponentDefinition,
+  MarkupProps,
+  UINode,
+  UIMarkupDocument,
+  UINodeAttributes,
+  UINodeHandler,
+  CompiledExpression,
+  CompiledTemplate,
+  ExpressionScope
+} from './markup/index.js';
 
 // Font Loader
-export { loadFrameworkFont, getFrameworkFontFamily, isFontReady } from './utils/FontLoader.js';
+export { loadFrameworkFont, getFrameworkFontFamily, isFontReady, registerLocaleFont, getLocaleFont, setFontLocale } from './utils/FontLoader.js';
+export type { LocaleFontConfig } from './utils/FontLoader.js';
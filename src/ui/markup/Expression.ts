@@ -0,0 +1,385 @@
+/**
+ * Binding expressions for UI markup.
+ *
+ * A small, side-effect-free expression language evaluated without
+ * eval/new Function, so remotely loaded screen definitions cannot run
+ * arbitrary code: literals, identifiers and member access, calls,
+ * arithmetic, comparison, logical operators and the ternary.
+ *
+ * Calls are limited to functions named directly from the scope
+ * (helpers), functions on plain objects, methods of strings and numbers and the read-only Array
+ * methods; anything else (`items.splice(0)`, `inventory.clear()`)
+ * evaluates to undefined. Wrap services in a helper to expose them.
+ *
+ * @example
+ * ```typescript
+ * const expr = compileExpression("coins >= price ? 'Buy' : 'Need ' + (price - coins)");
+ * expr.dependencies;                       // ['coins', 'price']
+ * expr.evaluate({ coins: 40, price: 100 }); // 'Need 60'
+ * ```
+ */
+
+/** Values visible to expressions */
+export type ExpressionScope = Record<string, unknown>;
+
+/**
+ * A parsed expression
+ */
+export interface CompiledExpression {
+  readonly source: string;
+  /** Root identifiers read by the expression, e.g. `player` for `player.name` */
+  readonly dependencies: readonly string[];
+  evaluate(scope: ExpressionScope): unknown;
+}
+
+/**
+ * A markup string: a literal, a single `{{ expr }}` (raw value) or text
+ * with `{{ expr }}` parts (string)
+ */
+export interface CompiledTemplate {
+  readonly dependencies: readonly string[];
+  /** True if the string contains no bindings */
+  readonly isStatic: boolean;
+  evaluate(scope: ExpressionScope): unknown;
+}
+
+type Node = (scope: ExpressionScope) => unknown;
+
+interface Token {
+  type: 'number' | 'string' | 'ident' | 'op' | 'end';
+  value: string;
+  pos: number;
+}
+
+/** Properties that would reach Function or the prototype chain */
+const BLOCKED_MEMBERS = new Set(['constructor', '__proto__', 'prototype', '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__']);
+
+/** Array methods that never modify the array */
+const READONLY_ARRAY_METHODS = new Set<unknown>(
+  ['at', 'concat', 'includes', 'indexOf', 'join', 'lastIndexOf', 'slice', 'toString']
+    .map((name) => (Array.prototype as unknown as Record<string, unknown>)[name])
+);
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']'];
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+/**
+ * Parse an expression. Throws on syntax errors, with the position.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const parser = new Parser(source);
+  const node = parser.parse();
+  const dependencies = [...parser.roots];
+  return {
+    source,
+    dependencies,
+    evaluate: (scope) => node(scope)
+  };
+}
+
+/**
+ * Parse a markup string with `{{ }}` bindings
+ */
+export function compileTemplate(text: string): CompiledTemplate {
+  const parts: Array<string | CompiledExpression> = [];
+  let index = 0;
+  while (index < text.length) {
+    const open = text.indexOf('{{', index);
+    if (open === -1) {
+      parts.push(text.slice(index));
+      break;
+    }
+    const close = text.indexOf('}}', open + 2);
+    if (close === -1) throw new Error(`UIMarkup: unclosed '{{' in "${text}"`);
+    if (open > index) parts.push(text.slice(index, open));
+    parts.push(compileExpression(text.slice(open + 2, close)));
+    index = close + 2;
+  }
+
+  const expressions = parts.filter((p): p is CompiledExpression => typeof p !== 'string');
+  const dependencies = [...new Set(expressions.flatMap((e) => e.dependencies))];
+
+  if (expressions.length === 0) {
+    return { dependencies, isStatic: true, evaluate: () => text };
+  }
+  // A lone binding keeps the value's type (numbers, booleans, arrays...)
+  if (parts.length === 1) {
+    const only = expressions[0];
+    return { dependencies, isStatic: false, evaluate: (scope) => only.evaluate(scope) };
+  }
+  return {
+    dependencies,
+    isStatic: false,
+    evaluate: (scope) => parts.map((part) => {
+      if (typeof part === 'string') return part;
+      const value = part.evaluate(scope);
+      return value === undefined || value === null ? '' : String(value);
+    }).join('')
+  };
+}
+
+class Parser {
+  readonly roots = new Set<string>();
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Node {
+    const node = this.ternary();
+    const token = this.peek();
+    if (token.type !== 'end') this.fail(`unexpected '${token.value}'`, token);
+    return node;
+  }
+
+  private ternary(): Node {
+    const test = this.binary(0);
+    if (!this.match('?')) return test;
+    const consequent = this.ternary();
+    this.expect(':');
+    const alternate = this.ternary();
+    return (s) => (test(s) ? consequent(s) : alternate(s));
+  }
+
+  /** Precedence climbing over the binary operators */
+  private binary(level: number): Node {
+    const levels = BINARY_LEVELS;
+    if (level >= levels.length) return this.unary();
+    let left = this.binary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'op' || !levels[level].includes(token.value)) return left;
+      this.index++;
+      const right = this.binary(level + 1);
+      left = binaryNode(token.value, left, right);
+    }
+  }
+
+  private unary(): Node {
+    if (this.match('!')) {
+      const operand = this.unary();
+      return (s) => !operand(s);
+    }
+    if (this.match('-')) {
+      const operand = this.unary();
+      return (s) => -(operand(s) as number);
+    }
+    if (this.match('+')) {
+      const operand = this.unary();
+      return (s) => +(operand(s) as number);
+    }
+    return this.postfix();
+  }
+
+  private postfix(): Node {
+    const first = this.peek();
+    let node = this.primary();
+    // Receiver of the last member access, so calls get the right `this`
+    let receiver: Node | null = null;
+    // Only a bare scope name may be called without a receiver; `(obj.fn)()`
+    // or `(a ? obj.fn : b)()` would otherwise skip the receiver check
+    let isScopeName = first.type === 'ident' && !(first.value in KEYWORDS);
+    for (;;) {
+      if (this.match('.') || this.match('?.')) {
+        const name = this.next();
+        if (name.type !== 'ident') this.fail('expected a property name', name);
+        const object = node;
+        receiver = object;
+        isScopeName = false;
+        node = (s) => member(object(s), name.value);
+      } else if (this.match('[')) {
+        const key = this.ternary();
+        this.expect(']');
+        const object = node;
+        receiver = object;
+        isScopeName = false;
+        node = (s) => member(object(s), key(s));
+      } else if (this.match('(')) {
+        const args: Node[] = [];
+        if (!this.match(')')) {
+          do args.push(this.ternary()); while (this.match(','));
+          this.expect(')');
+        }
+        const callee = node;
+        const self = receiver;
+        if (!self && !isScopeName) {
+          node = () => undefined;
+        } else {
+          node = (s) => {
+            const fn = callee(s);
+            const thisArg = self ? self(s) : undefined;
+            if (typeof fn !== 'function' || (self && !isCallable(fn, thisArg))) return undefined;
+            return (fn as (...a: unknown[]) => unknown).apply(thisArg, args.map((a) => a(s)));
+          };
+        }
+        receiver = null;
+        isScopeName = false;
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private primary(): Node {
+    const token = this.next();
+    switch (token.type) {
+      case 'number': {
+        const value = Number(token.value);
+        return () => value;
+      }
+      case 'string': {
+        const value = token.value;
+        return () => value;
+      }
+      case 'ident': {
+        if (token.value in KEYWORDS) {
+          const value = KEYWORDS[token.value];
+          return () => value;
+        }
+        const name = token.value;
+        this.roots.add(name);
+        return (s) => member(s, name);
+      }
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.ternary();
+          this.expect(')');
+          return inner;
+        }
+        break;
+    }
+    return this.fail(token.type === 'end' ? 'unexpected end of expression' : `unexpected '${token.value}'`, token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private match(op: string): boolean {
+    const token = this.peek();
+    if (token.type === 'op' && token.value === op) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(op: string): void {
+    if (!this.match(op)) this.fail(`expected '${op}'`, this.peek());
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new Error(`UIMarkup: ${message} at ${token.pos} in "${this.source}"`);
+  }
+}
+
+/** Lowest to highest precedence */
+const BINARY_LEVELS: string[][] = [
+  ['??'],
+  ['||'],
+  ['&&'],
+  ['===', '!==', '==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+function binaryNode(op: string, left: Node, right: Node): Node {
+  switch (op) {
+    case '??': return (s) => left(s) ?? right(s);
+    case '||': return (s) => left(s) || right(s);
+    case '&&': return (s) => left(s) && right(s);
+    case '===': return (s) => left(s) === right(s);
+    case '!==': return (s) => left(s) !== right(s);
+    case '==': return (s) => left(s) == right(s);
+    case '!=': return (s) => left(s) != right(s);
+    case '<': return (s) => (left(s) as number) < (right(s) as number);
+    case '<=': return (s) => (left(s) as number) <= (right(s) as number);
+    case '>': return (s) => (left(s) as number) > (right(s) as number);
+    case '>=': return (s) => (left(s) as number) >= (right(s) as number);
+    case '+': return (s) => (left(s) as number) + (right(s) as number);
+    case '-': return (s) => (left(s) as number) - (right(s) as number);
+    case '*': return (s) => (left(s) as number) * (right(s) as number);
+    case '/': return (s) => (left(s) as number) / (right(s) as number);
+    default: return (s) => (left(s) as number) % (right(s) as number);
+  }
+}
+
+/** Whether `fn` may be called on `receiver` without changing state */
+function isCallable(fn: unknown, receiver: unknown): boolean {
+  if (receiver === null || receiver === undefined) return false;
+  // Function receivers would allow `items.push.call(items, x)`
+  if (typeof receiver === 'function') return false;
+  if (typeof receiver !== 'object') return true;
+  if (Array.isArray(receiver)) return READONLY_ARRAY_METHODS.has(fn);
+  const proto = Object.getPrototypeOf(receiver);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Null-safe property read that refuses prototype escapes */
+function member(object: unknown, key: unknown): unknown {
+  if (object === null || object === undefined) return undefined;
+  const name = String(key);
+  if (BLOCKED_MEMBERS.has(name)) return undefined;
+  return (object as Record<string, unknown>)[name];
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          j += 2;
+        } else {
+          value += source[j++];
+        }
+      }
+      if (j >= source.length) throw new Error(`UIMarkup: unterminated string at ${i} in "${source}"`);
+      tokens.push({ type: 'string', value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw new Error(`UIMarkup: unexpected '${ch}' at ${i} in "${source}"`);
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+  tokens.push({ type: 'end', value: '', pos: source.length });
+  return tokens;
+}
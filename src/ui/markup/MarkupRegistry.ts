@@ -0,0 +1,125 @@
+import type { IContainer } from '../../contracts/Graphics.js';
+import { graphics } from '../../graphics/GraphicsEngine.js';
+import { GameStyleColors } from '../themes/GameStyleUITheme.js';
+import { GameStyleButton } from '../components/GameStyleButton.js';
+import { HexagonLevelButton } from '../components/HexagonLevelButton.js';
+import { GameTopBar } from '../components/GameTopBar.js';
+import { GameBottomNav } from '../components/GameBottomNav.js';
+import { GameStylePanel } from '../components/GameStylePanel.js';
+import { GameToggle } from '../components/GameToggle.js';
+import { GameCheckBox } from '../components/GameCheckBox.js';
+import { GameSlider } from '../components/GameSlider.js';
+import { GameRadioGroup } from '../components/GameRadioGroup.js';
+import { GameSelect } from '../components/GameSelect.js';
+import { GameInput } from '../components/GameInput.js';
+import { GameTooltip } from '../components/GameTooltip.js';
+import { GameScrollBox } from '../components/GameScrollBox.js';
+import { GameList } from '../components/GameList.js';
+
+/** Resolved props passed to a component factory */
+export type MarkupProps = Record<string, any>;
+
+/**
+ * How markup creates and updates one component type
+ */
+export interface MarkupComponentDefinition<E = any> {
+  /** Build the component from resolved props (its constructor config) */
+  create(props: MarkupProps): E;
+  /**
+   * Where child nodes go
+   * @default addChild on the element's container
+   */
+  addChild?(element: E, child: IContainer): void;
+  /**
+   * Apply one changed bound prop. Return false to rebuild the node
+   * instead. Without this hook a `set<Prop>(value)` method is used when
+   * the element has one (setText, setValue, setDisabled...).
+   */
+  update?(element: E, key: string, value: unknown): boolean;
+}
+
+/**
+ * Maps markup `type` names to component factories. Components from
+ * the framework are pre-registered on `markupComponents`; games add
+ * their own widgets with register().
+ *
+ * @example
+ * ```typescript
+ * markupComponents.register('CoinBadge', {
+ *   create: (props) => new CoinBadge(props.amount),
+ *   update: (badge, key, value) => key === 'amount' && (badge.setAmount(value as number), true),
+ * });
+ * ```
+ */
+export class MarkupRegistry {
+  private readonly definitions = new Map<string, MarkupComponentDefinition>();
+
+  register<E>(type: string, definition: MarkupComponentDefinition<E>): this {
+    this.definitions.set(type, definition);
+    return this;
+  }
+
+  unregister(type: string): void {
+    this.definitions.delete(type);
+  }
+
+  has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  get(type: string): MarkupComponentDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  getTypes(): string[] {
+    return [...this.definitions.keys()];
+  }
+}
+
+/**
+ * Accept colour scheme names from JSON, e.g. "GREEN_BUTTON"
+ */
+function withColorScheme(props: MarkupProps): MarkupProps {
+  const scheme = props.colorScheme;
+  if (typeof scheme === 'string' && scheme in GameStyleColors) {
+    return { ...props, colorScheme: GameStyleColors[scheme as keyof typeof GameStyleColors] };
+  }
+  return props;
+}
+
+/** Registry with the framework's components; used when none is given */
+export const markupComponents = new MarkupRegistry()
+  .register<IContainer>('container', {
+    create: () => graphics().createContainer()
+  })
+  .register<any>('text', {
+    create: ({ text, ...style }) => graphics().createText(text === undefined || text === null ? '' : String(text), style),
+    update: (label, key, value) => {
+      if (key === 'text') label.text = value === undefined || value === null ? '' : String(value);
+      else label.style[key] = value;
+      return true;
+    }
+  })
+  .register('GameStyleButton', { create: (props) => new GameStyleButton(withColorScheme(props)) })
+  .register('HexagonLevelButton', { create: (props) => new HexagonLevelButton(withColorScheme(props) as any) })
+  .register('GameTopBar', { create: (props) => new GameTopBar(props as any) })
+  .register('GameBottomNav', { create: (props) => new GameBottomNav(props as any) })
+  .register<GameStylePanel>('GameStylePanel', {
+    create: (props) => new GameStylePanel(withColorScheme(props)),
+    addChild: (panel, child) => panel.addContent(child)
+  })
+  .register('GameToggle', { create: (props) => new GameToggle(withColorScheme(props)) })
+  .register('GameCheckBox', { create: (props) => new GameCheckBox(withColorScheme(props)) })
+  .register('GameSlider', { create: (props) => new GameSlider(withColorScheme(props)) })
+  .register('GameRadioGroup', { create: (props) => new GameRadioGroup(withColorScheme(props) as any) })
+  .register('GameSelect', { create: (props) => new GameSelect(withColorScheme(props)) })
+  .register('GameInput', { create: (props) => new GameInput(withColorScheme(props)) })
+  .register('GameTooltip', { create: (props) => new GameTooltip(withColorScheme(props)) })
+  .register<GameScrollBox>('GameScrollBox', {
+    create: (props) => new GameScrollBox(withColorScheme(props)),
+    addChild: (box, child) => box.addItem(child)
+  })
+  .register<GameList>('GameList', {
+    create: (props) => new GameList(props),
+    addChild: (list, child) => list.addItem(child)
+  });
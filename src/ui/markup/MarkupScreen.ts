@@ -0,0 +1,69 @@
+import { SimpleScreen } from '../screens/SimpleScreen.js';
+import { MarkupView, MarkupViewOptions } from './MarkupView.js';
+import type { UIMarkupDocument, UINode } from './UINode.js';
+
+/**
+ * SimpleScreen whose content comes from a markup definition.
+ *
+ * Expressions can read `screen.width` and `screen.height`; the view is
+ * rebuilt on resize so bindings on them stay current.
+ *
+ * @example
+ * ```typescript
+ * const shop = new MarkupScreen('shop', shopJson, { state, actions });
+ * shop.initialize(width, height);
+ * await shop.show();
+ * ```
+ */
+export class MarkupScreen extends SimpleScreen {
+  private view: MarkupView | null = null;
+  private readonly screenSize = { width: 0, height: 0 };
+
+  constructor(
+    screenName: string,
+    private source: UIMarkupDocument | UINode,
+    private readonly options: MarkupViewOptions = {}
+  ) {
+    super(screenName);
+  }
+
+  protected setup(): void {
+    this.screenSize.width = this._width;
+    this.screenSize.height = this._height;
+    this.view = new MarkupView(this.source, {
+      ...this.options,
+      helpers: { ...this.options.helpers, screen: this.screenSize }
+    });
+    this.view.on('render', () => this.emit('render'));
+    this.container.addChild(this.view.getContainer());
+  }
+
+  /**
+   * Get the markup view (null before initialize())
+   */
+  public getView(): MarkupView | null {
+    return this.view;
+  }
+
+  /**
+   * Replace the screen definition at runtime
+   */
+  public reload(source: UIMarkupDocument | UINode | string = this.source): boolean {
+    if (!this.view) return false;
+    const reloaded = this.view.reload(source);
+    if (reloaded) this.source = this.view.getDocument();
+    return reloaded;
+  }
+
+  protected onResize(width: number, height: number): void {
+    this.screenSize.width = width;
+    this.screenSize.height = height;
+    this.view?.reload();
+  }
+
+  public destroy(): void {
+    this.view?.destroy();
+    this.view = null;
+    super.destroy();
+  }
+}
@@ -0,0 +1,450 @@
+import { EventEmitter } from 'eventemitter3';
+import type { IContainer } from '../../contracts/Graphics.js';
+import type { LayoutConfig } from '../../layout/types.js';
+import { LayoutPresets, GameLayoutPresets } from '../../layout/LayoutStyles.js';
+import { graphics } from '../../graphics/GraphicsEngine.js';
+import { Logger } from '../../utils/Logger.js';
+import { compileTemplate, CompiledTemplate, ExpressionScope } from './Expression.js';
+import { markupComponents, MarkupComponentDefinition, MarkupRegistry } from './MarkupRegistry.js';
+import type { UIMarkupDocument, UINode, UINodeHandler } from './UINode.js';
+
+/** State the view binds to: a createState() object, or any plain object (no live updates) */
+export type MarkupState = object & {
+  on?: (key: any, listener: (...args: any[]) => void) => () => void;
+};
+
+/**
+ * MarkupView options
+ */
+export interface MarkupViewOptions {
+  /** Values for `{{ }}` bindings; createState() objects update the view live */
+  state?: MarkupState;
+  /** Handlers referenced by name from `on` */
+  actions?: Record<string, (...args: any[]) => void>;
+  /** Extra functions and constants visible to expressions (formatters...) */
+  helpers?: Record<string, unknown>;
+  /** Component types @default markupComponents */
+  registry?: MarkupRegistry;
+  /** Applies node layouts @default sets `container.layout` */
+  layoutManager?: { applyLayout(container: any, layout: LayoutConfig | boolean): void };
+}
+
+/**
+ * Events emitted by MarkupView
+ */
+export interface MarkupViewEvents {
+  'render': () => void;
+  /** A named handler fired, whether or not `actions` has it */
+  'action': (name: string, ...args: any[]) => void;
+  /** reload() or watch() failed; the previous tree stays on screen */
+  'error': (error: Error) => void;
+}
+
+interface Mounted {
+  node: UINode;
+  element: any;
+  container: IContainer;
+  definition: MarkupComponentDefinition;
+  parent: Mounted | null;
+  /** Last applied prop values */
+  props: Record<string, unknown>;
+  children: Mounted[];
+  cleanup: Array<() => void>;
+}
+
+/**
+ * Builds a component tree from a declarative definition (JSON or h())
+ * and keeps it in sync with reactive state. Definitions can be reloaded
+ * at runtime - watch() polls a URL so designers see edits without a
+ * rebuild.
+ *
+ * @example
+ * ```typescript
+ * const state = createState({ coins: 120, price: 100 });
+ * const view = new MarkupView(shopJson, {
+ *   state,
+ *   actions: { buy: () => { state.coins -= state.price; } },
+ * });
+ * stage.addChild(view.getContainer());
+ *
+ * if (import.meta.env.DEV) view.watch('/screens/shop.json');
+ * ```
+ */
+export class MarkupView extends EventEmitter<MarkupViewEvents> {
+  private readonly container: IContainer;
+  private readonly options: MarkupViewOptions;
+  private readonly registry: MarkupRegistry;
+  private readonly scope: ExpressionScope;
+  private readonly templates = new Map<string, CompiledTemplate>();
+  private document: UIMarkupDocument;
+  private root: Mounted | null = null;
+  private ids = new Map<string, Mounted>();
+  private readonly watchers = new Set<() => void>();
+
+  constructor(source: UIMarkupDocument | UINode, options: MarkupViewOptions = {}) {
+    super();
+    this.options = options;
+    this.registry = options.registry ?? markupComponents;
+    this.scope = createScope(options);
+    this.container = graphics().createContainer();
+    this.document = toDocument(source);
+    this.render();
+  }
+
+  public getContainer(): IContainer {
+    return this.container;
+  }
+
+  /** Component created for the node with this id */
+  public getElement<T = unknown>(id: string): T | undefined {
+    return this.ids.get(id)?.element as T | undefined;
+  }
+
+  public getDocument(): UIMarkupDocument {
+    return this.document;
+  }
+
+  /**
+   * Replace the definition (or re-read the current one). Invalid
+   * definitions emit 'error' and leave the current tree in place.
+   */
+  public reload(source: UIMarkupDocument | UINode | string = this.document): boolean {
+    try {
+      this.document = toDocument(typeof source === 'string' ? JSON.parse(source) : source);
+      this.render();
+      return true;
+    } catch (error) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Poll a JSON definition and reload when it changes. Returns a function
+   * that stops watching.
+   */
+  public watch(url: string, options: { interval?: number; fetch?: (url: string) => Promise<{ text(): Promise<string> }> } = {}): () => void {
+    const load = options.fetch ?? ((u: string) => fetch(u, { cache: 'no-store' }));
+    let last: string | null = null;
+    let busy = false;
+
+    const poll = async () => {
+      if (busy) return;
+      busy = true;
+      try {
+        const text = await (await load(url)).text();
+        if (text !== last) {
+          last = text;
+          this.reload(text);
+        }
+      } catch (error) {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      } finally {
+        busy = false;
+      }
+    };
+
+    void poll();
+    const timer = setInterval(() => { void poll(); }, options.interval ?? 1000);
+    const stop = () => {
+      clearInterval(timer);
+      this.watchers.delete(stop);
+    };
+    this.watchers.add(stop);
+    return stop;
+  }
+
+  public destroy(): void {
+    for (const stop of [...this.watchers]) stop();
+    if (this.root) this.unmount(this.root);
+    this.root = null;
+    this.ids.clear();
+    this.container.destroy({ children: true });
+    this.removeAllListeners();
+  }
+
+  // ============================================
+  // RENDERING
+  // ============================================
+
+  /** Build the new tree first so a bad definition never blanks the screen */
+  private render(): void {
+    const ids = new Map<string, Mounted>();
+    const root = this.mountTree(this.document.root, null, ids);
+
+    if (this.root) this.unmount(this.root);
+    this.ids = ids;
+    this.root = root;
+    this.container.addChild(root.container);
+    this.emit('render');
+  }
+
+  /**
+   * Mount a subtree, or dispose of everything it created if any node
+   * fails, so a bad definition leaves no live bindings behind
+   */
+  private mountTree(node: UINode, parent: Mounted | null, ids: Map<string, Mounted>): Mounted {
+    const created: Mounted[] = [];
+    const subtreeIds = new Map<string, Mounted>();
+    try {
+      const mounted = this.mount(node, parent, subtreeIds, created);
+      for (const [id, entry] of subtreeIds) ids.set(id, entry);
+      return mounted;
+    } catch (error) {
+      // Children were created after their parents
+      for (let i = created.length - 1; i >= 0; i--) this.dispose(created[i]);
+      throw error;
+    }
+  }
+
+  private mount(node: UINode, parent: Mounted | null, ids: Map<string, Mounted>, created: Mounted[]): Mounted {
+    if (!node || typeof node.type !== 'string') throw new Error('UIMarkup: every node needs a "type"');
+    const definition = this.registry.get(node.type);
+    if (!definition) throw new Error(`UIMarkup: unknown component type "${node.type}"`);
+
+    const props = this.resolve(node.props ?? {}) as Record<string, unknown>;
+    const element = definition.create({ ...props });
+    const container: IContainer = typeof element?.getContainer === 'function' ? element.getContainer() : element;
+
+    const mounted: Mounted = { node, element, container, definition, parent, props, children: [], cleanup: [] };
+    created.push(mounted);
+    if (node.id) {
+      if (ids.has(node.id)) Logger.warn('UI', `UIMarkup: duplicate id "${node.id}"`);
+      ids.set(node.id, mounted);
+    }
+
+    this.bindProps(mounted);
+    this.bindDisplay(mounted);
+    this.bindLayout(mounted);
+    this.bindEvents(mounted);
+
+    for (const childNode of node.children ?? []) {
+      const child = this.mount(childNode, mounted, ids, created);
+      mounted.children.push(child);
+      this.attach(mounted, child);
+    }
+    return mounted;
+  }
+
+  private attach(parent: Mounted, child: Mounted): void {
+    if (parent.definition.addChild) parent.definition.addChild(parent.element, child.container);
+    else parent.container.addChild(child.container);
+  }
+
+  private unmount(mounted: Mounted): void {
+    for (const child of mounted.children) this.unmount(child);
+    this.dispose(mounted);
+  }
+
+  /** Release one node's bindings and component (not its children) */
+  private dispose(mounted: Mounted): void {
+    for (const dispose of mounted.cleanup) dispose();
+    mounted.cleanup.length = 0;
+    if (mounted.node.id && this.ids.get(mounted.node.id) === mounted) this.ids.delete(mounted.node.id);
+
+    if (mounted.element !== mounted.container && typeof mounted.element?.destroy === 'function') {
+      mounted.element.destroy();
+    } else if (!(mounted.container as any).destroyed) {
+      mounted.container.destroy({ children: true });
+    }
+  }
+
+  /** Rebuild one node in place after a prop it cannot update changed */
+  private rebuild(mounted: Mounted): void {
+    const parentContainer = (mounted.container as any).parent as IContainer | null;
+    const index = parentContainer ? parentContainer.getChildIndex(mounted.container) : -1;
+    const replacement = this.mountTree(mounted.node, mounted.parent, this.ids);
+    this.unmount(mounted);
+    if (mounted.node.id) this.ids.set(mounted.node.id, replacement);
+
+    if (mounted.parent) {
+      const siblings = mounted.parent.children;
+      siblings[siblings.indexOf(mounted)] = replacement;
+      this.attach(mounted.parent, replacement);
+      const host = (replacement.container as any).parent as IContainer | null;
+      if (host && host === parentContainer && index >= 0) host.setChildIndex(replacement.container, Math.min(index, host.children.length - 1));
+    } else {
+      this.root = replacement;
+      this.container.addChild(replacement.container);
+    }
+  }
+
+  // ============================================
+  // BINDINGS
+  // ============================================
+
+  private bindProps(mounted: Mounted): void {
+    for (const [key, raw] of Object.entries(mounted.node.props ?? {})) {
+      this.watchValue(mounted, raw, () => {
+        const value = this.resolve(raw);
+        // Also stops a rebuilt node's fresh listener re-running in the same notification
+        if (isSameValue(value, mounted.props[key])) return;
+        mounted.props[key] = value;
+        if (!this.applyProp(mounted, key, value)) this.rebuild(mounted);
+      });
+    }
+  }
+
+  private applyProp(mounted: Mounted, key: string, value: unknown): boolean {
+    if (mounted.definition.update) return mounted.definition.update(mounted.element, key, value);
+    const setter = mounted.element?.[`set${key.charAt(0).toUpperCase()}${key.slice(1)}`];
+    if (typeof setter !== 'function') return false;
+    setter.call(mounted.element, value);
+    return true;
+  }
+
+  private bindDisplay(mounted: Mounted): void {
+    const { node, container } = mounted;
+    for (const key of ['x', 'y', 'alpha', 'visible'] as const) {
+      const raw = node[key];
+      if (raw === undefined) continue;
+      const apply = () => { (container as any)[key] = this.resolve(raw); };
+      apply();
+      this.watchValue(mounted, raw, apply);
+    }
+  }
+
+  private bindLayout(mounted: Mounted): void {
+    const raw = mounted.node.layout;
+    if (raw === undefined) return;
+    const apply = () => {
+      const layout = this.resolveLayout(raw);
+      if (!layout) return;
+      if (this.options.layoutManager) this.options.layoutManager.applyLayout(mounted.container, layout);
+      else (mounted.container as any).layout = layout;
+    };
+    apply();
+    this.watchValue(mounted, raw, apply);
+  }
+
+  private bindEvents(mounted: Mounted): void {
+    const target = typeof mounted.element?.on === 'function' ? mounted.element : mounted.container;
+    for (const [event, handler] of Object.entries(mounted.node.on ?? {})) {
+      const listener = this.createHandler(handler);
+      target.on(event, listener);
+      mounted.cleanup.push(() => target.off(event, listener));
+    }
+  }
+
+  private createHandler(handler: UINodeHandler): (...args: any[]) => void {
+    if (typeof handler === 'function') return handler;
+    return (...args: any[]) => {
+      this.emit('action', handler, ...args);
+      this.options.actions?.[handler]?.(...args);
+    };
+  }
+
+  /** Re-run `apply` when state keys read by `raw`'s bindings change */
+  private watchValue(mounted: Mounted, raw: unknown, apply: () => void): void {
+    const subscribe = this.options.state?.on;
+    if (typeof subscribe !== 'function') return;
+    const dependencies = new Set<string>();
+    this.collectDependencies(raw, dependencies);
+    const state = this.options.state as object;
+    const helpers = this.options.helpers ?? {};
+    for (const key of dependencies) {
+      // Helpers are not reactive; state keys may be added later
+      if (!(key in state) && key in helpers) continue;
+      mounted.cleanup.push(subscribe.call(this.options.state, key, apply));
+    }
+  }
+
+  // ============================================
+  // VALUES
+  // ============================================
+
+  /** Evaluate bindings in strings, arrays and plain objects */
+  private resolve(raw: unknown): unknown {
+    if (typeof raw === 'string') {
+      const template = this.template(raw);
+      if (template.isStatic) return raw;
+      try {
+        return template.evaluate(this.scope);
+      } catch (error) {
+        Logger.warn('UI', `UIMarkup: binding "${raw}" failed`, error);
+        return undefined;
+      }
+    }
+    if (Array.isArray(raw)) return raw.map((item) => this.resolve(item));
+    if (isPlainObject(raw)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(raw)) result[key] = this.resolve(value);
+      return result;
+    }
+    return raw;
+  }
+
+  private resolveLayout(raw: LayoutConfig | string): LayoutConfig | null {
+    if (typeof raw !== 'string' || raw.includes('{{')) {
+      const resolved = this.resolve(raw);
+      return typeof resolved === 'string' ? this.namedLayout(resolved) : (resolved as LayoutConfig);
+    }
+    return this.namedLayout(raw);
+  }
+
+  private namedLayout(name: string): LayoutConfig | null {
+    const layout = this.document.styles?.[name]
+      ?? (LayoutPresets as Record<string, LayoutConfig>)[name]
+      ?? (GameLayoutPresets as Record<string, LayoutConfig>)[name];
+    if (!layout) {
+      Logger.warn('UI', `UIMarkup: unknown layout "${name}"`);
+      return null;
+    }
+    return { ...layout };
+  }
+
+  private collectDependencies(raw: unknown, into: Set<string>): void {
+    if (typeof raw === 'string') {
+      for (const key of this.template(raw).dependencies) into.add(key);
+    } else if (Array.isArray(raw)) {
+      for (const item of raw) this.collectDependencies(item, into);
+    } else if (isPlainObject(raw)) {
+      for (const value of Object.values(raw)) this.collectDependencies(value, into);
+    }
+  }
+
+  private template(text: string): CompiledTemplate {
+    let template = this.templates.get(text);
+    if (!template) {
+      template = compileTemplate(text);
+      this.templates.set(text, template);
+    }
+    return template;
+  }
+}
+
+/** Expressions read state first, then helpers */
+function createScope(options: MarkupViewOptions): ExpressionScope {
+  const state = (options.state ?? {}) as Record<string, unknown>;
+  const helpers = options.helpers ?? {};
+  return new Proxy({} as ExpressionScope, {
+    get: (_target, key) => {
+      if (typeof key !== 'string') return undefined;
+      if (Object.prototype.hasOwnProperty.call(state, key)) return state[key];
+      return Object.prototype.hasOwnProperty.call(helpers, key) ? helpers[key] : undefined;
+    }
+  });
+}
+
+function toDocument(source: UIMarkupDocument | UINode): UIMarkupDocument {
+  if (!source || typeof source !== 'object') throw new Error('UIMarkup: definition must be an object');
+  return 'root' in source ? source : { root: source };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isSameValue(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => isSameValue(a[key], b[key]));
+  }
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
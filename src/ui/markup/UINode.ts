@@ -0,0 +1,77 @@
+import type { LayoutConfig } from '../../layout/types.js';
+
+/** Event handler: an action name (JSON) or a function (h()) */
+export type UINodeHandler = string | ((...args: any[]) => void);
+
+/**
+ * One component in a declarative screen definition. String values may
+ * contain `{{ expression }}` bindings against the view's state.
+ *
+ * @example
+ * ```json
+ * {
+ *   "type": "GameStyleButton",
+ *   "id": "buy",
+ *   "props": { "text": "Buy {{ price }}", "disabled": "{{ coins < price }}", "colorScheme": "GREEN_BUTTON" },
+ *   "layout": { "marginTop": 12 },
+ *   "on": { "click": "buy" }
+ * }
+ * ```
+ */
+export interface UINode {
+  /** Registered component type, e.g. 'GameStyleButton', 'container', 'text' */
+  type: string;
+  /** Name for MarkupView.getElement() */
+  id?: string;
+  /** Component config; bound props update through set<Prop>() or rebuild the node */
+  props?: Record<string, unknown>;
+  /** Flex layout, or the name of a document style / LayoutPresets / GameLayoutPresets entry */
+  layout?: LayoutConfig | string;
+  x?: number | string;
+  y?: number | string;
+  alpha?: number | string;
+  visible?: boolean | string;
+  /** Component event → handler */
+  on?: Record<string, UINodeHandler>;
+  children?: UINode[];
+}
+
+/**
+ * A screen definition file
+ */
+export interface UIMarkupDocument {
+  version?: 1;
+  /** Named layouts referenced by `layout: "name"` */
+  styles?: Record<string, LayoutConfig>;
+  root: UINode;
+}
+
+/** Attributes accepted by h(): node fields plus component props */
+export type UINodeAttributes = Omit<UINode, 'type' | 'props' | 'children'> & Record<string, unknown>;
+
+const NODE_KEYS = new Set(['id', 'layout', 'x', 'y', 'alpha', 'visible', 'on']);
+
+/**
+ * JSX-style factory for UINode trees in code
+ *
+ * @example
+ * ```typescript
+ * const shop = h('container', { layout: 'center' },
+ *   h('text', { text: '{{ coins }} coins', fontSize: 28 }),
+ *   h('GameStyleButton', { text: 'Buy', on: { click: () => buy() } })
+ * );
+ * ```
+ */
+export function h(type: string, attributes: UINodeAttributes | null = null, ...children: Array<UINode | UINode[] | null | false | undefined>): UINode {
+  const node: UINode = { type };
+  const props: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(attributes ?? {})) {
+    if (NODE_KEYS.has(key)) (node as unknown as Record<string, unknown>)[key] = value;
+    else props[key] = value;
+  }
+  if (Object.keys(props).length > 0) node.props = props;
+
+  const flat = children.flat().filter((child): child is UINode => !!child);
+  if (flat.length > 0) node.children = flat;
+  return node;
+}
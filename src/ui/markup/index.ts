@@ -0,0 +1,30 @@
+/**
+ * Declarative UI markup
+ *
+ * Build screens from JSON (or h() in code) instead of hand-written
+ * component wiring: components by type name, flex layouts, `{{ }}`
+ * bindings to reactive state and runtime reload.
+ *
+ * @example
+ * ```typescript
+ * import { MarkupView, createState } from '@gamebyte/framework/ui';
+ *
+ * const state = createState({ coins: 120 });
+ * const view = new MarkupView({
+ *   type: 'container', layout: 'center',
+ *   children: [{ type: 'text', props: { text: '{{ coins }} coins' } }]
+ * }, { state });
+ * ```
+ *
+ * @module markup
+ */
+
+export { MarkupView } from './MarkupView.js';
+export type { MarkupViewOptions, MarkupViewEvents, MarkupState } from './MarkupView.js';
+export { MarkupScreen } from './MarkupScreen.js';
+export { MarkupRegistry, markupComponents } from './MarkupRegistry.js';
+export type { MarkupComponentDefinition, MarkupProps } from './MarkupRegistry.js';
+export { h } from './UINode.js';
+export type { UINode, UIMarkupDocument, UINodeAttributes, UINodeHandler } from './UINode.js';
+export { compileExpression, compileTemplate } from './Expression.js';
+export type { CompiledExpression, CompiledTemplate, ExpressionScope } from './Expression.js';
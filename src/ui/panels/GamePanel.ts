@@ -407,10 +407,18 @@ export abstract class GamePanel extends EventEmitter {
     }
   }
 
+  /**
+   * Get title text
+   */
+  public getTitle(): string {
+    return this.config.title;
+  }
+
   /**
    * Set title text
    */
   public setTitle(title: string): void {
+    this.config.title = title;
     if (this.titleText) {
       this.titleText.text = title;
     }
@@ -10,7 +10,8 @@
  *
  * const state = createState({
  *   coins: 0,
- *   health: 100
+ *   health: 100,
+ *   inventory: [] as string[]
  * });
  *
  * // UI automatically updates when state changes
@@ -29,9 +30,32 @@
  *
  * // Reset to initial values
  * state.reset();
+ *
+ * // Nested objects and arrays are reactive too
+ * state.inventory.push('sword');
+ *
+ * // Derived values and side effects track what they read
+ * const canBuy = computed(() => state.coins >= 100);
+ * watch(() => state.health, (hp) => { if (hp <= 0) gameOver(); });
+ *
+ * // Keep progress across reloads
+ * persist(state, saveSystem);
  * ```
  */
 
+import {
+  batch,
+  isBatching,
+  isObservable,
+  ITERATE_KEY,
+  observe,
+  queueJob,
+  RAW,
+  toRaw,
+  track,
+  trigger
+} from './reactivity.js';
+
 /**
  * State change listener callback
  */
@@ -44,13 +68,17 @@ export interface ReactiveState<T extends object> {
   /** Get current state as plain object */
   readonly value: T;
 
-  /** Subscribe to specific key changes */
+  /**
+   * Subscribe to specific key changes. Writes inside a nested object or
+   * array also notify its top-level key (new and old value are the same
+   * object then).
+   */
   on<K extends keyof T>(key: K, listener: StateListener<T[K]>): () => void;
 
   /** Subscribe to any change */
   onChange(listener: (state: T) => void): () => void;
 
-  /** Batch multiple updates (single notification at end) */
+  /** Batch multiple updates (single notification per key at end) */
   batch(updater: (state: T) => void): void;
 
   /** Reset to initial values */
@@ -87,9 +115,11 @@ export interface ReactiveState<T extends object> {
  */
 export function createState<T extends object>(initialState: T): T & ReactiveState<T> {
   const listeners = new Map<keyof T | '*', Set<StateListener<any>>>();
-  const values = { ...initialState };
-  let isBatching = false;
-  let batchedChanges: Array<{ key: keyof T; oldValue: any; newValue: any }> = [];
+  const initial = cloneState(initialState);
+  const values = cloneState(initial);
+  // Nested proxies, each reporting writes to the top-level key it lives under
+  const nestedCache = new WeakMap<object, object>();
+  const pending = new Map<keyof T, { oldValue: any; nested: boolean }>();
 
   // Get listeners for a key
   const getListeners = (key: keyof T | '*'): Set<StateListener<any>> => {
@@ -99,6 +129,12 @@ export function createState<T extends object>(initialState: T): T & ReactiveStat
     return listeners.get(key)!;
   };
 
+  // Current value of a key, reactive if it is an object or array
+  const read = (key: keyof T): any => {
+    const value = values[key];
+    return isObservable(value) ? observe(value, nestedCache, () => queueChange(key, value, true)) : value;
+  };
+
   // Notify listeners of a change
   const notify = (key: keyof T, newValue: any, oldValue: any) => {
     // Notify specific key listeners
@@ -120,29 +156,30 @@ export function createState<T extends object>(initialState: T): T & ReactiveStat
     });
   };
 
-  // Process batched changes
-  const processBatch = () => {
-    const changes = batchedChanges;
-    batchedChanges = [];
-    isBatching = false;
-
-    // Dedupe changes (keep last value for each key)
-    const deduped = new Map<keyof T, { oldValue: any; newValue: any }>();
-    for (const change of changes) {
-      const existing = deduped.get(change.key);
-      if (existing) {
-        existing.newValue = change.newValue;
-      } else {
-        deduped.set(change.key, { oldValue: change.oldValue, newValue: change.newValue });
+  // Deliver batched changes (keeps the first old value for each key)
+  const flushChanges = () => {
+    const changes = [...pending];
+    pending.clear();
+    for (const [key, change] of changes) {
+      if (change.nested || change.oldValue !== values[key]) {
+        notify(key, read(key), change.oldValue);
       }
     }
+  };
 
-    // Notify
-    deduped.forEach((change, key) => {
-      if (change.oldValue !== change.newValue) {
-        notify(key, change.newValue, change.oldValue);
-      }
-    });
+  // Nested writes report the same object as old and new value
+  const queueChange = (key: keyof T, oldValue: any, nested: boolean) => {
+    if (!isBatching()) {
+      notify(key, read(key), oldValue);
+      return;
+    }
+    const existing = pending.get(key);
+    if (existing) {
+      existing.nested = existing.nested || nested;
+    } else {
+      pending.set(key, { oldValue, nested });
+    }
+    queueJob(flushChanges);
   };
 
   // Create proxy to intercept property access/changes
@@ -177,62 +214,78 @@ export function createState<T extends object>(initialState: T): T & ReactiveStat
 
       if (prop === 'batch') {
         return (updater: (state: T) => void) => {
-          isBatching = true;
-          try {
-            updater(proxy as unknown as T);
-          } finally {
-            processBatch();
-          }
+          batch(() => updater(proxy as unknown as T));
         };
       }
 
       if (prop === 'reset') {
         return () => {
-          const oldValues = { ...values };
-          Object.assign(values, initialState);
-
-          // Notify all changed keys
-          for (const key of Object.keys(initialState) as Array<keyof T>) {
-            if (oldValues[key] !== values[key]) {
-              notify(key, values[key], oldValues[key]);
+          batch(() => {
+            for (const key of Object.keys(initial) as Array<keyof T>) {
+              (proxy as T)[key] = cloneState(initial[key]);
             }
-          }
+          });
         };
       }
 
+      if (prop === RAW) {
+        return values;
+      }
+
+      if (typeof prop === 'symbol') {
+        return Reflect.get(values, prop);
+      }
+
       // Return state value
-      return values[prop as keyof T];
+      track(values, prop);
+      return read(prop as keyof T);
     },
 
     set(target, prop: string | symbol, newValue: any) {
       const key = prop as keyof T;
       const oldValue = values[key];
+      const hadKey = Object.prototype.hasOwnProperty.call(values, prop);
+      newValue = toRaw(newValue);
 
       // Skip if unchanged
-      if (oldValue === newValue) {
+      if (oldValue === newValue && hadKey) {
         return true;
       }
 
       // Update value
       values[key] = newValue;
-
-      // Handle batching
-      if (isBatching) {
-        batchedChanges.push({ key, oldValue, newValue });
-      } else {
-        notify(key, newValue, oldValue);
+      trigger(values, prop);
+      if (!hadKey) {
+        trigger(values, ITERATE_KEY);
       }
 
+      queueChange(key, oldValue, false);
+      return true;
+    },
+
+    deleteProperty(target, prop: string | symbol) {
+      if (!Object.prototype.hasOwnProperty.call(values, prop)) {
+        return true;
+      }
+      const oldValue = values[prop as keyof T];
+      delete values[prop as keyof T];
+      trigger(values, prop);
+      trigger(values, ITERATE_KEY);
+      queueChange(prop as keyof T, oldValue, false);
       return true;
     },
 
     // Support 'key in state'
     has(target, prop) {
+      if (typeof prop === 'string') {
+        track(values, prop);
+      }
       return prop in values || ['value', 'on', 'onChange', 'batch', 'reset'].includes(prop as string);
     },
 
     // Support Object.keys(state)
     ownKeys() {
+      track(values, ITERATE_KEY);
       return Reflect.ownKeys(values);
     },
 
@@ -241,6 +294,7 @@ export function createState<T extends object>(initialState: T): T & ReactiveStat
         return {
           enumerable: true,
           configurable: true,
+          writable: true,
           value: values[prop as keyof T]
         };
       }
@@ -252,24 +306,15 @@ export function createState<T extends object>(initialState: T): T & ReactiveStat
 }
 
 /**
- * Creates a computed value that auto-updates when dependencies change.
- *
- * @example
- * ```typescript
- * const state = createState({ base: 10, bonus: 5 });
- * const total = computed(() => state.base + state.bonus);
- *
- * console.log(total.value); // 15
- * state.bonus = 10;
- * console.log(total.value); // 20
- * ```
+ * Copy plain objects and arrays so reset() and the caller's object are
+ * not affected by later writes. Other values are kept by reference.
  */
-export function computed<T>(getter: () => T): { readonly value: T } {
-  return {
-    get value() {
-      return getter();
-    }
-  };
+function cloneState<V>(value: V): V {
+  if (!isObservable(value)) return value;
+  if (Array.isArray(value)) return value.map(cloneState) as unknown as V;
+  const copy: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) copy[key] = cloneState((value as Record<string, unknown>)[key]);
+  return copy as V;
 }
 
 /**
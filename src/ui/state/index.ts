@@ -6,9 +6,22 @@
 
 export {
   createState,
-  computed,
   isReactive,
   resolveValue,
   type StateListener,
   type ReactiveState
 } from './ReactiveState.js';
+
+export {
+  reactive,
+  computed,
+  effect,
+  watch,
+  batch,
+  toRaw,
+  isTracked,
+  type WatchOptions,
+  type FlushMode
+} from './reactivity.js';
+
+export { persist, type PersistOptions, type PersistHandle } from './persist.js';
@@ -0,0 +1,125 @@
+import type { SaveSystem } from '../../save/SaveSystem.js';
+import { batch, isObservable, toRaw, watch } from './reactivity.js';
+
+/**
+ * persist() options
+ */
+export interface PersistOptions<T extends object> {
+  /** State keys to save @default every key present when persist() is called */
+  keys?: Array<keyof T & string>;
+  /**
+   * Wait this long after the last change before writing (ms). 0 writes
+   * at most once per frame.
+   * @default 0
+   */
+  debounce?: number;
+  /** Copy saved values into the state first @default true */
+  restore?: boolean;
+}
+
+/**
+ * Handle returned by persist()
+ */
+export interface PersistHandle {
+  /** Write pending changes now */
+  flush(): void;
+  /** Stop saving (pending changes are written first) */
+  stop(): void;
+}
+
+/**
+ * Keep reactive state in a SaveSystem: saved values are restored into
+ * the state, and later changes (including nested ones) are written back
+ * on the next frame, or after `debounce`. Pending writes are flushed
+ * when the page is hidden.
+ *
+ * @example
+ * ```typescript
+ * const save = new SaveSystem({ key: 'my-game', version: 1, defaults: { coins: 0, unlocked: [1] } });
+ * const state = createState({ coins: 0, unlocked: [1], paused: false });
+ *
+ * persist(state, save, { keys: ['coins', 'unlocked'], debounce: 500 });
+ * state.unlocked.push(2); // saved half a second later
+ * ```
+ */
+export function persist<T extends object>(
+  state: T,
+  save: Pick<SaveSystem<any>, 'load' | 'save'>,
+  options: PersistOptions<T> = {}
+): PersistHandle {
+  const keys = options.keys ?? (Object.keys(state) as Array<keyof T & string>);
+  const debounce = options.debounce ?? 0;
+
+  if (options.restore !== false) {
+    const saved = save.load() as Partial<T>;
+    batch(() => {
+      for (const key of keys) {
+        if (saved[key] !== undefined) state[key] = saved[key] as T[keyof T & string];
+      }
+    });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let frameRequested = false;
+  let dirty = false;
+
+  const flush = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!dirty) return;
+    dirty = false;
+    const data: Record<string, unknown> = {};
+    for (const key of keys) data[key] = snapshot(state[key]);
+    save.save(data);
+  };
+
+  const stopWatching = watch(() => keys.map((key) => state[key]), () => {
+    dirty = true;
+    if (debounce <= 0) {
+      if (frameRequested) return;
+      frameRequested = true;
+      const onFrame = () => {
+        frameRequested = false;
+        flush();
+      };
+      if (typeof requestAnimationFrame === 'function') requestAnimationFrame(onFrame);
+      else setTimeout(onFrame, 16);
+    } else {
+      if (timer !== null) clearTimeout(timer);
+      timer = setTimeout(flush, debounce);
+    }
+  }, { deep: true });
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flush();
+  };
+  const listen = typeof window !== 'undefined' && typeof document !== 'undefined';
+  if (listen) {
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+  }
+
+  return {
+    flush,
+    stop: () => {
+      stopWatching();
+      flush();
+      if (listen) {
+        window.removeEventListener('pagehide', flush);
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+      }
+    }
+  };
+}
+
+/** Plain copy of a (possibly reactive) value for storage */
+function snapshot<V>(value: V): V {
+  const raw = toRaw(value);
+  if (!isObservable(raw)) return raw;
+  if (Array.isArray(raw)) return raw.map(snapshot) as unknown as V;
+  const copy: Record<string, unknown> = {};
+  for (const key of Object.keys(raw)) copy[key] = snapshot((raw as Record<string, unknown>)[key]);
+  return copy as V;
+}
@@ -0,0 +1,384 @@
+/**
+ * Dependency tracking for GameByte reactive state.
+ *
+ * Reads of reactive objects inside an effect, computed or watch getter
+ * are recorded; writes re-run exactly the readers of the changed key.
+ * Plain objects and arrays are made reactive on access, so nested
+ * mutations (`state.player.items.push(...)`) are tracked too.
+ *
+ * @example
+ * ```typescript
+ * const inventory = reactive({ items: [] as string[], gold: 10 });
+ * const count = computed(() => inventory.items.length);
+ *
+ * effect(() => label.text = `${count.value} items, ${inventory.gold} gold`);
+ *
+ * batch(() => {
+ *   inventory.items.push('sword');
+ *   inventory.gold -= 10;
+ * }); // label updates once
+ * ```
+ */
+
+type Job = () => void;
+type Dep = Set<EffectRunner>;
+
+/**
+ * When a watcher or effect re-runs after a change
+ * - 'sync': immediately (or at the end of the enclosing batch)
+ * - 'frame': once on the next animation frame, however many changes happen before it
+ */
+export type FlushMode = 'sync' | 'frame';
+
+/**
+ * watch() options
+ */
+export interface WatchOptions {
+  /** Also fire for nested changes inside the watched value @default true for reactive objects */
+  deep?: boolean;
+  /** Call the callback right away with the current value */
+  immediate?: boolean;
+  /** @default 'sync' */
+  flush?: FlushMode;
+}
+
+/** Key used to track iteration (Object.keys, for...in) */
+export const ITERATE_KEY = Symbol('iterate');
+/** Read through a reactive proxy to get the wrapped object */
+export const RAW = Symbol('raw');
+
+const targetMap = new WeakMap<object, Map<PropertyKey, Dep>>();
+const proxyCache = new WeakMap<object, object>();
+
+let activeRunner: EffectRunner | null = null;
+let batchDepth = 0;
+const pendingJobs = new Set<Job>();
+const frameJobs = new Set<Job>();
+let frameRequested = false;
+
+class EffectRunner {
+  deps: Dep[] = [];
+  active = true;
+
+  constructor(private readonly fn: () => unknown, public scheduler: () => void) {}
+
+  /** Run the getter and record what it reads */
+  run(): unknown {
+    if (!this.active) return this.fn();
+    this.cleanup();
+    const parent = activeRunner;
+    activeRunner = this;
+    try {
+      return this.fn();
+    } finally {
+      activeRunner = parent;
+    }
+  }
+
+  stop(): void {
+    this.cleanup();
+    this.active = false;
+  }
+
+  private cleanup(): void {
+    for (const dep of this.deps) dep.delete(this);
+    this.deps.length = 0;
+  }
+}
+
+/**
+ * Record that the running effect reads `key` of `target`
+ */
+export function track(target: object, key: PropertyKey): void {
+  if (!activeRunner) return;
+  let deps = targetMap.get(target);
+  if (!deps) targetMap.set(target, (deps = new Map()));
+  let dep = deps.get(key);
+  if (!dep) deps.set(key, (dep = new Set()));
+  if (!dep.has(activeRunner)) {
+    dep.add(activeRunner);
+    activeRunner.deps.push(dep);
+  }
+}
+
+/**
+ * Re-run effects that read `key` of `target`
+ */
+export function trigger(target: object, key: PropertyKey): void {
+  const dep = targetMap.get(target)?.get(key);
+  if (!dep) return;
+  for (const runner of [...dep]) {
+    // An effect writing what it reads must not loop
+    if (runner !== activeRunner) runner.scheduler();
+  }
+}
+
+/**
+ * Run `job` now, or once at the end of the enclosing batch
+ */
+export function queueJob(job: Job): void {
+  if (batchDepth > 0) pendingJobs.add(job);
+  else runJob(job);
+}
+
+/** Whether a batch() is in progress */
+export function isBatching(): boolean {
+  return batchDepth > 0;
+}
+
+/**
+ * Apply several changes with one round of notifications. Effects,
+ * watchers and state listeners run once, after `fn` returns.
+ */
+export function batch<R>(fn: () => R): R {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    if (--batchDepth === 0) flushJobs();
+  }
+}
+
+function flushJobs(): void {
+  while (pendingJobs.size > 0) {
+    const job = pendingJobs.values().next().value as Job;
+    pendingJobs.delete(job);
+    runJob(job);
+  }
+}
+
+function runJob(job: Job): void {
+  try {
+    job();
+  } catch (e) {
+    console.error('Error in reactive effect:', e);
+  }
+}
+
+function schedule(job: Job, flush: FlushMode): void {
+  if (flush === 'sync') {
+    queueJob(job);
+    return;
+  }
+  frameJobs.add(job);
+  if (frameRequested) return;
+  frameRequested = true;
+  const request = typeof requestAnimationFrame === 'function'
+    ? requestAnimationFrame
+    : (callback: () => void) => setTimeout(callback, 16);
+  request(() => {
+    frameRequested = false;
+    const jobs = [...frameJobs];
+    frameJobs.clear();
+    batch(() => jobs.forEach(queueJob));
+  });
+}
+
+// ============================================
+// REACTIVE OBJECTS
+// ============================================
+
+/**
+ * Plain objects and arrays become reactive; class instances (display
+ * objects, Maps...) are left alone.
+ */
+export function isObservable(value: unknown): value is object {
+  if (value === null || typeof value !== 'object') return false;
+  if (Array.isArray(value)) return true;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Deeply reactive view of a plain object or array. The same object
+ * always gets the same proxy.
+ */
+export function reactive<T extends object>(target: T): T {
+  return observe(target, proxyCache);
+}
+
+/**
+ * Underlying object of a reactive proxy (or the value itself)
+ */
+export function toRaw<T>(value: T): T {
+  const raw = value !== null && typeof value === 'object' ? (value as any)[RAW] : undefined;
+  return raw ? toRaw(raw) : value;
+}
+
+/** Whether `value` is a reactive proxy (reactive() or createState()) */
+export function isTracked(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && !!(value as any)[RAW];
+}
+
+/**
+ * Create (or reuse from `cache`) a reactive proxy. `onMutate` runs after
+ * every write anywhere below `target`; createState uses it to notify
+ * the owning key's listeners of nested changes.
+ * @internal
+ */
+export function observe<T extends object>(target: T, cache: WeakMap<object, object>, onMutate?: () => void): T {
+  target = toRaw(target);
+  const cached = cache.get(target);
+  if (cached) return cached as T;
+
+  const isArray = Array.isArray(target);
+  const proxy = new Proxy(target, {
+    get(obj, key, receiver) {
+      if (key === RAW) return obj;
+      const value = Reflect.get(obj, key, receiver);
+      if (typeof key === 'symbol') return value;
+      track(obj, key);
+      return isObservable(value) ? observe(value, cache, onMutate) : value;
+    },
+
+    set(obj, key, value) {
+      const hadKey = Object.prototype.hasOwnProperty.call(obj, key);
+      const oldLength = isArray ? (obj as unknown[]).length : 0;
+      const oldValue = (obj as any)[key];
+      const result = Reflect.set(obj, key, toRaw(value));
+      if (!hadKey) {
+        trigger(obj, key);
+        trigger(obj, ITERATE_KEY);
+        if (isArray && (obj as unknown[]).length !== oldLength) trigger(obj, 'length');
+        onMutate?.();
+      } else if (!Object.is(oldValue, toRaw(value))) {
+        trigger(obj, key);
+        if (isArray && key === 'length') {
+          // Truncating removes elements without a write to each index
+          for (let i = (obj as unknown[]).length; i < oldLength; i++) trigger(obj, String(i));
+          trigger(obj, ITERATE_KEY);
+        }
+        onMutate?.();
+      }
+      return result;
+    },
+
+    deleteProperty(obj, key) {
+      const hadKey = Object.prototype.hasOwnProperty.call(obj, key);
+      const result = Reflect.deleteProperty(obj, key);
+      if (hadKey && result) {
+        trigger(obj, key);
+        trigger(obj, ITERATE_KEY);
+        onMutate?.();
+      }
+      return result;
+    },
+
+    has(obj, key) {
+      if (typeof key !== 'symbol') track(obj, key);
+      return Reflect.has(obj, key);
+    },
+
+    ownKeys(obj) {
+      track(obj, isArray ? 'length' : ITERATE_KEY);
+      return Reflect.ownKeys(obj);
+    }
+  });
+
+  cache.set(target, proxy);
+  return proxy;
+}
+
+// ============================================
+// EFFECTS
+// ============================================
+
+/**
+ * Run `fn` now and again whenever state it read changes. Returns a
+ * function that stops it.
+ */
+export function effect(fn: () => void, options: { flush?: FlushMode } = {}): () => void {
+  const flush = options.flush ?? 'sync';
+  const job = () => {
+    if (runner.active) runner.run();
+  };
+  const runner: EffectRunner = new EffectRunner(fn, () => schedule(job, flush));
+  runner.run();
+  return () => runner.stop();
+}
+
+/**
+ * Creates a computed value that auto-updates when dependencies change.
+ * The getter only re-runs when something it read has changed, and only
+ * when the value is next read.
+ *
+ * @example
+ * ```typescript
+ * const state = createState({ base: 10, bonus: 5 });
+ * const total = computed(() => state.base + state.bonus);
+ *
+ * console.log(total.value); // 15
+ * state.bonus = 10;
+ * console.log(total.value); // 20
+ * ```
+ */
+export function computed<T>(getter: () => T): { readonly value: T } {
+  let dirty = true;
+  let cached: T;
+  const ref = {
+    get value(): T {
+      track(ref, 'value');
+      if (dirty) {
+        cached = runner.run() as T;
+        dirty = false;
+      }
+      return cached;
+    }
+  };
+  const runner = new EffectRunner(getter, () => {
+    if (dirty) return;
+    dirty = true;
+    trigger(ref, 'value');
+  });
+  return ref;
+}
+
+/**
+ * Call `callback` when the value of `source` changes. `source` is a
+ * getter, or a reactive object (watched deeply). With `deep`, nested
+ * changes fire too and `oldValue` is the same object as `value`.
+ * Returns a function that stops watching.
+ *
+ * @example
+ * ```typescript
+ * watch(() => state.level, (level, previous) => analytics.levelUp(previous, level));
+ * watch(state, () => hud.refresh(), { flush: 'frame' });
+ * ```
+ */
+export function watch<T>(source: (() => T) | T, callback: (value: T, oldValue: T | undefined) => void, options: WatchOptions = {}): () => void {
+  const isGetter = typeof source === 'function';
+  if (!isGetter && !isTracked(source)) {
+    throw new Error('watch: source must be a getter function or a reactive object');
+  }
+  const deep = options.deep ?? !isGetter;
+  const read = isGetter ? (source as () => T) : () => source as T;
+  const getter = deep ? () => traverse(read()) : read;
+
+  let oldValue: T | undefined;
+  const job = () => {
+    if (!runner.active) return;
+    const value = runner.run() as T;
+    if (deep || !Object.is(value, oldValue)) {
+      const previous = oldValue;
+      oldValue = value;
+      callback(value, previous);
+    }
+  };
+  const runner: EffectRunner = new EffectRunner(getter, () => schedule(job, options.flush ?? 'sync'));
+
+  if (options.immediate) job();
+  else oldValue = runner.run() as T;
+  return () => runner.stop();
+}
+
+/** Read every nested property so a deep watcher tracks all of them */
+function traverse<T>(value: T, seen = new Set<unknown>()): T {
+  if (value === null || typeof value !== 'object' || seen.has(value)) return value;
+  seen.add(value);
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) traverse(value[i], seen);
+  } else if (isObservable(toRaw(value))) {
+    for (const key of Object.keys(value)) traverse((value as Record<string, unknown>)[key], seen);
+  }
+  return value;
+}
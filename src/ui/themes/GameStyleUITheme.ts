@@ -435,6 +435,12 @@ export const GameStyleColors = {
     background: 0x2A3A4A,
     border: 0x000000,
     divider: 0x3A4A5A
+  },
+
+  // Gamepad / keyboard focus ring
+  GAME_FOCUS_RING: {
+    ring: 0xFFD700,
+    glow: 0xFFFFFF
   }
 };
 
@@ -17,14 +17,35 @@ const FRAMEWORK_FONT = {
 let fontLoadPromise: Promise<void> | null = null;
 let fontLoaded = false;
 
+/**
+ * Fonts used in place of the framework font for scripts it does not cover.
+ * Keyed by language (`ja`) or full locale (`zh-TW`); full locales win.
+ */
+export interface LocaleFontConfig {
+  family: string;
+  googleFontsUrl?: string;
+}
+
+/** null marks a locale that uses the framework font */
+const LOCALE_FONTS = new Map<string, LocaleFontConfig | null>([
+  ['ja', { family: 'Noto Sans JP', googleFontsUrl: 'https://fonts.googleapis.com/css2?family=Noto+Sans+JP:wght@400;700&display=swap' }],
+  ['ko', { family: 'Noto Sans KR', googleFontsUrl: 'https://fonts.googleapis.com/css2?family=Noto+Sans+KR:wght@400;700&display=swap' }],
+  ['zh', { family: 'Noto Sans SC', googleFontsUrl: 'https://fonts.googleapis.com/css2?family=Noto+Sans+SC:wght@400;700&display=swap' }],
+  ['zh-TW', { family: 'Noto Sans TC', googleFontsUrl: 'https://fonts.googleapis.com/css2?family=Noto+Sans+TC:wght@400;700&display=swap' }],
+  ['zh-HK', { family: 'Noto Sans TC', googleFontsUrl: 'https://fonts.googleapis.com/css2?family=Noto+Sans+TC:wght@400;700&display=swap' }],
+  ['ar', { family: 'Noto Naskh Arabic', googleFontsUrl: 'https://fonts.googleapis.com/css2?family=Noto+Naskh+Arabic:wght@400;700&display=swap' }],
+]);
+
+let activeLocaleFont: LocaleFontConfig | null = null;
+
 /**
  * Inject Google Fonts stylesheet if not already present
  * Returns a promise that resolves when the stylesheet is loaded
  */
-function injectFontStylesheet(): Promise<void> {
+function injectFontStylesheet(url: string = FRAMEWORK_FONT.googleFontsUrl): Promise<void> {
   return new Promise((resolve) => {
     // Check if already injected
-    const existingLink = document.querySelector(`link[href*="Lilita+One"]`) as HTMLLinkElement;
+    const existingLink = document.querySelector(`link[href="${url}"]`) as HTMLLinkElement;
     if (existingLink) {
       // Already exists, check if loaded
       if (existingLink.sheet) {
@@ -36,22 +57,24 @@ function injectFontStylesheet(): Promise<void> {
       return;
     }
 
-    // Add preconnect for faster loading
-    const preconnect1 = document.createElement('link');
-    preconnect1.rel = 'preconnect';
-    preconnect1.href = 'https://fonts.googleapis.com';
-    document.head.appendChild(preconnect1);
-
-    const preconnect2 = document.createElement('link');
-    preconnect2.rel = 'preconnect';
-    preconnect2.href = 'https://fonts.gstatic.com';
-    preconnect2.crossOrigin = 'anonymous';
-    document.head.appendChild(preconnect2);
+    // Add preconnect for faster loading (once)
+    if (!document.querySelector('link[rel="preconnect"][href="https://fonts.googleapis.com"]')) {
+      const preconnect1 = document.createElement('link');
+      preconnect1.rel = 'preconnect';
+      preconnect1.href = 'https://fonts.googleapis.com';
+      document.head.appendChild(preconnect1);
+
+      const preconnect2 = document.createElement('link');
+      preconnect2.rel = 'preconnect';
+      preconnect2.href = 'https://fonts.gstatic.com';
+      preconnect2.crossOrigin = 'anonymous';
+      document.head.appendChild(preconnect2);
+    }
 
     // Add font stylesheet
     const link = document.createElement('link');
     link.rel = 'stylesheet';
-    link.href = FRAMEWORK_FONT.googleFontsUrl;
+    link.href = url;
 
     link.addEventListener('load', () => resolve());
     link.addEventListener('error', () => resolve()); // Resolve anyway on error
@@ -154,7 +177,38 @@ export async function loadFrameworkFont(): Promise<void> {
  * Includes emoji font fallbacks for cross-platform emoji support
  */
 export function getFrameworkFontFamily(): string {
-  return `"${FRAMEWORK_FONT.family}", "Fredoka", "Arial Black", sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji"`;
+  const base = `"${FRAMEWORK_FONT.family}", "Fredoka", "Arial Black", sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji"`;
+  // Locale font first: the framework font has no CJK/Arabic glyphs
+  return activeLocaleFont ? `"${activeLocaleFont.family}", ${base}` : base;
+}
+
+/**
+ * Register (or override) the font used for a language or locale.
+ * Pass null to make the locale use the framework font.
+ */
+export function registerLocaleFont(locale: string, font: LocaleFontConfig | null): void {
+  LOCALE_FONTS.set(locale, font);
+}
+
+/**
+ * Font registered for a locale (`zh-TW` first, then `zh`), or null.
+ */
+export function getLocaleFont(locale: string): LocaleFontConfig | null {
+  if (LOCALE_FONTS.has(locale)) return LOCALE_FONTS.get(locale) ?? null;
+  return LOCALE_FONTS.get(locale.split('-')[0]) ?? null;
+}
+
+/**
+ * Switch the framework font family to the one registered for `locale`.
+ * getFrameworkFontFamily() reflects the switch immediately; the returned
+ * promise resolves once the stylesheet has loaded (or failed).
+ */
+export function setFontLocale(locale: string): Promise<void> {
+  activeLocaleFont = getLocaleFont(locale);
+  if (!activeLocaleFont?.googleFontsUrl || typeof document === 'undefined') {
+    return Promise.resolve();
+  }
+  return injectFontStylesheet(activeLocaleFont.googleFontsUrl);
 }
 
 /**
@@ -170,4 +224,5 @@ export function isFontReady(): boolean {
 export function resetFontLoader(): void {
   fontLoadPromise = null;
   fontLoaded = false;
+  activeLocaleFont = null;
 }
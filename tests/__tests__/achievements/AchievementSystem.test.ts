@@ -0,0 +1,194 @@
+import { AchievementSystem } from '../../../src/achievements/AchievementSystem';
+import { QuestSystem } from '../../../src/achievements/QuestSystem';
+import { EconomyManager } from '../../../src/economy/EconomyManager';
+import { SaveSystem } from '../../../src/save/SaveSystem';
+
+const makeEconomy = () => new EconomyManager([{ id: 'gems', name: 'Gems', initial: 0 }]);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('AchievementSystem', () => {
+  const defs = [
+    { id: 'first', name: 'First Blood', counter: 'kills', threshold: 1 },
+    { id: 'slayer', name: 'Slayer', counter: 'kills', threshold: 10, rewards: [{ currency: 'gems', amount: 5 }] },
+    { id: 'secret', name: 'Secret', counter: 'secrets', threshold: 1, hidden: true },
+  ];
+
+  it('unlocks achievements when their counter reaches the threshold', () => {
+    const system = new AchievementSystem(defs);
+    const unlocked = jest.fn();
+    system.on('unlocked', unlocked);
+
+    system.increment('kills');
+    expect(system.isUnlocked('first')).toBe(true);
+    expect(system.isUnlocked('slayer')).toBe(false);
+    expect(unlocked).toHaveBeenCalledTimes(1);
+
+    system.increment('kills', 20);
+    expect(system.isUnlocked('slayer')).toBe(true);
+    expect(unlocked).toHaveBeenCalledTimes(2);
+
+    system.increment('kills');
+    expect(unlocked).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports progress toward locked achievements', () => {
+    const system = new AchievementSystem(defs);
+    const progress = jest.fn();
+    system.on('progress', progress);
+
+    system.increment('kills', 4);
+    expect(system.getProgress('slayer')).toEqual({ value: 4, target: 10, ratio: 0.4, unlocked: false });
+    expect(progress).toHaveBeenCalledWith(defs[1], 4, 10);
+  });
+
+  it('grants rewards through the economy', () => {
+    const economy = makeEconomy();
+    const system = new AchievementSystem(defs, { economy });
+    const granted = jest.fn();
+    system.on('reward-granted', granted);
+
+    system.setCounter('kills', 10);
+    expect(economy.getBalance('gems')).toBe(5);
+    expect(granted).toHaveBeenCalledWith({ currency: 'gems', amount: 5 }, 'slayer');
+  });
+
+  it('hides hidden achievements until unlocked', () => {
+    const system = new AchievementSystem(defs);
+    expect(system.getVisible().map((a) => a.id)).toEqual(['first', 'slayer']);
+    system.unlock('secret');
+    expect(system.getVisible().map((a) => a.id)).toContain('secret');
+  });
+
+  it('persists to a SaveSystem field and restores without re-granting', () => {
+    const save = new SaveSystem<{ achievements: any }>({ key: 'ach-test', version: 1, defaults: { achievements: null } });
+    const economy = makeEconomy();
+    const system = new AchievementSystem(defs, { economy, now: () => 1234 });
+    const stop = system.persistTo(save);
+    system.increment('kills', 10);
+    // Stopping writes the pending change
+    stop();
+
+    expect(save.get('achievements').unlocked).toEqual({ first: 1234, slayer: 1234 });
+
+    const restored = new AchievementSystem(defs, { economy });
+    const unlocked = jest.fn();
+    restored.on('unlocked', unlocked);
+    restored.persistTo(save);
+
+    expect(restored.getCounter('kills')).toBe(10);
+    expect(restored.isUnlocked('slayer')).toBe(true);
+    expect(unlocked).not.toHaveBeenCalled();
+    expect(economy.getBalance('gems')).toBe(5);
+  });
+
+  it('writes at most once per frame', () => {
+    jest.useFakeTimers();
+    try {
+      const store = { get: jest.fn(() => null), set: jest.fn() };
+      const system = new AchievementSystem(defs);
+      system.persistTo(store);
+
+      for (let i = 0; i < 50; i++) system.increment('kills');
+      expect(store.set).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(16);
+      expect(store.set).toHaveBeenCalledTimes(1);
+      expect(store.set).toHaveBeenCalledWith('achievements', expect.objectContaining({ counters: { kills: 50 } }));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('QuestSystem', () => {
+  const quest = {
+    id: 'hunter',
+    name: 'Hunter',
+    steps: [
+      { counter: 'kills', target: 3 },
+      { counter: 'runs', target: 2 },
+    ],
+    rewards: [{ currency: 'gems', amount: 10 }],
+  };
+
+  it('advances steps in order', () => {
+    const quests = new QuestSystem([quest]);
+    const stepCompleted = jest.fn();
+    quests.on('step-completed', stepCompleted);
+
+    quests.track('runs', 5);
+    expect(quests.getState('hunter')).toMatchObject({ step: 0, progress: 0 });
+
+    quests.track('kills', 5);
+    expect(stepCompleted).toHaveBeenCalledWith(quest, 0);
+    expect(quests.getState('hunter')).toMatchObject({ step: 1, progress: 0 });
+
+    quests.track('runs', 2);
+    expect(quests.isCompleted('hunter')).toBe(true);
+  });
+
+  it('grants rewards on claim only once', () => {
+    const economy = makeEconomy();
+    const quests = new QuestSystem([quest], { economy });
+
+    expect(quests.claim('hunter')).toBe(false);
+    quests.track('kills', 3);
+    quests.track('runs', 2);
+
+    expect(quests.getClaimable()).toEqual([quest]);
+    expect(quests.claim('hunter')).toBe(true);
+    expect(quests.claim('hunter')).toBe(false);
+    expect(economy.getBalance('gems')).toBe(10);
+  });
+
+  it('auto-claims when configured', () => {
+    const economy = makeEconomy();
+    const quests = new QuestSystem([{ ...quest, autoClaim: true }], { economy });
+    quests.track('kills', 3);
+    quests.track('runs', 2);
+    expect(quests.isClaimed('hunter')).toBe(true);
+    expect(economy.getBalance('gems')).toBe(10);
+  });
+
+  it('resets daily quests when the day rolls over', () => {
+    let now = 10 * DAY + 1000;
+    const quests = new QuestSystem([{ ...quest, reset: 'daily' as const }], { now: () => now });
+    const reset = jest.fn();
+    quests.on('reset', reset);
+
+    quests.track('kills', 2);
+    expect(quests.getTimeUntilReset('hunter')).toBe(DAY - 1000);
+
+    now += DAY - 2000;
+    quests.track('kills');
+    expect(reset).not.toHaveBeenCalled();
+    expect(quests.getState('hunter')).toMatchObject({ step: 1 });
+
+    now += 2000;
+    quests.checkResets();
+    expect(reset).toHaveBeenCalledTimes(1);
+    expect(quests.getState('hunter')).toMatchObject({ step: 0, progress: 0 });
+  });
+
+  it('resets weekly quests on Monday', () => {
+    // 1970-01-05 (day 4) was a Monday
+    let now = 4 * DAY - 1;
+    const quests = new QuestSystem([{ ...quest, reset: 'weekly' as const }], { now: () => now });
+    quests.track('kills');
+    expect(quests.getTimeUntilReset('hunter')).toBe(1);
+
+    now += 1;
+    quests.checkResets();
+    expect(quests.getState('hunter')).toMatchObject({ progress: 0 });
+  });
+
+  it('round-trips through serialize/deserialize', () => {
+    const quests = new QuestSystem([quest]);
+    quests.track('kills', 3);
+    quests.track('runs');
+
+    const restored = new QuestSystem([quest]);
+    restored.deserialize(JSON.parse(JSON.stringify(quests.serialize())));
+    expect(restored.getState('hunter')).toMatchObject({ step: 1, progress: 1 });
+  });
+});
@@ -0,0 +1,184 @@
+import { BehaviorTree, BT } from '../../../src/ai/BehaviorTree';
+import { BehaviorTreeLibrary } from '../../../src/ai/BehaviorTreeLibrary';
+import { Blackboard } from '../../../src/ai/Blackboard';
+import { TickSystem } from '../../../src/tick/TickSystem';
+import type { BTStatus } from '../../../src/ai/BehaviorNode';
+
+const flush = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+describe('Blackboard', () => {
+  it('falls back to the parent and keeps writes local', () => {
+    const world = new Blackboard({ player: 'p1' });
+    const local = new Blackboard({ ammo: 3 }, world);
+    const changed = jest.fn();
+    local.on('changed', changed);
+
+    expect(local.get('player')).toBe('p1');
+    local.set('player', 'p2');
+    expect(world.get('player')).toBe('p1');
+    expect(local.get('missing', 7)).toBe(7);
+    expect(changed).toHaveBeenCalledWith('player', 'p2', undefined);
+  });
+});
+
+describe('BehaviorTree', () => {
+  it('runs sequences and selectors', () => {
+    const log: string[] = [];
+    const tree = new BehaviorTree(
+      BT.selector([
+        BT.sequence([BT.condition(() => false), BT.action(() => { log.push('a'); })]),
+        BT.sequence([BT.condition(() => true), BT.action(() => { log.push('b'); })]),
+      ])
+    );
+    const brain = tree.createInstance({});
+    expect(brain.update(0.016)).toBe('success');
+    expect(log).toEqual(['b']);
+  });
+
+  it('resumes a running child in memory mode', () => {
+    let first = 0;
+    let second = 0;
+    const brain = new BehaviorTree(
+      BT.sequence([
+        BT.action(() => { first++; }),
+        BT.action(() => (++second < 3 ? 'running' : 'success')),
+      ])
+    ).createInstance({});
+
+    expect(brain.update(0.1)).toBe('running');
+    expect(brain.update(0.1)).toBe('running');
+    expect(brain.update(0.1)).toBe('success');
+    expect(first).toBe(1);
+    expect(second).toBe(3);
+  });
+
+  it('interrupts a running branch in reactive mode', () => {
+    const bb = new Blackboard({ threat: false });
+    let aborted = false;
+    const brain = new BehaviorTree(
+      BT.selector([
+        BT.sequence([BT.condition((c) => c.blackboard.get('threat') === true), BT.action(() => 'success')]),
+        BT.action((c) => {
+          c.signal.addEventListener('abort', () => { aborted = true; });
+          return 'running';
+        }),
+      ], { reactive: true })
+    ).createInstance({}, { blackboard: bb });
+
+    expect(brain.update(0.1)).toBe('running');
+    bb.set('threat', true);
+    expect(brain.update(0.1)).toBe('success');
+    expect(aborted).toBe(true);
+  });
+
+  it('waits for async actions and aborts them on timeout', async () => {
+    let resolveMove!: (status: BTStatus) => void;
+    const brain = new BehaviorTree(
+      BT.sequence([BT.action(() => new Promise<BTStatus>((resolve) => { resolveMove = resolve; }))])
+    ).createInstance({});
+
+    expect(brain.update(0.1)).toBe('running');
+    resolveMove('success');
+    await flush();
+    expect(brain.update(0.1)).toBe('success');
+
+    let signal: AbortSignal | null = null;
+    const timed = new BehaviorTree(
+      BT.timeout(1, BT.action((c) => { signal = c.signal; return new Promise(() => undefined); }))
+    ).createInstance({});
+    expect(timed.update(0.5)).toBe('running');
+    expect(timed.update(1)).toBe('failure');
+    expect(signal!.aborted).toBe(true);
+  });
+
+  it('applies cooldown, inverter and repeat decorators', () => {
+    let attacks = 0;
+    const brain = new BehaviorTree(
+      BT.cooldown(1, BT.action(() => { attacks++; }))
+    ).createInstance({});
+
+    expect(brain.update(0.1)).toBe('success');
+    expect(brain.update(0.5)).toBe('failure');
+    expect(brain.update(0.6)).toBe('success');
+    expect(attacks).toBe(2);
+
+    const inverted = new BehaviorTree(BT.inverter(BT.condition(() => true))).createInstance({});
+    expect(inverted.update(0)).toBe('failure');
+
+    let runs = 0;
+    const repeat = new BehaviorTree(BT.repeat(BT.action(() => { runs++; }), 3)).createInstance({});
+    expect(repeat.update(0)).toBe('running');
+    expect(repeat.update(0)).toBe('running');
+    expect(repeat.update(0)).toBe('success');
+    expect(runs).toBe(3);
+  });
+
+  it('resolves parallel by success threshold', () => {
+    let ticks = 0;
+    const brain = new BehaviorTree(
+      BT.parallel([
+        BT.action(() => (++ticks < 2 ? 'running' : 'success')),
+        BT.wait(10),
+      ], 1)
+    ).createInstance({});
+
+    expect(brain.update(0.1)).toBe('running');
+    expect(brain.update(0.1)).toBe('success');
+  });
+
+  it('ticks from a TickSystem', () => {
+    const tick = new TickSystem();
+    const update = jest.fn(() => 'running' as const);
+    const brain = new BehaviorTree(BT.action(update)).createInstance({}).attach(tick);
+
+    tick.tick(16);
+    tick.tick(16);
+    expect(update).toHaveBeenCalledTimes(2);
+
+    brain.detach();
+    tick.tick(16);
+    expect(update).toHaveBeenCalledTimes(2);
+    tick.destroy();
+  });
+});
+
+describe('BehaviorTreeLibrary', () => {
+  it('builds trees from JSON with named leaves and subtrees', () => {
+    const lib = new BehaviorTreeLibrary();
+    const hits: number[] = [];
+    lib.registerCondition<{ hp: number }>('low-hp', ({ entity, args }) => entity.hp < (args.below as number));
+    lib.registerAction<{ hp: number }>('heal', ({ entity }) => { entity.hp += 10; hits.push(entity.hp); });
+    lib.registerAction('idle', () => 'running');
+
+    lib.registerFromJSON([
+      { id: 'heal-if-hurt', root: { type: 'sequence', children: [
+        { type: 'condition', condition: 'low-hp', args: { below: 50 } },
+        { type: 'action', action: 'heal' },
+      ] } },
+      { id: 'grunt', root: { type: 'selector', children: [
+        { type: 'subtree', tree: 'heal-if-hurt' },
+        { type: 'action', action: 'idle' },
+      ] } },
+    ]);
+
+    const entity = { hp: 30 };
+    const brain = lib.createInstance('grunt', entity);
+    expect(brain.update(0.1)).toBe('success');
+    expect(entity.hp).toBe(40);
+    brain.update(0.1);
+    expect(brain.update(0.1)).toBe('running');
+    expect(hits).toEqual([40, 50]);
+  });
+
+  it('reports unknown leaves, types and subtree cycles', () => {
+    const lib = new BehaviorTreeLibrary();
+    lib.register('a', { type: 'action', action: 'missing' });
+    lib.register('b', { type: 'banana' });
+    lib.register('c', { type: 'subtree', tree: 'c' });
+
+    expect(() => lib.get('a')).toThrow("unknown action 'missing'");
+    expect(() => lib.get('b')).toThrow("unknown node type 'banana'");
+    expect(() => lib.get('c')).toThrow('subtree cycle');
+    expect(() => lib.get('zzz')).toThrow("unknown tree 'zzz'");
+  });
+});
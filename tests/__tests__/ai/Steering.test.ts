@@ -0,0 +1,130 @@
+import { SteeringAgent } from '../../../src/ai/steering/SteeringAgent';
+import { Flock } from '../../../src/ai/steering/Flock';
+import { arrive, avoidObstacles, pursue, separation } from '../../../src/ai/steering/SteeringBehaviors';
+import { Random } from '../../../src/random/Random';
+import type { SteeringBody } from '../../../src/ai/steering/SteeringBehaviors';
+
+const body = (x = 0, y = 0, vx = 0, vy = 0): SteeringBody => ({ x, y, vx, vy });
+
+const step = (agent: SteeringAgent, dt: number, frames: number) => {
+  for (let i = 0; i < frames; i++) {
+    agent.update(dt);
+    agent.body.x += agent.body.vx * dt;
+    agent.body.y += agent.body.vy * dt;
+  }
+};
+
+describe('steering behaviors', () => {
+  it('arrive slows down inside the slowing radius', () => {
+    const far = arrive(body(0, 0), { x: 500, y: 0 }, 100, 50);
+    const near = arrive(body(0, 0), { x: 10, y: 0 }, 100, 50);
+    expect(far.x).toBeCloseTo(100);
+    expect(near.x).toBeCloseTo(20);
+  });
+
+  it('pursue aims ahead of a moving quarry', () => {
+    const force = pursue(body(0, 0), body(100, 0, 0, 100), 100);
+    expect(force.y).toBeGreaterThan(0);
+  });
+
+  it('separation pushes away from close neighbors only', () => {
+    const force = separation(body(0, 0), [{ x: 5, y: 0 }, { x: 0, y: 500 }], 20, 100);
+    expect(force.x).toBeCloseTo(-100);
+    expect(force.y).toBeCloseTo(0);
+  });
+
+  it('avoidance steers away from the side the obstacle is on', () => {
+    const force = avoidObstacles(body(0, 0, 100, 0), [{ x: 40, y: 5, radius: 10 }], 80, 100);
+    expect(force.y).toBeLessThan(0);
+    expect(avoidObstacles(body(0, 0, 100, 0), [{ x: -40, y: 0, radius: 10 }], 80, 100)).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('SteeringAgent', () => {
+  it('arrives at a target and stays within maxSpeed', () => {
+    const agent = new SteeringAgent(body(0, 0), { maxSpeed: 100 }).arrive({ x: 200, y: 100 }, 1, 60);
+    let maxSeen = 0;
+    for (let i = 0; i < 600; i++) {
+      step(agent, 1 / 60, 1);
+      maxSeen = Math.max(maxSeen, Math.hypot(agent.body.vx, agent.body.vy));
+    }
+    expect(maxSeen).toBeLessThanOrEqual(100 + 1e-9);
+    expect(Math.hypot(agent.body.x - 200, agent.body.y - 100)).toBeLessThan(3);
+  });
+
+  it('wanders deterministically with a seeded rng', () => {
+    const run = () => {
+      const agent = new SteeringAgent(body(), { maxSpeed: 50, rng: new Random('wander') }).wander();
+      step(agent, 1 / 30, 60);
+      return [agent.body.x, agent.body.y];
+    };
+    expect(run()).toEqual(run());
+  });
+
+  it('adjusts and removes behaviors', () => {
+    const agent = new SteeringAgent(body(), { maxSpeed: 10 }).seek({ x: 10, y: 0 }).flee({ x: -10, y: 0 });
+    agent.setWeight('flee', 0);
+    expect(agent.remove('seek')).toBe(true);
+    expect(agent.getBehaviors().map((b) => b.type)).toEqual(['flee']);
+    expect(agent.update(0.1)).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('Flock', () => {
+  const simulate = (separationWeight: number) => {
+    const flock = new Flock({ cellSize: 20 });
+    const target = { x: 0, y: 0 };
+    const bodies: SteeringBody[] = [];
+    for (let i = 0; i < 500; i++) {
+      const b = body((i % 25) * 8 - 100, Math.floor(i / 25) * 8 - 80);
+      bodies.push(b);
+      flock.add(new SteeringAgent(b, { maxSpeed: 80, neighborRadius: 20 })
+        .arrive(target, 1, 40)
+        .separation(separationWeight, 12));
+    }
+
+    for (let frame = 0; frame < 120; frame++) {
+      flock.update(1 / 60);
+      for (const b of bodies) {
+        b.x += b.vx / 60;
+        b.y += b.vy / 60;
+      }
+    }
+
+    // Mean distance to the nearest neighbor
+    let total = 0;
+    const near: SteeringBody[] = [];
+    for (const b of bodies) {
+      let nearest = 20;
+      for (const n of flock.queryRadius(b.x, b.y, 20, near)) {
+        if (n !== b) nearest = Math.min(nearest, Math.hypot(n.x - b.x, n.y - b.y));
+      }
+      total += nearest;
+    }
+    return { flock, spacing: total / bodies.length };
+  };
+
+  it('passes the nearest neighbors when capping at maxNeighbors', () => {
+    const flock = new Flock({ cellSize: 50, maxNeighbors: 2 });
+    const agent = new SteeringAgent(body(0, 0), { neighborRadius: 40 }).separation(1);
+    flock.add(agent);
+    // Far bodies first so hash order differs from distance order
+    for (const x of [35, 30, 25, 3, 5]) flock.add(new SteeringAgent(body(x, 0), { neighborRadius: 1 }));
+
+    const seen: SteeringBody[][] = [];
+    const update = agent.update.bind(agent);
+    agent.update = (dt, neighbors) => {
+      seen.push([...(neighbors ?? [])]);
+      return update(dt, neighbors);
+    };
+    flock.update(1 / 60);
+    expect(seen[0].map((b) => b.x).sort((a, b) => a - b)).toEqual([3, 5]);
+  });
+
+  it('keeps a 500-agent swarm apart while seeking a shared target', () => {
+    const clumped = simulate(0);
+    const separated = simulate(3);
+    expect(separated.flock.size).toBe(500);
+    expect(separated.spacing).toBeGreaterThan(clumped.spacing * 2);
+  });
+});
@@ -3,6 +3,8 @@
  */
 
 import { GameEntity, GameEntityConfig } from '../../../src/entity/GameEntity';
+import { Grid } from '../../../src/grids/Grid';
+import { FlowField } from '../../../src/grids/FlowField';
 
 // ============================================================
 // Mock GraphicsEngine so tests run without a real Pixi context
@@ -130,6 +132,21 @@ describe('GameEntity', () => {
       expect(entity.x).toBe(130);
       expect(entity.y).toBe(215);
     });
+
+    it('should steer along a flow field', () => {
+      const grid = new Grid<string>({ rows: 5, cols: 1, cellSize: 10 });
+      const field = new FlowField(grid, { goals: [{ row: 0, col: 0 }] });
+      const entity = new GameEntity({ x: 5, y: 45, spatialIndex: null });
+      entity.followFlowField(field, 20);
+
+      entity.update(0.5);
+      expect(entity.y).toBe(35);
+      entity.update(1.5);
+      expect(entity.y).toBe(5);
+      entity.update(1);
+      expect(entity.vy).toBe(0);
+      expect(entity.y).toBe(5);
+    });
   });
 
   describe('damage', () => {
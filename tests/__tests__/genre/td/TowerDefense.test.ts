@@ -1,5 +1,7 @@
 import { PathFollower } from '../../../../src/genre/td/PathFollower';
 import { TowerManager } from '../../../../src/genre/td/TowerManager';
+import { Grid } from '../../../../src/grids/Grid';
+import { FlowField } from '../../../../src/grids/FlowField';
 
 const PATH = [
   { x: 0, y: 0 },
@@ -100,6 +102,22 @@ describe('PathFollower', () => {
     expect(follower.progress).toBe(0);
     expect(follower.isComplete).toBe(false);
   });
+
+  test('followFlowField() steers along the field to a goal', () => {
+    const grid = new Grid<string>({ rows: 1, cols: 5, cellSize: 10 });
+    const field = new FlowField(grid, { goals: [{ row: 0, col: 0 }] });
+    const follower = new PathFollower([{ x: 45, y: 5 }], 10);
+    const completedFn = jest.fn();
+    follower.on('path-complete', completedFn);
+    follower.followFlowField(field);
+
+    follower.update(1);
+    expect(follower.x).toBeCloseTo(35);
+    expect(follower.progress).toBeCloseTo(0.25);
+    follower.update(3);
+    expect(completedFn).toHaveBeenCalledTimes(1);
+    expect(follower.progress).toBe(1);
+  });
 });
 
 describe('TowerManager', () => {
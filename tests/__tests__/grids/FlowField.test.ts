@@ -0,0 +1,123 @@
+import { Grid } from '../../../src/grids/Grid.js';
+import { HexGrid } from '../../../src/grids/HexGrid.js';
+import { FlowField } from '../../../src/grids/FlowField.js';
+
+function distances(field: FlowField, grid: Grid<any>): number[] {
+  const result: number[] = [];
+  grid.forEach((_value, row, col) => result.push(+field.getDistance(row, col).toFixed(6)));
+  return result;
+}
+
+describe('FlowField', () => {
+  // ---- 1. Integration field ----
+  test('integrates cost to the goal with diagonal steps', () => {
+    const grid = new Grid<string>({ rows: 3, cols: 3, cellSize: 10 });
+    const field = new FlowField(grid, { goals: [{ row: 0, col: 0 }] });
+    expect(field.getDistance(0, 0)).toBe(0);
+    expect(field.getDistance(0, 2)).toBe(2);
+    expect(field.getDistance(2, 2)).toBeCloseTo(2 * Math.SQRT2);
+    expect(field.getNextCell(2, 2)).toEqual({ row: 1, col: 1 });
+    expect(field.getNextCell(0, 0)).toBeNull();
+  });
+
+  test('4-way fields move orthogonally only', () => {
+    const grid = new Grid<string>({ rows: 3, cols: 3, cellSize: 10 });
+    const field = new FlowField(grid, { goals: [{ row: 0, col: 0 }], diagonal: false });
+    expect(field.getDistance(2, 2)).toBe(4);
+  });
+
+  // ---- 2. Multiple goals & weighted costs ----
+  test('heads for the nearest of several goals', () => {
+    const grid = new Grid<string>({ rows: 1, cols: 7, cellSize: 10 });
+    const field = new FlowField(grid, { goals: [{ row: 0, col: 0 }, { row: 0, col: 6 }] });
+    expect(field.getNextCell(0, 2)).toEqual({ row: 0, col: 1 });
+    expect(field.getNextCell(0, 4)).toEqual({ row: 0, col: 5 });
+    expect(field.isGoal(0, 6)).toBe(true);
+  });
+
+  test('routes around expensive cells', () => {
+    const grid = new Grid<string>({ rows: 3, cols: 3, cellSize: 10 });
+    grid.setCell(1, 1, 'mud');
+    const field = new FlowField(grid, {
+      goals: [{ row: 1, col: 0 }],
+      diagonal: false,
+      cost: (value) => (value === 'mud' ? 5 : 1),
+    });
+    // Straight through the mud costs 5 + 1, around it 4
+    expect(field.getDistance(1, 2)).toBe(4);
+    expect(field.getNextCell(1, 2)).not.toEqual({ row: 1, col: 1 });
+  });
+
+  // ---- 3. Incremental updates ----
+  test('updates when setCell blocks the route', () => {
+    const grid = new Grid<string>({ rows: 3, cols: 5, cellSize: 10 });
+    const field = new FlowField(grid, { goals: [{ row: 1, col: 0 }] });
+    const updated = jest.fn();
+    field.on('updated', updated);
+
+    grid.setCell(0, 1, 'tower');
+    grid.setCell(1, 1, 'tower');
+    expect(updated).toHaveBeenCalledTimes(2);
+    // Diagonals never cut a blocked corner
+    expect(field.getNextCell(1, 2)).toEqual({ row: 2, col: 2 });
+    expect(field.getNextCell(2, 1)).toEqual({ row: 2, col: 0 });
+
+    grid.setCell(2, 1, 'tower');
+    expect(field.isReachable(1, 4)).toBe(false);
+    grid.clearCell(1, 1);
+    expect(field.getDistance(1, 4)).toBe(4);
+  });
+
+  test('incremental updates match a full rebuild', () => {
+    const grid = new Grid<string>({ rows: 10, cols: 10, cellSize: 10 });
+    const goals = [{ row: 0, col: 0 }, { row: 9, col: 5 }];
+    const field = new FlowField(grid, { goals });
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    for (let i = 0; i < 60; i++) {
+      const row = Math.floor(random() * 10);
+      const col = Math.floor(random() * 10);
+      if (random() < 0.7) grid.setCell(row, col, 'tower');
+      else grid.clearCell(row, col);
+
+      const fresh = new FlowField(grid, { goals, autoUpdate: false });
+      expect(distances(field, grid)).toEqual(distances(fresh, grid));
+    }
+  });
+
+  test('dispose stops following the grid', () => {
+    const grid = new Grid<string>({ rows: 1, cols: 3, cellSize: 10 });
+    const field = new FlowField(grid, { goals: [{ row: 0, col: 0 }] });
+    field.dispose();
+    grid.setCell(0, 1, 'tower');
+    expect(field.isReachable(0, 2)).toBe(true);
+    field.updateCell(0, 1);
+    expect(field.isReachable(0, 2)).toBe(false);
+  });
+
+  // ---- 4. Sampling ----
+  test('samples unit directions at pixel positions', () => {
+    const grid = new Grid<string>({ rows: 3, cols: 3, cellSize: 10 });
+    const field = new FlowField(grid, { goals: [{ row: 0, col: 0 }], diagonal: false });
+    // Cell (0, 2) at x 20-30: next cell center is (15, 5)
+    expect(field.sample(25, 5)).toEqual({ x: -1, y: 0 });
+    expect(field.sample(5, 5)).toEqual({ x: 0, y: 0 });
+    expect(field.sample(-50, 5)).toEqual({ x: 0, y: 0 });
+    const out = { x: 0, y: 0 };
+    expect(field.sample(25, 15, out)).toBe(out);
+    expect(out).toEqual({ x: -1, y: 0 });
+    expect(field.getPath(25, 25)).toHaveLength(5);
+    expect(field.isGoalAt(2, 3)).toBe(true);
+  });
+
+  test('works on hex grids', () => {
+    const grid = new HexGrid<string>({ rows: 5, cols: 5, cellSize: 10 });
+    const field = new FlowField(grid, { goals: [{ row: 2, col: 2 }] });
+    expect(field.getDistance(2, 4)).toBe(grid.hexDistance(2, 2, 2, 4));
+    expect(field.getDistance(0, 0)).toBe(grid.hexDistance(2, 2, 0, 0));
+  });
+});
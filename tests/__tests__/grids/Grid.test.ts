@@ -123,6 +123,17 @@ describe('Grid<T>', () => {
     expect(cell).toEqual({ row: 3, col: 2 });
   });
 
+  test('coordinate conversion writes into a passed object', () => {
+    const grid = new Grid<string>({ rows: 5, cols: 5, cellSize: 40 });
+    const point = { x: 0, y: 0 };
+    const cell = { row: 0, col: 0 };
+    expect(grid.cellToPixel(3, 2, point)).toBe(point);
+    expect(point).toEqual({ x: 100, y: 140 });
+    expect(grid.pixelToCell(point.x, point.y, cell)).toBe(cell);
+    expect(cell).toEqual({ row: 3, col: 2 });
+    expect(grid.pixelToCell(-1, -1, cell)).toBeNull();
+  });
+
   // ---- 8. findCells with predicate ----
   test('findCells finds all matching cells', () => {
     const grid = new Grid<string>({ rows: 3, cols: 3, cellSize: 32 });
@@ -0,0 +1,170 @@
+import { I18n, i18n } from '../../../src/i18n/I18n';
+import { formatMessage } from '../../../src/i18n/MessageFormat';
+import { AssetType } from '../../../src/contracts/AssetManager';
+import { DialogueSystem } from '../../../src/genre/rpg/DialogueSystem';
+import { getFrameworkFontFamily, getLocaleFont, registerLocaleFont, resetFontLoader } from '../../../src/ui/utils/FontLoader';
+import { Logger } from '../../../src/utils/Logger';
+
+describe('formatMessage', () => {
+  it('interpolates parameters and leaves unknown ones visible', () => {
+    expect(formatMessage('Hello {name}!', { name: 'Ada' })).toBe('Hello Ada!');
+    expect(formatMessage('Hello {name}!', {})).toBe('Hello {name}!');
+  });
+
+  it('selects plural branches with # substitution', () => {
+    const msg = '{count, plural, =0 {no coins} one {# coin} other {# coins}}';
+    expect(formatMessage(msg, { count: 0 })).toBe('no coins');
+    expect(formatMessage(msg, { count: 1 })).toBe('1 coin');
+    expect(formatMessage(msg, { count: 1500 })).toBe('1,500 coins');
+  });
+
+  it('uses locale plural rules', () => {
+    const msg = '{n, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}';
+    expect(formatMessage(msg, { n: 2 }, 'pl')).toBe('2 pliki');
+    expect(formatMessage(msg, { n: 5 }, 'pl')).toBe('5 plików');
+  });
+
+  it('supports offset, select and selectordinal', () => {
+    const offset = '{n, plural, offset:1 =0 {nobody} =1 {{who}} other {{who} and # others}}';
+    expect(formatMessage(offset, { n: 3, who: 'Ada' })).toBe('Ada and 2 others');
+    expect(formatMessage('{g, select, female {She} other {They}} won', { g: 'female' })).toBe('She won');
+    const ordinal = '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}';
+    expect(formatMessage(ordinal, { n: 22 })).toBe('22nd');
+  });
+});
+
+describe('I18n', () => {
+  const tables = {
+    en: { menu: { play: 'Play', quit: 'Quit' }, coins: '{count, plural, one {# coin} other {# coins}}' },
+    pt: { menu: { play: 'Jogar' } },
+    'pt-BR': { menu: { quit: 'Sair' } },
+  };
+
+  afterEach(() => {
+    I18n.setInstance(null);
+    resetFontLoader();
+  });
+
+  it('walks the fallback chain', async () => {
+    const translator = new I18n({ tables, detect: false });
+    await translator.setLocale('pt-BR');
+    expect(translator.getChain('pt-BR')).toEqual(['pt-BR', 'pt', 'en']);
+    expect(translator.t('menu.quit')).toBe('Sair');
+    expect(translator.t('menu.play')).toBe('Jogar');
+    expect(translator.t('coins', { count: 2 })).toBe('2 coins');
+  });
+
+  it('returns the key and emits missing-key for unknown keys', () => {
+    const translator = new I18n({ tables, detect: false });
+    const missing = jest.fn();
+    translator.on('missing-key', missing);
+    expect(translator.t('nope')).toBe('nope');
+    expect(missing).toHaveBeenCalledWith('nope', 'en');
+  });
+
+  it('warns once per missing key and locale', async () => {
+    const warn = jest.spyOn(Logger, 'warn').mockImplementation(() => undefined);
+    try {
+      const translator = new I18n({ tables, detect: false });
+      translator.t('nope');
+      translator.t('nope');
+      expect(warn).toHaveBeenCalledTimes(1);
+      await translator.setLocale('pt');
+      translator.t('nope');
+      expect(warn).toHaveBeenCalledTimes(2);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('loads string table sources through the asset manager', async () => {
+    const assets = { load: jest.fn(async (config: any) => ({ data: { menu: { play: 'Oyna' } }, config })) };
+    const translator = new I18n({ tables, sources: { tr: 'i18n/tr.json' }, assets: assets as any, detect: false });
+    const changed = jest.fn();
+    translator.on('locale-changed', changed);
+
+    await translator.setLocale('tr');
+    await translator.setLocale('en');
+    await translator.setLocale('tr');
+
+    expect(assets.load).toHaveBeenCalledTimes(1);
+    expect(assets.load).toHaveBeenCalledWith({ id: 'i18n:tr', type: AssetType.JSON, src: 'i18n/tr.json' });
+    expect(translator.t('menu.play')).toBe('Oyna');
+    expect(changed).toHaveBeenCalledWith('tr', 'en');
+  });
+
+  it('detects the locale from navigator.languages', () => {
+    const spy = jest.spyOn(navigator, 'languages', 'get').mockReturnValue(['pt-PT', 'en-US']);
+    expect(I18n.detectLocale(['en', 'pt'])).toBe('pt');
+    expect(I18n.detectLocale(['fr'])).toBeNull();
+    spy.mockRestore();
+  });
+
+  it('leaves the framework font alone until an instance is installed', () => {
+    const translator = new I18n({ tables: { ...tables, ar: { menu: { play: 'العب' } } }, locale: 'ar', detect: false });
+    expect(getFrameworkFontFamily().startsWith('"Lilita One"')).toBe(true);
+    I18n.setInstance(translator);
+    expect(getFrameworkFontFamily().startsWith('"Noto Naskh Arabic"')).toBe(true);
+  });
+
+  it('swaps the framework font and text direction for Arabic', async () => {
+    const translator = new I18n({ tables: { ...tables, ar: { menu: { play: 'العب' } } }, detect: false });
+    I18n.setInstance(translator);
+    expect(getFrameworkFontFamily().startsWith('"Lilita One"')).toBe(true);
+    await translator.setLocale('ar');
+    expect(translator.direction).toBe('rtl');
+    expect(getFrameworkFontFamily().startsWith('"Noto Naskh Arabic"')).toBe(true);
+  });
+
+  it('lets a locale opt out of its language font', () => {
+    registerLocaleFont('zh-SG', null);
+    try {
+      expect(getLocaleFont('zh-SG')).toBeNull();
+      expect(getLocaleFont('zh-CN')?.family).toBe('Noto Sans SC');
+    } finally {
+      registerLocaleFont('zh-SG', getLocaleFont('zh'));
+    }
+  });
+
+  it('keeps the framework font when a non-shared instance changes locale', async () => {
+    I18n.setInstance(new I18n({ tables, detect: false }));
+    const preview = new I18n({ tables: { ...tables, ar: { menu: { play: 'العب' } } }, detect: false });
+    await preview.setLocale('ar');
+    expect(preview.locale).toBe('ar');
+    expect(getFrameworkFontFamily().startsWith('"Lilita One"')).toBe(true);
+  });
+
+  it('lets the latest setLocale win when calls overlap', async () => {
+    let finish: (value: any) => void = () => undefined;
+    const assets = { load: jest.fn(() => new Promise<any>((resolve) => { finish = resolve; })) };
+    const translator = new I18n({ tables, sources: { ja: 'i18n/ja.json' }, assets: assets as any, detect: false });
+    const changed = jest.fn();
+    translator.on('locale-changed', changed);
+
+    const ja = translator.setLocale('ja');
+    await translator.setLocale('pt');
+    finish({ data: { menu: { play: 'プレイ' } } });
+    await ja;
+
+    expect(translator.locale).toBe('pt');
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(changed).toHaveBeenCalledWith('pt', 'en');
+  });
+
+  it('lets localized dialogue follow language changes', async () => {
+    I18n.setInstance(new I18n({ tables: { en: { hi: 'Hello' }, pt: { hi: 'Olá' } }, detect: false }));
+    const dialogue = new DialogueSystem([{ id: 'a', text: 'Hello', textKey: 'hi' }]);
+    const changed = jest.fn();
+    dialogue.on('text-changed', changed);
+
+    dialogue.start();
+    expect(dialogue.getText()).toBe('Hello');
+
+    await i18n().setLocale('pt');
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(dialogue.getText()).toBe('Olá');
+
+    dialogue.destroy();
+    expect(i18n().listenerCount('locale-changed')).toBe(0);
+  });
+});
@@ -0,0 +1,133 @@
+import { EventEmitter } from 'eventemitter3';
+import { TickSystem } from '../../../src/tick/TickSystem';
+import { Random } from '../../../src/random/Random';
+import { InputRecorder } from '../../../src/input/InputRecorder';
+import { InputReplayPlayer } from '../../../src/input/InputReplayPlayer';
+import { serializeRecording, parseRecording } from '../../../src/input/InputRecording';
+import type { InputContext, ProcessedInputEvent, RawInputEvent } from '../../../src/contracts/Input';
+
+/** Minimal input manager: maps arrow keys to move actions and tracks pressed state. */
+class FakeInput extends EventEmitter {
+  currentContext: InputContext = 'gameplay';
+  pressed = new Set<string>();
+
+  setContext(context: InputContext): void {
+    this.currentContext = context;
+  }
+
+  processInput(raw: RawInputEvent): ProcessedInputEvent {
+    const action = raw.key === 'ArrowRight' ? 'move-right' : raw.key === 'ArrowLeft' ? 'move-left' : undefined;
+    if (action) {
+      if (raw.type === 'keydown') this.pressed.add(action);
+      else this.pressed.delete(action);
+    }
+    const event: ProcessedInputEvent = { rawEvent: raw, action, context: this.currentContext, consumed: false, value: 1 };
+    this.emit('input-processed', event);
+    return event;
+  }
+}
+
+const key = (type: 'keydown' | 'keyup', k: string): RawInputEvent =>
+  ({ type, device: 'keyboard', key: k, timestamp: performance.now() } as RawInputEvent);
+
+/** A tiny deterministic game: moves on input, jitters with the RNG. */
+function createGame(seed: number) {
+  const tick = new TickSystem();
+  const input = new FakeInput();
+  const random = new Random(seed);
+  const player = { x: 0 };
+  tick.subscribe(({ delta }) => {
+    if (input.pressed.has('move-right')) player.x += 100 * delta;
+    if (input.pressed.has('move-left')) player.x -= 100 * delta;
+    player.x += random.range(-1, 1);
+  });
+  return { tick, input, random, player };
+}
+
+describe('InputRecorder / InputReplayPlayer', () => {
+  it('replays a session to the exact same state', () => {
+    const live = createGame(1234);
+    const recorder = new InputRecorder({ tick: live.tick, input: live.input, random: live.random });
+    recorder.start({ level: 1 });
+
+    const script: Array<RawInputEvent | null> = [
+      key('keydown', 'ArrowRight'), null, null, key('keyup', 'ArrowRight'),
+      key('keydown', 'ArrowLeft'), null, key('keyup', 'ArrowLeft'), null,
+    ];
+    const deltas = [16, 17, 16, 33, 16, 16, 20, 16];
+    script.forEach((event, i) => {
+      if (event) live.input.processInput(event);
+      live.tick.tick(deltas[i]);
+    });
+
+    const recording = recorder.stop();
+    expect(recording.deltas).toEqual(deltas);
+    expect(recording.inputs).toHaveLength(4);
+    expect(recording.inputs[0].frame).toBe(0);
+    expect(recording.inputs[0].action).toBe('move-right');
+    expect(recording.meta).toEqual({ level: 1 });
+
+    // Replay into a fresh game whose RNG starts elsewhere
+    const replay = createGame(999);
+    const player = new InputReplayPlayer(parseRecording(serializeRecording(recording)), {
+      tick: replay.tick,
+      input: replay.input,
+      random: replay.random,
+    });
+    const actions: string[] = [];
+    player.on('action', (action) => actions.push(action));
+    player.playAll();
+
+    expect(player.isFinished).toBe(true);
+    expect(replay.player.x).toBeCloseTo(live.player.x, 10);
+    expect(actions).toEqual(['move-right', 'move-right', 'move-left', 'move-left']);
+  });
+
+  it('does not record after stop()', () => {
+    const game = createGame(1);
+    const recorder = new InputRecorder({ tick: game.tick, input: game.input });
+    recorder.start();
+    game.tick.tick(16);
+    const recording = recorder.stop();
+    game.tick.tick(16);
+    game.input.processInput(key('keydown', 'ArrowRight'));
+    expect(recording.deltas).toHaveLength(1);
+    expect(recording.inputs).toHaveLength(0);
+    expect(() => recorder.stop()).toThrow();
+  });
+
+  it('run-length encodes fixed deltas', () => {
+    const text = serializeRecording({ version: 1, deltas: new Array(600).fill(16), inputs: [] });
+    expect(text.length).toBeLessThan(40);
+    expect(parseRecording(text).deltas).toHaveLength(600);
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => parseRecording('{"foo":1}')).toThrow();
+    expect(() => parseRecording('{"v":99,"d":[],"i":[]}')).toThrow(/version/);
+  });
+
+  it('update() paces playback by real time and speed', () => {
+    const game = createGame(5);
+    const player = new InputReplayPlayer(
+      { version: 1, deltas: [16, 16, 16, 16], inputs: [] },
+      { tick: game.tick, speed: 2 }
+    );
+    const frames: number[] = [];
+    player.on('frame', (f) => frames.push(f));
+    const finished = jest.fn();
+    player.on('finished', finished);
+
+    player.start();
+    player.update(8);   // 16ms of replay time
+    expect(frames).toEqual([0]);
+    player.pause();
+    player.update(100);
+    expect(frames).toEqual([0]);
+    player.resume();
+    player.update(100);
+    expect(frames).toEqual([0, 1, 2, 3]);
+    expect(finished).toHaveBeenCalledTimes(1);
+    expect(player.step()).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+import { EventEmitter } from 'eventemitter3';
+import { defineMessage } from '../../../src/net/Schema';
+import { LoopbackListener, LoopbackTransport } from '../../../src/net/LoopbackTransport';
+import { WebSocketTransport, WebSocketLike } from '../../../src/net/WebSocketTransport';
+import { NetServer } from '../../../src/net/NetServer';
+import { NetClient } from '../../../src/net/NetClient';
+import { hostTurnEngine, mirrorTurnEngine } from '../../../src/net/TurnSync';
+import { TurnEngine } from '../../../src/genre/card/TurnEngine';
+
+const Chat = defineMessage('chat', { text: 'string' });
+const MESSAGES = [Chat];
+
+/** Let queued loopback deliveries run */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function createServer(options?: { maxPlayersPerRoom?: number; autoCreateRooms?: boolean }) {
+  const server = new NetServer({ messages: MESSAGES, ...options });
+  const listener = new LoopbackListener();
+  server.listen(listener);
+  return { server, listener };
+}
+
+async function joinClient(listener: LoopbackListener, room: string, name: string) {
+  const client = new NetClient({ messages: MESSAGES, transport: listener.createClient() });
+  await client.connect();
+  const result = await client.join(room, name);
+  return { client, result };
+}
+
+describe('LoopbackTransport', () => {
+  it('delivers copies in order after connecting', async () => {
+    const [a, b] = LoopbackTransport.pair();
+    const received: number[][] = [];
+    b.on('message', (data) => received.push([...data]));
+
+    await a.connect();
+    expect(b.state).toBe('open');
+    const bytes = new Uint8Array([1, 2]);
+    a.send(bytes);
+    bytes[0] = 9;
+    a.send(new Uint8Array([3]));
+    await flush();
+    expect(received).toEqual([[1, 2], [3]]);
+
+    const closed = jest.fn();
+    b.on('close', closed);
+    a.close('bye');
+    await flush();
+    expect(closed).toHaveBeenCalledWith('bye');
+  });
+});
+
+describe('NetServer & NetClient', () => {
+  it('joins rooms and announces peers', async () => {
+    const { server, listener } = createServer();
+    const { client: ada, result } = await joinClient(listener, 'lobby', 'Ada');
+    expect(result).toEqual({ id: 1, room: 'lobby', peers: [] });
+
+    const joined = jest.fn();
+    ada.on('peer-joined', joined);
+    const { client: bob, result: bobResult } = await joinClient(listener, 'lobby', 'Bob');
+    await flush();
+    expect(bobResult.peers).toEqual([{ id: 1, name: 'Ada' }]);
+    expect(joined).toHaveBeenCalledWith({ id: 2, name: 'Bob' });
+    expect(server.getRoom('lobby')!.size).toBe(2);
+
+    const left = jest.fn();
+    ada.on('peer-left', left);
+    bob.disconnect();
+    await flush();
+    expect(left).toHaveBeenCalledWith({ id: 2, name: 'Bob' });
+    expect(ada.getPeers()).toEqual([]);
+  });
+
+  it('routes messages to the server and broadcasts to the room', async () => {
+    const { server, listener } = createServer();
+    server.on('message', (session, type, data) => {
+      if (type === Chat) session.room!.broadcast(Chat, { text: `${session.name}: ${data.text}` }, session);
+    });
+    const { client: ada } = await joinClient(listener, 'lobby', 'Ada');
+    const { client: bob } = await joinClient(listener, 'lobby', 'Bob');
+    const heard: string[] = [];
+    ada.on('message', (type, data) => heard.push(`ada ${data.text}`));
+    bob.on('message', (type, data) => heard.push(`bob ${data.text}`));
+
+    ada.send(Chat, { text: 'hi' });
+    await flush();
+    expect(heard).toEqual(['bob Ada: hi']);
+  });
+
+  it('refuses full and unknown rooms', async () => {
+    const { server, listener } = createServer({ maxPlayersPerRoom: 1, autoCreateRooms: false });
+    server.createRoom('solo');
+    await joinClient(listener, 'solo', 'Ada');
+    await expect(joinClient(listener, 'solo', 'Bob')).rejects.toThrow('room "solo" is full');
+    await expect(joinClient(listener, 'nowhere', 'Bob')).rejects.toThrow('does not exist');
+  });
+
+  it('refuses a name already taken in the room', async () => {
+    const { listener } = createServer();
+    await joinClient(listener, 'table', 'Ada');
+    await expect(joinClient(listener, 'table', 'Ada')).rejects.toThrow('name "Ada" is taken');
+    // Other rooms and unnamed clients are unaffected
+    await joinClient(listener, 'other', 'Ada');
+    await joinClient(listener, 'table', '');
+    await joinClient(listener, 'table', '');
+  });
+
+  it('closes auto-created rooms once empty', async () => {
+    const { server, listener } = createServer();
+    const closed = jest.fn();
+    server.on('room-closed', closed);
+    const { client } = await joinClient(listener, 'arena', 'Ada');
+
+    client.leave();
+    await flush();
+    expect(closed).toHaveBeenCalledTimes(1);
+    expect(server.getRoom('arena')).toBeUndefined();
+  });
+});
+
+describe('WebSocketTransport', () => {
+  class FakeSocket extends EventEmitter implements WebSocketLike {
+    readyState = 0;
+    binaryType = 'blob';
+    sent: Uint8Array[] = [];
+    onopen: ((event: any) => void) | null = null;
+    onmessage: ((event: { data: any }) => void) | null = null;
+    onclose: ((event: { reason?: string }) => void) | null = null;
+    onerror: ((event: any) => void) | null = null;
+    constructor(public url: string) {
+      super();
+    }
+    send(data: Uint8Array): void {
+      this.sent.push(data);
+    }
+    close(): void {
+      this.readyState = 3;
+    }
+  }
+
+  it('wraps a socket with binary frames', async () => {
+    let socket!: FakeSocket;
+    const transport = new WebSocketTransport('ws://game', {
+      WebSocket: class extends FakeSocket {
+        constructor(url: string) {
+          super(url);
+          socket = this;
+        }
+      },
+    });
+    const connected = transport.connect();
+    expect(socket.binaryType).toBe('arraybuffer');
+    socket.readyState = 1;
+    socket.onopen!({});
+    await connected;
+
+    const received = jest.fn();
+    transport.on('message', received);
+    socket.onmessage!({ data: new Uint8Array([7, 8]).buffer });
+    expect(received).toHaveBeenCalledWith(new Uint8Array([7, 8]));
+
+    transport.send(new Uint8Array([1]));
+    expect(socket.sent).toHaveLength(1);
+
+    const closed = jest.fn();
+    transport.on('close', closed);
+    socket.onclose!({ reason: 'going away' });
+    expect(closed).toHaveBeenCalledWith('going away');
+    expect(transport.state).toBe('closed');
+  });
+
+  it('rejects connect when the socket closes first', async () => {
+    const socket = new FakeSocket('ws://game');
+    const transport = WebSocketTransport.fromSocket(socket);
+    const connected = transport.connect();
+    socket.onclose!({ reason: 'refused' });
+    await expect(connected).rejects.toThrow('refused');
+  });
+});
+
+describe('TurnEngine sync', () => {
+  it('mirrors the host engine and only honours the current player', async () => {
+    const { server, listener } = createServer();
+    const { client: ada } = await joinClient(listener, 'table', 'Ada');
+    const { client: bob } = await joinClient(listener, 'table', 'Bob');
+
+    const host = new TurnEngine(['Ada', 'Bob']);
+    hostTurnEngine(server.getRoom('table')!, host);
+    const adaEngine = new TurnEngine(['Ada', 'Bob']);
+    const bobEngine = new TurnEngine(['Ada', 'Bob']);
+    const adaTurns = mirrorTurnEngine(ada, adaEngine);
+    const bobTurns = mirrorTurnEngine(bob, bobEngine);
+    const starts: string[] = [];
+    bobEngine.on('turn-start', (who) => starts.push(who));
+
+    host.start();
+    await flush();
+    expect(bobEngine.currentTurn).toBe('Ada');
+
+    bobTurns.endTurn();
+    await flush();
+    expect(host.currentTurn).toBe('Ada');
+
+    adaTurns.endTurn();
+    await flush();
+    expect(host.currentTurn).toBe('Bob');
+    expect(adaEngine.currentTurn).toBe('Bob');
+    expect(starts).toEqual(['Ada', 'Bob']);
+
+    bobTurns.endTurn();
+    await flush();
+    expect(bobEngine.round).toBe(2);
+  });
+});
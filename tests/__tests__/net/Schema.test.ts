@@ -0,0 +1,45 @@
+import { defineMessage, Protocol } from '../../../src/net/Schema';
+
+const Move = defineMessage('move', { seq: 'u32', dx: 'i8', dy: 'i8', sprint: 'bool' });
+const State = defineMessage('state', {
+  name: 'string',
+  pos: { x: 'f64', y: 'f64' },
+  hand: ['u16'],
+  players: [{ id: 'u16', hp: 'f32' }],
+});
+
+describe('Protocol', () => {
+  it('round-trips primitives, nested fields and arrays', () => {
+    const protocol = new Protocol([Move, State]);
+    const data = {
+      name: 'Zoë 🃏',
+      pos: { x: 1.5, y: -2.25 },
+      hand: [3, 65535],
+      players: [{ id: 1, hp: 0.5 }, { id: 2, hp: 100 }],
+    };
+    const decoded = protocol.decode(protocol.encode(State, data));
+    expect(decoded.type).toBe(State);
+    expect(decoded.data).toEqual(data);
+
+    const move = protocol.decode(protocol.encode(Move, { seq: 70000, dx: -1, dy: 1, sprint: true }));
+    expect(move.type).toBe(Move);
+    expect(move.data).toEqual({ seq: 70000, dx: -1, dy: 1, sprint: true });
+  });
+
+  it('encodes compactly with a one-byte type id', () => {
+    const protocol = new Protocol([State, Move]);
+    const bytes = protocol.encode(Move, { seq: 1, dx: 0, dy: 0, sprint: false });
+    expect(bytes.length).toBe(1 + 4 + 1 + 1 + 1);
+    expect(bytes[0]).toBe(1);
+  });
+
+  it('rejects bad schemas, unknown messages and wrong values', () => {
+    expect(() => defineMessage('bad', { x: 'float' as any })).toThrow('unknown type "float" at bad.x');
+    expect(() => new Protocol([Move, defineMessage('move', {})])).toThrow('duplicate message "move"');
+
+    const protocol = new Protocol([Move]);
+    expect(() => protocol.encode(State, { name: '', pos: { x: 0, y: 0 }, hand: [], players: [] })).toThrow('not registered');
+    expect(() => protocol.encode(Move, { seq: 'one' as any, dx: 0, dy: 0, sprint: false })).toThrow('move.seq must be a number');
+    expect(() => protocol.decode(new Uint8Array([9]))).toThrow('unknown message id 9');
+  });
+});
@@ -0,0 +1,133 @@
+import { TickSystem } from '../../../src/tick/TickSystem';
+import { defineMessage } from '../../../src/net/Schema';
+import { LoopbackListener } from '../../../src/net/LoopbackTransport';
+import { NetServer } from '../../../src/net/NetServer';
+import { NetClient } from '../../../src/net/NetClient';
+import { EntityReplicator, NetBody } from '../../../src/net/EntityReplicator';
+import { EntityInterpolator } from '../../../src/net/EntityInterpolator';
+import { ClientPrediction } from '../../../src/net/ClientPrediction';
+
+const Input = defineMessage('input', { seq: 'u32', dx: 'i8' });
+const MESSAGES = [Input];
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** Shared movement step: one unit per 1/60 s step per unit of input */
+const simulate = (body: NetBody, input: { dx: number }, dt: number) => {
+  body.x += input.dx * 60 * dt;
+};
+
+const body = (x = 0, y = 0): NetBody => ({ x, y, vx: 0, vy: 0 });
+
+async function setup() {
+  const server = new NetServer({ messages: MESSAGES });
+  const listener = new LoopbackListener();
+  server.listen(listener);
+
+  const join = async (name: string) => {
+    const client = new NetClient({ messages: MESSAGES, transport: listener.createClient() });
+    await client.connect();
+    await client.join('world', name);
+    return client;
+  };
+  const ada = await join('Ada');
+  const bob = await join('Bob');
+  const serverTick = new TickSystem();
+  const replicator = new EntityReplicator(server.getRoom('world')!, { tickSystem: serverTick, sendRate: 10 });
+  return { server, ada, bob, serverTick, replicator };
+}
+
+describe('EntityReplicator', () => {
+  it('broadcasts snapshots at the send rate', async () => {
+    const { serverTick, replicator } = await setup();
+    replicator.add(7, body(1, 2));
+    const snapshots: number[] = [];
+    replicator.on('snapshot', (snapshot) => snapshots.push(snapshot.tick));
+
+    for (let frame = 0; frame < 15; frame++) serverTick.tick(1000 / 60);
+    expect(snapshots).toEqual([1, 2]);
+    expect(() => replicator.add(70000, body())).toThrow(RangeError);
+  });
+});
+
+describe('EntityInterpolator', () => {
+  it('spawns, interpolates and despawns remote entities', async () => {
+    const { bob, replicator } = await setup();
+    const crate = body(0, 5);
+    replicator.add(50, crate);
+
+    const despawned = jest.fn();
+    const remote = new EntityInterpolator({ client: bob, delay: 0.1, spawn: (id, state) => body(state.x, state.y), despawn: despawned });
+    replicator.sendSnapshot();
+    crate.x = 10;
+    replicator.sendSnapshot();
+    await flush();
+
+    const local = remote.getBody(50)!;
+    expect(remote.getIds()).toEqual([50]);
+    remote.update(0.05);
+    expect(local.x).toBe(0);
+    remote.update(0.1);
+    expect(local.x).toBeCloseTo(4.95, 4);
+    expect(local.y).toBe(5);
+
+    replicator.remove(50);
+    replicator.sendSnapshot();
+    await flush();
+    expect(despawned).toHaveBeenCalledWith(50, local);
+    expect(remote.getBody(50)).toBeUndefined();
+  });
+});
+
+describe('ClientPrediction', () => {
+  it('moves immediately and replays unacknowledged inputs on reconcile', async () => {
+    const { server, ada, replicator } = await setup();
+    const avatar = body();
+    replicator.add(1, avatar, ada.id);
+    server.on('message', (session, type, data) => {
+      if (type !== Input) return;
+      simulate(avatar, data, 1 / 60);
+      replicator.acknowledge(session.id, data.seq);
+    });
+
+    const prediction = new ClientPrediction<{ dx: number }>({
+      tickSystem: new TickSystem(),
+      readInput: () => ({ dx: 1 }),
+      simulate,
+      sendInput: (seq, input) => ada.send(Input, { seq, ...input }),
+    });
+    const interpolator = new EntityInterpolator({ client: ada, prediction, spawn: (id, state) => body(state.x, state.y) });
+    replicator.sendSnapshot();
+    await flush();
+    const player = interpolator.getBody(1)!;
+    expect(prediction.body).toBe(player);
+
+    prediction.step();
+    prediction.step();
+    prediction.step();
+    expect(player.x).toBeCloseTo(3);
+    await flush();
+    expect(avatar.x).toBeCloseTo(3);
+
+    // Snapshot acks input 3 while inputs 4 and 5 are still in flight
+    const corrections: number[] = [];
+    prediction.on('reconcile', (ack, correction) => corrections.push(ack, correction));
+    replicator.sendSnapshot();
+    prediction.step();
+    prediction.step();
+    await flush();
+    expect(corrections[0]).toBe(3);
+    expect(corrections[1]).toBeCloseTo(0);
+    expect(player.x).toBeCloseTo(5);
+    expect(prediction.pendingCount).toBe(2);
+
+    // A misprediction snaps to the server's answer plus pending inputs
+    prediction.reconcile(4, body(20, 0));
+    expect(player.x).toBeCloseTo(21);
+    expect(prediction.pendingCount).toBe(1);
+
+    // Remote interpolation leaves the predicted entity alone
+    interpolator.update(1);
+    expect(player.x).toBeCloseTo(21);
+  });
+});
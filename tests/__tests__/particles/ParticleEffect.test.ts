@@ -0,0 +1,325 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { ParticleEmitter } from '../../../src/particles/ParticleEmitter';
+import { ParticlePreview } from '../../../src/particles/ParticlePreview';
+import { parseParticleEffect } from '../../../src/particles/ParticleEffect';
+
+// ---------------------------------------------------------------------------
+// Mock graphics() and GraphicsEngine
+// ---------------------------------------------------------------------------
+
+function makeDisplay(extra: Record<string, unknown> = {}) {
+  const self: any = {
+    x: 0,
+    y: 0,
+    alpha: 1,
+    rotation: 0,
+    scale: { x: 1, y: 1 },
+    visible: false,
+    destroy: jest.fn(),
+    on: jest.fn(),
+    off: jest.fn(),
+    emit: jest.fn(),
+    ...extra,
+  };
+  for (const method of ['clear', 'rect', 'circle', 'poly', 'fill']) {
+    self[method] = jest.fn(() => self);
+  }
+  return self;
+}
+
+function makeContainer() {
+  const children: any[] = [];
+  return makeDisplay({
+    visible: true,
+    children,
+    addChild: jest.fn((child: any) => { children.push(child); return child; }),
+    removeChild: jest.fn((child: any) => {
+      const idx = children.indexOf(child);
+      if (idx !== -1) children.splice(idx, 1);
+      return child;
+    }),
+  });
+}
+
+jest.mock('../../../src/graphics/GraphicsEngine', () => ({
+  graphics: jest.fn(),
+  GraphicsEngine: { getFactory: jest.fn(), isInitialized: jest.fn().mockReturnValue(true) },
+}));
+
+import { graphics } from '../../../src/graphics/GraphicsEngine';
+const mockGraphics = graphics as jest.MockedFunction<typeof graphics>;
+
+let factory: any;
+
+beforeEach(() => {
+  factory = {
+    createContainer: jest.fn(() => makeContainer()),
+    createGraphics: jest.fn(() => makeDisplay()),
+    createSprite: jest.fn((texture: unknown) => makeDisplay({
+      texture,
+      tint: 0xffffff,
+      anchor: { x: 0, y: 0, set: jest.fn() },
+    })),
+    createTexture: jest.fn((id: string) => ({ id, width: 8, height: 8, destroy: jest.fn() })),
+  };
+  mockGraphics.mockReturnValue(factory);
+});
+
+/** Deterministic RNG cycling through `values` */
+function sequence(...values: number[]) {
+  let i = 0;
+  return { next: () => values[i++ % values.length] };
+}
+
+function visibleParticles(emitter: ParticleEmitter): any[] {
+  return (emitter.getContainer() as any).children.filter((c: any) => c.visible && !c.children);
+}
+
+// ---------------------------------------------------------------------------
+// parseParticleEffect
+// ---------------------------------------------------------------------------
+
+describe('parseParticleEffect', () => {
+  it('normalizes hex color strings, including nested sub-emitters', () => {
+    const config = parseParticleEffect({
+      color: { keys: [{ time: 0, value: '#ff0000' }, { time: 1, value: '00ff00' }] },
+      subEmitters: [{ trigger: 'death', config: { color: { start: '#0000ff', end: 0 } } }],
+    });
+    expect(config.color).toEqual({ keys: [{ time: 0, value: 0xff0000 }, { time: 1, value: 0x00ff00 }] });
+    expect(config.subEmitters![0].config.color).toEqual({ start: 0x0000ff, end: 0 });
+  });
+
+  it('reports the path of invalid fields', () => {
+    expect(() => parseParticleEffect({ speed: { min: 1 } })).toThrow('effect.speed.max');
+    expect(() => parseParticleEffect({ emission: { type: 'star' } })).toThrow('effect.emission.type');
+    expect(() => parseParticleEffect({ bursts: [{ time: 0 }] })).toThrow('effect.bursts[0].count');
+    expect(() => parseParticleEffect({ bursts: [{ time: 0, count: 1, cycles: -1, interval: 0 }] })).toThrow('effect.bursts[0].interval');
+    expect(parseParticleEffect({ bursts: [{ time: 0, count: 1, interval: 0 }] }).bursts).toHaveLength(1);
+  });
+
+  it('round-trips through JSON', () => {
+    const effect = {
+      rate: 0,
+      emission: { type: 'ring', innerRadius: 10, outerRadius: 20 },
+      alpha: { keys: [{ time: 0, value: 0 }, { time: 0.2, value: 1 }, { time: 1, value: 0 }] },
+      bursts: [{ time: 0, count: 10, cycles: 3, interval: 0.5 }],
+    };
+    expect(parseParticleEffect(JSON.parse(JSON.stringify(effect)))).toEqual(effect);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Emitter features
+// ---------------------------------------------------------------------------
+
+describe('ParticleEmitter effects', () => {
+  it('samples multi-stop alpha and scale curves over the lifetime', () => {
+    const emitter = new ParticleEmitter({
+      maxParticles: 1,
+      lifetime: { min: 1, max: 1 },
+      speed: { min: 0, max: 0 },
+      alpha: { keys: [{ time: 0, value: 0 }, { time: 0.25, value: 1 }, { time: 1, value: 0 }] },
+      scale: { keys: [{ time: 0, value: 1 }, { time: 0.5, value: 3 }] },
+    });
+    emitter.burst(0, 0, 1);
+    const [p] = visibleParticles(emitter);
+    expect(p.alpha).toBe(0);
+
+    emitter.update(0.25);
+    expect(p.alpha).toBeCloseTo(1);
+    expect(p.scale.x).toBeCloseTo(2);
+
+    emitter.update(0.5);
+    expect(p.alpha).toBeCloseTo(1 / 3);
+    expect(p.scale.x).toBeCloseTo(3);
+  });
+
+  it('emits from ring and rect-edge shapes', () => {
+    const ring = new ParticleEmitter({
+      maxParticles: 20,
+      speed: { min: 0, max: 0 },
+      emission: { type: 'ring', innerRadius: 10, outerRadius: 20 },
+    });
+    ring.burst(100, 100, 20);
+    for (const p of visibleParticles(ring)) {
+      const d = Math.hypot(p.x - 100, p.y - 100);
+      expect(d).toBeGreaterThanOrEqual(10 - 1e-6);
+      expect(d).toBeLessThanOrEqual(20 + 1e-6);
+    }
+
+    const rect = new ParticleEmitter({
+      maxParticles: 20,
+      speed: { min: 0, max: 0 },
+      emission: { type: 'rect', width: 40, height: 20, edge: true },
+    });
+    rect.burst(0, 0, 20);
+    for (const p of visibleParticles(rect)) {
+      const onEdge = Math.abs(Math.abs(p.x) - 20) < 1e-4 || Math.abs(Math.abs(p.y) - 10) < 1e-4;
+      expect(onEdge).toBe(true);
+    }
+  });
+
+  it('fires outward from the emission shape', () => {
+    // Angle 0 on the circle edge -> spawns at (10, 0) and moves +x
+    const emitter = new ParticleEmitter({
+      maxParticles: 1,
+      speed: { min: 100, max: 100 },
+      lifetime: { min: 5, max: 5 },
+      emission: { type: 'circle', radius: 10, edge: true },
+      direction: 'outward',
+    }, sequence(0));
+    emitter.burst(0, 0, 1);
+    const [p] = visibleParticles(emitter);
+    expect(p.x).toBeCloseTo(10);
+    emitter.update(0.1);
+    expect(p.x).toBeCloseTo(20);
+    expect(p.y).toBeCloseTo(0);
+  });
+
+  it('applies initial rotation and angular velocity', () => {
+    const emitter = new ParticleEmitter({
+      maxParticles: 1,
+      speed: { min: 0, max: 0 },
+      lifetime: { min: 5, max: 5 },
+      rotation: { min: 1, max: 1 },
+      angularVelocity: { min: 2, max: 2 },
+    });
+    emitter.burst(0, 0, 1);
+    emitter.update(0.5);
+    expect(visibleParticles(emitter)[0].rotation).toBeCloseTo(2);
+  });
+
+  it('uses tinted sprites with frame animation for texture particles', () => {
+    const emitter = new ParticleEmitter({
+      maxParticles: 2,
+      lifetime: { min: 1, max: 1 },
+      speed: { min: 0, max: 0 },
+      texture: ['flame_0', 'flame_1', 'flame_2', 'flame_3'],
+      animation: { mode: 'life' },
+      color: { keys: [{ time: 0, value: 0xff0000 }, { time: 1, value: 0x0000ff }] },
+    });
+    expect(factory.createSprite).toHaveBeenCalledTimes(2);
+    expect(factory.createGraphics).not.toHaveBeenCalled();
+
+    emitter.burst(0, 0, 1);
+    const [p] = visibleParticles(emitter);
+    expect(p.texture.id).toBe('flame_0');
+    expect(p.tint).toBe(0xff0000);
+
+    emitter.update(0.6);
+    expect(p.texture.id).toBe('flame_2');
+    expect(p.tint).toBe(0x660099);
+  });
+
+  it('fires scheduled bursts and completes after the duration', () => {
+    const emitter = new ParticleEmitter({
+      maxParticles: 50,
+      rate: 0,
+      lifetime: { min: 0.2, max: 0.2 },
+      bursts: [{ time: 0, count: 5 }, { time: 0.5, count: 3, cycles: 2, interval: 0.25 }],
+      duration: 1,
+    });
+    const complete = jest.fn();
+    emitter.on('complete', complete);
+    emitter.start(0, 0);
+    const step = (seconds: number) => {
+      for (let t = 0; t < seconds - 1e-9; t += 0.05) emitter.update(0.05);
+    };
+
+    emitter.update(0.01);
+    expect(emitter.activeCount).toBe(5);
+    step(0.55); // first burst expired, second fired at 0.5
+    expect(emitter.activeCount).toBe(3);
+    step(0.25); // second cycle at 0.75
+    expect(emitter.activeCount).toBe(3);
+
+    step(0.3);
+    expect(emitter.isEmitting).toBe(false);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not hang on repeating bursts with a zero interval', () => {
+    const emitter = new ParticleEmitter({
+      maxParticles: 50,
+      rate: 0,
+      lifetime: { min: 1, max: 1 },
+      bursts: [{ time: 0, count: 2, cycles: -1, interval: 0 }, { time: 0, count: 1, cycles: -1, interval: 0.001 }],
+    });
+    emitter.start(0, 0);
+    emitter.update(0.01);
+    emitter.update(10);
+    expect(emitter.activeCount).toBeLessThanOrEqual(50);
+  });
+
+  it('spawns sub-emitter bursts where particles die', () => {
+    const emitter = new ParticleEmitter({
+      maxParticles: 2,
+      lifetime: { min: 0.1, max: 0.1 },
+      speed: { min: 0, max: 0 },
+      subEmitters: [{ trigger: 'death', count: 4, config: { maxParticles: 10, lifetime: { min: 1, max: 1 } } }],
+    });
+    const complete = jest.fn();
+    emitter.on('complete', complete);
+    emitter.burst(30, 40, 2);
+
+    emitter.update(0.2);
+    expect(emitter.activeCount).toBe(0);
+    const sub = (emitter.getContainer() as any).children.find((c: any) => c.children);
+    const sparks = sub.children.filter((c: any) => c.visible);
+    expect(sparks).toHaveLength(8);
+    // The parent waits for its sub-emitters before completing
+    expect(complete).not.toHaveBeenCalled();
+    emitter.update(1.1);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('pulls particles toward attractors within their radius', () => {
+    const emitter = new ParticleEmitter({
+      maxParticles: 1,
+      speed: { min: 0, max: 0 },
+      lifetime: { min: 5, max: 5 },
+      attractors: [{ x: 100, y: 0, strength: 1000, radius: 200 }],
+    });
+    emitter.burst(0, 0, 1);
+    emitter.update(0.1);
+    const [p] = visibleParticles(emitter);
+    expect(p.x).toBeGreaterThan(0);
+
+    // Out of range: no more acceleration, the particle coasts at its velocity
+    emitter.getAttractors()[0].x = 1000;
+    const x = p.x;
+    emitter.update(0.1);
+    emitter.update(0.1);
+    expect(p.x - x).toBeCloseTo(2 * x, 5);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ParticlePreview
+// ---------------------------------------------------------------------------
+
+describe('ParticlePreview', () => {
+  it('replays finished effects and hot-swaps configs', () => {
+    const preview = new ParticlePreview(
+      { rate: 0, lifetime: { min: 0.1, max: 0.1 }, bursts: [{ time: 0, count: 3 }], duration: 0.05 },
+      { loopDelay: 0.2 }
+    );
+    preview.update(0.01);
+    expect(preview.emitter!.activeCount).toBe(3);
+
+    preview.update(0.15); // burst dies, complete -> wait 0.2s
+    expect(preview.emitter!.activeCount).toBe(0);
+    preview.update(0.25);
+    preview.update(0.01);
+    expect(preview.emitter!.activeCount).toBe(3);
+
+    const first = preview.emitter;
+    preview.setConfig({ rate: 0, maxParticles: 4 });
+    expect(preview.emitter).not.toBe(first);
+    expect(preview.emitter!.activeCount).toBe(2);
+    expect(() => preview.setConfig({ rate: 'fast' })).toThrow('effect.rate');
+  });
+});
@@ -0,0 +1,135 @@
+import { Random } from '../../../src/random/Random';
+import { DeckManager } from '../../../src/genre/card/DeckManager';
+import { UpgradeSystem } from '../../../src/genre/survivors/UpgradeSystem';
+import { ObstaclePattern } from '../../../src/genre/platformer/ObstaclePattern';
+import { BoardGravity } from '../../../src/genre/puzzle/BoardGravity';
+
+const take = (rng: Random, n: number) => Array.from({ length: n }, () => rng.next());
+
+describe('Random', () => {
+  it('produces the same sequence for the same seed', () => {
+    expect(take(new Random(42), 10)).toEqual(take(new Random(42), 10));
+    expect(take(new Random('daily-2026-10-18'), 10)).toEqual(take(new Random('daily-2026-10-18'), 10));
+  });
+
+  it('produces different sequences for different seeds', () => {
+    expect(take(new Random(1), 5)).not.toEqual(take(new Random(2), 5));
+  });
+
+  it('next() stays in [0, 1)', () => {
+    const rng = new Random(7);
+    for (let i = 0; i < 1000; i++) {
+      const v = rng.next();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
+  it('int() is inclusive on both ends', () => {
+    const rng = new Random(3);
+    const seen = new Set<number>();
+    for (let i = 0; i < 500; i++) seen.add(rng.int(1, 6));
+    expect([...seen].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('float() and range() respect bounds', () => {
+    const rng = new Random(5);
+    for (let i = 0; i < 200; i++) {
+      const f = rng.range(-2, 3);
+      expect(f).toBeGreaterThanOrEqual(-2);
+      expect(f).toBeLessThan(3);
+    }
+  });
+
+  it('pick() throws on an empty array', () => {
+    expect(() => new Random(1).pick([])).toThrow();
+  });
+
+  it('weightedPick() never picks zero-weight items', () => {
+    const rng = new Random(9);
+    const items = [{ id: 'a', w: 0 }, { id: 'b', w: 1 }, { id: 'c', w: 3 }];
+    const counts: Record<string, number> = { a: 0, b: 0, c: 0 };
+    for (let i = 0; i < 2000; i++) counts[rng.weightedPick(items, (x) => x.w).id]++;
+    expect(counts.a).toBe(0);
+    expect(counts.c).toBeGreaterThan(counts.b * 2);
+  });
+
+  it('shuffle() is a deterministic permutation', () => {
+    const a = new Random(11).shuffle([1, 2, 3, 4, 5, 6, 7, 8]);
+    const b = new Random(11).shuffle([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(a).toEqual(b);
+    expect([...a].sort()).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it('gaussian() centers on the mean', () => {
+    const rng = new Random(13);
+    let sum = 0;
+    for (let i = 0; i < 5000; i++) sum += rng.gaussian(10, 2);
+    expect(sum / 5000).toBeCloseTo(10, 0);
+  });
+
+  it('labeled forks do not depend on parent consumption', () => {
+    const a = new Random(100);
+    const b = new Random(100);
+    take(b, 50);
+    expect(take(a.fork('loot'), 5)).toEqual(take(b.fork('loot'), 5));
+    expect(take(a.fork('loot'), 5)).not.toEqual(take(a.fork('fx'), 5));
+  });
+
+  it('getState()/setState() resume the exact stream', () => {
+    const rng = new Random('replay');
+    take(rng, 7);
+    const state = JSON.parse(JSON.stringify(rng.getState()));
+    const expected = take(rng, 5);
+
+    const restored = new Random(0);
+    restored.setState(state);
+    expect(take(restored, 5)).toEqual(expected);
+    expect(restored.seed).toBe('replay');
+  });
+
+  it('reseed() restarts the stream', () => {
+    const rng = new Random(1);
+    const first = take(rng, 3);
+    rng.reseed(1);
+    expect(take(rng, 3)).toEqual(first);
+  });
+});
+
+describe('injected RandomSource', () => {
+  it('makes DeckManager.shuffle reproducible', () => {
+    const cards = Array.from({ length: 10 }, (_, i) => ({ id: `c${i}`, name: `Card ${i}` }));
+    const order = (seed: number) => {
+      const deck = new DeckManager({ rng: new Random(seed) });
+      deck.addToDeck(cards);
+      deck.shuffle();
+      return deck.draw(5).map((c) => c.id);
+    };
+    expect(order(4)).toEqual(order(4));
+  });
+
+  it('makes UpgradeSystem.getChoices reproducible', () => {
+    const defs = ['a', 'b', 'c', 'd', 'e'].map((id) => ({
+      id, name: id, description: '', maxLevel: 3, effect: {},
+    }));
+    const choices = (seed: number) => new UpgradeSystem(defs, new Random(seed)).getChoices(3).map((u) => u.id);
+    expect(choices(8)).toEqual(choices(8));
+  });
+
+  it('makes ObstaclePattern.generate reproducible', () => {
+    const patterns = ['p1', 'p2', 'p3'].map((id) => ({ id, width: 100, obstacles: [{ type: 'spike', x: 0, y: 0 }] }));
+    const run = (seed: number) => new ObstaclePattern(patterns, new Random(seed)).generate(6).map((o) => o.patternId);
+    expect(run(21)).toEqual(run(21));
+  });
+
+  it('BoardGravity.fill fills spawn cells from the piece set', () => {
+    const grid = [[null, null], [1, null]];
+    const { spawns } = BoardGravity.apply(grid, 2, 2);
+    const { filled } = BoardGravity.fill(grid, spawns, ['r', 'g', 'b'], new Random(2));
+    expect(filled).toHaveLength(spawns.length);
+    for (const { row, col, value } of filled) {
+      expect(grid[row][col]).toBe(value);
+      expect(['r', 'g', 'b']).toContain(value);
+    }
+  });
+});
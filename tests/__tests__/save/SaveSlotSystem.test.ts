@@ -0,0 +1,246 @@
+import { SaveSlotSystem } from '../../../src/save/SaveSlotSystem';
+import { MemoryStorageAdapter, LocalStorageAdapter } from '../../../src/save/SaveStorageAdapter';
+
+interface TestSave {
+  score: number;
+  level: number;
+}
+
+const makeSystem = (
+  adapter: MemoryStorageAdapter = new MemoryStorageAdapter(),
+  overrides: Partial<ConstructorParameters<typeof SaveSlotSystem>[0]> = {}
+) =>
+  new SaveSlotSystem<TestSave>({
+    key: 'test',
+    version: 1,
+    defaults: { score: 0, level: 1 },
+    adapter,
+    autosaveDelay: 100,
+    ...overrides,
+  });
+
+describe('SaveSlotSystem', () => {
+  describe('load / save', () => {
+    it('returns defaults for an empty slot', async () => {
+      const sys = makeSystem();
+      expect(await sys.load('a')).toEqual({ score: 0, level: 1 });
+      expect(sys.activeSlot).toBe('a');
+    });
+
+    it('persists data per slot', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const sys = makeSystem(adapter);
+      await sys.load('a');
+      await sys.save({ score: 10 });
+      await sys.load('b');
+      await sys.save({ score: 20 });
+
+      const other = makeSystem(adapter);
+      expect((await other.load('a')).score).toBe(10);
+      expect((await other.load('b')).score).toBe(20);
+    });
+
+    it('throws when saving without an active slot', async () => {
+      const sys = makeSystem();
+      await expect(sys.save({ score: 1 })).rejects.toThrow(/no active slot/);
+    });
+
+    it('emits saved and loaded with the slot id', async () => {
+      const sys = makeSystem();
+      const events: string[] = [];
+      sys.on('loaded', (_d, slot) => events.push(`loaded:${slot}`));
+      sys.on('saved', (_d, slot) => events.push(`saved:${slot}`));
+      await sys.load('x');
+      await sys.save({ score: 5 });
+      expect(events).toEqual(['loaded:x', 'saved:x']);
+    });
+
+    it('falls back to defaults and emits error on invalid JSON', async () => {
+      const adapter = new MemoryStorageAdapter();
+      await adapter.setItem('test:slot:bad', '{ nope');
+      const sys = makeSystem(adapter);
+      const errors: Error[] = [];
+      sys.on('error', (e) => errors.push(e));
+      expect(await sys.load('bad')).toEqual({ score: 0, level: 1 });
+      expect(errors).toHaveLength(1);
+    });
+  });
+
+  describe('migrations', () => {
+    it('runs the migration chain on load', async () => {
+      const adapter = new MemoryStorageAdapter();
+      await adapter.setItem('test:slot:old', JSON.stringify({ version: 1, data: { score: 3, stage: 4 } }));
+
+      const sys = new SaveSlotSystem<any>({
+        key: 'test',
+        version: 2,
+        defaults: { score: 0, level: 1 },
+        adapter,
+        migrations: { 1: (old: any) => ({ score: old.score, level: old.stage }) },
+      });
+      const migrated: Array<[number, number]> = [];
+      sys.on('migrated', (from, to) => migrated.push([from, to]));
+
+      const data = await sys.load('old');
+      expect(data).toEqual({ score: 3, level: 4 });
+      expect(migrated).toEqual([[1, 2]]);
+    });
+  });
+
+  describe('metadata and slot management', () => {
+    it('stores metadata alongside each slot', async () => {
+      const sys = makeSystem();
+      await sys.load('a');
+      sys.addPlaytime(1500);
+      await sys.save({}, { thumbnail: 'data:image/png;base64,AAA', label: 'Hero' });
+
+      const [meta] = await sys.listSlots();
+      expect(meta.id).toBe('a');
+      expect(meta.playtime).toBe(1500);
+      expect(meta.thumbnail).toBe('data:image/png;base64,AAA');
+      expect(meta.label).toBe('Hero');
+      expect(meta.version).toBe(1);
+      expect(meta.timestamp).toBeGreaterThan(0);
+    });
+
+    it('lists slots most recent first', async () => {
+      const sys = makeSystem();
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValue(1000);
+      await sys.load('first');
+      await sys.save();
+      now.mockReturnValue(2000);
+      await sys.load('second');
+      await sys.save();
+      now.mockRestore();
+
+      expect((await sys.listSlots()).map((s) => s.id)).toEqual(['second', 'first']);
+    });
+
+    it('copies a slot including metadata', async () => {
+      const sys = makeSystem();
+      await sys.load('a');
+      await sys.save({ score: 42 }, { label: 'Main' });
+      await sys.copySlot('a', 'b');
+
+      expect(await sys.hasSlot('b')).toBe(true);
+      expect((await sys.load('b')).score).toBe(42);
+      expect(sys.metadata?.label).toBe('Main');
+      expect(sys.metadata?.id).toBe('b');
+    });
+
+    it('rejects copying a missing slot', async () => {
+      const sys = makeSystem();
+      await expect(sys.copySlot('missing', 'b')).rejects.toThrow(/does not exist/);
+    });
+
+    it('deletes a slot and resets active data', async () => {
+      const sys = makeSystem();
+      await sys.load('a');
+      await sys.save({ score: 9 });
+      await sys.deleteSlot('a');
+
+      expect(await sys.hasSlot('a')).toBe(false);
+      expect(await sys.listSlots()).toEqual([]);
+      expect(sys.get('score')).toBe(0);
+    });
+  });
+
+  describe('autosave', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('debounces set() into a single write', async () => {
+      const sys = makeSystem();
+      await sys.load('a');
+      const saved = jest.fn();
+      sys.on('saved', saved);
+
+      sys.set('score', 1);
+      sys.set('score', 2);
+      sys.set('score', 3);
+      expect(sys.hasPendingAutosave).toBe(true);
+
+      jest.advanceTimersByTime(100);
+      await sys.flush();
+
+      expect(saved).toHaveBeenCalledTimes(1);
+      expect(saved.mock.calls[0][0].score).toBe(3);
+    });
+
+    it('flush() writes a pending autosave immediately', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const sys = makeSystem(adapter);
+      await sys.load('a');
+      sys.set('level', 5);
+      await sys.flush();
+
+      expect(sys.hasPendingAutosave).toBe(false);
+      expect((await makeSystem(adapter).load('a')).level).toBe(5);
+    });
+
+    it('writes a pending autosave before switching or copying slots', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const sys = makeSystem(adapter);
+      await sys.load('a');
+      sys.set('score', 7);
+      await sys.copySlot('a', 'copy');
+      sys.set('score', 8);
+      expect((await sys.load('b')).score).toBe(0);
+
+      const other = makeSystem(adapter);
+      expect((await other.load('copy')).score).toBe(7);
+      expect((await other.load('a')).score).toBe(8);
+    });
+
+    it('reloads the active slot when a copy overwrites it', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const sys = makeSystem(adapter);
+      await sys.load('b');
+      await sys.save({ score: 42 }, { label: 'Backup' });
+      await sys.load('a');
+      sys.set('score', 1);
+
+      await sys.copySlot('b', 'a');
+      expect(sys.hasPendingAutosave).toBe(false);
+      expect(sys.get('score')).toBe(42);
+      expect(sys.metadata?.label).toBe('Backup');
+      expect(sys.metadata?.id).toBe('a');
+
+      await sys.flush();
+      expect((await makeSystem(adapter).load('a')).score).toBe(42);
+    });
+
+    it('reads a slot only after queued writes to it finish', async () => {
+      const adapter = new MemoryStorageAdapter();
+      const sys = makeSystem(adapter);
+      await sys.load('a');
+      const saving = sys.save({ score: 3 });
+      expect((await sys.load('a')).score).toBe(3);
+      await saving;
+    });
+  });
+
+  describe('LocalStorageAdapter', () => {
+    /** Minimal Storage implementation (the global localStorage is mocked in setup). */
+    class FakeStorage {
+      private store = new Map<string, string>();
+      get length(): number { return this.store.size; }
+      key(i: number): string | null { return [...this.store.keys()][i] ?? null; }
+      getItem(key: string): string | null { return this.store.get(key) ?? null; }
+      setItem(key: string, value: string): void { this.store.set(key, value); }
+      removeItem(key: string): void { this.store.delete(key); }
+      clear(): void { this.store.clear(); }
+    }
+
+    it('round-trips values and lists keys by prefix', async () => {
+      const adapter = new LocalStorageAdapter(new FakeStorage() as Storage);
+      await adapter.setItem('p:1', 'one');
+      await adapter.setItem('q:1', 'two');
+      expect(await adapter.getItem('p:1')).toBe('one');
+      expect(await adapter.keys('p:')).toEqual(['p:1']);
+      await adapter.removeItem('p:1');
+      expect(await adapter.getItem('p:1')).toBeNull();
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { SaveSystem } from '../../../src/save/SaveSystem';
+import { crc32 } from '../../../src/save/integrity';
 
 interface TestSave {
   score: number;
@@ -302,3 +303,158 @@ describe('SaveSystem', () => {
     });
   });
 });
+
+describe('SaveSystem integrity', () => {
+  it('writes a checksum and keeps the previous good copy as backup', () => {
+    const storage = new TestStorage();
+    const sys = makeSystem({}, storage);
+    sys.save({ score: 1 } as Partial<TestSave>);
+    expect(sys.hasBackup).toBe(false);
+    sys.save({ score: 2 } as Partial<TestSave>);
+
+    const main = JSON.parse(storage.getItem('test-save')!);
+    const backup = JSON.parse(storage.getItem('test-save.bak')!);
+    expect(main.checksum).toMatch(/^[0-9a-f]{8}$/);
+    expect(main.data.score).toBe(2);
+    expect(backup.data.score).toBe(1);
+    expect(storage.getItem('test-save.tmp')).toBeNull();
+  });
+
+  it('recovers from the backup on a torn primary write', () => {
+    const storage = new TestStorage();
+    const sys = makeSystem({}, storage);
+    sys.save({ score: 10 } as Partial<TestSave>);
+    sys.save({ score: 20 } as Partial<TestSave>);
+    storage.setItem('test-save', storage.getItem('test-save')!.slice(0, 15));
+
+    const events: string[] = [];
+    sys.on('corrupted', (reason) => events.push(`corrupted:${reason}`));
+    sys.on('recovered', (source) => events.push(`recovered:${source}`));
+    sys.on('error', () => events.push('error'));
+
+    const data = sys.load();
+    expect(data.score).toBe(10);
+    expect(events).toEqual(['corrupted:parse', 'recovered:backup']);
+
+    // Primary copy is restored, so the next load is clean
+    const again: string[] = [];
+    sys.on('corrupted', () => again.push('corrupted'));
+    expect(sys.load().score).toBe(10);
+    expect(again).toEqual([]);
+  });
+
+  it('prefers a completed temp copy over the backup', () => {
+    const storage = new TestStorage();
+    const sys = makeSystem({}, storage);
+    sys.save({ score: 10 } as Partial<TestSave>);
+    sys.save({ score: 20 } as Partial<TestSave>);
+    // Simulate a crash after the temp write but during the primary write
+    storage.setItem('test-save.tmp', storage.getItem('test-save')!);
+    storage.setItem('test-save', '{"version":1,"da');
+
+    const sources: string[] = [];
+    sys.on('recovered', (source) => sources.push(source));
+    expect(sys.load().score).toBe(20);
+    expect(sources).toEqual(['temp']);
+  });
+
+  it('detects a checksum mismatch', () => {
+    const storage = new TestStorage();
+    const sys = makeSystem({}, storage);
+    sys.save({ score: 5 } as Partial<TestSave>);
+    const envelope = JSON.parse(storage.getItem('test-save')!);
+    envelope.data.score = 9999;
+    storage.setItem('test-save', JSON.stringify(envelope));
+
+    const reasons: string[] = [];
+    const errors: Error[] = [];
+    sys.on('corrupted', (reason) => reasons.push(reason));
+    sys.on('error', (e) => errors.push(e));
+
+    expect(sys.load()).toEqual({ score: 0, level: 1, name: 'Player' });
+    expect(reasons).toEqual(['checksum']);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('accepts legacy envelopes without a checksum', () => {
+    const storage = new TestStorage();
+    storage.setItem('test-save', JSON.stringify({ version: 1, data: { score: 7 } }));
+    const sys = makeSystem({}, storage);
+    expect(sys.load().score).toBe(7);
+  });
+
+  it('rejects saves edited without the HMAC key', () => {
+    const storage = new TestStorage();
+    const sys = makeSystem({ hmacKey: 'secret' } as any, storage);
+    sys.save({ score: 5 } as Partial<TestSave>);
+    expect(makeSystem({ hmacKey: 'secret' } as any, storage).load().score).toBe(5);
+
+    // Tamper and recompute the plain checksum, as an editor tool would
+    const envelope = JSON.parse(storage.getItem('test-save')!);
+    envelope.data.score = 9999;
+    delete envelope.checksum;
+    storage.setItem('test-save', JSON.stringify(envelope));
+
+    const reasons: string[] = [];
+    const tampered = makeSystem({ hmacKey: 'secret' } as any, storage);
+    tampered.on('corrupted', (reason) => reasons.push(reason));
+    expect(tampered.load().score).toBe(0);
+    expect(reasons).toEqual(['signature']);
+  });
+
+  it('signs a pre-integrity save as soon as an HMAC key loads it', () => {
+    const storage = new TestStorage();
+    storage.setItem('test-save', JSON.stringify({ version: 1, data: { score: 12 } }));
+
+    const signed = makeSystem({ hmacKey: 'secret' } as any, storage);
+    const reasons: string[] = [];
+    signed.on('corrupted', (reason) => reasons.push(reason));
+    expect(signed.load().score).toBe(12);
+    expect(reasons).toEqual([]);
+    expect(JSON.parse(storage.getItem('test-save')!).signature).toEqual(expect.any(String));
+  });
+
+  it('rejects unsigned envelopes that carry a checksum once an HMAC key is set', () => {
+    const storage = new TestStorage();
+    makeSystem({ hmacKey: 'secret' } as any, storage).save({ score: 5 } as Partial<TestSave>);
+
+    // Edit, drop the signature and recompute the checksum, as an editor tool would
+    const envelope = JSON.parse(storage.getItem('test-save')!);
+    envelope.data.score = 9999;
+    delete envelope.signature;
+    envelope.checksum = crc32(JSON.stringify({ version: envelope.version, data: envelope.data }));
+    storage.setItem('test-save', JSON.stringify(envelope));
+    storage.removeItem('test-save.signed');
+
+    const reasons: string[] = [];
+    const tampered = makeSystem({ hmacKey: 'secret' } as any, storage);
+    tampered.on('corrupted', (reason) => reasons.push(reason));
+    expect(tampered.load().score).not.toBe(9999);
+    expect(reasons).toEqual(['signature']);
+
+    // A checksummed save written before the key was added is rejected too
+    const unsigned = new TestStorage();
+    makeSystem({}, unsigned).save({ score: 3 } as Partial<TestSave>);
+    expect(makeSystem({ hmacKey: 'secret' } as any, unsigned).load().score).toBe(0);
+  });
+
+  it('does not re-verify its own primary copy before writing the backup', () => {
+    const storage = new TestStorage();
+    const sys = makeSystem({}, storage);
+    sys.save({ score: 1 } as Partial<TestSave>);
+    const verify = jest.spyOn(sys as any, 'readEnvelope');
+    sys.save({ score: 2 } as Partial<TestSave>);
+    expect(verify).not.toHaveBeenCalled();
+    expect(JSON.parse(storage.getItem('test-save.bak')!).data.score).toBe(1);
+  });
+
+  it('reset removes temp and backup copies', () => {
+    const storage = new TestStorage();
+    const sys = makeSystem({}, storage);
+    sys.save({ score: 1 } as Partial<TestSave>);
+    sys.save({ score: 2 } as Partial<TestSave>);
+    sys.reset();
+    expect(sys.hasBackup).toBe(false);
+    expect(storage.getItem('test-save.bak')).toBeNull();
+  });
+});
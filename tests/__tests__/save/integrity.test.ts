@@ -0,0 +1,23 @@
+import { crc32, sha256, hmacSha256 } from '../../../src/save/integrity';
+
+describe('save integrity helpers', () => {
+  it('crc32 matches known vectors', () => {
+    expect(crc32('')).toBe('00000000');
+    expect(crc32('123456789')).toBe('cbf43926');
+  });
+
+  it('sha256 matches known vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('hmacSha256 matches RFC 4231 test case 2', () => {
+    expect(hmacSha256('Jefe', 'what do ya want for nothing?')).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+
+  it('hashes non-ASCII input as UTF-8', () => {
+    expect(sha256('héllo 🎮')).toBe('05ad1fa4d72ddaafc217f7e5e72a5ec72869c1ea59902e052bc973134f9585a0');
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as PIXI from 'pixi.js';
+import { parseSpineSkeleton } from '../../../src/skeletal/SkeletonData';
+import { parseSpineAtlas } from '../../../src/skeletal/SpineAtlas';
+import { Skeleton } from '../../../src/skeletal/Skeleton';
+import { SkeletonAnimation, SkeletonAsset } from '../../../src/skeletal/SkeletonAnimation';
+import { atlasUrl } from '../../../src/skeletal/SkeletonLoader';
+import { TextureAtlas } from '../../../src/sprites/TextureAtlas';
+import { TimeScale } from '../../../src/juice/TimeScale';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const HERO = {
+  skeleton: { spine: '4.1.24', width: 40, height: 100 },
+  bones: [
+    { name: 'root' },
+    { name: 'body', parent: 'root', y: 50 },
+    { name: 'arm', parent: 'body', x: 10, rotation: 90 },
+  ],
+  slots: [
+    { name: 'body', bone: 'body', attachment: 'torso' },
+    { name: 'weapon', bone: 'arm', color: 'ffffff80', attachment: 'sword' },
+  ],
+  skins: [
+    {
+      name: 'default',
+      attachments: {
+        body: { torso: { width: 20, height: 40 } },
+        weapon: { sword: { x: 5, width: 10, height: 30 }, axe: { path: 'weapons/axe', width: 16, height: 32 } },
+      },
+    },
+    { name: 'gold', attachments: { body: { torso: { path: 'torso_gold', width: 20, height: 40 } } } },
+  ],
+  events: { footstep: { int: 1 }, swing: { string: 'whoosh' } },
+  animations: {
+    idle: {
+      bones: { body: { rotate: [{ value: 0 }, { time: 1, value: 90 }] } },
+    },
+    walk: {
+      bones: { body: { translate: [{ x: 0, y: 0 }, { time: 0.5, x: 10, y: 0, curve: 'stepped' }, { time: 1, x: 20, y: 0 }] } },
+      events: [{ time: 0, name: 'footstep' }, { time: 0.5, name: 'footstep', int: 2 }],
+    },
+    attack: {
+      slots: {
+        weapon: {
+          attachment: [{ time: 0.2, name: 'axe' }],
+          rgba: [{ color: 'ff0000ff' }, { time: 0.4, color: '0000ffff' }],
+        },
+      },
+      events: [{ time: 0.3, name: 'swing' }],
+    },
+    ease: {
+      bones: { arm: { rotate: [{ value: 0, curve: [0.25, 0, 0.75, 100] }, { time: 1, value: 100 }] } },
+    },
+  },
+};
+
+const HERO_ATLAS = `
+hero.png
+size:64,64
+filter:Linear,Linear
+pma:true
+torso
+bounds:0,0,20,40
+torso_gold
+bounds:20,0,20,40
+sword
+bounds:40,0,10,30
+rotate:90
+weapons/axe
+bounds:40,30,12,24
+offsets:2,4,16,32
+`;
+
+function makeAsset(): SkeletonAsset {
+  const [page] = parseSpineAtlas(HERO_ATLAS, 'spine/hero.atlas');
+  const base = new PIXI.Texture({ source: new PIXI.TextureSource({ width: 64, height: 64 }) });
+  return { data: parseSpineSkeleton(HERO), atlases: [new TextureAtlas(page, base)] };
+}
+
+function bodyBone(spine: SkeletonAnimation) {
+  return spine.skeleton.findBone('body')!;
+}
+
+beforeEach(() => {
+  SkeletonAnimation.timeScale = null;
+});
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+describe('parseSpineSkeleton', () => {
+  it('reads bones, slots, skins, events and timelines', () => {
+    const data = parseSpineSkeleton(HERO);
+    expect(data.bones.map((b) => b.parent)).toEqual([-1, 0, 1]);
+    expect(data.slots[1]).toMatchObject({ name: 'weapon', bone: 2, attachment: 'sword' });
+    expect(data.slots[1].color.a).toBeCloseTo(128 / 255);
+    expect(data.skins[0].attachments.weapon.axe.path).toBe('weapons/axe');
+
+    const walk = data.animations.find((a) => a.name === 'walk')!;
+    expect(walk.duration).toBe(1);
+    expect(walk.bones.map((t) => t.property)).toEqual(['x', 'y']);
+    expect(walk.bones[0].curves).toEqual(['linear', 'stepped', 'linear']);
+    expect(walk.events[1]).toEqual({ time: 0.5, name: 'footstep', int: 2, float: 0, string: '' });
+
+    // 4.x absolute bezier control points are normalized to the key span
+    const ease = data.animations.find((a) => a.name === 'ease')!;
+    expect(ease.bones[0].curves[0]).toEqual([0.25, 0, 0.75, 1]);
+  });
+
+  it('reads 3.8 skins and curves', () => {
+    const data = parseSpineSkeleton({
+      skeleton: { spine: '3.8.99' },
+      bones: [{ name: 'root' }],
+      slots: [{ name: 'a', bone: 'root' }],
+      skins: { default: { a: { dot: { width: 4, height: 4 } } } },
+      animations: { spin: { bones: { root: { rotate: [{ angle: 0, curve: 0.5, c2: 0, c3: 0.5, c4: 1 }, { time: 2, angle: 180 }] } } } },
+    });
+    expect(data.skins[0].name).toBe('default');
+    expect(data.animations[0].bones[0].values).toEqual([0, 180]);
+    expect(data.animations[0].bones[0].curves[0]).toEqual([0.5, 0, 0.5, 1]);
+  });
+
+  it('reports what is missing', () => {
+    expect(() => parseSpineSkeleton({})).toThrow('bones');
+    expect(() => parseSpineSkeleton({ bones: [{ name: 'a', parent: 'b' }] })).toThrow('"b"');
+    expect(() => parseSpineSkeleton({ ...HERO, animations: { x: { events: [{ name: 'jump' }] } } })).toThrow('"jump"');
+    expect(() => parseSpineSkeleton({ ...HERO, skins: [{ name: 'default', attachments: { body: { torso: {} } } }] }))
+      .toThrow('skins.default.body.torso.width');
+  });
+});
+
+describe('parseSpineAtlas', () => {
+  it('reads 4.x bounds, offsets and rotation', () => {
+    const [page] = parseSpineAtlas(HERO_ATLAS, 'spine/hero.atlas');
+    expect(page.image).toBe('spine/hero.png');
+    expect(page.size).toEqual({ w: 64, h: 64 });
+    const sword = page.frames.find((f) => f.name === 'sword')!;
+    expect(sword.degrees).toBe(90);
+    const axe = page.frames.find((f) => f.name === 'weapons/axe')!;
+    expect(axe.trimmed).toBe(true);
+    expect(axe.sourceSize).toEqual({ w: 16, h: 32 });
+    // Offsets are from the bottom-left: 32 - 4 - 24
+    expect(axe.spriteSourceSize).toEqual({ x: 2, y: 4, w: 12, h: 24 });
+  });
+
+  it('reads 3.x multi-page atlases', () => {
+    const pages = parseSpineAtlas([
+      '', 'a.png', 'size: 32, 32', 'format: RGBA8888', 'head',
+      '  rotate: true', '  xy: 2, 2', '  size: 8, 16', '  orig: 8, 16', '  offset: 0, 0', '  index: -1',
+      '', 'b.png', 'size: 16,16', 'tail', '  rotate: false', '  xy: 0, 0', '  size: 4, 4', '  orig: 6, 6', '  offset: 1, 1', '  index: -1',
+    ].join('\n'), 'spine/hero.atlas');
+    expect(pages.map((p) => p.image)).toEqual(['spine/a.png', 'spine/b.png']);
+    expect(pages[0].frames[0]).toMatchObject({ name: 'head', frame: { x: 2, y: 2, w: 8, h: 16 }, degrees: 90, trimmed: false });
+    expect(pages[1].frames[0].spriteSourceSize).toEqual({ x: 1, y: 1, w: 4, h: 4 });
+    expect(atlasUrl('spine/hero.json?v=2')).toBe('spine/hero.atlas?v=2');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Skeleton
+// ---------------------------------------------------------------------------
+
+describe('Skeleton', () => {
+  it('computes world transforms through the bone hierarchy', () => {
+    const skeleton = new Skeleton(parseSpineSkeleton(HERO));
+    const arm = skeleton.findBone('arm')!;
+    expect(arm.worldX).toBeCloseTo(10);
+    expect(arm.worldY).toBeCloseTo(50);
+    expect(arm.a).toBeCloseTo(0);
+    expect(arm.c).toBeCloseTo(1);
+
+    skeleton.x = 100;
+    skeleton.findBone('body')!.rotation = 90;
+    skeleton.updateWorldTransform();
+    expect(arm.worldX).toBeCloseTo(100);
+    expect(arm.worldY).toBeCloseTo(60);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// SkeletonAnimation
+// ---------------------------------------------------------------------------
+
+describe('SkeletonAnimation', () => {
+  it('renders slots as sprites in Pixi space', () => {
+    const spine = new SkeletonAnimation(makeAsset());
+    const [body, weapon] = spine.view.children as PIXI.Sprite[];
+    expect(body.texture.label).toBe('torso');
+    expect(body.position.y).toBeCloseTo(-50);
+
+    // Arm points up (+90° in Spine's y-up space), the sword sits 5 along it
+    expect(weapon.position.x).toBeCloseTo(10);
+    expect(weapon.position.y).toBeCloseTo(-55);
+    expect(weapon.rotation).toBeCloseTo(-Math.PI / 2);
+    expect(weapon.scale.x).toBeCloseTo(1);
+    expect(weapon.alpha).toBeCloseTo(128 / 255);
+    spine.dispose();
+  });
+
+  it('loops animations and fires event keys', () => {
+    const spine = new SkeletonAnimation(makeAsset(), { autoPlay: 'walk' });
+    const events: string[] = [];
+    const loop = jest.fn();
+    spine.on('event', (name, animation, event) => events.push(`${animation}:${name}:${event.int}`));
+    spine.on('loop', loop);
+
+    spine.update(0.25);
+    expect(bodyBone(spine).x).toBeCloseTo(5);
+    spine.update(0.5);
+    // Stepped: holds the 0.5 key until the next one
+    expect(bodyBone(spine).x).toBeCloseTo(10);
+    spine.update(0.5);
+    expect(loop).toHaveBeenCalledWith('walk');
+    expect(events).toEqual(['walk:footstep:1', 'walk:footstep:2', 'walk:footstep:1']);
+    expect(spine.getTime()).toBeCloseTo(0.25);
+  });
+
+  it('crossfades between animations', () => {
+    const spine = new SkeletonAnimation(makeAsset());
+    const complete = jest.fn();
+    spine.on('crossfadeComplete', complete);
+    spine.play('idle');
+    spine.update(0.5);
+    expect(bodyBone(spine).rotation).toBeCloseTo(45);
+
+    spine.crossFadeTo('walk', 0.5);
+    spine.update(0.25);
+    // Half of idle's 67.5° over the setup pose, half of walk's x = 5
+    expect(bodyBone(spine).rotation).toBeCloseTo(33.75);
+    expect(bodyBone(spine).x).toBeCloseTo(2.5);
+    expect(spine.getCurrentAnimation()).toBe('walk');
+
+    spine.update(0.25);
+    expect(complete).toHaveBeenCalledWith('idle', 'walk');
+    expect(bodyBone(spine).rotation).toBeCloseTo(0);
+    expect(bodyBone(spine).x).toBeCloseTo(10);
+    expect(spine.isPlaying('idle')).toBe(false);
+  });
+
+  it('finishes one-shot animations and holds the last pose', () => {
+    const spine = new SkeletonAnimation(makeAsset());
+    const finished = jest.fn();
+    spine.on('finished', finished);
+    spine.play('idle', { loop: false });
+    spine.update(2);
+    expect(finished).toHaveBeenCalledWith('idle');
+    expect(spine.isPlaying()).toBe(false);
+    expect(bodyBone(spine).rotation).toBeCloseTo(90);
+
+    spine.stop();
+    spine.update(0.1);
+    expect(bodyBone(spine).rotation).toBe(0);
+  });
+
+  it('applies animation, global and shared time scales', () => {
+    const timeScale = new TimeScale();
+    SkeletonAnimation.timeScale = timeScale;
+    const spine = new SkeletonAnimation(makeAsset(), { autoPlay: 'idle' });
+
+    spine.setTimeScale('idle', 2);
+    spine.update(0.1);
+    expect(spine.getTime()).toBeCloseTo(0.2);
+    spine.setGlobalTimeScale(0.5);
+    timeScale.set(0.5);
+    spine.update(0.4);
+    expect(spine.getTime()).toBeCloseTo(0.4);
+
+    spine.useTimeScale = false;
+    spine.pause();
+    spine.update(1);
+    expect(spine.getTime()).toBeCloseTo(0.4);
+  });
+
+  it('switches skins and swaps attachments', () => {
+    const spine = new SkeletonAnimation(makeAsset(), { skin: 'gold' });
+    const [body, weapon] = spine.view.children as PIXI.Sprite[];
+    expect(body.texture.label).toBe('torso_gold');
+    spine.setSkin(null);
+    expect(body.texture.label).toBe('torso');
+
+    spine.setAttachment('weapon', 'axe');
+    expect(weapon.texture.label).toBe('weapons/axe');
+    spine.setAttachment('weapon', null);
+    expect(weapon.visible).toBe(false);
+    expect(() => spine.setAttachment('weapon', 'bow')).toThrow('"bow"');
+  });
+
+  it('keys slot attachments and colors from animations', () => {
+    const spine = new SkeletonAnimation(makeAsset());
+    const weapon = spine.view.children[1] as PIXI.Sprite;
+    const swing = jest.fn();
+    spine.on('event', swing);
+
+    spine.play('attack', { loop: false });
+    spine.update(0.1);
+    expect(weapon.texture.label).toBe('sword');
+    expect(weapon.tint).toBe(0xbf0040);
+
+    spine.update(0.4);
+    expect(weapon.texture.label).toBe('weapons/axe');
+    expect(weapon.tint).toBe(0x0000ff);
+    expect(weapon.alpha).toBe(1);
+    expect(swing).toHaveBeenCalledWith('swing', 'attack', expect.objectContaining({ string: 'whoosh' }));
+  });
+});
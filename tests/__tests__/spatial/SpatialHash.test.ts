@@ -0,0 +1,87 @@
+import { SpatialHash } from '../../../src/spatial/SpatialHash';
+
+interface Point { x: number; y: number; id: number }
+
+const makePoints = (count: number): Point[] => {
+  let seed = 1;
+  const rand = () => ((seed = (seed * 16807) % 2147483647) / 2147483647);
+  return Array.from({ length: count }, (_, id) => ({ id, x: rand() * 1000 - 500, y: rand() * 1000 - 500 }));
+};
+
+describe('SpatialHash', () => {
+  it('matches a brute-force radius query', () => {
+    const points = makePoints(400);
+    const hash = new SpatialHash<Point>(40);
+    hash.rebuild(points);
+
+    const center = { x: 37, y: -12 };
+    const radius = 95;
+    const expected = points
+      .filter((p) => (p.x - center.x) ** 2 + (p.y - center.y) ** 2 <= radius * radius)
+      .map((p) => p.id)
+      .sort((a, b) => a - b);
+
+    const found = hash.queryRadius(center.x, center.y, radius).map((p) => p.id).sort((a, b) => a - b);
+    expect(found).toEqual(expected);
+  });
+
+  it('tracks moved and removed items', () => {
+    const hash = new SpatialHash<Point>(10);
+    const a = { id: 1, x: 0, y: 0 };
+    hash.insert(a);
+    expect(hash.queryRadius(0, 0, 5)).toEqual([a]);
+
+    a.x = 100;
+    hash.update(a);
+    expect(hash.queryRadius(0, 0, 5)).toEqual([]);
+    expect(hash.queryRadius(100, 0, 5)).toEqual([a]);
+
+    expect(hash.remove(a)).toBe(true);
+    expect(hash.size).toBe(0);
+    expect(hash.queryRadius(100, 0, 5)).toEqual([]);
+  });
+
+  it('reuses the output array and skips the excluded item', () => {
+    const hash = new SpatialHash<Point>(10);
+    const a = { id: 1, x: 0, y: 0 };
+    const b = { id: 2, x: 3, y: 0 };
+    hash.rebuild([a, b]);
+
+    const out: Point[] = [b, b, b];
+    expect(hash.queryRadius(0, 0, 5, out, a)).toBe(out);
+    expect(out).toEqual([b]);
+  });
+
+  it('finds the k nearest items and rect contents like a brute-force scan', () => {
+    const points = makePoints(300);
+    const hash = new SpatialHash<Point>(32);
+    hash.rebuild(points);
+
+    const byDistance = points
+      .map((p) => ({ id: p.id, d: (p.x - 10) ** 2 + (p.y - 20) ** 2 }))
+      .sort((a, b) => a.d - b.d);
+    expect(hash.nearest(10, 20, 5).map((p) => p.id)).toEqual(byDistance.slice(0, 5).map((p) => p.id));
+    expect(hash.nearest(10, 20, 3, 0.001)).toEqual([]);
+
+    const inRect = points.filter((p) => p.x >= -50 && p.x <= 50 && p.y >= 0 && p.y <= 80).map((p) => p.id).sort();
+    expect(hash.queryRect(-50, 0, 100, 80).map((p) => p.id).sort()).toEqual(inRect);
+  });
+
+  it('drops empty cells as items move', () => {
+    const hash = new SpatialHash<Point>(10);
+    const a = { id: 1, x: 0, y: 0 };
+    hash.insert(a);
+    for (let i = 1; i <= 50; i++) {
+      a.x = i * 10;
+      hash.update(a);
+    }
+    expect((hash as any).cells.size).toBe(1);
+
+    const swarm = makePoints(20);
+    hash.rebuild(swarm);
+    for (const p of swarm) p.x += 500;
+    hash.rebuild(swarm);
+    expect((hash as any).cells.size).toBeLessThanOrEqual(20);
+    expect(hash.queryRadius(swarm[0].x, swarm[0].y, 1)).toContain(swarm[0]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { SpatialIndex, SpatialBody } from '../../../src/spatial/SpatialIndex';
+import { GameEntity } from '../../../src/entity/GameEntity';
+import { AutoAttack } from '../../../src/genre/survivors/AutoAttack';
+import { TowerManager } from '../../../src/genre/td/TowerManager';
+
+jest.mock('../../../src/graphics/GraphicsEngine', () => ({
+  graphics: jest.fn(() => ({
+    createContainer: jest.fn(() => ({ x: 0, y: 0, parent: null, addChild: jest.fn(), destroy: jest.fn() })),
+  })),
+}));
+
+interface Body extends SpatialBody {
+  id: string;
+}
+
+const body = (id: string, x: number, y: number, extra: Partial<Body> = {}): Body => ({ id, x, y, ...extra });
+
+describe('SpatialIndex', () => {
+  afterEach(() => SpatialIndex.setDefault(null));
+
+  it('filters queries by tag or predicate', () => {
+    const index = new SpatialIndex<Body>({ cellSize: 32 });
+    const enemy = body('enemy', 10, 0, { tags: new Set(['enemy']) });
+    const ally = body('ally', 5, 0, { tags: new Set(['ally']) });
+    index.insert(enemy);
+    index.insert(ally);
+
+    expect(index.queryRadius(0, 0, 20, 'enemy')).toEqual([enemy]);
+    expect(index.nearest(0, 0, 1)).toEqual([ally]);
+    expect(index.nearest(0, 0, 1, Infinity, (b) => b.id !== 'ally')).toEqual([enemy]);
+    expect(index.queryRect(0, -5, 8, 10)).toEqual([ally]);
+  });
+
+  it('emits collision start, stay and end for overlapping pairs', () => {
+    const index = new SpatialIndex<Body>({ cellSize: 16 });
+    const a = body('a', 0, 0, { collisionRadius: 10 });
+    const b = body('b', 15, 0, { collisionRadius: 10 });
+    const box = body('box', 100, 0, { collisionRect: { width: 20, height: 20 } });
+    [a, b, box].forEach((item) => index.insert(item));
+
+    const log: string[] = [];
+    index.on('collision-start', (x, y) => log.push(`start ${x.id}-${y.id}`));
+    index.on('collision', (x, y) => log.push(`stay ${x.id}-${y.id}`));
+    index.on('collision-end', (x, y) => log.push(`end ${x.id}-${y.id}`));
+
+    index.checkCollisions();
+    index.checkCollisions();
+    expect(log).toEqual(['start a-b', 'stay a-b', 'stay a-b']);
+    expect(index.isColliding(b, a)).toBe(true);
+
+    // Circle vs rect uses the closest point on the box
+    log.length = 0;
+    b.x = 85;
+    index.update(b);
+    index.checkCollisions();
+    expect(log).toEqual(['start b-box', 'stay b-box', 'end a-b']);
+
+    log.length = 0;
+    index.remove(box);
+    expect(log).toEqual(['end b-box']);
+  });
+
+  it('skips pairs rejected by pairFilter and inactive bodies', () => {
+    const index = new SpatialIndex<Body>({ pairFilter: (a, b) => a.id[0] !== b.id[0] });
+    const e1 = body('e1', 0, 0, { collisionRadius: 5 });
+    const e2 = body('e2', 1, 0, { collisionRadius: 5 });
+    const p = body('p', 2, 0, { collisionRadius: 5, active: false });
+    [e1, e2, p].forEach((item) => index.insert(item));
+
+    const pairs: string[] = [];
+    index.forEachPair((a, b) => pairs.push(a.id + b.id));
+    expect(pairs).toEqual([]);
+
+    p.active = true;
+    index.forEachPair((a, b) => pairs.push(a.id + b.id));
+    expect(pairs.sort()).toEqual(['e1p', 'e2p']);
+  });
+
+  it('registers GameEntities with the default index and tracks their movement', () => {
+    const index = new SpatialIndex<GameEntity>();
+    SpatialIndex.setDefault(index);
+
+    const mover = new GameEntity({ x: 0, y: 0, vx: 100 });
+    const loner = new GameEntity({ x: 0, y: 0, spatialIndex: null });
+    expect(index.has(mover)).toBe(true);
+    expect(index.has(loner)).toBe(false);
+
+    mover.update(2);
+    expect(index.queryRadius(200, 0, 1)).toEqual([mover]);
+    mover.y = 500;
+    expect(index.queryRadius(200, 500, 1)).toEqual([mover]);
+
+    mover.destroy();
+    expect(index.size).toBe(0);
+  });
+
+  it('lets AutoAttack and TowerManager acquire targets from the index', () => {
+    const index = new SpatialIndex<Body>();
+    const owner = body('owner', 0, 0, { tags: new Set(['enemy']) });
+    const near = body('near', 30, 0, { tags: new Set(['enemy']) });
+    const far = body('far', 80, 0, { tags: new Set(['enemy']) });
+    const crate = body('crate', 5, 0);
+    [owner, near, far, crate].forEach((item) => index.insert(item));
+
+    const attack = new AutoAttack({ range: 100, fireRate: 1, damage: 5, index });
+    const fired: Body[] = [];
+    attack.on('fire', (target) => fired.push(target));
+    attack.update(1, owner);
+    expect(fired).toEqual([near]);
+
+    const towers = new TowerManager(
+      [{ id: 't', name: 'T', cost: 0, range: 60, damage: 1, fireRate: 1 }],
+      { index }
+    );
+    towers.place('t', 100, 0, { spend: () => true });
+    const targets: Body[] = [];
+    towers.on('tower-fire', (_tower, target) => targets.push(target));
+    towers.update(1);
+    expect(targets).toEqual([far]);
+
+    // An explicit enemy array still takes precedence
+    towers.update(1, [near]);
+    expect(targets).toEqual([far]);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as PIXI from 'pixi.js';
+import { parseAtlas } from '../../../src/sprites/AtlasData';
+import { TextureAtlas } from '../../../src/sprites/TextureAtlas';
+import { SpriteAnimator } from '../../../src/sprites/SpriteAnimator';
+import { GameEntity } from '../../../src/entity/GameEntity';
+import { TimeScale } from '../../../src/juice/TimeScale';
+
+// ---------------------------------------------------------------------------
+// Mock graphics()
+// ---------------------------------------------------------------------------
+
+jest.mock('../../../src/graphics/GraphicsEngine', () => ({
+  graphics: jest.fn(),
+  GraphicsEngine: { getFactory: jest.fn(), isInitialized: jest.fn().mockReturnValue(true) },
+}));
+
+import { graphics } from '../../../src/graphics/GraphicsEngine';
+const mockGraphics = graphics as jest.MockedFunction<typeof graphics>;
+
+beforeEach(() => {
+  SpriteAnimator.timeScale = null;
+  mockGraphics.mockReturnValue({
+    createContainer: jest.fn(() => ({
+      x: 0,
+      y: 0,
+      children: [] as any[],
+      addChild(child: any) { this.children.push(child); return child; },
+      destroy: jest.fn(),
+    })),
+    createSprite: jest.fn((texture: unknown) => ({
+      texture,
+      anchor: { x: 0, y: 0, set(x: number, y: number) { this.x = x; this.y = y; } },
+      destroy: jest.fn(),
+    })),
+    createCanvasTexture: jest.fn(() => ({ width: 1, height: 1, destroy: jest.fn() })),
+  } as any);
+});
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const TEXTURE_PACKER_HASH = {
+  frames: {
+    'run_0.png': { frame: { x: 0, y: 0, w: 16, h: 16 }, rotated: false, trimmed: false, spriteSourceSize: { x: 0, y: 0, w: 16, h: 16 }, sourceSize: { w: 16, h: 16 } },
+    'run_1.png': { frame: { x: 16, y: 0, w: 12, h: 14 }, rotated: false, trimmed: true, spriteSourceSize: { x: 2, y: 1, w: 12, h: 14 }, sourceSize: { w: 16, h: 16 } },
+    'run_2.png': { frame: { x: 32, y: 0, w: 16, h: 8 }, rotated: true, trimmed: false, spriteSourceSize: { x: 0, y: 0, w: 16, h: 8 }, sourceSize: { w: 16, h: 8 } },
+  },
+  animations: { run: ['run_0.png', 'run_1.png', 'run_2.png'] },
+  meta: { app: 'https://www.codeandweb.com/texturepacker', image: 'hero.png', size: { w: 64, h: 64 }, scale: '1' },
+};
+
+const ASEPRITE = {
+  frames: [0, 1, 2, 3].map((i) => ({
+    filename: `hero ${i}.aseprite`,
+    frame: { x: i * 8, y: 0, w: 8, h: 8 },
+    rotated: false,
+    trimmed: false,
+    spriteSourceSize: { x: 0, y: 0, w: 8, h: 8 },
+    sourceSize: { w: 8, h: 8 },
+    duration: 100 * (i + 1),
+  })),
+  meta: {
+    app: 'https://www.aseprite.org/',
+    image: '../img/hero.png',
+    size: { w: 32, h: 8 },
+    frameTags: [
+      { name: 'idle', from: 0, to: 1, direction: 'forward' },
+      { name: 'wave', from: 1, to: 3, direction: 'pingpong', repeat: '1' },
+    ],
+  },
+};
+
+function makeAtlas(json: unknown, url = 'sprites/hero.json'): TextureAtlas {
+  const base = new PIXI.Texture({ source: new PIXI.TextureSource({ width: 64, height: 64 }) });
+  return new TextureAtlas(parseAtlas(json, url), base);
+}
+
+function textures(count: number): any[] {
+  return Array.from({ length: count }, (_, i) => ({ id: i, width: 8, height: 8, destroy: jest.fn() }));
+}
+
+// ---------------------------------------------------------------------------
+// Atlas parsing
+// ---------------------------------------------------------------------------
+
+describe('parseAtlas', () => {
+  it('reads TexturePacker hash frames and animations', () => {
+    const data = parseAtlas(TEXTURE_PACKER_HASH, 'sprites/hero.json');
+    expect(data.format).toBe('texturepacker-hash');
+    expect(data.image).toBe('sprites/hero.png');
+    expect(data.frames.map((f) => f.name)).toEqual(['run_0.png', 'run_1.png', 'run_2.png']);
+    expect(data.clips).toEqual([{ name: 'run', frames: ['run_0.png', 'run_1.png', 'run_2.png'], direction: 'forward' }]);
+  });
+
+  it('reads Aseprite array frames with tags and durations', () => {
+    const data = parseAtlas(ASEPRITE, 'sprites/hero.json');
+    expect(data.format).toBe('aseprite');
+    expect(data.image).toBe('img/hero.png');
+    expect(data.clips[1]).toEqual({
+      name: 'wave',
+      frames: ['hero 1.aseprite', 'hero 2.aseprite', 'hero 3.aseprite'],
+      durations: [200, 300, 400],
+      direction: 'pingpong',
+      repeat: 1,
+    });
+  });
+
+  it('rejects data without frames', () => {
+    expect(() => parseAtlas({ meta: { image: 'a.png' } })).toThrow('frames');
+    expect(() => parseAtlas({ frames: { a: { frame: { x: 0 } } }, meta: { image: 'a.png' } })).toThrow('"a"');
+  });
+});
+
+describe('TextureAtlas', () => {
+  it('cuts trimmed and rotated frame textures', () => {
+    const atlas = makeAtlas(TEXTURE_PACKER_HASH);
+    const trimmed = atlas.getTexture('run_1.png');
+    expect(trimmed.frame.width).toBe(12);
+    expect(trimmed.orig.width).toBe(16);
+    expect(trimmed.trim!.x).toBe(2);
+
+    const rotated = atlas.getTexture('run_2.png');
+    expect(rotated.frame.width).toBe(8);
+    expect(rotated.frame.height).toBe(16);
+    expect(rotated.rotate).toBe(PIXI.groupD8.S);
+
+    expect(atlas.getTextures('run_')).toHaveLength(3);
+    expect(() => atlas.getTexture('jump_0.png')).toThrow('jump_0.png');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// SpriteAnimator
+// ---------------------------------------------------------------------------
+
+describe('SpriteAnimator', () => {
+  it('plays clips at their fps and loops', () => {
+    const frames = textures(3);
+    const animator = new SpriteAnimator({ clips: { run: { frames, fps: 10 } } });
+    const loop = jest.fn();
+    animator.on('loop', loop);
+    animator.play('run');
+    expect(animator.sprite.texture).toBe(frames[0]);
+    expect(animator.sprite.anchor!.x).toBe(0.5);
+
+    animator.update(0.15);
+    expect(animator.currentFrame).toBe(1);
+    animator.update(0.2);
+    expect(animator.currentFrame).toBe(0);
+    expect(animator.sprite.texture).toBe(frames[0]);
+    expect(loop).toHaveBeenCalledWith('run');
+  });
+
+  it('ping-pongs and holds the end of finite clips', () => {
+    const animator = new SpriteAnimator({
+      clips: {
+        bob: { frames: textures(3), fps: 10, mode: 'ping-pong' },
+        die: { frames: textures(3), fps: 10, mode: 'once' },
+      },
+    });
+    const seen: number[] = [];
+    animator.on('frame', (_clip, frame) => seen.push(frame));
+    animator.play('bob');
+    animator.update(0.55);
+    expect(seen).toEqual([0, 1, 2, 1, 0, 1]);
+
+    const complete = jest.fn();
+    animator.on('complete', complete);
+    animator.play('die');
+    animator.update(1);
+    expect(animator.currentFrame).toBe(2);
+    expect(animator.isPlaying).toBe(false);
+    expect(complete).toHaveBeenCalledWith('die');
+  });
+
+  it('fires frame events, including frames skipped by a long update', () => {
+    const animator = new SpriteAnimator({
+      clips: { attack: { frames: textures(4), fps: 20, mode: 'once', events: { 1: 'swing', 3: ['hit', 'shake'] } } },
+      autoPlay: 'attack',
+    });
+    const events: string[] = [];
+    animator.on('event', (name, clip, frame) => events.push(`${clip}:${name}@${frame}`));
+    animator.update(1);
+    expect(events).toEqual(['attack:swing@1', 'attack:hit@3', 'attack:shake@3']);
+  });
+
+  it('builds clips from atlas tags with per-frame durations', () => {
+    const animator = new SpriteAnimator({ atlas: makeAtlas(ASEPRITE) });
+    expect(animator.clipNames).toEqual(['idle', 'wave']);
+
+    // wave: frames 1,2,3 (200/300/400ms), ping-pong once -> 1,2,3,2, then rests on 1
+    const complete = jest.fn();
+    animator.on('complete', complete);
+    animator.play('wave');
+    animator.update(0.25);
+    expect(animator.currentFrame).toBe(1);
+    animator.update(0.3);
+    expect(animator.currentFrame).toBe(2);
+    animator.update(0.55);
+    expect(complete).not.toHaveBeenCalled();
+    animator.update(0.3);
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(animator.currentFrame).toBe(0);
+  });
+
+  it('follows playback speed and the shared time scale', () => {
+    const timeScale = new TimeScale();
+    SpriteAnimator.timeScale = timeScale;
+    const animator = new SpriteAnimator({ clips: { run: { frames: textures(4), fps: 10 } }, autoPlay: 'run' });
+
+    timeScale.set(0.5);
+    animator.update(0.15);
+    expect(animator.currentFrame).toBe(0);
+    animator.speed = 2;
+    animator.update(0.15);
+    expect(animator.currentFrame).toBe(2);
+
+    animator.useTimeScale = false;
+    animator.speed = 1;
+    animator.update(0.1);
+    expect(animator.currentFrame).toBe(3);
+  });
+
+  it('is driven by GameEntity as its display', () => {
+    const animator = new SpriteAnimator({ clips: { run: { frames: textures(2), fps: 10 } }, autoPlay: 'run' });
+    const entity = new GameEntity({ animator, spatialIndex: null });
+    expect((entity.getContainer() as any).children).toContain(animator.sprite);
+
+    entity.update(0.1);
+    expect(animator.currentFrame).toBe(1);
+    entity.destroy();
+    expect(animator.sprite.destroy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as THREE from 'three';
+import { AnimationController } from '../../../../src/three/animation/AnimationController';
+import { Animator, AnimatorConfig, blend1D, blend2D } from '../../../../src/three/animation/Animator';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+/** root > hips > spine > arm, root > leg */
+function createRig() {
+  const root = new THREE.Object3D();
+  root.name = 'root';
+  const hips = new THREE.Object3D();
+  hips.name = 'hips';
+  const spine = new THREE.Object3D();
+  spine.name = 'spine';
+  spine.position.y = 1;
+  const arm = new THREE.Object3D();
+  arm.name = 'arm';
+  const leg = new THREE.Object3D();
+  leg.name = 'leg';
+  root.add(hips, leg);
+  hips.add(spine);
+  spine.add(arm);
+  return { root, hips, spine, arm, leg };
+}
+
+/** Position track from (x, y, z) at 0 to (x, y, z) at `duration` */
+function move(node: string, duration: number, from: number[], to: number[] = from): THREE.VectorKeyframeTrack {
+  return new THREE.VectorKeyframeTrack(`${node}.position`, [0, duration], [...from, ...to]);
+}
+
+const CLIPS = [
+  new THREE.AnimationClip('idle', 1, [move('hips', 1, [0, 0, 0]), move('leg', 1, [0, 0, 0]), move('arm', 1, [0, 0, 0])]),
+  new THREE.AnimationClip('walk', 1, [move('hips', 1, [0, 0, 0], [10, 0, 0]), move('leg', 1, [1, 0, 0]), move('arm', 1, [0, 0, 0])]),
+  new THREE.AnimationClip('run', 0.5, [move('hips', 0.5, [0, 0, 0], [20, 0, 0]), move('leg', 0.5, [2, 0, 0])]),
+  new THREE.AnimationClip('slash', 1, [move('arm', 1, [0, 0, 0], [0, 10, 0]), move('leg', 1, [5, 0, 0])]),
+  new THREE.AnimationClip('nod', 1, [move('spine', 1, [0, 0, 0], [0, 4, 0])]),
+  new THREE.AnimationClip('jump', 0.5, [move('hips', 0.5, [0, 0, 0], [0, 3, 0])]),
+];
+
+function createAnimator(config: AnimatorConfig) {
+  const rig = createRig();
+  const controller = new AnimationController(rig.root, CLIPS);
+  return { rig, animator: new Animator(controller, config) };
+}
+
+// ---------------------------------------------------------------------------
+// Blend weights
+// ---------------------------------------------------------------------------
+
+describe('blend weights', () => {
+  it('blends 1D neighbours and clamps at the ends', () => {
+    expect(blend1D([0, 2, 6], -1)).toEqual([1, 0, 0]);
+    expect(blend1D([0, 2, 6], 3)).toEqual([0, 0.75, 0.25]);
+    expect(blend1D([0, 2, 6], 10)).toEqual([0, 0, 1]);
+  });
+
+  it('blends 2D children by gradient bands', () => {
+    const positions: Array<[number, number]> = [[0, 0], [0, 1], [1, 0], [0, -1], [-1, 0]];
+    expect(blend2D(positions, [0, 1])).toEqual([0, 1, 0, 0, 0]);
+    const half = blend2D(positions, [0, 0.5]);
+    expect(half[0]).toBeCloseTo(0.5);
+    expect(half[1]).toBeCloseTo(0.5);
+    expect(blend2D(positions, [0.3, 0.4]).reduce((a, b) => a + b)).toBeCloseTo(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Animator
+// ---------------------------------------------------------------------------
+
+describe('Animator', () => {
+  it('plays a 1D blend tree with synchronized cycles', () => {
+    const { rig, animator } = createAnimator({
+      parameters: { speed: 'float' },
+      layers: [{
+        name: 'base',
+        states: {
+          move: { motion: { type: '1d', parameter: 'speed', children: [{ clip: 'walk', threshold: 2 }, { clip: 'run', threshold: 6 }] } },
+        },
+      }],
+    });
+    animator.setFloat('speed', 4);
+    // Blended cycle: 0.5 * 1s + 0.5 * 0.5s = 0.75s, so half a cycle takes 0.375s
+    animator.update(0.375);
+    expect(animator.getNormalizedTime()).toBeCloseTo(0.5);
+    expect(rig.leg.position.x).toBeCloseTo(1.5);
+    // walk at 0.5s -> 5, run at 0.25s -> 10
+    expect(rig.hips.position.x).toBeCloseTo(7.5);
+  });
+
+  it('transitions on parameters with a crossfade', () => {
+    const { rig, animator } = createAnimator({
+      parameters: { speed: 'float' },
+      layers: [{
+        name: 'base',
+        states: { idle: { motion: 'idle' }, walk: { motion: 'walk' } },
+        transitions: [
+          { from: 'idle', to: 'walk', conditions: [{ parameter: 'speed', op: '>', value: 0.1 }], duration: 0.5 },
+          { from: 'walk', to: 'idle', conditions: [{ parameter: 'speed', op: '<=', value: 0.1 }], duration: 0.5 },
+        ],
+      }],
+    });
+    const transition = jest.fn();
+    const exit = jest.fn();
+    animator.on('transition', transition);
+    animator.on('stateExit', exit);
+
+    animator.update(0.1);
+    expect(animator.getCurrentState()).toBe('idle');
+    animator.setFloat('speed', 1);
+    animator.update(0.25);
+    expect(transition).toHaveBeenCalledWith('base', 'idle', 'walk');
+    expect(animator.isInTransition()).toBe(true);
+    expect(rig.leg.position.x).toBeCloseTo(0.5);
+
+    animator.update(0.25);
+    expect(animator.isInTransition()).toBe(false);
+    expect(exit).toHaveBeenCalledWith('base', 'idle');
+    expect(rig.leg.position.x).toBeCloseTo(1);
+  });
+
+  it('consumes triggers and leaves on exit time', () => {
+    const { rig, animator } = createAnimator({
+      parameters: { jump: 'trigger' },
+      layers: [{
+        name: 'base',
+        states: { idle: { motion: 'idle' }, jump: { motion: 'jump', loop: false } },
+        transitions: [
+          { from: '*', to: 'jump', conditions: [{ parameter: 'jump' }], duration: 0 },
+          { from: 'jump', to: 'idle', exitTime: 1, duration: 0 },
+        ],
+      }],
+    });
+    animator.setTrigger('jump');
+    animator.update(0.25);
+    expect(animator.getCurrentState()).toBe('jump');
+    expect(animator.getParameter('jump')).toBe(false);
+    expect(rig.hips.position.y).toBeCloseTo(1.5);
+
+    animator.update(0.3);
+    // Holds the last frame until the exit time transition is evaluated
+    expect(animator.getNormalizedTime()).toBe(1);
+    expect(rig.hips.position.y).toBeCloseTo(3);
+    animator.update(0.01);
+    expect(animator.getCurrentState()).toBe('idle');
+  });
+
+  it('overrides masked bones from an upper layer', () => {
+    const { rig, animator } = createAnimator({
+      layers: [
+        { name: 'base', states: { walk: { motion: 'walk' } } },
+        { name: 'upper', mask: ['spine'], states: { slash: { motion: 'slash' } } },
+      ],
+    });
+    animator.update(0.5);
+    expect(rig.arm.position.y).toBeCloseTo(5);
+    // The leg is outside the mask and keeps the base layer's pose
+    expect(rig.leg.position.x).toBeCloseTo(1);
+
+    animator.setLayerWeight('upper', 0.5);
+    animator.update(0);
+    expect(rig.arm.position.y).toBeCloseTo(2.5);
+  });
+
+  it('adds additive layers on top of the pose', () => {
+    const { rig, animator } = createAnimator({
+      layers: [
+        { name: 'base', states: { idle: { motion: 'idle' } } },
+        { name: 'nod', blending: 'additive', weight: 0.5, states: { nod: { motion: 'nod' } } },
+      ],
+    });
+    animator.update(0.5);
+    // spine rest y = 1, nod adds 2 at half time, at half weight
+    expect(rig.spine.position.y).toBeCloseTo(2);
+  });
+
+  it('fires clip events from the heaviest blend tree child', () => {
+    const { animator } = createAnimator({
+      parameters: { speed: 'float' },
+      layers: [{
+        name: 'base',
+        states: {
+          move: { motion: { type: '1d', parameter: 'speed', children: [{ clip: 'walk', threshold: 0 }, { clip: 'run', threshold: 1 }] } },
+        },
+      }],
+      events: { walk: [{ time: 0.5, name: 'step' }], run: [{ time: 0.1, name: 'stride' }] },
+    });
+    const events: string[] = [];
+    animator.on('event', (name, state, layer) => events.push(`${layer}:${state}:${name}`));
+
+    animator.setFloat('speed', 0.2);
+    animator.update(0.5);
+    animator.update(1);
+    expect(events).toEqual(['base:move:step', 'base:move:step']);
+  });
+
+  it('rejects unknown names and transitions that can never wait', () => {
+    expect(() => createAnimator({ layers: [{ name: 'base', states: { a: { motion: 'fly' } } }] })).toThrow('"fly"');
+    expect(() => createAnimator({
+      layers: [{ name: 'base', states: { a: {}, b: {} }, transitions: [{ from: 'a', to: 'b' }] }],
+    })).toThrow('conditions or an exitTime');
+    const { animator } = createAnimator({ parameters: { speed: 'float' }, layers: [{ name: 'base', states: { a: {} } }] });
+    expect(() => animator.setFloat('sped', 1)).toThrow('"sped"');
+    expect(() => animator.setBool('speed', true)).toThrow('float');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as THREE from 'three';
+import { NavMesh, NavMeshData } from '../../../../src/three/navigation/NavMesh';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+/** Unit-square cells on a 5x5 vertex lattice, y from an optional height function */
+function gridMesh(cells: Array<[number, number]>, height: (x: number, z: number) => number = () => 0): NavMeshData {
+  const vertices: number[] = [];
+  for (let x = 0; x <= 4; x++) {
+    for (let z = 0; z <= 4; z++) vertices.push(x, height(x, z), z);
+  }
+  const v = (x: number, z: number) => x * 5 + z;
+  return {
+    vertices,
+    polygons: cells.map(([x, z]) => [v(x, z), v(x + 1, z), v(x + 1, z + 1), v(x, z + 1)]),
+  };
+}
+
+/** Row along z = 0..1, then a column up x = 3..4 */
+const L_SHAPE: Array<[number, number]> = [[0, 0], [1, 0], [2, 0], [3, 0], [3, 1], [3, 2], [3, 3]];
+
+const SQUARE: Array<[number, number]> = [];
+for (let x = 0; x < 3; x++) {
+  for (let z = 0; z < 3; z++) SQUARE.push([x, z]);
+}
+
+function toArrays(path: THREE.Vector3[] | null): number[][] {
+  return (path ?? []).map((p) => [+p.x.toFixed(3), +p.y.toFixed(3), +p.z.toFixed(3)]);
+}
+
+// ---------------------------------------------------------------------------
+// Building
+// ---------------------------------------------------------------------------
+
+describe('NavMesh building', () => {
+  it('keeps walkable triangles and welds shared vertices', () => {
+    const floor = [0, 0, 0, 0, 0, 1, 1, 0, 0, 1, 0, 0, 0, 0, 1, 1, 0, 1];
+    const wall = [0, 0, 0, 1, 0, 0, 0, 1, 0];
+    const ceiling = [0, 2, 0, 1, 2, 0, 0, 2, 1];
+    const ramp = [1, 0, 0, 1, 0, 1, 2, 0.5, 0];
+    const navMesh = NavMesh.fromTriangles([...floor, ...wall, ...ceiling, ...ramp], undefined, { maxSlope: 30 });
+
+    expect(navMesh.polygonCount).toBe(3);
+    expect(navMesh.toJSON().vertices.length / 3).toBe(5);
+    expect(navMesh.findPath({ x: 0.1, y: 0, z: 0.5 }, { x: 1.5, y: 0, z: 0.1 })).not.toBeNull();
+  });
+
+  it('builds from transformed scene meshes', () => {
+    const plane = new THREE.Mesh(new THREE.PlaneGeometry(4, 4, 2, 2).rotateX(-Math.PI / 2));
+    plane.position.set(10, 2, 0);
+    const scene = new THREE.Scene();
+    scene.add(plane);
+
+    const navMesh = NavMesh.fromObject(scene);
+    expect(navMesh.polygonCount).toBe(8);
+    expect(navMesh.isWalkable({ x: 11, y: 2, z: 1 })).toBe(true);
+    expect(navMesh.isWalkable({ x: 0, y: 0, z: 0 })).toBe(false);
+  });
+
+  it('round-trips baked data', () => {
+    const data = { ...gridMesh(L_SHAPE), costs: [1, 1, 2, 1, 1, 1, 1] };
+    expect(new NavMesh(data).toJSON()).toEqual(data);
+    expect(() => new NavMesh({ vertices: [0, 0, 0], polygons: [[0, 1, 2]] })).toThrow('missing vertex');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+describe('NavMesh queries', () => {
+  it('finds a straight path inside one region', () => {
+    const navMesh = new NavMesh(gridMesh(SQUARE));
+    expect(toArrays(navMesh.findPath({ x: 0.5, y: 0, z: 0.5 }, { x: 2.5, y: 0, z: 2.5 })))
+      .toEqual([[0.5, 0, 0.5], [2.5, 0, 2.5]]);
+  });
+
+  it('pulls the path tight around corners', () => {
+    const navMesh = new NavMesh(gridMesh(L_SHAPE));
+    const start = { x: 0.5, y: 0, z: 0.5 };
+    const end = { x: 3.5, y: 0, z: 3.5 };
+
+    expect(toArrays(navMesh.findPath(start, end))).toEqual([[0.5, 0, 0.5], [3, 0, 1], [3.5, 0, 3.5]]);
+    expect(navMesh.findPath(start, end, { raw: true })).toHaveLength(7);
+  });
+
+  it('snaps off-mesh points and follows slopes', () => {
+    const navMesh = new NavMesh(gridMesh(L_SHAPE, (x) => x * 0.5));
+    expect(navMesh.findPolygon({ x: 1.5, y: 5, z: 0.5 })).toBe(1);
+    expect(navMesh.closestPoint({ x: -1, y: 0, z: 0.5 })!.toArray()).toEqual([0, 0, 0.5]);
+    expect(navMesh.closestPoint({ x: -1, y: 0, z: 0.5 }, 0.5)).toBeNull();
+
+    const path = navMesh.findPath({ x: 0.5, y: 0, z: 0.5 }, { x: 3.5, y: 0, z: 3.5 })!;
+    expect(path[0].y).toBeCloseTo(0.25);
+    expect(path[1].y).toBeCloseTo(1.5);
+    expect(path[2].y).toBeCloseTo(1.75);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Obstacles & debug
+// ---------------------------------------------------------------------------
+
+describe('NavMesh obstacles', () => {
+  it('routes around blocked polygons and restores them on removal', () => {
+    const navMesh = new NavMesh(gridMesh(SQUARE));
+    const start = { x: 0.5, y: 0, z: 1.5 };
+    const end = { x: 2.5, y: 0, z: 1.5 };
+    const box = navMesh.addObstacle({ type: 'box', minX: 1.2, minZ: 1.2, maxX: 1.8, maxZ: 1.8 });
+
+    expect(navMesh.isWalkable({ x: 1.5, y: 0, z: 1.5 })).toBe(false);
+    const detour = navMesh.findPath(start, end)!;
+    expect(detour).toHaveLength(4);
+    for (const point of detour.slice(1, -1)) {
+      expect([1, 2]).toContain(point.z);
+    }
+
+    navMesh.removeObstacle(box);
+    expect(navMesh.findPath(start, end)).toHaveLength(2);
+  });
+
+  it('blocks unreachable goals and moves circle obstacles', () => {
+    const navMesh = new NavMesh(gridMesh(L_SHAPE));
+    const start = { x: 0.5, y: 0, z: 0.5 };
+    const end = { x: 3.5, y: 0, z: 3.5 };
+    const circle = navMesh.addObstacle({ type: 'circle', x: 3.5, z: 1.5, radius: 0.2 });
+
+    expect(navMesh.findPath(start, end)).toBeNull();
+    navMesh.updateObstacle(circle, { type: 'circle', x: 3.5, z: 3.5, radius: 0.2 });
+    expect(navMesh.isBlocked(4)).toBe(false);
+    expect(navMesh.findPath(start, end)).toBeNull();
+    expect(navMesh.findPath(start, { x: 3.5, y: 0, z: 2.5 })).not.toBeNull();
+
+    navMesh.clearObstacles();
+    navMesh.addObstacle({ type: 'circle', x: 3.5, z: 1.5, radius: 0.2 }, { cost: 5 });
+    expect(navMesh.findPath(start, end)).not.toBeNull();
+  });
+
+  it('creates debug overlays', () => {
+    const navMesh = new NavMesh(gridMesh(L_SHAPE));
+    navMesh.addObstacle({ type: 'circle', x: 0.5, z: 0.5, radius: 0.1 });
+
+    const mesh = navMesh.createDebugMesh({ blockedColor: 0xff0000, color: 0x0000ff });
+    const colors = mesh.geometry.getAttribute('color');
+    expect(mesh.geometry.getAttribute('position').count).toBe(7 * 6);
+    expect([colors.getX(0), colors.getZ(0)]).toEqual([1, 0]);
+    expect([colors.getX(6), colors.getZ(6)]).toEqual([0, 1]);
+
+    const line = navMesh.createPathLine(navMesh.findPath({ x: 0.5, y: 0, z: 0.5 }, { x: 3.5, y: 0, z: 3.5 })!, { yOffset: 1 });
+    expect(line.geometry.getAttribute('position').getY(0)).toBe(1);
+  });
+});
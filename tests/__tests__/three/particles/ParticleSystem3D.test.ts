@@ -0,0 +1,229 @@
+/**
+ * @jest-environment jsdom
+ *
+ * ParticleSystem3D tests — simulation and instance buffers only, no WebGL.
+ */
+
+import * as THREE from 'three';
+import { ParticleSystem3D } from '../../../../src/three/particles/ParticleSystem3D';
+import { ParticlePool3D } from '../../../../src/three/particles/ParticlePool3D';
+import { parseParticleEffect3D, createEmissionSampler3D } from '../../../../src/three/particles/ParticleEffect3D';
+import { InstanceManager } from '../../../../src/three/instancing/InstanceManager';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Deterministic RNG cycling through `values` */
+function sequence(...values: number[]) {
+  let i = 0;
+  return { next: () => values[i++ % values.length] };
+}
+
+function attribute(system: ParticleSystem3D, name: string): THREE.InstancedBufferAttribute {
+  return system.getMesh()!.geometry.getAttribute(name) as THREE.InstancedBufferAttribute;
+}
+
+/** Position of particle `i` from the instance buffer */
+function offset(system: ParticleSystem3D, i: number): THREE.Vector3 {
+  return new THREE.Vector3().fromBufferAttribute(attribute(system, 'aOffset'), i);
+}
+
+// A single particle fired straight up at 10 units/sec for 10 seconds
+const STRAIGHT_UP = {
+  maxParticles: 10,
+  rate: 0,
+  lifetime: { min: 10, max: 10 },
+  speed: { min: 10, max: 10 },
+  spread: 0,
+};
+
+// ---------------------------------------------------------------------------
+// parseParticleEffect3D
+// ---------------------------------------------------------------------------
+
+describe('parseParticleEffect3D', () => {
+  it('normalizes colors and round-trips through JSON', () => {
+    const effect = {
+      emission: { type: 'sphere', radius: 2, surface: true },
+      gravity: { x: 0, y: -9.8, z: 0 },
+      alpha: { keys: [{ time: 0, value: 0 }, { time: 0.1, value: 1 }, { time: 1, value: 0 }] },
+      blending: 'additive',
+      space: 'local',
+    };
+    expect(parseParticleEffect3D(JSON.parse(JSON.stringify(effect)))).toEqual(effect);
+    expect(parseParticleEffect3D({ color: { start: '#ff0000', end: 0 } }).color).toEqual({ start: 0xff0000, end: 0 });
+  });
+
+  it('reports the path of invalid fields', () => {
+    expect(() => parseParticleEffect3D({ gravity: { x: 0, y: -1 } })).toThrow('effect.gravity.z');
+    expect(() => parseParticleEffect3D({ emission: { type: 'box', width: 1, height: 1 } })).toThrow('effect.emission.depth');
+    expect(() => parseParticleEffect3D({ space: 'screen' })).toThrow('effect.space');
+  });
+
+  it('samples emission volumes within their bounds', () => {
+    const out = { x: 0, y: 0, z: 0, nx: 0, ny: 0, nz: 0 };
+    const sphere = createEmissionSampler3D({ type: 'hemisphere', radius: 2, surface: true });
+    const circle = createEmissionSampler3D({ type: 'circle', radius: 3 });
+    for (let i = 0; i < 50; i++) {
+      sphere({ next: Math.random }, out);
+      expect(Math.hypot(out.x, out.y, out.z)).toBeCloseTo(2);
+      expect(out.y).toBeGreaterThanOrEqual(0);
+      circle({ next: Math.random }, out);
+      expect(out.y).toBe(0);
+      expect(Math.hypot(out.x, out.z)).toBeLessThanOrEqual(3 + 1e-6);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ParticleSystem3D
+// ---------------------------------------------------------------------------
+
+describe('ParticleSystem3D', () => {
+  it('renders live particles as instances of one billboard mesh', () => {
+    const system = new ParticleSystem3D({ maxParticles: 50, rate: 10, blending: 'normal' });
+    const mesh = system.getMesh()!;
+    expect(mesh).toBeInstanceOf(THREE.InstancedMesh);
+    expect(mesh.parent).toBe(system);
+    expect((mesh.material as THREE.ShaderMaterial).blending).toBe(THREE.NormalBlending);
+    expect((mesh.material as THREE.ShaderMaterial).depthWrite).toBe(false);
+
+    system.play();
+    system.update(0.55);
+    expect(system.activeCount).toBe(5);
+    expect(mesh.count).toBe(5);
+  });
+
+  it('moves particles and writes size, color and alpha curves', () => {
+    const system = new ParticleSystem3D({
+      ...STRAIGHT_UP,
+      gravity: { x: 0, y: 0, z: 0 },
+      size: { start: 1, end: 3 },
+      alpha: { keys: [{ time: 0, value: 0 }, { time: 0.5, value: 1 }, { time: 1, value: 1 }] },
+      color: { start: '#ff0000', end: '#0000ff' },
+    });
+    system.burst(1);
+    system.update(2.5);
+
+    expect(offset(system, 0).y).toBeCloseTo(25);
+    const colors = attribute(system, 'aColor');
+    expect(colors.getX(0)).toBeCloseTo(0.75, 1);
+    expect(colors.getZ(0)).toBeCloseTo(0.25, 1);
+    expect(colors.getW(0)).toBeCloseTo(0.5);
+    expect(attribute(system, 'aSizeRotation').getX(0)).toBeCloseTo(1.5);
+  });
+
+  it('emits within the spread cone around the direction', () => {
+    const system = new ParticleSystem3D({
+      ...STRAIGHT_UP,
+      direction: { x: 1, y: 0, z: 0 },
+      spread: Math.PI / 6,
+      speed: { min: 1, max: 1 },
+    });
+    system.burst(10);
+    system.update(1);
+    for (let i = 0; i < 10; i++) {
+      const p = offset(system, i);
+      expect(p.length()).toBeCloseTo(1);
+      expect(p.x).toBeGreaterThanOrEqual(Math.cos(Math.PI / 6) - 1e-5);
+    }
+  });
+
+  it('leaves world-space particles behind and carries local-space ones', () => {
+    const world = new ParticleSystem3D({ ...STRAIGHT_UP, speed: { min: 0, max: 0 } });
+    const local = new ParticleSystem3D({ ...STRAIGHT_UP, speed: { min: 0, max: 0 }, space: 'local' });
+    for (const system of [world, local]) {
+      system.position.set(5, 0, 0);
+      system.burst(1);
+      system.position.set(100, 0, 0);
+      system.update(0.1);
+    }
+    // World space stores where it spawned; local space stores the offset from the system
+    expect(offset(world, 0).x).toBeCloseTo(5);
+    expect(offset(local, 0).x).toBeCloseTo(0);
+  });
+
+  it('kills expired particles and fires complete after the duration', () => {
+    const system = new ParticleSystem3D({
+      maxParticles: 20,
+      rate: 0,
+      lifetime: { min: 0.18, max: 0.18 },
+      bursts: [{ time: 0, count: 4 }, { time: 0.3, count: 2 }],
+      duration: 0.5,
+    }, { random: sequence(0.5) });
+    const complete = jest.fn();
+    system.addEventListener('complete', complete);
+    const step = (seconds: number) => {
+      for (let t = 0; t < seconds - 1e-9; t += 0.05) system.update(0.05);
+    };
+
+    system.play();
+    step(0.1);
+    expect(system.activeCount).toBe(4);
+    step(0.25); // first burst expired, second fired at 0.3
+    expect(system.activeCount).toBe(2);
+    step(0.1);
+    expect(system.activeCount).toBe(0);
+    expect(complete).not.toHaveBeenCalled();
+    step(0.1); // duration reached
+    expect(system.isEmitting).toBe(false);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('drives InstanceManager handles in mesh mode', () => {
+    const scene = new THREE.Scene();
+    const manager = new InstanceManager(scene);
+    // Stay below the instancing threshold so each handle is a visible clone
+    manager.setThreshold(100);
+    const source = new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial());
+    const system = new ParticleSystem3D(
+      { ...STRAIGHT_UP, size: { start: 2, end: 2 } },
+      { mesh: { manager, key: 'debris', source } }
+    );
+    expect(system.getMesh()).toBeNull();
+
+    system.burst(3);
+    system.update(1);
+    expect(manager.getInstanceCount('debris')).toBe(3);
+
+    // Dead particles hide their handles, which are reused by the next burst
+    system.clearParticles();
+    system.burst(2);
+    system.update(0.1);
+    expect(manager.getInstanceCount('debris')).toBe(3);
+    const visible = scene.children.filter((c) => c.visible);
+    expect(visible).toHaveLength(2);
+    expect(visible[0].scale.x).toBe(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ParticlePool3D
+// ---------------------------------------------------------------------------
+
+describe('ParticlePool3D', () => {
+  it('plays pooled systems and recycles them on complete', () => {
+    const scene = new THREE.Scene();
+    const pool = new ParticlePool3D(
+      { rate: 0, lifetime: { min: 0.1, max: 0.1 }, bursts: [{ time: 0, count: 5 }], duration: 0.01 },
+      { scene, initialSize: 1 }
+    );
+
+    const first = pool.play({ x: 1, y: 2, z: 3 });
+    expect(first.parent).toBe(scene);
+    expect(first.position.toArray()).toEqual([1, 2, 3]);
+    pool.update(0.02);
+    expect(first.activeCount).toBe(5);
+    expect(pool.getActiveCount()).toBe(1);
+
+    pool.update(0.2);
+    expect(pool.getActiveCount()).toBe(0);
+    expect(first.parent).toBeNull();
+
+    // The released system is reused
+    expect(pool.play({ x: 0, y: 0, z: 0 }, 3)).toBe(first);
+    expect(first.activeCount).toBe(3);
+    pool.destroy();
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import * as PIXI from 'pixi.js';
+import { TiledMap, tileGid, TILE_FLIP_HORIZONTAL } from '../../../src/tilemap/TiledMap';
+import { parseTmx } from '../../../src/tilemap/TmxParser';
+import { TiledMapLoader } from '../../../src/tilemap/TiledMapLoader';
+import { TilemapRenderer } from '../../../src/tilemap/TilemapRenderer';
+import {
+  tiledObjectToBodyConfig,
+  tiledObjectToWaypoints,
+  createBodiesFromObjects,
+} from '../../../src/tilemap/TiledObjects';
+import { AssetType } from '../../../src/contracts/AssetManager';
+import type { TiledMapJSON } from '../../../src/tilemap/TiledTypes';
+
+const base64Gids = (gids: number[]): string => {
+  const bytes = new Uint8Array(new Uint32Array(gids).buffer);
+  return btoa(String.fromCharCode(...bytes));
+};
+
+const makeMapJSON = (): TiledMapJSON => ({
+  orientation: 'orthogonal',
+  width: 4,
+  height: 2,
+  tilewidth: 16,
+  tileheight: 16,
+  properties: [{ name: 'music', type: 'string', value: 'forest' }],
+  tilesets: [
+    {
+      firstgid: 1,
+      name: 'terrain',
+      image: '../images/terrain.png',
+      imagewidth: 64,
+      imageheight: 32,
+      tilewidth: 16,
+      tileheight: 16,
+      tilecount: 8,
+      columns: 4,
+      tiles: [
+        { id: 1, properties: [{ name: 'solid', type: 'bool', value: true }] },
+        { id: 2, animation: [{ tileid: 2, duration: 100 }, { tileid: 3, duration: 100 }] },
+      ],
+    },
+    { firstgid: 9, source: 'props.tsj' },
+  ],
+  layers: [
+    { type: 'tilelayer', name: 'ground', width: 4, height: 2, data: [1, 2, 3, 0, 0, 2 | TILE_FLIP_HORIZONTAL, 0, 9] },
+    {
+      type: 'group',
+      name: 'decor',
+      offsetx: 5,
+      opacity: 0.5,
+      layers: [
+        { type: 'tilelayer', name: 'overlay', width: 4, height: 2, encoding: 'base64', data: base64Gids([0, 0, 3, 3, 0, 0, 0, 0]), offsety: 2, opacity: 0.5 },
+      ],
+    },
+    {
+      type: 'objectgroup',
+      name: 'logic',
+      objects: [
+        { id: 1, name: 'wall', x: 0, y: 0, width: 32, height: 16, properties: [{ name: 'friction', type: 'float', value: 0.5 }] },
+        { id: 2, name: 'path', type: 'route', x: 10, y: 10, polyline: [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 30 }] },
+        { id: 3, name: 'rock', x: 100, y: 100, polygon: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }] },
+        { id: 4, name: 'spawn', point: true, x: 7, y: 8 },
+      ],
+    },
+  ],
+});
+
+const propsTileset = { name: 'props', tilewidth: 16, tileheight: 32, tilecount: 1, columns: 1, image: 'props.png', imagewidth: 16, imageheight: 32 };
+
+describe('TiledMap', () => {
+  it('parses tilesets, flattened layers, properties and tile data', () => {
+    const map = new TiledMap(makeMapJSON(), {
+      baseUrl: 'assets/maps/level1.json',
+      externalTilesets: { 'props.tsj': propsTileset },
+    });
+
+    expect(map.properties.music).toBe('forest');
+    expect(map.tilesets.map((t) => t.image)).toEqual(['assets/images/terrain.png', 'assets/maps/props.png']);
+    expect(map.layers.map((l) => l.name)).toEqual(['ground', 'overlay', 'logic']);
+
+    const overlay = map.getTileLayer('overlay')!;
+    expect(overlay.offsetX).toBe(5);
+    expect(overlay.offsetY).toBe(2);
+    expect(overlay.opacity).toBeCloseTo(0.25);
+    expect(map.getGid(overlay, 2, 0)).toBe(3);
+
+    const flipped = map.getTileLayer('ground')!.data[5];
+    expect(tileGid(flipped)).toBe(2);
+    expect(map.getGid('ground', 1, 1)).toBe(2);
+    expect(map.getTileProperties(2).solid).toBe(true);
+    expect(map.getTileData(3)!.animation).toEqual([{ tileId: 2, duration: 100 }, { tileId: 3, duration: 100 }]);
+    expect(map.getTileset(9)!.name).toBe('props');
+    expect(map.findObject('spawn')!.shape).toBe('point');
+  });
+
+  it('merges infinite-map chunks and rejects missing external tilesets', () => {
+    const json = makeMapJSON();
+    json.layers = [{
+      type: 'tilelayer',
+      name: 'inf',
+      width: 0,
+      height: 0,
+      chunks: [
+        { x: -2, y: 0, width: 2, height: 1, data: [1, 2] },
+        { x: 0, y: 1, width: 2, height: 1, data: [3, 4] },
+      ],
+    }];
+    expect(() => new TiledMap(json)).toThrow(/props\.tsj/);
+
+    const map = new TiledMap(json, { externalTilesets: { 'props.tsj': propsTileset } });
+    const layer = map.getTileLayer('inf')!;
+    expect([layer.startX, layer.startY, layer.width, layer.height]).toEqual([-2, 0, 4, 2]);
+    expect(map.getGid(layer, -1, 0)).toBe(2);
+    expect(map.getGid(layer, 1, 1)).toBe(4);
+    expect(map.getGid(layer, 0, 0)).toBe(0);
+  });
+
+  it('reads TMX maps into the same structure', () => {
+    const tmx = `<?xml version="1.0" encoding="UTF-8"?>
+<map version="1.10" orientation="orthogonal" width="2" height="2" tilewidth="8" tileheight="8" infinite="0">
+ <properties><property name="level" type="int" value="3"/></properties>
+ <tileset firstgid="1" name="t" tilewidth="8" tileheight="8" tilecount="4" columns="2">
+  <image source="t.png" width="16" height="16"/>
+  <tile id="0"><animation><frame tileid="0" duration="50"/><frame tileid="1" duration="50"/></animation></tile>
+ </tileset>
+ <layer id="1" name="ground" width="2" height="2"><data encoding="csv">1,2,
+3,0</data></layer>
+ <objectgroup id="2" name="logic">
+  <object id="1" name="route" x="4" y="4"><polyline points="0,0 8,0 8,8"/></object>
+  <object id="2" name="door" class="trigger" x="0" y="0" width="8" height="8"><properties><property name="locked" type="bool" value="true"/></properties></object>
+ </objectgroup>
+</map>`;
+    const map = new TiledMap(parseTmx(tmx), { baseUrl: 'maps/a.tmx' });
+    expect(map.properties.level).toBe(3);
+    expect(map.tilesets[0].image).toBe('maps/t.png');
+    expect(map.getTileData(1)!.animation!.length).toBe(2);
+    expect(map.getGid('ground', 0, 1)).toBe(3);
+    expect(tiledObjectToWaypoints(map.findObject('route')!)).toEqual([{ x: 4, y: 4 }, { x: 12, y: 4 }, { x: 12, y: 12 }]);
+    const door = map.findObject('door')!;
+    expect(door.type).toBe('trigger');
+    expect(door.properties.locked).toBe(true);
+  });
+
+  it('loads maps and external tilesets through the asset loader', async () => {
+    const files: Record<string, string> = {
+      'maps/level1.json': JSON.stringify(makeMapJSON()),
+      'maps/props.tsj': JSON.stringify(propsTileset),
+    };
+    const loader = new TiledMapLoader();
+    jest.spyOn(loader as any, 'loadWithXHR').mockImplementation(async (config: any) => files[config.src]);
+
+    const map = await loader.load({ id: 'level1', type: AssetType.TILEMAP, src: 'maps/level1.json' });
+    expect(map.getTileset(9)!.image).toBe('maps/props.png');
+    await expect(loader.load({ id: 'x', type: AssetType.JSON, src: 'x.json' })).rejects.toThrow(/cannot load/);
+  });
+});
+
+describe('Tiled object helpers', () => {
+  const map = new TiledMap(makeMapJSON(), { externalTilesets: { 'props.tsj': propsTileset } });
+
+  it('converts objects to static body configs', () => {
+    const wall = tiledObjectToBodyConfig(map.findObject('wall')!)!;
+    expect(wall.type).toBe('static');
+    expect(wall.position).toEqual({ x: 16, y: 8 });
+    expect(wall.shapes[0]).toEqual({ type: 'box', dimensions: { x: 32, y: 16 } });
+    expect(wall.material!.friction).toBe(0.5);
+    expect(wall.userData.tiled.name).toBe('wall');
+
+    const rock = tiledObjectToBodyConfig(map.findObject('rock')!)!;
+    expect(rock.position.x).toBeCloseTo(105);
+    expect(rock.position.y).toBeCloseTo(105);
+    expect(rock.shapes[0].type).toBe('mesh');
+
+    expect(tiledObjectToBodyConfig(map.findObject('path')!)).toBeNull();
+    expect(tiledObjectToBodyConfig(map.findObject('spawn')!)).toBeNull();
+
+    const world = { createBody: jest.fn((config) => ({ id: config.id })) };
+    const bodies = createBodiesFromObjects(world as any, map.getObjects('logic'));
+    expect(bodies.map((b) => b.id)).toEqual(['tiled_logic_1', 'tiled_logic_3']);
+  });
+});
+
+describe('TilemapRenderer', () => {
+  const textureOf = (width: number, height: number) =>
+    new PIXI.Texture({ source: new PIXI.TextureSource({ width, height }) });
+
+  const createRenderer = (options = {}) => {
+    const map = new TiledMap(makeMapJSON(), { externalTilesets: { 'props.tsj': propsTileset } });
+    return new TilemapRenderer(map, {
+      textures: { '../images/terrain.png': textureOf(64, 32), 'props.png': textureOf(16, 32) },
+      chunkSize: 2,
+      ...options,
+    });
+  };
+
+  it('builds chunks lazily as the viewport moves', () => {
+    const renderer = createRenderer();
+    renderer.setViewport(-500, -500, 10, 10);
+    expect(renderer.builtChunks).toBe(0);
+
+    renderer.setViewport(0, 0, 8, 8);
+    const ground = renderer.getLayerContainer('ground')!;
+    expect(ground.children.length).toBeGreaterThan(0);
+    expect(ground.children.every((chunk) => chunk.visible)).toBe(true);
+
+    renderer.setViewport(-500, -500, 10, 10);
+    expect(ground.children.some((chunk) => chunk.visible)).toBe(false);
+    expect(renderer.getLayerContainer('decor')).toBeUndefined();
+    expect(renderer.getLayerContainer('overlay')!.alpha).toBeCloseTo(0.25);
+  });
+
+  it('renders flips, tall tiles and animations', () => {
+    const renderer = createRenderer({ cull: false });
+    const chunks = renderer.getLayerContainer('ground')!.children as PIXI.Container[];
+    const sprites = chunks.flatMap((chunk) => chunk.children as PIXI.Sprite[]);
+    expect(sprites.length).toBe(5);
+
+    const flipped = sprites.find((s) => s.position.x === 24 && s.position.y === 24)!;
+    // Horizontal flip: effective transform is diag(-1, 1)
+    expect(Math.cos(flipped.rotation) * flipped.scale.x).toBeCloseTo(-1);
+    expect(Math.cos(flipped.rotation) * flipped.scale.y).toBeCloseTo(1);
+
+    // 16x32 prop tile is bottom-aligned to its 16x16 cell at (3, 1)
+    const tall = sprites.find((s) => s.texture.height === 32)!;
+    expect(tall.position.y).toBe(16);
+
+    const animated = sprites.filter((s) => s.texture === renderer.getTileTexture(3));
+    expect(animated.length).toBe(1);
+    renderer.update(0.15);
+    expect(animated.every((s) => s.texture === renderer.getTileTexture(4))).toBe(true);
+    renderer.destroy();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { Tween } from '../../../src/tween/Tween';
+import { Timeline } from '../../../src/tween/Timeline';
+import { TweenManager } from '../../../src/tween/TweenManager';
+import { Ease } from '../../../src/tween/Ease';
+
+/** Advance in discrete steps summing to `total` ms. */
+function tickTo(total: number, step = 16): void {
+  let elapsed = 0;
+  while (elapsed < total) {
+    const dt = Math.min(step, total - elapsed);
+    TweenManager.update(dt);
+    elapsed += dt;
+  }
+}
+
+beforeEach(() => {
+  TweenManager._reset();
+});
+
+describe('Timeline placement', () => {
+  it('sequences children by default and resolves relative positions', () => {
+    const a = { x: 0 };
+    const tl = Timeline.create({ paused: true })
+      .to(a, { x: 100 }, { duration: 100, ease: Ease.linear })
+      .to(a, { x: 200 }, { duration: 100, ease: Ease.linear }, '+=50')
+      .addLabel('end')
+      .call(() => undefined, 'end-=20')
+      .to(a, { x: 0 }, { duration: 100 }, '<');
+
+    // '<' starts with the preceding call at 230
+    expect(tl.duration).toBe(330);
+    expect(tl.getLabelTime('end')).toBe(250);
+    // Only the timeline is driven by TweenManager
+    expect(TweenManager.activeCount).toBe(1);
+  });
+
+  it('places children at labels with offsets, creating missing labels at the end', () => {
+    const tl = Timeline.create({ paused: true })
+      .to({ x: 0 }, { x: 1 }, { duration: 200 })
+      .to({ x: 0 }, { x: 1 }, { duration: 100 }, 'intro+=50');
+
+    expect(tl.getLabelTime('intro')).toBe(200);
+    expect(tl.duration).toBe(350);
+  });
+
+  it('rejects infinitely repeating children', () => {
+    const tl = Timeline.create();
+    expect(() => tl.to({ x: 0 }, { x: 1 }, { duration: 100, repeat: -1 })).toThrow();
+  });
+});
+
+describe('Timeline playback', () => {
+  it('drives children from TweenManager.update and fires per-child callbacks', () => {
+    const obj = { x: 0, y: 0 };
+    const onStart = jest.fn();
+    const onChildComplete = jest.fn();
+    const onComplete = jest.fn();
+    const progress: number[] = [];
+
+    const tl = Timeline.create({ onComplete, onUpdate: (p) => progress.push(p) })
+      .to(obj, { x: 100 }, { duration: 100, ease: Ease.linear });
+    tl.add(Tween.to(obj, { y: 50 }, { duration: 100, ease: Ease.linear }), undefined, {
+      onStart,
+      onComplete: onChildComplete,
+    });
+
+    tickTo(50);
+    expect(obj.x).toBeCloseTo(50);
+    expect(obj.y).toBe(0);
+    expect(onStart).not.toHaveBeenCalled();
+
+    tickTo(100);
+    expect(obj.x).toBe(100);
+    expect(obj.y).toBeCloseTo(25);
+    expect(onStart).toHaveBeenCalledTimes(1);
+
+    tickTo(100);
+    expect(obj.y).toBe(50);
+    expect(onChildComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(TweenManager.activeCount).toBe(0);
+  });
+
+  it('respects timeScale', () => {
+    const obj = { x: 0 };
+    const tl = Timeline.create({ timeScale: 2 }).to(obj, { x: 100 }, { duration: 100, ease: Ease.linear });
+    tickTo(25);
+    expect(obj.x).toBeCloseTo(50);
+    tl.timeScale = 0.5;
+    tickTo(20);
+    expect(obj.x).toBeCloseTo(60);
+  });
+
+  it('fires calls and labels in order, including in skipped spans', () => {
+    const log: string[] = [];
+    const tl = Timeline.create()
+      .call(() => log.push('a'), 10)
+      .addLabel('mid', 20)
+      .call(() => log.push('b'), 30);
+    tl.on('label', (name) => log.push(`label:${name}`));
+
+    TweenManager.update(100);
+    expect(log).toEqual(['a', 'label:mid', 'b']);
+  });
+});
+
+describe('Timeline seeking and reversal', () => {
+  function build() {
+    const obj = { x: 0, alpha: 1 };
+    const tl = Timeline.create({ paused: true })
+      .to(obj, { x: 100 }, { duration: 100, ease: Ease.linear })
+      .addLabel('fade')
+      .to(obj, { alpha: 0 }, { duration: 100, ease: Ease.linear });
+    return { obj, tl };
+  }
+
+  it('seeks forward and backward statelessly', () => {
+    const { obj, tl } = build();
+
+    tl.seek(150);
+    expect(obj.x).toBe(100);
+    expect(obj.alpha).toBeCloseTo(0.5);
+
+    tl.seek(50);
+    expect(obj.x).toBeCloseTo(50);
+    expect(obj.alpha).toBe(1);
+
+    tl.seek('fade');
+    expect(tl.time).toBe(100);
+    expect(obj.x).toBe(100);
+    expect(() => tl.seek('missing')).toThrow();
+  });
+
+  it('reverses from the current position back to the start', () => {
+    const { obj, tl } = build();
+    const onReverseComplete = jest.fn();
+    tl.on('reverse-complete', onReverseComplete);
+
+    tl.play();
+    tickTo(150);
+    tl.reverse();
+    tickTo(100);
+    expect(obj.x).toBeCloseTo(50);
+    expect(obj.alpha).toBe(1);
+
+    tickTo(100);
+    expect(obj.x).toBe(0);
+    expect(tl.progress).toBe(0);
+    expect(onReverseComplete).toHaveBeenCalledTimes(1);
+
+    // Finished timelines re-register when played again
+    tl.play();
+    expect(TweenManager.activeCount).toBe(1);
+    tickTo(200);
+    expect(obj.alpha).toBe(0);
+  });
+
+  it('repeats with yoyo and emits repeat events', () => {
+    const obj = { x: 0 };
+    const repeats: number[] = [];
+    const tl = Timeline.create({ repeat: 1, yoyo: true }).to(obj, { x: 100 }, { duration: 100, ease: Ease.linear });
+    tl.on('repeat', (count) => repeats.push(count));
+
+    expect(tl.totalDuration).toBe(200);
+    tickTo(150);
+    expect(obj.x).toBeCloseTo(50);
+    expect(repeats).toEqual([1]);
+    tickTo(50);
+    expect(obj.x).toBe(0);
+  });
+
+  it('nests timelines', () => {
+    const obj = { x: 0, y: 0 };
+    const inner = Timeline.create().to(obj, { y: 10 }, { duration: 100, ease: Ease.linear });
+    const outer = Timeline.create({ paused: true })
+      .to(obj, { x: 10 }, { duration: 100, ease: Ease.linear })
+      .add(inner, '-=50');
+
+    expect(outer.duration).toBe(150);
+    expect(TweenManager.activeCount).toBe(1);
+    outer.seek(100);
+    expect(obj.x).toBe(10);
+    expect(obj.y).toBeCloseTo(5);
+    outer.seek(0);
+    expect(obj.y).toBe(0);
+  });
+});
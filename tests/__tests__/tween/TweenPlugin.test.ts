@@ -0,0 +1,165 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { Tween } from '../../../src/tween/Tween';
+import { TweenManager } from '../../../src/tween/TweenManager';
+import { TweenPlugins } from '../../../src/tween/TweenPlugin';
+import { Timeline } from '../../../src/tween/Timeline';
+import { Ease } from '../../../src/tween/Ease';
+import { color, parseColor } from '../../../src/tween/ColorPlugin';
+import { MotionPath, motionPath } from '../../../src/tween/MotionPath';
+
+beforeEach(() => {
+  TweenManager._reset();
+  TweenPlugins._reset();
+});
+
+describe('nested properties', () => {
+  it('tweens dotted paths, vectors and arrays', () => {
+    const mesh = { scale: { x: 1, y: 1 }, position: { x: 0, y: 0, z: 0 }, weights: [0, 0] };
+    Tween.to(mesh, { 'scale.x': 3, position: { y: 10, z: -10 }, weights: [1, 0.5] }, { duration: 100, ease: Ease.linear });
+
+    TweenManager.update(50);
+    expect(mesh.scale.x).toBeCloseTo(2);
+    expect(mesh.position.y).toBeCloseTo(5);
+    expect(mesh.position.z).toBeCloseTo(-5);
+    expect(mesh.weights[1]).toBeCloseTo(0.25);
+    expect(mesh.position.x).toBe(0);
+  });
+
+  it('supports Tween.from() on nested properties', () => {
+    const sprite = { scale: { x: 1, y: 1 } };
+    Tween.from(sprite, { scale: { x: 0, y: 0 } }, { duration: 100, ease: Ease.linear });
+    expect(sprite.scale.x).toBe(0);
+    TweenManager.update(100);
+    expect(sprite.scale.x).toBe(1);
+  });
+
+  it('throws for unresolvable paths', () => {
+    expect(() => Tween.to({}, { 'scale.x': 1 }, { duration: 100 })).toThrow(/scale\.x/);
+  });
+});
+
+describe('ColorPlugin', () => {
+  it('interpolates numeric colors per channel in RGB', () => {
+    const sprite = { tint: 0x000000 };
+    Tween.to(sprite, { tint: color(0xff8000) }, { duration: 100, ease: Ease.linear });
+    TweenManager.update(50);
+    expect(sprite.tint).toBe(0x804000);
+    TweenManager.update(50);
+    expect(sprite.tint).toBe(0xff8000);
+  });
+
+  it('takes the short way round the hue wheel in HSL', () => {
+    // red (h=0) -> magenta (h=300°) passes through h=330°, not green
+    const sprite = { tint: 0xff0000 };
+    Tween.to(sprite, { tint: color(0xff00ff, 'hsl') }, { duration: 100, ease: Ease.linear });
+    TweenManager.update(50);
+    expect(sprite.tint >> 8).toBe(0xff00);
+    expect(sprite.tint & 0xff).toBeCloseTo(0x80, -1);
+  });
+
+  it('keeps the target representation for strings and { r, g, b } objects', () => {
+    const style = { fill: '#000' };
+    const material = { color: { r: 0, g: 0, b: 0 } };
+    Tween.to(style, { fill: '#ffffff' }, { duration: 100, ease: Ease.linear });
+    Tween.to(material, { color: color('#ff0000') }, { duration: 100, ease: Ease.linear });
+    TweenManager.update(100);
+    expect(style.fill).toBe('#ffffff');
+    expect(material.color).toEqual({ r: 1, g: 0, b: 0 });
+  });
+
+  it('plays from() colors backwards', () => {
+    const sprite = { tint: 0xffffff };
+    Tween.from(sprite, { tint: color(0x000000) }, { duration: 100, ease: Ease.linear });
+    expect(sprite.tint).toBe(0x000000);
+    TweenManager.update(100);
+    expect(sprite.tint).toBe(0xffffff);
+  });
+
+  it('parses short hex strings', () => {
+    expect(parseColor('#f80')).toBe(0xff8800);
+    expect(() => parseColor('red')).toThrow();
+  });
+});
+
+describe('MotionPath', () => {
+  it('moves at constant speed along linear paths', () => {
+    const obj = { x: 0, y: 0, rotation: 0 };
+    Tween.to(obj, {
+      motionPath: motionPath({ points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }], curve: 'linear', autoRotate: true }),
+    }, { duration: 100, ease: Ease.linear });
+
+    TweenManager.update(25);
+    expect(obj.x).toBeCloseTo(50);
+    expect(obj.y).toBeCloseTo(0);
+    expect(obj.rotation).toBeCloseTo(0);
+
+    TweenManager.update(50);
+    expect(obj.x).toBeCloseTo(100);
+    expect(obj.y).toBeCloseTo(50);
+    expect(obj.rotation).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('passes through every point on Catmull-Rom paths', () => {
+    const path = new MotionPath({ points: [{ x: 0, y: 0 }, { x: 50, y: 50 }, { x: 100, y: 0 }] });
+    const out = { x: 0, y: 0, z: 0 };
+    path.getPoint(1, out);
+    expect(out.x).toBeCloseTo(100);
+    // The middle point is the symmetric midpoint of the path
+    path.getPoint(0.5, out);
+    expect(out.x).toBeCloseTo(50, 0);
+    expect(out.y).toBeCloseTo(50, 0);
+  });
+
+  it('writes to a nested vector and offsets relative paths', () => {
+    const mesh = { position: { x: 10, y: 0, z: 5 }, rotation: { x: 0, y: 0, z: 0 } };
+    Tween.to(mesh, {
+      position: motionPath({
+        points: [{ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 10 }],
+        curve: 'linear',
+        relative: true,
+        autoRotate: true,
+      }),
+    }, { duration: 100, ease: Ease.linear });
+
+    TweenManager.update(100);
+    expect(mesh.position).toEqual({ x: 10, y: 0, z: 15 });
+    // Heading +z yaws to 0
+    expect(mesh.rotation.y).toBeCloseTo(0);
+  });
+
+  it('rejects bezier paths with the wrong number of points', () => {
+    expect(() => new MotionPath({ points: [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }, { x: 4, y: 4 }], curve: 'bezier' })).toThrow();
+    expect(new MotionPath({ points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }, { x: 4, y: 0 }, { x: 5, y: 0 }, { x: 6, y: 0 }], curve: 'bezier' }).length).toBeCloseTo(6);
+  });
+});
+
+describe('TweenPlugins', () => {
+  it('routes custom values through registered plugins', () => {
+    class Degrees {
+      constructor(readonly value: number) {}
+    }
+    TweenPlugins.register({
+      name: 'degrees',
+      test: (v) => v instanceof Degrees,
+      init: (owner, key, end: Degrees) => ({ from: owner[key] as number, to: (end.value * Math.PI) / 180 }),
+      apply: (owner, key, s: { from: number; to: number }, p) => {
+        owner[key] = s.from + (s.to - s.from) * p;
+      },
+    });
+
+    const obj = { angle: 0 };
+    Tween.to(obj, { angle: new Degrees(180) }, { duration: 100, ease: Ease.linear });
+    TweenManager.update(100);
+    expect(obj.angle).toBeCloseTo(Math.PI);
+  });
+
+  it('renders plugin values when seeking a timeline', () => {
+    const sprite = { tint: 0x000000 };
+    const tl = Timeline.create({ paused: true }).to(sprite, { tint: color(0xffffff) }, { duration: 100, ease: Ease.linear });
+    tl.seek(100);
+    expect(sprite.tint).toBe(0xffffff);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * @jest-environment jsdom
+ */
+
+jest.mock('../../../src/graphics/GraphicsEngine', () => ({
+  graphics: jest.fn(),
+}));
+
+import { EventEmitter } from 'eventemitter3';
+import { graphics } from '../../../src/graphics/GraphicsEngine';
+import { AccessibilityManager } from '../../../src/ui/accessibility/AccessibilityManager';
+import { UIContainer } from '../../../src/ui/components/UIContainer';
+import { UIText } from '../../../src/ui/components/UIText';
+import { Toast } from '../../../src/boilerplate/Toast';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeMockContainer(bounds = { x: 0, y: 0, width: 100, height: 40 }): any {
+  const container: any = new EventEmitter();
+  Object.assign(container, {
+    x: 0,
+    y: 0,
+    alpha: 1,
+    visible: true,
+    eventMode: 'static',
+    parent: null,
+    children: [] as any[],
+    addChild: (c: any) => { container.children.push(c); c.parent = container; return c; },
+    removeChild: (c: any) => c,
+    getBounds: () => bounds,
+    destroy: jest.fn(),
+  });
+  return container;
+}
+
+(graphics as jest.Mock).mockReturnValue({
+  createContainer: () => makeMockContainer(),
+  createGraphics: () => {
+    const g = makeMockContainer();
+    g.roundRect = jest.fn().mockReturnValue(g);
+    g.fill = jest.fn().mockReturnValue(g);
+    return g;
+  },
+  createText: (text: string) => ({ ...makeMockContainer(), text, width: 80, height: 20 }),
+});
+
+function keydown(element: HTMLElement, key: string): void {
+  element.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+}
+
+let a11y: AccessibilityManager;
+
+beforeEach(() => {
+  a11y = new AccessibilityManager({ parent: document.body, resolution: 1 });
+});
+
+afterEach(() => {
+  a11y.destroy();
+  jest.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// Proxies
+// ---------------------------------------------------------------------------
+
+describe('AccessibilityManager proxies', () => {
+  it('mirrors role and label and taps the target when activated', () => {
+    const container = makeMockContainer({ x: 20, y: 10, width: 100, height: 40 });
+    const down = jest.fn();
+    const up = jest.fn();
+    container.on('pointerdown', down);
+    container.on('pointerup', up);
+    const activated = jest.fn();
+    a11y.on('activate', activated);
+
+    const node = a11y.register(container, { role: 'button', label: 'Play' });
+
+    expect(node.element.tagName).toBe('BUTTON');
+    expect(node.element.getAttribute('aria-label')).toBe('Play');
+    expect(node.element.style.left).toBe('20px');
+    expect(node.element.style.width).toBe('100px');
+
+    node.element.click();
+
+    expect(down).toHaveBeenCalledTimes(1);
+    expect(up).toHaveBeenCalledTimes(1);
+    // Synthesized at the centre of the target
+    expect(up.mock.calls[0][0].global).toEqual({ x: 70, y: 30 });
+    expect(up.mock.calls[0][0].getLocalPosition()).toEqual({ x: 50, y: 20 });
+    expect(activated).toHaveBeenCalledWith(node);
+  });
+
+  it('activates with Enter and Space, writes state and ignores disabled targets', () => {
+    let checked = false;
+    let disabled = false;
+    const node = a11y.register(makeMockContainer(), {
+      role: 'checkbox',
+      label: 'Sound',
+      state: () => ({ checked, disabled }),
+      activate: () => { checked = !checked; }
+    });
+
+    expect(node.element.getAttribute('role')).toBe('checkbox');
+    expect(node.element.getAttribute('tabindex')).toBe('0');
+    expect(node.element.getAttribute('aria-checked')).toBe('false');
+
+    keydown(node.element, 'Enter');
+    expect(node.element.getAttribute('aria-checked')).toBe('true');
+    keydown(node.element, ' ');
+    expect(node.element.getAttribute('aria-checked')).toBe('false');
+
+    disabled = true;
+    a11y.sync();
+    expect(node.element.getAttribute('aria-disabled')).toBe('true');
+    keydown(node.element, 'Enter');
+    expect(checked).toBe(false);
+  });
+
+  it('orders proxies by order then registration and follows visibility on update()', () => {
+    const hiddenLater = makeMockContainer();
+    const first = a11y.register(makeMockContainer(), { role: 'button', label: 'A' });
+    const second = a11y.register(hiddenLater, { role: 'button', label: 'B' });
+    const top = a11y.register(makeMockContainer(), { role: 'button', label: 'C', order: -1 });
+
+    const labels = Array.from(first.element.parentElement!.children).map((e) => e.getAttribute('aria-label'));
+    expect(labels).toEqual(['C', 'A', 'B']);
+    expect(top.element.hidden).toBe(false);
+
+    hiddenLater.visible = false;
+    a11y.update(100);
+    expect(second.element.hidden).toBe(false);
+    a11y.update(100);
+    expect(second.element.hidden).toBe(true);
+  });
+
+  it('exposes sliders as range inputs and forwards input', () => {
+    let value = 30;
+    const node = a11y.register(makeMockContainer(), {
+      role: 'slider',
+      label: 'Volume',
+      state: () => ({ value, min: 0, max: 100, step: 10 }),
+      setValue: (v) => { value = v; }
+    });
+    const input = node.element as HTMLInputElement;
+
+    expect(input.type).toBe('range');
+    expect(input.value).toBe('30');
+    expect(input.max).toBe('100');
+
+    input.value = '70';
+    input.dispatchEvent(new Event('input'));
+    expect(value).toBe(70);
+  });
+
+  it('mirrors BaseUIComponent hierarchies and drops destroyed children', () => {
+    const root = new UIContainer();
+    // Text is assigned directly: jsdom has no canvas text metrics
+    const title = new UIText();
+    title.text = 'Shop';
+    root.addChild(title);
+
+    const node = a11y.register(root);
+    expect(node.role).toBe('group');
+    expect(node.children).toHaveLength(1);
+    expect(a11y.getNode(title)!.element.textContent).toBe('Shop');
+
+    const coins = new UIText();
+    root.addChild(coins);
+    expect(node.children).toHaveLength(2);
+
+    title.text = 'Store';
+    a11y.sync();
+    expect(a11y.getNode(title)!.element.textContent).toBe('Store');
+
+    coins.destroy();
+    expect(a11y.getNode(coins)).toBeUndefined();
+    expect(node.children).toHaveLength(1);
+  });
+
+  it('throws when no role can be inferred', () => {
+    expect(() => a11y.register({})).toThrow(/role/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Dialogs and announcements
+// ---------------------------------------------------------------------------
+
+describe('AccessibilityManager dialogs and announcements', () => {
+  it('moves focus into an open dialog, hides the rest and restores focus on close', () => {
+    const menu = a11y.register(makeMockContainer(), { role: 'button', label: 'Settings' });
+    menu.focus();
+
+    const panel = makeMockContainer();
+    panel.visible = false;
+    const dismiss = jest.fn(() => { panel.visible = false; });
+    const dialog = a11y.register(panel, { role: 'dialog', label: 'Settings', dismiss });
+    const close = a11y.register(makeMockContainer(), { role: 'button', label: 'Close', parent: dialog });
+
+    expect(dialog.element.hidden).toBe(true);
+
+    panel.visible = true;
+    a11y.sync();
+    expect(document.activeElement).toBe(close.element);
+    expect(menu.element.getAttribute('aria-hidden')).toBe('true');
+    expect(menu.element.hasAttribute('inert')).toBe(true);
+
+    keydown(close.element, 'Escape');
+    expect(dismiss).toHaveBeenCalled();
+
+    a11y.sync();
+    expect(menu.element.hasAttribute('aria-hidden')).toBe(false);
+    expect(document.activeElement).toBe(menu.element);
+  });
+
+  it('announces through live regions and reads toasts', () => {
+    jest.useFakeTimers();
+    const announced = jest.fn();
+    a11y.on('announce', announced);
+
+    a11y.announce('Level complete');
+    const polite = a11y.root.querySelector('[aria-live="polite"]')!;
+    expect(polite.textContent).toBe('');
+    jest.advanceTimersByTime(50);
+    expect(polite.textContent).toBe('Level complete');
+
+    Toast.show(makeMockContainer(), { text: 'Connection lost', type: 'error' });
+    expect(announced).toHaveBeenLastCalledWith('Connection lost', 'assertive');
+    jest.advanceTimersByTime(50);
+    expect(a11y.root.querySelector('[aria-live="assertive"]')!.textContent).toBe('Connection lost');
+
+    a11y.destroy();
+    Toast.show(makeMockContainer(), 'after destroy');
+    expect(announced).toHaveBeenCalledTimes(2);
+    expect(document.querySelector('[data-gamebyte-a11y]')).toBeNull();
+  });
+});
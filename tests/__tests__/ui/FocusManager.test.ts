@@ -0,0 +1,277 @@
+/**
+ * @jest-environment jsdom
+ */
+
+jest.mock('../../../src/graphics/GraphicsEngine', () => ({
+  graphics: jest.fn(),
+}));
+
+import { EventEmitter } from 'eventemitter3';
+import { graphics } from '../../../src/graphics/GraphicsEngine';
+import { FocusManager } from '../../../src/ui/focus/FocusManager';
+import { findNeighbor, findWrapTarget } from '../../../src/ui/focus/spatialNavigation';
+import type { Focusable, FocusDirection } from '../../../src/ui/focus/Focusable';
+import { GameByteUINavigationHandler } from '../../../src/input/handlers/UINavigationHandler';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeMockContainer(): any {
+  const container: any = new EventEmitter();
+  Object.assign(container, {
+    x: 0,
+    y: 0,
+    alpha: 1,
+    visible: true,
+    parent: null,
+    children: [] as any[],
+    addChild: (c: any) => { container.children.push(c); c.parent = container; return c; },
+    removeChild: (c: any) => c,
+    destroy: jest.fn(),
+  });
+  return container;
+}
+
+function makeMockGraphics(): any {
+  const g: any = makeMockContainer();
+  for (const method of ['clear', 'roundRect', 'stroke', 'fill']) {
+    g[method] = jest.fn().mockReturnValue(g);
+  }
+  return g;
+}
+
+(graphics as jest.Mock).mockReturnValue({
+  createContainer: () => makeMockContainer(),
+  createGraphics: () => makeMockGraphics(),
+});
+
+class Control implements Focusable {
+  readonly container = makeMockContainer();
+  enabled = true;
+  activations = 0;
+  constructor(readonly name: string, x: number, y: number, width = 100, height = 40, parent?: any) {
+    this.container.getBounds = () => ({ x, y, width, height });
+    parent?.addChild(this.container);
+  }
+  getContainer() { return this.container; }
+  canFocus() { return this.enabled; }
+  activate() { this.activations++; }
+}
+
+class Stepper extends Control {
+  value = 5;
+  adjust(direction: FocusDirection): boolean {
+    if (direction !== 'left' && direction !== 'right') return false;
+    const next = this.value + (direction === 'right' ? 1 : -1);
+    if (next < 0 || next > 10) return false;
+    this.value = next;
+    return true;
+  }
+}
+
+/**
+ * [A] [B] [C]
+ * [D]     [E]
+ */
+function grid() {
+  return {
+    a: new Control('A', 0, 0),
+    b: new Control('B', 150, 0),
+    c: new Control('C', 300, 0),
+    d: new Control('D', 0, 100),
+    e: new Control('E', 300, 100),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Spatial search
+// ---------------------------------------------------------------------------
+
+describe('spatial navigation', () => {
+  const from = { x: 0, y: 0, width: 100, height: 40 };
+
+  it('prefers the same row over a closer diagonal', () => {
+    const sameRow = { x: 250, y: 0, width: 100, height: 40 };
+    const diagonal = { x: 120, y: 120, width: 100, height: 40 };
+    expect(findNeighbor(from, [diagonal, sameRow], 'right')).toBe(1);
+    expect(findNeighbor(from, [diagonal, sameRow], 'left')).toBe(-1);
+    expect(findNeighbor(from, [diagonal, sameRow], 'down')).toBe(0);
+  });
+
+  it('wraps to the far side of the same row', () => {
+    const row = [
+      { x: 150, y: 0, width: 100, height: 40 },
+      { x: 300, y: 0, width: 100, height: 40 },
+      { x: 0, y: 200, width: 100, height: 40 },
+    ];
+    const last = row[1];
+    expect(findWrapTarget(last, [from, ...row], 'right')).toBe(0);
+    expect(findWrapTarget(from, row, 'left')).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// FocusManager
+// ---------------------------------------------------------------------------
+
+describe('FocusManager', () => {
+  it('moves focus between neighbours and skips controls that cannot focus', () => {
+    const layer = makeMockContainer();
+    const focus = new FocusManager({ layer });
+    const { a, b, c, d, e } = grid();
+    for (const control of [a, b, c, d, e]) focus.register(control);
+
+    // First input lands on the top-left control
+    expect(focus.move('right')).toBe(true);
+    expect(focus.getFocused()).toBe(a);
+    expect(focus.getRing()!.isVisible()).toBe(true);
+
+    focus.move('right');
+    expect(focus.getFocused()).toBe(b);
+    focus.move('down');
+    // D and E are equally far below B
+    expect([d, e]).toContain(focus.getFocused());
+
+    focus.focus(c);
+    b.enabled = false;
+    focus.move('left');
+    expect(focus.getFocused()).toBe(a);
+
+    expect(focus.move('left')).toBe(false);
+    focus.setWrap(true);
+    focus.move('left');
+    expect(focus.getFocused()).toBe(c);
+
+    focus.destroy();
+  });
+
+  it('lets the focused control consume directions and activates on confirm', () => {
+    const focus = new FocusManager({ ring: false });
+    const slider = new Stepper('volume', 0, 0);
+    const next = new Control('next', 200, 0);
+    focus.register(slider, { autoFocus: true });
+    focus.register(next);
+    const adjusted = jest.fn();
+    focus.on('adjust', adjusted);
+
+    focus.move('down');
+    expect(focus.getFocused()).toBe(slider);
+
+    focus.move('right');
+    expect(slider.value).toBe(6);
+    expect(adjusted).toHaveBeenCalledWith(slider, 'right');
+    expect(focus.getFocused()).toBe(slider);
+
+    slider.value = 10;
+    focus.move('right');
+    expect(focus.getFocused()).toBe(next);
+
+    expect(focus.confirm()).toBe(true);
+    expect(next.activations).toBe(1);
+    next.enabled = false;
+    expect(focus.confirm()).toBe(false);
+  });
+
+  it('honours fixed neighbours', () => {
+    const focus = new FocusManager({ ring: false });
+    const { a, b, c } = grid();
+    focus.register(a, { neighbors: { right: c, down: null } });
+    focus.register(b);
+    focus.register(c);
+
+    focus.focus(a);
+    focus.move('right');
+    expect(focus.getFocused()).toBe(c);
+    focus.focus(a);
+    expect(focus.move('down')).toBe(false);
+  });
+
+  it('traps focus in a panel while shown and restores it on hide', () => {
+    const focus = new FocusManager({ ring: false });
+    const stage = makeMockContainer();
+    const menu = new Control('menu', 0, 0, 100, 40, stage);
+
+    const panelContainer = makeMockContainer();
+    stage.addChild(panelContainer);
+    const ok = new Control('ok', 100, 300, 100, 40, panelContainer);
+    const cancel = new Control('cancel', 250, 300, 100, 40, panelContainer);
+
+    let visible = false;
+    const panel: any = new EventEmitter();
+    panel.getContainer = () => panelContainer;
+    panel.isVisible = () => visible;
+    panel.close = jest.fn(async () => { visible = false; panel.emit('hide'); });
+
+    for (const control of [menu, ok, cancel]) focus.register(control);
+    focus.focus(menu);
+    focus.trapPanel(panel);
+
+    visible = true;
+    panel.emit('show');
+    expect(focus.getFocused()).toBe(ok);
+
+    focus.move('right');
+    expect(focus.getFocused()).toBe(cancel);
+    // Nothing outside the panel is reachable
+    focus.move('up');
+    expect(focus.getFocused()).toBe(cancel);
+    expect(focus.focus(menu)).toBe(false);
+
+    focus.cancel();
+    expect(panel.close).toHaveBeenCalled();
+    expect(focus.getFocused()).toBe(menu);
+  });
+
+  it('follows a UINavigationHandler and drops focus from hidden controls', () => {
+    const navigation = new GameByteUINavigationHandler();
+    navigation.activate('menu');
+    const focus = new FocusManager({ ring: false, navigation });
+    const { a, b } = grid();
+    focus.register(a);
+    focus.register(b);
+
+    navigation.moveFocus('right');
+    navigation.moveFocus('right');
+    expect(focus.getFocused()).toBe(b);
+
+    navigation.handleInput({ type: 'key-down', device: 'keyboard', key: 'ArrowLeft', timestamp: 0 } as any);
+    expect(focus.getFocused()).toBe(a);
+
+    navigation.confirmSelection();
+    expect(a.activations).toBe(1);
+
+    a.container.visible = false;
+    focus.update(16);
+    expect(focus.getFocused()).toBeNull();
+
+    navigation.destroy();
+    focus.destroy();
+  });
+
+  it('moves focus once per axis with the left stick', () => {
+    const navigation = new GameByteUINavigationHandler();
+    navigation.activate('menu');
+    const moves: string[] = [];
+    navigation.on('focus-move', (direction: string) => moves.push(direction));
+    const axis = (axisIndex: number, axisValue: number) =>
+      navigation.handleInput({ type: 'gamepad-axis', device: 'gamepad', gamepadIndex: 0, axisIndex, axisValue, timestamp: 0 } as any);
+
+    axis(0, 0.9);
+    axis(0, 0.95);
+    expect(moves).toEqual(['right']);
+
+    // Diagonal: Y crosses the dead zone once, X keeps its state
+    axis(1, 0.9);
+    axis(0, 0.8);
+    axis(1, 0.85);
+    expect(moves).toEqual(['right', 'down']);
+
+    axis(0, 0);
+    axis(1, 0);
+    axis(0, -0.9);
+    expect(moves).toEqual(['right', 'down', 'left']);
+
+    navigation.destroy();
+  });
+});
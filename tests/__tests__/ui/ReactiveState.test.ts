@@ -0,0 +1,229 @@
+import { createState } from '../../../src/ui/state/ReactiveState';
+import { batch, computed, effect, reactive, toRaw, watch } from '../../../src/ui/state/reactivity';
+import { persist } from '../../../src/ui/state/persist';
+import { SaveSystem } from '../../../src/save/SaveSystem';
+
+function memoryStorage() {
+  const store = new Map<string, string>();
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); },
+  };
+}
+
+describe('createState', () => {
+  it('keeps key listeners, batching and reset', () => {
+    const state = createState({ coins: 0, health: 100 });
+    const coins = jest.fn();
+    const any = jest.fn();
+    state.on('coins', coins);
+    state.onChange(any);
+
+    state.coins += 50;
+    expect(coins).toHaveBeenCalledWith(50, 0, 'coins');
+
+    state.batch((s) => {
+      s.coins += 10;
+      s.coins += 10;
+      s.health -= 5;
+    });
+    expect(coins).toHaveBeenCalledTimes(2);
+    expect(coins).toHaveBeenLastCalledWith(70, 50, 'coins');
+    expect(any).toHaveBeenCalledTimes(3);
+
+    state.reset();
+    expect(state.value).toEqual({ coins: 0, health: 100 });
+    expect('coins' in state && 'on' in state).toBe(true);
+    expect(Object.keys(state)).toEqual(['coins', 'health']);
+  });
+
+  it('tracks nested objects and arrays', () => {
+    const initial = { player: { name: 'ada', stats: { level: 1 } }, items: ['axe'] };
+    const state = createState(initial);
+    const player = jest.fn();
+    const items = jest.fn();
+    state.on('player', player);
+    state.on('items', items);
+
+    state.player.stats.level = 2;
+    expect(player).toHaveBeenCalledTimes(1);
+    expect(player.mock.calls[0][0].stats.level).toBe(2);
+
+    state.items.push('sword');
+    expect(items).toHaveBeenCalled();
+    expect(state.items).toEqual(['axe', 'sword']);
+
+    // The caller's object and reset() are unaffected by nested writes
+    expect(initial.player.stats.level).toBe(1);
+    state.reset();
+    expect(state.player.stats.level).toBe(1);
+    expect(state.items).toEqual(['axe']);
+  });
+});
+
+describe('dependency tracking', () => {
+  it('recomputes computed values only when what they read changes', () => {
+    const state = createState({ base: 10, bonus: 5, unrelated: 0 });
+    const getter = jest.fn(() => state.base + state.bonus);
+    const total = computed(getter);
+
+    expect(total.value).toBe(15);
+    expect(total.value).toBe(15);
+    expect(getter).toHaveBeenCalledTimes(1);
+
+    state.unrelated = 1;
+    expect(total.value).toBe(15);
+    expect(getter).toHaveBeenCalledTimes(1);
+
+    state.bonus = 10;
+    expect(total.value).toBe(20);
+    expect(getter).toHaveBeenCalledTimes(2);
+  });
+
+  it('re-runs effects through computed chains and switches dependencies', () => {
+    const state = reactive({ showGold: true, gold: 5, gems: 1 });
+    const label = computed(() => (state.showGold ? `${state.gold} gold` : `${state.gems} gems`));
+    const seen: string[] = [];
+    const stop = effect(() => { seen.push(label.value); });
+
+    state.gold = 6;
+    state.showGold = false;
+    // No longer read
+    state.gold = 7;
+    state.gems = 2;
+    expect(seen).toEqual(['5 gold', '6 gold', '1 gems', '2 gems']);
+
+    stop();
+    state.gems = 3;
+    expect(seen).toHaveLength(4);
+  });
+
+  it('coalesces effects inside batch()', () => {
+    const a = reactive({ x: 1 });
+    const b = createState({ y: 1 });
+    const runs = jest.fn();
+    effect(() => runs(a.x + b.y));
+
+    batch(() => {
+      a.x = 2;
+      b.y = 2;
+      a.x = 3;
+    });
+    expect(runs).toHaveBeenCalledTimes(2);
+    expect(runs).toHaveBeenLastCalledWith(5);
+  });
+
+  it('watches getters and reactive objects with deep and immediate options', () => {
+    const state = createState({ level: 1, inventory: [{ id: 'axe', count: 1 }] });
+    const level = jest.fn();
+    watch(() => state.level, level, { immediate: true });
+    expect(level).toHaveBeenCalledWith(1, undefined);
+    state.level = 2;
+    expect(level).toHaveBeenLastCalledWith(2, 1);
+
+    const shallow = jest.fn();
+    const deep = jest.fn();
+    watch(() => state.inventory, shallow);
+    watch(() => state.inventory, deep, { deep: true });
+    const whole = jest.fn();
+    const stop = watch(state, whole);
+
+    state.inventory[0].count++;
+    expect(shallow).not.toHaveBeenCalled();
+    expect(deep).toHaveBeenCalledTimes(1);
+    expect(whole).toHaveBeenCalledTimes(1);
+    expect(toRaw(state.inventory[0])).toEqual({ id: 'axe', count: 2 });
+
+    stop();
+    state.level = 3;
+    expect(whole).toHaveBeenCalledTimes(1);
+  });
+
+  it('flushes frame watchers once per frame', () => {
+    jest.useFakeTimers();
+    try {
+      const state = reactive({ score: 0 });
+      const changed = jest.fn();
+      watch(() => state.score, changed, { flush: 'frame' });
+      state.score = 1;
+      state.score = 2;
+      expect(changed).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(16);
+      expect(changed).toHaveBeenCalledTimes(1);
+      expect(changed).toHaveBeenCalledWith(2, 0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('persist', () => {
+  it('restores saved values and writes changes back', () => {
+    const storage = memoryStorage();
+    const defaults = { coins: 0, unlocked: [1] };
+    const first = new SaveSystem({ key: 'persist-test', version: 1, defaults, storage });
+    first.save({ coins: 40 });
+
+    const save = new SaveSystem({ key: 'persist-test', version: 1, defaults, storage });
+    const state = createState({ coins: 0, unlocked: [1], paused: false });
+    const handle = persist(state, save, { keys: ['coins', 'unlocked'] });
+    expect(state.coins).toBe(40);
+
+    state.unlocked.push(2);
+    state.paused = true;
+    handle.flush();
+    const reloaded = new SaveSystem({ key: 'persist-test', version: 1, defaults, storage }).load();
+    expect(reloaded).toEqual({ coins: 40, unlocked: [1, 2] });
+
+    handle.stop();
+    state.coins = 99;
+    expect(new SaveSystem({ key: 'persist-test', version: 1, defaults, storage }).load().coins).toBe(40);
+  });
+
+  it('debounces writes and flushes on demand', () => {
+    jest.useFakeTimers();
+    try {
+      const save = new SaveSystem({ key: 'persist-debounce', version: 1, defaults: { coins: 0 }, storage: memoryStorage() });
+      const saved = jest.fn();
+      save.on('saved', saved);
+      const state = createState({ coins: 0 });
+      const handle = persist(state, save, { debounce: 500 });
+
+      state.coins = 1;
+      state.coins = 2;
+      jest.advanceTimersByTime(499);
+      expect(saved).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1);
+      expect(saved).toHaveBeenCalledTimes(1);
+      expect(saved).toHaveBeenCalledWith({ coins: 2 });
+
+      state.coins = 3;
+      handle.flush();
+      expect(saved).toHaveBeenCalledTimes(2);
+      handle.stop();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('writes at most once per frame by default', () => {
+    jest.useFakeTimers();
+    try {
+      const save = new SaveSystem({ key: 'persist-frame', version: 1, defaults: { coins: 0 }, storage: memoryStorage() });
+      const saved = jest.fn();
+      save.on('saved', saved);
+      const state = createState({ coins: 0 });
+      const handle = persist(state, save);
+
+      for (let i = 1; i <= 20; i++) state.coins = i;
+      expect(saved).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(16);
+      expect(saved).toHaveBeenCalledTimes(1);
+      expect(saved).toHaveBeenCalledWith({ coins: 20 });
+      handle.stop();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
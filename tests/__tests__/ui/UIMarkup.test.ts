@@ -0,0 +1,320 @@
+/**
+ * @jest-environment jsdom
+ */
+
+jest.mock('../../../src/graphics/GraphicsEngine', () => ({
+  graphics: jest.fn(),
+}));
+
+import { EventEmitter } from 'eventemitter3';
+import { graphics } from '../../../src/graphics/GraphicsEngine';
+import { compileExpression, compileTemplate } from '../../../src/ui/markup/Expression';
+import { MarkupRegistry, markupComponents } from '../../../src/ui/markup/MarkupRegistry';
+import { MarkupView } from '../../../src/ui/markup/MarkupView';
+import { h } from '../../../src/ui/markup/UINode';
+import { createState } from '../../../src/ui/state/ReactiveState';
+import { LayoutPresets } from '../../../src/layout/LayoutStyles';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeMockContainer(): any {
+  const container: any = new EventEmitter();
+  Object.assign(container, {
+    x: 0,
+    y: 0,
+    alpha: 1,
+    visible: true,
+    parent: null,
+    destroyed: false,
+    children: [] as any[],
+    addChild: (c: any) => {
+      c.parent?.removeChild(c);
+      container.children.push(c);
+      c.parent = container;
+      return c;
+    },
+    removeChild: (c: any) => {
+      container.children = container.children.filter((child: any) => child !== c);
+      c.parent = null;
+      return c;
+    },
+    getChildIndex: (c: any) => container.children.indexOf(c),
+    setChildIndex: (c: any, index: number) => {
+      container.children = container.children.filter((child: any) => child !== c);
+      container.children.splice(index, 0, c);
+    },
+    destroy: jest.fn(() => {
+      container.destroyed = true;
+      container.parent?.removeChild(container);
+    }),
+  });
+  return container;
+}
+
+(graphics as jest.Mock).mockReturnValue({
+  createContainer: () => makeMockContainer(),
+  createText: (text: string, style: any) => Object.assign(makeMockContainer(), { text, style: { ...style } }),
+});
+
+/** Minimal game widget: emits 'click', has a setter for `amount` only */
+class Badge extends EventEmitter {
+  readonly container = makeMockContainer();
+  destroyed = false;
+  constructor(public amount: number, public color: string) {
+    super();
+  }
+  getContainer() { return this.container; }
+  setAmount(amount: number) { this.amount = amount; }
+  destroy() {
+    this.destroyed = true;
+    this.container.destroy();
+    this.removeAllListeners();
+  }
+}
+
+function createRegistry(): MarkupRegistry {
+  return new MarkupRegistry()
+    .register('container', markupComponents.get('container')!)
+    .register('text', markupComponents.get('text')!)
+    .register('Badge', { create: (props) => new Badge(props.amount, props.color) });
+}
+
+// ---------------------------------------------------------------------------
+// Expressions
+// ---------------------------------------------------------------------------
+
+describe('markup expressions', () => {
+  it('evaluates operators, members and calls and reports root dependencies', () => {
+    const expr = compileExpression("player.coins >= price ? 'Buy' : 'Need ' + (price - player.coins)");
+    expect(expr.dependencies).toEqual(['player', 'price']);
+    expect(expr.evaluate({ player: { coins: 40 }, price: 100 })).toBe('Need 60');
+    expect(expr.evaluate({ player: { coins: 140 }, price: 100 })).toBe('Buy');
+
+    expect(compileExpression('name.toUpperCase()').evaluate({ name: 'ada' })).toBe('ADA');
+    expect(compileExpression('missing?.deep.value ?? -1').evaluate({})).toBe(-1);
+    expect(compileExpression('items[1] * 2 % 5').evaluate({ items: [0, 4] })).toBe(3);
+  });
+
+  it('keeps a lone binding raw and joins mixed text', () => {
+    expect(compileTemplate('{{ level }}').evaluate({ level: 3 })).toBe(3);
+    expect(compileTemplate('Level {{ level }} / {{ max }}').evaluate({ level: 3 })).toBe('Level 3 / ');
+    expect(compileTemplate('plain').isStatic).toBe(true);
+  });
+
+  it('cannot reach constructors or run statements', () => {
+    expect(compileExpression("name.constructor.constructor('return 1')()").evaluate({ name: 'x' })).toBeUndefined();
+    expect(compileExpression('obj.__proto__').evaluate({ obj: {} })).toBeUndefined();
+    expect(() => compileExpression('a = 1')).toThrow(/UIMarkup/);
+    expect(() => compileTemplate('{{ a ')).toThrow(/unclosed/);
+  });
+
+  it('only calls functions that cannot change state', () => {
+    const items = [1, 2, 3];
+    const counts = new Map([['a', 1]]);
+    const scope = { items, counts, fmt: { pct: (n: number) => `${n}%` }, double: (n: number) => n * 2 };
+
+    expect(compileExpression('items.splice(0)').evaluate(scope)).toBeUndefined();
+    expect(compileExpression('items.push.call(items, 4)').evaluate(scope)).toBeUndefined();
+    expect(compileExpression('counts.clear()').evaluate(scope)).toBeUndefined();
+    expect(items).toEqual([1, 2, 3]);
+    expect(counts.size).toBe(1);
+
+    class Player {
+      hp = 10;
+      reset = () => { this.hp = 0; };
+    }
+    const player = new Player();
+    expect(compileExpression('player.reset()').evaluate({ player })).toBeUndefined();
+    expect(compileExpression('(player.reset)()').evaluate({ player })).toBeUndefined();
+    expect(compileExpression('(true ? player.reset : 0)()').evaluate({ player })).toBeUndefined();
+    expect(player.hp).toBe(10);
+
+    expect(compileExpression("items.includes(2) && items.join('-')").evaluate(scope)).toBe('1-2-3');
+    expect(compileExpression('fmt.pct(double(items.length))').evaluate(scope)).toBe('6%');
+    expect(compileExpression('(1.5).toFixed(2)').evaluate(scope)).toBe('1.50');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// MarkupView
+// ---------------------------------------------------------------------------
+
+describe('MarkupView', () => {
+  it('builds the tree, applies layouts and follows state', () => {
+    const state = createState({ coins: 10, showBadge: true });
+    const view = new MarkupView({
+      styles: { header: { flexDirection: 'row', gap: 8 } },
+      root: {
+        type: 'container',
+        layout: 'center',
+        children: [
+          { type: 'text', id: 'title', layout: 'header', props: { text: '{{ coins }} coins', fontSize: 24 } },
+          { type: 'Badge', id: 'badge', x: '{{ coins * 2 }}', visible: '{{ showBadge }}', props: { amount: '{{ coins }}', color: 'red' } },
+        ],
+      },
+    }, { state, registry: createRegistry() });
+
+    const root = view.getContainer().children[0];
+    expect(root.layout).toEqual(LayoutPresets.center);
+    const title = view.getElement<any>('title')!;
+    expect(title.text).toBe('10 coins');
+    expect(title.style.fontSize).toBe(24);
+    expect(title.layout).toEqual({ flexDirection: 'row', gap: 8 });
+
+    const badge = view.getElement<Badge>('badge')!;
+    expect(badge.amount).toBe(10);
+    expect(badge.container.x).toBe(20);
+
+    state.coins = 25;
+    expect(title.text).toBe('25 coins');
+    // setAmount() updates in place
+    expect(view.getElement('badge')).toBe(badge);
+    expect(badge.amount).toBe(25);
+    expect(badge.container.x).toBe(50);
+
+    state.showBadge = false;
+    expect(badge.container.visible).toBe(false);
+
+    view.destroy();
+  });
+
+  it('rebuilds a node in place when a bound prop has no setter', () => {
+    const state = createState({ color: 'red' });
+    const view = new MarkupView(
+      h('container', null,
+        h('text', { text: 'first' }),
+        h('Badge', { id: 'badge', amount: 1, color: '{{ color }}' }),
+        h('text', { text: 'last' })
+      ),
+      { state, registry: createRegistry() }
+    );
+    const root = view.getContainer().children[0];
+    const original = view.getElement<Badge>('badge')!;
+
+    state.color = 'blue';
+    const rebuilt = view.getElement<Badge>('badge')!;
+    expect(rebuilt).not.toBe(original);
+    expect(original.destroyed).toBe(true);
+    expect(rebuilt.color).toBe('blue');
+    expect(root.children.indexOf(rebuilt.container)).toBe(1);
+    expect(root.children).toHaveLength(3);
+
+    view.destroy();
+  });
+
+  it('routes component events to named actions and function handlers', () => {
+    const buy = jest.fn();
+    const direct = jest.fn();
+    const view = new MarkupView({
+      type: 'container',
+      children: [
+        h('Badge', { id: 'buy', amount: 1, on: { click: 'buy' } }),
+        h('Badge', { id: 'info', amount: 2, on: { click: direct } }),
+      ],
+    }, { registry: createRegistry(), actions: { buy } });
+    const heard = jest.fn();
+    view.on('action', heard);
+
+    view.getElement<Badge>('buy')!.emit('click', 'payload');
+    expect(buy).toHaveBeenCalledWith('payload');
+    expect(heard).toHaveBeenCalledWith('buy', 'payload');
+
+    view.getElement<Badge>('info')!.emit('click');
+    expect(direct).toHaveBeenCalled();
+    expect(heard).toHaveBeenCalledTimes(1);
+
+    view.destroy();
+  });
+
+  it('reloads definitions at runtime and keeps the old tree on errors', () => {
+    const state = createState({ coins: 5 });
+    const view = new MarkupView(h('text', { id: 'label', text: 'v1 {{ coins }}' }), { state, registry: createRegistry() });
+    const container = view.getContainer();
+    const first = view.getElement<any>('label')!;
+    const errors = jest.fn();
+    view.on('error', errors);
+
+    expect(view.reload({ root: { type: 'Unknown' } })).toBe(false);
+    expect(errors).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('Unknown') }));
+    expect(view.getElement('label')).toBe(first);
+
+    expect(view.reload(JSON.stringify({ root: { type: 'text', id: 'label', props: { text: 'v2 {{ coins }}' } } }))).toBe(true);
+    const second = view.getElement<any>('label')!;
+    expect(view.getContainer()).toBe(container);
+    expect(container.children).toEqual([second]);
+    expect(second.text).toBe('v2 5');
+
+    // Old bindings are released
+    state.coins = 6;
+    expect(first.text).toBe('v1 5');
+    expect(second.text).toBe('v2 6');
+
+    view.destroy();
+  });
+
+  it('disposes partially built trees when a reload fails', () => {
+    const state = createState({ coins: 1 });
+    const created: Badge[] = [];
+    const registry = createRegistry().register('Badge', {
+      create: (props) => {
+        const badge = new Badge(props.amount, props.color);
+        created.push(badge);
+        return badge;
+      },
+    });
+    const view = new MarkupView(h('container'), { state, registry });
+
+    const ok = view.reload({
+      root: h('container', null,
+        h('Badge', { id: 'orphan', amount: '{{ coins }}' }),
+        h('Missing')
+      ),
+    });
+    expect(ok).toBe(false);
+    expect(created).toHaveLength(1);
+    expect(created[0].destroyed).toBe(true);
+    expect(view.getElement('orphan')).toBeUndefined();
+
+    state.coins = 2;
+    expect(created[0].amount).toBe(1);
+    view.destroy();
+  });
+
+  it('watches a definition URL and reloads when it changes', async () => {
+    jest.useFakeTimers();
+    try {
+      const files = ['{"root":{"type":"text","id":"t","props":{"text":"a"}}}'];
+      const fetch = jest.fn(async () => ({ text: async () => files[files.length - 1] }));
+      const view = new MarkupView(h('container'), { registry: createRegistry() });
+      const rendered = jest.fn();
+      view.on('render', rendered);
+
+      const stop = view.watch('/screens/test.json', { interval: 500, fetch });
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(view.getElement<any>('t')!.text).toBe('a');
+
+      // Same content: no re-render
+      jest.advanceTimersByTime(500);
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(rendered).toHaveBeenCalledTimes(1);
+
+      files.push('{"root":{"type":"text","id":"t","props":{"text":"b"}}}');
+      jest.advanceTimersByTime(500);
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(view.getElement<any>('t')!.text).toBe('b');
+
+      stop();
+      const calls = fetch.mock.calls.length;
+      jest.advanceTimersByTime(2000);
+      expect(fetch).toHaveBeenCalledTimes(calls);
+      view.destroy();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
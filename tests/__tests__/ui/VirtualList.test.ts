@@ -0,0 +1,300 @@
+/**
+ * @jest-environment jsdom
+ */
+
+jest.mock('../../../src/graphics/GraphicsEngine', () => ({
+  graphics: jest.fn(),
+}));
+
+import { EventEmitter } from 'eventemitter3';
+import { graphics } from '../../../src/graphics/GraphicsEngine';
+import { GameVirtualList } from '../../../src/ui/components/virtual/GameVirtualList';
+import { GameVirtualGrid } from '../../../src/ui/components/virtual/GameVirtualGrid';
+import { ListDataSource } from '../../../src/ui/components/virtual/ListDataSource';
+import { ScrollPhysics } from '../../../src/ui/components/virtual/ScrollPhysics';
+import type { VirtualItemRenderer } from '../../../src/ui/components/virtual/VirtualScrollView';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeMockContainer(): any {
+  const container: any = new EventEmitter();
+  Object.assign(container, {
+    x: 0,
+    y: 0,
+    alpha: 1,
+    rotation: 0,
+    visible: true,
+    children: [] as any[],
+    addChild: (c: any) => { container.children.push(c); return c; },
+    removeChild: (c: any) => c,
+    destroy: jest.fn(),
+  });
+  return container;
+}
+
+function makeMockGraphics(): any {
+  const g: any = makeMockContainer();
+  for (const method of ['clear', 'rect', 'roundRect', 'circle', 'arc', 'fill', 'stroke', 'moveTo', 'lineTo']) {
+    g[method] = jest.fn().mockReturnValue(g);
+  }
+  return g;
+}
+
+(graphics as jest.Mock).mockReturnValue({
+  createContainer: () => makeMockContainer(),
+  createGraphics: () => makeMockGraphics(),
+});
+
+interface Row {
+  label: string;
+  header?: boolean;
+}
+
+class RowView implements VirtualItemRenderer<Row> {
+  readonly container = makeMockContainer();
+  bound: Row | null = null;
+  index = -1;
+  binds = 0;
+  constructor(readonly type: string) {}
+  update(item: Row, index: number): void {
+    this.bound = item;
+    this.index = index;
+    this.binds++;
+  }
+}
+
+function rows(count: number): Row[] {
+  return Array.from({ length: count }, (_, i) => ({ label: `row ${i}` }));
+}
+
+/** 300x400 frame → 278x378 viewport (3px border + 8px padding) */
+function createList(data: Row[] | ListDataSource<Row>, extra: Partial<ConstructorParameters<typeof GameVirtualList<Row>>[0]> = {}) {
+  const created: RowView[] = [];
+  const list = new GameVirtualList<Row>({
+    width: 300,
+    height: 400,
+    overscan: 0,
+    data,
+    itemHeight: 50,
+    createItem: (type) => {
+      const view = new RowView(type);
+      created.push(view);
+      return view;
+    },
+    ...extra,
+  });
+  return { list, created };
+}
+
+function pointer(list: { getContainer(): any }, type: string, y: number, local?: { x: number; y: number }) {
+  list.getContainer().emit(type, { global: { x: 100, y }, getLocalPosition: local ? () => local : undefined });
+}
+
+/** Drive a drag with controlled timestamps */
+function drag(list: { getContainer(): any }, fromY: number, toY: number, durationMs: number) {
+  let now = 1000;
+  const spy = jest.spyOn(performance, 'now').mockImplementation(() => now);
+  pointer(list, 'pointerdown', fromY);
+  const steps = 5;
+  for (let i = 1; i <= steps; i++) {
+    now += durationMs / steps;
+    pointer(list, 'pointermove', fromY + ((toY - fromY) * i) / steps);
+  }
+  pointer(list, 'pointerup', toY);
+  spy.mockRestore();
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ScrollPhysics', () => {
+  it('flings with friction and stops inside bounds', () => {
+    const physics = new ScrollPhysics();
+    physics.setBounds(0, 1000);
+    physics.beginDrag(0);
+    physics.dragBy(50, 50);
+    physics.endDrag(50);
+    expect(physics.velocity).toBeCloseTo(1000);
+
+    for (let i = 0; i < 600 && physics.moving; i++) physics.update(1 / 60);
+    expect(physics.moving).toBe(false);
+    expect(physics.position).toBeGreaterThan(400);
+    expect(physics.position).toBeLessThanOrEqual(1000);
+  });
+
+  it('rubber-bands past the edge and springs back', () => {
+    const physics = new ScrollPhysics();
+    physics.setBounds(0, 500);
+    physics.beginDrag(0);
+    physics.dragBy(-100, 16);
+    expect(physics.position).toBeGreaterThan(-100);
+    expect(physics.overscroll).toBeLessThan(0);
+
+    physics.endDrag(500);
+    for (let i = 0; i < 120; i++) physics.update(1 / 60);
+    expect(physics.position).toBe(0);
+    expect(physics.moving).toBe(false);
+  });
+
+  it('animates scrollTo and clamps to bounds', () => {
+    const physics = new ScrollPhysics();
+    physics.setBounds(0, 200);
+    physics.scrollTo(500, 0.3);
+    physics.update(0.15);
+    expect(physics.position).toBeGreaterThan(100);
+    physics.update(0.2);
+    expect(physics.position).toBe(200);
+  });
+});
+
+describe('GameVirtualList', () => {
+  it('creates renderers only for visible rows and recycles them', () => {
+    const { list, created } = createList(rows(1000));
+    // 378px viewport / 50px rows = 8 rows
+    expect(list.getVisibleRange()).toEqual({ first: 0, last: 7 });
+    expect(created).toHaveLength(8);
+
+    list.scrollTo(1_000_000, false);
+    expect(list.getScrollY()).toBe(1000 * 50 - 378);
+    expect(list.getVisibleRange()).toEqual({ first: 992, last: 999 });
+    expect(list.getRendererCount()).toBe(8);
+    expect((list.getRenderer(999) as RowView).bound!.label).toBe('row 999');
+  });
+
+  it('supports variable heights and scrollToIndex alignment', () => {
+    const data = rows(100);
+    const { list } = createList(data, { itemHeight: (_item, i) => (i % 2 === 0 ? 40 : 80), gap: 10 });
+    // Pairs are 40 + 10 + 80 + 10 = 140px
+    list.scrollToIndex(10, { animate: false });
+    expect(list.getScrollY()).toBe(700);
+
+    list.scrollToIndex(11, { align: 'end', animate: false });
+    expect(list.getScrollY()).toBe(750 + 80 - 378);
+
+    list.scrollToIndex(11, { align: 'nearest', animate: false });
+    expect(list.getScrollY()).toBe(750 + 80 - 378);
+
+    list.scrollToIndex(20, { align: 'center', animate: true });
+    list.update(1000);
+    expect(list.getScrollY()).toBe(1400 + 20 - 189);
+  });
+
+  it('reacts to data source edits', () => {
+    const source = new ListDataSource(rows(3));
+    const { list } = createList(source);
+    expect(list.getVisibleRange()).toEqual({ first: 0, last: 2 });
+
+    source.insert(0, { label: 'new' });
+    expect((list.getRenderer(0) as RowView).bound!.label).toBe('new');
+    expect(list.getVisibleRange().last).toBe(3);
+
+    source.set(1, { label: 'edited' });
+    expect((list.getRenderer(1) as RowView).bound!.label).toBe('edited');
+
+    source.clear();
+    expect(list.getVisibleRange()).toEqual({ first: 0, last: -1 });
+  });
+
+  it('pins the current section header and lets the next one push it', () => {
+    const data: Row[] = [];
+    for (let s = 0; s < 5; s++) {
+      data.push({ label: `section ${s}`, header: true });
+      data.push(...rows(9));
+    }
+    const { list, created } = createList(data, { itemHeight: (row) => (row.header ? 30 : 50), isHeader: (row) => !!row.header });
+    // Section = 30 + 9 * 50 = 480px
+    expect(list.getStickyIndex()).toBe(-1);
+
+    list.scrollTo(100, false);
+    expect(list.getStickyIndex()).toBe(0);
+    const sticky = created.find((v) => v.type === 'header' && v.container.visible && v.index === 0 && v.container.y === 0);
+    expect(sticky).toBeDefined();
+
+    list.scrollTo(470, false);
+    expect(list.getStickyIndex()).toBe(0);
+    expect(sticky!.container.y).toBe(480 - 470 - 30);
+
+    list.scrollTo(500, false);
+    expect(list.getStickyIndex()).toBe(10);
+  });
+
+  it('scrolls by dragging with momentum and reports taps', () => {
+    const { list } = createList(rows(200));
+    const taps: number[] = [];
+    list.on('item-tap', (_row, index) => taps.push(index));
+
+    pointer(list, 'pointerdown', 300);
+    pointer(list, 'pointerup', 300, { x: 50, y: 120 });
+    expect(taps).toEqual([2]);
+
+    drag(list, 300, 100, 100);
+    const released = list.getScrollY();
+    expect(released).toBeGreaterThan(150);
+    list.update(16);
+    expect(list.getScrollY()).toBeGreaterThan(released);
+    expect(taps).toEqual([2]);
+  });
+
+  it('triggers pull-to-refresh and bounces back when done', async () => {
+    let finish!: () => void;
+    const onRefresh = jest.fn(() => new Promise<void>((resolve) => { finish = resolve; }));
+    const { list } = createList(rows(50), { onRefresh });
+    const ended = jest.fn();
+    list.on('refresh-end', ended);
+
+    drag(list, 100, 400, 300);
+    expect(list.getScrollY()).toBeLessThan(-64);
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+    expect(list.isRefreshing).toBe(true);
+
+    for (let i = 0; i < 60; i++) list.update(16);
+    expect(list.getScrollY()).toBeCloseTo(-64);
+
+    finish();
+    await Promise.resolve();
+    expect(ended).toHaveBeenCalled();
+    for (let i = 0; i < 120; i++) list.update(16);
+    expect(list.getScrollY()).toBe(0);
+  });
+});
+
+describe('GameVirtualGrid', () => {
+  it('lays out cells in columns and recycles by row', () => {
+    const created: RowView[] = [];
+    const grid = new GameVirtualGrid<Row>({
+      width: 300,
+      height: 400,
+      overscan: 0,
+      data: rows(500),
+      cellWidth: 60,
+      cellHeight: 60,
+      gap: 10,
+      createItem: (type) => {
+        const view = new RowView(type);
+        created.push(view);
+        return view;
+      },
+    });
+    // 278px wide: 4 columns of 60 + 3 gaps = 270, centred with a 4px inset
+    expect(grid.columns).toBe(4);
+    // 378px tall / 70px rows = 6 rows visible
+    expect(grid.getVisibleRange()).toEqual({ first: 0, last: 23 });
+    expect((grid.getRenderer(5) as RowView).container.x).toBe(4 + 70);
+
+    grid.scrollToIndex(499, { align: 'end', animate: false });
+    expect(grid.getScrollY()).toBe(125 * 70 - 10 - 378);
+    expect(grid.getRendererCount()).toBeLessThanOrEqual(28);
+
+    const taps: number[] = [];
+    grid.on('item-tap', (_row, index) => taps.push(index));
+    grid.scrollTo(0, false);
+    pointer(grid, 'pointerdown', 50);
+    pointer(grid, 'pointerup', 50, { x: 4 + 70 + 5, y: 70 + 5 });
+    pointer(grid, 'pointerdown', 50);
+    pointer(grid, 'pointerup', 50, { x: 4 + 65, y: 5 });
+    expect(taps).toEqual([5]);
+  });
+});